@@ -1,3 +1,5 @@
+import { isFeeTier, type FeeTier } from "../network/feeTiers";
+
 export interface PendingConnectRequest {
   requestId: string;
   tabId: number;
@@ -13,19 +15,43 @@ export interface PendingSignRequest {
   createdAt: number;
 }
 
+export interface PendingSendOutput {
+  address: string;
+  /** Decimal sompi string — BigInt does not survive extension messaging. */
+  amountSompi: string;
+}
+
+export interface PendingSendRequest {
+  requestId: string;
+  tabId: number;
+  origin?: string;
+  outputs: PendingSendOutput[];
+  /** OP_RETURN payload (hex, without the 6a opcode). */
+  payloadHex?: string;
+  feeTier?: FeeTier;
+  createdAt: number;
+}
+
 export interface PendingRequestState {
   activeConnect: PendingConnectRequest | null;
   activeSign: PendingSignRequest | null;
+  activeSend: PendingSendRequest | null;
   connectQueue: PendingConnectRequest[];
   signQueue: PendingSignRequest[];
+  sendQueue: PendingSendRequest[];
 }
 
+export const MAX_SEND_OUTPUTS = 20;
+export const MAX_SEND_PAYLOAD_BYTES = 80;
+
 export function emptyPendingRequestState(): PendingRequestState {
   return {
     activeConnect: null,
     activeSign: null,
+    activeSend: null,
     connectQueue: [],
     signQueue: [],
+    sendQueue: [],
   };
 }
 
@@ -63,6 +89,46 @@ function parsePendingSignRequest(value: unknown, now: number): PendingSignReques
   };
 }
 
+function parsePendingSendOutputs(value: unknown): PendingSendOutput[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_SEND_OUTPUTS) return null;
+  const outputs: PendingSendOutput[] = [];
+  for (const item of value) {
+    const o = item as Record<string, unknown> | null;
+    if (!o || typeof o.address !== "string" || !o.address.trim()) return null;
+    if (typeof o.amountSompi !== "string" || !/^[0-9]{1,20}$/.test(o.amountSompi) || BigInt(o.amountSompi) <= 0n) {
+      return null;
+    }
+    outputs.push({ address: o.address.trim(), amountSompi: o.amountSompi });
+  }
+  return outputs;
+}
+
+function parsePayloadHex(value: unknown): string | undefined | null {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string" || !/^([0-9a-fA-F]{2})+$/.test(value)) return null;
+  if (value.length / 2 > MAX_SEND_PAYLOAD_BYTES) return null;
+  return value.toLowerCase();
+}
+
+/** Validate a send request (also used on the raw site message). Null when malformed. */
+export function parsePendingSendRequest(value: unknown, now: number): PendingSendRequest | null {
+  const v = value as Record<string, unknown> | null;
+  if (!v || typeof v.requestId !== "string" || !v.requestId || !Number.isFinite(v.tabId)) return null;
+  const outputs = parsePendingSendOutputs(v.outputs);
+  const payloadHex = parsePayloadHex(v.payloadHex);
+  if (!outputs || payloadHex === null) return null;
+  if (v.feeTier !== undefined && !isFeeTier(v.feeTier)) return null;
+  return {
+    requestId: v.requestId,
+    tabId: Number(v.tabId),
+    origin: typeof v.origin === "string" && v.origin ? v.origin : undefined,
+    outputs,
+    payloadHex,
+    feeTier: isFeeTier(v.feeTier) ? v.feeTier : undefined,
+    createdAt: coerceCreatedAt(v.createdAt, now),
+  };
+}
+
 function sanitizeConnectQueue(value: unknown, now: number): PendingConnectRequest[] {
   if (!Array.isArray(value)) return [];
   const out: PendingConnectRequest[] = [];
@@ -85,21 +151,38 @@ function sanitizeSignQueue(value: unknown, now: number): PendingSignRequest[] {
   return out;
 }
 
+function sanitizeSendQueue(value: unknown, now: number): PendingSendRequest[] {
+  if (!Array.isArray(value)) return [];
+  const out: PendingSendRequest[] = [];
+  for (const item of value) {
+    const parsed = parsePendingSendRequest(item, now);
+    if (parsed) out.push(parsed);
+    if (out.length >= 100) break;
+  }
+  return out;
+}
+
 export function normalizePendingRequestState(raw: {
   activeConnect?: unknown;
   activeSign?: unknown;
+  activeSend?: unknown;
   connectQueue?: unknown;
   signQueue?: unknown;
+  sendQueue?: unknown;
 }, now: number = Date.now()): PendingRequestState {
   const connectQueue = sanitizeConnectQueue(raw.connectQueue, now);
   const signQueue = sanitizeSignQueue(raw.signQueue, now);
+  const sendQueue = sanitizeSendQueue(raw.sendQueue, now);
   const activeConnect = parsePendingConnectRequest(raw.activeConnect, now);
   const activeSign = parsePendingSignRequest(raw.activeSign, now);
+  const activeSend = parsePendingSendRequest(raw.activeSend, now);
   return {
     activeConnect: activeConnect ?? connectQueue.shift() ?? null,
     activeSign: activeSign ?? signQueue.shift() ?? null,
+    activeSend: activeSend ?? sendQueue.shift() ?? null,
     connectQueue,
     signQueue,
+    sendQueue,
   };
 }
 
@@ -110,10 +193,11 @@ export function enqueueConnectRequest(
   const connectQueue = [...state.connectQueue, request];
   const activeConnect = state.activeConnect ?? connectQueue.shift() ?? null;
   return {
+    ...state,
     activeConnect,
-    activeSign: state.activeSign,
     connectQueue,
     signQueue: [...state.signQueue],
+    sendQueue: [...state.sendQueue],
   };
 }
 
@@ -124,10 +208,26 @@ export function enqueueSignRequest(
   const signQueue = [...state.signQueue, request];
   const activeSign = state.activeSign ?? signQueue.shift() ?? null;
   return {
-    activeConnect: state.activeConnect,
+    ...state,
     activeSign,
     connectQueue: [...state.connectQueue],
     signQueue,
+    sendQueue: [...state.sendQueue],
+  };
+}
+
+export function enqueueSendRequest(
+  state: PendingRequestState,
+  request: PendingSendRequest,
+): PendingRequestState {
+  const sendQueue = [...state.sendQueue, request];
+  const activeSend = state.activeSend ?? sendQueue.shift() ?? null;
+  return {
+    ...state,
+    activeSend,
+    connectQueue: [...state.connectQueue],
+    signQueue: [...state.signQueue],
+    sendQueue,
   };
 }
 
@@ -143,10 +243,11 @@ export function resolveActiveConnectRequest(
   const next = connectQueue.shift() ?? null;
   return {
     state: {
+      ...state,
       activeConnect: next,
-      activeSign: state.activeSign,
       connectQueue,
       signQueue: [...state.signQueue],
+      sendQueue: [...state.sendQueue],
     },
     resolved: active,
     stale: false,
@@ -165,10 +266,34 @@ export function resolveActiveSignRequest(
   const next = signQueue.shift() ?? null;
   return {
     state: {
-      activeConnect: state.activeConnect,
+      ...state,
       activeSign: next,
       connectQueue: [...state.connectQueue],
       signQueue,
+      sendQueue: [...state.sendQueue],
+    },
+    resolved: active,
+    stale: false,
+  };
+}
+
+export function resolveActiveSendRequest(
+  state: PendingRequestState,
+  requestId?: string,
+): { state: PendingRequestState; resolved: PendingSendRequest | null; stale: boolean } {
+  const active = state.activeSend;
+  if (!active) return { state, resolved: null, stale: true };
+  if (requestId && requestId !== active.requestId) return { state, resolved: null, stale: true };
+
+  const sendQueue = [...state.sendQueue];
+  const next = sendQueue.shift() ?? null;
+  return {
+    state: {
+      ...state,
+      activeSend: next,
+      connectQueue: [...state.connectQueue],
+      signQueue: [...state.signQueue],
+      sendQueue,
     },
     resolved: active,
     stale: false,
@@ -178,8 +303,10 @@ export function resolveActiveSignRequest(
 export function pendingRequestCount(state: PendingRequestState): number {
   return state.connectQueue.length
     + state.signQueue.length
+    + state.sendQueue.length
     + (state.activeConnect ? 1 : 0)
-    + (state.activeSign ? 1 : 0);
+    + (state.activeSign ? 1 : 0)
+    + (state.activeSend ? 1 : 0);
 }
 
 export function dropRequestsForTab(
@@ -189,12 +316,15 @@ export function dropRequestsForTab(
   state: PendingRequestState;
   removedConnect: PendingConnectRequest[];
   removedSign: PendingSignRequest[];
+  removedSend: PendingSendRequest[];
 } {
   const removedConnect: PendingConnectRequest[] = [];
   const removedSign: PendingSignRequest[] = [];
+  const removedSend: PendingSendRequest[] = [];
 
   let activeConnect = state.activeConnect;
   let activeSign = state.activeSign;
+  let activeSend = state.activeSend;
 
   if (activeConnect?.tabId === tabId) {
     removedConnect.push(activeConnect);
@@ -204,6 +334,10 @@ export function dropRequestsForTab(
     removedSign.push(activeSign);
     activeSign = null;
   }
+  if (activeSend?.tabId === tabId) {
+    removedSend.push(activeSend);
+    activeSend = null;
+  }
 
   const keptConnectQueue = state.connectQueue.filter((req) => {
     if (req.tabId === tabId) {
@@ -219,19 +353,30 @@ export function dropRequestsForTab(
     }
     return true;
   });
+  const keptSendQueue = state.sendQueue.filter((req) => {
+    if (req.tabId === tabId) {
+      removedSend.push(req);
+      return false;
+    }
+    return true;
+  });
 
   if (!activeConnect) activeConnect = keptConnectQueue.shift() ?? null;
   if (!activeSign) activeSign = keptSignQueue.shift() ?? null;
+  if (!activeSend) activeSend = keptSendQueue.shift() ?? null;
 
   return {
     state: {
       activeConnect,
       activeSign,
+      activeSend,
       connectQueue: keptConnectQueue,
       signQueue: keptSignQueue,
+      sendQueue: keptSendQueue,
     },
     removedConnect,
     removedSign,
+    removedSend,
   };
 }
 
@@ -245,11 +390,22 @@ export function countOriginRequests(state: PendingRequestState, originKey: strin
   let count = 0;
   if (state.activeConnect && requestOriginKey(state.activeConnect.origin) === key) count++;
   if (state.activeSign && requestOriginKey(state.activeSign.origin) === key) count++;
+  if (state.activeSend && requestOriginKey(state.activeSend.origin) === key) count++;
   count += state.connectQueue.filter((r) => requestOriginKey(r.origin) === key).length;
   count += state.signQueue.filter((r) => requestOriginKey(r.origin) === key).length;
+  count += state.sendQueue.filter((r) => requestOriginKey(r.origin) === key).length;
   return count;
 }
 
+/** Sompi requested by an origin's queued and active sends, not yet approved or rejected. */
+export function queuedSendSompi(state: PendingRequestState, originKey: string): bigint {
+  const key = requestOriginKey(originKey);
+  const sends = state.activeSend ? [state.activeSend, ...state.sendQueue] : state.sendQueue;
+  return sends
+    .filter((r) => requestOriginKey(r.origin) === key)
+    .reduce((acc, r) => acc + r.outputs.reduce((sum, o) => sum + BigInt(o.amountSompi), 0n), 0n);
+}
+
 export function pruneExpiredRequests(
   state: PendingRequestState,
   now: number,
@@ -258,15 +414,19 @@ export function pruneExpiredRequests(
   state: PendingRequestState;
   expiredConnect: PendingConnectRequest[];
   expiredSign: PendingSignRequest[];
+  expiredSend: PendingSendRequest[];
 } {
   const expiresBefore = now - Math.max(1, ttlMs);
   const expiredConnect: PendingConnectRequest[] = [];
   const expiredSign: PendingSignRequest[] = [];
+  const expiredSend: PendingSendRequest[] = [];
 
   let activeConnect = state.activeConnect;
   let activeSign = state.activeSign;
+  let activeSend = state.activeSend;
   const connectQueue = [...state.connectQueue];
   const signQueue = [...state.signQueue];
+  const sendQueue = [...state.sendQueue];
 
   if (activeConnect && activeConnect.createdAt <= expiresBefore) {
     expiredConnect.push(activeConnect);
@@ -276,6 +436,10 @@ export function pruneExpiredRequests(
     expiredSign.push(activeSign);
     activeSign = null;
   }
+  if (activeSend && activeSend.createdAt <= expiresBefore) {
+    expiredSend.push(activeSend);
+    activeSend = null;
+  }
 
   const keptConnectQueue = connectQueue.filter((req) => {
     if (req.createdAt <= expiresBefore) {
@@ -293,17 +457,29 @@ export function pruneExpiredRequests(
     return true;
   });
 
+  const keptSendQueue = sendQueue.filter((req) => {
+    if (req.createdAt <= expiresBefore) {
+      expiredSend.push(req);
+      return false;
+    }
+    return true;
+  });
+
   if (!activeConnect) activeConnect = keptConnectQueue.shift() ?? null;
   if (!activeSign) activeSign = keptSignQueue.shift() ?? null;
+  if (!activeSend) activeSend = keptSendQueue.shift() ?? null;
 
   return {
     state: {
       activeConnect,
       activeSign,
+      activeSend,
       connectQueue: keptConnectQueue,
       signQueue: keptSignQueue,
+      sendQueue: keptSendQueue,
     },
     expiredConnect,
     expiredSign,
+    expiredSend,
   };
 }
@@ -0,0 +1,115 @@
+// Provider events for window.forgeos (EIP-1193-style on / removeListener).
+//
+// The service worker works out what changed — auto-lock, network switch,
+// active account switch, a site being removed — and which connected origins
+// should hear about it. Dispatches are then routed to every open tab on those
+// origins; site-bridge relays them into the page, where page-provider calls
+// the registered listeners.
+//
+// Pure functions only; chrome.* calls stay in service-worker.ts.
+
+import type { ConnectedSite, ConnectedSitesByAccount } from "../shared/storage";
+import type { ProviderEventMessage, ProviderEventName } from "../shared/messages";
+
+export interface ProviderEventDispatch {
+  origin: string;
+  event: ProviderEventName;
+  data?: unknown;
+}
+
+export interface ProviderEventRoute {
+  tabId: number;
+  message: ProviderEventMessage;
+}
+
+type SiteMap = Record<string, ConnectedSite>;
+
+function siteMap(value: unknown): SiteMap {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as SiteMap : {};
+}
+
+/** Read a stored sites-by-account value defensively (storage.onChanged payloads are untyped). */
+export function asConnectedSitesByAccount(value: unknown): ConnectedSitesByAccount {
+  const raw = siteMap(value) as unknown as Record<string, unknown>;
+  const out: ConnectedSitesByAccount = {};
+  for (const [accountId, sites] of Object.entries(raw)) out[accountId] = siteMap(sites);
+  return out;
+}
+
+/** Same event for every origin connected to the account (locked, unlocked, networkChanged). */
+export function connectedSiteDispatches(
+  sites: SiteMap,
+  event: ProviderEventName,
+  data?: unknown,
+): ProviderEventDispatch[] {
+  return Object.keys(sites).map((origin) => ({ origin, event, data }));
+}
+
+/**
+ * accountsChanged after the active vault account switches: origins approved for
+ * the new account get its address, origins approved only for the previous one
+ * get an empty list (they can no longer see an account).
+ */
+export function accountSwitchDispatches(previous: SiteMap, next: SiteMap): ProviderEventDispatch[] {
+  const origins = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const out: ProviderEventDispatch[] = [];
+  for (const origin of origins) {
+    const site = next[origin];
+    if (site && previous[origin]?.address === site.address) continue;
+    out.push({ origin, event: "accountsChanged", data: site ? [site.address] : [] });
+  }
+  return out;
+}
+
+/** disconnect + empty accountsChanged for origins removed from an account's allowlist. */
+export function siteRemovalDispatches(
+  previous: ConnectedSitesByAccount,
+  next: ConnectedSitesByAccount,
+  accountId: string,
+): ProviderEventDispatch[] {
+  const before = previous[accountId] ?? {};
+  const after = next[accountId] ?? {};
+  const out: ProviderEventDispatch[] = [];
+  for (const origin of Object.keys(before)) {
+    if (after[origin]) continue;
+    out.push({ origin, event: "accountsChanged", data: [] });
+    out.push({ origin, event: "disconnect", data: { origin } });
+  }
+  return out;
+}
+
+export function tabOrigin(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const origin = new URL(url).origin;
+    return origin && origin !== "null" ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Fan dispatches out to every open tab whose origin matches, in dispatch order. */
+export function routeProviderEvents(
+  tabs: Array<{ id?: number; url?: string }>,
+  dispatches: ProviderEventDispatch[],
+): ProviderEventRoute[] {
+  if (!dispatches.length) return [];
+  const routes: ProviderEventRoute[] = [];
+  for (const tab of tabs) {
+    if (typeof tab.id !== "number") continue;
+    const origin = tabOrigin(tab.url);
+    if (!origin) continue;
+    for (const dispatch of dispatches) {
+      if (dispatch.origin !== origin) continue;
+      routes.push({
+        tabId: tab.id,
+        message: {
+          type: "FORGEOS_PROVIDER_EVENT",
+          event: dispatch.event,
+          ...(dispatch.data !== undefined ? { data: dispatch.data } : {}),
+        },
+      });
+    }
+  }
+  return routes;
+}
@@ -3,21 +3,56 @@ import { EXTENSION_POPUP_WINDOW_HEIGHT, EXTENSION_POPUP_WINDOW_WIDTH } from "../
 import { prefetchKrcPortfolioForAddress } from "../portfolio/krcPortfolio";
 import { sanitizeAgentsSnapshot } from "../shared/agentSync";
 import { fetchBalance } from "../network/kaspaClient";
+import { connectKaspaWs, disconnectKaspaWs, subscribeDaaScore } from "../network/kaspaWebSocket";
 import { loadPendingTxs, updatePendingTx } from "../tx/store";
 import { recoverPendingSwapSettlements } from "../swap/swap";
-import { getConnectedSites, NETWORK_STORAGE_KEY } from "../shared/storage";
+import {
+  ACTIVE_ACCOUNT_STORAGE_KEY,
+  CONNECTED_SITES_STORAGE_KEY,
+  DEFAULT_ACCOUNT_ID,
+  getActiveAccountId,
+  getAllConnectedSites,
+  getConnectedSites,
+  getScheduledSends,
+  NETWORK_STORAGE_KEY,
+  SCHEDULED_SENDS_STORAGE_KEY,
+  updateConnectedSite,
+  type ConnectedSite,
+  type ScheduledSend,
+  type SiteScope,
+} from "../shared/storage";
+import {
+  fetchScheduleChainState,
+  markDueScheduledSends,
+  nextScheduledWakeAt,
+  pendingDaaTargets,
+  scheduledSendNotification,
+} from "../tx/scheduled";
+import { checkSiteSpend, hasSiteScope, recordSiteSpend } from "../shared/sitePermissions";
 import { UI_PATCH_PORT_NAME, type UiPatch, type UiPatchEnvelope } from "../shared/messages";
+import {
+  accountSwitchDispatches,
+  asConnectedSitesByAccount,
+  connectedSiteDispatches,
+  routeProviderEvents,
+  siteRemovalDispatches,
+  type ProviderEventDispatch,
+} from "./providerEvents";
 import {
   countOriginRequests,
   dropRequestsForTab,
   emptyPendingRequestState,
   enqueueConnectRequest,
+  enqueueSendRequest,
   enqueueSignRequest,
   normalizePendingRequestState,
+  parsePendingSendRequest,
   pendingRequestCount,
   pruneExpiredRequests,
+  queuedSendSompi,
   requestOriginKey,
   resolveActiveConnectRequest,
+  resolveActiveSendRequest,
   resolveActiveSignRequest,
   type PendingConnectRequest,
   type PendingRequestState,
@@ -32,6 +67,10 @@ import {
 //  4. Notify the popup when the auto-lock fires (popup wipes its in-memory session).
 //  5. Handle site connect requests: open extension popup for user approval,
 //     forward approval/rejection back to the requesting tab.
+//  6. Push window.forgeos provider events (lock, network, account, disconnect)
+//     to tabs on connected origins.
+//  7. Wake for scheduled sends (alarm + DAA-score stream) and hand due ones to
+//     the popup or raise an approval notification. Signing stays in the popup.
 //
 // SECURITY: The service worker never receives, stores, or forwards mnemonic data.
 // Wallet metadata stored here is address + network ONLY.
@@ -42,6 +81,8 @@ const BALANCE_ALARM = "forgeos-balance-poll";
 const AUTOLOCK_ALARM = "forgeos-autolock";
 const PENDING_SWEEP_ALARM = "forgeos-pending-sweep";
 const KRC_PREFETCH_ALARM = "forgeos-krc-prefetch";
+const SCHEDULED_SEND_ALARM = "forgeos-scheduled-sends";
+const SCHEDULED_SEND_NOTIFICATION_PREFIX = "forgeos-scheduled-send:";
 
 // Pending site-request queue hardening
 const ENV = (import.meta as any)?.env ?? {};
@@ -100,6 +141,8 @@ const PENDING_CONNECT_KEY = "forgeos.connect.pending";
 const PENDING_SIGN_KEY = "forgeos.sign.pending";
 const PENDING_CONNECT_QUEUE_KEY = "forgeos.connect.queue";
 const PENDING_SIGN_QUEUE_KEY = "forgeos.sign.queue";
+const PENDING_SEND_KEY = "forgeos.send.pending";
+const PENDING_SEND_QUEUE_KEY = "forgeos.send.queue";
 
 type WalletMeta = {
   address: string;
@@ -275,50 +318,85 @@ function sendSignResult(
   }).catch(() => {});
 }
 
+function sendSendResult(
+  tabId: number,
+  requestId: string,
+  payload: { result?: { txId: string }; error?: string },
+): void {
+  chrome.tabs.sendMessage(tabId, {
+    type: "FORGEOS_SEND_RESULT",
+    requestId,
+    ...(payload.result ? { result: payload.result } : {}),
+    ...(payload.error ? { error: payload.error } : {}),
+  }).catch(() => {});
+}
+
+type PendingLane = "connect" | "sign" | "send";
+
+function oldestPendingLane(candidates: Array<[PendingLane, { createdAt: number } | null]>): PendingLane | null {
+  let best: [PendingLane, number] | null = null;
+  for (const [lane, req] of candidates) {
+    if (req && (!best || req.createdAt < best[1])) best = [lane, req.createdAt];
+  }
+  return best?.[0] ?? null;
+}
+
 function applyStrictPendingOrdering(state: PendingRequestState): PendingRequestState {
   if (!STRICT_PENDING_GLOBAL_ORDER) return state;
 
   let activeConnect = state.activeConnect;
   let activeSign = state.activeSign;
+  let activeSend = state.activeSend;
   const connectQueue = [...state.connectQueue];
   const signQueue = [...state.signQueue];
+  const sendQueue = [...state.sendQueue];
 
-  // Strict mode: only one active request at a time across connect + sign.
-  if (activeConnect && activeSign) {
-    if (activeConnect.createdAt <= activeSign.createdAt) {
-      signQueue.unshift(activeSign);
-      activeSign = null;
-    } else {
+  // Strict mode: only one active request at a time across connect + sign + send.
+  // Ties go to connect, then sign.
+  const keep = oldestPendingLane([["connect", activeConnect], ["sign", activeSign], ["send", activeSend]]);
+  if (keep) {
+    if (keep !== "connect" && activeConnect) {
       connectQueue.unshift(activeConnect);
       activeConnect = null;
     }
-  }
-
-  if (!activeConnect && !activeSign) {
-    const nextConnect = connectQueue[0] ?? null;
-    const nextSign = signQueue[0] ?? null;
-    if (nextConnect && (!nextSign || nextConnect.createdAt <= nextSign.createdAt)) {
-      activeConnect = connectQueue.shift() ?? null;
-    } else if (nextSign) {
-      activeSign = signQueue.shift() ?? null;
+    if (keep !== "sign" && activeSign) {
+      signQueue.unshift(activeSign);
+      activeSign = null;
     }
+    if (keep !== "send" && activeSend) {
+      sendQueue.unshift(activeSend);
+      activeSend = null;
+    }
+  } else {
+    const next = oldestPendingLane([
+      ["connect", connectQueue[0] ?? null],
+      ["sign", signQueue[0] ?? null],
+      ["send", sendQueue[0] ?? null],
+    ]);
+    if (next === "connect") activeConnect = connectQueue.shift() ?? null;
+    else if (next === "sign") activeSign = signQueue.shift() ?? null;
+    else if (next === "send") activeSend = sendQueue.shift() ?? null;
   }
 
-  return { activeConnect, activeSign, connectQueue, signQueue };
+  return { activeConnect, activeSign, activeSend, connectQueue, signQueue, sendQueue };
 }
 
 async function getPendingRequestState(): Promise<PendingRequestState> {
   const result = await chrome.storage.session.get([
     PENDING_CONNECT_KEY,
     PENDING_SIGN_KEY,
+    PENDING_SEND_KEY,
     PENDING_CONNECT_QUEUE_KEY,
     PENDING_SIGN_QUEUE_KEY,
+    PENDING_SEND_QUEUE_KEY,
   ]);
   const normalized = normalizePendingRequestState({
     activeConnect: result?.[PENDING_CONNECT_KEY],
     activeSign: result?.[PENDING_SIGN_KEY],
+    activeSend: result?.[PENDING_SEND_KEY],
     connectQueue: result?.[PENDING_CONNECT_QUEUE_KEY],
     signQueue: result?.[PENDING_SIGN_QUEUE_KEY],
+    sendQueue: result?.[PENDING_SEND_QUEUE_KEY],
   });
   return applyStrictPendingOrdering(normalized);
 }
@@ -328,14 +406,17 @@ async function setPendingRequestState(state: PendingRequestState): Promise<void>
   const payload: Record<string, unknown> = {
     [PENDING_CONNECT_QUEUE_KEY]: ordered.connectQueue,
     [PENDING_SIGN_QUEUE_KEY]: ordered.signQueue,
+    [PENDING_SEND_QUEUE_KEY]: ordered.sendQueue,
   };
   if (ordered.activeConnect) payload[PENDING_CONNECT_KEY] = ordered.activeConnect;
   if (ordered.activeSign) payload[PENDING_SIGN_KEY] = ordered.activeSign;
+  if (ordered.activeSend) payload[PENDING_SEND_KEY] = ordered.activeSend;
   await chrome.storage.session.set(payload);
 
   const removeKeys: string[] = [];
   if (!ordered.activeConnect) removeKeys.push(PENDING_CONNECT_KEY);
   if (!ordered.activeSign) removeKeys.push(PENDING_SIGN_KEY);
+  if (!ordered.activeSend) removeKeys.push(PENDING_SEND_KEY);
   if (removeKeys.length) {
     await chrome.storage.session.remove(removeKeys);
   }
@@ -344,7 +425,7 @@ async function setPendingRequestState(state: PendingRequestState): Promise<void>
 async function sweepExpiredPendingRequests(now: number = Date.now()): Promise<PendingRequestState> {
   const state = await getPendingRequestState();
   const swept = pruneExpiredRequests(state, now, PENDING_REQUEST_TTL_MS);
-  const expiredTotal = swept.expiredConnect.length + swept.expiredSign.length;
+  const expiredTotal = swept.expiredConnect.length + swept.expiredSign.length + swept.expiredSend.length;
   if (expiredTotal === 0) return swept.state;
 
   const nextState = applyStrictPendingOrdering(swept.state);
@@ -357,6 +438,9 @@ async function sweepExpiredPendingRequests(now: number = Date.now()): Promise<Pe
   for (const req of swept.expiredSign) {
     sendSignResult(req.tabId, req.requestId, { error: "Forge-OS: request timed out" });
   }
+  for (const req of swept.expiredSend) {
+    sendSendResult(req.tabId, req.requestId, { error: "Forge-OS: request timed out" });
+  }
 
   return nextState;
 }
@@ -367,7 +451,7 @@ async function dropPendingRequestsForClosedTab(tabId: number): Promise<PendingRe
   }
   const state = await sweepExpiredPendingRequests();
   const dropped = dropRequestsForTab(state, tabId);
-  const removedCount = dropped.removedConnect.length + dropped.removedSign.length;
+  const removedCount = dropped.removedConnect.length + dropped.removedSign.length + dropped.removedSend.length;
   if (removedCount === 0) return dropped.state;
 
   await setPendingRequestState(dropped.state);
@@ -382,6 +466,11 @@ async function dropPendingRequestsForClosedTab(tabId: number): Promise<PendingRe
       error: "Forge-OS: request cancelled because the requesting tab was closed.",
     });
   }
+  for (const req of dropped.removedSend) {
+    sendSendResult(req.tabId, req.requestId, {
+      error: "Forge-OS: request cancelled because the requesting tab was closed.",
+    });
+  }
   return dropped.state;
 }
 
@@ -396,6 +485,46 @@ async function updatePendingBadge(state?: PendingRequestState): Promise<void> {
   await updateBadge();
 }
 
+// ── Site permissions ─────────────────────────────────────────────────────────
+
+const SITE_SCOPE_ERRORS: Record<Exclude<SiteScope, "agent_auto_execute">, string> = {
+  view_address: "This site is not permitted to view your address. Update its permissions in Security → Connected sites.",
+  sign_message: "This site is not permitted to request signatures. Update its permissions in Security → Connected sites.",
+  request_send: "This site is not permitted to request transactions. Update its permissions in Security → Connected sites.",
+};
+
+async function connectedSiteFor(origin: string | undefined): Promise<ConnectedSite | null> {
+  if (!origin) return null;
+  const sites = await getConnectedSites().catch(() => ({} as Record<string, ConnectedSite>));
+  return sites[origin] ?? null;
+}
+
+// ── Provider events ──────────────────────────────────────────────────────────
+
+async function emitProviderEvents(dispatches: ProviderEventDispatch[]): Promise<void> {
+  if (!dispatches.length) return;
+  const tabs = await chrome.tabs.query({});
+  for (const route of routeProviderEvents(tabs, dispatches)) {
+    chrome.tabs.sendMessage(route.tabId, route.message).catch(() => {});
+  }
+}
+
+function emitToConnectedSites(event: ProviderEventDispatch["event"], data?: unknown): void {
+  getConnectedSites()
+    .then((sites) => emitProviderEvents(connectedSiteDispatches(sites, event, data)))
+    .catch(() => {});
+}
+
+// The auto-lock alarm and the popup's lockWallet() both report a lock; only
+// transitions are forwarded. Resets when the worker restarts (re-emit is harmless).
+let lastProviderLockState: boolean | null = null;
+
+function emitLockState(locked: boolean): void {
+  if (lastProviderLockState === locked) return;
+  lastProviderLockState = locked;
+  emitToConnectedSites(locked ? "locked" : "unlocked");
+}
+
 // ── Alarm management ─────────────────────────────────────────────────────────
 
 function ensureBalanceAlarm(): void {
@@ -426,12 +555,92 @@ function cancelAutoLock(): void {
   chrome.alarms.clear(AUTOLOCK_ALARM);
 }
 
+// ── Scheduled sends ──────────────────────────────────────────────────────────
+// The worker only decides when a scheduled send is due; it is built and
+// signed in the popup (tx/scheduled.ts), which holds the vault session.
+
+let scheduledDaaUnsubscribe: (() => void) | null = null;
+let scheduledDaaTarget: bigint | null = null;
+let scheduledCheckRunning = false;
+
+/** Re-arm the wake-up alarm and the DAA-score stream for the stored schedules. */
+async function syncScheduledSendWakeups(): Promise<void> {
+  const schedules = await getScheduledSends();
+  const wakeAt = nextScheduledWakeAt(schedules);
+  const daaTargets = pendingDaaTargets(schedules);
+  const now = Date.now();
+
+  if (wakeAt === null && daaTargets.size === 0) {
+    chrome.alarms.clear(SCHEDULED_SEND_ALARM);
+  } else {
+    // One-shot at the earliest time trigger; DAA triggers add a 1-minute
+    // backstop for when the score stream is unavailable.
+    const polling = daaTargets.size > 0;
+    const when = Math.min(wakeAt ?? Number.POSITIVE_INFINITY, polling ? now + 60_000 : Number.POSITIVE_INFINITY);
+    chrome.alarms.create(SCHEDULED_SEND_ALARM, {
+      when: Math.max(now + 1_000, when),
+      ...(polling ? { periodInMinutes: 1 } : {}),
+    });
+  }
+
+  const meta = await getStoredWalletMeta();
+  const target = daaTargets.get(meta?.network ?? "mainnet");
+  scheduledDaaTarget = target ?? null;
+  if (target === undefined) {
+    if (scheduledDaaUnsubscribe) {
+      scheduledDaaUnsubscribe();
+      scheduledDaaUnsubscribe = null;
+      disconnectKaspaWs().catch(() => {});
+    }
+    return;
+  }
+  if (!scheduledDaaUnsubscribe) {
+    connectKaspaWs(meta?.network ?? "mainnet").catch(() => {});
+    scheduledDaaUnsubscribe = subscribeDaaScore((score) => {
+      if (scheduledDaaTarget !== null && score >= scheduledDaaTarget) checkScheduledSends().catch(() => {});
+    });
+  }
+}
+
+function announceDueScheduledSends(network: string, due: ScheduledSend[]): void {
+  // An open, unlocked popup signs auto-sign sends itself; the rest need approval.
+  const popupCanSign = uiPatchPorts.size > 0 && lastProviderLockState === false;
+  const handedOff = popupCanSign ? due.filter((s) => s.autoSign) : [];
+  if (handedOff.length > 0) {
+    broadcastUiPatches([{ type: "scheduledSendsDue", network, ids: handedOff.map((s) => s.id), updatedAt: Date.now() }]);
+  }
+  for (const s of due) {
+    if (handedOff.includes(s)) continue;
+    chrome.notifications.create(
+      `${SCHEDULED_SEND_NOTIFICATION_PREFIX}${s.id}`,
+      scheduledSendNotification(s, chrome.runtime.getManifest() as any, (path) => chrome.runtime.getURL(path)),
+    ).catch(() => {});
+  }
+}
+
+async function checkScheduledSends(): Promise<void> {
+  if (scheduledCheckRunning) return;
+  scheduledCheckRunning = true;
+  try {
+    const active = (await getScheduledSends()).filter((s) => s.status === "scheduled");
+    for (const network of new Set(active.map((s) => s.network))) {
+      const needsDaa = active.some((s) => s.network === network && s.trigger.kind === "daa");
+      const chain = needsDaa ? await fetchScheduleChainState(network) : { daaScore: null, nowMs: Date.now() };
+      announceDueScheduledSends(network, await markDueScheduledSends(network, chain));
+    }
+  } finally {
+    scheduledCheckRunning = false;
+  }
+  await syncScheduledSendWakeups();
+}
+
 // ── Extension lifecycle ───────────────────────────────────────────────────────
 
 chrome.runtime.onInstalled.addListener(() => {
   ensureBalanceAlarm();
   ensurePendingSweepAlarm();
   ensureKrcPrefetchAlarm();
+  checkScheduledSends().catch(() => {});
   updatePendingBadge().catch(() => {});
   prefetchKrcPortfolioFromMeta().catch(() => {});
   recoverPendingSwapSettlements().catch(() => {});
@@ -441,6 +650,7 @@ chrome.runtime.onStartup.addListener(() => {
   ensureBalanceAlarm();
   ensurePendingSweepAlarm();
   ensureKrcPrefetchAlarm();
+  checkScheduledSends().catch(() => {});
   updatePendingBadge().catch(() => {});
   prefetchKrcPortfolioFromMeta().catch(() => {});
   recoverPendingSwapSettlements().catch(() => {});
@@ -456,6 +666,27 @@ chrome.runtime.onConnect.addListener((port) => {
 
 chrome.storage.onChanged.addListener((changes, areaName) => {
   if (areaName !== "local") return;
+
+  if (changes?.[SCHEDULED_SENDS_STORAGE_KEY]) {
+    syncScheduledSendWakeups().catch(() => {});
+  }
+
+  const accountChange = changes?.[ACTIVE_ACCOUNT_STORAGE_KEY];
+  if (accountChange) {
+    const previousId = typeof accountChange.oldValue === "string" ? accountChange.oldValue : DEFAULT_ACCOUNT_ID;
+    const nextId = typeof accountChange.newValue === "string" ? accountChange.newValue : DEFAULT_ACCOUNT_ID;
+    getAllConnectedSites().then((all) =>
+      emitProviderEvents(accountSwitchDispatches(all[previousId] ?? {}, all[nextId] ?? {}))).catch(() => {});
+  }
+
+  const sitesChange = changes?.[CONNECTED_SITES_STORAGE_KEY];
+  if (sitesChange) {
+    const previous = asConnectedSitesByAccount(sitesChange.oldValue);
+    const next = asConnectedSitesByAccount(sitesChange.newValue);
+    getActiveAccountId().then((accountId) =>
+      emitProviderEvents(siteRemovalDispatches(previous, next, accountId))).catch(() => {});
+  }
+
   const nextNetwork = changes?.[NETWORK_STORAGE_KEY]?.newValue;
   if (typeof nextNetwork !== "string" || !nextNetwork) return;
   broadcastUiPatches([
@@ -465,6 +696,7 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
       updatedAt: Date.now(),
     },
   ]);
+  emitToConnectedSites("networkChanged", { network: nextNetwork });
 });
 
 chrome.tabs.onRemoved.addListener((tabId) => {
@@ -506,13 +738,25 @@ chrome.alarms.onAlarm.addListener((alarm) => {
     return;
   }
 
+  if (alarm.name === SCHEDULED_SEND_ALARM) {
+    checkScheduledSends().catch(() => {});
+    return;
+  }
+
   if (alarm.name === AUTOLOCK_ALARM) {
     chrome.runtime.sendMessage({ type: "AUTOLOCK_FIRED" }).catch(() => {});
+    emitLockState(true);
     chrome.action.setBadgeText({ text: "OFF" });
     chrome.action.setBadgeBackgroundColor({ color: "#888888" });
   }
 });
 
+chrome.notifications.onClicked.addListener((notificationId) => {
+  if (!notificationId.startsWith(SCHEDULED_SEND_NOTIFICATION_PREFIX)) return;
+  chrome.notifications.clear(notificationId).catch(() => {});
+  openExtensionPopup().catch(() => {});
+});
+
 // ── Message handler ───────────────────────────────────────────────────────────
 
 chrome.runtime.onMessage.addListener((message: any, sender: any) => {
@@ -558,6 +802,12 @@ chrome.runtime.onMessage.addListener((message: any, sender: any) => {
     return;
   }
 
+  // ── Vault lock state (popup) → provider locked / unlocked events ─────────
+  if (message?.type === "FORGEOS_VAULT_LOCKED" || message?.type === "FORGEOS_VAULT_UNLOCKED") {
+    emitLockState(message.type === "FORGEOS_VAULT_LOCKED");
+    return;
+  }
+
   // ── Open popup (simple, no connect flow) ────────────────────────────────
   if (message?.type === "FORGEOS_OPEN_POPUP") {
     openExtensionPopup().catch(() => {});
@@ -585,6 +835,10 @@ chrome.runtime.onMessage.addListener((message: any, sender: any) => {
     // B6: Fast-path — origin already approved, respond immediately without popup
     getConnectedSites().then((sites) => {
       const existing = origin ? sites[origin] : null;
+      if (existing && !hasSiteScope(existing, "view_address")) {
+        sendConnectResult(tabId, requestId, { error: SITE_SCOPE_ERRORS.view_address });
+        return;
+      }
       if (existing) {
         sendConnectResult(tabId, requestId, {
           result: { address: existing.address, network: existing.network },
@@ -669,6 +923,13 @@ chrome.runtime.onMessage.addListener((message: any, sender: any) => {
     };
 
     queuePendingMutation(async () => {
+      // Sites saved with scopes must hold sign_message; unknown origins still
+      // go to the approval screen as before.
+      const site = await connectedSiteFor(origin);
+      if (site && !hasSiteScope(site, "sign_message")) {
+        sendSignResult(tabId, requestId, { error: SITE_SCOPE_ERRORS.sign_message });
+        return;
+      }
       let state = await sweepExpiredPendingRequests(now);
       if (pendingRequestCount(state) >= MAX_TOTAL_PENDING_REQUESTS) {
         sendSignResult(tabId, requestId, { error: "Too many pending requests. Try again in a moment." });
@@ -700,6 +961,79 @@ chrome.runtime.onMessage.addListener((message: any, sender: any) => {
     return;
   }
 
+  // ── Site send request: open popup for transaction approval ────────────────
+  if (message?.type === "FORGEOS_OPEN_FOR_SEND") {
+    const tabId = sender?.tab?.id as number | undefined;
+    if (!tabId) return;
+    const requestId = typeof message.requestId === "string" ? message.requestId : "";
+    const now = Date.now();
+    const origin = senderOrigin(sender);
+    const originKey = requestOriginKey(origin);
+    const request = parsePendingSendRequest({
+      requestId,
+      tabId,
+      origin,
+      outputs: message.outputs,
+      payloadHex: message.payloadHex,
+      feeTier: message.feeTier,
+      createdAt: now,
+    }, now);
+    if (!request) {
+      sendSendResult(tabId, requestId, { error: "Invalid send request" });
+      return;
+    }
+
+    queuePendingMutation(async () => {
+      // Remembered sites must hold request_send and stay within their
+      // allowance; every send still needs approval in the popup. Sends the
+      // site already has queued reserve their amount until approved, rejected
+      // or expired.
+      const site = await connectedSiteFor(origin);
+      if (site && !hasSiteScope(site, "request_send")) {
+        sendSendResult(tabId, requestId, { error: SITE_SCOPE_ERRORS.request_send });
+        return;
+      }
+      let state = await sweepExpiredPendingRequests(now);
+      const allowanceError = site && checkSiteSpend(
+        site,
+        request.outputs.map((o) => ({ address: o.address, amountSompi: BigInt(o.amountSompi) })),
+        now,
+        queuedSendSompi(state, originKey),
+      );
+      if (allowanceError) {
+        sendSendResult(tabId, requestId, { error: allowanceError });
+        return;
+      }
+      if (pendingRequestCount(state) >= MAX_TOTAL_PENDING_REQUESTS) {
+        sendSendResult(tabId, requestId, { error: "Too many pending requests. Try again in a moment." });
+        return;
+      }
+      if (countOriginRequests(state, originKey) >= MAX_PENDING_PER_ORIGIN) {
+        sendSendResult(tabId, requestId, { error: "Too many pending requests from this site. Wait for approval or timeout." });
+        return;
+      }
+      const wasIdle = pendingRequestCount(state) === 0;
+      state = enqueueSendRequest(state, request);
+      await setPendingRequestState(state);
+      await updatePendingBadge(state);
+
+      if (!wasIdle) return;
+
+      try {
+        await openExtensionPopup();
+      } catch {
+        const failed = resolveActiveSendRequest(state, request.requestId);
+        if (!failed.resolved) return;
+        await setPendingRequestState(failed.state);
+        await updatePendingBadge(failed.state);
+        sendSendResult(failed.resolved.tabId, failed.resolved.requestId, {
+          error: "Could not open Forge-OS popup. Click the extension icon in your toolbar.",
+        });
+      }
+    });
+    return;
+  }
+
   // ── Popup approved the connect request ──────────────────────────────────
   if (message?.type === "FORGEOS_CONNECT_APPROVE") {
     queuePendingMutation(async () => {
@@ -793,4 +1127,52 @@ chrome.runtime.onMessage.addListener((message: any, sender: any) => {
     });
     return;
   }
+
+  // ── Popup broadcast the send request ────────────────────────────────────
+  if (message?.type === "FORGEOS_SEND_APPROVE") {
+    queuePendingMutation(async () => {
+      const state = await sweepExpiredPendingRequests();
+      const resolved = resolveActiveSendRequest(
+        state,
+        typeof message.requestId === "string" ? message.requestId : undefined,
+      );
+      if (resolved.stale || !resolved.resolved) return;
+
+      const txId = typeof message.txId === "string" ? message.txId : "";
+      sendSendResult(resolved.resolved.tabId, resolved.resolved.requestId, txId
+        ? { result: { txId } }
+        : { error: "Invalid send approval payload" });
+      if (txId && resolved.resolved.origin) {
+        const spent = resolved.resolved.outputs.reduce((acc, o) => acc + BigInt(o.amountSompi), 0n);
+        const now = Date.now();
+        await updateConnectedSite(resolved.resolved.origin, (site) => recordSiteSpend(site, spent, now)).catch(() => null);
+      }
+
+      await setPendingRequestState(resolved.state);
+      await updatePendingBadge(resolved.state);
+      await openPopupForRemainingPending(resolved.state);
+    });
+    return;
+  }
+
+  // ── Popup rejected the send request ─────────────────────────────────────
+  if (message?.type === "FORGEOS_SEND_REJECT") {
+    queuePendingMutation(async () => {
+      const state = await sweepExpiredPendingRequests();
+      const resolved = resolveActiveSendRequest(
+        state,
+        typeof message.requestId === "string" ? message.requestId : undefined,
+      );
+      if (resolved.stale || !resolved.resolved) return;
+
+      sendSendResult(resolved.resolved.tabId, resolved.resolved.requestId, {
+        error: typeof message.error === "string" ? message.error : "Transaction rejected by user",
+      });
+
+      await setPendingRequestState(resolved.state);
+      await updatePendingBadge(resolved.state);
+      await openPopupForRemainingPending(resolved.state);
+    });
+    return;
+  }
 });
@@ -1,9 +1,12 @@
 // Forge-OS Page Provider — content script running in MAIN world on forge-os.xyz
 //
-// Injects window.forgeos so page JavaScript can call connect() / signMessage().
+// Injects window.forgeos so page JavaScript can call connect() / signMessage(),
+// request transactions with sendKaspa() / sendBatch(), and subscribe to wallet
+// events with on() / removeListener().
 // Communicates with site-bridge.ts (isolated world) via window.postMessage.
 //
-// NOTE: All signing routes through the extension vault bridge (FORGEOS_SIGN).
+// NOTE: All signing routes through the extension vault bridge (FORGEOS_SIGN /
+// FORGEOS_SEND); transactions are built, dry-run and signed in the popup.
 // kaspa-wasm is NOT imported here — it is too large for a MAIN-world content
 // script and Chrome MV3 CSP blocks WASM instantiation in content scripts.
 
@@ -15,7 +18,29 @@ const BRIDGE_CONNECT_TIMEOUT_MS = 18_000;
 type BridgeMsg = { [key: string]: unknown; __forgeos__: true; type: string; requestId?: string };
 type Pending   = { resolve(v: any): void; reject(e: any): void; timer: ReturnType<typeof setTimeout> };
 
+interface ForgeOSSendOutput {
+  address: string;
+  /** Whole sompi. Strings and bigints avoid float rounding on large amounts. */
+  amountSompi: bigint | number | string;
+}
+
+interface ForgeOSSendOptions {
+  /** OP_RETURN payload as hex (max 80 bytes). */
+  payloadHex?: string;
+  feeTier?: "low" | "normal" | "priority";
+}
+
+// Mirrors PROVIDER_EVENT_NAMES in shared/messages.ts (this script has no imports).
+const PROVIDER_EVENTS = ["accountsChanged", "networkChanged", "locked", "unlocked", "disconnect"] as const;
+type ProviderEvent = typeof PROVIDER_EVENTS[number];
+type ProviderListener = (data: any) => void;
+
 const pending = new Map<string, Pending>();
+const listeners = new Map<ProviderEvent, Set<ProviderListener>>();
+
+function isProviderEvent(value: unknown): value is ProviderEvent {
+  return typeof value === "string" && (PROVIDER_EVENTS as readonly string[]).includes(value);
+}
 
 // ── Response listener ────────────────────────────────────────────────────────
 
@@ -23,6 +48,16 @@ window.addEventListener("message", (ev) => {
   if (ev.source !== window) return;
   const msg = ev.data as BridgeMsg & { result?: unknown; error?: unknown };
   if (!msg?.[S]) return;
+
+  // Wallet events pushed by the extension (no requestId).
+  if (msg.type === "FORGEOS_PROVIDER_EVENT") {
+    if (!isProviderEvent(msg.event)) return;
+    for (const listener of [...(listeners.get(msg.event) ?? [])]) {
+      try { listener(msg.data ?? null); } catch { /* a page listener must not break the others */ }
+    }
+    return;
+  }
+
   if (typeof msg.requestId !== "string") return;
 
   // Ignore outbound request messages posted by this provider/site bridge.
@@ -60,10 +95,43 @@ function bridgeRequest(
   });
 }
 
+// ── Send helpers ─────────────────────────────────────────────────────────────
+
+/** Canonical decimal sompi string — BigInt cannot cross postMessage/JSON. */
+function toSompiString(value: bigint | number | string): string {
+  const text = typeof value === "bigint" ? value.toString()
+    : typeof value === "number" ? (Number.isSafeInteger(value) ? String(value) : "")
+      : value.trim();
+  if (!/^[0-9]+$/.test(text) || BigInt(text) <= 0n) {
+    throw new Error("Forge-OS: amountSompi must be a positive whole number of sompi");
+  }
+  return BigInt(text).toString();
+}
+
+function sendRequest(outputs: ForgeOSSendOutput[], opts: ForgeOSSendOptions = {}): Promise<{ txId: string }> {
+  if (!Array.isArray(outputs) || outputs.length === 0) {
+    return Promise.reject(new Error("Forge-OS: at least one output is required"));
+  }
+  let wire: Array<{ address: string; amountSompi: string }>;
+  try {
+    wire = outputs.map((o) => {
+      if (typeof o?.address !== "string" || !o.address.trim()) throw new Error("Forge-OS: output address is required");
+      return { address: o.address.trim(), amountSompi: toSompiString(o.amountSompi) };
+    });
+  } catch (err) {
+    return Promise.reject(err);
+  }
+  return bridgeRequest("FORGEOS_SEND", {
+    outputs: wire,
+    ...(opts.payloadHex ? { payloadHex: opts.payloadHex } : {}),
+    ...(opts.feeTier ? { feeTier: opts.feeTier } : {}),
+  });
+}
+
 // ── Provider factory ─────────────────────────────────────────────────────────
 
 function createProvider() {
-  return {
+  const provider = {
     isForgeOS: true as const,
     version: "1.0.0",
 
@@ -80,13 +148,49 @@ function createProvider() {
       return bridgeRequest("FORGEOS_SIGN", { message });
     },
 
+    /**
+     * Ask the wallet to send `amountSompi` to `to`. The popup shows the built
+     * transaction, dry-run result and fees; resolves with the broadcast txId.
+     */
+    async sendKaspa(
+      to: string,
+      amountSompi: bigint | number | string,
+      opts?: ForgeOSSendOptions,
+    ): Promise<{ txId: string }> {
+      return sendRequest([{ address: to, amountSompi }], opts);
+    },
+
+    /** Pay several outputs in one transaction (same approval flow as sendKaspa). */
+    async sendBatch(outputs: ForgeOSSendOutput[], opts?: ForgeOSSendOptions): Promise<{ txId: string }> {
+      return sendRequest(outputs, opts);
+    },
+
     /** Request the extension popup to open (MetaMask-style). */
     openExtension(): void {
       window.postMessage({ [S]: true, type: "FORGEOS_OPEN_POPUP" }, "*");
     },
 
+    /**
+     * Subscribe to wallet events: accountsChanged (string[]), networkChanged
+     * ({ network }), locked, unlocked, disconnect ({ origin }). Returns the
+     * provider for chaining.
+     */
+    on(event: ProviderEvent, listener: ProviderListener) {
+      if (!isProviderEvent(event)) throw new Error(`Forge-OS: unknown event "${String(event)}"`);
+      if (typeof listener !== "function") throw new Error("Forge-OS: listener must be a function");
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+      return provider;
+    },
+
+    removeListener(event: ProviderEvent, listener: ProviderListener) {
+      listeners.get(event)?.delete(listener);
+      return provider;
+    },
+
     disconnect(): void { /* managed wallet — nothing to tear down */ },
   };
+  return provider;
 }
 
 // ── Inject ───────────────────────────────────────────────────────────────────
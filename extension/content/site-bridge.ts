@@ -6,6 +6,8 @@
 //     the extension background via chrome.runtime.sendMessage.
 //  2. RELAY: Bridge postMessages from page-provider.ts (MAIN world) to the
 //     background service worker, and push responses back to the page.
+//  3. EVENTS: Forward provider events (accountsChanged, networkChanged,
+//     locked, unlocked, disconnect) from the background to the page.
 //
 // SECURITY:
 //  • phrase is never forwarded — sanitiseWallet strips it before sync.
@@ -16,6 +18,7 @@
 // export {} makes this a module, preventing global variable collisions with
 // other extension content scripts that also declare top-level const names.
 import { emptyAgentsSnapshot, sanitizeAgentsSnapshot } from "../shared/agentSync";
+import { isProviderEventMessage } from "../shared/messages";
 export {};
 
 const AGENTS_KEY = "forgeos.session.agents.v2";
@@ -157,16 +160,60 @@ window.addEventListener("message", (ev) => {
     });
     return;
   }
+
+  // Transaction send — background validates and queues for popup approval
+  if (msg.type === "FORGEOS_SEND") {
+    const requestId = typeof msg.requestId === "string" ? msg.requestId : "";
+    if (!requestId || !Array.isArray(msg.outputs) || msg.outputs.length === 0) {
+      window.postMessage({
+        [S]: true,
+        requestId,
+        result: null,
+        error: "Invalid send request",
+      }, "*");
+      return;
+    }
+
+    chrome.runtime.sendMessage({
+      type: "FORGEOS_OPEN_FOR_SEND",
+      requestId,
+      outputs: msg.outputs,
+      payloadHex: typeof msg.payloadHex === "string" ? msg.payloadHex : undefined,
+      feeTier: typeof msg.feeTier === "string" ? msg.feeTier : undefined,
+    }).catch((err: any) => {
+      window.postMessage({
+        [S]: true,
+        requestId,
+        result: null,
+        error: err?.message ?? "Send failed",
+      }, "*");
+    });
+    return;
+  }
 });
 
-// Push connect/sign result from background back to page
+// Push connect/sign/send result from background back to page
 chrome.runtime.onMessage.addListener((message: any) => {
-  if (message?.type === "FORGEOS_CONNECT_RESULT" || message?.type === "FORGEOS_SIGN_RESULT") {
+  if (
+    message?.type === "FORGEOS_CONNECT_RESULT"
+    || message?.type === "FORGEOS_SIGN_RESULT"
+    || message?.type === "FORGEOS_SEND_RESULT"
+  ) {
     window.postMessage({
       [S]: true,
       requestId: message.requestId,
       result: message.result ?? null,
       error: message.error ?? undefined,
     }, "*");
+    return;
+  }
+
+  if (isProviderEventMessage(message)) {
+    window.postMessage({
+      [S]: true,
+      type: "FORGEOS_PROVIDER_EVENT",
+      event: message.event,
+      data: message.data ?? null,
+    }, "*");
   }
 });
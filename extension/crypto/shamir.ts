@@ -0,0 +1,98 @@
+// Shamir secret sharing over GF(2^8) (AES field, polynomial x^8+x^4+x^3+x+1).
+// Each byte of the secret is the constant term of its own random polynomial of
+// degree threshold-1; share x holds the polynomial values at x. Any `threshold`
+// shares recover the secret by Lagrange interpolation at 0; fewer reveal
+// nothing about it. Pure functions — encoding and checksums live in callers.
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i += 1) {
+    EXP[i] = x;
+    LOG[x] = i;
+    // multiply by the generator 0x03
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+    x &= 0xff;
+  }
+  for (let i = 255; i < 510; i += 1) EXP[i] = EXP[i - 255];
+})();
+
+function gfMul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function gfDiv(a: number, b: number): number {
+  if (b === 0) throw new Error("SHAMIR_DIVISION_BY_ZERO");
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+export interface ShamirShare {
+  /** Evaluation point, 1..255. */
+  x: number;
+  /** Polynomial values, one per secret byte. */
+  y: Uint8Array;
+}
+
+/** Maximum shares per split (x is one byte and 0 is the secret). */
+export const SHAMIR_MAX_SHARES = 255;
+
+/**
+ * Split `secret` into `total` shares, any `threshold` of which recover it.
+ * Throws SHAMIR_INVALID_PARAMS for 2 > threshold > total > 255 or an empty secret.
+ */
+export function splitSecret(
+  secret: Uint8Array,
+  total: number,
+  threshold: number,
+  random: (length: number) => Uint8Array = (n) => crypto.getRandomValues(new Uint8Array(n)),
+): ShamirShare[] {
+  if (
+    secret.length === 0
+    || !Number.isInteger(total) || !Number.isInteger(threshold)
+    || threshold < 2 || threshold > total || total > SHAMIR_MAX_SHARES
+  ) {
+    throw new Error("SHAMIR_INVALID_PARAMS: need 2 ≤ threshold ≤ shares ≤ 255 and a non-empty secret");
+  }
+  const shares: ShamirShare[] = Array.from({ length: total }, (_, i) => ({ x: i + 1, y: new Uint8Array(secret.length) }));
+  for (let b = 0; b < secret.length; b += 1) {
+    const coeffs = random(threshold - 1);
+    for (const share of shares) {
+      // Horner: a_{k-1} x^{k-1} + … + a_1 x + secret
+      let acc = 0;
+      for (let c = coeffs.length - 1; c >= 0; c -= 1) acc = gfMul(acc, share.x) ^ coeffs[c];
+      share.y[b] = gfMul(acc, share.x) ^ secret[b];
+    }
+  }
+  return shares;
+}
+
+/**
+ * Interpolate the secret from shares. The caller supplies at least `threshold`
+ * distinct shares of one split; with fewer the result is unrelated bytes.
+ * Throws SHAMIR_INVALID_SHARES for duplicate or zero x, or mismatched lengths.
+ */
+export function combineShares(shares: ShamirShare[]): Uint8Array {
+  const length = shares[0]?.y.length ?? 0;
+  const xs = new Set(shares.map((s) => s.x));
+  if (
+    shares.length < 2 || length === 0 || xs.size !== shares.length || xs.has(0)
+    || shares.some((s) => s.y.length !== length || s.x < 1 || s.x > 255)
+  ) {
+    throw new Error("SHAMIR_INVALID_SHARES: need two or more distinct shares of equal length");
+  }
+  const secret = new Uint8Array(length);
+  for (let i = 0; i < shares.length; i += 1) {
+    // Lagrange basis at 0: Π x_j / (x_j - x_i); subtraction is XOR in GF(2^8).
+    let basis = 1;
+    for (let j = 0; j < shares.length; j += 1) {
+      if (i === j) continue;
+      basis = gfMul(basis, gfDiv(shares[j].x, shares[j].x ^ shares[i].x));
+    }
+    for (let b = 0; b < length; b += 1) secret[b] ^= gfMul(shares[i].y[b], basis);
+  }
+  return secret;
+}
@@ -0,0 +1,71 @@
+// Fee priority tiers mapped onto the node's fee-estimate buckets.
+//
+// /info/fee-estimate returns one priority bucket plus ordered normal and low
+// buckets, each with a feerate (sompi/gram) and an estimated confirmation
+// time. A tier picks the first bucket of its class; missing classes fall back
+// to the next faster one, and an unreachable node falls back to the minimum
+// relay feerate.
+
+import type { KaspaFeeEstimate } from "./kaspaClient";
+
+export type FeeTier = "low" | "normal" | "priority";
+
+/** Slowest to fastest. */
+export const FEE_TIERS: FeeTier[] = ["low", "normal", "priority"];
+
+/** Tier used when none is given — the priority bucket, as before tiers existed. */
+export const DEFAULT_FEE_TIER: FeeTier = "priority";
+
+export const FEE_TIER_LABELS: Record<FeeTier, string> = {
+  low: "Low",
+  normal: "Normal",
+  priority: "Priority",
+};
+
+/** Minimum relay feerate (sompi/gram). */
+export const MIN_FEERATE = 1;
+
+export interface FeeTierEstimate {
+  tier: FeeTier;
+  /** sompi/gram */
+  feerate: number;
+  /** Node's expected confirmation time; null when the node was unreachable. */
+  estimatedSeconds: number | null;
+}
+
+export function isFeeTier(value: unknown): value is FeeTier {
+  return typeof value === "string" && (FEE_TIERS as string[]).includes(value);
+}
+
+type Bucket = { feerate: number; estimatedSeconds: number } | undefined;
+
+function usable(bucket: Bucket): bucket is { feerate: number; estimatedSeconds: number } {
+  return Boolean(bucket) && Number.isFinite(bucket!.feerate) && bucket!.feerate > 0;
+}
+
+/** Resolve all three tiers from a fee-estimate response (or null when unavailable). */
+export function resolveFeeTiers(estimate: KaspaFeeEstimate | null | undefined): FeeTierEstimate[] {
+  const priority = estimate?.priorityBucket;
+  const normal = estimate?.normalBuckets?.[0];
+  const low = estimate?.lowBuckets?.[0];
+
+  const pick = (...candidates: Bucket[]) => candidates.find(usable);
+
+  return FEE_TIERS.map((tier) => {
+    const bucket = tier === "priority"
+      ? pick(priority)
+      : tier === "normal"
+        ? pick(normal, priority)
+        : pick(low, normal, priority);
+    return bucket
+      ? { tier, feerate: bucket.feerate, estimatedSeconds: bucket.estimatedSeconds }
+      : { tier, feerate: MIN_FEERATE, estimatedSeconds: null };
+  });
+}
+
+/** "~1s", "~45s", "~3 min" — or "—" when unknown. */
+export function formatConfirmationTime(seconds: number | null): string {
+  if (seconds === null || !Number.isFinite(seconds) || seconds < 0) return "—";
+  if (seconds < 60) return `~${Math.max(1, Math.round(seconds))}s`;
+  return `~${Math.round(seconds / 60)} min`;
+}
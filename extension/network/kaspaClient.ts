@@ -12,6 +12,14 @@ import {
 } from "../shared/storage";
 import { getLocalNodeStatus } from "./localNodeClient";
 import { normalizeNetworkProfile, selectRpcBackend } from "./rpcBackendSelector";
+import { calcP2pkComputeMass } from "../tx/mass";
+import {
+  DEFAULT_FEE_TIER,
+  MIN_FEERATE,
+  resolveFeeTiers,
+  type FeeTier,
+  type FeeTierEstimate,
+} from "./feeTiers";
 
 // ── Config ────────────────────────────────────────────────────────────────────
 
@@ -599,6 +607,27 @@ export interface KaspaTransactionResponse {
   outputs: unknown[];
 }
 
+/** A transaction from /addresses/{address}/full-transactions (light input resolution). */
+export interface KaspaFullTransaction {
+  transaction_id: string;
+  block_time?: number | null;          // Unix ms
+  is_accepted?: boolean;
+  accepting_block_blue_score?: number | null;
+  payload?: string | null;
+  inputs?: Array<{
+    previous_outpoint_hash: string;
+    previous_outpoint_index: string | number;
+    previous_outpoint_address?: string | null;
+    previous_outpoint_amount?: string | number | null;
+  }> | null;
+  outputs?: Array<{
+    index: number;
+    amount: string | number;
+    script_public_key?: string;
+    script_public_key_address?: string | null;
+  }> | null;
+}
+
 export interface KaspaFeeEstimate {
   priorityBucket: { feerate: number; estimatedSeconds: number };
   normalBuckets: Array<{ feerate: number; estimatedSeconds: number }>;
@@ -647,6 +676,41 @@ export async function fetchBalance(
   return BigInt(data?.balance ?? 0);
 }
 
+/**
+ * Fetch the number of transactions that touched an address.
+ * Used by HD gap-limit discovery to tell "used" from "never used" addresses,
+ * including ones whose UTXOs have since been spent.
+ */
+export async function fetchAddressTransactionCount(
+  address: string,
+  network = "mainnet",
+): Promise<number> {
+  const data = await apiFetch<{ total?: number | string }>(
+    network,
+    `/addresses/${encodeURIComponent(address)}/transactions-count`,
+  );
+  const total = Number(data?.total ?? 0);
+  return Number.isFinite(total) && total > 0 ? Math.floor(total) : 0;
+}
+
+/**
+ * Fetch one page of an address's transactions, newest first, with input
+ * addresses and amounts resolved so sends and receives can be told apart.
+ */
+export async function fetchAddressFullTransactions(
+  address: string,
+  network = "mainnet",
+  page: { limit?: number; offset?: number } = {},
+): Promise<KaspaFullTransaction[]> {
+  const limit = Math.max(1, Math.min(500, Math.floor(page.limit ?? 50)));
+  const offset = Math.max(0, Math.floor(page.offset ?? 0));
+  const data = await apiFetch<KaspaFullTransaction[]>(
+    network,
+    `/addresses/${encodeURIComponent(address)}/full-transactions?limit=${limit}&offset=${offset}&resolve_previous_outpoints=light`,
+  );
+  return Array.isArray(data) ? data : [];
+}
+
 /** Fetch current KAS/USD price. Returns 0 on failure (non-critical). */
 export async function fetchKasPrice(network = "mainnet"): Promise<number> {
   try {
@@ -661,47 +725,72 @@ export async function fetchKasPrice(network = "mainnet"): Promise<number> {
 }
 
 /**
- * Fetch fee estimate from the network.
- * Returns feerate in sompi/gram (mass unit).
- * Kaspa's minimum feerate is ~1 sompi/gram.
+ * Fetch the low / normal / priority fee tiers from the node's fee-estimate
+ * buckets, with their expected confirmation times. Falls back to the minimum
+ * feerate (unknown time) when the node is unreachable.
  */
-export async function fetchFeeEstimate(network = "mainnet"): Promise<number> {
+export async function fetchFeeTiers(network = "mainnet"): Promise<FeeTierEstimate[]> {
   try {
     const data = await apiFetch<KaspaFeeEstimate>(network, `/info/fee-estimate`);
-    return data?.priorityBucket?.feerate ?? 1;
+    return resolveFeeTiers(data);
   } catch {
-    return 1; // fallback to minimum
+    return resolveFeeTiers(null);
   }
 }
 
+/**
+ * Fetch fee estimate from the network.
+ * Returns feerate in sompi/gram (mass unit) for the given tier.
+ * Kaspa's minimum feerate is ~1 sompi/gram.
+ */
+export async function fetchFeeEstimate(network = "mainnet", tier: FeeTier = DEFAULT_FEE_TIER): Promise<number> {
+  const tiers = await fetchFeeTiers(network);
+  return tiers.find((t) => t.tier === tier)?.feerate ?? MIN_FEERATE;
+}
+
+/**
+ * Estimate compute mass (grams) of a signed P2PK transaction from input/output
+ * counts. Use tx/mass.ts for the exact mass of a concrete transaction.
+ */
+export function estimateTxMass(inputCount: number, outputCount: number): number {
+  return calcP2pkComputeMass(inputCount, outputCount);
+}
+
 /**
  * Estimate transaction fee given input/output counts.
- * Uses the network's current feerate multiplied by estimated mass.
- * Kaspa mass ≈ 239 + 142 * inputs + 51 * outputs (simplified Rust formula).
+ * Uses the tier's current feerate multiplied by mass. Pass `mass` when the
+ * exact mass (compute + storage, see tx/mass.ts) of the built tx is known;
+ * otherwise the count-based compute mass estimate is used.
  */
 export async function estimateFee(
   inputCount: number,
   outputCount: number,
   network = "mainnet",
+  mass?: number,
+  tier: FeeTier = DEFAULT_FEE_TIER,
 ): Promise<bigint> {
-  const feerate = await fetchFeeEstimate(network);
-  const mass = 239 + 142 * inputCount + 51 * outputCount;
+  const feerate = await fetchFeeEstimate(network, tier);
+  const grams = mass ?? estimateTxMass(inputCount, outputCount);
   // Minimum fee = mass * feerate, but always at least 1000 sompi (safety floor)
-  return BigInt(Math.max(Math.ceil(mass * feerate), 1_000));
+  return BigInt(Math.max(Math.ceil(grams * feerate), 1_000));
 }
 
 /**
  * Broadcast a signed transaction.
  * Expects the Kaspa REST API format: { "transaction": { ... } }
  * Returns the transaction ID.
+ *
+ * With `replaceByFee`, the node evicts mempool transactions that spend the
+ * same inputs at a lower feerate instead of rejecting the double-spend.
  */
 export async function broadcastTx(
   txPayload: object,
   network = "mainnet",
+  opts: { replaceByFee?: boolean } = {},
 ): Promise<string> {
   const data = await apiFetch<{ transactionId?: string; txid?: string }>(
     network,
-    `/transactions`,
+    opts.replaceByFee ? `/transactions?replaceByFee=true` : `/transactions`,
     {
       method: "POST",
       headers: { "Content-Type": "application/json" },
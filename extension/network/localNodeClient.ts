@@ -175,6 +175,33 @@ export async function getLocalNodeMetrics(): Promise<LocalNodeMetricsResponse |
   }
 }
 
+// ── Multisig relay ────────────────────────────────────────────────────────────
+// The control service doubles as a drop box for co-signers on the same host
+// or LAN: spend requests and partial signatures are posted under the spend's
+// PendingTx.id. Entries are opaque envelopes, verified by tx/multisig.ts.
+
+export type MultisigRelayKind = "request" | "partial";
+
+export interface MultisigRelayEntry {
+  kind: MultisigRelayKind;
+  text: string;
+  postedAt: number;
+}
+
+export async function postMultisigRelayEntry(txId: string, kind: MultisigRelayKind, text: string): Promise<void> {
+  await requestJson<{ ok: boolean }>("/multisig/relay", {
+    method: "POST",
+    body: JSON.stringify({ txId, kind, text }),
+  });
+}
+
+export async function getMultisigRelayEntries(txId: string): Promise<MultisigRelayEntry[]> {
+  const response = await requestJson<{ ok: boolean; entries?: MultisigRelayEntry[] }>(
+    `/multisig/relay?txId=${encodeURIComponent(txId)}`,
+  );
+  return Array.isArray(response.entries) ? response.entries : [];
+}
+
 function parseEventPayload(raw: MessageEvent): LocalNodeControlEvent {
   const payload = typeof raw?.data === "string" ? raw.data : "";
   if (!payload) return { type: "unknown", at: Date.now(), payload: {} };
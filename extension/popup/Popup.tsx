@@ -14,6 +14,10 @@ import {
   getHidePortfolioBalances,
   setHidePortfolioBalances,
   setWalletMeta,
+  getWatchOnlyAccounts,
+  getActiveWatchOnlyId,
+  setActiveWatchOnlyId,
+  type WatchOnlyAccount,
 } from "../shared/storage";
 import { UI_PATCH_PORT_NAME, isUiPatchEnvelope } from "../shared/messages";
 import {
@@ -23,13 +27,17 @@ import {
   extendSession,
   restoreSessionFromCache,
   setSessionPersistence,
+  switchVaultAccount,
 } from "../vault/vault";
 import { fetchDagInfo, NETWORK_BPS } from "../network/kaspaClient";
 import { connectKaspaWs, disconnectKaspaWs, subscribeUtxosChanged, subscribeDaaScore } from "../network/kaspaWebSocket";
 import { loadPendingTxs } from "../tx/store";
+import { hdAccountFromSession, listAccountAddresses, scanHdAddresses } from "../utxo/hdAddresses";
 import { pollConfirmation } from "../tx/broadcast";
 import { recoverPendingSwapSettlements } from "../swap/swap";
 import type { UnlockedSession } from "../vault/types";
+import type { PendingSendRequest } from "../background/pendingRequests";
+import type { PendingTx } from "../tx/types";
 import { signMessage as signManagedMessage } from "../../src/wallet/KaspaWalletManager";
 import { WalletTab } from "../tabs/WalletTab";
 import { AgentsTab } from "../tabs/AgentsTab";
@@ -39,8 +47,9 @@ import { LockScreen } from "./screens/LockScreen";
 import { FirstRunScreen } from "./screens/FirstRunScreen";
 import { ConnectApprovalScreen } from "./screens/ConnectApprovalScreen";
 import { SignApprovalScreen } from "./screens/SignApprovalScreen";
+import { TxApprovalScreen } from "./screens/TxApprovalScreen";
 import { EXTENSION_POPUP_BASE_MIN_HEIGHT, EXTENSION_POPUP_BASE_WIDTH, EXTENSION_POPUP_UI_SCALE } from "./layout";
-import { outlineButton, popupShellBackground } from "./surfaces";
+import { chip, outlineButton, popupShellBackground } from "./surfaces";
 import {
   formatFiatFromUsd,
   type DisplayCurrency,
@@ -57,6 +66,7 @@ type Screen =
 
 const PENDING_CONNECT_KEY = "forgeos.connect.pending";
 const PENDING_SIGN_KEY = "forgeos.sign.pending";
+const PENDING_SEND_KEY = "forgeos.send.pending";
 const SITE_AUTH_SESSION_GRACE_MS = 120_000;
 const TRUSTED_SITE_SIGN_HOSTS = new Set([
   "forge-os.xyz",
@@ -80,10 +90,18 @@ type PendingSignRequest = {
   message: string;
 };
 
+/** KAS balance across every tracked HD address of the account (primary only otherwise). */
+async function fetchAccountKasBalance(address: string, network: string): Promise<number> {
+  const addresses = await listAccountAddresses(address, network).catch(() => [address]);
+  const balances = await Promise.all(addresses.map((a) => fetchKasBalance(a, network)));
+  return balances.reduce((sum, kas) => sum + kas, 0);
+}
+
 export function Popup() {
   const [screen, setScreen] = useState<Screen>({ type: "loading" });
   const [session, setSession] = useState<UnlockedSession | null>(null);
   const [network, setNetwork] = useState("mainnet");
+  const [scheduledDueNonce, setScheduledDueNonce] = useState(0);
   const [balance, setBalance] = useState<number | null>(null);
   const [usdPrice, setUsdPrice] = useState(0);
   const [copied, setCopied] = useState(false);
@@ -96,6 +114,7 @@ export function Popup() {
   const [hidePortfolioBalances, setHidePortfolioBalancesState] = useState(false);
   const [pendingConnect, setPendingConnect] = useState<PendingConnectRequest | null>(null);
   const [pendingSign, setPendingSign] = useState<PendingSignRequest | null>(null);
+  const [pendingSend, setPendingSend] = useState<PendingSendRequest | null>(null);
   const [signingSiteRequest, setSigningSiteRequest] = useState(false);
   const [siteSignError, setSiteSignError] = useState<string | null>(null);
   const autoSignedRequestIds = useRef(new Set<string>());
@@ -107,6 +126,13 @@ export function Popup() {
   const [priceUpdatedAt, setPriceUpdatedAt] = useState<number | null>(null);
   const [dagUpdatedAt, setDagUpdatedAt] = useState<number | null>(null);
   const [feedStatusMessage, setFeedStatusMessage] = useState<string | null>(null);
+  const [watchOnlyAccounts, setWatchOnlyAccounts] = useState<WatchOnlyAccount[]>([]);
+  const [activeWatchOnlyId, setActiveWatchOnlyIdState] = useState<string | null>(null);
+
+  // Balance feeds follow the viewed account: the watch-only address when one
+  // is selected, otherwise the vault session. Approvals always use the vault.
+  const activeWatchOnly = watchOnlyAccounts.find((account) => account.id === activeWatchOnlyId) ?? null;
+  const viewedAddress = activeWatchOnly?.address ?? session?.address ?? null;
 
   const NETWORKS = ["mainnet", "testnet-10", "testnet-11", "testnet-12"] as const;
   const NETWORK_LABELS: Record<string, string> = {
@@ -206,15 +232,23 @@ export function Popup() {
   const readPendingApprovals = useCallback(() => {
     const sessionStore = (chrome.storage as any)?.session;
     if (!sessionStore?.get) return;
-    sessionStore.get([PENDING_CONNECT_KEY, PENDING_SIGN_KEY]).then((result: any) => {
+    sessionStore.get([PENDING_CONNECT_KEY, PENDING_SIGN_KEY, PENDING_SEND_KEY]).then((result: any) => {
       const pendingConnectReq = result?.[PENDING_CONNECT_KEY];
       const pendingSignReq = result?.[PENDING_SIGN_KEY];
+      const pendingSendReq = result?.[PENDING_SEND_KEY];
       setPendingConnect(pendingConnectReq?.requestId ? pendingConnectReq : null);
       setPendingSign(
         pendingSignReq?.requestId && typeof pendingSignReq?.message === "string"
           ? pendingSignReq
           : null,
       );
+      // Keep the same object while the request is unchanged so the approval
+      // screen does not rebuild on unrelated session-storage writes.
+      setPendingSend((prev) =>
+        pendingSendReq?.requestId && Array.isArray(pendingSendReq?.outputs)
+          ? (prev?.requestId === pendingSendReq.requestId ? prev : pendingSendReq)
+          : null,
+      );
     }).catch(() => {});
   }, []);
 
@@ -251,7 +285,7 @@ export function Popup() {
       return;
     }
 
-    const hasPendingSiteApproval = Boolean(pendingConnect || pendingSign);
+    const hasPendingSiteApproval = Boolean(pendingConnect || pendingSign || pendingSend);
     if (hasPendingSiteApproval) {
       clearTransientCleanupTimer();
       return;
@@ -264,7 +298,7 @@ export function Popup() {
     }, SITE_AUTH_SESSION_GRACE_MS);
 
     return clearTransientCleanupTimer;
-  }, [screen.type, persistUnlockSessionEnabled, pendingConnect?.requestId, pendingSign?.requestId]);
+  }, [screen.type, persistUnlockSessionEnabled, pendingConnect?.requestId, pendingSign?.requestId, pendingSend?.requestId]);
 
   useEffect(() => {
     return () => {
@@ -322,7 +356,7 @@ export function Popup() {
     try {
       const networkAddress = withKaspaAddressNetwork(address, targetNetwork);
       const [balanceResult, priceResult] = await Promise.allSettled([
-        fetchKasBalance(networkAddress, targetNetwork),
+        fetchAccountKasBalance(networkAddress, targetNetwork),
         fetchKasUsdPrice(targetNetwork),
       ]);
 
@@ -350,6 +384,16 @@ export function Popup() {
     } catch { /* non-fatal */ }
   }, []);
 
+  // HD gap-limit discovery — finds rotated receive/change addresses with
+  // history so balances and coin selection cover the whole account.
+  const runAddressDiscovery = useCallback((s: UnlockedSession, targetNetwork: string) => {
+    const account = hdAccountFromSession(s);
+    if (!account) return;
+    scanHdAddresses(account, targetNetwork)
+      .then(() => fetchBalances(s.address, targetNetwork))
+      .catch(() => { /* non-fatal — primary address still works */ });
+  }, [fetchBalances]);
+
   const applyNetworkPatch = useCallback((nextNetwork: string) => {
     const normalized = String(nextNetwork || "").trim();
     if (!normalized || networkRef.current === normalized) return;
@@ -361,10 +405,10 @@ export function Popup() {
     setPriceUpdatedAt(null);
     setDagUpdatedAt(null);
     setFeedStatusMessage(null);
-    if (session?.address) {
-      fetchBalances(session.address, normalized);
+    if (viewedAddress) {
+      fetchBalances(viewedAddress, normalized);
     }
-  }, [fetchBalances, session?.address]);
+  }, [fetchBalances, viewedAddress]);
 
   useEffect(() => {
     const onChanged = (changes: Record<string, any>, areaName: string) => {
@@ -390,6 +434,9 @@ export function Popup() {
         if (patch?.type === "network" && typeof patch.network === "string") {
           applyNetworkPatch(patch.network);
         }
+        if (patch?.type === "scheduledSendsDue") {
+          setScheduledDueNonce((n) => n + 1);
+        }
       }
     };
     port.onMessage.addListener(onMessage as any);
@@ -405,21 +452,21 @@ export function Popup() {
 
   // ── Live balance + price polling ───────────────────────────────────────────
   useEffect(() => {
-    if (screen.type !== "unlocked" || !session?.address) return;
+    if (screen.type !== "unlocked" || !viewedAddress) return;
     const poll = () => {
-      fetchBalances(session.address, network);
+      fetchBalances(viewedAddress, network);
     };
     poll();
     const id = setInterval(poll, 15_000);
     return () => clearInterval(id);
-  }, [screen.type, session?.address, network, fetchBalances]);
+  }, [screen.type, viewedAddress, network, fetchBalances]);
 
   // ── WebSocket real-time subscriptions (C2) ───────────────────────────────────
   useEffect(() => {
-    if (screen.type !== "unlocked" || !session?.address) return;
+    if (screen.type !== "unlocked" || !viewedAddress) return;
     connectKaspaWs(network).catch(() => {});
-    const unsubUtxo = subscribeUtxosChanged(session.address, () => {
-      fetchBalances(session.address, network);
+    const unsubUtxo = subscribeUtxosChanged(viewedAddress, () => {
+      fetchBalances(viewedAddress, network);
     });
     const unsubDaa = subscribeDaaScore((score) => {
       setDagScore(score);
@@ -430,13 +477,41 @@ export function Popup() {
       unsubDaa();
       disconnectKaspaWs().catch(() => {});
     };
-  }, [screen.type, session?.address, network, fetchBalances]);
+  }, [screen.type, viewedAddress, network, fetchBalances]);
+
+  // ── Scheduled sends: sign due auto-sign sends while unlocked ────────────────
+  // Runs on unlock and whenever the service worker reports newly due sends.
+  useEffect(() => {
+    if (screen.type !== "unlocked" || !session?.mnemonic || !session.address) return;
+    const address = session.address;
+    let cancelled = false;
+    import("../tx/scheduled").then(async (mod) => {
+      const chain = await mod.fetchScheduleChainState(network);
+      if (cancelled) return;
+      const ran = await mod.runDueAutoSignSends(address, network, chain);
+      if (ran.length > 0) fetchBalances(address, network);
+    }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [screen.type, session?.mnemonic, session?.address, network, scheduledDueNonce, fetchBalances]);
+
+  // ── Watch-only accounts ──────────────────────────────────────────────────────
+  const reloadWatchOnly = useCallback(async () => {
+    const [list, activeId] = await Promise.all([getWatchOnlyAccounts(), getActiveWatchOnlyId()]);
+    setWatchOnlyAccounts(list);
+    setActiveWatchOnlyIdState(list.some((account) => account.id === activeId) ? activeId : null);
+  }, []);
+
+  useEffect(() => {
+    if (screen.type !== "unlocked") return;
+    reloadWatchOnly().catch(() => {});
+  }, [screen.type, reloadWatchOnly]);
 
   // ── Handlers ─────────────────────────────────────────────────────────────────
   const handleUnlock = (s: UnlockedSession) => {
     setLockedAddress(null);
     setSession(s);
     fetchBalances(s.address, network);
+    runAddressDiscovery(s, network);
     setScreen({ type: "unlocked" });
   };
 
@@ -472,6 +547,7 @@ export function Popup() {
   const handleFirstRunComplete = (s: UnlockedSession) => {
     setSession(s);
     fetchBalances(s.address, network);
+    runAddressDiscovery(s, network);
     setScreen({ type: "unlocked" });
   };
 
@@ -484,15 +560,61 @@ export function Popup() {
     }
   })();
 
+  // Address shown in the hero and tabs (watch-only or vault).
+  const viewAddress = (() => {
+    if (!activeWatchOnly) return activeAddress;
+    try {
+      return withKaspaAddressNetwork(activeWatchOnly.address, network);
+    } catch {
+      return activeWatchOnly.address;
+    }
+  })();
+
   const copyAddress = async () => {
-    if (!activeAddress) return;
+    if (!viewAddress) return;
     try {
-      await navigator.clipboard.writeText(activeAddress);
+      await navigator.clipboard.writeText(viewAddress);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch { /* non-fatal */ }
   };
 
+  // ── Account switching ────────────────────────────────────────────────────────
+  const handleSwitchAccount = async (accountId: string) => {
+    if (!session || accountId === session.activeAccountId) return;
+    try {
+      const next = await switchVaultAccount(accountId, { persistSession: persistUnlockSessionEnabled });
+      setSession(next);
+      setBalance(null);
+      setBalanceUpdatedAt(null);
+      fetchBalances(next.address, network);
+      runAddressDiscovery(next, network);
+      await setWalletMeta({ address: withKaspaAddressNetwork(next.address, network), network });
+    } catch { /* non-fatal — selector stays on the previous account */ }
+  };
+
+  const handleViewWatchOnly = async (watchOnlyId: string | null) => {
+    if (watchOnlyId === activeWatchOnlyId) return;
+    setActiveWatchOnlyIdState(watchOnlyId);
+    setBalance(null);
+    setBalanceUpdatedAt(null);
+    await setActiveWatchOnlyId(watchOnlyId).catch(() => {});
+  };
+
+  const handleSelectAccount = async (value: string) => {
+    if (value.startsWith("watch:")) {
+      await handleViewWatchOnly(value.slice("watch:".length));
+      return;
+    }
+    await handleViewWatchOnly(null);
+    if (value) await handleSwitchAccount(value);
+  };
+
+  const handleAccountsChanged = () => {
+    const current = getSession();
+    if (current) setSession({ ...current });
+  };
+
   // ── Network cycling ──────────────────────────────────────────────────────────
   const handleCycleNetwork = async () => {
     const idx = NETWORKS.indexOf(network as typeof NETWORKS[number]);
@@ -594,6 +716,43 @@ export function Popup() {
     window.close();
   };
 
+  // Site transaction requests need a vault key to sign, same as messages.
+  useEffect(() => {
+    if (screen.type !== "unlocked" || !pendingSend) return;
+    if (session?.mnemonic) return;
+    chrome.runtime.sendMessage({
+      type: "FORGEOS_SEND_REJECT",
+      requestId: pendingSend.requestId,
+      error: "Managed wallet is required for site transactions",
+    }).catch(() => {});
+    setPendingSend(null);
+  }, [screen.type, pendingSend, session?.mnemonic]);
+
+  const handleSiteSendBroadcast = (tx: PendingTx) => {
+    if (!pendingSend) return;
+    chrome.runtime.sendMessage({
+      type: "FORGEOS_SEND_APPROVE",
+      requestId: pendingSend.requestId,
+      txId: tx.txId,
+    }).catch(() => {});
+    setPendingSend(null);
+    pollConfirmation(tx, (updated) => {
+      if ((updated.state === "CONFIRMED" || updated.state === "FAILED") && session?.address) {
+        fetchBalances(session.address, networkRef.current);
+      }
+    }).catch(() => {});
+  };
+
+  const handleRejectSiteSend = () => {
+    if (!pendingSend) return;
+    chrome.runtime.sendMessage({
+      type: "FORGEOS_SEND_REJECT",
+      requestId: pendingSend.requestId,
+      error: "Transaction rejected by user",
+    }).catch(() => {});
+    window.close();
+  };
+
   // Auto-approve only the canonical Forge-OS SIWA message to avoid showing an
   // extra signature screen right after connect-to-site approval.
   useEffect(() => {
@@ -641,7 +800,7 @@ export function Popup() {
 
   if (screen.type === "locked") {
     const shouldPersistUnlockSession =
-      persistUnlockSessionEnabled || Boolean(pendingConnect || pendingSign);
+      persistUnlockSessionEnabled || Boolean(pendingConnect || pendingSign || pendingSend);
     return (
       <LockScreen
         walletAddress={lockedAddress}
@@ -671,12 +830,26 @@ export function Popup() {
     );
   }
 
+  // ── Pending transaction approval ─────────────────────────────────────────────
+  if (pendingSend && activeAddress && isManagedWallet) {
+    return (
+      <TxApprovalScreen
+        address={activeAddress}
+        network={network}
+        request={pendingSend}
+        onBroadcast={handleSiteSendBroadcast}
+        onReject={handleRejectSiteSend}
+      />
+    );
+  }
+
   // ── Pending connect approval (MetaMask-style) ────────────────────────────────
   if (pendingConnect && activeAddress) {
     return (
       <ConnectApprovalScreen
         address={activeAddress}
         network={network}
+        accountId={session?.activeAccountId}
         origin={pendingConnect.origin}
         onApprove={() => {
           chrome.runtime.sendMessage({
@@ -699,7 +872,9 @@ export function Popup() {
   }
 
   // ── UNLOCKED — main popup UI ─────────────────────────────────────────────────
-  const address = activeAddress;
+  const address = viewAddress;
+  const accounts = session?.accounts ?? [];
+  const isWatchOnly = activeWatchOnly !== null;
   const displayCurrency: DisplayCurrency = "USD";
   const portfolioUsdValue = balance !== null && usdPrice > 0 ? balance * usdPrice : null;
   const portfolioDisplayValue =
@@ -816,9 +991,52 @@ export function Popup() {
             boxShadow: "inset 0 1px 0 rgba(255,255,255,0.04), 0 14px 26px rgba(0,0,0,0.24)",
           }}
         >
+          {/* Account selector (several vault accounts, or any watch-only address) */}
+          {(accounts.length > 1 || watchOnlyAccounts.length > 0) && (
+            <div style={{ display: "flex", justifyContent: "center", marginBottom: 10 }}>
+              <select
+                value={activeWatchOnly ? `watch:${activeWatchOnly.id}` : session?.activeAccountId ?? accounts[0]?.id ?? ""}
+                onChange={(event) => { void handleSelectAccount(event.target.value); }}
+                aria-label="Active account"
+                title="Switch account"
+                style={{
+                  background: "rgba(33,48,67,0.48)",
+                  border: `1px solid rgba(44,61,82,0.86)`,
+                  borderRadius: 999,
+                  padding: "4px 10px",
+                  color: C.text,
+                  fontSize: 10,
+                  letterSpacing: "0.06em",
+                  cursor: "pointer",
+                  outline: "none",
+                  ...mono,
+                }}
+              >
+                {accounts.length === 0 && session?.address && (
+                  <option value="">Wallet · {shortAddr(session.address)}</option>
+                )}
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.label} · {shortAddr(account.address)}
+                  </option>
+                ))}
+                {watchOnlyAccounts.length > 0 && (
+                  <optgroup label="Watch-only">
+                    {watchOnlyAccounts.map((account) => (
+                      <option key={account.id} value={`watch:${account.id}`}>
+                        {account.label} · {shortAddr(account.address)}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+            </div>
+          )}
+
           {/* Address row */}
           <div style={{ display: "flex", alignItems: "center", justifyContent: "center", gap: 6, marginBottom: 16 }}>
-            <div style={{ width: 6, height: 6, borderRadius: "50%", background: C.ok, flexShrink: 0, boxShadow: `0 0 6px ${C.ok}` }} />
+            <div style={{ width: 6, height: 6, borderRadius: "50%", background: isWatchOnly ? C.warn : C.ok, flexShrink: 0, boxShadow: `0 0 6px ${isWatchOnly ? C.warn : C.ok}` }} />
+            {isWatchOnly && <span style={chip(C.warn, true)} title="No key held — view only">WATCH-ONLY</span>}
             <span style={{ fontSize: 10, color: C.dim, letterSpacing: "0.04em" }}>{shortAddr(address)}</span>
             <button
               onClick={copyAddress}
@@ -894,14 +1112,14 @@ export function Popup() {
           {/* Action buttons */}
           <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
             {[
-              {
+              ...(isWatchOnly ? [] : [{
                 label: "SEND",
                 action: () => {
                   setTab("wallet");
                   setWalletMode("send");
                   setWalletModeRequestId((id) => id + 1);
                 },
-              },
+              }]),
               {
                 label: "RECEIVE",
                 action: () => {
@@ -910,7 +1128,7 @@ export function Popup() {
                   setWalletModeRequestId((id) => id + 1);
                 },
               },
-              { label: "SWAP",  action: () => setShowSwapOverlay(true) },
+              ...(isWatchOnly ? [] : [{ label: "SWAP", action: () => setShowSwapOverlay(true) }]),
             ].map(btn => (
               <button
                 key={btn.label}
@@ -1062,8 +1280,9 @@ export function Popup() {
             mode={walletMode}
             modeRequestId={walletModeRequestId}
             onModeConsumed={() => setWalletMode(undefined)}
-            onBalanceInvalidated={() => session?.address && fetchBalances(session.address, network)}
+            onBalanceInvalidated={() => viewedAddress && fetchBalances(viewedAddress, network)}
             hideBalances={hidePortfolioBalances}
+            watchOnly={isWatchOnly}
           />
         )}
         {tab === "swap" && <SwapTab />}
@@ -1073,6 +1292,11 @@ export function Popup() {
             address={address}
             network={network}
             isManagedWallet={isManagedWallet}
+            onAccountsChanged={handleAccountsChanged}
+            onSwitchAccount={handleSelectAccount}
+            activeWatchOnlyId={activeWatchOnlyId}
+            onWatchOnlyChanged={reloadWatchOnly}
+            onViewWatchOnly={handleViewWatchOnly}
             autoLockMinutes={autoLockMinutes}
             persistUnlockSessionEnabled={persistUnlockSessionEnabled}
             onAutoLockMinutesChange={handleAutoLockMinutesChanged}
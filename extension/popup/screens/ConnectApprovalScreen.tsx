@@ -9,22 +9,31 @@ import {
 } from "../layout";
 import { popupShellBackground } from "../surfaces";
 import { addConnectedSite } from "../../shared/storage";
+import { DEFAULT_SITE_SCOPES } from "../../shared/sitePermissions";
 
 interface Props {
   address: string;
   network: string;
+  /** Vault account the site is being connected to (defaults to the active one). */
+  accountId?: string;
   origin?: string;
   onApprove: () => void;
   onReject: () => void;
 }
 
-export function ConnectApprovalScreen({ address, network, origin, onApprove, onReject }: Props) {
+export function ConnectApprovalScreen({ address, network, accountId, origin, onApprove, onReject }: Props) {
   const displayOrigin = origin ?? "forge-os.xyz";
   const [rememberSite, setRememberSite] = useState(false);
 
   function handleApprove() {
     if (rememberSite && origin) {
-      addConnectedSite(origin, { address, network, connectedAt: Date.now() }).catch(() => {});
+      addConnectedSite(origin, {
+        address,
+        network,
+        accountId,
+        connectedAt: Date.now(),
+        scopes: [...DEFAULT_SITE_SCOPES],
+      }).catch(() => {});
     }
     onApprove();
   }
@@ -1,5 +1,6 @@
 // First-run wallet setup screen.
-// Two flows only: Create New, Import Existing.
+// Flows: Create New, Import Existing, Restore from an encrypted backup file,
+// Restore from K-of-N seed phrase shares (recovered phrase continues as an import).
 // External wallet option removed — use forge-os.xyz for third-party wallet connection.
 
 import { useState } from "react";
@@ -24,6 +25,8 @@ import {
   rememberSelectedImportCandidate,
 } from "../../shared/importAddressBook";
 import { createVault, unlockVault } from "../../vault/vault";
+import { restoreVaultBackup } from "../../vault/backup";
+import { MNEMONIC_SHARES_MAX, parseMnemonicShare, recoverMnemonic } from "../../vault/shares";
 import { setWalletMeta } from "../../shared/storage";
 import type { UnlockedSession } from "../../vault/types";
 import { EXTENSION_POPUP_BASE_MIN_HEIGHT, EXTENSION_POPUP_BASE_WIDTH, EXTENSION_POPUP_UI_SCALE } from "../layout";
@@ -38,6 +41,8 @@ type Step =
   | "import_phrase"
   | "import_discover"
   | "import_password"
+  | "restore_backup"
+  | "restore_shares"
   | "working";
 
 interface Props {
@@ -72,6 +77,23 @@ function parseScanLimit(raw: string): number {
   return Math.max(1, Math.min(MAX_SCAN_LIMIT, parsed || DEFAULT_SCAN_LIMIT));
 }
 
+function restoreErrorText(err: unknown): string {
+  const msg = err instanceof Error ? err.message : String(err);
+  if (msg === "INVALID_PASSWORD") return "Incorrect backup password.";
+  if (/^BACKUP_|^Seed phrase/.test(msg)) return msg;
+  return "Failed to restore backup. Please try again.";
+}
+
+function shareStatus(text: string): { ok: boolean; label: string } | null {
+  if (!text.trim()) return null;
+  try {
+    const share = parseMnemonicShare(text);
+    return { ok: true, label: `✓ share ${share.index} of ${share.total} · ${share.threshold} needed` };
+  } catch (err) {
+    return { ok: false, label: err instanceof Error ? err.message : String(err) };
+  }
+}
+
 function parseBasePaths(raw: string): string[] {
   const parsed = String(raw || "")
     .split(/[,\n]+/)
@@ -194,6 +216,9 @@ export function FirstRunScreen({ network: _defaultNetwork, onComplete }: Props)
     formatKaspaDerivationPath(DEFAULT_KASPA_DERIVATION),
   );
   const [backupConfirmed, setBackupConfirmed] = useState(false);
+  const [backupText, setBackupText] = useState("");
+  const [backupPassword, setBackupPassword] = useState("");
+  const [shareInputs, setShareInputs] = useState<string[]>(["", ""]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -470,6 +495,44 @@ export function FirstRunScreen({ network: _defaultNetwork, onComplete }: Props)
     }
   };
 
+  const handleRestoreBackup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!backupText.trim() || !backupPassword || loading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const session = await restoreVaultBackup(backupText, backupPassword);
+      setBackupText("");
+      setBackupPassword("");
+      onComplete(session);
+    } catch (err) {
+      setError(restoreErrorText(err));
+      setLoading(false);
+    }
+  };
+
+  const handleRecoverShares = async () => {
+    if (loading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const phrase = await recoverMnemonic(shareInputs);
+      setShareInputs(["", ""]);
+      setImportPhrase(phrase);
+      setImportPassphrase("");
+      setImportAddress("");
+      setImportCandidates([]);
+      setRememberedKeys([]);
+      setImportDerivation(DEFAULT_KASPA_DERIVATION);
+      setManualDerivationPath(formatKaspaDerivationPath(DEFAULT_KASPA_DERIVATION));
+      setStep("import_phrase");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const words = generatedMnemonic.split(" ");
 
   // ── CHOOSE ──────────────────────────────────────────────────────────────────
@@ -559,6 +622,39 @@ export function FirstRunScreen({ network: _defaultNetwork, onComplete }: Props)
           </div>
         </button>
 
+        {/* RESTORE FROM BACKUP FILE */}
+        <button onClick={() => {
+          setError(null);
+          setBackupText("");
+          setBackupPassword("");
+          setStep("restore_backup");
+        }} style={{
+          width: "100%", padding: "10px 16px", textAlign: "left" as const,
+          background: "none", border: `1px dashed ${C.border}`,
+          borderRadius: 10, marginTop: -8, marginBottom: 18, cursor: "pointer", ...mono,
+        }}>
+          <div style={{ fontSize: 9, fontWeight: 700, color: C.text, marginBottom: 3, letterSpacing: "0.06em" }}>RESTORE FROM BACKUP</div>
+          <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5 }}>
+            Encrypted Forge-OS backup file · accounts, sites and agents included
+          </div>
+        </button>
+
+        {/* RESTORE FROM SEED PHRASE SHARES */}
+        <button onClick={() => {
+          setError(null);
+          setShareInputs(["", ""]);
+          setStep("restore_shares");
+        }} style={{
+          width: "100%", padding: "10px 16px", textAlign: "left" as const,
+          background: "none", border: `1px dashed ${C.border}`,
+          borderRadius: 10, marginTop: -8, marginBottom: 18, cursor: "pointer", ...mono,
+        }}>
+          <div style={{ fontSize: 9, fontWeight: 700, color: C.text, marginBottom: 3, letterSpacing: "0.06em" }}>RESTORE FROM SHARES</div>
+          <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5 }}>
+            Combine K-of-N seed phrase shares created in the Security tab
+          </div>
+        </button>
+
         {/* Security footer */}
         <div style={{ marginTop: "auto", padding: "10px 12px", background: "rgba(5,7,10,0.5)", border: `1px solid ${C.border}`, borderRadius: 8 }}>
           {[
@@ -1070,6 +1166,144 @@ export function FirstRunScreen({ network: _defaultNetwork, onComplete }: Props)
     );
   }
 
+  // ── RESTORE: BACKUP FILE ────────────────────────────────────────────────────
+  if (step === "restore_backup") {
+    const ready = Boolean(backupText.trim()) && Boolean(backupPassword) && !loading;
+    return (
+      <Section>
+        <Header
+          title="RESTORE FROM BACKUP"
+          sub="Choose a Forge-OS backup file and enter the password it was exported with. The restored wallet uses the same password."
+          onBack={() => { setError(null); setStep("choose"); }}
+        />
+        {error && <div style={{ fontSize: 8, color: C.danger, marginBottom: 10 }}>{error}</div>}
+        <form onSubmit={handleRestoreBackup}>
+          <div style={{ fontSize: 8, color: C.dim, letterSpacing: "0.1em", marginBottom: 7 }}>BACKUP FILE</div>
+          <input
+            type="file"
+            accept="application/json,.json"
+            disabled={loading}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              setError(null);
+              if (file) file.text().then(setBackupText).catch(() => setError("Could not read the selected file."));
+            }}
+            style={{ fontSize: 8, color: C.dim, ...mono, marginBottom: 7 }}
+          />
+          <textarea
+            value={backupText}
+            onChange={e => { setBackupText(e.target.value); setError(null); }}
+            placeholder="…or paste the backup file contents"
+            rows={4}
+            disabled={loading}
+            style={{
+              width: "100%", boxSizing: "border-box" as const,
+              background: "rgba(8,13,20,0.8)", border: `1px solid ${C.border}`,
+              borderRadius: 8, padding: "10px 12px", color: C.text, fontSize: 10,
+              resize: "vertical" as const, ...mono, outline: "none", marginBottom: 10,
+            }}
+          />
+          <div style={{ fontSize: 8, color: C.dim, letterSpacing: "0.1em", marginBottom: 7 }}>BACKUP PASSWORD</div>
+          <input
+            type="password"
+            value={backupPassword}
+            onChange={e => { setBackupPassword(e.target.value); setError(null); }}
+            placeholder="Password used when exporting"
+            disabled={loading}
+            style={{
+              width: "100%", boxSizing: "border-box" as const,
+              background: "rgba(8,13,20,0.8)", border: `1px solid ${C.border}`,
+              borderRadius: 8, padding: "10px 12px", color: C.text, fontSize: 10,
+              ...mono, outline: "none", marginBottom: 10,
+            }}
+          />
+          <button type="submit" disabled={!ready} style={{
+            width: "100%", marginTop: 2, padding: "11px 0",
+            background: ready ? `linear-gradient(90deg, ${C.accent}, #7BE9CF)` : `${C.accent}25`,
+            border: "none", borderRadius: 8,
+            color: ready ? "#04110E" : C.dim,
+            fontSize: 10, fontWeight: 700,
+            cursor: ready ? "pointer" : "not-allowed",
+            letterSpacing: "0.1em", ...mono,
+          }}>
+            {loading ? "DECRYPTING…" : "RESTORE WALLET"}
+          </button>
+        </form>
+      </Section>
+    );
+  }
+
+  // ── RESTORE: SEED PHRASE SHARES ─────────────────────────────────────────────
+  if (step === "restore_shares") {
+    const parsed = shareInputs.map(shareStatus);
+    const needed = (() => {
+      for (const text of shareInputs) {
+        try { return parseMnemonicShare(text).threshold; } catch { /* keep looking */ }
+      }
+      return null;
+    })();
+    const validCount = parsed.filter((p) => p?.ok).length;
+    const ready = !loading && validCount >= 2 && parsed.every((p) => !p || p.ok) && (needed === null || validCount >= needed);
+    return (
+      <Section>
+        <Header
+          title="RESTORE FROM SHARES"
+          sub="Enter seed phrase shares one per field. Each share is checked as you type; the recovered phrase continues as a normal import."
+          onBack={() => { setError(null); setShareInputs(["", ""]); setStep("choose"); }}
+        />
+        {error && <div style={{ fontSize: 8, color: C.danger, marginBottom: 10 }}>{error}</div>}
+        {shareInputs.map((text, i) => (
+          <div key={i} style={{ marginBottom: 8 }}>
+            <div style={{ fontSize: 8, color: C.dim, letterSpacing: "0.1em", marginBottom: 5 }}>SHARE {i + 1}</div>
+            <textarea
+              value={text}
+              onChange={e => {
+                const next = [...shareInputs];
+                next[i] = e.target.value;
+                setShareInputs(next);
+                setError(null);
+              }}
+              placeholder="fsh1-…"
+              rows={2}
+              disabled={loading}
+              style={{
+                width: "100%", boxSizing: "border-box" as const,
+                background: "rgba(8,13,20,0.8)", border: `1px solid ${parsed[i] && !parsed[i]!.ok ? C.danger : C.border}`,
+                borderRadius: 8, padding: "8px 10px", color: C.text, fontSize: 9,
+                resize: "vertical" as const, ...mono, outline: "none",
+              }}
+            />
+            {parsed[i] && (
+              <div style={{ fontSize: 8, color: parsed[i]!.ok ? C.ok : C.danger, marginTop: 3, lineHeight: 1.4 }}>{parsed[i]!.label}</div>
+            )}
+          </div>
+        ))}
+        <button
+          onClick={() => setShareInputs([...shareInputs, ""])}
+          disabled={loading || shareInputs.length >= MNEMONIC_SHARES_MAX}
+          style={{
+            width: "100%", padding: "8px 0", marginBottom: 10,
+            background: "none", border: `1px dashed ${C.border}`, borderRadius: 8,
+            color: C.dim, fontSize: 8, cursor: "pointer", letterSpacing: "0.08em", ...mono,
+          }}
+        >
+          + ADD SHARE{needed !== null ? ` · ${validCount}/${needed} VALID` : ""}
+        </button>
+        <button onClick={handleRecoverShares} disabled={!ready} style={{
+          width: "100%", padding: "11px 0",
+          background: ready ? `linear-gradient(90deg, ${C.accent}, #7BE9CF)` : `${C.accent}25`,
+          border: "none", borderRadius: 8,
+          color: ready ? "#04110E" : C.dim,
+          fontSize: 10, fontWeight: 700,
+          cursor: ready ? "pointer" : "not-allowed",
+          letterSpacing: "0.1em", ...mono,
+        }}>
+          {loading ? "COMBINING…" : "RECOVER SEED PHRASE →"}
+        </button>
+      </Section>
+    );
+  }
+
   // ── WORKING ─────────────────────────────────────────────────────────────────
   return (
     <Section>
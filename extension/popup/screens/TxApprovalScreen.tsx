@@ -0,0 +1,288 @@
+/// <reference path="../../chrome.d.ts" />
+// TxApprovalScreen — approval for a site's window.forgeos sendKaspa/sendBatch
+// request. The transaction is built and dry-run through the deterministic
+// kernel before anything is shown, so the user approves the exact PendingTx
+// (inputs, outputs, fees) that will be signed. Changing the fee tier rebuilds.
+
+import { useEffect, useRef, useState } from "react";
+import { C, mono } from "../../../src/tokens";
+import { fmt, shortAddr } from "../../../src/helpers";
+import {
+  EXTENSION_CONNECT_APPROVAL_BASE_MIN_HEIGHT,
+  EXTENSION_CONNECT_APPROVAL_BASE_WIDTH,
+  EXTENSION_POPUP_UI_SCALE,
+} from "../layout";
+import { insetCard, popupShellBackground, sectionKicker } from "../surfaces";
+import { FeeTierPicker } from "../../tabs/FeeTierPicker";
+import { DEFAULT_FEE_TIER, type FeeTier } from "../../network/feeTiers";
+import { sompiToKas } from "../../utxo/utxoSync";
+import { updatePendingTx } from "../../tx/store";
+import type { FeeTierQuote } from "../../tx/builder";
+import type { PendingTx } from "../../tx/types";
+import type { PendingSendRequest } from "../../background/pendingRequests";
+
+type TxKernelModule = typeof import("../../tx/kernel");
+let txKernelPromise: Promise<TxKernelModule> | null = null;
+
+function loadTxKernel(): Promise<TxKernelModule> {
+  if (!txKernelPromise) {
+    txKernelPromise = import("../../tx/kernel");
+  }
+  return txKernelPromise;
+}
+
+interface Props {
+  address: string;
+  network: string;
+  request: PendingSendRequest;
+  /** Called once the signed transaction has been accepted by the node. */
+  onBroadcast: (tx: PendingTx) => void;
+  onReject: () => void;
+}
+
+function sumOutputs(request: PendingSendRequest): bigint {
+  return request.outputs.reduce((acc, o) => acc + BigInt(o.amountSompi), 0n);
+}
+
+function kasLabel(sompi: bigint): string {
+  return `${fmt(sompiToKas(sompi), 8)} KAS`;
+}
+
+export function TxApprovalScreen({ address, network, request, onBroadcast, onReject }: Props) {
+  const [feeTier, setFeeTier] = useState<FeeTier>(request.feeTier ?? DEFAULT_FEE_TIER);
+  const [tx, setTx] = useState<PendingTx | null>(null);
+  const [quotes, setQuotes] = useState<FeeTierQuote[] | null>(null);
+  const [building, setBuilding] = useState(true);
+  const [signing, setSigning] = useState(false);
+  const [dryRunErrors, setDryRunErrors] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Built-but-unsigned tx, released (CANCELLED) when rebuilt or rejected.
+  const draftRef = useRef<PendingTx | null>(null);
+
+  const releaseDraft = async () => {
+    const draft = draftRef.current;
+    draftRef.current = null;
+    if (draft) await updatePendingTx({ ...draft, state: "CANCELLED" }).catch(() => {});
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setBuilding(true);
+    setTx(null);
+    setDryRunErrors([]);
+    setError(null);
+
+    (async () => {
+      await releaseDraft();
+      let kernel: TxKernelModule | null = null;
+      try {
+        kernel = await loadTxKernel();
+        const built = await kernel.buildAndValidateKaspaIntent({
+          fromAddress: address,
+          network,
+          recipients: request.outputs.map((o) => ({
+            address: o.address,
+            amountKas: sompiToKas(BigInt(o.amountSompi)),
+            amountSompi: BigInt(o.amountSompi),
+          })),
+          opReturnHex: request.payloadHex,
+          feeTier,
+        }, {
+          telemetry: {
+            channel: "manual",
+            context: { surface: "site_send_request", origin: request.origin, outputs: request.outputs.length, feeTier },
+          },
+        });
+        if (cancelled) {
+          await updatePendingTx({ ...built, state: "CANCELLED" }).catch(() => {});
+          return;
+        }
+        draftRef.current = built;
+        setTx(built);
+        const { quoteFeeTiers } = await import("../../tx/builder");
+        const tierQuotes = await quoteFeeTiers(built.mass?.mass ?? 0, network).catch(() => null);
+        if (!cancelled) setQuotes(tierQuotes);
+      } catch (err) {
+        if (cancelled) return;
+        const msg = err instanceof Error ? err.message : String(err);
+        if (kernel && err instanceof kernel.DeterministicExecutionError) {
+          if (err.details.length > 0) setDryRunErrors(err.details);
+          if (err.tx) await updatePendingTx({ ...err.tx, state: "CANCELLED" }).catch(() => {});
+        }
+        setError(msg === "INSUFFICIENT_FUNDS" ? "Insufficient balance including fees." : `Build failed: ${msg}`);
+      } finally {
+        if (!cancelled) setBuilding(false);
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [address, network, request.requestId, feeTier]);
+
+  const handleApprove = async () => {
+    if (!tx || signing) return;
+    setSigning(true);
+    setError(null);
+    try {
+      const kernel = await loadTxKernel();
+      const broadcast = await kernel.signBroadcastAndReconcileKaspaTx(tx, {
+        awaitConfirmation: false,
+        telemetry: {
+          channel: "manual",
+          context: { surface: "site_send_request", origin: request.origin, feeTier },
+        },
+      });
+      draftRef.current = null;
+      onBroadcast(broadcast);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setSigning(false);
+    }
+  };
+
+  const handleReject = async () => {
+    await releaseDraft();
+    onReject();
+  };
+
+  const displayOrigin = request.origin ?? "unknown site";
+  const busy = building || signing;
+  const canApprove = Boolean(tx) && !busy;
+
+  const row = (label: string, value: string, color: string = C.text) => (
+    <div style={{ display: "flex", justifyContent: "space-between", gap: 8, fontSize: 9 }}>
+      <span style={{ color: C.dim }}>{label}</span>
+      <span style={{ color, textAlign: "right", wordBreak: "break-all" }}>{value}</span>
+    </div>
+  );
+
+  return (
+    <div
+      data-testid="tx-approval-screen"
+      style={{
+      width: "100%",
+      maxWidth: EXTENSION_CONNECT_APPROVAL_BASE_WIDTH,
+      height: "100%",
+      minHeight: EXTENSION_CONNECT_APPROVAL_BASE_MIN_HEIGHT,
+      ...popupShellBackground(),
+      display: "flex",
+      flexDirection: "column",
+      ...mono,
+      overflow: "hidden",
+      zoom: EXTENSION_POPUP_UI_SCALE,
+      }}
+    >
+      <div style={{ padding: "12px 14px 10px", borderBottom: `1px solid ${C.border}`, display: "flex", alignItems: "center", gap: 8 }}>
+        <img src="../icons/icon48.png" alt="Forge-OS" style={{ width: 22, height: 22, objectFit: "contain", filter: "drop-shadow(0 0 6px rgba(57,221,182,0.5))" }} />
+        <span style={{ fontSize: 13, fontWeight: 700, letterSpacing: "0.1em" }}>
+          <span style={{ color: C.accent }}>FORGE</span><span style={{ color: C.text }}>-OS</span>
+        </span>
+      </div>
+
+      <div style={{
+        flex: 1,
+        minHeight: 0,
+        display: "flex",
+        flexDirection: "column",
+        padding: "14px 16px",
+        gap: 10,
+        overflowY: "auto",
+      }}>
+        <div style={{ textAlign: "center" }}>
+          <div style={{ fontSize: 12, fontWeight: 700, color: C.text, marginBottom: 3 }}>
+            Transaction Request
+          </div>
+          <div style={{ fontSize: 10, color: C.dim, letterSpacing: "0.06em" }}>
+            {displayOrigin}
+          </div>
+        </div>
+
+        <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 5 }}>
+          <div style={sectionKicker}>
+            {request.outputs.length === 1 ? "SEND" : `BATCH · ${request.outputs.length} OUTPUTS`}
+          </div>
+          {request.outputs.map((o, i) => (
+            <div key={`${o.address}-${i}`} style={{ display: "flex", justifyContent: "space-between", gap: 8, fontSize: 9 }}>
+              <span style={{ color: C.text }}>{shortAddr(o.address)}</span>
+              <span style={{ color: C.accent, fontWeight: 700 }}>{kasLabel(BigInt(o.amountSompi))}</span>
+            </div>
+          ))}
+          {request.payloadHex && row("OP_RETURN", `${request.payloadHex.length / 2} bytes`)}
+        </div>
+
+        <FeeTierPicker value={feeTier} onChange={setFeeTier} quotes={quotes} disabled={busy} />
+
+        <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 5 }}>
+          <div style={sectionKicker}>DRY RUN</div>
+          {building && <div style={{ fontSize: 9, color: C.dim }}>Building and validating…</div>}
+          {tx && (
+            <>
+              {row("Inputs", String(tx.inputs.length))}
+              {row("Network fee", kasLabel(tx.fee), C.warn)}
+              {tx.platformFee ? row("Platform fee", kasLabel(tx.platformFee), C.warn) : null}
+              {tx.changeOutput && row("Change", kasLabel(tx.changeOutput.amount))}
+              {tx.mass && row("Mass", `${tx.mass.mass.toLocaleString()} g (${tx.mass.dominant})`)}
+              {row("Total", kasLabel(sumOutputs(request) + tx.fee + (tx.platformFee ?? 0n)), C.text)}
+              {row("Checks", "passed", C.ok)}
+            </>
+          )}
+          {dryRunErrors.map((e) => (
+            <div key={e} style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{e}</div>
+          ))}
+        </div>
+
+        <div style={{ fontSize: 8, color: C.dim }}>
+          From {shortAddr(address)} · {network}
+        </div>
+
+        {error && (
+          <div style={{ fontSize: 9, color: C.danger, lineHeight: 1.5, textAlign: "center" }}>
+            {error}
+          </div>
+        )}
+      </div>
+
+      <div style={{ padding: "12px 16px", borderTop: `1px solid ${C.border}`, display: "flex", gap: 10 }}>
+        <button
+          data-testid="tx-approval-reject"
+          onClick={handleReject}
+          disabled={signing}
+          style={{
+            flex: 1,
+            background: "rgba(33,48,67,0.5)",
+            border: `1px solid ${C.border}`,
+            borderRadius: 8,
+            padding: "10px 0",
+            color: C.dim,
+            fontSize: 10,
+            fontWeight: 700,
+            cursor: signing ? "not-allowed" : "pointer",
+            letterSpacing: "0.08em",
+            ...mono,
+          }}
+        >
+          REJECT
+        </button>
+        <button
+          data-testid="tx-approval-approve"
+          onClick={handleApprove}
+          disabled={!canApprove}
+          style={{
+            flex: 2,
+            background: !canApprove ? `${C.accent}35` : `linear-gradient(90deg, ${C.accent}, #7BE9CF)`,
+            border: "none",
+            borderRadius: 8,
+            padding: "10px 0",
+            color: !canApprove ? C.dim : "#04110E",
+            fontSize: 11,
+            fontWeight: 700,
+            cursor: !canApprove ? "not-allowed" : "pointer",
+            letterSpacing: "0.08em",
+            ...mono,
+          }}
+        >
+          {signing ? "SIGNING…" : building ? "BUILDING…" : "SIGN & SEND →"}
+        </button>
+      </div>
+    </div>
+  );
+}
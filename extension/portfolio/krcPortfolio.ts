@@ -4,6 +4,8 @@ import type {
   KrcCandlePoint,
   KrcChainStatsSnapshot,
   KrcMarketSnapshot,
+  KrcNftAttribute,
+  KrcNftItem,
   KrcPortfolioToken,
 } from "./types";
 
@@ -22,6 +24,10 @@ const PREFETCH_MAX_ENTRIES = 6;
 const PREFETCH_STORAGE_KEY = "forgeos.krc.prefetch.v1";
 const REQUEST_TIMEOUT_MS = 3_500;
 const HOT_TOKEN_LIMIT = 24;
+const NFT_ITEMS_LIMIT = 200;
+const NFT_METADATA_FETCH_LIMIT = 24;
+const IPFS_GATEWAY = "https://ipfs.io/ipfs/";
+const ARWEAVE_GATEWAY = "https://arweave.net/";
 
 const endpointHealth = new Map<
   string,
@@ -42,6 +48,7 @@ const holdingsCache = new Map<string, CacheEntry<Array<{ address: string; standa
 const marketCache = new Map<string, CacheEntry<KrcMarketSnapshot | null>>();
 const chainCache = new Map<string, CacheEntry<KrcChainStatsSnapshot | null>>();
 const candlesCache = new Map<string, CacheEntry<KrcCandlePoint[]>>();
+const nftItemsCache = new Map<string, CacheEntry<KrcNftItem[]>>();
 
 function parseCsvEnv(name: string): string[] {
   const raw = String(ENV?.[name] ?? "").trim();
@@ -351,6 +358,90 @@ function candlePaths(address: string, standard: KaspaTokenStandard): string[] {
   ];
 }
 
+function nftItemPaths(owner: string, collection: string): string[] {
+  const o = encodeURIComponent(owner);
+  const c = encodeURIComponent(collection);
+  return [
+    `/addresses/${o}/krc721/${c}/tokens?limit=${NFT_ITEMS_LIMIT}`,
+    `/address/${o}/krc721/${c}`,
+    `/krc721/address/${o}/${c}`,
+    `/krc721/collections/${c}/owners/${o}`,
+    `/v1/addresses/${o}/krc721/${c}/tokens?limit=${NFT_ITEMS_LIMIT}`,
+  ];
+}
+
+/** Rewrite ipfs:// and ar:// URIs to HTTP gateways; drop anything non-HTTP(S). */
+function resolveNftUri(uri: string): string | null {
+  const raw = String(uri || "").trim();
+  if (!raw) return null;
+  if (/^ipfs:\/\//i.test(raw)) return IPFS_GATEWAY + raw.replace(/^ipfs:\/\/(ipfs\/)?/i, "");
+  if (/^ar:\/\//i.test(raw)) return ARWEAVE_GATEWAY + raw.replace(/^ar:\/\//i, "");
+  if (/^https?:\/\//i.test(raw)) return raw;
+  return null;
+}
+
+function parseNftAttributes(raw: unknown): KrcNftAttribute[] {
+  if (!Array.isArray(raw)) return [];
+  const out: KrcNftAttribute[] = [];
+  for (const item of raw) {
+    const obj = asObject(item);
+    if (!obj) continue;
+    const trait = pickString(obj, ["trait_type", "traitType", "trait", "name", "key"]);
+    const value = obj.value ?? obj.val;
+    if (!trait || value === undefined || value === null) continue;
+    out.push({ trait, value: String(value) });
+  }
+  return out;
+}
+
+function parseNftItems(raw: unknown, collection: string, source: string): KrcNftItem[] {
+  const rows = new Map<string, KrcNftItem>();
+  const candidates = Array.isArray(raw)
+    ? raw.map(asObject).filter((obj): obj is Record<string, unknown> => obj !== null)
+    : extractObjects(raw);
+  for (const candidate of candidates) {
+    const idValue = candidate.tokenId ?? candidate.tokenid ?? candidate.token_id ?? candidate.id;
+    const tokenId = typeof idValue === "number" && Number.isInteger(idValue) ? String(idValue) : String(idValue ?? "").trim();
+    if (!/^\d+$/.test(tokenId)) continue;
+    const metadata = asObject(candidate.metadata) ?? {};
+    const metadataUri = resolveNftUri(pickString(candidate, ["metadataUri", "tokenUri", "tokenURI", "uri"]));
+    rows.set(tokenId, {
+      collection,
+      tokenId,
+      name: pickString(metadata, ["name", "title"]) || pickString(candidate, ["name", "title"]) || null,
+      imageUri: resolveNftUri(
+        pickString(metadata, ["image", "image_url", "imageUrl"])
+        || pickString(candidate, ["image", "imageUrl", "image_url", "imageUri", "thumbnail"]),
+      ),
+      metadataUri,
+      attributes: parseNftAttributes(metadata.attributes ?? candidate.attributes),
+      source,
+    });
+  }
+  return [...rows.values()]
+    .sort((a, b) => (BigInt(a.tokenId) < BigInt(b.tokenId) ? -1 : 1))
+    .slice(0, NFT_ITEMS_LIMIT);
+}
+
+/** Fill name/image/attributes from the item's metadata document when the indexer omitted them. */
+async function resolveNftMetadata(item: KrcNftItem): Promise<KrcNftItem> {
+  if (item.imageUri || !item.metadataUri) return item;
+  try {
+    const res = await withTimeout(item.metadataUri);
+    if (!res.ok) return item;
+    const doc = asObject(await res.json().catch(() => null));
+    if (!doc) return item;
+    return {
+      ...item,
+      name: item.name ?? (pickString(doc, ["name", "title"]) || null),
+      imageUri: resolveNftUri(pickString(doc, ["image", "image_url", "imageUrl"])),
+      attributes: item.attributes.length ? item.attributes : parseNftAttributes(doc.attributes),
+    };
+  } catch {
+    return item;
+  }
+}
+
 function parseHoldings(raw: unknown, standard: KaspaTokenStandard): Array<{ address: string; standard: KaspaTokenStandard; balanceRaw: string }> {
   const rows = new Map<string, { address: string; standard: KaspaTokenStandard; balanceRaw: string }>();
   const candidates = extractObjects(raw);
@@ -695,6 +786,37 @@ export async function fetchKrcPortfolio(address: string, network: string): Promi
     });
 }
 
+/**
+ * Individual KRC-721 token ids `owner` holds in `collection`, with names,
+ * images and attributes. Endpoints are tried in health-ranked order; items
+ * without an inline image get their metadata document fetched.
+ */
+export async function fetchKrc721Items(owner: string, collection: string, network: string): Promise<KrcNftItem[]> {
+  const normalizedOwner = String(owner || "").trim();
+  const normalizedCollection = String(collection || "").trim();
+  if (!normalizedOwner || !normalizedCollection) return [];
+  const key = `${network}|${normalizeAddress(normalizedCollection)}|${normalizeAddress(normalizedOwner)}`;
+  const cached = cacheGet(nftItemsCache, key);
+  if (cached !== null) return cached;
+
+  let items: KrcNftItem[] = [];
+  for (const endpoint of rankEndpoints(indexerEndpoints(network))) {
+    const parsed = await fetchFromEndpoint(endpoint, nftItemPaths(normalizedOwner, normalizedCollection), (raw) => {
+      const rows = parseNftItems(raw, normalizedCollection, endpoint);
+      return rows.length > 0 ? rows : null;
+    });
+    if (parsed && parsed.length > 0) {
+      items = parsed;
+      break;
+    }
+  }
+  const head = await pLimit(items.slice(0, NFT_METADATA_FETCH_LIMIT).map((item) => () => resolveNftMetadata(item)), 4);
+  const byId = new Map(head.map((item) => [item.tokenId, item]));
+  const resolved = items.map((item) => byId.get(item.tokenId) ?? item);
+  cacheSet(nftItemsCache, key, resolved, holdingsTtlMs(), 64);
+  return resolved;
+}
+
 type PrefetchEnvelope = {
   updatedAt: number;
   entries: KrcPortfolioToken[];
@@ -750,11 +872,21 @@ export async function prefetchKrcPortfolioForAddress(address: string, network: s
   await savePrefetchedKrcPortfolio(normalized, network, entries);
 }
 
+/** Drop cached holdings for an address so the next fetch reads the indexer (e.g. after a transfer). */
+export function invalidateKrcHoldings(address: string, network: string): void {
+  const owner = normalizeAddress(address);
+  holdingsCache.delete(`${network}|${owner}`);
+  for (const key of [...nftItemsCache.keys()]) {
+    if (key.startsWith(`${network}|`) && key.endsWith(`|${owner}`)) nftItemsCache.delete(key);
+  }
+}
+
 export function __clearKrcPortfolioCachesForTests(): void {
   holdingsCache.clear();
   marketCache.clear();
   chainCache.clear();
   candlesCache.clear();
+  nftItemsCache.clear();
   endpointHealth.clear();
 }
 
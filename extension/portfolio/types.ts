@@ -42,3 +42,21 @@ export interface KrcPortfolioToken {
   valueUsd: number | null;
   updatedAt: number;
 }
+
+export interface KrcNftAttribute {
+  trait: string;
+  value: string;
+}
+
+/** One owned KRC-721 token id, with metadata resolved from the indexer. */
+export interface KrcNftItem {
+  /** Collection address / ticker (KrcPortfolioToken.token.address). */
+  collection: string;
+  tokenId: string;
+  name: string | null;
+  /** HTTP(S) image URL (ipfs:// and ar:// rewritten to gateways). */
+  imageUri: string | null;
+  metadataUri: string | null;
+  attributes: KrcNftAttribute[];
+  source: string;
+}
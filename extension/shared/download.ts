@@ -0,0 +1,12 @@
+// File downloads from extension pages (offline-signing envelopes, vault
+// backups, mnemonic shares).
+
+/** Save text as a file through a temporary object URL. */
+export function downloadText(filename: string, text: string, type = "application/json"): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
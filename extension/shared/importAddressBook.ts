@@ -11,7 +11,7 @@ const SALT_KEY = "forgeos.import.addressbook.salt.v1";
 const MAX_FINGERPRINTS = 32;
 const MAX_CANDIDATES_PER_FINGERPRINT = 240;
 
-type StoredImportCandidate = {
+export type StoredImportCandidate = {
   address: string;
   network: string;
   derivation: KaspaDerivationMeta;
@@ -189,3 +189,40 @@ export async function rememberSelectedImportCandidate(
   await rememberImportCandidates(phrase, passphrase, network, [candidate]);
 }
 
+
+/** Every remembered candidate of one mnemonic across networks (vault backup export). */
+export async function exportImportCandidates(
+  phrase: string,
+  passphrase: string | undefined,
+): Promise<StoredImportCandidate[]> {
+  const fp = await mnemonicFingerprint(phrase, passphrase);
+  if (!fp) return [];
+  const book = await getBook();
+  return [...(book[fp] ?? [])];
+}
+
+/**
+ * Re-file candidates from a backup under this install's fingerprint salt,
+ * keeping their original timestamps. Malformed entries are skipped.
+ */
+export async function restoreImportCandidates(
+  phrase: string,
+  passphrase: string | undefined,
+  entries: StoredImportCandidate[],
+): Promise<void> {
+  const fp = await mnemonicFingerprint(phrase, passphrase);
+  if (!fp) return;
+  const now = Date.now();
+  const incoming = entries
+    .filter((c) => c && typeof c.address === "string" && typeof c.network === "string" && c.derivation)
+    .map((c) => ({
+      ...normalizeStoredCandidate(toManagedCandidate(c), c.network, now),
+      createdAt: Number.isFinite(c.createdAt) ? c.createdAt : now,
+      lastUsedAt: Number.isFinite(c.lastUsedAt) ? c.lastUsedAt : now,
+    }));
+  if (!incoming.length) return;
+
+  const book = await getBook();
+  book[fp] = dedupeCandidates([...incoming, ...(book[fp] ?? [])]).slice(0, MAX_CANDIDATES_PER_FINGERPRINT);
+  await setBook(capBook(book));
+}
@@ -8,6 +8,13 @@ export type UiPatch =
       type: "network";
       network: string;
       updatedAt: number;
+    }
+  | {
+      // Auto-sign scheduled sends that became due while the popup is open.
+      type: "scheduledSendsDue";
+      network: string;
+      ids: string[];
+      updatedAt: number;
     };
 
 export interface UiPatchEnvelope {
@@ -20,3 +27,32 @@ export function isUiPatchEnvelope(value: unknown): value is UiPatchEnvelope {
   const data = value as Record<string, unknown>;
   return data.type === "FORGEOS_UI_PATCH" && Array.isArray(data.patches);
 }
+
+// ── window.forgeos provider events ───────────────────────────────────────────
+// Background → site-bridge (chrome.tabs.sendMessage) → page (postMessage).
+
+export const PROVIDER_EVENT_NAMES = [
+  "accountsChanged",
+  "networkChanged",
+  "locked",
+  "unlocked",
+  "disconnect",
+] as const;
+
+export type ProviderEventName = typeof PROVIDER_EVENT_NAMES[number];
+
+export interface ProviderEventMessage {
+  type: "FORGEOS_PROVIDER_EVENT";
+  event: ProviderEventName;
+  data?: unknown;
+}
+
+export function isProviderEventName(value: unknown): value is ProviderEventName {
+  return typeof value === "string" && (PROVIDER_EVENT_NAMES as readonly string[]).includes(value);
+}
+
+export function isProviderEventMessage(value: unknown): value is ProviderEventMessage {
+  if (!value || typeof value !== "object") return false;
+  const data = value as Record<string, unknown>;
+  return data.type === "FORGEOS_PROVIDER_EVENT" && isProviderEventName(data.event);
+}
@@ -0,0 +1,106 @@
+// Per-site permission scopes and spending allowances.
+//
+// A connected site holds a set of scopes (view address, sign message, request
+// send, agent auto-execute) and an optional allowance: a daily KAS budget, a
+// per-transaction cap and a destination allowlist. The background checks both
+// before a site request is queued, counting sends still awaiting approval
+// against the daily budget, and records spend once a send is broadcast.
+//
+// Pure functions only — persistence lives in storage.ts (updateConnectedSite).
+
+import { kasToSompi } from "../utxo/utxoSync";
+import type { ConnectedSite, SiteAllowance, SiteScope } from "./storage";
+
+export const SITE_SCOPES: SiteScope[] = ["view_address", "sign_message", "request_send", "agent_auto_execute"];
+
+export const SITE_SCOPE_LABELS: Record<SiteScope, string> = {
+  view_address: "View address",
+  sign_message: "Sign messages",
+  request_send: "Request sends",
+  agent_auto_execute: "Agent auto-execute",
+};
+
+/** Granted on connect. Agent auto-execute is always an explicit opt-in. */
+export const DEFAULT_SITE_SCOPES: SiteScope[] = ["view_address", "sign_message", "request_send"];
+
+export function isSiteScope(value: unknown): value is SiteScope {
+  return typeof value === "string" && (SITE_SCOPES as string[]).includes(value);
+}
+
+export function siteScopes(site: Pick<ConnectedSite, "scopes">): SiteScope[] {
+  if (!Array.isArray(site.scopes)) return [...DEFAULT_SITE_SCOPES];
+  return SITE_SCOPES.filter((scope) => site.scopes!.includes(scope));
+}
+
+export function hasSiteScope(site: Pick<ConnectedSite, "scopes"> | null | undefined, scope: SiteScope): boolean {
+  return Boolean(site) && siteScopes(site!).includes(scope);
+}
+
+/** UTC calendar day the daily allowance resets on. */
+export function allowanceDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function spentToday(allowance: SiteAllowance | undefined, now: number): bigint {
+  if (!allowance?.spentSompi || allowance.spentDay !== allowanceDay(now)) return 0n;
+  return /^[0-9]+$/.test(allowance.spentSompi) ? BigInt(allowance.spentSompi) : 0n;
+}
+
+function limitSompi(kas: number | undefined): bigint | null {
+  return typeof kas === "number" && Number.isFinite(kas) && kas >= 0 ? kasToSompi(kas) : null;
+}
+
+/** Remaining daily budget in sompi, or null when the site has no daily limit. */
+export function remainingDailyAllowance(site: Pick<ConnectedSite, "allowance">, now: number): bigint | null {
+  const limit = limitSompi(site.allowance?.dailyLimitKas);
+  if (limit === null) return null;
+  const left = limit - spentToday(site.allowance, now);
+  return left > 0n ? left : 0n;
+}
+
+/**
+ * Check a site send against the allowance. `reservedSompi` is what the site
+ * already has queued for approval; it counts against today's budget. Returns
+ * an error code string, or null when the send is within limits.
+ */
+export function checkSiteSpend(
+  site: Pick<ConnectedSite, "allowance">,
+  outputs: Array<{ address: string; amountSompi: bigint }>,
+  now: number,
+  reservedSompi = 0n,
+): string | null {
+  const allowance = site.allowance;
+  if (!allowance) return null;
+
+  const destinations = (allowance.allowedDestinations ?? []).map((a) => a.trim().toLowerCase()).filter(Boolean);
+  if (destinations.length > 0) {
+    const blocked = outputs.find((o) => !destinations.includes(o.address.trim().toLowerCase()));
+    if (blocked) return `ALLOWANCE_DESTINATION_BLOCKED: ${blocked.address} is not on this site's destination list`;
+  }
+
+  const total = outputs.reduce((acc, o) => acc + o.amountSompi, 0n);
+  const perTx = limitSompi(allowance.perTxLimitKas);
+  if (perTx !== null && total > perTx) {
+    return `ALLOWANCE_PER_TX_EXCEEDED: ${total} sompi exceeds the ${perTx} sompi per-transaction cap`;
+  }
+
+  const remaining = remainingDailyAllowance(site, now);
+  if (remaining !== null && total + reservedSompi > remaining) {
+    const left = remaining > reservedSompi ? remaining - reservedSompi : 0n;
+    return `ALLOWANCE_DAILY_EXCEEDED: ${total} sompi exceeds the ${left} sompi left today`;
+  }
+  return null;
+}
+
+/** Site with `sompi` added to today's spend (the counter resets on a new day). */
+export function recordSiteSpend(site: ConnectedSite, sompi: bigint, now: number): ConnectedSite {
+  const allowance = site.allowance ?? {};
+  return {
+    ...site,
+    allowance: {
+      ...allowance,
+      spentDay: allowanceDay(now),
+      spentSompi: (spentToday(allowance, now) + sompi).toString(),
+    },
+  };
+}
@@ -7,6 +7,8 @@ import {
   normalizeDisplayCurrency,
   type DisplayCurrency,
 } from "./fiat";
+import { normalizeKaspaAddress, uid } from "../../src/helpers";
+import type { FeeTier } from "../network/feeTiers";
 
 const KEYS = {
   agents: "forgeos.session.agents.v2",
@@ -33,9 +35,19 @@ const KEYS = {
   localNodeEnabled: "forgeos.local-node.enabled.v1",
   localNodeNetworkProfile: "forgeos.local-node.network-profile.v1",
   localNodeDataDir: "forgeos.local-node.data-dir.v1",
+  // Active HD account id inside the vault (non-secret selector only)
+  activeAccountId: "forgeos.vault.active-account.v1",
+  // Watch-only addresses (public data only — never signed for)
+  watchOnlyAccounts: "forgeos.watch-only.accounts.v1",
+  activeWatchOnlyId: "forgeos.watch-only.active.v1",
+  multisigAccounts: "forgeos.multisig.accounts.v1",
+  // Scheduled KAS transfers (intent only — built and signed when due)
+  scheduledSends: "forgeos.scheduled-sends.v1",
 } as const;
 
 export const NETWORK_STORAGE_KEY = KEYS.network;
+export const ACTIVE_ACCOUNT_STORAGE_KEY = KEYS.activeAccountId;
+export const SCHEDULED_SENDS_STORAGE_KEY = KEYS.scheduledSends;
 
 const AUTO_LOCK_MIN = 1;
 const AUTO_LOCK_MAX = 24 * 60; // 24h
@@ -222,6 +234,305 @@ export async function clearWalletMeta(): Promise<void> {
   });
 }
 
+// ── Active vault account ─────────────────────────────────────────────────────
+
+/** Account id assigned to the single account of pre multi-account vaults. */
+export const DEFAULT_ACCOUNT_ID = "primary";
+
+export async function getActiveAccountId(): Promise<string> {
+  const store = chromeStorage();
+  if (!store) return DEFAULT_ACCOUNT_ID;
+  return new Promise((resolve) => {
+    store.get(KEYS.activeAccountId, (result) => {
+      const raw = result?.[KEYS.activeAccountId];
+      resolve(typeof raw === "string" && raw.trim() ? raw.trim() : DEFAULT_ACCOUNT_ID);
+    });
+  });
+}
+
+export async function setActiveAccountId(accountId: string): Promise<void> {
+  const store = chromeStorage();
+  if (!store) return;
+  const normalized = String(accountId || "").trim() || DEFAULT_ACCOUNT_ID;
+  return new Promise((resolve) => {
+    store.set({ [KEYS.activeAccountId]: normalized }, resolve);
+  });
+}
+
+// ── Watch-only accounts ──────────────────────────────────────────────────────
+
+/**
+ * An address monitored without keys (cold storage, agent deposit addresses).
+ * Balances, UTXOs, KRC holdings and history load as for vault accounts; the
+ * signer refuses any transaction funded from one.
+ */
+export interface WatchOnlyAccount {
+  id: string;
+  label: string;
+  /** Normalized address; re-prefixed per network like vault addresses. */
+  address: string;
+  addedAt: number;
+}
+
+const WATCH_ONLY_LABEL_MAX = 32;
+
+function addressPayload(address: string): string {
+  const lower = address.toLowerCase();
+  return lower.slice(lower.indexOf(":") + 1);
+}
+
+export async function getWatchOnlyAccounts(): Promise<WatchOnlyAccount[]> {
+  const store = chromeStorage();
+  if (!store) return [];
+  return new Promise((resolve) => {
+    store.get(KEYS.watchOnlyAccounts, (result) => {
+      try {
+        const raw = result?.[KEYS.watchOnlyAccounts];
+        if (!raw) return resolve([]);
+        const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+        resolve(Array.isArray(parsed) ? parsed.filter((a) => a?.id && a?.address) : []);
+      } catch { resolve([]); }
+    });
+  });
+}
+
+async function writeWatchOnlyAccounts(accounts: WatchOnlyAccount[]): Promise<void> {
+  const store = chromeStorage();
+  if (!store) return;
+  return new Promise((resolve) => {
+    store.set({ [KEYS.watchOnlyAccounts]: JSON.stringify(accounts) }, resolve);
+  });
+}
+
+/** Add a watch-only address. Throws WATCH_ONLY_INVALID_ADDRESS / WATCH_ONLY_DUPLICATE. */
+export async function addWatchOnlyAccount(address: string, label?: string): Promise<WatchOnlyAccount> {
+  let normalized: string;
+  try {
+    normalized = normalizeKaspaAddress(address);
+  } catch {
+    throw new Error(`WATCH_ONLY_INVALID_ADDRESS: "${String(address || "").trim()}"`);
+  }
+  const accounts = await getWatchOnlyAccounts();
+  if (accounts.some((a) => addressPayload(a.address) === addressPayload(normalized))) {
+    throw new Error("WATCH_ONLY_DUPLICATE: address is already watched");
+  }
+  const account: WatchOnlyAccount = {
+    id: `watch-${uid()}`,
+    label: String(label || "").trim().slice(0, WATCH_ONLY_LABEL_MAX) || `Watch ${accounts.length + 1}`,
+    address: normalized,
+    addedAt: Date.now(),
+  };
+  await writeWatchOnlyAccounts([...accounts, account]);
+  return account;
+}
+
+export async function removeWatchOnlyAccount(id: string): Promise<void> {
+  const accounts = await getWatchOnlyAccounts();
+  await writeWatchOnlyAccounts(accounts.filter((a) => a.id !== id));
+  if ((await getActiveWatchOnlyId()) === id) await setActiveWatchOnlyId(null);
+}
+
+/** True when the address (any network prefix) is a watch-only account. */
+export async function isWatchOnlyAddress(address: string): Promise<boolean> {
+  const target = addressPayload(String(address || "").trim());
+  if (!target) return false;
+  const accounts = await getWatchOnlyAccounts();
+  return accounts.some((a) => addressPayload(a.address) === target);
+}
+
+/** Watch-only account the popup is viewing, or null for the vault account. */
+export async function getActiveWatchOnlyId(): Promise<string | null> {
+  const store = chromeStorage();
+  if (!store) return null;
+  return new Promise((resolve) => {
+    store.get(KEYS.activeWatchOnlyId, (result) => {
+      const raw = result?.[KEYS.activeWatchOnlyId];
+      resolve(typeof raw === "string" && raw.trim() ? raw.trim() : null);
+    });
+  });
+}
+
+export async function setActiveWatchOnlyId(id: string | null): Promise<void> {
+  const store = chromeStorage();
+  if (!store) return;
+  return new Promise((resolve) => {
+    if (id) store.set({ [KEYS.activeWatchOnlyId]: id }, resolve);
+    else store.remove(KEYS.activeWatchOnlyId, resolve);
+  });
+}
+
+// ── Multisig accounts ────────────────────────────────────────────────────────
+
+/**
+ * An m-of-n multisig address built from co-signer extended public keys
+ * (tx/multisig.ts). Every co-signer registers the same key set and so derives
+ * the same address; the vault only signs for accounts registered here.
+ */
+export interface MultisigAccount {
+  id: string;
+  label: string;
+  threshold: number;
+  /** Sorted by pubkey (script order). */
+  cosigners: Array<{ label: string; xpub: string; pubkey: string }>;
+  redeemScriptHex: string;
+  scriptPublicKeyHex: string;
+  /** P2SH address on `network`. */
+  address: string;
+  network: string;
+  addedAt: number;
+}
+
+const MULTISIG_LABEL_MAX = 32;
+
+export async function getMultisigAccounts(): Promise<MultisigAccount[]> {
+  const store = chromeStorage();
+  if (!store) return [];
+  return new Promise((resolve) => {
+    store.get(KEYS.multisigAccounts, (result) => {
+      try {
+        const raw = result?.[KEYS.multisigAccounts];
+        if (!raw) return resolve([]);
+        const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+        resolve(Array.isArray(parsed) ? parsed.filter((a) => a?.id && a?.address && a?.redeemScriptHex) : []);
+      } catch { resolve([]); }
+    });
+  });
+}
+
+async function writeMultisigAccounts(accounts: MultisigAccount[]): Promise<void> {
+  const store = chromeStorage();
+  if (!store) return;
+  return new Promise((resolve) => {
+    store.set({ [KEYS.multisigAccounts]: JSON.stringify(accounts) }, resolve);
+  });
+}
+
+/** Register a multisig account. Throws MULTISIG_DUPLICATE for an already registered script. */
+export async function saveMultisigAccount(account: Omit<MultisigAccount, "id" | "addedAt">): Promise<MultisigAccount> {
+  const accounts = await getMultisigAccounts();
+  if (accounts.some((a) => a.redeemScriptHex === account.redeemScriptHex && a.network === account.network)) {
+    throw new Error("MULTISIG_DUPLICATE: this multisig account is already registered");
+  }
+  const saved: MultisigAccount = {
+    ...account,
+    id: `multisig-${uid()}`,
+    label: String(account.label || "").trim().slice(0, MULTISIG_LABEL_MAX) || `Multisig ${accounts.length + 1}`,
+    addedAt: Date.now(),
+  };
+  await writeMultisigAccounts([...accounts, saved]);
+  return saved;
+}
+
+export async function removeMultisigAccount(id: string): Promise<void> {
+  const accounts = await getMultisigAccounts();
+  await writeMultisigAccounts(accounts.filter((a) => a.id !== id));
+}
+
+// ── Scheduled sends ──────────────────────────────────────────────────────────
+
+/**
+ * When a scheduled send becomes due. `everyMs` / `everyDaa` make it recurring,
+ * in the trigger's own unit. DAA scores are decimal strings (JSON-safe bigint).
+ */
+export type ScheduledSendTrigger =
+  | { kind: "time"; atMs: number; everyMs?: number }
+  | { kind: "daa"; daaScore: string; everyDaa?: string };
+
+/**
+ * - scheduled: waiting for its trigger.
+ * - awaiting_approval: due; waiting for the popup to sign it.
+ * - sending: claimed by the popup and running through the kernel.
+ * - sent: one-off send broadcast (recurring sends return to scheduled).
+ * - failed: last run failed; approving retries it.
+ */
+export type ScheduledSendStatus = "scheduled" | "awaiting_approval" | "sending" | "sent" | "failed";
+
+/**
+ * A KAS transfer held until its trigger (tx/scheduled.ts). Only the intent is
+ * stored; the transaction is built against fresh UTXOs when it runs.
+ */
+export interface ScheduledSend {
+  id: string;
+  label: string;
+  fromAddress: string;
+  network: string;
+  to: string;
+  amountKas: number;
+  feeTier?: FeeTier;
+  trigger: ScheduledSendTrigger;
+  /** Sign without asking when the popup holds an unlocked session. */
+  autoSign: boolean;
+  /** Agent whose payout schedule created it (telemetry channel "agent"). */
+  agentId?: string;
+  status: ScheduledSendStatus;
+  createdAt: number;
+  runs: number;
+  lastRunAt?: number;
+  lastTxId?: string;
+  /** Set once the approval notification for the current due run was raised. */
+  notifiedAt?: number;
+  error?: string;
+}
+
+const SCHEDULED_SEND_LABEL_MAX = 32;
+
+export async function getScheduledSends(): Promise<ScheduledSend[]> {
+  const store = chromeStorage();
+  if (!store) return [];
+  return new Promise((resolve) => {
+    store.get(KEYS.scheduledSends, (result) => {
+      try {
+        const raw = result?.[KEYS.scheduledSends];
+        if (!raw) return resolve([]);
+        const parsed = typeof raw === "string" ? JSON.parse(raw) : raw;
+        resolve(Array.isArray(parsed) ? parsed.filter((s) => s?.id && s?.fromAddress && s?.to && s?.trigger) : []);
+      } catch { resolve([]); }
+    });
+  });
+}
+
+async function writeScheduledSends(schedules: ScheduledSend[]): Promise<void> {
+  const store = chromeStorage();
+  if (!store) return;
+  return new Promise((resolve) => {
+    store.set({ [KEYS.scheduledSends]: JSON.stringify(schedules) }, resolve);
+  });
+}
+
+export async function addScheduledSend(
+  schedule: Omit<ScheduledSend, "id" | "createdAt" | "runs" | "status">,
+): Promise<ScheduledSend> {
+  const schedules = await getScheduledSends();
+  const saved: ScheduledSend = {
+    ...schedule,
+    id: `sched-${uid()}`,
+    label: String(schedule.label || "").trim().slice(0, SCHEDULED_SEND_LABEL_MAX) || `Schedule ${schedules.length + 1}`,
+    status: "scheduled",
+    createdAt: Date.now(),
+    runs: 0,
+  };
+  await writeScheduledSends([...schedules, saved]);
+  return saved;
+}
+
+/** Apply `update` to one schedule; null when it no longer exists. */
+export async function updateScheduledSend(
+  id: string,
+  update: (schedule: ScheduledSend) => ScheduledSend,
+): Promise<ScheduledSend | null> {
+  const schedules = await getScheduledSends();
+  const index = schedules.findIndex((s) => s.id === id);
+  if (index < 0) return null;
+  const next = update(schedules[index]);
+  await writeScheduledSends(schedules.map((s, i) => (i === index ? next : s)));
+  return next;
+}
+
+export async function removeScheduledSend(id: string): Promise<void> {
+  const schedules = await getScheduledSends();
+  await writeScheduledSends(schedules.filter((s) => s.id !== id));
+}
+
 // ── Network ───────────────────────────────────────────────────────────────────
 
 export async function getNetwork(): Promise<string> {
@@ -550,51 +861,138 @@ export async function clearManagedWallet(): Promise<void> {
 }
 
 // ── Per-origin dApp allowlist (B6) ───────────────────────────────────────────
+// Scoped per vault account: approving a site for one account does not expose
+// the other accounts under the same mnemonic.
+
+const LEGACY_CONNECTED_SITES_KEY = "forgeos.connected.sites.v1";
+const CONNECTED_SITES_KEY = "forgeos.connected.sites.v2";
+export const CONNECTED_SITES_STORAGE_KEY = CONNECTED_SITES_KEY;
 
-const CONNECTED_SITES_KEY = "forgeos.connected.sites.v1";
+/** What a connected site may do; see shared/sitePermissions.ts. */
+export type SiteScope = "view_address" | "sign_message" | "request_send" | "agent_auto_execute";
+
+/** Optional spending limits for site-requested sends. Absent fields are unlimited. */
+export interface SiteAllowance {
+  dailyLimitKas?: number;
+  perTxLimitKas?: number;
+  /** When non-empty, every output must pay one of these addresses. */
+  allowedDestinations?: string[];
+  /** UTC day (YYYY-MM-DD) the spentSompi counter belongs to. */
+  spentDay?: string;
+  /** Decimal sompi spent via this site on spentDay. */
+  spentSompi?: string;
+}
 
 export interface ConnectedSite {
   address: string;
   network: string;
   connectedAt: number;
+  /** Vault account the site was approved for. Defaults to the active account. */
+  accountId?: string;
+  /** Granted scopes. Sites saved before scopes existed get the defaults. */
+  scopes?: SiteScope[];
+  allowance?: SiteAllowance;
 }
 
+export type ConnectedSitesByAccount = Record<string, Record<string, ConnectedSite>>;
+
 function localStoreForSites(): chrome.storage.LocalStorageArea {
   return chrome.storage.local;
 }
 
-export async function getConnectedSites(): Promise<Record<string, ConnectedSite>> {
+function isSiteMap(raw: unknown): raw is Record<string, ConnectedSite> {
+  return Boolean(raw) && typeof raw === "object" && !Array.isArray(raw);
+}
+
+async function readConnectedSitesByAccount(): Promise<ConnectedSitesByAccount> {
   return new Promise((resolve) => {
-    localStoreForSites().get(CONNECTED_SITES_KEY, (result) => {
+    localStoreForSites().get([CONNECTED_SITES_KEY, LEGACY_CONNECTED_SITES_KEY], (result) => {
       const raw = result?.[CONNECTED_SITES_KEY];
-      if (raw && typeof raw === "object" && !Array.isArray(raw)) {
-        resolve(raw as Record<string, ConnectedSite>);
-      } else {
-        resolve({});
+      if (isSiteMap(raw)) {
+        resolve(raw as unknown as ConnectedSitesByAccount);
+        return;
       }
+      // v1 stored a flat origin map for the only account that existed then.
+      const legacy = result?.[LEGACY_CONNECTED_SITES_KEY];
+      resolve(isSiteMap(legacy) ? { [DEFAULT_ACCOUNT_ID]: legacy } : {});
     });
   });
 }
 
-export async function addConnectedSite(origin: string, site: ConnectedSite): Promise<void> {
-  if (!origin) return;
-  const sites = await getConnectedSites();
-  sites[origin] = site;
+async function writeConnectedSitesByAccount(sites: ConnectedSitesByAccount): Promise<void> {
   return new Promise((resolve) => {
-    localStoreForSites().set({ [CONNECTED_SITES_KEY]: sites }, resolve);
+    localStoreForSites().set({ [CONNECTED_SITES_KEY]: sites }, () => {
+      localStoreForSites().remove(LEGACY_CONNECTED_SITES_KEY, resolve);
+    });
   });
 }
 
-export async function removeConnectedSite(origin: string): Promise<void> {
-  const sites = await getConnectedSites();
-  delete sites[origin];
-  return new Promise((resolve) => {
-    localStoreForSites().set({ [CONNECTED_SITES_KEY]: sites }, resolve);
-  });
+/** Connected sites for one account (defaults to the active account). */
+export async function getConnectedSites(accountId?: string): Promise<Record<string, ConnectedSite>> {
+  const key = accountId ?? await getActiveAccountId();
+  const all = await readConnectedSitesByAccount();
+  return { ...(all[key] ?? {}) };
 }
 
-export async function clearConnectedSites(): Promise<void> {
+/** Connected sites for every account, keyed by account id then origin. */
+export async function getAllConnectedSites(): Promise<ConnectedSitesByAccount> {
+  return readConnectedSitesByAccount();
+}
+
+export async function addConnectedSite(origin: string, site: ConnectedSite): Promise<void> {
+  if (!origin) return;
+  const accountId = site.accountId ?? await getActiveAccountId();
+  const all = await readConnectedSitesByAccount();
+  all[accountId] = { ...(all[accountId] ?? {}), [origin]: { ...site, accountId } };
+  await writeConnectedSitesByAccount(all);
+}
+
+export async function removeConnectedSite(origin: string, accountId?: string): Promise<void> {
+  const key = accountId ?? await getActiveAccountId();
+  const all = await readConnectedSitesByAccount();
+  if (!all[key]) return;
+  delete all[key][origin];
+  if (Object.keys(all[key]).length === 0) delete all[key];
+  await writeConnectedSitesByAccount(all);
+}
+
+/**
+ * Patch one connected site in place (scopes, allowance, spend counter).
+ * Returns the updated site, or null when the origin is not connected.
+ */
+export async function updateConnectedSite(
+  origin: string,
+  patch: (site: ConnectedSite) => ConnectedSite,
+  accountId?: string,
+): Promise<ConnectedSite | null> {
+  const key = accountId ?? await getActiveAccountId();
+  const all = await readConnectedSitesByAccount();
+  const site = all[key]?.[origin];
+  if (!site) return null;
+  const next = { ...patch(site), accountId: key };
+  all[key] = { ...all[key], [origin]: next };
+  await writeConnectedSitesByAccount(all);
+  return next;
+}
+
+/** Replace the connected sites of every account at once (vault backup restore). */
+export async function replaceAllConnectedSites(sites: ConnectedSitesByAccount): Promise<void> {
+  const clean: ConnectedSitesByAccount = {};
+  for (const [accountId, map] of Object.entries(sites)) {
+    if (isSiteMap(map) && Object.keys(map).length > 0) clean[accountId] = map;
+  }
+  await writeConnectedSitesByAccount(clean);
+}
+
+/** Clear connected sites for one account, or for every account when omitted. */
+export async function clearConnectedSites(accountId?: string): Promise<void> {
+  if (accountId) {
+    const all = await readConnectedSitesByAccount();
+    delete all[accountId];
+    await writeConnectedSitesByAccount(all);
+    return;
+  }
   return new Promise((resolve) => {
-    localStoreForSites().remove(CONNECTED_SITES_KEY, resolve);
+    localStoreForSites().remove([CONNECTED_SITES_KEY, LEGACY_CONNECTED_SITES_KEY], resolve);
   });
 }
@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { C, mono } from "../../src/tokens";
 import { fmt } from "../../src/helpers";
 import { getAgents } from "../shared/storage";
+import { FEE_TIER_LABELS } from "../network/feeTiers";
 import { outlineButton, popupTabStack, sectionCard, sectionKicker, sectionTitle } from "../popup/surfaces";
 import {
   buildAgentViewModels,
@@ -321,6 +322,10 @@ export function AgentsTab({ network }: Props) {
                 <div style={{ fontSize: 8, color: C.dim, marginBottom: 1 }}>RISK</div>
                 <div style={{ fontSize: 8, color: C.text }}>{String(agent.risk || "—").toUpperCase()}</div>
               </div>
+              <div>
+                <div style={{ fontSize: 8, color: C.dim, marginBottom: 1 }}>FEE TIER</div>
+                <div style={{ fontSize: 8, color: C.text }}>{FEE_TIER_LABELS[agent.feeTier].toUpperCase()}</div>
+              </div>
             </div>
           </div>
         );
@@ -0,0 +1,226 @@
+// ConnectedSitesPanel — Security tab list of remembered sites for the active
+// account: granted scopes (toggle to revoke one), spending allowance with
+// today's remaining budget, and full revocation.
+
+import { useCallback, useEffect, useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { fmt, shortAddr } from "../../src/helpers";
+import {
+  getConnectedSites,
+  removeConnectedSite,
+  updateConnectedSite,
+  type ConnectedSite,
+  type SiteAllowance,
+  type SiteScope,
+} from "../shared/storage";
+import {
+  remainingDailyAllowance,
+  SITE_SCOPE_LABELS,
+  SITE_SCOPES,
+  siteScopes,
+} from "../shared/sitePermissions";
+import { sompiToKas } from "../utxo/utxoSync";
+import { chip, insetCard, monoInput, outlineButton, sectionCard, sectionTitle } from "../popup/surfaces";
+
+interface Props {
+  onClose: () => void;
+}
+
+interface AllowanceDraft {
+  daily: string;
+  perTx: string;
+  destinations: string;
+}
+
+function draftFromAllowance(allowance: SiteAllowance | undefined): AllowanceDraft {
+  return {
+    daily: allowance?.dailyLimitKas !== undefined ? String(allowance.dailyLimitKas) : "",
+    perTx: allowance?.perTxLimitKas !== undefined ? String(allowance.perTxLimitKas) : "",
+    destinations: (allowance?.allowedDestinations ?? []).join("\n"),
+  };
+}
+
+function parseLimit(value: string): number | undefined | null {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const n = Number(trimmed);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function describeAllowance(site: ConnectedSite, now: number): string {
+  const allowance = site.allowance;
+  const parts: string[] = [];
+  const remaining = remainingDailyAllowance(site, now);
+  if (remaining !== null) parts.push(`${fmt(sompiToKas(remaining), 4)} / ${allowance!.dailyLimitKas} KAS left today`);
+  if (allowance?.perTxLimitKas !== undefined) parts.push(`≤ ${allowance.perTxLimitKas} KAS per tx`);
+  const destinations = allowance?.allowedDestinations?.length ?? 0;
+  if (destinations > 0) parts.push(`${destinations} allowed destination${destinations === 1 ? "" : "s"}`);
+  return parts.length ? parts.join(" · ") : "No spending limits";
+}
+
+export function ConnectedSitesPanel({ onClose }: Props) {
+  const [sites, setSites] = useState<Record<string, ConnectedSite>>({});
+  const [loaded, setLoaded] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AllowanceDraft>(draftFromAllowance(undefined));
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setSites(await getConnectedSites().catch(() => ({})));
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => { void reload(); }, [reload]);
+
+  const toggleScope = async (origin: string, scope: SiteScope) => {
+    await updateConnectedSite(origin, (site) => {
+      const current = siteScopes(site);
+      const scopes = current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope];
+      return { ...site, scopes };
+    });
+    await reload();
+  };
+
+  const revoke = async (origin: string) => {
+    await removeConnectedSite(origin);
+    if (editing === origin) setEditing(null);
+    await reload();
+  };
+
+  const startEditing = (origin: string) => {
+    setEditing(origin);
+    setDraft(draftFromAllowance(sites[origin]?.allowance));
+    setError(null);
+  };
+
+  const saveAllowance = async (origin: string) => {
+    const daily = parseLimit(draft.daily);
+    const perTx = parseLimit(draft.perTx);
+    if (daily === null || perTx === null) {
+      setError("Limits must be non-negative KAS amounts (leave blank for no limit).");
+      return;
+    }
+    const allowedDestinations = draft.destinations.split(/[\s,]+/).map((a) => a.trim()).filter(Boolean);
+    await updateConnectedSite(origin, (site) => ({
+      ...site,
+      allowance: {
+        // Keep today's spend counter; only the limits change.
+        spentDay: site.allowance?.spentDay,
+        spentSompi: site.allowance?.spentSompi,
+        dailyLimitKas: daily,
+        perTxLimitKas: perTx,
+        allowedDestinations: allowedDestinations.length ? allowedDestinations : undefined,
+      },
+    }));
+    setEditing(null);
+    await reload();
+  };
+
+  const origins = Object.keys(sites).sort();
+  const now = Date.now();
+
+  return (
+    <div style={sectionCard("default")}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+        <span style={sectionTitle}>CONNECTED SITES</span>
+        <button onClick={onClose} style={{ background: "none", border: "none", color: C.dim, fontSize: 8, cursor: "pointer", ...mono }}>✕ close</button>
+      </div>
+
+      {loaded && origins.length === 0 && (
+        <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5 }}>
+          No remembered sites for this account. Sites you approve with “remember” appear here.
+        </div>
+      )}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+        {origins.map((origin) => {
+          const site = sites[origin];
+          const granted = siteScopes(site);
+          return (
+            <div key={origin} data-testid="connected-site-row" style={{ ...insetCard(), padding: "8px 9px", display: "flex", flexDirection: "column", gap: 6 }}>
+              <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontSize: 9, color: C.text, fontWeight: 700, wordBreak: "break-all" }}>{origin}</div>
+                  <div style={{ fontSize: 8, color: C.dim, marginTop: 2 }}>
+                    {shortAddr(site.address)} · {site.network} · since {new Date(site.connectedAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <button
+                  onClick={() => { void revoke(origin); }}
+                  style={{ ...outlineButton(C.danger, true), padding: "4px 7px", fontSize: 8, color: C.danger }}
+                >REVOKE</button>
+              </div>
+
+              <div style={{ display: "flex", flexWrap: "wrap", gap: 4 }}>
+                {SITE_SCOPES.map((scope) => {
+                  const on = granted.includes(scope);
+                  return (
+                    <button
+                      key={scope}
+                      onClick={() => { void toggleScope(origin, scope); }}
+                      title={on ? "Click to revoke" : "Click to grant"}
+                      style={{ ...chip(on ? C.ok : C.dim, on), cursor: "pointer" }}
+                    >
+                      {on ? "✓" : "✕"} {SITE_SCOPE_LABELS[scope]}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <div style={{ flex: 1, fontSize: 8, color: site.allowance ? C.warn : C.dim }}>
+                  {describeAllowance(site, now)}
+                </div>
+                {editing !== origin && (
+                  <button
+                    onClick={() => startEditing(origin)}
+                    style={{ ...outlineButton(C.dim, true), padding: "4px 7px", fontSize: 8, color: C.dim }}
+                  >LIMITS</button>
+                )}
+              </div>
+
+              {editing === origin && (
+                <div style={{ display: "flex", flexDirection: "column", gap: 5 }}>
+                  <div style={{ display: "flex", gap: 5 }}>
+                    <input
+                      value={draft.daily}
+                      onChange={(e) => setDraft({ ...draft, daily: e.target.value })}
+                      placeholder="KAS per day"
+                      inputMode="decimal"
+                      style={{ ...monoInput(), padding: "6px 8px", fontSize: 9 }}
+                    />
+                    <input
+                      value={draft.perTx}
+                      onChange={(e) => setDraft({ ...draft, perTx: e.target.value })}
+                      placeholder="KAS per tx"
+                      inputMode="decimal"
+                      style={{ ...monoInput(), padding: "6px 8px", fontSize: 9 }}
+                    />
+                  </div>
+                  <textarea
+                    value={draft.destinations}
+                    onChange={(e) => setDraft({ ...draft, destinations: e.target.value })}
+                    placeholder="Allowed destinations (one per line; blank = any)"
+                    rows={2}
+                    style={{ ...monoInput(), padding: "6px 8px", fontSize: 8, resize: "vertical" }}
+                  />
+                  {error && <div style={{ fontSize: 8, color: C.danger }}>{error}</div>}
+                  <div style={{ display: "flex", gap: 6 }}>
+                    <button
+                      onClick={() => setEditing(null)}
+                      style={{ ...outlineButton(C.dim, true), flex: 1, padding: "6px 0", fontSize: 8, color: C.dim }}
+                    >CANCEL</button>
+                    <button
+                      onClick={() => { void saveAllowance(origin); }}
+                      style={{ ...outlineButton(C.accent, true), flex: 1, padding: "6px 0", fontSize: 8, color: C.accent }}
+                    >SAVE LIMITS</button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+// ConsolidationPanel — plan and run UTXO consolidation (self-sends) from the
+// Wallet tab's UTXO card. Managed wallets only; signing happens in-process.
+
+import { useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { fmt } from "../../src/helpers";
+import { kasToSompi, sompiToKas } from "../utxo/utxoSync";
+import type { ConsolidationPlan, ConsolidationProgressUpdate, ConsolidationResult } from "../tx/consolidation";
+import { insetCard, monoInput, outlineButton, primaryButton, sectionKicker } from "../popup/surfaces";
+
+interface Props {
+  address: string;
+  network: string;
+  hideBalances?: boolean;
+  /** Called after a run ends so the UTXO set and balance refresh. */
+  onCompleted?: () => void;
+}
+
+type ConsolidationModule = typeof import("../tx/consolidation");
+let consolidationPromise: Promise<ConsolidationModule> | null = null;
+
+function loadConsolidation(): Promise<ConsolidationModule> {
+  if (!consolidationPromise) {
+    consolidationPromise = import("../tx/consolidation");
+  }
+  return consolidationPromise;
+}
+
+const STAGE_LABEL: Record<ConsolidationProgressUpdate["stage"], string> = {
+  build: "BUILDING",
+  validate: "VALIDATED",
+  sign: "SIGNED",
+  broadcast: "BROADCAST",
+  reconcile: "CONFIRMING",
+};
+
+export function ConsolidationPanel({ address, network, hideBalances = false, onCompleted }: Props) {
+  const [thresholdKas, setThresholdKas] = useState("1");
+  const [plan, setPlan] = useState<ConsolidationPlan | null>(null);
+  const [planBusy, setPlanBusy] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<ConsolidationProgressUpdate | null>(null);
+  const [result, setResult] = useState<ConsolidationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const thresholdNum = parseFloat(thresholdKas);
+  const thresholdValid = Number.isFinite(thresholdNum) && thresholdNum > 0;
+  const kas = (sompi: bigint, digits: number) => (hideBalances ? "•••• KAS" : `${fmt(sompiToKas(sompi), digits)} KAS`);
+
+  const handlePlan = async () => {
+    if (!thresholdValid || running) return;
+    setPlanBusy(true);
+    setError(null);
+    setResult(null);
+    setProgress(null);
+    try {
+      const mod = await loadConsolidation();
+      setPlan(await mod.planConsolidation(address, network, {
+        thresholdSompi: kasToSompi(thresholdNum),
+        force: true,
+      }));
+    } catch (err) {
+      setPlan(null);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setPlanBusy(false);
+    }
+  };
+
+  const handleRun = async () => {
+    if (!plan || plan.txCount === 0 || running) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const mod = await loadConsolidation();
+      const outcome = await mod.runConsolidation(plan, { onProgress: setProgress });
+      setResult(outcome);
+      if (outcome.error) setError(outcome.error);
+      setPlan(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+      onCompleted?.();
+    }
+  };
+
+  const row = (label: string, value: string, color: string = C.text) => (
+    <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", fontSize: 8 }}>
+      <span style={{ color: C.dim }}>{label}</span>
+      <span style={{ color, fontWeight: 700, ...mono }}>{value}</span>
+    </div>
+  );
+
+  return (
+    <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 6, padding: "8px 9px", marginBottom: 8 }}>
+      <div style={sectionKicker}>CONSOLIDATE</div>
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <span style={{ fontSize: 8, color: C.dim, whiteSpace: "nowrap" }}>UTXOs below</span>
+        <input
+          value={thresholdKas}
+          onChange={(e) => { setThresholdKas(e.target.value); setPlan(null); }}
+          type="number"
+          min="0"
+          disabled={running}
+          style={{ ...monoInput(!thresholdValid), flex: 1, padding: "5px 7px", fontSize: 9 }}
+        />
+        <span style={{ fontSize: 8, color: C.dim }}>KAS</span>
+        <button
+          onClick={handlePlan}
+          disabled={!thresholdValid || planBusy || running}
+          style={{ ...outlineButton(C.accent, thresholdValid && !planBusy && !running), padding: "5px 8px", fontSize: 8, color: C.accent }}
+        >
+          {planBusy ? "PLANNING…" : "PLAN"}
+        </button>
+      </div>
+
+      {plan && (
+        plan.txCount === 0 ? (
+          <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.4 }}>
+            Nothing to consolidate below {fmt(thresholdNum, 8)} KAS
+            {plan.skippedCount > 0 ? ` (${plan.skippedCount} UTXO${plan.skippedCount === 1 ? "" : "s"} too small to cover a fee)` : ""}.
+          </div>
+        ) : (
+          <>
+            {row("TRANSACTIONS", String(plan.txCount), C.accent)}
+            {row("UTXOS", `${plan.utxoCountBefore} → ${plan.utxoCountAfter}`)}
+            {row("MERGED", kas(plan.totalInput, 4))}
+            {row("TOTAL FEE", kas(plan.totalFee, 8), C.warn)}
+            {plan.skippedCount > 0 && (
+              <div style={{ fontSize: 8, color: C.muted }}>
+                {plan.skippedCount} UTXO{plan.skippedCount === 1 ? "" : "s"} skipped (cannot cover fee).
+              </div>
+            )}
+            <div style={{ fontSize: 8, color: C.warn, lineHeight: 1.4 }}>
+              Signs and broadcasts {plan.txCount} self-send{plan.txCount === 1 ? "" : "s"} one at a time, waiting for each to confirm.
+            </div>
+            <button
+              onClick={handleRun}
+              disabled={running}
+              style={{ ...primaryButton(!running), padding: "7px 0", fontSize: 9 }}
+            >
+              {running ? "CONSOLIDATING…" : `CONSOLIDATE ${plan.inputCount} UTXOS →`}
+            </button>
+          </>
+        )
+      )}
+
+      {running && progress && (
+        <div style={{ fontSize: 8, color: C.accent, ...mono }}>
+          TX {progress.index + 1}/{progress.total} · {STAGE_LABEL[progress.stage]}
+          {progress.tx.txId ? ` · ${progress.tx.txId.slice(0, 12)}…` : ""}
+        </div>
+      )}
+
+      {result && (
+        <div style={{ fontSize: 8, color: result.error ? C.warn : C.ok, lineHeight: 1.4 }}>
+          {result.confirmed.length}/{result.total} consolidation tx{result.total === 1 ? "" : "s"} confirmed · fee {kas(result.feePaid, 8)}
+        </div>
+      )}
+
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+// CovenantSpendPanel — sweep covenant (script-constrained) outputs that match a
+// known timelock or hash-lock template, from the Wallet tab's UTXO card.
+// Bare covenant outputs of this wallet are listed directly; P2SH ones are
+// found by pasting the template script. Managed wallets only.
+
+import { useMemo, useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { fmt, isKaspaAddress, kaspaPrefixForNetwork } from "../../src/helpers";
+import { sompiToKas } from "../utxo/utxoSync";
+import type { Utxo } from "../utxo/types";
+import type { PendingTx } from "../tx/types";
+import type { CovenantInspection } from "../tx/covenant";
+import { parseCovenantScript } from "../tx/covenantScript";
+import { insetCard, monoInput, outlineButton, primaryButton, sectionKicker } from "../popup/surfaces";
+
+interface Props {
+  address: string;
+  network: string;
+  /** Covenant-class UTXOs of this wallet's own address set. */
+  covenantUtxos: Utxo[];
+  hideBalances?: boolean;
+  /** Called after a spend ends so the UTXO set and balance refresh. */
+  onCompleted?: () => void;
+}
+
+type CovenantModule = typeof import("../tx/covenant");
+let covenantPromise: Promise<CovenantModule> | null = null;
+
+function loadCovenant(): Promise<CovenantModule> {
+  if (!covenantPromise) {
+    covenantPromise = import("../tx/covenant");
+  }
+  return covenantPromise;
+}
+
+const STAGE_LABEL: Record<string, string> = {
+  build: "BUILDING",
+  validate: "VALIDATED",
+  sign: "SIGNED",
+  broadcast: "BROADCAST",
+  reconcile: "CONFIRMING",
+};
+
+export function CovenantSpendPanel({ address, network, covenantUtxos, hideBalances = false, onCompleted }: Props) {
+  const [scriptHex, setScriptHex] = useState("");
+  const [inspection, setInspection] = useState<CovenantInspection | null>(null);
+  const [inspecting, setInspecting] = useState(false);
+  const [preimageHex, setPreimageHex] = useState("");
+  const [destination, setDestination] = useState("");
+  const [running, setRunning] = useState(false);
+  const [stage, setStage] = useState<string | null>(null);
+  const [result, setResult] = useState<PendingTx | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bare covenant outputs carry their template in their own script.
+  const ownSpendable = useMemo(
+    () => covenantUtxos.filter((u) => parseCovenantScript(u.scriptPublicKey) !== null),
+    [covenantUtxos],
+  );
+  const utxos = inspection ? inspection.utxos : ownSpendable;
+  const template = inspection?.template ?? (ownSpendable[0] ? parseCovenantScript(ownSpendable[0].scriptPublicKey) : null);
+  const needsPreimage = inspection
+    ? inspection.template.kind === "hashlock"
+    : ownSpendable.some((u) => parseCovenantScript(u.scriptPublicKey)?.kind === "hashlock");
+  const total = utxos.reduce((acc, u) => acc + u.amount, 0n);
+  const destinationValid = !destination.trim() || isKaspaAddress(destination.trim(), [kaspaPrefixForNetwork(network)]);
+  const preimageValid = !needsPreimage || /^(0x)?([0-9a-fA-F]{2})+$/.test(preimageHex.trim());
+  const canSpend = utxos.length > 0 && destinationValid && preimageValid && !running;
+  const kas = (sompi: bigint) => (hideBalances ? "•••• KAS" : `${fmt(sompiToKas(sompi), 4)} KAS`);
+
+  const handleInspect = async () => {
+    if (!scriptHex.trim() || inspecting) return;
+    setInspecting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const mod = await loadCovenant();
+      setInspection(await mod.inspectCovenantScript(scriptHex, network));
+    } catch (err) {
+      setInspection(null);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setInspecting(false);
+    }
+  };
+
+  const handleSpend = async () => {
+    if (!canSpend) return;
+    setRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const mod = await loadCovenant();
+      const tx = await mod.spendCovenantOutputs({
+        fromAddress: address,
+        network,
+        utxos,
+        scriptHex: inspection ? scriptHex : undefined,
+        preimageHex: needsPreimage ? preimageHex.trim() : undefined,
+        destination: destination.trim() || undefined,
+      }, { onUpdate: ({ stage: next }) => setStage(next) });
+      setResult(tx);
+      setInspection(null);
+      setScriptHex("");
+      setPreimageHex("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+      setStage(null);
+      onCompleted?.();
+    }
+  };
+
+  return (
+    <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 6, padding: "8px 9px", marginBottom: 8 }}>
+      <div style={sectionKicker}>COVENANT SPEND</div>
+      <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.45 }}>
+        Timelock and hash-lock outputs paying this wallet's key can be swept once their condition is met.
+        {ownSpendable.length > 0 ? ` ${ownSpendable.length} recognised covenant output${ownSpendable.length === 1 ? "" : "s"} on this address.` : ""}
+      </div>
+
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <input
+          value={scriptHex}
+          onChange={(e) => { setScriptHex(e.target.value); setInspection(null); }}
+          placeholder="P2SH covenant script (hex)"
+          disabled={running}
+          style={{ ...monoInput(false), flex: 1, padding: "5px 7px", fontSize: 8 }}
+        />
+        <button
+          onClick={handleInspect}
+          disabled={!scriptHex.trim() || inspecting || running}
+          style={{ ...outlineButton(C.accent, Boolean(scriptHex.trim()) && !inspecting && !running), padding: "5px 8px", fontSize: 8, color: C.accent }}
+        >
+          {inspecting ? "LOADING…" : "INSPECT"}
+        </button>
+      </div>
+
+      {template && (
+        <div style={{ fontSize: 8, color: C.text, ...mono, lineHeight: 1.45 }}>
+          {template.kind === "hashlock" ? `HASH-LOCK · ${template.hash.toUpperCase()}` : `TIMELOCK · ${template.lockTime.toString()}`}
+          {inspection && <div style={{ color: C.dim, wordBreak: "break-all" }}>{inspection.address}</div>}
+        </div>
+      )}
+
+      {(inspection || ownSpendable.length > 0) && (
+        <div style={{ display: "flex", justifyContent: "space-between", fontSize: 8 }}>
+          <span style={{ color: C.dim }}>{utxos.length} OUTPUT{utxos.length === 1 ? "" : "S"}</span>
+          <span style={{ color: C.accent, fontWeight: 700, ...mono }}>{kas(total)}</span>
+        </div>
+      )}
+
+      {utxos.length > 0 && (
+        <>
+          {needsPreimage && (
+            <input
+              value={preimageHex}
+              onChange={(e) => setPreimageHex(e.target.value)}
+              placeholder="Hash-lock preimage (hex)"
+              disabled={running}
+              style={{ ...monoInput(Boolean(preimageHex) && !preimageValid), padding: "5px 7px", fontSize: 8 }}
+            />
+          )}
+          <input
+            value={destination}
+            onChange={(e) => setDestination(e.target.value)}
+            placeholder="Destination (default: this wallet)"
+            disabled={running}
+            style={{ ...monoInput(!destinationValid), padding: "5px 7px", fontSize: 8 }}
+          />
+          <button
+            onClick={handleSpend}
+            disabled={!canSpend}
+            style={{ ...primaryButton(canSpend), padding: "7px 0", fontSize: 9 }}
+          >
+            {running ? `${stage ? STAGE_LABEL[stage] ?? stage.toUpperCase() : "SPENDING"}…` : `SWEEP ${utxos.length} COVENANT OUTPUT${utxos.length === 1 ? "" : "S"} →`}
+          </button>
+        </>
+      )}
+
+      {result && (
+        <div style={{ fontSize: 8, color: result.state === "CONFIRMED" ? C.ok : C.warn, ...mono }}>
+          {result.state}{result.txId ? ` · ${result.txId.slice(0, 16)}…` : ""}
+        </div>
+      )}
+
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+// FeeTierPicker — low / normal / priority fee selection with each tier's fee
+// and expected confirmation time. Shared by the Wallet tab send form and the
+// transaction approval screen.
+
+import { C } from "../../src/tokens";
+import { fmt } from "../../src/helpers";
+import { sompiToKas } from "../utxo/utxoSync";
+import { FEE_TIERS, FEE_TIER_LABELS, formatConfirmationTime, type FeeTier } from "../network/feeTiers";
+import type { FeeTierQuote } from "../tx/builder";
+import { insetCard, outlineButton, sectionKicker } from "../popup/surfaces";
+
+interface Props {
+  value: FeeTier;
+  onChange?: (tier: FeeTier) => void;
+  /** Null while loading or when the estimate is unavailable. */
+  quotes: FeeTierQuote[] | null;
+  /** Quotes are for an estimated (not yet built) transaction. */
+  approximate?: boolean;
+  disabled?: boolean;
+}
+
+export function FeeTierPicker({ value, onChange, quotes, approximate = false, disabled = false }: Props) {
+  const quoteByTier = new Map((quotes ?? []).map((q) => [q.tier, q]));
+
+  return (
+    <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 5 }}>
+      <div style={sectionKicker}>NETWORK FEE</div>
+      <div style={{ display: "grid", gridTemplateColumns: `repeat(${FEE_TIERS.length},1fr)`, gap: 5 }}>
+        {FEE_TIERS.map((tier) => {
+          const quote = quoteByTier.get(tier);
+          const active = value === tier;
+          const selectable = !disabled && Boolean(onChange);
+          return (
+            <button
+              key={tier}
+              onClick={() => selectable && onChange?.(tier)}
+              disabled={!selectable && !active}
+              style={{
+                ...outlineButton(active ? C.accent : C.dim, true),
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "flex-start",
+                gap: 2,
+                padding: "4px 6px",
+                fontSize: 8,
+                color: active ? C.accent : C.text,
+                textAlign: "left",
+                cursor: selectable ? "pointer" : "default",
+              }}
+            >
+              <span style={{ fontWeight: 700 }}>{FEE_TIER_LABELS[tier]}</span>
+              <span style={{ color: C.dim }}>{quote ? formatConfirmationTime(quote.estimatedSeconds) : "…"}</span>
+              <span style={{ color: active ? C.warn : C.dim }}>
+                {quote ? `${approximate ? "≈" : ""}${fmt(sompiToKas(quote.fee), 8)} KAS` : "—"}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
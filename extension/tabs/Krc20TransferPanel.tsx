@@ -0,0 +1,138 @@
+// Krc20TransferPanel — send a KRC-20 token from the managed wallet via the
+// Kasplex commit/reveal pair. Shown in the Wallet tab's KRC token details.
+
+import { useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { isKaspaAddress, kaspaPrefixForNetwork, shortAddr } from "../../src/helpers";
+import type { KrcPortfolioToken } from "../portfolio/types";
+import type { Krc20TransferProgressUpdate, Krc20TransferResult } from "../tx/krc20";
+import { insetCard, monoInput, primaryButton, sectionKicker } from "../popup/surfaces";
+
+interface Props {
+  address: string;
+  network: string;
+  token: KrcPortfolioToken;
+  /** Called after a run ends so holdings and balance refresh. */
+  onCompleted?: () => void;
+}
+
+type Krc20Module = typeof import("../tx/krc20");
+let krc20Promise: Promise<Krc20Module> | null = null;
+
+function loadKrc20(): Promise<Krc20Module> {
+  if (!krc20Promise) {
+    krc20Promise = import("../tx/krc20");
+  }
+  return krc20Promise;
+}
+
+const STAGE_LABEL: Record<Krc20TransferProgressUpdate["stage"], string> = {
+  build: "BUILDING",
+  validate: "VALIDATED",
+  sign: "SIGNED",
+  broadcast: "BROADCAST",
+  reconcile: "CONFIRMING",
+};
+
+export function Krc20TransferPanel({ address, network, token, onCompleted }: Props) {
+  const [to, setTo] = useState("");
+  const [amount, setAmount] = useState("");
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<Krc20TransferProgressUpdate | null>(null);
+  const [result, setResult] = useState<Krc20TransferResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const symbol = token.token.symbol;
+  const toValid = isKaspaAddress(to.trim(), [kaspaPrefixForNetwork(network)]);
+  const amountNum = parseFloat(amount);
+  const amountValid = Number.isFinite(amountNum) && amountNum > 0 && amountNum <= token.balanceApprox;
+  const ready = toValid && amountValid && !running;
+
+  const run = async (resumeId?: string) => {
+    setRunning(true);
+    setError(null);
+    setProgress(null);
+    try {
+      const mod = await loadKrc20();
+      const outcome = resumeId
+        ? await mod.resumeKrc20Transfer(resumeId, { onProgress: setProgress })
+        : await mod.runKrc20Transfer({
+            fromAddress: address,
+            network,
+            token: token.token.address,
+            amount: mod.parseKrc20Amount(amount, token.token.decimals),
+            to: to.trim(),
+          }, { onProgress: setProgress });
+      setResult(outcome);
+      if (outcome.error) setError(outcome.error);
+      if (!outcome.error) setAmount("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+      onCompleted?.();
+    }
+  };
+
+  // A confirmed commit whose reveal failed keeps its KAS in the P2SH output.
+  const resumable = result?.failedStep === "reveal"
+    || (result?.failedStep === "commit" && result.error === "KRC20_COMMIT_NOT_CONFIRMED");
+
+  return (
+    <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 6, padding: "8px 9px", marginTop: 8 }}>
+      <div style={sectionKicker}>SEND {symbol}</div>
+      <input
+        value={to}
+        onChange={(e) => setTo(e.target.value)}
+        placeholder={`${kaspaPrefixForNetwork(network)}:recipient`}
+        disabled={running}
+        style={{ ...monoInput(to.length > 0 && !toValid), padding: "6px 8px", fontSize: 9 }}
+      />
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <input
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="0.0"
+          inputMode="decimal"
+          disabled={running}
+          style={{ ...monoInput(amount.length > 0 && !amountValid), flex: 1, padding: "6px 8px", fontSize: 9 }}
+        />
+        <span style={{ fontSize: 8, color: C.dim, ...mono }}>of {token.balanceDisplay} {symbol}</span>
+      </div>
+      <div style={{ fontSize: 8, color: C.warn, lineHeight: 1.4 }}>
+        Two transactions: a commit locking 0.3 KAS, then a reveal that carries the transfer and returns the KAS minus fees.
+      </div>
+      <button
+        onClick={() => { void run(); }}
+        disabled={!ready}
+        style={{ ...primaryButton(ready), padding: "7px 0", fontSize: 9 }}
+      >
+        {running ? "TRANSFERRING…" : `SEND ${symbol} →`}
+      </button>
+
+      {running && progress && (
+        <div style={{ fontSize: 8, color: C.accent, ...mono }}>
+          {progress.step.toUpperCase()} · {STAGE_LABEL[progress.stage]}
+          {progress.tx.txId ? ` · ${progress.tx.txId.slice(0, 12)}…` : ""}
+        </div>
+      )}
+
+      {result && !result.error && result.reveal && (
+        <div style={{ fontSize: 8, color: C.ok, lineHeight: 1.4 }}>
+          Transfer revealed to {shortAddr(result.reveal.krc20?.to ?? "")} · {result.reveal.txId?.slice(0, 12)}…
+        </div>
+      )}
+
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{error}</div>}
+
+      {resumable && !running && result && (
+        <button
+          onClick={() => { void run(result.operationId); }}
+          style={{ ...primaryButton(true), padding: "6px 0", fontSize: 8 }}
+        >
+          RETRY REVEAL →
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+// Krc721GalleryPanel — owned token ids of a KRC-721 collection with their
+// images and traits, and (managed wallets) a single-NFT transfer through the
+// commit/reveal pipeline. Shown in the Wallet tab's KRC token details.
+
+import { useEffect, useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { isKaspaAddress, kaspaPrefixForNetwork, shortAddr } from "../../src/helpers";
+import { fetchKrc721Items } from "../portfolio/krcPortfolio";
+import type { KrcNftItem, KrcPortfolioToken } from "../portfolio/types";
+import type { Krc20TransferProgressUpdate, Krc20TransferResult } from "../tx/krc20";
+import { chip, insetCard, monoInput, outlineButton, primaryButton, sectionKicker } from "../popup/surfaces";
+
+interface Props {
+  address: string;
+  network: string;
+  token: KrcPortfolioToken;
+  /** Managed wallets can transfer; others only browse. */
+  canTransfer: boolean;
+  /** Called after a transfer ends so holdings and balance refresh. */
+  onCompleted?: () => void;
+}
+
+type Krc721Module = typeof import("../tx/krc721");
+let krc721Promise: Promise<Krc721Module> | null = null;
+
+function loadKrc721(): Promise<Krc721Module> {
+  if (!krc721Promise) {
+    krc721Promise = import("../tx/krc721");
+  }
+  return krc721Promise;
+}
+
+const STAGE_LABEL: Record<Krc20TransferProgressUpdate["stage"], string> = {
+  build: "BUILDING",
+  validate: "VALIDATED",
+  sign: "SIGNED",
+  broadcast: "BROADCAST",
+  reconcile: "CONFIRMING",
+};
+
+export function Krc721GalleryPanel({ address, network, token, canTransfer, onCompleted }: Props) {
+  const collection = token.token.address;
+  const [items, setItems] = useState<KrcNftItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reloadNonce, setReloadNonce] = useState(0);
+  const [selected, setSelected] = useState<KrcNftItem | null>(null);
+  const [to, setTo] = useState("");
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<Krc20TransferProgressUpdate | null>(null);
+  const [result, setResult] = useState<Krc20TransferResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchKrc721Items(address, collection, network)
+      .then((next) => {
+        if (cancelled) return;
+        setItems(next);
+        setSelected((current) => (current ? next.find((item) => item.tokenId === current.tokenId) ?? null : null));
+      })
+      .catch(() => { if (!cancelled) setItems([]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [address, collection, network, reloadNonce]);
+
+  const toValid = isKaspaAddress(to.trim(), [kaspaPrefixForNetwork(network)]);
+  const ready = Boolean(selected) && toValid && !running;
+
+  const transfer = async (resumeId?: string) => {
+    if (!selected && !resumeId) return;
+    setRunning(true);
+    setError(null);
+    setProgress(null);
+    try {
+      const mod = await loadKrc721();
+      const outcome = resumeId
+        ? await mod.resumeKrc20Transfer(resumeId, { onProgress: setProgress })
+        : await mod.runKrc721Transfer({
+            fromAddress: address,
+            network,
+            collection,
+            tokenId: selected!.tokenId,
+            to: to.trim(),
+          }, { onProgress: setProgress });
+      setResult(outcome);
+      if (outcome.error) setError(outcome.error);
+      else setTo("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunning(false);
+      setReloadNonce((v) => v + 1);
+      onCompleted?.();
+    }
+  };
+
+  const resumable = result?.failedStep === "reveal"
+    || (result?.failedStep === "commit" && result.error === "KRC20_COMMIT_NOT_CONFIRMED");
+
+  return (
+    <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 6, padding: "8px 9px", marginTop: 8 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+        <div style={sectionKicker}>GALLERY · {items.length}</div>
+        {loading && <span style={{ fontSize: 8, color: C.dim }}>SYNC…</span>}
+      </div>
+
+      {!loading && items.length === 0 && (
+        <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.4 }}>
+          No individual items found for this collection on the indexer.
+        </div>
+      )}
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 5 }}>
+        {items.map((item) => {
+          const active = selected?.tokenId === item.tokenId;
+          return (
+            <button
+              key={item.tokenId}
+              data-testid="nft-item"
+              onClick={() => { setSelected(active ? null : item); setResult(null); setError(null); }}
+              style={{
+                ...insetCard(),
+                padding: 3,
+                cursor: "pointer",
+                border: `1px solid ${active ? C.accent : "transparent"}`,
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+                gap: 3,
+              }}
+            >
+              {item.imageUri ? (
+                <img
+                  src={item.imageUri}
+                  alt={item.name ?? `#${item.tokenId}`}
+                  loading="lazy"
+                  style={{ width: "100%", aspectRatio: "1 / 1", objectFit: "cover", borderRadius: 6 }}
+                />
+              ) : (
+                <div style={{ width: "100%", aspectRatio: "1 / 1", display: "flex", alignItems: "center", justifyContent: "center", fontSize: 9, color: C.dim, ...mono }}>
+                  #{item.tokenId}
+                </div>
+              )}
+              <div style={{ fontSize: 7, color: C.text, maxWidth: "100%", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", ...mono }}>
+                {item.name ?? `#${item.tokenId}`}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div style={{ display: "flex", flexDirection: "column", gap: 5 }}>
+          <div style={{ fontSize: 9, color: C.text, fontWeight: 700 }}>
+            {selected.name ?? token.token.symbol} <span style={{ color: C.dim, ...mono }}>#{selected.tokenId}</span>
+          </div>
+          {selected.attributes.length > 0 && (
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 4 }}>
+              {selected.attributes.map((attr) => (
+                <span key={`${attr.trait}:${attr.value}`} style={chip(C.dim)}>{attr.trait}: {attr.value}</span>
+              ))}
+            </div>
+          )}
+
+          {canTransfer && (
+            <>
+              <input
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                placeholder={`${kaspaPrefixForNetwork(network)}:recipient`}
+                disabled={running}
+                style={{ ...monoInput(to.length > 0 && !toValid), padding: "6px 8px", fontSize: 9 }}
+              />
+              <div style={{ fontSize: 8, color: C.warn, lineHeight: 1.4 }}>
+                Two transactions: a commit locking 0.3 KAS, then a reveal that moves #{selected.tokenId} and returns the KAS minus fees.
+              </div>
+              <button
+                onClick={() => { void transfer(); }}
+                disabled={!ready}
+                style={{ ...primaryButton(ready), padding: "7px 0", fontSize: 9 }}
+              >
+                {running ? "TRANSFERRING…" : `SEND #${selected.tokenId} →`}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {running && progress && (
+        <div style={{ fontSize: 8, color: C.accent, ...mono }}>
+          {progress.step.toUpperCase()} · {STAGE_LABEL[progress.stage]}
+          {progress.tx.txId ? ` · ${progress.tx.txId.slice(0, 12)}…` : ""}
+        </div>
+      )}
+
+      {result && !result.error && result.reveal && (
+        <div style={{ fontSize: 8, color: C.ok, lineHeight: 1.4 }}>
+          #{result.reveal.krc20?.tokenId} sent to {shortAddr(result.reveal.krc20?.to ?? "")} · {result.reveal.txId?.slice(0, 12)}…
+        </div>
+      )}
+
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{error}</div>}
+
+      {resumable && !running && result && (
+        <button
+          onClick={() => { void transfer(result.operationId); }}
+          style={{ ...outlineButton(C.accent, true), padding: "6px 0", fontSize: 8, color: C.accent }}
+        >
+          RETRY REVEAL →
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+// MnemonicSharesPanel — Security tab K-of-N split of the vault mnemonic
+// (vault/shares.ts). Shares are shown one at a time so each can be written
+// down or saved separately; they are dropped from memory when the panel closes.
+
+import { useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { decryptVaultPayload } from "../vault/vault";
+import { MNEMONIC_SHARES_MAX, splitMnemonic, type MnemonicShare } from "../vault/shares";
+import { downloadText } from "../shared/download";
+import { insetCard, monoInput, outlineButton, primaryButton, sectionCard, sectionKicker, sectionTitle } from "../popup/surfaces";
+
+interface Props {
+  onClose: () => void;
+}
+
+const COUNT_OPTIONS = Array.from({ length: MNEMONIC_SHARES_MAX - 1 }, (_, i) => i + 2);
+
+export function MnemonicSharesPanel({ onClose }: Props) {
+  const [total, setTotal] = useState(5);
+  const [threshold, setThreshold] = useState(3);
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shares, setShares] = useState<MnemonicShare[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [hasPassphrase, setHasPassphrase] = useState(false);
+
+  const handleSplit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || loading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const { payload } = await decryptVaultPayload(password);
+      setShares(await splitMnemonic(payload.mnemonic, total, threshold));
+      setHasPassphrase(Boolean(payload.mnemonicPassphrase));
+      setCurrent(0);
+      setPassword("");
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg === "INVALID_PASSWORD" ? "Incorrect password." : msg);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setShares([]);
+    setPassword("");
+    onClose();
+  };
+
+  const share = shares[current];
+
+  return (
+    <div style={{ ...sectionCard("warn") }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+        <span style={{ ...sectionTitle, color: C.warn }}>SEED PHRASE SHARES</span>
+        <button onClick={handleClose} style={{ background: "none", border: "none", color: C.dim, fontSize: 8, cursor: "pointer", ...mono }}>✕ close</button>
+      </div>
+
+      {!share ? (
+        <form onSubmit={handleSplit} style={{ display: "flex", flexDirection: "column", gap: 7 }}>
+          <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5 }}>
+            Split the seed phrase into shares for separate holders or locations. Any {threshold} of {total} restore
+            the wallet; fewer reveal nothing about it.
+          </div>
+          <div style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 8, color: C.dim }}>
+            <span>THRESHOLD</span>
+            <select
+              value={threshold}
+              onChange={(e) => setThreshold(Number(e.target.value))}
+              disabled={loading}
+              style={{ ...monoInput(), width: "auto", padding: "4px 6px", fontSize: 8 }}
+            >
+              {COUNT_OPTIONS.filter((n) => n <= total).map((n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <span>OF</span>
+            <select
+              value={total}
+              onChange={(e) => {
+                const next = Number(e.target.value);
+                setTotal(next);
+                setThreshold((k) => Math.min(k, next));
+              }}
+              disabled={loading}
+              style={{ ...monoInput(), width: "auto", padding: "4px 6px", fontSize: 8 }}
+            >
+              {COUNT_OPTIONS.map((n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <span>SHARES</span>
+          </div>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Wallet password"
+            disabled={loading}
+            style={{ ...monoInput(Boolean(error)), padding: "7px 9px", fontSize: 9 }}
+          />
+          {error && <div style={{ fontSize: 8, color: C.danger }}>{error}</div>}
+          <button
+            type="submit"
+            disabled={!password || loading}
+            style={{ ...primaryButton(Boolean(password) && !loading), padding: "8px 0", cursor: password && !loading ? "pointer" : "not-allowed" }}
+          >{loading ? "SPLITTING…" : `CREATE ${total} SHARES`}</button>
+        </form>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: 7 }}>
+          <div style={sectionKicker}>SHARE {share.index} OF {share.total} · ANY {share.threshold} RESTORE</div>
+          <div style={{ ...insetCard(), padding: "8px 9px", fontSize: 9, color: C.text, ...mono, lineHeight: 1.7, wordBreak: "break-word" }}>
+            {share.text}
+          </div>
+          <div style={{ display: "flex", gap: 6 }}>
+            <button
+              onClick={() => { void navigator.clipboard.writeText(share.text).catch(() => {}); }}
+              style={{ ...outlineButton(C.accent, true), flex: 1, padding: "5px 0", fontSize: 8, color: C.accent }}
+            >COPY</button>
+            <button
+              onClick={() => downloadText(`forgeos-share-${share.setId.toString(16).padStart(4, "0")}-${share.index}of${share.total}.txt`, `${share.text}\n`, "text/plain")}
+              style={{ ...outlineButton(C.accent, true), flex: 1, padding: "5px 0", fontSize: 8, color: C.accent }}
+            >DOWNLOAD</button>
+          </div>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+            <button onClick={() => setCurrent((i) => Math.max(0, i - 1))} disabled={current === 0} style={{ ...outlineButton(C.dim, true), padding: "3px 8px", fontSize: 8, color: C.dim }}>← PREV</button>
+            <span style={{ fontSize: 8, color: C.dim, ...mono }}>{current + 1}/{shares.length}</span>
+            <button onClick={() => setCurrent((i) => Math.min(shares.length - 1, i + 1))} disabled={current >= shares.length - 1} style={{ ...outlineButton(C.dim, true), padding: "3px 8px", fontSize: 8, color: C.dim }}>NEXT →</button>
+          </div>
+          <div style={{ fontSize: 8, color: C.warn, lineHeight: 1.5 }}>
+            Store each share separately. Shares are checksummed, so a typo is caught on restore.
+            {hasPassphrase ? " Your BIP39 passphrase is not part of the shares — keep it separately." : ""}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
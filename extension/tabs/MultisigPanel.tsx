@@ -0,0 +1,416 @@
+// MultisigPanel — Security tab m-of-n accounts (tx/multisig.ts): share this
+// vault's co-signer key, register an account from co-signer keys, start
+// spends, collect partial signatures (file, QR or local relay) with per
+// co-signer status, and broadcast once the threshold is met. Also co-signs
+// requests started by other wallets.
+
+import { useCallback, useEffect, useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { fmt, isKaspaAddress, kaspaPrefixForNetwork, shortAddr } from "../../src/helpers";
+import { sompiToKas } from "../utxo/utxoSync";
+import { getMultisigAccounts, removeMultisigAccount, type MultisigAccount } from "../shared/storage";
+import { multisigCosignerStatuses } from "../tx/store";
+import type { PendingTx } from "../tx/types";
+import { EnvelopeExport, EnvelopeInput, TxSummary } from "./OfflineSigningPanel";
+import { chip, insetCard, monoInput, outlineButton, primaryButton, sectionCard, sectionKicker, sectionTitle } from "../popup/surfaces";
+
+interface Props {
+  network: string;
+  onClose: () => void;
+}
+
+type MultisigModule = typeof import("../tx/multisig");
+let multisigPromise: Promise<MultisigModule> | null = null;
+
+function loadMultisig(): Promise<MultisigModule> {
+  if (!multisigPromise) {
+    multisigPromise = import("../tx/multisig");
+  }
+  return multisigPromise;
+}
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+const smallButton = (color: string) => ({ ...outlineButton(color, true), padding: "4px 7px", fontSize: 8, color });
+
+// ── One spend ─────────────────────────────────────────────────────────────────
+
+function SpendCard({ tx, onChanged }: { tx: PendingTx; onChanged: () => Promise<void> }) {
+  const [view, setView] = useState<"none" | "share" | "import">("none");
+  const [request, setRequest] = useState<string | null>(null);
+  const [incoming, setIncoming] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const pending = tx.state === "BUILDING";
+  const statuses = multisigCosignerStatuses(tx);
+  const signed = statuses.filter((s) => s.state === "signed").length;
+  const ready = pending && signed >= (tx.multisig?.threshold ?? Infinity);
+
+  const run = async (action: (mod: MultisigModule) => Promise<string | void>) => {
+    setBusy(true);
+    setError(null);
+    setNote(null);
+    try {
+      const message = await action(await loadMultisig());
+      if (message) setNote(message);
+      await onChanged();
+    } catch (err) {
+      setError(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const share = async () => {
+    setView(view === "share" ? "none" : "share");
+    if (!request) await run(async (mod) => { setRequest(await mod.exportMultisigRequest(tx)); });
+  };
+
+  return (
+    <div data-testid="multisig-spend" style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 6, padding: "8px 9px" }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+        <span style={{ fontSize: 8, color: C.dim, ...mono }}>{tx.id.slice(0, 8)} · {tx.state}</span>
+        <span style={chip(ready ? C.ok : C.warn)}>{signed}/{tx.multisig?.threshold ?? "?"} SIGNED</span>
+      </div>
+      <TxSummary tx={tx} />
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 4 }}>
+        {statuses.map((s) => (
+          <span key={s.pubkey} title={s.pubkey} style={chip(s.state === "signed" ? C.ok : C.dim, s.state === "signed")}>
+            {s.label} · {s.state === "signed" ? "SIGNED" : "PENDING"}
+          </span>
+        ))}
+      </div>
+
+      {pending && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 5 }}>
+          <button disabled={busy} onClick={() => { void run(async (mod) => { await mod.signMultisigSpendLocally(tx); return "Signed with this vault."; }); }} style={smallButton(C.accent)}>SIGN HERE</button>
+          <button disabled={busy} onClick={() => { void share(); }} style={smallButton(C.dim)}>SHARE</button>
+          <button disabled={busy} onClick={() => setView(view === "import" ? "none" : "import")} style={smallButton(C.dim)}>IMPORT SIG</button>
+          <button
+            disabled={busy}
+            onClick={() => { void run(async (mod) => {
+              await mod.publishMultisigRequest(tx);
+              const { applied, rejected } = await mod.pullMultisigPartials(tx.id);
+              return `Relay: request posted, ${applied} signature(s) applied${rejected ? `, ${rejected} rejected` : ""}.`;
+            }); }}
+            style={smallButton(C.dim)}
+          >RELAY SYNC</button>
+          <button disabled={busy} onClick={() => { void run(async (mod) => { await mod.cancelMultisigSpend(tx.id); }); }} style={smallButton(C.danger)}>CANCEL</button>
+        </div>
+      )}
+
+      {view === "share" && request && (
+        <EnvelopeExport text={request} filename={`forgeos-multisig-request-${tx.id.slice(0, 8)}.json`} label={`SPEND REQUEST · RELAY ID ${tx.id}`} />
+      )}
+      {view === "import" && pending && (
+        <>
+          <EnvelopeInput value={incoming} onChange={setIncoming} disabled={busy} />
+          <button
+            disabled={!incoming.trim() || busy}
+            onClick={() => { void run(async (mod) => {
+              const { readPsktText } = await import("../tx/pskt");
+              await mod.applyMultisigPartial(readPsktText(incoming));
+              setIncoming("");
+              return "Signature recorded.";
+            }); }}
+            style={{ ...primaryButton(Boolean(incoming.trim()) && !busy), padding: "6px 0", fontSize: 8 }}
+          >APPLY SIGNATURE</button>
+        </>
+      )}
+      {ready && (
+        <button
+          disabled={busy}
+          onClick={() => { void run(async (mod) => {
+            const result = await mod.finalizeMultisigSpend(tx, { awaitConfirmation: false });
+            return `Broadcast · ${result.txId ? `${result.txId.slice(0, 16)}…` : result.state}`;
+          }); }}
+          style={{ ...primaryButton(!busy), padding: "7px 0", fontSize: 9 }}
+        >{busy ? "BROADCASTING…" : "VALIDATE + BROADCAST →"}</button>
+      )}
+      {note && <div style={{ fontSize: 8, color: C.ok, lineHeight: 1.4 }}>{note}</div>}
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{error}</div>}
+    </div>
+  );
+}
+
+// ── One account ───────────────────────────────────────────────────────────────
+
+function AccountDetail({ account, onRemoved }: { account: MultisigAccount; onRemoved: () => Promise<void> }) {
+  const [spends, setSpends] = useState<PendingTx[]>([]);
+  const [to, setTo] = useState("");
+  const [amount, setAmount] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const { getMultisigTxs } = await import("../tx/store");
+    setSpends(await getMultisigTxs(account.id).catch(() => []));
+  }, [account.id]);
+
+  useEffect(() => { void reload(); }, [reload]);
+
+  const toValid = isKaspaAddress(to.trim(), [kaspaPrefixForNetwork(account.network)]);
+  const amountNum = parseFloat(amount);
+  const formReady = toValid && amountNum > 0 && !busy;
+
+  const start = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const mod = await loadMultisig();
+      await mod.startMultisigSpend({ account, to: to.trim(), amountKas: amountNum });
+      setTo("");
+      setAmount("");
+      await reload();
+    } catch (err) {
+      setError(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const visible = spends.filter((tx) => tx.state !== "CANCELLED");
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6, marginTop: 6 }}>
+      <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5, wordBreak: "break-all", ...mono }}>{account.address}</div>
+      <div style={{ fontSize: 8, color: C.dim, ...mono }}>
+        {account.cosigners.map((c) => c.label).join(" · ")}
+      </div>
+      <div style={sectionKicker}>NEW SPEND</div>
+      <input
+        value={to}
+        onChange={(e) => setTo(e.target.value)}
+        placeholder={`${kaspaPrefixForNetwork(account.network)}:recipient`}
+        disabled={busy}
+        style={{ ...monoInput(to.length > 0 && !toValid), padding: "6px 8px", fontSize: 9 }}
+      />
+      <input
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder="Amount (KAS)"
+        type="number"
+        min="0"
+        disabled={busy}
+        style={{ ...monoInput(), padding: "6px 8px", fontSize: 9 }}
+      />
+      <button onClick={() => { void start(); }} disabled={!formReady} style={{ ...primaryButton(formReady), padding: "7px 0", fontSize: 9 }}>
+        {busy ? "BUILDING…" : "BUILD SPEND →"}
+      </button>
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{error}</div>}
+
+      {visible.length > 0 && <div style={sectionKicker}>SPENDS</div>}
+      {visible.map((tx) => <SpendCard key={tx.id} tx={tx} onChanged={reload} />)}
+
+      <button
+        onClick={() => { void removeMultisigAccount(account.id).then(onRemoved); }}
+        style={{ ...smallButton(C.danger), alignSelf: "flex-start" }}
+      >REMOVE ACCOUNT</button>
+    </div>
+  );
+}
+
+// ── Co-sign a request from another wallet ─────────────────────────────────────
+
+function CosignRequest() {
+  const [incoming, setIncoming] = useState("");
+  const [relayId, setRelayId] = useState("");
+  const [partial, setPartial] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: (mod: MultisigModule) => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setNote(null);
+    try {
+      await action(await loadMultisig());
+    } catch (err) {
+      setError(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+      <div style={sectionKicker}>CO-SIGN A REQUEST</div>
+      <div style={{ display: "flex", gap: 5 }}>
+        <input
+          value={relayId}
+          onChange={(e) => setRelayId(e.target.value)}
+          placeholder="Relay id (optional)"
+          disabled={busy}
+          style={{ ...monoInput(), flex: 1, padding: "6px 8px", fontSize: 8 }}
+        />
+        <button
+          disabled={!relayId.trim() || busy}
+          onClick={() => { void run(async (mod) => {
+            const text = await mod.fetchMultisigRequest(relayId.trim());
+            if (!text) throw new Error("MULTISIG_RELAY_EMPTY: no request posted under that id");
+            setIncoming(text);
+          }); }}
+          style={smallButton(C.dim)}
+        >FETCH</button>
+      </div>
+      {!partial && <EnvelopeInput value={incoming} onChange={setIncoming} disabled={busy} />}
+      {!partial && (
+        <button
+          disabled={!incoming.trim() || busy}
+          onClick={() => { void run(async (mod) => {
+            const { readPsktText } = await import("../tx/pskt");
+            setPartial(await mod.signMultisigRequest(readPsktText(incoming)));
+          }); }}
+          style={{ ...primaryButton(Boolean(incoming.trim()) && !busy), padding: "7px 0", fontSize: 9 }}
+        >{busy ? "SIGNING…" : "CHECK + SIGN →"}</button>
+      )}
+      {partial && (
+        <>
+          <EnvelopeExport text={partial} filename="forgeos-multisig-signature.json" label="PARTIAL SIGNATURE · RETURN TO INITIATOR" />
+          <button
+            disabled={busy}
+            onClick={() => { void run(async (mod) => { await mod.publishMultisigPartial(partial); setNote("Posted to relay."); }); }}
+            style={{ ...smallButton(C.accent), alignSelf: "flex-start" }}
+          >POST TO RELAY</button>
+        </>
+      )}
+      {note && <div style={{ fontSize: 8, color: C.ok }}>{note}</div>}
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{error}</div>}
+    </div>
+  );
+}
+
+// ── Panel ─────────────────────────────────────────────────────────────────────
+
+export function MultisigPanel({ network, onClose }: Props) {
+  const [accounts, setAccounts] = useState<MultisigAccount[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [myKey, setMyKey] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [label, setLabel] = useState("");
+  const [threshold, setThreshold] = useState("2");
+  const [xpubs, setXpubs] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const all = await getMultisigAccounts().catch(() => []);
+    setAccounts(all.filter((a) => a.network === network));
+  }, [network]);
+
+  useEffect(() => { void reload(); }, [reload]);
+
+  const keys = xpubs.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const thresholdNum = Number(threshold);
+  const createReady = keys.length >= 2 && Number.isInteger(thresholdNum) && thresholdNum >= 1 && thresholdNum <= keys.length && !busy;
+
+  const revealKey = async () => {
+    setError(null);
+    try {
+      const { exportMultisigXpub } = await import("../tx/signer");
+      setMyKey(await exportMultisigXpub());
+    } catch (err) {
+      setError(errorText(err));
+    }
+  };
+
+  const create = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const mod = await loadMultisig();
+      const account = await mod.createMultisigAccount({
+        label,
+        threshold: thresholdNum,
+        network,
+        cosigners: keys.map((xpub) => ({ xpub, label: xpub === myKey ? "This vault" : undefined })),
+      });
+      setCreating(false);
+      setLabel("");
+      setXpubs("");
+      await reload();
+      setOpenId(account.id);
+    } catch (err) {
+      setError(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ ...sectionCard("default"), display: "flex", flexDirection: "column", gap: 8 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+        <span style={sectionTitle}>MULTISIG</span>
+        <button onClick={onClose} style={{ background: "none", border: "none", color: C.dim, fontSize: 8, cursor: "pointer", ...mono }}>✕ close</button>
+      </div>
+      <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5 }}>
+        Shared m-of-n addresses. Every co-signer registers the same keys; spends broadcast only once enough co-signers have signed.
+      </div>
+
+      <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 5, padding: "7px 9px" }}>
+        <div style={sectionKicker}>YOUR CO-SIGNER KEY</div>
+        {myKey ? (
+          <>
+            <div style={{ fontSize: 8, color: C.text, wordBreak: "break-all", ...mono }}>{myKey}</div>
+            <button onClick={() => { void navigator.clipboard.writeText(myKey).catch(() => {}); }} style={{ ...smallButton(C.accent), alignSelf: "flex-start" }}>COPY</button>
+          </>
+        ) : (
+          <button onClick={() => { void revealKey(); }} style={{ ...smallButton(C.accent), alignSelf: "flex-start" }}>SHOW KEY</button>
+        )}
+      </div>
+
+      {accounts.length === 0 && !creating && (
+        <div style={{ fontSize: 8, color: C.dim }}>No multisig accounts on {network}.</div>
+      )}
+      {accounts.map((account) => {
+        const open = account.id === openId;
+        return (
+          <div key={account.id} data-testid="multisig-account" style={{ ...insetCard(), padding: "7px 9px" }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              <span style={{ flex: 1, fontSize: 9, color: open ? C.accent : C.text, fontWeight: 700, letterSpacing: "0.06em" }}>{account.label}</span>
+              <span style={chip(C.accent)}>{account.threshold}-OF-{account.cosigners.length}</span>
+              <span style={{ fontSize: 8, color: C.dim, ...mono }}>{shortAddr(account.address)}</span>
+              <button onClick={() => setOpenId(open ? null : account.id)} style={smallButton(open ? C.ok : C.accent)}>{open ? "HIDE" : "OPEN"}</button>
+            </div>
+            {open && <AccountDetail account={account} onRemoved={async () => { setOpenId(null); await reload(); }} />}
+          </div>
+        );
+      })}
+
+      {creating ? (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+          <div style={sectionKicker}>NEW MULTISIG ACCOUNT</div>
+          <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label (e.g. Treasury)" maxLength={32} style={{ ...monoInput(), padding: "6px 8px", fontSize: 9 }} />
+          <textarea
+            value={xpubs}
+            onChange={(e) => setXpubs(e.target.value)}
+            placeholder="Co-signer keys (kpub…), one per line — include your own"
+            rows={4}
+            style={{ ...monoInput(), padding: "6px 8px", fontSize: 8, resize: "vertical" }}
+          />
+          <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            <span style={{ fontSize: 8, color: C.dim }}>SIGNATURES REQUIRED</span>
+            <input value={threshold} onChange={(e) => setThreshold(e.target.value)} type="number" min="1" max={Math.max(1, keys.length)} style={{ ...monoInput(), width: 48, padding: "5px 6px", fontSize: 9 }} />
+            <span style={{ fontSize: 8, color: C.dim }}>OF {keys.length}</span>
+          </div>
+          <div style={{ display: "flex", gap: 6 }}>
+            <button onClick={() => setCreating(false)} style={{ ...outlineButton(C.dim), flex: 1, padding: "7px 0", fontSize: 9, color: C.dim }}>CANCEL</button>
+            <button onClick={() => { void create(); }} disabled={!createReady} style={{ ...primaryButton(createReady), flex: 2, padding: "7px 0", fontSize: 9 }}>
+              {busy ? "DERIVING…" : "CREATE ACCOUNT"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button onClick={() => setCreating(true)} style={{ ...outlineButton(C.accent, true), padding: "7px 0", fontSize: 9, color: C.accent }}>+ NEW MULTISIG ACCOUNT</button>
+      )}
+
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{error}</div>}
+
+      <CosignRequest />
+    </div>
+  );
+}
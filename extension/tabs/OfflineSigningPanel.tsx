@@ -0,0 +1,300 @@
+// OfflineSigningPanel — air-gapped signing through exported transaction
+// envelopes (tx/pskt.ts). "prepare" runs on the online instance (watch-only
+// accounts in the Wallet tab): build + dry-run, export, then import the signed
+// file and broadcast. "sign" runs on the offline instance (Security tab):
+// import the unsigned file, review it, sign with the vault and export.
+
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { C, mono } from "../../src/tokens";
+import { fmt, isKaspaAddress, kaspaPrefixForNetwork, shortAddr } from "../../src/helpers";
+import { sompiToKas } from "../utxo/utxoSync";
+import type { PendingTx } from "../tx/types";
+import { downloadText } from "../shared/download";
+import { insetCard, monoInput, outlineButton, primaryButton, sectionCard, sectionKicker, sectionTitle } from "../popup/surfaces";
+
+interface Props {
+  mode: "prepare" | "sign";
+  /** Sending address (prepare mode). */
+  address?: string | null;
+  network: string;
+  onClose?: () => void;
+  /** Called after a signed import is broadcast so balances refresh. */
+  onBroadcast?: (tx: PendingTx) => void;
+}
+
+type PsktModule = typeof import("../tx/pskt");
+let psktPromise: Promise<PsktModule> | null = null;
+
+function loadPskt(): Promise<PsktModule> {
+  if (!psktPromise) {
+    psktPromise = import("../tx/pskt");
+  }
+  return psktPromise;
+}
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Download / copy / QR-sequence views of one exported envelope. */
+export function EnvelopeExport({ text, filename, label }: { text: string; filename: string; label: string }) {
+  const [frames, setFrames] = useState<string[]>([]);
+  const [frame, setFrame] = useState(0);
+  const [qr, setQr] = useState<string | null>(null);
+  const [showQr, setShowQr] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadPskt().then((mod) => {
+      if (cancelled) return;
+      setFrames(mod.encodePsktQrFrames(text));
+      setFrame(0);
+    }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [text]);
+
+  useEffect(() => {
+    if (!showQr || !frames[frame]) { setQr(null); return; }
+    let cancelled = false;
+    QRCode.toDataURL(frames[frame], { errorCorrectionLevel: "L", margin: 1, width: 220, color: { dark: "#39DDB6", light: "#0A1118" } })
+      .then((url) => { if (!cancelled) setQr(url); })
+      .catch(() => { if (!cancelled) setQr(null); });
+    return () => { cancelled = true; };
+  }, [showQr, frames, frame]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch { /* non-fatal */ }
+  };
+
+  return (
+    <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 6, padding: "8px 9px" }}>
+      <div style={sectionKicker}>{label}</div>
+      <div style={{ display: "flex", gap: 6 }}>
+        <button onClick={() => downloadText(filename, text)} style={{ ...outlineButton(C.accent, true), flex: 1, padding: "6px 0", fontSize: 8, color: C.accent }}>DOWNLOAD</button>
+        <button onClick={() => { void copy(); }} style={{ ...outlineButton(copied ? C.ok : C.dim, true), flex: 1, padding: "6px 0", fontSize: 8, color: copied ? C.ok : C.dim }}>{copied ? "COPIED" : "COPY"}</button>
+        <button onClick={() => setShowQr((v) => !v)} style={{ ...outlineButton(C.dim, true), flex: 1, padding: "6px 0", fontSize: 8, color: C.dim }}>{showQr ? "HIDE QR" : `QR · ${frames.length}`}</button>
+      </div>
+      {showQr && (
+        <div style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 5 }}>
+          {qr && <img src={qr} alt={`Frame ${frame + 1} of ${frames.length}`} style={{ width: 180, height: 180, borderRadius: 8 }} />}
+          <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            <button onClick={() => setFrame((f) => Math.max(0, f - 1))} disabled={frame === 0} style={{ ...outlineButton(C.dim, true), padding: "3px 8px", fontSize: 8, color: C.dim }}>←</button>
+            <span style={{ fontSize: 8, color: C.dim, ...mono }}>FRAME {frame + 1}/{frames.length}</span>
+            <button onClick={() => setFrame((f) => Math.min(frames.length - 1, f + 1))} disabled={frame >= frames.length - 1} style={{ ...outlineButton(C.dim, true), padding: "3px 8px", fontSize: 8, color: C.dim }}>→</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Paste area + file picker for an incoming envelope or QR frames. */
+export function EnvelopeInput({ value, onChange, disabled }: { value: string; onChange: (v: string) => void; disabled?: boolean }) {
+  return (
+    <>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Paste the transaction file contents or QR frames (one per line)"
+        disabled={disabled}
+        rows={4}
+        style={{ ...monoInput(), padding: "6px 8px", fontSize: 8, resize: "vertical" }}
+      />
+      <input
+        type="file"
+        accept="application/json,.json,.txt"
+        disabled={disabled}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) file.text().then(onChange).catch(() => {});
+        }}
+        style={{ fontSize: 8, color: C.dim, ...mono }}
+      />
+    </>
+  );
+}
+
+export function TxSummary({ tx }: { tx: PendingTx }) {
+  return (
+    <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 3, padding: "7px 9px", fontSize: 8, color: C.dim, ...mono }}>
+      <div>FROM {shortAddr(tx.fromAddress)} · {tx.network}</div>
+      {tx.outputs.map((o, i) => (
+        <div key={`${o.address}:${i}`} style={{ color: C.text }}>→ {shortAddr(o.address)} · {fmt(sompiToKas(o.amount), 8)} KAS</div>
+      ))}
+      {tx.changeOutput && <div>CHANGE {fmt(sompiToKas(tx.changeOutput.amount), 8)} KAS</div>}
+      <div>FEE {fmt(sompiToKas(tx.fee), 8)} KAS · {tx.inputs.length} INPUT{tx.inputs.length === 1 ? "" : "S"}</div>
+    </div>
+  );
+}
+
+export function OfflineSigningPanel({ mode, address, network, onClose, onBroadcast }: Props) {
+  const [to, setTo] = useState("");
+  const [amount, setAmount] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [prepared, setPrepared] = useState<PendingTx | null>(null);
+  const [exported, setExported] = useState<string | null>(null);
+  const [incoming, setIncoming] = useState("");
+  const [review, setReview] = useState<PendingTx | null>(null);
+  const [result, setResult] = useState<PendingTx | null>(null);
+
+  const toValid = isKaspaAddress(to.trim(), [kaspaPrefixForNetwork(network)]);
+  const amountNum = parseFloat(amount);
+  const formReady = Boolean(address) && toValid && amountNum > 0 && !busy;
+
+  // Offline mode: parse as soon as something is pasted so the operator
+  // reviews the outputs before signing.
+  useEffect(() => {
+    if (mode !== "sign" || !incoming.trim()) { setReview(null); return; }
+    let cancelled = false;
+    loadPskt().then((mod) => {
+      const { envelope, tx } = mod.parsePskt(mod.readPsktText(incoming));
+      if (cancelled) return;
+      if (envelope.stage !== "unsigned") throw new Error("PSKT_ALREADY_SIGNED");
+      setReview(tx);
+      setError(null);
+    }).catch((err) => {
+      if (cancelled) return;
+      setReview(null);
+      setError(errorText(err));
+    });
+    return () => { cancelled = true; };
+  }, [mode, incoming]);
+
+  const prepare = async () => {
+    if (!address) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const [{ buildAndValidateKaspaIntent }, mod] = await Promise.all([import("../tx/kernel"), loadPskt()]);
+      const tx = await buildAndValidateKaspaIntent({
+        fromAddress: address,
+        network,
+        recipients: [{ address: to.trim(), amountKas: amountNum }],
+      });
+      setPrepared(tx);
+      setExported(await mod.exportPskt(tx));
+    } catch (err) {
+      setError(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importAndBroadcast = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const mod = await loadPskt();
+      const tx = await mod.importSignedPskt(mod.readPsktText(incoming), { awaitConfirmation: false });
+      setResult(tx);
+      setIncoming("");
+      onBroadcast?.(tx);
+    } catch (err) {
+      setError(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sign = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const mod = await loadPskt();
+      setExported(await mod.signPskt(mod.readPsktText(incoming)));
+    } catch (err) {
+      setError(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const txTag = (prepared ?? review)?.id.slice(0, 8) ?? "tx";
+
+  return (
+    <div style={{ ...sectionCard("default"), display: "flex", flexDirection: "column", gap: 7 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+        <span style={sectionTitle}>{mode === "prepare" ? "OFFLINE SIGNING" : "SIGN OFFLINE TRANSACTION"}</span>
+        {onClose && (
+          <button onClick={onClose} style={{ background: "none", border: "none", color: C.dim, fontSize: 8, cursor: "pointer", ...mono }}>✕ close</button>
+        )}
+      </div>
+
+      {mode === "prepare" && (
+        <>
+          <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5 }}>
+            1 · Build and validate here. 2 · Sign the exported file on the offline Forge-OS holding the key. 3 · Import the signed file to broadcast.
+          </div>
+          {!exported && (
+            <>
+              <input
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                placeholder={`${kaspaPrefixForNetwork(network)}:recipient`}
+                disabled={busy}
+                style={{ ...monoInput(to.length > 0 && !toValid), padding: "6px 8px", fontSize: 9 }}
+              />
+              <input
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Amount (KAS)"
+                type="number"
+                min="0"
+                disabled={busy}
+                style={{ ...monoInput(), padding: "6px 8px", fontSize: 9 }}
+              />
+              <button onClick={() => { void prepare(); }} disabled={!formReady} style={{ ...primaryButton(formReady), padding: "7px 0", fontSize: 9 }}>
+                {busy ? "VALIDATING…" : "BUILD + EXPORT →"}
+              </button>
+            </>
+          )}
+          {prepared && <TxSummary tx={prepared} />}
+          {exported && <EnvelopeExport text={exported} filename={`forgeos-unsigned-${txTag}.json`} label="UNSIGNED · CARRY TO OFFLINE SIGNER" />}
+          {exported && !result && (
+            <>
+              <div style={sectionKicker}>SIGNED FILE</div>
+              <EnvelopeInput value={incoming} onChange={setIncoming} disabled={busy} />
+              <button
+                onClick={() => { void importAndBroadcast(); }}
+                disabled={!incoming.trim() || busy}
+                style={{ ...primaryButton(Boolean(incoming.trim()) && !busy), padding: "7px 0", fontSize: 9 }}
+              >
+                {busy ? "BROADCASTING…" : "IMPORT + BROADCAST →"}
+              </button>
+            </>
+          )}
+          {result && (
+            <div style={{ fontSize: 8, color: C.ok, lineHeight: 1.4, ...mono }}>
+              {result.state} · {result.txId ? `${result.txId.slice(0, 16)}…` : result.id}
+            </div>
+          )}
+        </>
+      )}
+
+      {mode === "sign" && (
+        <>
+          <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5 }}>
+            Import an unsigned file exported by an online Forge-OS, check the outputs, then sign with this vault.
+          </div>
+          {!exported && <EnvelopeInput value={incoming} onChange={setIncoming} disabled={busy} />}
+          {review && <TxSummary tx={review} />}
+          {review && !exported && (
+            <button onClick={() => { void sign(); }} disabled={busy} style={{ ...primaryButton(!busy), padding: "7px 0", fontSize: 9 }}>
+              {busy ? "SIGNING…" : "SIGN →"}
+            </button>
+          )}
+          {exported && <EnvelopeExport text={exported} filename={`forgeos-signed-${txTag}.json`} label="SIGNED · CARRY BACK TO ONLINE WALLET" />}
+        </>
+      )}
+
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+// ScheduledSendsPanel — schedule KAS transfers for a future time or DAA score
+// from the Wallet tab, and approve the ones that are due. The intent is stored
+// only; tx/scheduled.ts builds it against fresh UTXOs when it runs. Managed
+// wallets only.
+
+import { useCallback, useEffect, useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { fmt, isKaspaAddress, kaspaPrefixForNetwork, shortAddr } from "../../src/helpers";
+import {
+  getScheduledSends,
+  removeScheduledSend,
+  SCHEDULED_SENDS_STORAGE_KEY,
+  type ScheduledSend,
+  type ScheduledSendStatus,
+  type ScheduledSendTrigger,
+} from "../shared/storage";
+import { chip, insetCard, monoInput, outlineButton, primaryButton, sectionCard, sectionKicker } from "../popup/surfaces";
+
+interface Props {
+  address: string;
+  network: string;
+  hideBalances?: boolean;
+  /** Called after a scheduled send runs so the balance refreshes. */
+  onCompleted?: () => void;
+}
+
+type ScheduledModule = typeof import("../tx/scheduled");
+let scheduledPromise: Promise<ScheduledModule> | null = null;
+
+function loadScheduled(): Promise<ScheduledModule> {
+  if (!scheduledPromise) {
+    scheduledPromise = import("../tx/scheduled");
+  }
+  return scheduledPromise;
+}
+
+const STATUS_LABEL: Record<ScheduledSendStatus, string> = {
+  scheduled: "SCHEDULED",
+  awaiting_approval: "DUE",
+  sending: "SENDING",
+  sent: "SENT",
+  failed: "FAILED",
+};
+
+const STATUS_COLOR: Record<ScheduledSendStatus, string> = {
+  scheduled: C.dim,
+  awaiting_approval: C.warn,
+  sending: C.accent,
+  sent: C.ok,
+  failed: C.danger,
+};
+
+const REPEAT_OPTIONS: Array<{ label: string; everyMs?: number }> = [
+  { label: "ONCE" },
+  { label: "DAILY", everyMs: 86_400_000 },
+  { label: "WEEKLY", everyMs: 7 * 86_400_000 },
+  { label: "30 DAYS", everyMs: 30 * 86_400_000 },
+];
+
+export function ScheduledSendsPanel({ address, network, hideBalances = false, onCompleted }: Props) {
+  const [schedules, setSchedules] = useState<ScheduledSend[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [to, setTo] = useState("");
+  const [amount, setAmount] = useState("");
+  const [triggerKind, setTriggerKind] = useState<ScheduledSendTrigger["kind"]>("time");
+  const [at, setAt] = useState("");
+  const [daaScore, setDaaScore] = useState("");
+  const [repeatIndex, setRepeatIndex] = useState(0);
+  const [everyDaa, setEveryDaa] = useState("");
+  const [autoSign, setAutoSign] = useState(false);
+  const [label, setLabel] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scheduled, setScheduled] = useState<ScheduledModule | null>(null);
+
+  useEffect(() => {
+    loadScheduled().then(setScheduled).catch(() => {});
+  }, []);
+
+  const reload = useCallback(async () => {
+    const all = await getScheduledSends();
+    setSchedules(all.filter((s) => s.fromAddress === address && s.network === network));
+  }, [address, network]);
+
+  // The service worker and auto-sign runs update schedules in the background.
+  useEffect(() => {
+    reload().catch(() => {});
+    const onChanged = (changes: Record<string, unknown>, areaName: string) => {
+      if (areaName === "local" && changes?.[SCHEDULED_SENDS_STORAGE_KEY]) reload().catch(() => {});
+    };
+    chrome.storage.onChanged.addListener(onChanged as any);
+    return () => chrome.storage.onChanged.removeListener(onChanged as any);
+  }, [reload]);
+
+  const amountNum = Number(amount);
+  const toValid = isKaspaAddress(to.trim(), [kaspaPrefixForNetwork(network)]);
+  const triggerReady = triggerKind === "time" ? Boolean(at) : /^\d+$/.test(daaScore.trim());
+  const canSave = toValid && amountNum > 0 && triggerReady && !saving;
+  const kas = (value: number) => (hideBalances ? "•••• KAS" : `${fmt(value, 4)} KAS`);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const mod = await loadScheduled();
+      const everyMs = REPEAT_OPTIONS[repeatIndex].everyMs;
+      const trigger: ScheduledSendTrigger = triggerKind === "time"
+        ? { kind: "time", atMs: new Date(at).getTime(), ...(everyMs ? { everyMs } : {}) }
+        : { kind: "daa", daaScore: daaScore.trim(), ...(everyDaa.trim() ? { everyDaa: everyDaa.trim() } : {}) };
+      await mod.scheduleSend(
+        { fromAddress: address, network, to, amountKas: amountNum, trigger, autoSign, label },
+        await mod.fetchScheduleChainState(network),
+      );
+      setShowForm(false);
+      setTo("");
+      setAmount("");
+      setAt("");
+      setDaaScore("");
+      setEveryDaa("");
+      setLabel("");
+      setAutoSign(false);
+      await reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApprove = async (id: string) => {
+    if (runningId) return;
+    setRunningId(id);
+    setError(null);
+    try {
+      const mod = await loadScheduled();
+      await mod.runScheduledSend(id, await mod.fetchScheduleChainState(network));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setRunningId(null);
+      await reload().catch(() => {});
+      onCompleted?.();
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    await removeScheduledSend(id);
+    await reload();
+  };
+
+  return (
+    <div style={sectionCard("default")}>
+      <div style={{ marginBottom: 9, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+        <div style={sectionKicker}>SCHEDULED SENDS</div>
+        <button
+          onClick={() => setShowForm((v) => !v)}
+          style={{ ...outlineButton(C.accent, true), padding: "5px 8px", fontSize: 8, color: C.accent }}
+        >
+          {showForm ? "CLOSE" : "+ SCHEDULE"}
+        </button>
+      </div>
+
+      {showForm && (
+        <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 6, padding: "8px 9px", marginBottom: 8 }}>
+          <input
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder={`Recipient ${kaspaPrefixForNetwork(network)}:qp…`}
+            style={{ ...monoInput(Boolean(to) && !toValid), padding: "5px 7px", fontSize: 8 }}
+          />
+          <div style={{ display: "flex", gap: 6 }}>
+            <input
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder="Amount (KAS)"
+              type="number"
+              min="0"
+              style={{ ...monoInput(false), flex: 1, padding: "5px 7px", fontSize: 8 }}
+            />
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (optional)"
+              style={{ ...monoInput(false), flex: 1, padding: "5px 7px", fontSize: 8 }}
+            />
+          </div>
+
+          <div style={{ display: "flex", gap: 6 }}>
+            {(["time", "daa"] as const).map((kind) => (
+              <button
+                key={kind}
+                onClick={() => setTriggerKind(kind)}
+                style={{ ...outlineButton(C.accent, triggerKind === kind), flex: 1, padding: "5px 0", fontSize: 8, color: triggerKind === kind ? C.accent : C.dim }}
+              >
+                {kind === "time" ? "AT TIME" : "AT DAA SCORE"}
+              </button>
+            ))}
+          </div>
+
+          {triggerKind === "time" ? (
+            <>
+              <input
+                value={at}
+                onChange={(e) => setAt(e.target.value)}
+                type="datetime-local"
+                style={{ ...monoInput(false), padding: "5px 7px", fontSize: 8 }}
+              />
+              <div style={{ display: "flex", gap: 4 }}>
+                {REPEAT_OPTIONS.map((option, index) => (
+                  <button
+                    key={option.label}
+                    onClick={() => setRepeatIndex(index)}
+                    style={{ ...outlineButton(C.accent, repeatIndex === index), flex: 1, padding: "4px 0", fontSize: 7, color: repeatIndex === index ? C.accent : C.dim }}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div style={{ display: "flex", gap: 6 }}>
+              <input
+                value={daaScore}
+                onChange={(e) => setDaaScore(e.target.value)}
+                placeholder="DAA score"
+                style={{ ...monoInput(Boolean(daaScore) && !/^\d+$/.test(daaScore.trim())), flex: 1, padding: "5px 7px", fontSize: 8 }}
+              />
+              <input
+                value={everyDaa}
+                onChange={(e) => setEveryDaa(e.target.value)}
+                placeholder="Repeat every (DAA)"
+                style={{ ...monoInput(false), flex: 1, padding: "5px 7px", fontSize: 8 }}
+              />
+            </div>
+          )}
+
+          <label style={{ display: "flex", alignItems: "center", gap: 6, cursor: "pointer", fontSize: 8, color: C.dim, lineHeight: 1.4 }}>
+            <input
+              type="checkbox"
+              checked={autoSign}
+              onChange={(e) => setAutoSign(e.target.checked)}
+              style={{ accentColor: C.accent, width: 11, height: 11, cursor: "pointer" }}
+            />
+            Sign automatically while the wallet is unlocked (otherwise a notification asks for approval)
+          </label>
+
+          <button onClick={handleSave} disabled={!canSave} style={{ ...primaryButton(canSave), padding: "7px 0", fontSize: 9 }}>
+            {saving ? "SAVING…" : "SCHEDULE SEND →"}
+          </button>
+        </div>
+      )}
+
+      {error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4, marginBottom: 6 }}>{error}</div>}
+
+      {schedules.length === 0 && !showForm && (
+        <div style={{ ...insetCard(), fontSize: 8, color: C.dim, padding: "9px 10px" }}>
+          No scheduled sends for this wallet on {network}.
+        </div>
+      )}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+        {schedules.map((s) => {
+          const approvable = s.status === "awaiting_approval" || s.status === "failed";
+          return (
+            <div key={s.id} style={{ ...insetCard(), padding: "8px 9px", display: "flex", flexDirection: "column", gap: 4 }}>
+              <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+                <div style={{ display: "flex", alignItems: "center", gap: 5, minWidth: 0 }}>
+                  <span style={chip(STATUS_COLOR[s.status], true)}>{STATUS_LABEL[s.status]}</span>
+                  {s.autoSign && <span style={chip(C.dim)}>AUTO</span>}
+                  <span style={{ fontSize: 8, color: C.text, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>{s.label}</span>
+                </div>
+                <span style={{ fontSize: 10, color: C.accent, fontWeight: 700, whiteSpace: "nowrap", ...mono }}>{kas(s.amountKas)}</span>
+              </div>
+              <div style={{ fontSize: 8, color: C.dim, ...mono }}>
+                to {shortAddr(s.to)}
+                {s.runs > 0 ? ` · ${s.runs} run${s.runs === 1 ? "" : "s"}` : ""}
+              </div>
+              <div style={{ fontSize: 8, color: C.muted, ...mono }}>{scheduled?.describeScheduleTrigger(s.trigger) ?? ""}</div>
+              {s.error && <div style={{ fontSize: 8, color: C.danger, lineHeight: 1.4 }}>{s.error}</div>}
+              <div style={{ display: "flex", gap: 6 }}>
+                {approvable && (
+                  <button
+                    onClick={() => handleApprove(s.id)}
+                    disabled={Boolean(runningId)}
+                    style={{ ...primaryButton(!runningId), flex: 1, padding: "5px 0", fontSize: 8 }}
+                  >
+                    {runningId === s.id ? "SENDING…" : s.status === "failed" ? "RETRY" : "APPROVE & SEND"}
+                  </button>
+                )}
+                {s.status !== "sending" && (
+                  <button
+                    onClick={() => handleRemove(s.id)}
+                    disabled={runningId === s.id}
+                    style={{ ...outlineButton(C.dim, false), flex: approvable ? undefined : 1, padding: "5px 8px", fontSize: 8, color: C.dim }}
+                  >
+                    {s.status === "sent" ? "DISMISS" : "CANCEL"}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,22 @@
-// SecurityTab — password-gated phrase reveal, change password, reset wallet.
+// SecurityTab — password-gated phrase reveal, change password, accounts, reset wallet.
 // The mnemonic is NEVER passed as a prop; it is read from the in-memory
 // session (unlockVault) only when the user explicitly authenticates here.
 
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { C, mono } from "../../src/tokens";
 import { fmt, shortAddr } from "../../src/helpers";
-import { unlockVault, changePassword, resetWallet } from "../vault/vault";
+import {
+  unlockVault,
+  changePassword,
+  resetWallet,
+  getSession,
+  getVaultAccounts,
+  addVaultAccount,
+  renameVaultAccount,
+  nextAccountDerivation,
+} from "../vault/vault";
+import { importWallet } from "../../src/wallet/KaspaWalletManager";
+import { formatKaspaDerivationPath } from "../../src/wallet/derivation";
 import {
   describeKaspaProviderPreset,
   getKaspaBackendSelection,
@@ -31,6 +42,12 @@ import {
   type KaspaRpcProviderPreset,
 } from "../shared/storage";
 import { ensureHostPermissionsForEndpoints } from "../shared/hostPermissions";
+import { ConnectedSitesPanel } from "./ConnectedSitesPanel";
+import { WatchOnlyPanel } from "./WatchOnlyPanel";
+import { OfflineSigningPanel } from "./OfflineSigningPanel";
+import { MultisigPanel } from "./MultisigPanel";
+import { VaultBackupPanel } from "./VaultBackupPanel";
+import { MnemonicSharesPanel } from "./MnemonicSharesPanel";
 import {
   getLocalNodeControlBaseUrl,
   getLocalNodeLogsTail,
@@ -59,6 +76,16 @@ interface Props {
   address: string | null;
   network: string;
   isManagedWallet: boolean;
+  /** Called after the vault account list changes (add/rename). */
+  onAccountsChanged?: () => void;
+  /** Make another vault account active. */
+  onSwitchAccount?: (accountId: string) => Promise<void> | void;
+  /** Watch-only account being viewed in the popup, if any. */
+  activeWatchOnlyId?: string | null;
+  /** Called after watch-only addresses are added or removed. */
+  onWatchOnlyChanged?: () => Promise<void> | void;
+  /** View a watch-only account, or null to return to the vault account. */
+  onViewWatchOnly?: (id: string | null) => Promise<void> | void;
   autoLockMinutes: number;
   persistUnlockSessionEnabled: boolean;
   onAutoLockMinutesChange: (minutes: number) => Promise<void> | void;
@@ -66,7 +93,7 @@ interface Props {
   onLock: () => void;
 }
 
-type Panel = "none" | "reveal" | "change_pw" | "reset";
+type Panel = "none" | "reveal" | "change_pw" | "accounts" | "sites" | "watch" | "offline_sign" | "multisig" | "backup" | "shares" | "reset";
 type RpcConnectorState = "checking" | "connected" | "degraded" | "disconnected";
 
 const LOCAL_NODE_PROFILES: LocalNodeNetworkProfile[] = ["mainnet", "testnet-10", "testnet-11", "testnet-12"];
@@ -134,6 +161,11 @@ export function SecurityTab({
   address,
   network,
   isManagedWallet,
+  onAccountsChanged,
+  onSwitchAccount,
+  activeWatchOnlyId = null,
+  onWatchOnlyChanged,
+  onViewWatchOnly,
   autoLockMinutes,
   persistUnlockSessionEnabled,
   onAutoLockMinutesChange,
@@ -158,6 +190,13 @@ export function SecurityTab({
 
   // Reset state
   const [resetConfirm, setResetConfirm] = useState(false);
+
+  // Accounts state
+  const [accountLabel, setAccountLabel] = useState("");
+  const [accountPw, setAccountPw] = useState("");
+  const [accountErr, setAccountErr] = useState<string | null>(null);
+  const [accountLoading, setAccountLoading] = useState(false);
+  const [renamingAccountId, setRenamingAccountId] = useState<string | null>(null);
   const [sessionPrefsLoading, setSessionPrefsLoading] = useState(false);
   const [rpcPreset, setRpcPreset] = useState<KaspaRpcProviderPreset>("official");
   const [customRpcInput, setCustomRpcInput] = useState("");
@@ -498,6 +537,55 @@ export function SecurityTab({
     }
   };
 
+  // ── Accounts ─────────────────────────────────────────────────────────────────
+  // Read straight from the in-memory session; the parent re-renders this tab
+  // after every account change via onAccountsChanged/onSwitchAccount.
+  const vaultAccounts = getVaultAccounts();
+  const activeAccountId = getSession()?.activeAccountId ?? vaultAccounts[0]?.id;
+  const suggestedDerivation = nextAccountDerivation(vaultAccounts);
+
+  const accountErrorMessage = (msg: string) => {
+    if (msg === "INVALID_PASSWORD") return "Incorrect password.";
+    if (msg === "ACCOUNT_EXISTS") return "That account already exists in this vault.";
+    if (msg === "WALLET_LOCKED") return "Wallet is locked.";
+    return "Failed to update accounts. Try again.";
+  };
+
+  const handleAccountSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAccountErr(null);
+    const session = getSession();
+    if (!session?.mnemonic) { setAccountErr(accountErrorMessage("WALLET_LOCKED")); return; }
+    setAccountLoading(true);
+    try {
+      if (renamingAccountId) {
+        await renameVaultAccount(accountPw, renamingAccountId, accountLabel);
+      } else {
+        const derived = await importWallet(session.mnemonic, network, {
+          mnemonicPassphrase: session.mnemonicPassphrase,
+          derivation: suggestedDerivation,
+        });
+        await addVaultAccount(accountPw, {
+          label: accountLabel,
+          address: derived.address,
+          derivation: derived.derivation ?? suggestedDerivation,
+        });
+      }
+      setAccountLabel(""); setAccountPw(""); setRenamingAccountId(null);
+      onAccountsChanged?.();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setAccountErr(accountErrorMessage(msg));
+      setAccountPw("");
+    } finally {
+      setAccountLoading(false);
+    }
+  };
+
+  const handleUseAccount = async (accountId: string) => {
+    await onSwitchAccount?.(accountId);
+  };
+
   // ── Reset wallet ─────────────────────────────────────────────────────────────
   const handleReset = async () => {
     if (!resetConfirm) { setResetConfirm(true); return; }
@@ -516,6 +604,7 @@ export function SecurityTab({
     setRevealPw(""); setRevealErr(null);
     setOldPw(""); setNewPw(""); setConfirmPw("");
     setChangePwErr(null); setChangePwOk(false);
+    setAccountLabel(""); setAccountPw(""); setAccountErr(null); setRenamingAccountId(null);
     setResetConfirm(false);
   };
 
@@ -1479,6 +1568,27 @@ export function SecurityTab({
               <button onClick={() => setPanel("reveal")} style={actionBtn(C.accent)}>
                 🔑 REVEAL SEED PHRASE
               </button>
+              <button onClick={() => setPanel("accounts")} style={actionBtn(C.dim)}>
+                👥 ACCOUNTS ({vaultAccounts.length})
+              </button>
+              <button onClick={() => setPanel("sites")} style={actionBtn(C.dim)}>
+                🌐 CONNECTED SITES
+              </button>
+              <button onClick={() => setPanel("watch")} style={actionBtn(C.dim)}>
+                👁 WATCH-ONLY ADDRESSES
+              </button>
+              <button onClick={() => setPanel("offline_sign")} style={actionBtn(C.dim)}>
+                📝 SIGN OFFLINE TRANSACTION
+              </button>
+              <button onClick={() => setPanel("multisig")} style={actionBtn(C.dim)}>
+                🔏 MULTISIG ACCOUNTS
+              </button>
+              <button onClick={() => setPanel("backup")} style={actionBtn(C.dim)}>
+                💾 EXPORT ENCRYPTED BACKUP
+              </button>
+              <button onClick={() => setPanel("shares")} style={actionBtn(C.dim)}>
+                🧩 SPLIT INTO SHARES
+              </button>
               <button onClick={() => setPanel("change_pw")} style={actionBtn(C.dim)}>
                 🔐 CHANGE PASSWORD
               </button>
@@ -1580,6 +1690,110 @@ export function SecurityTab({
             </div>
           )}
 
+          {/* ── ACCOUNTS PANEL ────────────────────────────────────────────── */}
+          {panel === "accounts" && (
+            <div style={sectionCard("default")}>
+              <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+                <span style={sectionTitle}>ACCOUNTS</span>
+                <button onClick={closePanel} style={{ background: "none", border: "none", color: C.dim, fontSize: 8, cursor: "pointer", ...mono }}>✕ close</button>
+              </div>
+
+              <div style={{ display: "flex", flexDirection: "column", gap: 5, marginBottom: 10 }}>
+                {vaultAccounts.map((account) => {
+                  const isActive = account.id === activeAccountId;
+                  return (
+                    <div key={account.id} style={{ ...insetCard(), padding: "7px 9px", display: "flex", alignItems: "center", gap: 8 }}>
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <div style={{ fontSize: 9, color: isActive ? C.accent : C.text, fontWeight: 700, letterSpacing: "0.06em" }}>
+                          {account.label}
+                        </div>
+                        <div style={{ fontSize: 8, color: C.dim, marginTop: 2 }}>
+                          {shortAddr(account.address)} · {formatKaspaDerivationPath(account.derivation)}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => { setRenamingAccountId(account.id); setAccountLabel(account.label); setAccountErr(null); }}
+                        style={{ ...outlineButton(C.dim, true), padding: "4px 7px", fontSize: 8, color: C.dim }}
+                      >RENAME</button>
+                      <button
+                        onClick={() => { void handleUseAccount(account.id); }}
+                        disabled={isActive}
+                        style={{
+                          ...outlineButton(isActive ? C.ok : C.accent, true),
+                          padding: "4px 7px",
+                          fontSize: 8,
+                          color: isActive ? C.ok : C.accent,
+                          cursor: isActive ? "default" : "pointer",
+                        }}
+                      >{isActive ? "ACTIVE" : "USE"}</button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <form onSubmit={handleAccountSubmit} style={{ display: "flex", flexDirection: "column", gap: 7 }}>
+                <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5 }}>
+                  {renamingAccountId
+                    ? "Enter a new label and your password to re-encrypt the vault."
+                    : `New account derives from your seed at ${formatKaspaDerivationPath(suggestedDerivation)}.`}
+                </div>
+                <input value={accountLabel} onChange={e => setAccountLabel(e.target.value)}
+                  placeholder={renamingAccountId ? "Account label" : `Account ${vaultAccounts.length + 1}`}
+                  maxLength={32} disabled={accountLoading} style={inputStyle()} />
+                <input type="password" value={accountPw} onChange={e => setAccountPw(e.target.value)}
+                  placeholder="Your password" disabled={accountLoading} style={inputStyle(Boolean(accountErr))} />
+                {accountErr && <div style={{ fontSize: 8, color: C.danger }}>{accountErr}</div>}
+                <div style={{ display: "flex", gap: 6 }}>
+                  {renamingAccountId && (
+                    <button
+                      type="button"
+                      onClick={() => { setRenamingAccountId(null); setAccountLabel(""); setAccountErr(null); }}
+                      style={{ ...outlineButton(C.dim, true), flex: 1, padding: "8px 0", color: C.dim }}
+                    >CANCEL</button>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={!accountPw || accountLoading}
+                    style={{
+                      ...primaryButton(Boolean(accountPw) && !accountLoading),
+                      flex: 1,
+                      padding: "8px 0",
+                      cursor: accountPw && !accountLoading ? "pointer" : "not-allowed",
+                    }}
+                  >{accountLoading ? "RE-ENCRYPTING…" : renamingAccountId ? "RENAME ACCOUNT" : "ADD ACCOUNT"}</button>
+                </div>
+              </form>
+            </div>
+          )}
+
+          {/* ── CONNECTED SITES PANEL ─────────────────────────────────────── */}
+          {panel === "sites" && <ConnectedSitesPanel onClose={closePanel} />}
+
+          {/* ── WATCH-ONLY PANEL ──────────────────────────────────────────── */}
+          {panel === "watch" && (
+            <WatchOnlyPanel
+              network={network}
+              activeId={activeWatchOnlyId}
+              onClose={closePanel}
+              onChanged={onWatchOnlyChanged}
+              onView={onViewWatchOnly}
+            />
+          )}
+
+          {/* ── OFFLINE SIGNING PANEL ─────────────────────────────────────── */}
+          {panel === "offline_sign" && (
+            <OfflineSigningPanel mode="sign" network={network} onClose={closePanel} />
+          )}
+
+          {/* ── MULTISIG PANEL ────────────────────────────────────────────── */}
+          {panel === "multisig" && <MultisigPanel network={network} onClose={closePanel} />}
+
+          {/* ── ENCRYPTED BACKUP PANEL ────────────────────────────────────── */}
+          {panel === "backup" && <VaultBackupPanel onClose={closePanel} />}
+
+          {/* ── SEED PHRASE SHARES PANEL ──────────────────────────────────── */}
+          {panel === "shares" && <MnemonicSharesPanel onClose={closePanel} />}
+
           {/* ── RESET WALLET PANEL ────────────────────────────────────────── */}
           {panel === "reset" && (
             <div style={{ ...sectionCard("danger"), backgroundColor: C.dLow }}>
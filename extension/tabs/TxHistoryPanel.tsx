@@ -0,0 +1,159 @@
+// TxHistoryPanel — Wallet tab activity card: the account's full transaction
+// history (incoming included) merged with locally built txs, paged from the
+// storage cache with "load more".
+
+import { useEffect, useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { fmt, shortAddr } from "../../src/helpers";
+import { sompiToKas } from "../utxo/utxoSync";
+import { listAccountAddresses } from "../utxo/hdAddresses";
+import {
+  getTxHistory,
+  TX_HISTORY_PAGE_SIZE,
+  type TxHistoryEntry,
+  type TxHistoryKind,
+} from "../tx/history";
+import { chip, insetCard, outlineButton, sectionCard, sectionKicker } from "../popup/surfaces";
+
+interface Props {
+  address: string;
+  network: string;
+  explorerBase: string;
+  hideBalances?: boolean;
+  /** Bump to force a refetch of the newest page (e.g. after a send). */
+  refreshNonce?: number;
+}
+
+const KIND_LABEL: Record<TxHistoryKind, string> = {
+  send: "SENT",
+  receive: "RECEIVED",
+  self: "SELF",
+  agent: "AGENT",
+  swap: "SWAP",
+};
+
+const KIND_COLOR: Record<TxHistoryKind, string> = {
+  send: C.warn,
+  receive: C.ok,
+  self: C.dim,
+  agent: C.accent,
+  swap: C.purple,
+};
+
+function timeLabel(ts: number): string {
+  if (!ts) return "—";
+  const d = new Date(ts);
+  return `${d.toLocaleDateString()} ${d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+}
+
+export function TxHistoryPanel({ address, network, explorerBase, hideBalances = false, refreshNonce = 0 }: Props) {
+  const [entries, setEntries] = useState<TxHistoryEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [limit, setLimit] = useState(TX_HISTORY_PAGE_SIZE);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [manualRefresh, setManualRefresh] = useState(0);
+
+  useEffect(() => { setLimit(TX_HISTORY_PAGE_SIZE); }, [address, network]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    (async () => {
+      try {
+        const ownAddresses = await listAccountAddresses(address, network).catch(() => [address]);
+        const page = await getTxHistory(address, network, {
+          ownAddresses,
+          limit,
+          refresh: manualRefresh > 0 || refreshNonce > 0,
+        });
+        if (cancelled) return;
+        setEntries(page.entries);
+        setHasMore(page.hasMore);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [address, network, limit, manualRefresh, refreshNonce]);
+
+  const amountLabel = (entry: TxHistoryEntry) => {
+    if (hideBalances) return "•••• KAS";
+    const sign = entry.netSompi > 0n ? "+" : entry.netSompi < 0n ? "−" : "";
+    const abs = entry.netSompi < 0n ? -entry.netSompi : entry.netSompi;
+    return `${sign}${fmt(sompiToKas(abs), 4)} KAS`;
+  };
+
+  return (
+    <div style={sectionCard("default")}>
+      <div style={{ marginBottom: 9, display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+        <div style={sectionKicker}>ACTIVITY</div>
+        <button
+          onClick={() => setManualRefresh((v) => v + 1)}
+          disabled={loading}
+          style={{ ...outlineButton(C.accent, true), padding: "5px 8px", fontSize: 8, color: C.accent }}
+        >
+          {loading ? "SYNC…" : "REFRESH"}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ ...insetCard(), fontSize: 8, color: C.danger, padding: "9px 10px", marginBottom: 8 }}>{error}</div>
+      )}
+
+      {!loading && entries.length === 0 && !error && (
+        <div style={{ ...insetCard(), fontSize: 8, color: C.dim, padding: "9px 10px" }}>
+          No transactions for this wallet on {network} yet.
+        </div>
+      )}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+        {entries.map((entry) => (
+          <button
+            key={entry.txId}
+            data-testid="tx-history-row"
+            onClick={() => chrome.tabs.create({ url: `${explorerBase}/txs/${entry.txId}` })}
+            style={{ ...insetCard(), padding: "8px 9px", textAlign: "left", cursor: "pointer", width: "100%", ...mono }}
+          >
+            <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 }}>
+              <div style={{ minWidth: 0, display: "flex", flexDirection: "column", gap: 3 }}>
+                <div style={{ display: "flex", alignItems: "center", gap: 5 }}>
+                  <span style={chip(KIND_COLOR[entry.kind], true)}>{KIND_LABEL[entry.kind]}</span>
+                  {entry.status !== "confirmed" && (
+                    <span style={chip(entry.status === "failed" ? C.danger : C.warn)}>
+                      {entry.status === "failed" ? "FAILED" : "PENDING"}
+                    </span>
+                  )}
+                  {entry.receiptHex && <span style={chip(C.dim)}>RECEIPT</span>}
+                </div>
+                <div style={{ fontSize: 8, color: C.dim, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
+                  {entry.counterparties.length > 0
+                    ? `${entry.kind === "receive" ? "from" : "to"} ${shortAddr(entry.counterparties[0])}${entry.counterparties.length > 1 ? ` +${entry.counterparties.length - 1}` : ""}`
+                    : entry.txId.slice(0, 16) + "…"}
+                  {entry.agentJobId ? ` · job ${entry.agentJobId}` : ""}
+                </div>
+                <div style={{ fontSize: 8, color: C.muted }}>{timeLabel(entry.timestamp)}</div>
+              </div>
+              <div style={{ fontSize: 10, fontWeight: 700, color: entry.netSompi > 0n ? C.ok : C.text, whiteSpace: "nowrap" }}>
+                {amountLabel(entry)}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {hasMore && (
+        <button
+          onClick={() => setLimit((v) => v + TX_HISTORY_PAGE_SIZE)}
+          disabled={loading}
+          style={{ ...outlineButton(C.dim, true), width: "100%", marginTop: 8, padding: "6px 0", fontSize: 8, color: C.dim }}
+        >
+          {loading ? "LOADING…" : "LOAD MORE"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+// VaultBackupPanel — Security tab export of a password-encrypted backup file
+// (vault/backup.ts). Restoring happens on the first-run screen.
+
+import { useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { downloadText } from "../shared/download";
+import { monoInput, primaryButton, sectionCard, sectionTitle } from "../popup/surfaces";
+
+interface Props {
+  onClose: () => void;
+}
+
+type BackupModule = typeof import("../vault/backup");
+let backupPromise: Promise<BackupModule> | null = null;
+
+function loadBackup(): Promise<BackupModule> {
+  if (!backupPromise) {
+    backupPromise = import("../vault/backup");
+  }
+  return backupPromise;
+}
+
+export function VaultBackupPanel({ onClose }: Props) {
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedAs, setSavedAs] = useState<string | null>(null);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password || loading) return;
+    setLoading(true);
+    setError(null);
+    setSavedAs(null);
+    try {
+      const mod = await loadBackup();
+      const text = await mod.exportVaultBackup(password);
+      const filename = mod.vaultBackupFilename();
+      downloadText(filename, text);
+      setSavedAs(filename);
+      setPassword("");
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg === "INVALID_PASSWORD" ? "Incorrect password." : msg);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div style={sectionCard("default")}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+        <span style={sectionTitle}>ENCRYPTED BACKUP</span>
+        <button onClick={onClose} style={{ background: "none", border: "none", color: C.dim, fontSize: 8, cursor: "pointer", ...mono }}>✕ close</button>
+      </div>
+      <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5, marginBottom: 8 }}>
+        Exports your seed phrase, passphrase, accounts, import address book, connected-site permissions and agents
+        as one file encrypted with your wallet password. Anyone with the file and the password controls the wallet.
+      </div>
+      <form onSubmit={handleExport} style={{ display: "flex", flexDirection: "column", gap: 7 }}>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Wallet password"
+          disabled={loading}
+          style={{ ...monoInput(Boolean(error)), padding: "7px 9px", fontSize: 9 }}
+        />
+        {error && <div style={{ fontSize: 8, color: C.danger }}>{error}</div>}
+        {savedAs && <div style={{ fontSize: 8, color: C.ok, ...mono }}>✓ Saved {savedAs}</div>}
+        <button
+          type="submit"
+          disabled={!password || loading}
+          style={{ ...primaryButton(Boolean(password) && !loading), padding: "8px 0", cursor: password && !loading ? "pointer" : "not-allowed" }}
+        >{loading ? "ENCRYPTING…" : "EXPORT BACKUP"}</button>
+      </form>
+    </div>
+  );
+}
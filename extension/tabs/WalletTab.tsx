@@ -2,17 +2,33 @@
 // for managed wallets, and address-display receive for all wallets.
 // Stablecoin rows are scaffolded via TokenRegistry; enabled=false shows disabled state.
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import QRCode from "qrcode";
 import { C, mono } from "../../src/tokens";
 import { fmt, isKaspaAddress } from "../../src/helpers";
 import { fetchKasUsdPrice } from "../shared/api";
-import { fetchDagInfo, NETWORK_BPS } from "../network/kaspaClient";
+import { estimateTxMass, fetchDagInfo, NETWORK_BPS } from "../network/kaspaClient";
+import { DEFAULT_FEE_TIER, FEE_TIER_LABELS, type FeeTier } from "../network/feeTiers";
 import { getSession } from "../vault/vault";
 import { createExecutionRunId } from "../tx/executionTelemetry";
-import { updatePendingTx } from "../tx/store";
-import { getOrSyncUtxos, sompiToKas, syncUtxos } from "../utxo/utxoSync";
+import { isReplaceable, updatePendingTx } from "../tx/store";
+import { sompiToKas } from "../utxo/utxoSync";
+import { getOrSyncAccountUtxos, hdAccountFromSession, nextReceiveAddress } from "../utxo/hdAddresses";
+import {
+  COIN_SELECTION_STRATEGIES,
+  COIN_SELECTION_STRATEGY_IDS,
+  DEFAULT_COIN_SELECTION,
+  type CoinSelectionStrategyId,
+} from "../utxo/coinSelection";
 import { getAllTokens } from "../tokens/registry";
+import { ConsolidationPanel } from "./ConsolidationPanel";
+import { CovenantSpendPanel } from "./CovenantSpendPanel";
+import { ScheduledSendsPanel } from "./ScheduledSendsPanel";
+import { Krc20TransferPanel } from "./Krc20TransferPanel";
+import { Krc721GalleryPanel } from "./Krc721GalleryPanel";
+import { OfflineSigningPanel } from "./OfflineSigningPanel";
+import { FeeTierPicker } from "./FeeTierPicker";
+import { TxHistoryPanel } from "./TxHistoryPanel";
 import {
   fetchKrcPortfolio,
   loadPrefetchedKrcPortfolio,
@@ -22,7 +38,8 @@ import { downsampleChartPoints } from "../portfolio/chartDownsample";
 import type { KrcPortfolioToken } from "../portfolio/types";
 import { resolveTokenFromAddress, resolveTokenFromQuery } from "../swap/tokenResolver";
 import type { KaspaTokenStandard, SwapCustomToken } from "../swap/types";
-import type { PendingTx } from "../tx/types";
+import type { CoinSelectionQuote, FeeTierQuote } from "../tx/builder";
+import type { PendingTx, ReplacementKind } from "../tx/types";
 import type { TokenId } from "../tokens/types";
 import type { Utxo } from "../utxo/types";
 import {
@@ -48,6 +65,8 @@ interface Props {
   modeRequestId?: number;
   onModeConsumed?: () => void;
   onBalanceInvalidated?: () => void;
+  /** Address is a watch-only account: view balances and history, never sign. */
+  watchOnly?: boolean;
 }
 
 type SendStep =
@@ -116,6 +135,16 @@ function loadTxKernel(): Promise<TxKernelModule> {
   return txKernelPromise;
 }
 
+type TxBuilderModule = typeof import("../tx/builder");
+let txBuilderPromise: Promise<TxBuilderModule> | null = null;
+
+function loadTxBuilder(): Promise<TxBuilderModule> {
+  if (!txBuilderPromise) {
+    txBuilderPromise = import("../tx/builder");
+  }
+  return txBuilderPromise;
+}
+
 export function WalletTab({
   address,
   balance,
@@ -126,11 +155,18 @@ export function WalletTab({
   modeRequestId,
   onModeConsumed,
   onBalanceInvalidated,
+  watchOnly = false,
 }: Props) {
   const [sendStep, setSendStep] = useState<SendStep>("idle");
   const [showReceive, setShowReceive] = useState(false);
   const [sendTo, setSendTo] = useState("");
   const [sendAmt, setSendAmt] = useState("");
+  const [coinSelection, setCoinSelection] = useState<CoinSelectionStrategyId>(DEFAULT_COIN_SELECTION);
+  const [selectionQuotes, setSelectionQuotes] = useState<CoinSelectionQuote[] | null>(null);
+  const [selectionQuotesBusy, setSelectionQuotesBusy] = useState(false);
+  const [selectionQuotesError, setSelectionQuotesError] = useState<string | null>(null);
+  const [feeTier, setFeeTier] = useState<FeeTier>(DEFAULT_FEE_TIER);
+  const [feeTierQuotes, setFeeTierQuotes] = useState<FeeTierQuote[] | null>(null);
   const [pendingTx, setPendingTx] = useState<PendingTx | null>(null);
   const [dryRunErrors, setDryRunErrors] = useState<string[]>([]);
   const [resultTxId, setResultTxId] = useState<string | null>(null);
@@ -138,6 +174,9 @@ export function WalletTab({
   const [addrCopied, setAddrCopied] = useState(false);
   const [receiveQrDataUrl, setReceiveQrDataUrl] = useState<string | null>(null);
   const [receiveQrError, setReceiveQrError] = useState<string | null>(null);
+  const [rotatedReceiveAddress, setRotatedReceiveAddress] = useState<string | null>(null);
+  const [receiveRotateBusy, setReceiveRotateBusy] = useState(false);
+  const [receiveRotateError, setReceiveRotateError] = useState<string | null>(null);
   const [utxos, setUtxos] = useState<Utxo[]>([]);
   const [utxoLoading, setUtxoLoading] = useState(false);
   const [utxoError, setUtxoError] = useState<string | null>(null);
@@ -163,6 +202,19 @@ export function WalletTab({
   const [krc721ChartMode, setKrc721ChartMode] = useState<"floor" | "volume">("floor");
   const [krc721ChartWindow, setKrc721ChartWindow] = useState<number>(KRC721_CHART_DEFAULT_WINDOW);
   const [sendExecutionRunId, setSendExecutionRunId] = useState<string | null>(null);
+  const [replacementTx, setReplacementTx] = useState<PendingTx | null>(null);
+  const [replacementBusy, setReplacementBusy] = useState(false);
+  const [replacementError, setReplacementError] = useState<string | null>(null);
+  // Id of the tx whose updates drive the send UI — after a speed-up or cancel,
+  // the replaced tx's confirmation poll keeps running but no longer owns it.
+  const trackedTxIdRef = useRef<string | null>(null);
+
+  // Rotated receive addresses belong to the account/network they were issued for.
+  useEffect(() => {
+    setRotatedReceiveAddress(null);
+    setReceiveRotateError(null);
+  }, [address, network]);
+  const receiveAddress = rotatedReceiveAddress ?? address;
 
   // Open send/receive panel when triggered from parent (hero buttons)
   useEffect(() => {
@@ -187,14 +239,14 @@ export function WalletTab({
     let cancelled = false;
 
     const makeReceiveQr = async () => {
-      if (!showReceive || !address) {
+      if (!showReceive || !receiveAddress) {
         setReceiveQrDataUrl(null);
         setReceiveQrError(null);
         return;
       }
       setReceiveQrError(null);
       try {
-        const dataUrl = await QRCode.toDataURL(address, {
+        const dataUrl = await QRCode.toDataURL(receiveAddress, {
           errorCorrectionLevel: "M",
           margin: 1,
           width: 220,
@@ -217,7 +269,7 @@ export function WalletTab({
     return () => {
       cancelled = true;
     };
-  }, [showReceive, address]);
+  }, [showReceive, receiveAddress]);
 
   useEffect(() => {
     let alive = true;
@@ -237,9 +289,7 @@ export function WalletTab({
       if (force) setUtxoError(null);
 
       try {
-        const utxoSet = force
-          ? await syncUtxos(address, network)
-          : await getOrSyncUtxos(address, network);
+        const utxoSet = await getOrSyncAccountUtxos(address, network, { force });
         if (!alive) return;
 
         const sorted = [...utxoSet.utxos].sort((a, b) => {
@@ -387,7 +437,7 @@ export function WalletTab({
   }, [krcPortfolioTokens]);
 
   const session = getSession();
-  const isManaged = Boolean(session?.mnemonic);
+  const isManaged = Boolean(session?.mnemonic) && !watchOnly;
 
   const networkPrefix = network === "mainnet" ? "kaspa:" : "kaspatest:";
   const addressValid = isKaspaAddress(sendTo) && sendTo.toLowerCase().startsWith(networkPrefix);
@@ -395,6 +445,25 @@ export function WalletTab({
   const amountValid = amountNum > 0 && (balance === null || amountNum <= balance);
   const formReady = addressValid && amountValid;
 
+  // Quotes are only valid for the recipient/amount they were computed for.
+  useEffect(() => {
+    setSelectionQuotes(null);
+    setSelectionQuotesError(null);
+  }, [sendTo, sendAmt, network, feeTier]);
+
+  // Tier quotes for a typical send (1 input → recipient + treasury + change);
+  // the built tx is re-priced at the chosen tier on preview.
+  useEffect(() => {
+    if (sendStep !== "form" || !isManaged) return;
+    let cancelled = false;
+    setFeeTierQuotes(null);
+    loadTxBuilder()
+      .then((builder) => builder.quoteFeeTiers(estimateTxMass(1, 3), network))
+      .then((quotes) => { if (!cancelled) setFeeTierQuotes(quotes); })
+      .catch(() => { if (!cancelled) setFeeTierQuotes(null); });
+    return () => { cancelled = true; };
+  }, [sendStep, network, isManaged]);
+
   // ── Pipeline ─────────────────────────────────────────────────────────────────
 
   const handleBuildAndValidate = async () => {
@@ -412,6 +481,8 @@ export function WalletTab({
         fromAddress: address,
         network,
         recipients: [{ address: sendTo.trim(), amountKas: amountNum }],
+        coinSelection,
+        feeTier,
       }, {
         onUpdate: ({ stage }) => {
           if (stage === "validate") {
@@ -425,6 +496,8 @@ export function WalletTab({
             surface: "wallet_tab_send",
             to: sendTo.trim(),
             amountKas: amountNum,
+            coinSelection,
+            feeTier,
           },
         },
       });
@@ -439,55 +512,121 @@ export function WalletTab({
         msg === "INSUFFICIENT_FUNDS"
           ? "Insufficient balance including fees."
           : msg === "COVENANT_ONLY_FUNDS"
-            ? "Funds are currently locked in covenant outputs. Standard send only spends standard UTXOs."
+            ? "Funds are currently locked in covenant outputs. Standard send only spends standard UTXOs — sweep them from COVENANT SPEND in the UTXO card."
             : `Build failed: ${msg}`,
       );
       setSendStep("error");
     }
   };
 
+  const handleCompareCoinSelection = async () => {
+    if (!address || !formReady) return;
+    setSelectionQuotesBusy(true);
+    setSelectionQuotesError(null);
+    try {
+      const builder = await loadTxBuilder();
+      const quotes = await builder.compareCoinSelection(
+        address,
+        [{ address: sendTo.trim(), amountKas: amountNum }],
+        network,
+        { feeTier },
+      );
+      setSelectionQuotes(quotes);
+    } catch (err) {
+      setSelectionQuotes(null);
+      setSelectionQuotesError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSelectionQuotesBusy(false);
+    }
+  };
+
+  const signAndTrack = async (tx: PendingTx, context: Record<string, unknown>) => {
+    trackedTxIdRef.current = tx.id;
+    const kernel = await loadTxKernel();
+    await kernel.signBroadcastAndReconcileKaspaTx(tx, {
+      awaitConfirmation: true,
+      telemetry: {
+        channel: "manual",
+        runId: sendExecutionRunId || createExecutionRunId("manual_send"),
+        context,
+      },
+      onUpdate: async ({ stage, tx: updated }) => {
+        await updatePendingTx(updated);
+        if (trackedTxIdRef.current !== updated.id) return;
+        setPendingTx(updated);
+        if (stage === "broadcast" || stage === "reconcile") {
+          setSendStep("broadcast");
+        }
+        if (updated.state === "CONFIRMED") {
+          setResultTxId(updated.txId ?? null);
+          setSendStep("done");
+          setUtxoReloadNonce((v) => v + 1);
+          onBalanceInvalidated?.();
+        }
+        if (updated.state === "FAILED") {
+          setErrorMsg(updated.error ?? "Transaction failed.");
+          setSendStep("error");
+        }
+      },
+    });
+  };
+
   const handleSign = async () => {
     if (!pendingTx || !isManaged) return;
     setSendStep("signing");
+    const txId = pendingTx.id;
 
     try {
-      const kernel = await loadTxKernel();
-      await kernel.signBroadcastAndReconcileKaspaTx(pendingTx, {
-        awaitConfirmation: true,
-        telemetry: {
-          channel: "manual",
-          runId: sendExecutionRunId || createExecutionRunId("manual_send"),
-          context: {
-            surface: "wallet_tab_send",
-            to: sendTo.trim(),
-            amountKas: amountNum,
-          },
-        },
-        onUpdate: async ({ stage, tx: updated }) => {
-          setPendingTx(updated);
-          await updatePendingTx(updated);
-          if (stage === "broadcast" || stage === "reconcile") {
-            setSendStep("broadcast");
-          }
-          if (updated.state === "CONFIRMED") {
-            setResultTxId(updated.txId ?? null);
-            setSendStep("done");
-            setUtxoReloadNonce((v) => v + 1);
-            onBalanceInvalidated?.();
-          }
-          if (updated.state === "FAILED") {
-            setErrorMsg(updated.error ?? "Transaction failed.");
-            setSendStep("error");
-          }
-        },
+      await signAndTrack(pendingTx, {
+        surface: "wallet_tab_send",
+        to: sendTo.trim(),
+        amountKas: amountNum,
       });
     } catch (err) {
+      if (trackedTxIdRef.current !== txId) return;
       const msg = err instanceof Error ? err.message : "Transaction timed out awaiting confirmation.";
       setErrorMsg(msg);
       setSendStep("error");
     }
   };
 
+  // Speed-up / cancel of the broadcast tx: build and validate the replacement,
+  // then wait for the user to confirm its fee before signing.
+  const handlePrepareReplacement = async (kind: ReplacementKind) => {
+    if (!pendingTx || !isManaged) return;
+    setReplacementBusy(true);
+    setReplacementError(null);
+    try {
+      const kernel = await loadTxKernel();
+      const replacement = await kernel.buildAndValidateReplacementTx({ original: pendingTx, kind, feeTier: "priority" });
+      setReplacementTx(replacement);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setReplacementError(msg.startsWith("RBF_FEE_EXCEEDS_CHANGE") ? "Change is too small to pay a higher fee — cancel instead." : msg);
+    } finally {
+      setReplacementBusy(false);
+    }
+  };
+
+  const handleConfirmReplacement = async () => {
+    if (!replacementTx) return;
+    const replacement = replacementTx;
+    setReplacementTx(null);
+    setPendingTx(replacement);
+    setSendStep("signing");
+    try {
+      await signAndTrack(replacement, {
+        surface: "wallet_tab_send",
+        replaces: replacement.replaces,
+        replacementKind: replacement.replacementKind,
+      });
+    } catch (err) {
+      if (trackedTxIdRef.current !== replacement.id) return;
+      setErrorMsg(err instanceof Error ? err.message : String(err));
+      setSendStep("error");
+    }
+  };
+
   const handleCancel = async () => {
     if (pendingTx) await updatePendingTx({ ...pendingTx, state: "CANCELLED" });
     resetSend();
@@ -500,11 +639,36 @@ export function WalletTab({
     setErrorMsg(null);
     setResultTxId(null);
     setSendExecutionRunId(null);
+    setSelectionQuotes(null);
+    setSelectionQuotesError(null);
+    setReplacementTx(null);
+    setReplacementError(null);
+    trackedTxIdRef.current = null;
   };
 
   const copyAddress = async () => {
-    if (!address) return;
-    try { await navigator.clipboard.writeText(address); setAddrCopied(true); setTimeout(() => setAddrCopied(false), 2000); } catch { /* noop */ }
+    if (!receiveAddress) return;
+    try { await navigator.clipboard.writeText(receiveAddress); setAddrCopied(true); setTimeout(() => setAddrCopied(false), 2000); } catch { /* noop */ }
+  };
+
+  const handleNewReceiveAddress = async () => {
+    const account = hdAccountFromSession(getSession());
+    if (!account) return;
+    setReceiveRotateBusy(true);
+    setReceiveRotateError(null);
+    try {
+      const entry = await nextReceiveAddress(account, network);
+      setRotatedReceiveAddress(entry.address);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setReceiveRotateError(
+        msg === "GAP_LIMIT_REACHED"
+          ? "Too many unused addresses in a row — reuse one of them before generating more."
+          : "Could not derive a new address.",
+      );
+    } finally {
+      setReceiveRotateBusy(false);
+    }
   };
 
   const openTokenDetails = (tokenId: TokenId) => {
@@ -588,7 +752,8 @@ export function WalletTab({
   const utxoTotalKas = sompiToKas(utxoTotalSompi);
   const utxoLargestKas = utxos.length ? sompiToKas(utxos[0].amount) : 0;
   const utxoAverageKas = utxos.length ? utxoTotalKas / utxos.length : 0;
-  const covenantUtxoCount = utxos.filter((u) => (u.scriptClass ?? "standard") === "covenant").length;
+  const covenantUtxos = utxos.filter((u) => (u.scriptClass ?? "standard") === "covenant");
+  const covenantUtxoCount = covenantUtxos.length;
   const standardUtxoCount = utxos.length - covenantUtxoCount;
   const utxoUpdatedLabel = utxoUpdatedAt
     ? new Date(utxoUpdatedAt).toLocaleTimeString([], { hour12: false })
@@ -676,8 +841,27 @@ export function WalletTab({
   };
   const actionPanels = (
     <>
+      {/* WATCH-ONLY — no key in the vault for this address */}
+      {sendStep === "form" && watchOnly && (
+        <div style={panel()}>
+          <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between", marginBottom: 6 }}>
+            <div style={sectionTitle}>SEND KAS</div>
+            <button onClick={() => setSendStep("idle")} style={{ background: "none", border: "none", color: C.dim, fontSize: 8, cursor: "pointer", ...mono }}>✕</button>
+          </div>
+          <div style={{ ...insetCard(), fontSize: 8, color: C.warn, lineHeight: 1.4, marginBottom: 8 }}>
+            Watch-only account: no key is held for this address. Export the transaction and sign it on the offline wallet that owns it.
+          </div>
+          <OfflineSigningPanel
+            mode="prepare"
+            address={address}
+            network={network}
+            onBroadcast={() => onBalanceInvalidated?.()}
+          />
+        </div>
+      )}
+
       {/* FORM */}
-      {sendStep === "form" && (
+      {sendStep === "form" && !watchOnly && (
         <div style={panel()}>
           <div style={{ display: "flex", alignItems: "baseline", justifyContent: "space-between", marginBottom: 6 }}>
             <div style={sectionTitle}>SEND KAS</div>
@@ -725,6 +909,20 @@ export function WalletTab({
               ≈ {maskedUsd(amountNum * usdPrice, 2)}
             </div>
           )}
+          {isManaged && (
+            <FeeTierPicker value={feeTier} onChange={setFeeTier} quotes={feeTierQuotes} approximate />
+          )}
+          {isManaged && (
+            <CoinSelectionPicker
+              value={coinSelection}
+              onChange={setCoinSelection}
+              quotes={selectionQuotes}
+              busy={selectionQuotesBusy}
+              error={selectionQuotesError}
+              canCompare={formReady}
+              onCompare={handleCompareCoinSelection}
+            />
+          )}
           <button onClick={isManaged ? handleBuildAndValidate : () => chrome.tabs.create({ url: `https://forge-os.xyz?send=1&to=${encodeURIComponent(sendTo)}&amount=${encodeURIComponent(sendAmt)}` })} disabled={!formReady} style={submitBtn(formReady)}>
             {isManaged ? "PREVIEW SEND →" : "OPEN IN FORGE-OS →"}
           </button>
@@ -748,6 +946,17 @@ export function WalletTab({
       {sendStep === "broadcast" && (
         <StatusCard icon="📡" title="BROADCASTING…" sub={`Polling for confirmation. TxID: ${pendingTx?.txId ? pendingTx.txId.slice(0, 20) + "…" : "pending"}`} color={C.accent} />
       )}
+      {(sendStep === "broadcast" || sendStep === "error") && pendingTx && isManaged && isReplaceable(pendingTx) && (
+        <ReplacementPanel
+          tx={pendingTx}
+          replacement={replacementTx}
+          busy={replacementBusy}
+          error={replacementError}
+          onPrepare={handlePrepareReplacement}
+          onConfirm={handleConfirmReplacement}
+          onBack={() => setReplacementTx(null)}
+        />
+      )}
 
       {/* Done */}
       {sendStep === "done" && (
@@ -775,7 +984,7 @@ export function WalletTab({
       )}
 
       {/* Receive */}
-      {showReceive && address && (
+      {showReceive && receiveAddress && (
         <div style={panel()}>
           <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 6 }}>
             <div style={sectionTitle}>RECEIVE KAS</div>
@@ -805,11 +1014,25 @@ export function WalletTab({
               </div>
             )}
           </div>
-          <div style={{ fontSize: 8, color: C.muted, letterSpacing: "0.08em" }}>CONNECTED WALLET ADDRESS</div>
-          <div style={{ ...insetCard(), fontSize: 8, color: C.dim, lineHeight: 1.6, wordBreak: "break-all", marginBottom: 6 }}>{address}</div>
-          <button onClick={copyAddress} style={{ ...outlineButton(addrCopied ? C.ok : C.dim, true), padding: "7px 8px", color: addrCopied ? C.ok : C.dim, width: "100%" }}>
-            {addrCopied ? "✓ COPIED" : "COPY ADDRESS"}
-          </button>
+          <div style={{ fontSize: 8, color: C.muted, letterSpacing: "0.08em" }}>
+            {rotatedReceiveAddress ? "FRESH RECEIVE ADDRESS" : "CONNECTED WALLET ADDRESS"}
+          </div>
+          <div style={{ ...insetCard(), fontSize: 8, color: C.dim, lineHeight: 1.6, wordBreak: "break-all", marginBottom: 6 }}>{receiveAddress}</div>
+          <div style={{ display: "flex", gap: 6 }}>
+            <button onClick={copyAddress} style={{ ...outlineButton(addrCopied ? C.ok : C.dim, true), padding: "7px 8px", color: addrCopied ? C.ok : C.dim, flex: 1 }}>
+              {addrCopied ? "✓ COPIED" : "COPY ADDRESS"}
+            </button>
+            {isManaged && (
+              <button
+                onClick={() => { void handleNewReceiveAddress(); }}
+                disabled={receiveRotateBusy}
+                style={{ ...outlineButton(C.accent, true), padding: "7px 8px", color: C.accent, flex: 1, opacity: receiveRotateBusy ? 0.7 : 1 }}
+              >
+                {receiveRotateBusy ? "DERIVING…" : "NEW ADDRESS"}
+              </button>
+            )}
+          </div>
+          {receiveRotateError && <div style={{ fontSize: 8, color: C.danger, marginTop: 4 }}>{receiveRotateError}</div>}
           <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5, marginTop: 4 }}>
             Send KAS to this address from any Kaspa wallet. Funds and UTXO state are verified against live on-chain data.
           </div>
@@ -1228,6 +1451,31 @@ export function WalletTab({
           </span>
         </div>
       </div>
+
+      {address && selectedPortfolioToken.standard === "krc721" && (
+        <Krc721GalleryPanel
+          address={address}
+          network={network}
+          token={selectedPortfolioToken}
+          canTransfer={isManaged}
+          onCompleted={() => {
+            setUtxoReloadNonce((v) => v + 1);
+            onBalanceInvalidated?.();
+          }}
+        />
+      )}
+
+      {isManaged && address && selectedPortfolioToken.standard === "krc20" && (
+        <Krc20TransferPanel
+          address={address}
+          network={network}
+          token={selectedPortfolioToken}
+          onCompleted={() => {
+            setUtxoReloadNonce((v) => v + 1);
+            onBalanceInvalidated?.();
+          }}
+        />
+      )}
     </div>
   ) : null;
 
@@ -1473,12 +1721,37 @@ export function WalletTab({
           </div>
         </div>
 
+        {isManaged && address && standardUtxoCount > 1 && (
+          <ConsolidationPanel
+            address={address}
+            network={network}
+            hideBalances={hideBalances}
+            onCompleted={() => {
+              setUtxoReloadNonce((v) => v + 1);
+              onBalanceInvalidated?.();
+            }}
+          />
+        )}
+
         {covenantUtxoCount > 0 && (
           <div style={{ ...insetCard(), fontSize: 8, color: C.warn, padding: "8px 10px", marginBottom: 8, lineHeight: 1.45 }}>
             Covenant outputs detected: {covenantUtxoCount}. Standard send currently uses spendable UTXOs only ({standardUtxoCount} available).
           </div>
         )}
 
+        {isManaged && address && (
+          <CovenantSpendPanel
+            address={address}
+            network={network}
+            covenantUtxos={covenantUtxos}
+            hideBalances={hideBalances}
+            onCompleted={() => {
+              setUtxoReloadNonce((v) => v + 1);
+              onBalanceInvalidated?.();
+            }}
+          />
+        )}
+
         {utxoLoading && utxos.length === 0 && (
           <div style={{ ...insetCard(), fontSize: 8, color: C.dim, padding: "9px 10px" }}>
             Fetching UTXOs from {network}…
@@ -1534,6 +1807,29 @@ export function WalletTab({
         </div>
       </div>
 
+      {isManaged && address && (
+        <ScheduledSendsPanel
+          address={address}
+          network={network}
+          hideBalances={hideBalances}
+          onCompleted={() => {
+            setUtxoReloadNonce((v) => v + 1);
+            onBalanceInvalidated?.();
+          }}
+        />
+      )}
+
+      {/* Activity card */}
+      {address && (
+        <TxHistoryPanel
+          address={address}
+          network={network}
+          explorerBase={explorerBase}
+          hideBalances={hideBalances}
+          refreshNonce={utxoReloadNonce}
+        />
+      )}
+
     </div>
   );
 }
@@ -1661,6 +1957,76 @@ function StatusCard({ icon, title, sub, color }: { icon: string; title: string;
   );
 }
 
+function ReplacementPanel({
+  tx,
+  replacement,
+  busy,
+  error,
+  onPrepare,
+  onConfirm,
+  onBack,
+}: {
+  tx: PendingTx;
+  replacement: PendingTx | null;
+  busy: boolean;
+  error: string | null;
+  onPrepare: (kind: ReplacementKind) => void;
+  onConfirm: () => void;
+  onBack: () => void;
+}) {
+  if (replacement) {
+    const cancel = replacement.replacementKind === "cancel";
+    const returnedKas = cancel ? sompiToKas(replacement.outputs[0]?.amount ?? 0n) : 0;
+    return (
+      <div style={{ ...panel(), borderColor: `${C.warn}30` }}>
+        <div style={{ ...sectionTitle, color: C.warn }}>{cancel ? "CANCEL PAYMENT" : "SPEED UP"}</div>
+        <div style={{ ...insetCard(), fontSize: 8, color: C.dim, lineHeight: 1.6 }}>
+          <div>
+            New network fee <span style={{ color: C.warn, fontWeight: 700 }}>{fmt(sompiToKas(replacement.fee), 8)} KAS</span>
+            {" "}(was {fmt(sompiToKas(tx.fee), 8)} KAS)
+          </div>
+          <div>
+            {cancel
+              ? `Double-spends the same inputs back to your wallet (${fmt(returnedKas, 4)} KAS). Only works if the original has not confirmed yet.`
+              : "Re-sends the same payment from the same inputs at a higher feerate. Whichever version confirms first wins."}
+          </div>
+        </div>
+        <div style={{ display: "flex", gap: 6, marginTop: 8 }}>
+          <button onClick={onBack} style={{ ...outlineButton(C.dim, true), flex: 1, padding: "7px 8px", color: C.dim }}>BACK</button>
+          <button onClick={onConfirm} style={{ ...outlineButton(C.warn, true), flex: 1, padding: "7px 8px", color: C.warn }}>
+            {cancel ? "SIGN CANCEL" : "SIGN SPEED-UP"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={panel()}>
+      <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5, marginBottom: 6 }}>
+        Taking too long? Replace it with a higher fee, or cancel it before it confirms.
+      </div>
+      <div style={{ display: "flex", gap: 6 }}>
+        <button
+          onClick={() => onPrepare("speed-up")}
+          disabled={busy}
+          style={{ ...outlineButton(C.accent, true), flex: 1, padding: "7px 8px", color: C.accent, opacity: busy ? 0.7 : 1 }}
+        >
+          SPEED UP
+        </button>
+        <button
+          onClick={() => onPrepare("cancel")}
+          disabled={busy}
+          style={{ ...outlineButton(C.danger, true), flex: 1, padding: "7px 8px", color: C.danger, opacity: busy ? 0.7 : 1 }}
+        >
+          CANCEL PAYMENT
+        </button>
+      </div>
+      {error && <div style={{ fontSize: 8, color: C.danger, marginTop: 6 }}>{error}</div>}
+    </div>
+  );
+}
+
 function ConfirmPanel({ tx, usdPrice, onConfirm, onCancel }: { tx: PendingTx; usdPrice: number; onConfirm: () => void; onCancel: () => void }) {
   const toAmt = tx.outputs[0];
   const toKas = toAmt ? sompiToKas(toAmt.amount) : 0;
@@ -1685,9 +2051,21 @@ function ConfirmPanel({ tx, usdPrice, onConfirm, onCancel }: { tx: PendingTx; us
       <div style={insetCard()}>
         {row("TO", tx.outputs[0]?.address ? tx.outputs[0].address.slice(0, 22) + "…" : "—")}
         {row("AMOUNT", `${fmt(toKas, 4)} KAS${usdPrice > 0 ? ` ≈ $${fmt(toKas * usdPrice, 2)}` : ""}`)}
-        {row("NETWORK FEE", `${fmt(feeKas, 8)} KAS`, C.warn, "→ miners")}
+        {row("NETWORK FEE", `${fmt(feeKas, 8)} KAS`, C.warn, tx.feeTier ? `${FEE_TIER_LABELS[tx.feeTier].toLowerCase()} → miners` : "→ miners")}
         {platformFeeKas > 0 && row("PLATFORM FEE", `${fmt(platformFeeKas, 6)} KAS`, C.dim, "→ treasury")}
         {changeKas > 0 && row("CHANGE", `${fmt(changeKas, 4)} KAS`, C.dim)}
+        {tx.coinSelection && row(
+          "INPUTS",
+          `${tx.inputs.length} · ${COIN_SELECTION_STRATEGIES[tx.coinSelection]?.label ?? tx.coinSelection}`,
+          C.dim,
+          tx.changeOutput ? undefined : "no change",
+        )}
+        {tx.mass && row(
+          "MASS",
+          `${tx.mass.mass.toLocaleString()} g`,
+          tx.mass.dominant === "storage" ? C.warn : C.dim,
+          `${tx.mass.dominant}-bound`,
+        )}
         <div style={{ ...divider(), margin: "6px 0" }} />
         {row("TOTAL COST", `${fmt(totalCost, 4)} KAS`, C.accent)}
       </div>
@@ -1699,3 +2077,78 @@ function ConfirmPanel({ tx, usdPrice, onConfirm, onCancel }: { tx: PendingTx; us
     </div>
   );
 }
+
+function CoinSelectionPicker({
+  value,
+  onChange,
+  quotes,
+  busy,
+  error,
+  canCompare,
+  onCompare,
+}: {
+  value: CoinSelectionStrategyId;
+  onChange: (strategy: CoinSelectionStrategyId) => void;
+  quotes: CoinSelectionQuote[] | null;
+  busy: boolean;
+  error: string | null;
+  canCompare: boolean;
+  onCompare: () => void;
+}) {
+  const quoteByStrategy = new Map((quotes ?? []).map((q) => [q.strategy, q]));
+  const cheapest = (quotes ?? [])
+    .filter((q) => q.ok)
+    .reduce<CoinSelectionQuote | null>((best, q) => (!best || q.fee < best.fee ? q : best), null);
+
+  return (
+    <div style={{ ...insetCard(), display: "flex", flexDirection: "column", gap: 5 }}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+        <div style={sectionKicker}>COIN SELECTION</div>
+        <button
+          onClick={onCompare}
+          disabled={!canCompare || busy}
+          style={{ ...outlineButton(C.accent, canCompare && !busy), padding: "3px 6px", fontSize: 8 }}
+        >
+          {busy ? "COMPARING…" : "COMPARE FEES"}
+        </button>
+      </div>
+      {COIN_SELECTION_STRATEGY_IDS.map((id) => {
+        const strategy = COIN_SELECTION_STRATEGIES[id];
+        const quote = quoteByStrategy.get(id);
+        const active = value === id;
+        return (
+          <button
+            key={id}
+            onClick={() => onChange(id)}
+            title={strategy.description}
+            style={{
+              ...outlineButton(active ? C.accent : C.dim, true),
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "baseline",
+              padding: "4px 6px",
+              fontSize: 8,
+              color: active ? C.accent : C.text,
+              textAlign: "left",
+            }}
+          >
+            <span>{strategy.label}</span>
+            {quote && (
+              <span style={{ color: quote.ok ? (quote === cheapest ? C.ok : C.dim) : C.warn }}>
+                {quote.ok
+                  ? `${quote.inputCount} in · ${quote.mass} g · ${fmt(sompiToKas(quote.fee), 8)} KAS${quote.changeAmount === 0n ? " · no change" : ""}`
+                  : quote.error === "NO_EXACT_MATCH" ? "no exact match" : "unfundable"}
+              </span>
+            )}
+          </button>
+        );
+      })}
+      {COIN_SELECTION_STRATEGIES[value].changeless && (
+        <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.4 }}>
+          Falls back to largest-first when no exact match exists.
+        </div>
+      )}
+      {error && <div style={{ fontSize: 8, color: C.danger }}>Compare failed: {error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+// WatchOnlyPanel — Security tab list of watch-only addresses: add one by
+// address + label, view it in the wallet (balances, KRC holdings, history),
+// or stop watching it. No key material is involved at any point.
+
+import { useCallback, useEffect, useState } from "react";
+import { C, mono } from "../../src/tokens";
+import { isKaspaAddress, shortAddr, withKaspaAddressNetwork } from "../../src/helpers";
+import {
+  addWatchOnlyAccount,
+  getWatchOnlyAccounts,
+  removeWatchOnlyAccount,
+  type WatchOnlyAccount,
+} from "../shared/storage";
+import { chip, insetCard, monoInput, outlineButton, primaryButton, sectionCard, sectionTitle } from "../popup/surfaces";
+
+interface Props {
+  network: string;
+  /** Watch-only account currently viewed in the popup, if any. */
+  activeId: string | null;
+  onClose: () => void;
+  /** Called after the list changes so the popup selector refreshes. */
+  onChanged?: () => Promise<void> | void;
+  /** View a watch-only account, or return to the vault account with null. */
+  onView?: (id: string | null) => Promise<void> | void;
+}
+
+function displayAddress(address: string, network: string): string {
+  try {
+    return withKaspaAddressNetwork(address, network);
+  } catch {
+    return address;
+  }
+}
+
+export function WatchOnlyPanel({ network, activeId, onClose, onChanged, onView }: Props) {
+  const [accounts, setAccounts] = useState<WatchOnlyAccount[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [address, setAddress] = useState("");
+  const [label, setLabel] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setAccounts(await getWatchOnlyAccounts().catch(() => []));
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => { void reload(); }, [reload]);
+
+  const addressValid = isKaspaAddress(address.trim());
+
+  const add = async () => {
+    setError(null);
+    try {
+      await addWatchOnlyAccount(address, label);
+      setAddress("");
+      setLabel("");
+      await reload();
+      await onChanged?.();
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      setError(msg.startsWith("WATCH_ONLY_DUPLICATE") ? "That address is already watched." : "Enter a valid Kaspa address.");
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (id === activeId) await onView?.(null);
+    await removeWatchOnlyAccount(id);
+    await reload();
+    await onChanged?.();
+  };
+
+  return (
+    <div style={sectionCard("default")}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 8 }}>
+        <span style={sectionTitle}>WATCH-ONLY</span>
+        <button onClick={onClose} style={{ background: "none", border: "none", color: C.dim, fontSize: 8, cursor: "pointer", ...mono }}>✕ close</button>
+      </div>
+
+      <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5, marginBottom: 8 }}>
+        Monitor cold-storage or agent deposit addresses without importing keys. Watched addresses can never sign.
+      </div>
+
+      {loaded && accounts.length === 0 && (
+        <div style={{ fontSize: 8, color: C.dim, lineHeight: 1.5, marginBottom: 8 }}>No watched addresses yet.</div>
+      )}
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 5, marginBottom: 10 }}>
+        {accounts.map((account) => {
+          const viewing = account.id === activeId;
+          return (
+            <div key={account.id} data-testid="watch-only-row" style={{ ...insetCard(), padding: "7px 9px", display: "flex", alignItems: "center", gap: 8 }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ display: "flex", alignItems: "center", gap: 5 }}>
+                  <span style={{ fontSize: 9, color: viewing ? C.accent : C.text, fontWeight: 700, letterSpacing: "0.06em" }}>{account.label}</span>
+                  <span style={chip(C.warn)}>WATCH</span>
+                </div>
+                <div style={{ fontSize: 8, color: C.dim, marginTop: 2 }}>{shortAddr(displayAddress(account.address, network))}</div>
+              </div>
+              <button
+                onClick={() => { void remove(account.id); }}
+                style={{ ...outlineButton(C.danger, true), padding: "4px 7px", fontSize: 8, color: C.danger }}
+              >REMOVE</button>
+              <button
+                onClick={() => { void onView?.(viewing ? null : account.id); }}
+                style={{ ...outlineButton(viewing ? C.ok : C.accent, true), padding: "4px 7px", fontSize: 8, color: viewing ? C.ok : C.accent }}
+              >{viewing ? "VIEWING" : "VIEW"}</button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+        <input
+          value={address}
+          onChange={(e) => { setAddress(e.target.value); setError(null); }}
+          placeholder="kaspa:q… address to watch"
+          style={{ ...monoInput(address.length > 0 && !addressValid), padding: "7px 9px", fontSize: 9 }}
+        />
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder={`Watch ${accounts.length + 1}`}
+          maxLength={32}
+          style={{ ...monoInput(), padding: "7px 9px", fontSize: 9 }}
+        />
+        {error && <div style={{ fontSize: 8, color: C.danger }}>{error}</div>}
+        <button
+          onClick={() => { void add(); }}
+          disabled={!addressValid}
+          style={{ ...primaryButton(addressValid), padding: "8px 0" }}
+        >ADD WATCH-ONLY ADDRESS</button>
+      </div>
+    </div>
+  );
+}
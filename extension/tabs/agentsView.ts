@@ -1,3 +1,5 @@
+import { DEFAULT_FEE_TIER, isFeeTier, type FeeTier } from "../network/feeTiers";
+
 export type AgentNetworkId = "mainnet" | "testnet-10" | "testnet-11" | "testnet-12" | "testnet" | "unknown";
 export type AgentNetworkFilter = "current" | "all" | "mainnet" | "testnet-10" | "testnet-11" | "testnet-12";
 export type AgentModeFilter = "all" | "bots" | "manual";
@@ -9,6 +11,8 @@ export interface AgentViewModel {
   risk: string;
   capitalLimitKas: string | null;
   execMode: string;
+  /** Default fee tier for the agent's sends (strategy config `feeTier`). */
+  feeTier: FeeTier;
   status: string;
   isBot: boolean;
   isActive: boolean;
@@ -122,6 +126,7 @@ export function mapAgentView(agent: unknown, currentNetwork: string): AgentViewM
   const capitalLimitRaw = pickString(raw.capitalLimit, raw.capital_limit);
   const capitalLimitKas = capitalLimitRaw || null;
   const execMode = pickString(raw.execMode, raw.mode) || "manual";
+  const feeTier = isFeeTier(raw.feeTier) ? raw.feeTier : DEFAULT_FEE_TIER;
   const status = pickString(raw.status) || "idle";
   const network = resolveAgentNetwork(raw, currentNetwork);
   const pnlUsd = toNumber(raw.pnlUsd) || toNumber(raw.pnl);
@@ -144,6 +149,7 @@ export function mapAgentView(agent: unknown, currentNetwork: string): AgentViewM
     risk,
     capitalLimitKas,
     execMode,
+    feeTier,
     status,
     isBot,
     isActive,
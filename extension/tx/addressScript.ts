@@ -0,0 +1,35 @@
+// Kaspa address → locking script, decoded locally (no kaspa-wasm, no node).
+//
+//   version 0 (P2PK Schnorr): OP_DATA_32 <x-only key> OP_CHECKSIG       34 bytes
+//   version 1 (P2PK ECDSA):   OP_DATA_33 <key> OP_CHECKSIGECDSA          35 bytes
+//   version 8 (P2SH):         OP_BLAKE2B OP_DATA_32 <hash> OP_EQUAL      35 bytes
+//
+// The checksum is not verified — callers validate addresses separately. Shared
+// by mass pricing (tx/mass.ts) and PSKT payload matching (tx/pskt.ts).
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+/** Locking script of a Kaspa address (P2PK Schnorr / ECDSA or P2SH), or null if it cannot be decoded. */
+export function addressScriptHex(address: string): string | null {
+  const payload = address.trim().toLowerCase().split(":")[1] ?? "";
+  const words = [...payload].map((c) => BECH32_CHARSET.indexOf(c));
+  if (words.length <= 8 || words.includes(-1)) return null;
+  // 5-bit words to bytes; the last 8 words are the checksum.
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  for (const word of words.slice(0, -8)) {
+    acc = ((acc << 5) | word) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((acc >> bits) & 0xff);
+    }
+  }
+  const [version, ...key] = bytes;
+  const hex = key.map((b) => b.toString(16).padStart(2, "0")).join("");
+  if (version === 0 && key.length === 32) return `20${hex}ac`;
+  if (version === 1 && key.length === 33) return `21${hex}ab`;
+  if (version === 8 && key.length === 32) return `aa20${hex}87`;
+  return null;
+}
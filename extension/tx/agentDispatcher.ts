@@ -5,28 +5,65 @@ import {
 } from "./kernel";
 import { createExecutionRunId } from "./executionTelemetry";
 import type { PendingTx } from "./types";
+import { getConnectedSites, updateConnectedSite, type ConnectedSite } from "../shared/storage";
+import { checkSiteSpend, hasSiteScope, recordSiteSpend } from "../shared/sitePermissions";
+import { kasToSompi } from "../utxo/utxoSync";
 
 export interface AgentExecutionIntent extends KaspaExecutionIntent {
   agentId: string;
   executionRunId?: string;
   context?: Record<string, unknown>;
+  /**
+   * Site the agent was configured on. When set, the site must hold the
+   * agent_auto_execute scope and the send must fit its allowance.
+   */
+  origin?: string;
 }
 
 type ExecuteKaspaIntentFn = typeof executeKaspaIntent;
 
-export function createAgentExecutionDispatcher(executeIntent: ExecuteKaspaIntentFn = executeKaspaIntent) {
+export interface AgentSiteAccess {
+  loadSite(origin: string): Promise<ConnectedSite | null>;
+  recordSpend(origin: string, sompi: bigint, now: number): Promise<unknown>;
+}
+
+const DEFAULT_SITE_ACCESS: AgentSiteAccess = {
+  loadSite: async (origin) => (await getConnectedSites())[origin] ?? null,
+  recordSpend: (origin, sompi, now) => updateConnectedSite(origin, (site) => recordSiteSpend(site, sompi, now)),
+};
+
+export function createAgentExecutionDispatcher(
+  executeIntent: ExecuteKaspaIntentFn = executeKaspaIntent,
+  siteAccess: AgentSiteAccess = DEFAULT_SITE_ACCESS,
+) {
   return async function dispatchAgentKaspaIntent(
     intent: AgentExecutionIntent,
     options: Omit<ExecuteKaspaIntentOptions, "telemetry"> = {},
   ): Promise<PendingTx> {
     const runId = String(intent.executionRunId || "").trim() || createExecutionRunId(`agent_${intent.agentId}`);
-    return executeIntent(
+    const outputs = intent.recipients.map((r) => ({
+      address: r.address,
+      amountSompi: r.amountSompi ?? kasToSompi(r.amountKas),
+    }));
+    const now = Date.now();
+    if (intent.origin) {
+      const site = await siteAccess.loadSite(intent.origin);
+      if (!hasSiteScope(site, "agent_auto_execute")) {
+        throw new Error(`SITE_SCOPE_DENIED: ${intent.origin} may not auto-execute agent transactions`);
+      }
+      const allowanceError = checkSiteSpend(site!, outputs, now);
+      if (allowanceError) throw new Error(allowanceError);
+    }
+
+    const tx = await executeIntent(
       {
         fromAddress: intent.fromAddress,
         network: intent.network,
         recipients: intent.recipients,
         agentJobId: intent.agentJobId,
         opReturnHex: intent.opReturnHex,
+        coinSelection: intent.coinSelection,
+        feeTier: intent.feeTier,
       },
       {
         ...options,
@@ -37,10 +74,16 @@ export function createAgentExecutionDispatcher(executeIntent: ExecuteKaspaIntent
             agentId: intent.agentId,
             agentJobId: intent.agentJobId || null,
             ...(intent.context || {}),
+            ...(intent.origin ? { origin: intent.origin } : {}),
           },
         },
       },
     );
+    if (intent.origin && tx.txId) {
+      const spent = outputs.reduce((acc, o) => acc + o.amountSompi, 0n);
+      await siteAccess.recordSpend(intent.origin, spent, now).catch(() => null);
+    }
+    return tx;
   };
 }
 
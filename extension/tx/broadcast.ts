@@ -4,7 +4,7 @@
 
 import type { PendingTx } from "./types";
 import { broadcastTx } from "../network/kaspaClient";
-import { updatePendingTx } from "./store";
+import { getReplacementGroup, settleReplacementGroup, updatePendingTx } from "./store";
 import { invalidateUtxoCache } from "../utxo/utxoSync";
 import { waitForKaspaConfirmation } from "./receiptReconciler";
 
@@ -40,7 +40,9 @@ export async function broadcastTransaction(tx: PendingTx): Promise<PendingTx> {
 
   let txId: string;
   try {
-    txId = await broadcastTx(payload, tx.network);
+    txId = tx.replaces
+      ? await broadcastTx(payload, tx.network, { replaceByFee: true })
+      : await broadcastTx(payload, tx.network);
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     const failed: PendingTx = {
@@ -70,7 +72,8 @@ export async function broadcastTransaction(tx: PendingTx): Promise<PendingTx> {
 
 /**
  * Poll for transaction confirmation.
- * Resolves when the tx has an acceptingBlockHash (confirmed in BlockDAG).
+ * Resolves when the tx has an acceptingBlockHash (confirmed in BlockDAG), or
+ * REPLACED when a linked replacement (or its original) was accepted instead.
  * Rejects on timeout.
  *
  * Should be called after broadcastTransaction returns; can safely be called
@@ -91,6 +94,7 @@ export async function pollConfirmation(
     {
       timeoutMs: CONFIRM_TIMEOUT_MS,
       pollIntervalMs: CONFIRM_POLL_INTERVAL_MS,
+      linked: () => getReplacementGroup(tx.id),
       onProbe: async (probe) => {
         probeAttempts += 1;
         const pendingUpdate: PendingTx = {
@@ -111,6 +115,9 @@ export async function pollConfirmation(
 
   await updatePendingTx(reconciled);
   onUpdate(reconciled);
+  if (reconciled.state === "CONFIRMED") {
+    for (const replaced of await settleReplacementGroup(reconciled)) onUpdate(replaced);
+  }
   if (reconciled.state === "FAILED") {
     throw new Error(reconciled.error || "CONFIRM_TIMEOUT");
   }
@@ -6,12 +6,33 @@
 //
 // NOTE: kaspa-wasm is loaded lazily to avoid blocking the popup on WASM init.
 
-import type { PendingTx, TxOutput } from "./types";
+import type { CovenantLink, Krc20Link, MultisigLink, PendingTx, TxOutput } from "./types";
 import type { Utxo } from "../utxo/types";
-import { selectUtxos, kasToSompi } from "../utxo/utxoSync";
-import { estimateFee } from "../network/kaspaClient";
-import { getLockedUtxoKeys } from "./store";
-import { getOrSyncUtxos } from "../utxo/utxoSync";
+import { selectUtxos, kasToSompi, syncUtxos } from "../utxo/utxoSync";
+import {
+  COIN_SELECTION_STRATEGIES,
+  COIN_SELECTION_STRATEGY_IDS,
+  DEFAULT_COIN_SELECTION,
+  type CoinSelectionStrategyId,
+} from "../utxo/coinSelection";
+import { estimateFee, fetchFeeTiers } from "../network/kaspaClient";
+import { DEFAULT_FEE_TIER, type FeeTier, type FeeTierEstimate } from "../network/feeTiers";
+import {
+  addressMassOutput,
+  calcTransactionMass,
+  covenantSignatureScriptBytes,
+  inscriptionSignatureScriptBytes,
+  MAXIMUM_STANDARD_TRANSACTION_MASS,
+  measureTransactionMass,
+  multisigMassInput,
+  pendingTxMassShape,
+  type TxMassBreakdown,
+  type TxMassInput,
+  type TxMassOutput,
+} from "./mass";
+import { getLockedUtxoKeys, getReplacementGroup, isReplaceable } from "./store";
+import { covenantLockTime } from "./covenantScript";
+import { getOrSyncAccountUtxos, resolveChangeAddress } from "../utxo/hdAddresses";
 import { loadKaspaWasm } from "../../src/wallet/kaspaWasmLoader";
 
 const ENV = (import.meta as any)?.env ?? {};
@@ -26,6 +47,11 @@ function readIntEnv(name: string, fallback: number, min: number, max: number): n
 const TX_FEE_SAFETY_BPS = readIntEnv("VITE_EXT_TX_FEE_SAFETY_BPS", 11_500, 10_000, 30_000);
 const TX_FEE_MIN_SOMPI = BigInt(readIntEnv("VITE_EXT_TX_FEE_MIN_SOMPI", 1_000, 1, 1_000_000_000));
 const TX_FEE_MAX_SOMPI = BigInt(readIntEnv("VITE_EXT_TX_FEE_MAX_SOMPI", 200_000_000, 1_000, 5_000_000_000));
+// Largest overshoot a changeless (exact-match) selection may pay to miners
+// instead of creating a change output.
+const TX_CHANGELESS_MAX_EXCESS_SOMPI = BigInt(
+  readIntEnv("VITE_EXT_TX_CHANGELESS_MAX_EXCESS_SOMPI", 100_000, 0, 100_000_000),
+);
 
 function applyFeePolicy(baseFee: bigint): bigint {
   const buffered = (baseFee * BigInt(TX_FEE_SAFETY_BPS) + 9_999n) / 10_000n;
@@ -57,16 +83,223 @@ function calcPlatformFee(amountSompi: bigint): bigint | null {
 // Lazy-load kaspa-wasm (heavy WASM binary — only when actually sending)
 const loadKaspa = loadKaspaWasm;
 
+// ── Input selection ──────────────────────────────────────────────────────────
+
+interface InputSelection {
+  inputs: Utxo[];
+  inputTotal: bigint;
+  fee: bigint;
+  changeAmount: bigint;
+  /** Strategy that actually produced the inputs (after any fallback). */
+  strategy: CoinSelectionStrategyId;
+  /** Mass of the transaction the fee was priced on. */
+  mass: TxMassBreakdown;
+}
+
+// Fee/selection refinement rounds before settling on the last quote.
+const FEE_REFINE_ATTEMPTS = 4;
+
+function massInputs(inputs: Utxo[], multisig?: MultisigLink): TxMassInput[] {
+  return inputs.map((u) => (
+    u.scriptClass === "multisig" && multisig ? multisigMassInput(u.amount, multisig) : { amount: u.amount }
+  ));
+}
+
+/**
+ * Policy-adjusted fee for a concrete spend, priced on its exact mass
+ * (compute + KIP-9 storage) rather than input/output counts alone.
+ * Multisig inputs are priced with `threshold` signatures and their redeem script,
+ * and multisig change with the account's P2SH script.
+ */
+async function quoteSpendFee(
+  inputs: Utxo[],
+  paymentOutputs: TxMassOutput[],
+  changeAmount: bigint | null,
+  network: string,
+  feeTier: FeeTier,
+  multisig?: MultisigLink,
+): Promise<{ fee: bigint; mass: TxMassBreakdown }> {
+  const change: TxMassOutput | null = changeAmount === null
+    ? null
+    : { amount: changeAmount, ...(multisig ? { scriptPublicKeyHex: multisig.scriptPublicKeyHex } : {}) };
+  const outputs = change ? [...paymentOutputs, change] : paymentOutputs;
+  const mass = await measureTransactionMass({ inputs: massInputs(inputs, multisig), outputs }, network, loadKaspa);
+  const fee = applyFeePolicy(await estimateFee(inputs.length, outputs.length, network, mass.mass, feeTier));
+  return { fee, mass };
+}
+
+/**
+ * Changeless selection: search for inputs covering spend + fee within the
+ * excess allowance, re-running when the refined fee for the picked inputs
+ * outgrows the estimate. The excess is absorbed into the fee.
+ * Returns null when no exact match exists.
+ */
+async function selectChangelessInputs(
+  utxos: Utxo[],
+  spendSompi: bigint,
+  paymentOutputs: TxMassOutput[],
+  lockedKeys: Set<string>,
+  network: string,
+  feeTier: FeeTier,
+  multisig?: MultisigLink,
+): Promise<InputSelection | null> {
+  let fee = applyFeePolicy(await estimateFee(1, paymentOutputs.length, network, undefined, feeTier));
+  for (let attempt = 0; attempt < 3; attempt += 1) {
+    let picked: { selected: Utxo[]; total: bigint };
+    try {
+      picked = selectUtxos(utxos, spendSompi, fee, lockedKeys, {
+        strategy: "branch-and-bound",
+        maxExcessSompi: TX_CHANGELESS_MAX_EXCESS_SOMPI,
+      });
+    } catch (err) {
+      if (err instanceof Error && err.message === "NO_EXACT_MATCH") return null;
+      throw err;
+    }
+    const required = await quoteSpendFee(picked.selected, paymentOutputs, null, network, feeTier, multisig);
+    if (required.fee <= fee) {
+      return {
+        inputs: picked.selected,
+        inputTotal: picked.total,
+        fee: picked.total - spendSompi,
+        changeAmount: 0n,
+        strategy: "branch-and-bound",
+        mass: required.mass,
+      };
+    }
+    fee = required.fee;
+  }
+  return null;
+}
+
+/**
+ * Select inputs and settle the fee for a spend.
+ *
+ * The fee is priced on the exact mass of the resulting transaction, so it is
+ * re-quoted once the inputs and change value are known. A change output that
+ * would cost more in fees than it is worth — or push the transaction over the
+ * standard mass limit (tiny change carries a large KIP-9 storage mass) — is
+ * dropped and its value paid to miners instead.
+ *
+ * @param paymentOutputs  Outputs excluding change (recipients, treasury, OP_RETURN).
+ * @param strategy        Coin selection strategy. A changeless strategy that
+ *                        finds no exact match falls back to largest-first.
+ * @param feeTier         Fee-estimate bucket the fee is priced from.
+ * @param multisig        Set when spending from a multisig account.
+ */
+async function selectInputsForSpend(
+  utxos: Utxo[],
+  spendSompi: bigint,
+  paymentOutputs: TxMassOutput[],
+  lockedKeys: Set<string>,
+  network: string,
+  strategy: CoinSelectionStrategyId = DEFAULT_COIN_SELECTION,
+  feeTier: FeeTier = DEFAULT_FEE_TIER,
+  multisig?: MultisigLink,
+): Promise<InputSelection> {
+  let effective = COIN_SELECTION_STRATEGIES[strategy] ? strategy : DEFAULT_COIN_SELECTION;
+  if (COIN_SELECTION_STRATEGIES[effective].changeless) {
+    const exact = await selectChangelessInputs(utxos, spendSompi, paymentOutputs, lockedKeys, network, feeTier, multisig);
+    if (exact) return exact;
+    effective = DEFAULT_COIN_SELECTION;
+  }
+
+  // Select inputs with a 1-input preliminary fee estimate (change included), then refine.
+  let fee = applyFeePolicy(await estimateFee(1, paymentOutputs.length + 1, network, undefined, feeTier));
+  let picked = selectUtxos(utxos, spendSompi, fee, lockedKeys, { strategy: effective });
+  let quote: { fee: bigint; mass: TxMassBreakdown } | null = null;
+
+  for (let attempt = 0; attempt < FEE_REFINE_ATTEMPTS; attempt += 1) {
+    // Re-select when the refined fee is no longer covered.
+    if (picked.total < spendSompi + fee) {
+      picked = selectUtxos(utxos, spendSompi, fee, lockedKeys, { strategy: effective });
+    }
+    const changeAmount = picked.total - spendSompi - fee;
+    quote = await quoteSpendFee(
+      picked.selected,
+      paymentOutputs,
+      changeAmount > 0n ? changeAmount : null,
+      network,
+      feeTier,
+      multisig,
+    );
+
+    if (changeAmount > 0n) {
+      const changeless = await quoteSpendFee(picked.selected, paymentOutputs, null, network, feeTier, multisig);
+      const changeCost = quote.fee - changeless.fee;
+      const dropChange = quote.mass.mass > MAXIMUM_STANDARD_TRANSACTION_MASS || changeAmount <= changeCost;
+      if (dropChange && picked.total - spendSompi >= changeless.fee) {
+        return {
+          inputs: picked.selected,
+          inputTotal: picked.total,
+          fee: picked.total - spendSompi,
+          changeAmount: 0n,
+          strategy: effective,
+          mass: changeless.mass,
+        };
+      }
+    }
+
+    if (quote.fee <= fee) {
+      return {
+        inputs: picked.selected,
+        inputTotal: picked.total,
+        fee,
+        changeAmount: changeAmount > 0n ? changeAmount : 0n,
+        strategy: effective,
+        mass: quote.mass,
+      };
+    }
+    fee = quote.fee;
+  }
+
+  // Did not settle within the refinement budget — use the last quote.
+  if (picked.total < spendSompi + fee) {
+    picked = selectUtxos(utxos, spendSompi, fee, lockedKeys, { strategy: effective });
+  }
+  const changeAmount = picked.total - spendSompi - fee;
+  if (changeAmount < 0n) throw new Error("INSUFFICIENT_FUNDS");
+  return {
+    inputs: picked.selected,
+    inputTotal: picked.total,
+    fee,
+    changeAmount,
+    strategy: effective,
+    mass: quote?.mass ?? (await quoteSpendFee(picked.selected, paymentOutputs, changeAmount, network, feeTier, multisig)).mass,
+  };
+}
+
+/** Mass shapes of the payment outputs (recipients, treasury, OP_RETURN), scripts decoded from their addresses. */
+function paymentMassOutputs(payments: TxOutput[], opReturnHex?: string): TxMassOutput[] {
+  const outputs: TxMassOutput[] = payments.map(addressMassOutput);
+  if (opReturnHex) outputs.push({ amount: 0n, scriptPublicKeyHex: `6a${opReturnHex}` });
+  return outputs;
+}
+
+export interface BuildTxOptions {
+  /** Coin selection strategy (default: largest-first). */
+  coinSelection?: CoinSelectionStrategyId;
+  /** Fee priority tier (default: priority). */
+  feeTier?: FeeTier;
+  /**
+   * Spend from a multisig account (fromAddress is its P2SH address). Outputs
+   * locked by the link's script become multisig inputs; the link is recorded
+   * on the tx for co-signer signatures.
+   */
+  multisig?: MultisigLink;
+}
+
 /**
  * Build a transaction for the given send parameters.
  *
  * Performs coin selection, fee estimation, change calculation, and constructs
- * the PendingTx model. Does NOT sign or broadcast.
+ * the PendingTx model. Does NOT sign or broadcast. Inputs may come from any
+ * address of the sender's HD account; change goes to the change chain.
  *
  * @param fromAddress  Sender's Kaspa address.
  * @param toAddress    Recipient's Kaspa address.
  * @param amountKas    Amount to send in KAS (will be converted to sompi).
  * @param network      Network identifier.
+ * @param opts         Optional coin selection strategy and fee tier.
  * @returns            PendingTx in BUILDING state with inputs, outputs, fee, change.
  */
 export async function buildTransaction(
@@ -74,6 +307,7 @@ export async function buildTransaction(
   toAddress: string,
   amountKas: number,
   network: string,
+  opts: BuildTxOptions = {},
 ): Promise<PendingTx> {
   const amountSompi = kasToSompi(amountKas);
   if (amountSompi <= 0n) throw new Error("AMOUNT_TOO_SMALL");
@@ -84,65 +318,66 @@ export async function buildTransaction(
   // Total that must be covered by UTXOs (recipient + optional treasury)
   const spendSompi = amountSompi + (platformFee ?? 0n);
 
-  // Output count: recipient + change + optional treasury
-  const outputCount = platformFee ? 3 : 2;
+  // Payment outputs: recipient + optional treasury (change is added by selection)
+  const outputs: TxOutput[] = [{ address: toAddress, amount: amountSompi }];
+  if (platformFee && TREASURY_ADDRESS) {
+    outputs.push({ address: TREASURY_ADDRESS, amount: platformFee });
+  }
+  const paymentOutputs = paymentMassOutputs(outputs);
 
   // Get locked UTXOs (inputs already reserved by in-flight txs)
   const lockedKeys = await getLockedUtxoKeys(fromAddress);
 
-  // Fetch or use cached UTXO set
-  const utxoSet = await getOrSyncUtxos(fromAddress, network);
+  // Fetch or use cached UTXO set (all tracked HD addresses of the account)
+  const utxoSet = await getOrSyncAccountUtxos(fromAddress, network);
+  const utxos = opts.multisig ? asMultisigUtxos(utxoSet.utxos, opts.multisig) : utxoSet.utxos;
 
-  // Estimate fee with N outputs (destination [+ treasury] + change) and 1 input
-  // We'll select inputs first with a preliminary fee estimate, then refine.
-  const preliminary = applyFeePolicy(await estimateFee(1, outputCount, network));
-  const { selected, total } = selectUtxos(
-    utxoSet.utxos,
+  const selection = await selectInputsForSpend(
+    utxos,
     spendSompi,
-    preliminary,
+    paymentOutputs,
     lockedKeys,
+    network,
+    opts.coinSelection,
+    opts.feeTier ?? DEFAULT_FEE_TIER,
+    opts.multisig,
   );
 
-  // Refine fee with actual input count
-  const refinedFee = applyFeePolicy(await estimateFee(selected.length, outputCount, network));
-
-  // Re-select with refined fee if coverage changed
-  let inputs = selected;
-  let inputTotal = total;
-  if (total < spendSompi + refinedFee) {
-    const refined = selectUtxos(utxoSet.utxos, spendSompi, refinedFee, lockedKeys);
-    inputs = refined.selected;
-    inputTotal = refined.total;
-  }
-
-  const changeAmount = inputTotal - spendSompi - refinedFee;
-  if (changeAmount < 0n) throw new Error("INSUFFICIENT_FUNDS");
-  const outputs: TxOutput[] = [{ address: toAddress, amount: amountSompi }];
-
-  // Add treasury output when platform fee is active
-  if (platformFee && TREASURY_ADDRESS) {
-    outputs.push({ address: TREASURY_ADDRESS, amount: platformFee });
-  }
-
   const changeOutput: TxOutput | null =
-    changeAmount > 0n ? { address: fromAddress, amount: changeAmount } : null;
+    selection.changeAmount > 0n
+      ? { address: await resolveChangeAddress(fromAddress, network), amount: selection.changeAmount }
+      : null;
 
   const pendingTx: PendingTx = {
     id: crypto.randomUUID(),
     state: "BUILDING",
     fromAddress,
     network,
-    inputs,
+    inputs: selection.inputs,
     outputs,
     changeOutput,
-    fee: refinedFee,
+    fee: selection.fee,
     platformFee: platformFee ?? undefined,
+    coinSelection: selection.strategy,
+    feeTier: opts.feeTier ?? DEFAULT_FEE_TIER,
+    mass: selection.mass,
     builtAt: Date.now(),
+    multisig: opts.multisig
+      ? { ...opts.multisig, cosigners: opts.multisig.cosigners.map(({ label, pubkey }) => ({ label, pubkey })) }
+      : undefined,
   };
 
   return pendingTx;
 }
 
+/** Mark the outputs locked by a multisig account's P2SH script as spendable multisig inputs. */
+function asMultisigUtxos(utxos: Utxo[], link: MultisigLink): Utxo[] {
+  const script = link.scriptPublicKeyHex.toLowerCase();
+  return utxos.map((u) => (
+    u.scriptPublicKey.toLowerCase() === script ? { ...u, scriptClass: "multisig" as const } : u
+  ));
+}
+
 /**
  * Construct the kaspa-wasm Generator and produce a signed-ready transaction.
  * Called by signer.ts after the user confirms in the UI.
@@ -201,10 +436,12 @@ export async function buildKaspaWasmTx(
   const generatorConfig: Record<string, unknown> = {
     entries,
     outputs: outputList,
-    changeAddress: tx.fromAddress,
+    changeAddress: tx.changeOutput?.address ?? tx.fromAddress,
     priorityFee: { sompi: tx.fee },
     networkId: tx.network,
   };
+  // Multisig inputs carry `threshold` signatures; the generator sizes mass for them.
+  if (tx.multisig) generatorConfig.minimumSignatures = tx.multisig.threshold;
 
   const Generator = (kaspa as Record<string, unknown>).Generator as
     | (new (config: unknown) => { next: () => unknown | null })
@@ -224,12 +461,23 @@ export async function buildKaspaWasmTx(
     throw new Error("GENERATOR_EMPTY: Generator produced no transaction. Check UTXO availability.");
   }
 
+  // Timelocked covenant inputs only verify against a tx lock time at or past
+  // their own; the generator always emits lock time 0.
+  const lockTime = covenantLockTime(tx);
+  if (lockTime > 0n) {
+    const inner = (pending as { transaction?: { lockTime?: bigint } }).transaction;
+    if (!inner || !("lockTime" in inner)) {
+      throw new Error("WASM_LOCKTIME_UNAVAILABLE: kaspa-wasm cannot set a transaction lock time in this build");
+    }
+    inner.lockTime = lockTime;
+  }
+
   return pending;
 }
 
 // ── Batch transaction (multi-output) ─────────────────────────────────────────
 
-export interface BatchTxOptions {
+export interface BatchTxOptions extends BuildTxOptions {
   agentJobId?: string;
   opReturnHex?: string;
 }
@@ -237,11 +485,12 @@ export interface BatchTxOptions {
 /**
  * Build a multi-output batch transaction.
  * All recipient outputs are included; one treasury output maximum (not per-recipient).
+ * A recipient's exact amountSompi, when given, is used instead of amountKas.
  * Supports optional OP_RETURN receipt anchoring via opReturnHex.
  */
 export async function buildBatchTransaction(
   fromAddress: string,
-  recipients: Array<{ address: string; amountKas: number }>,
+  recipients: Array<{ address: string; amountKas: number; amountSompi?: bigint }>,
   network: string,
   opts: BatchTxOptions = {},
 ): Promise<PendingTx> {
@@ -249,7 +498,7 @@ export async function buildBatchTransaction(
 
   const recipientOutputs: TxOutput[] = recipients.map((r) => ({
     address: r.address,
-    amount: kasToSompi(r.amountKas),
+    amount: r.amountSompi ?? kasToSompi(r.amountKas),
   }));
 
   const totalRecipientSompi = recipientOutputs.reduce((s, o) => s + o.amount, 0n);
@@ -259,54 +508,560 @@ export async function buildBatchTransaction(
   const platformFee = calcPlatformFee(totalRecipientSompi);
   const spendSompi = totalRecipientSompi + (platformFee ?? 0n);
 
-  // Output count: recipients + change + optional treasury + optional OP_RETURN
-  const outputCount = recipientOutputs.length
-    + 1  // change
-    + (platformFee ? 1 : 0)
-    + (opts.opReturnHex ? 1 : 0);
-
-  const lockedKeys = await getLockedUtxoKeys(fromAddress);
-  const utxoSet = await getOrSyncUtxos(fromAddress, network);
-
-  const preliminary = applyFeePolicy(await estimateFee(1, outputCount, network));
-  const { selected, total } = selectUtxos(utxoSet.utxos, spendSompi, preliminary, lockedKeys);
-
-  const refinedFee = applyFeePolicy(await estimateFee(selected.length, outputCount, network));
-  let inputs = selected;
-  let inputTotal = total;
-  if (inputTotal < spendSompi + refinedFee) {
-    const refined = selectUtxos(utxoSet.utxos, spendSompi, refinedFee, lockedKeys);
-    inputs = refined.selected;
-    inputTotal = refined.total;
-  }
-
-  const changeAmount = inputTotal - spendSompi - refinedFee;
-  if (changeAmount < 0n) throw new Error("INSUFFICIENT_FUNDS");
-
+  // Payment outputs: recipients + optional treasury + optional OP_RETURN (change added by selection)
   const outputs: TxOutput[] = [...recipientOutputs];
   if (platformFee && TREASURY_ADDRESS) {
     outputs.push({ address: TREASURY_ADDRESS, amount: platformFee });
   }
+  const paymentOutputs = paymentMassOutputs(outputs, opts.opReturnHex);
+
+  const lockedKeys = await getLockedUtxoKeys(fromAddress);
+  const utxoSet = await getOrSyncAccountUtxos(fromAddress, network);
+
+  const selection = await selectInputsForSpend(
+    utxoSet.utxos,
+    spendSompi,
+    paymentOutputs,
+    lockedKeys,
+    network,
+    opts.coinSelection,
+    opts.feeTier ?? DEFAULT_FEE_TIER,
+  );
 
   const changeOutput: TxOutput | null =
-    changeAmount > 0n ? { address: fromAddress, amount: changeAmount } : null;
+    selection.changeAmount > 0n
+      ? { address: await resolveChangeAddress(fromAddress, network), amount: selection.changeAmount }
+      : null;
 
   return {
     id: crypto.randomUUID(),
     state: "BUILDING",
     fromAddress,
     network,
-    inputs,
+    inputs: selection.inputs,
     outputs,
     changeOutput,
-    fee: refinedFee,
+    fee: selection.fee,
     platformFee: platformFee ?? undefined,
+    coinSelection: selection.strategy,
+    feeTier: opts.feeTier ?? DEFAULT_FEE_TIER,
+    mass: selection.mass,
     builtAt: Date.now(),
     agentJobId: opts.agentJobId,
     opReturnHex: opts.opReturnHex,
   };
 }
 
+// ── Coin selection comparison ────────────────────────────────────────────────
+
+export interface CoinSelectionQuote {
+  strategy: CoinSelectionStrategyId;
+  /** False when the strategy cannot fund the spend (see error). */
+  ok: boolean;
+  inputCount: number;
+  /** Outputs including change. */
+  outputCount: number;
+  /** Mass (grams) the fee was priced on — max(compute, storage). */
+  mass: number;
+  fee: bigint;
+  changeAmount: bigint;
+  error?: string;
+}
+
+/**
+ * Dry-run every coin selection strategy against the sender's current UTXO set
+ * and report inputs, mass and fee for each. Nothing is stored or locked; a
+ * changeless strategy without an exact match is reported as NO_EXACT_MATCH
+ * rather than silently falling back.
+ */
+export async function compareCoinSelection(
+  fromAddress: string,
+  recipients: Array<{ address: string; amountKas: number }>,
+  network: string,
+  opts: { opReturnHex?: string; feeTier?: FeeTier } = {},
+): Promise<CoinSelectionQuote[]> {
+  const feeTier = opts.feeTier ?? DEFAULT_FEE_TIER;
+  if (!recipients.length) throw new Error("BATCH_EMPTY: at least one recipient required");
+  const totalRecipientSompi = recipients.reduce((s, r) => s + kasToSompi(r.amountKas), 0n);
+  if (totalRecipientSompi <= 0n) throw new Error("AMOUNT_TOO_SMALL");
+
+  const platformFee = calcPlatformFee(totalRecipientSompi);
+  const spendSompi = totalRecipientSompi + (platformFee ?? 0n);
+  const paymentOutputs = paymentMassOutputs(
+    [
+      ...recipients.map((r) => ({ address: r.address, amount: kasToSompi(r.amountKas) })),
+      ...(platformFee && TREASURY_ADDRESS ? [{ address: TREASURY_ADDRESS, amount: platformFee }] : []),
+    ],
+    opts.opReturnHex,
+  );
+
+  const lockedKeys = await getLockedUtxoKeys(fromAddress);
+  const utxoSet = await getOrSyncAccountUtxos(fromAddress, network);
+
+  const quotes: CoinSelectionQuote[] = [];
+  for (const strategy of COIN_SELECTION_STRATEGY_IDS) {
+    try {
+      const selection = COIN_SELECTION_STRATEGIES[strategy].changeless
+        ? await selectChangelessInputs(utxoSet.utxos, spendSompi, paymentOutputs, lockedKeys, network, feeTier)
+        : await selectInputsForSpend(utxoSet.utxos, spendSompi, paymentOutputs, lockedKeys, network, strategy, feeTier);
+      if (!selection) throw new Error("NO_EXACT_MATCH");
+      const outputCount = paymentOutputs.length + (selection.changeAmount > 0n ? 1 : 0);
+      quotes.push({
+        strategy,
+        ok: true,
+        inputCount: selection.inputs.length,
+        outputCount,
+        mass: selection.mass.mass,
+        fee: selection.fee,
+        changeAmount: selection.changeAmount,
+      });
+    } catch (err) {
+      quotes.push({
+        strategy,
+        ok: false,
+        inputCount: 0,
+        outputCount: 0,
+        mass: 0,
+        fee: 0n,
+        changeAmount: 0n,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return quotes;
+}
+
+// ── Fee tiers ────────────────────────────────────────────────────────────────
+
+export interface FeeTierQuote extends FeeTierEstimate {
+  /** Policy-adjusted fee for the quoted mass at this tier's feerate. */
+  fee: bigint;
+}
+
+/**
+ * Quote the fee of a transaction of the given mass at every fee tier, with the
+ * node's expected confirmation time. Uses the same safety buffer and floor as
+ * the builder, so the quote for a built tx's mass matches its fee.
+ */
+export async function quoteFeeTiers(massGrams: number, network: string): Promise<FeeTierQuote[]> {
+  const tiers = await fetchFeeTiers(network);
+  return tiers.map((tier) => ({
+    ...tier,
+    fee: applyFeePolicy(BigInt(Math.max(Math.ceil(massGrams * tier.feerate), 1_000))),
+  }));
+}
+
+// ── Consolidation (self-send) ────────────────────────────────────────────────
+
+/** Policy-adjusted network fee for a consolidation tx (N inputs → 1 output). */
+export async function quoteConsolidationFee(inputCount: number, network: string): Promise<bigint> {
+  return applyFeePolicy(await estimateFee(inputCount, 1, network));
+}
+
+/**
+ * Build a consolidation transaction: spend exactly the given inputs into a
+ * single output back to the wallet. No coin selection, no change output and
+ * no platform fee — the only cost is the network fee.
+ *
+ * @param fromAddress  Sender (account primary) address; also the default destination.
+ * @param inputs       UTXOs to merge (at least two).
+ * @param network      Network identifier.
+ * @param opts         Optional destination and consolidation run metadata.
+ * @throws             "CONSOLIDATION_TOO_FEW_INPUTS" | "CONSOLIDATION_INPUT_LOCKED" |
+ *                     "CONSOLIDATION_DUST" (inputs do not cover the fee).
+ */
+export async function buildConsolidationTransaction(
+  fromAddress: string,
+  inputs: Utxo[],
+  network: string,
+  opts: { destination?: string; consolidation?: PendingTx["consolidation"] } = {},
+): Promise<PendingTx> {
+  if (inputs.length < 2) throw new Error("CONSOLIDATION_TOO_FEW_INPUTS");
+
+  const lockedKeys = await getLockedUtxoKeys(fromAddress);
+  if (inputs.some((u) => lockedKeys.has(`${u.txId}:${u.outputIndex}`))) {
+    throw new Error("CONSOLIDATION_INPUT_LOCKED");
+  }
+
+  const inputTotal = inputs.reduce((acc, u) => acc + u.amount, 0n);
+  const fee = await quoteConsolidationFee(inputs.length, network);
+  const outputAmount = inputTotal - fee;
+  if (outputAmount <= 0n) throw new Error("CONSOLIDATION_DUST");
+
+  return {
+    id: crypto.randomUUID(),
+    state: "BUILDING",
+    fromAddress,
+    network,
+    inputs: [...inputs],
+    outputs: [{ address: opts.destination ?? fromAddress, amount: outputAmount }],
+    changeOutput: null,
+    fee,
+    builtAt: Date.now(),
+    consolidation: opts.consolidation,
+  };
+}
+
+// ── Replace-by-fee (speed-up / cancel) ──────────────────────────────────────
+// A replacement spends exactly the inputs of a broadcast-but-unconfirmed tx at
+// a strictly higher feerate than every member of its replacement group, so
+// the node evicts the old one from its mempool. It is linked to the group
+// root via `replaces`; receipt reconciliation settles whichever one lands.
+
+export interface ReplacementTxOptions {
+  /** Fee tier the replacement is priced at (default: priority). */
+  feeTier?: FeeTier;
+}
+
+/**
+ * Smallest fee giving a tx of `massGrams` a strictly higher feerate than each
+ * of `rivals` (compared as fee × mass cross-products, no floating point).
+ */
+export function minReplacementFee(rivals: PendingTx[], massGrams: number): bigint {
+  let floor = 0n;
+  for (const rival of rivals) {
+    const rivalMass = BigInt(calcTransactionMass(pendingTxMassShape(rival)).mass);
+    if (rivalMass <= 0n) continue;
+    const beat = (rival.fee * BigInt(massGrams)) / rivalMass + 1n;
+    if (beat > floor) floor = beat;
+  }
+  return floor;
+}
+
+/** Root of `tx`'s replacement group plus the broadcast members to outbid. */
+async function loadReplacementTarget(tx: PendingTx): Promise<{ root: PendingTx; rivals: PendingTx[] }> {
+  const group = await getReplacementGroup(tx.id);
+  const members = group.length > 0 ? group : [tx];
+  if (members.some((t) => t.state === "CONFIRMED")) throw new Error("RBF_ALREADY_CONFIRMED");
+  const root = members.find((t) => t.id === (tx.replaces ?? tx.id)) ?? tx;
+  const rivals = members.filter((t) => t.txId && t.state !== "REPLACED");
+  if (!rivals.some(isReplaceable)) throw new Error("RBF_NOT_REPLACEABLE");
+  return { root, rivals };
+}
+
+/** Tier fee for the replacement's exact mass, raised to outbid the rivals. */
+async function quoteReplacementFee(
+  inputs: Utxo[],
+  paymentOutputs: TxMassOutput[],
+  changeAmount: bigint | null,
+  network: string,
+  feeTier: FeeTier,
+  rivals: PendingTx[],
+): Promise<{ fee: bigint; mass: TxMassBreakdown }> {
+  const quote = await quoteSpendFee(inputs, paymentOutputs, changeAmount, network, feeTier);
+  const floor = minReplacementFee(rivals, quote.mass.mass);
+  return { fee: quote.fee > floor ? quote.fee : floor, mass: quote.mass };
+}
+
+/**
+ * Build a speed-up: the original intent (same inputs, outputs and OP_RETURN)
+ * at a higher feerate, the bump paid out of change. Change too small to cover
+ * the bump is folded into the fee.
+ *
+ * @param original  Any member of the replacement group; the root is replaced.
+ * @throws          "RBF_ALREADY_CONFIRMED" | "RBF_NOT_REPLACEABLE" |
+ *                  "RBF_FEE_EXCEEDS_CHANGE" (only a cancel can free more funds).
+ */
+export async function buildSpeedUpTransaction(
+  original: PendingTx,
+  opts: ReplacementTxOptions = {},
+): Promise<PendingTx> {
+  const { root, rivals } = await loadReplacementTarget(original);
+  const feeTier = opts.feeTier ?? DEFAULT_FEE_TIER;
+  const paymentOutputs = paymentMassOutputs(root.outputs, root.opReturnHex);
+  const inputTotal = root.inputs.reduce((acc, u) => acc + u.amount, 0n);
+  const available = inputTotal - root.outputs.reduce((acc, o) => acc + o.amount, 0n);
+
+  let fee = minReplacementFee(rivals, calcTransactionMass(pendingTxMassShape(root)).mass);
+  let quote: { fee: bigint; mass: TxMassBreakdown } | null = null;
+  for (let attempt = 0; attempt < FEE_REFINE_ATTEMPTS; attempt += 1) {
+    const changeAmount = available - fee;
+    const hasChange = root.changeOutput !== null && changeAmount > 0n;
+    quote = await quoteReplacementFee(
+      root.inputs,
+      paymentOutputs,
+      hasChange ? changeAmount : null,
+      root.network,
+      feeTier,
+      rivals,
+    );
+    if (!hasChange) {
+      fee = available;
+      break;
+    }
+    if (quote.fee <= fee) break;
+    fee = quote.fee;
+  }
+
+  if (!quote || available < quote.fee) {
+    throw new Error(
+      `RBF_FEE_EXCEEDS_CHANGE: speed-up needs ${quote?.fee ?? fee} sompi but only ${available} is available without new inputs`,
+    );
+  }
+  const changeAmount = available - fee;
+
+  return {
+    id: crypto.randomUUID(),
+    state: "BUILDING",
+    fromAddress: root.fromAddress,
+    network: root.network,
+    inputs: [...root.inputs],
+    outputs: root.outputs.map((o) => ({ ...o })),
+    changeOutput: root.changeOutput && changeAmount > 0n
+      ? { address: root.changeOutput.address, amount: changeAmount }
+      : null,
+    fee,
+    platformFee: root.platformFee,
+    coinSelection: root.coinSelection,
+    feeTier,
+    mass: quote.mass,
+    builtAt: Date.now(),
+    consolidation: root.consolidation,
+    agentJobId: root.agentJobId,
+    opReturnHex: root.opReturnHex,
+    replaces: root.id,
+    replacementKind: "speed-up",
+  };
+}
+
+/**
+ * Build a cancel: double-spend the original's inputs into a single output
+ * back to the sender, outbidding the original so the payment never lands.
+ *
+ * @param original  Any member of the replacement group; the root is replaced.
+ * @throws          "RBF_ALREADY_CONFIRMED" | "RBF_NOT_REPLACEABLE" | "RBF_CANCEL_DUST".
+ */
+export async function buildCancelTransaction(
+  original: PendingTx,
+  opts: ReplacementTxOptions = {},
+): Promise<PendingTx> {
+  const { root, rivals } = await loadReplacementTarget(original);
+  const feeTier = opts.feeTier ?? DEFAULT_FEE_TIER;
+  const inputTotal = root.inputs.reduce((acc, u) => acc + u.amount, 0n);
+
+  let fee = 0n;
+  let quote: { fee: bigint; mass: TxMassBreakdown } | null = null;
+  for (let attempt = 0; attempt < FEE_REFINE_ATTEMPTS; attempt += 1) {
+    quote = await quoteReplacementFee(
+      root.inputs,
+      [addressMassOutput({ address: root.fromAddress, amount: inputTotal - fee })],
+      null,
+      root.network,
+      feeTier,
+      rivals,
+    );
+    if (quote.fee <= fee) break;
+    fee = quote.fee;
+  }
+
+  const outputAmount = inputTotal - fee;
+  if (!quote || outputAmount <= 0n) throw new Error("RBF_CANCEL_DUST");
+
+  return {
+    id: crypto.randomUUID(),
+    state: "BUILDING",
+    fromAddress: root.fromAddress,
+    network: root.network,
+    inputs: [...root.inputs],
+    outputs: [{ address: root.fromAddress, amount: outputAmount }],
+    changeOutput: null,
+    fee,
+    feeTier,
+    mass: quote.mass,
+    builtAt: Date.now(),
+    replaces: root.id,
+    replacementKind: "cancel",
+  };
+}
+
+// ── KRC-20 commit / reveal ───────────────────────────────────────────────────
+// A KRC-20 operation is an inscription published in two transactions: the
+// commit pays KAS to a P2SH address whose redeem script embeds the inscription,
+// and the reveal spends that output back to the sender, exposing the script.
+// See tx/krc20.ts for the script itself.
+
+export interface Krc20CommitRequest {
+  fromAddress: string;
+  network: string;
+  /** Operation metadata; `step` is set by the builder. */
+  krc20: Omit<Krc20Link, "step">;
+  /** P2SH script public key of `krc20.commitAddress`. */
+  commitScriptPublicKeyHex: string;
+  /** Value locked in the commit output (returned by the reveal minus its fee). */
+  amountSompi: bigint;
+}
+
+/**
+ * Build a KRC-20 commit: a payment of `amountSompi` to the inscription's P2SH
+ * address, funded by regular coin selection with change. No platform fee — the
+ * value returns to the sender in the reveal.
+ */
+export async function buildKrc20CommitTransaction(
+  request: Krc20CommitRequest,
+  opts: BuildTxOptions = {},
+): Promise<PendingTx> {
+  if (request.amountSompi <= 0n) throw new Error("AMOUNT_TOO_SMALL");
+  const feeTier = opts.feeTier ?? DEFAULT_FEE_TIER;
+  const lockedKeys = await getLockedUtxoKeys(request.fromAddress);
+  const utxoSet = await getOrSyncAccountUtxos(request.fromAddress, request.network);
+
+  const selection = await selectInputsForSpend(
+    utxoSet.utxos,
+    request.amountSompi,
+    [{ amount: request.amountSompi, scriptPublicKeyHex: request.commitScriptPublicKeyHex }],
+    lockedKeys,
+    request.network,
+    opts.coinSelection,
+    feeTier,
+  );
+
+  return {
+    id: crypto.randomUUID(),
+    state: "BUILDING",
+    fromAddress: request.fromAddress,
+    network: request.network,
+    inputs: selection.inputs,
+    outputs: [{ address: request.krc20.commitAddress, amount: request.amountSompi }],
+    changeOutput: selection.changeAmount > 0n
+      ? { address: await resolveChangeAddress(request.fromAddress, request.network), amount: selection.changeAmount }
+      : null,
+    fee: selection.fee,
+    coinSelection: selection.strategy,
+    feeTier,
+    mass: selection.mass,
+    builtAt: Date.now(),
+    krc20: { ...request.krc20, step: "commit" },
+  };
+}
+
+/**
+ * Build the reveal for a broadcast commit: spend the commit's P2SH output back
+ * to the sender, the network fee taken from it. The commit output is read from
+ * the node, so the commit must be accepted first.
+ *
+ * @throws "KRC20_NOT_A_COMMIT" | "KRC20_COMMIT_OUTPUT_MISSING" (not accepted yet,
+ *         or already revealed) | "KRC20_REVEAL_DUST".
+ */
+export async function buildKrc20RevealTransaction(
+  commit: PendingTx,
+  opts: { feeTier?: FeeTier } = {},
+): Promise<PendingTx> {
+  const link = commit.krc20;
+  if (!link || link.step !== "commit" || !commit.txId) throw new Error("KRC20_NOT_A_COMMIT");
+  const feeTier = opts.feeTier ?? commit.feeTier ?? DEFAULT_FEE_TIER;
+
+  const commitSet = await syncUtxos(link.commitAddress, commit.network);
+  const output = commitSet.utxos.find((u) => u.txId === commit.txId && u.outputIndex === 0);
+  if (!output) {
+    throw new Error(`KRC20_COMMIT_OUTPUT_MISSING: ${commit.txId}:0 is not an unspent output of ${link.commitAddress}`);
+  }
+  const input: Utxo = { ...output, scriptClass: "inscription" };
+  const signatureScriptBytes = inscriptionSignatureScriptBytes(link.redeemScriptHex);
+
+  let fee = 0n;
+  let mass: TxMassBreakdown | null = null;
+  for (let attempt = 0; attempt < FEE_REFINE_ATTEMPTS; attempt += 1) {
+    mass = await measureTransactionMass({
+      inputs: [{ amount: input.amount, signatureScriptBytes }],
+      outputs: [{ amount: input.amount - fee }],
+    }, commit.network, loadKaspa);
+    const quoted = applyFeePolicy(await estimateFee(1, 1, commit.network, mass.mass, feeTier));
+    if (quoted <= fee) break;
+    fee = quoted;
+  }
+  const returned = input.amount - fee;
+  if (!mass || returned <= 0n) throw new Error("KRC20_REVEAL_DUST");
+
+  return {
+    id: crypto.randomUUID(),
+    state: "BUILDING",
+    fromAddress: commit.fromAddress,
+    network: commit.network,
+    inputs: [input],
+    outputs: [],
+    changeOutput: { address: commit.fromAddress, amount: returned },
+    fee,
+    feeTier,
+    mass,
+    builtAt: Date.now(),
+    krc20: { ...link, step: "reveal" },
+  };
+}
+
+// ── Covenant spends ──────────────────────────────────────────────────────────
+// Script-constrained outputs matched to a known template (tx/covenantScript.ts)
+// are swept in one tx to a single output; the network fee comes out of them.
+
+export interface CovenantSpendRequest {
+  /** Address whose key the templates pay to; signs the inputs. */
+  fromAddress: string;
+  network: string;
+  /** Covenant UTXOs to spend, each with an entry in `covenant.inputs`. */
+  inputs: Utxo[];
+  covenant: CovenantLink;
+  /** Defaults to `fromAddress`. */
+  destination?: string;
+}
+
+/**
+ * Build a covenant sweep: spend exactly the given covenant inputs into one
+ * output. No coin selection, change or platform fee.
+ *
+ * @throws "COVENANT_NO_INPUTS" | "COVENANT_SPEND_MISSING" | "COVENANT_INPUT_LOCKED" |
+ *         "COVENANT_SPEND_DUST" (inputs do not cover the fee).
+ */
+export async function buildCovenantSpendTransaction(
+  request: CovenantSpendRequest,
+  opts: { feeTier?: FeeTier } = {},
+): Promise<PendingTx> {
+  if (request.inputs.length === 0) throw new Error("COVENANT_NO_INPUTS");
+  const feeTier = opts.feeTier ?? DEFAULT_FEE_TIER;
+  const spends = request.inputs.map((u) => {
+    const key = `${u.txId}:${u.outputIndex}`;
+    const spend = request.covenant.inputs.find((entry) => entry.outpoint === key);
+    if (!spend) throw new Error(`COVENANT_SPEND_MISSING: ${key} has no unlock data`);
+    return spend;
+  });
+
+  const lockedKeys = await getLockedUtxoKeys(request.fromAddress);
+  if (request.inputs.some((u) => lockedKeys.has(`${u.txId}:${u.outputIndex}`))) {
+    throw new Error("COVENANT_INPUT_LOCKED");
+  }
+
+  const inputs: Utxo[] = request.inputs.map((u) => ({ ...u, scriptClass: "covenant" }));
+  const inputTotal = inputs.reduce((acc, u) => acc + u.amount, 0n);
+  const massInputs = inputs.map((u, i) => ({ amount: u.amount, signatureScriptBytes: covenantSignatureScriptBytes(spends[i]) }));
+
+  let fee = 0n;
+  let mass: TxMassBreakdown | null = null;
+  for (let attempt = 0; attempt < FEE_REFINE_ATTEMPTS; attempt += 1) {
+    mass = await measureTransactionMass({
+      inputs: massInputs,
+      outputs: [addressMassOutput({ address: request.destination ?? request.fromAddress, amount: inputTotal - fee })],
+    }, request.network, loadKaspa);
+    const quoted = applyFeePolicy(await estimateFee(inputs.length, 1, request.network, mass.mass, feeTier));
+    if (quoted <= fee) break;
+    fee = quoted;
+  }
+  const outputAmount = inputTotal - fee;
+  if (!mass || outputAmount <= 0n) throw new Error("COVENANT_SPEND_DUST");
+
+  return {
+    id: crypto.randomUUID(),
+    state: "BUILDING",
+    fromAddress: request.fromAddress,
+    network: request.network,
+    inputs,
+    outputs: [{ address: request.destination ?? request.fromAddress, amount: outputAmount }],
+    changeOutput: null,
+    fee,
+    feeTier,
+    mass,
+    builtAt: Date.now(),
+    covenant: { inputs: spends },
+  };
+}
+
 /**
  * Encode an agent job receipt as a hex string for OP_RETURN anchoring.
  * Format: "FGOS" magic (4) + jobId slice (16 bytes) + status byte + DAA score (8 bytes LE)
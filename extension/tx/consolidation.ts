@@ -0,0 +1,280 @@
+// UTXO consolidation — merge dust-sized UTXOs with sequential self-sends.
+//
+// planConsolidation() groups spendable UTXOs below a threshold into batches
+// small enough to stay under the standard mass limit and quotes the network
+// fee of each. runConsolidation() executes the plan one tx at a time through
+// the deterministic kernel (build → dry-run → sign → broadcast → reconcile).
+// Every tx carries `consolidation` metadata, so progress survives popup close
+// and can be read back from the tx store with getConsolidationProgress().
+//
+// All amounts in sompi (bigint).
+
+import type { PendingTx } from "./types";
+import type { Utxo } from "../utxo/types";
+import { quoteConsolidationFee } from "./builder";
+import {
+  buildAndValidateConsolidationTx,
+  signBroadcastAndReconcileKaspaTx,
+  DeterministicExecutionError,
+  type DeterministicKernelStage,
+} from "./kernel";
+import { createExecutionRunId } from "./executionTelemetry";
+import { getConsolidationTxs, getLockedUtxoKeys } from "./store";
+import { getOrSyncAccountUtxos } from "../utxo/hdAddresses";
+import { invalidateUtxoCache } from "../utxo/utxoSync";
+
+/** UTXOs strictly below this amount are consolidation candidates (1 KAS). */
+export const DEFAULT_CONSOLIDATION_THRESHOLD_SOMPI = 100_000_000n;
+
+/**
+ * Inputs per consolidation tx. A signed P2PK input weighs ~1.1k grams
+ * (sig-op dominated), so 80 inputs stay under the 100k standard mass limit.
+ */
+export const MAX_CONSOLIDATION_INPUTS = 80;
+
+export interface ConsolidationBatch {
+  inputs: Utxo[];
+  inputTotal: bigint;
+  fee: bigint;
+  /** Single output returned to the wallet. */
+  outputAmount: bigint;
+}
+
+export interface ConsolidationPlan {
+  fromAddress: string;
+  network: string;
+  thresholdSompi: bigint;
+  maxInputsPerTx: number;
+  batches: ConsolidationBatch[];
+  txCount: number;
+  inputCount: number;
+  totalInput: bigint;
+  totalFee: bigint;
+  utxoCountBefore: number;
+  utxoCountAfter: number;
+  /** Candidates left out because their batch could not cover its own fee. */
+  skippedCount: number;
+  plannedAt: number;
+}
+
+export interface PlanConsolidationOptions {
+  thresholdSompi?: bigint;
+  maxInputsPerTx?: number;
+  /** Bypass the UTXO cache. */
+  force?: boolean;
+}
+
+/** Split `items` into the fewest chunks of at most `max`, sized as evenly as possible. */
+function chunkEvenly<T>(items: T[], max: number): T[][] {
+  if (items.length === 0) return [];
+  const count = Math.ceil(items.length / max);
+  const base = Math.floor(items.length / count);
+  let extra = items.length % count;
+  const chunks: T[][] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i += 1) {
+    const size = base + (extra > 0 ? 1 : 0);
+    if (extra > 0) extra -= 1;
+    chunks.push(items.slice(offset, offset + size));
+    offset += size;
+  }
+  return chunks;
+}
+
+/**
+ * Plan the self-sends needed to merge every spendable UTXO below the
+ * threshold. Locked (in-flight) and covenant UTXOs are never touched.
+ * Returns a plan with zero batches when fewer than two candidates exist.
+ */
+export async function planConsolidation(
+  fromAddress: string,
+  network: string,
+  opts: PlanConsolidationOptions = {},
+): Promise<ConsolidationPlan> {
+  const thresholdSompi = opts.thresholdSompi ?? DEFAULT_CONSOLIDATION_THRESHOLD_SOMPI;
+  const maxInputsPerTx = Math.max(2, Math.min(MAX_CONSOLIDATION_INPUTS, Math.floor(opts.maxInputsPerTx ?? MAX_CONSOLIDATION_INPUTS)));
+  if (thresholdSompi <= 0n) throw new Error("CONSOLIDATION_THRESHOLD_INVALID");
+
+  const utxoSet = await getOrSyncAccountUtxos(fromAddress, network, { force: opts.force });
+  const lockedKeys = await getLockedUtxoKeys(fromAddress);
+
+  const candidates = utxoSet.utxos
+    .filter((u) => (u.scriptClass ?? "standard") === "standard")
+    .filter((u) => !lockedKeys.has(`${u.txId}:${u.outputIndex}`))
+    .filter((u) => u.amount < thresholdSompi)
+    .sort((a, b) => (a.amount < b.amount ? -1 : a.amount > b.amount ? 1 : 0));
+
+  const batches: ConsolidationBatch[] = [];
+  let skippedCount = 0;
+  if (candidates.length >= 2) {
+    for (const inputs of chunkEvenly(candidates, maxInputsPerTx)) {
+      if (inputs.length < 2) {
+        skippedCount += inputs.length;
+        continue;
+      }
+      const inputTotal = inputs.reduce((acc, u) => acc + u.amount, 0n);
+      const fee = await quoteConsolidationFee(inputs.length, network);
+      if (inputTotal <= fee) {
+        skippedCount += inputs.length;
+        continue;
+      }
+      batches.push({ inputs, inputTotal, fee, outputAmount: inputTotal - fee });
+    }
+  } else {
+    skippedCount = candidates.length;
+  }
+
+  const inputCount = batches.reduce((acc, b) => acc + b.inputs.length, 0);
+  return {
+    fromAddress,
+    network,
+    thresholdSompi,
+    maxInputsPerTx,
+    batches,
+    txCount: batches.length,
+    inputCount,
+    totalInput: batches.reduce((acc, b) => acc + b.inputTotal, 0n),
+    totalFee: batches.reduce((acc, b) => acc + b.fee, 0n),
+    utxoCountBefore: utxoSet.utxos.length,
+    utxoCountAfter: utxoSet.utxos.length - inputCount + batches.length,
+    skippedCount,
+    plannedAt: Date.now(),
+  };
+}
+
+// ── Execution ─────────────────────────────────────────────────────────────────
+
+export interface ConsolidationProgressUpdate {
+  runId: string;
+  /** 0-based index of the tx being processed. */
+  index: number;
+  total: number;
+  stage: DeterministicKernelStage;
+  tx: PendingTx;
+}
+
+export interface ConsolidationKernel {
+  buildAndValidateConsolidationTx: typeof buildAndValidateConsolidationTx;
+  signBroadcastAndReconcileKaspaTx: typeof signBroadcastAndReconcileKaspaTx;
+}
+
+export interface RunConsolidationOptions {
+  onProgress?: (update: ConsolidationProgressUpdate) => void | Promise<void>;
+  confirmTimeoutMs?: number;
+  confirmPollIntervalMs?: number;
+  /** Kernel override (tests). Defaults to the shared deterministic kernel. */
+  kernel?: ConsolidationKernel;
+}
+
+export interface ConsolidationResult {
+  runId: string;
+  total: number;
+  /** Txs confirmed on-chain, in run order. */
+  confirmed: PendingTx[];
+  feePaid: bigint;
+  /** First failure; later batches are not attempted. */
+  error: string | null;
+  failedTx: PendingTx | null;
+}
+
+/**
+ * Execute a consolidation plan sequentially. Each tx must confirm before the
+ * next one is built, so a failure stops the run with the remaining UTXOs
+ * untouched.
+ */
+export async function runConsolidation(
+  plan: ConsolidationPlan,
+  options: RunConsolidationOptions = {},
+): Promise<ConsolidationResult> {
+  const kernel: ConsolidationKernel = options.kernel ?? {
+    buildAndValidateConsolidationTx,
+    signBroadcastAndReconcileKaspaTx,
+  };
+  const runId = createExecutionRunId("consolidation");
+  const total = plan.batches.length;
+  const confirmed: PendingTx[] = [];
+
+  for (let index = 0; index < total; index += 1) {
+    const batch = plan.batches[index];
+    const notify = async (stage: DeterministicKernelStage, tx: PendingTx) => {
+      await options.onProgress?.({ runId, index, total, stage, tx });
+    };
+    const telemetry = {
+      channel: "manual" as const,
+      runId,
+      context: { surface: "utxo_consolidation", index, total, inputs: batch.inputs.length },
+    };
+
+    try {
+      const validated = await kernel.buildAndValidateConsolidationTx({
+        fromAddress: plan.fromAddress,
+        network: plan.network,
+        inputs: batch.inputs,
+        consolidation: { runId, index, total },
+      }, {
+        onUpdate: ({ stage, tx }) => notify(stage, tx),
+        telemetry,
+      });
+      const reconciled = await kernel.signBroadcastAndReconcileKaspaTx(validated, {
+        awaitConfirmation: true,
+        confirmTimeoutMs: options.confirmTimeoutMs,
+        confirmPollIntervalMs: options.confirmPollIntervalMs,
+        onUpdate: ({ stage, tx }) => notify(stage, tx),
+        telemetry,
+      });
+      confirmed.push(reconciled);
+    } catch (error) {
+      return {
+        runId,
+        total,
+        confirmed,
+        feePaid: confirmed.reduce((acc, tx) => acc + tx.fee, 0n),
+        error: error instanceof Error ? error.message : String(error),
+        failedTx: error instanceof DeterministicExecutionError ? error.tx : null,
+      };
+    } finally {
+      invalidateUtxoCache(plan.fromAddress);
+    }
+  }
+
+  return {
+    runId,
+    total,
+    confirmed,
+    feePaid: confirmed.reduce((acc, tx) => acc + tx.fee, 0n),
+    error: null,
+    failedTx: null,
+  };
+}
+
+export interface ConsolidationProgress {
+  runId: string;
+  total: number;
+  confirmed: number;
+  failed: number;
+  inFlight: number;
+  txs: PendingTx[];
+}
+
+/** Progress of a consolidation run as recorded in the tx store. */
+export async function getConsolidationProgress(runId: string): Promise<ConsolidationProgress> {
+  const recorded = await getConsolidationTxs(runId);
+  // A sped-up step is recorded twice; the member that was not replaced counts.
+  const byIndex = new Map<number, PendingTx>();
+  for (const tx of recorded) {
+    const index = tx.consolidation?.index ?? 0;
+    const existing = byIndex.get(index);
+    if (!existing || existing.state === "REPLACED") byIndex.set(index, tx);
+  }
+  const txs = [...byIndex.values()];
+  const confirmed = txs.filter((t) => t.state === "CONFIRMED").length;
+  const failed = txs.filter((t) => ["FAILED", "CANCELLED", "DRY_RUN_FAIL", "REPLACED"].includes(t.state)).length;
+  return {
+    runId,
+    total: txs[0]?.consolidation?.total ?? 0,
+    confirmed,
+    failed,
+    inFlight: txs.length - confirmed - failed,
+    txs,
+  };
+}
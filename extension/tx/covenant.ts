@@ -0,0 +1,145 @@
+// Covenant spends — unlock script-constrained outputs that match a known
+// template (tx/covenantScript.ts) instead of leaving them stranded.
+//
+//   1. Bare covenant outputs carry their template as the script itself; P2SH
+//      ones need the template script from whoever locked the funds, which
+//      inspectCovenantScript turns into the P2SH address and its UTXOs.
+//   2. spendCovenantOutputs sweeps them to one output through the kernel;
+//      dry-run checks each template's condition (matured timelock, correct
+//      preimage) and the signer fills the matching unlock script.
+
+import type { CovenantInputSpend, PendingTx } from "./types";
+import type { Utxo } from "../utxo/types";
+import {
+  buildAndValidateCovenantSpendTx,
+  signBroadcastAndReconcileKaspaTx,
+  type SignBroadcastReconcileOptions,
+} from "./kernel";
+import {
+  isP2shScript,
+  LOCK_TIME_THRESHOLD,
+  p2shScriptPublicKey,
+  parseCovenantScript,
+  type CovenantTemplate,
+} from "./covenantScript";
+import type { FeeTier } from "../network/feeTiers";
+import { syncUtxos } from "../utxo/utxoSync";
+import { loadKaspaWasm } from "../../src/wallet/kaspaWasmLoader";
+
+type KaspaAddressApi = {
+  addressFromScriptPublicKey: (spk: unknown, network: string) => { toString: () => string } | undefined;
+};
+
+/** Address of a P2SH covenant via kaspa-wasm. */
+export async function covenantP2shAddress(scriptHex: string, network: string): Promise<{ address: string; scriptPublicKeyHex: string }> {
+  const kaspa = await loadKaspaWasm() as unknown as Partial<KaspaAddressApi>;
+  if (!kaspa.addressFromScriptPublicKey) {
+    throw new Error("WASM_P2SH_UNAVAILABLE: kaspa-wasm script API not found");
+  }
+  const scriptPublicKeyHex = await p2shScriptPublicKey(scriptHex);
+  const address = kaspa.addressFromScriptPublicKey({ version: 0, script: scriptPublicKeyHex }, network)?.toString() ?? "";
+  if (!address) throw new Error("COVENANT_ADDRESS_FAILED");
+  return { address, scriptPublicKeyHex };
+}
+
+/** Hex with an optional 0x prefix and whitespace removed, lower-cased. */
+export function normalizeScriptHex(value: string): string {
+  return String(value || "").replace(/\s+/g, "").replace(/^0x/i, "").toLowerCase();
+}
+
+/** Human-readable condition of a template. */
+export function describeCovenantTemplate(template: CovenantTemplate): string {
+  if (template.kind === "hashlock") return `Hash-lock (${template.hash}) · ${template.digest.slice(0, 16)}…`;
+  return template.lockTime < LOCK_TIME_THRESHOLD
+    ? `Timelock · DAA score ${template.lockTime}`
+    : `Timelock · ${new Date(Number(template.lockTime)).toISOString()}`;
+}
+
+/** Template of a bare covenant UTXO; null for P2SH outputs (script needed) or unknown scripts. */
+export function covenantTemplateOfUtxo(utxo: Utxo): CovenantTemplate | null {
+  return isP2shScript(utxo.scriptPublicKey) ? null : parseCovenantScript(utxo.scriptPublicKey);
+}
+
+export interface CovenantInspection {
+  template: CovenantTemplate;
+  address: string;
+  scriptPublicKeyHex: string;
+  /** Unspent outputs currently locked by the script's P2SH address. */
+  utxos: Utxo[];
+}
+
+/**
+ * Recognise a P2SH covenant script and load the outputs it locks.
+ * Throws COVENANT_TEMPLATE_UNKNOWN for scripts outside the known templates.
+ */
+export async function inspectCovenantScript(scriptHex: string, network: string): Promise<CovenantInspection> {
+  const script = normalizeScriptHex(scriptHex);
+  const template = parseCovenantScript(script);
+  if (!template) throw new Error("COVENANT_TEMPLATE_UNKNOWN: not a recognised timelock or hash-lock script");
+  const { address, scriptPublicKeyHex } = await covenantP2shAddress(script, network);
+  const set = await syncUtxos(address, network);
+  const utxos = set.utxos
+    .filter((u) => u.scriptPublicKey.toLowerCase() === scriptPublicKeyHex)
+    .map((u) => ({ ...u, scriptClass: "covenant" as const }));
+  return { template, address, scriptPublicKeyHex, utxos };
+}
+
+export interface CovenantSpendInput {
+  /** Address holding the key the templates pay to; signs the spend. */
+  fromAddress: string;
+  network: string;
+  utxos: Utxo[];
+  /** Template script for P2SH outputs (bare outputs carry their own). */
+  scriptHex?: string;
+  /** Hash-lock secret, hex. */
+  preimageHex?: string;
+  /** Defaults to `fromAddress`. */
+  destination?: string;
+  feeTier?: FeeTier;
+}
+
+/** Unlock data for each UTXO. Throws COVENANT_SCRIPT_REQUIRED for P2SH outputs without a script. */
+export function covenantSpendsFor(input: Pick<CovenantSpendInput, "utxos" | "scriptHex" | "preimageHex">): CovenantInputSpend[] {
+  const preimageHex = input.preimageHex ? normalizeScriptHex(input.preimageHex) : undefined;
+  return input.utxos.map((u) => {
+    const outpoint = `${u.txId}:${u.outputIndex}`;
+    const p2sh = isP2shScript(u.scriptPublicKey);
+    const scriptHex = p2sh ? normalizeScriptHex(input.scriptHex ?? "") : u.scriptPublicKey.toLowerCase();
+    if (!scriptHex) throw new Error(`COVENANT_SCRIPT_REQUIRED: ${outpoint} is P2SH; supply its script`);
+    const template = parseCovenantScript(scriptHex);
+    return {
+      outpoint,
+      scriptHex,
+      p2sh,
+      ...(template?.kind === "hashlock" && preimageHex ? { preimageHex } : {}),
+    };
+  });
+}
+
+type CovenantKernel = {
+  buildAndValidateCovenantSpendTx: typeof buildAndValidateCovenantSpendTx;
+  signBroadcastAndReconcileKaspaTx: typeof signBroadcastAndReconcileKaspaTx;
+};
+
+const DEFAULT_KERNEL: CovenantKernel = { buildAndValidateCovenantSpendTx, signBroadcastAndReconcileKaspaTx };
+
+/**
+ * Sweep covenant outputs to one address: build, dry-run (template conditions
+ * included), sign, broadcast and reconcile. Failures surface as
+ * DeterministicExecutionError from the kernel.
+ */
+export async function spendCovenantOutputs(
+  input: CovenantSpendInput,
+  options: SignBroadcastReconcileOptions = {},
+  kernel: CovenantKernel = DEFAULT_KERNEL,
+): Promise<PendingTx> {
+  const validated = await kernel.buildAndValidateCovenantSpendTx({
+    fromAddress: input.fromAddress,
+    network: input.network,
+    inputs: input.utxos,
+    covenant: { inputs: covenantSpendsFor(input) },
+    destination: input.destination,
+    feeTier: input.feeTier,
+  }, { onUpdate: options.onUpdate, telemetry: options.telemetry });
+  return kernel.signBroadcastAndReconcileKaspaTx(validated, options);
+}
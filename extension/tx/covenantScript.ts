@@ -0,0 +1,199 @@
+// Covenant script templates and their spend conditions.
+//
+//   timelock:  <lock time> OP_CHECKLOCKTIMEVERIFY <x-only pubkey> OP_CHECKSIG
+//              unlock: <sig>            (tx lock time ≥ script lock time)
+//   hash-lock: OP_SHA256|OP_BLAKE2B <32-byte hash> OP_EQUALVERIFY <x-only pubkey> OP_CHECKSIG
+//              unlock: <sig> <preimage>
+//
+// A covenant output is either locked by the template itself or by its P2SH
+// hash (OP_BLAKE2B <hash> OP_EQUAL); P2SH unlocks also push the template.
+// Kaspa's OP_CHECKLOCKTIMEVERIFY pops its operand, so no OP_DROP follows it.
+// Lock times below LOCK_TIME_THRESHOLD are DAA scores, otherwise Unix ms.
+// Shared by tx/covenant.ts, the builder, the dry-run and the signer.
+
+import type { CovenantInputSpend, PendingTx } from "./types";
+
+export const LOCK_TIME_THRESHOLD = 500_000_000_000n;
+/** Largest hash-lock preimage accepted (one OP_PUSHDATA1 push). */
+export const COVENANT_MAX_PREIMAGE_BYTES = 255;
+
+const OP_SHA256 = "a8";
+const OP_BLAKE2B = "aa";
+const OP_EQUAL = "87";
+const OP_EQUALVERIFY = "88";
+const OP_CHECKSIG = "ac";
+const OP_CHECKLOCKTIMEVERIFY = "b0";
+
+export type CovenantTemplate =
+  | { kind: "timelock"; lockTime: bigint; pubkey: string }
+  | { kind: "hashlock"; hash: "sha256" | "blake2b"; digest: string; pubkey: string };
+
+/** Hex of one data push (OP_DATA_n / OP_PUSHDATA1). */
+export function scriptPushHex(dataHex: string): string {
+  const length = dataHex.length / 2;
+  if (length <= 75) return length.toString(16).padStart(2, "0") + dataHex;
+  return "4c" + length.toString(16).padStart(2, "0") + dataHex;
+}
+
+/** Read a data push at `pos` (hex chars): OP_DATA_1..75 or OP_1..OP_16. */
+function readPush(hex: string, pos: number): { data: string; next: number } | null {
+  const op = parseInt(hex.slice(pos, pos + 2), 16);
+  if (op >= 0x01 && op <= 0x4b) {
+    const end = pos + 2 + op * 2;
+    return end <= hex.length ? { data: hex.slice(pos + 2, end), next: end } : null;
+  }
+  if (op >= 0x51 && op <= 0x60) return { data: (op - 0x50).toString(16).padStart(2, "0"), next: pos + 2 };
+  return null;
+}
+
+/** Little-endian unsigned lock time, as OP_CHECKLOCKTIMEVERIFY reads it (≤ 8 bytes). */
+function readLockTime(dataHex: string): bigint | null {
+  if (dataHex.length === 0 || dataHex.length > 16) return null;
+  let value = 0n;
+  for (let i = dataHex.length - 2; i >= 0; i -= 2) value = (value << 8n) | BigInt(parseInt(dataHex.slice(i, i + 2), 16));
+  return value;
+}
+
+/** Lock time as its minimal little-endian push. */
+export function encodeLockTimePush(lockTime: bigint): string {
+  if (lockTime >= 1n && lockTime <= 16n) return (0x50 + Number(lockTime)).toString(16);
+  let hex = "";
+  for (let v = lockTime; v > 0n; v >>= 8n) hex += (v & 0xffn).toString(16).padStart(2, "0");
+  return scriptPushHex(hex || "00");
+}
+
+/** Recognise a timelock or hash-lock template; null for anything else. */
+export function parseCovenantScript(scriptHex: string): CovenantTemplate | null {
+  const hex = String(scriptHex || "").trim().toLowerCase();
+  if (!/^([0-9a-f]{2})+$/.test(hex)) return null;
+
+  const tail = hex.match(/20([0-9a-f]{64})ac$/);
+  if (!tail || tail.index! % 2 !== 0) return null;
+  const pubkey = tail[1];
+  const body = hex.slice(0, -tail[0].length);
+
+  const hashlock = body.match(/^(a8|aa)20([0-9a-f]{64})88$/);
+  if (hashlock) {
+    return { kind: "hashlock", hash: hashlock[1] === OP_SHA256 ? "sha256" : "blake2b", digest: hashlock[2], pubkey };
+  }
+
+  const push = readPush(body, 0);
+  if (push && body.slice(push.next) === OP_CHECKLOCKTIMEVERIFY) {
+    const lockTime = readLockTime(push.data);
+    if (lockTime !== null && lockTime > 0n) return { kind: "timelock", lockTime, pubkey };
+  }
+  return null;
+}
+
+/** Timelock template script for `pubkey`. */
+export function buildTimelockScript(lockTime: bigint, pubkey: string): string {
+  return `${encodeLockTimePush(lockTime)}${OP_CHECKLOCKTIMEVERIFY}20${pubkey.toLowerCase()}${OP_CHECKSIG}`;
+}
+
+/** Hash-lock template script for `pubkey`. */
+export function buildHashlockScript(hash: "sha256" | "blake2b", digestHex: string, pubkey: string): string {
+  const op = hash === "sha256" ? OP_SHA256 : OP_BLAKE2B;
+  return `${op}20${digestHex.toLowerCase()}${OP_EQUALVERIFY}20${pubkey.toLowerCase()}${OP_CHECKSIG}`;
+}
+
+function hexBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i += 1) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+export async function hashPreimage(hash: "sha256" | "blake2b", preimageHex: string): Promise<string> {
+  const { blake2b, sha256 } = await import("hash-wasm");
+  const data = hexBytes(preimageHex);
+  return hash === "sha256" ? sha256(data) : blake2b(data, 256);
+}
+
+/** P2SH script public key of a template: OP_BLAKE2B <blake2b-256(script)> OP_EQUAL. */
+export async function p2shScriptPublicKey(scriptHex: string): Promise<string> {
+  const { blake2b } = await import("hash-wasm");
+  return `${OP_BLAKE2B}20${await blake2b(hexBytes(scriptHex.toLowerCase()), 256)}${OP_EQUAL}`;
+}
+
+export function isP2shScript(scriptPublicKey: string): boolean {
+  return /^aa20[0-9a-f]{64}87$/i.test(String(scriptPublicKey || ""));
+}
+
+function covenantSpendFor(tx: PendingTx, key: string): CovenantInputSpend | undefined {
+  return tx.covenant?.inputs.find((spend) => spend.outpoint === key);
+}
+
+/** Lock time the tx must carry: the latest timelock among its covenant inputs (0n for none). */
+export function covenantLockTime(tx: PendingTx): bigint {
+  let lockTime = 0n;
+  for (const spend of tx.covenant?.inputs ?? []) {
+    const template = parseCovenantScript(spend.scriptHex);
+    if (template?.kind === "timelock" && template.lockTime > lockTime) lockTime = template.lockTime;
+  }
+  return lockTime;
+}
+
+/** Signature script of a covenant input: <sig> [<preimage>] [<template>]. */
+export function covenantSignatureScript(spend: CovenantInputSpend, signaturePush: string): string {
+  return signaturePush
+    + (spend.preimageHex ? scriptPushHex(spend.preimageHex.toLowerCase()) : "")
+    + (spend.p2sh ? scriptPushHex(spend.scriptHex.toLowerCase()) : "");
+}
+
+export interface CovenantChainState {
+  /** Current virtual DAA score; null when the node could not be reached. */
+  daaScore: bigint | null;
+  nowMs: number;
+}
+
+/**
+ * Dry-run check for covenant inputs: each is unlocked by a recognised
+ * template matching its script, timelocks have matured, and hash-lock
+ * preimages hash to the locked digest.
+ */
+export async function covenantTemplateErrors(tx: PendingTx, chain: CovenantChainState): Promise<string[]> {
+  const errors: string[] = [];
+  const lockDomains = new Set<boolean>();
+
+  for (const input of tx.inputs) {
+    if ((input.scriptClass ?? "standard") !== "covenant") continue;
+    const key = `${input.txId}:${input.outputIndex}`;
+    const spend = covenantSpendFor(tx, key);
+    if (!spend) {
+      errors.push(`COVENANT_SPEND_MISSING: ${key} has no unlock data`);
+      continue;
+    }
+    const template = parseCovenantScript(spend.scriptHex);
+    if (!template) {
+      errors.push(`COVENANT_TEMPLATE_UNKNOWN: ${key} is not a recognised timelock or hash-lock script`);
+      continue;
+    }
+    const lockingScript = spend.p2sh ? await p2shScriptPublicKey(spend.scriptHex) : spend.scriptHex.toLowerCase();
+    if (lockingScript !== input.scriptPublicKey.toLowerCase()) {
+      errors.push(`COVENANT_SCRIPT_MISMATCH: ${key} is not locked by the supplied script`);
+      continue;
+    }
+
+    if (template.kind === "timelock") {
+      const isDaa = template.lockTime < LOCK_TIME_THRESHOLD;
+      lockDomains.add(isDaa);
+      if (isDaa && chain.daaScore === null) {
+        errors.push(`COVENANT_DAA_UNAVAILABLE: cannot check the timelock of ${key}`);
+      } else if (isDaa && chain.daaScore! <= template.lockTime) {
+        errors.push(`COVENANT_TIMELOCK_PENDING: ${key} unlocks at DAA score ${template.lockTime} (current ${chain.daaScore})`);
+      } else if (!isDaa && BigInt(chain.nowMs) <= template.lockTime) {
+        errors.push(`COVENANT_TIMELOCK_PENDING: ${key} unlocks at ${new Date(Number(template.lockTime)).toISOString()}`);
+      }
+    } else if (!spend.preimageHex) {
+      errors.push(`COVENANT_PREIMAGE_MISSING: ${key} needs the hash-lock secret`);
+    } else if (!/^([0-9a-f]{2})+$/i.test(spend.preimageHex) || spend.preimageHex.length / 2 > COVENANT_MAX_PREIMAGE_BYTES) {
+      errors.push(`COVENANT_PREIMAGE_MISMATCH: ${key} preimage must be 1–${COVENANT_MAX_PREIMAGE_BYTES} hex bytes`);
+    } else if ((await hashPreimage(template.hash, spend.preimageHex)) !== template.digest) {
+      errors.push(`COVENANT_PREIMAGE_MISMATCH: ${key} preimage does not hash to the locked ${template.hash} digest`);
+    }
+  }
+
+  if (lockDomains.size > 1) {
+    errors.push("COVENANT_LOCKTIME_CONFLICT: DAA-score and timestamp timelocks cannot be spent together");
+  }
+  return errors;
+}
@@ -1,10 +1,20 @@
-// Dry-run validator — 5 mandatory checks before any transaction is signed.
+// Dry-run validator — mandatory checks before any transaction is signed.
 // Fail-closed: any single check failure blocks the entire pipeline.
 
 import type { PendingTx, DryRunResult } from "./types";
 import { syncUtxos } from "../utxo/utxoSync";
-import { estimateFee } from "../network/kaspaClient";
+import { estimateFee, fetchDagInfo } from "../network/kaspaClient";
 import { isKaspaAddress } from "../../src/helpers";
+import { DEFAULT_FEE_TIER } from "../network/feeTiers";
+import { loadKaspaWasm } from "../../src/wallet/kaspaWasmLoader";
+import {
+  formatMassBreakdown,
+  MAXIMUM_STANDARD_TRANSACTION_MASS,
+  measureTransactionMass,
+  pendingTxMassShape,
+} from "./mass";
+import { multisigThresholdErrors } from "./multisigScript";
+import { covenantTemplateErrors } from "./covenantScript";
 
 const NETWORK_PREFIXES: Record<string, string> = {
   mainnet: "kaspa:",
@@ -14,14 +24,19 @@ const NETWORK_PREFIXES: Record<string, string> = {
 };
 
 /**
- * Run all 5 dry-run validation checks on a built transaction.
+ * Run all dry-run validation checks on a built transaction.
  *
  * Checks performed:
  *  1. UTXO availability  — all selected inputs still exist and are unspent.
- *  2. Fee correctness    — actual network fee ≤ estimated fee (rejects under-priced txs).
+ *  2. Fee correctness    — network fee for the tx's exact mass ≤ built fee (rejects
+ *                          under-priced txs and txs above the standard mass limit).
  *  3. Balance integrity  — inputs == outputs + change + fee (no value creation/loss).
  *  4. Destination integrity — all output addresses are valid Kaspa addresses.
  *  5. Network match      — output/change address prefixes must match tx.network.
+ *  6. Multisig threshold — multisig spends carry signatures from at least m of
+ *                          their n co-signers (skipped for single-key txs).
+ *  7. Covenant conditions — covenant inputs match a known template whose
+ *                          timelock has matured / hash-lock preimage is correct.
  *
  * @returns DryRunResult — always returned (never throws); check .valid.
  */
@@ -29,19 +44,16 @@ export async function dryRunValidate(tx: PendingTx): Promise<DryRunResult> {
   const errors: string[] = [];
 
   // ── CHECK 1: UTXO availability ────────────────────────────────────────────
-  let utxoSet;
   try {
-    const covenantInputs = tx.inputs.filter((input) => (input.scriptClass ?? "standard") === "covenant");
-    if (covenantInputs.length > 0) {
-      errors.push(
-        `COVENANT_INPUT_UNSUPPORTED: ${covenantInputs.length} covenant UTXO(s) require covenant-aware spend logic`,
+    // Force a fresh network fetch to catch concurrent spends (bypass cache).
+    // HD sends may spend from several account addresses — sync each of them.
+    const inputAddresses = [tx.fromAddress, ...tx.inputs.map((inp) => inp.address)]
+      .filter((address, i, all) =>
+        address && all.findIndex((a) => a.toLowerCase() === address.toLowerCase()) === i,
       );
-    }
-
-    // Force a fresh network fetch to catch concurrent spends (bypass cache)
-    utxoSet = await syncUtxos(tx.fromAddress, tx.network);
+    const utxoSets = await Promise.all(inputAddresses.map((address) => syncUtxos(address, tx.network)));
     const utxoIndex = new Set(
-      utxoSet.utxos.map((u) => `${u.txId}:${u.outputIndex}`),
+      utxoSets.flatMap((set) => set.utxos.map((u) => `${u.txId}:${u.outputIndex}`)),
     );
     for (const inp of tx.inputs) {
       const key = `${inp.txId}:${inp.outputIndex}`;
@@ -54,12 +66,22 @@ export async function dryRunValidate(tx: PendingTx): Promise<DryRunResult> {
   }
 
   // ── CHECK 2: Fee correctness ──────────────────────────────────────────────
+  // Price the exact mass of this transaction: compute mass measured by
+  // kaspa-wasm (local port only when it cannot load) and KIP-9 storage mass.
+  const shape = pendingTxMassShape(tx);
+  const mass = await measureTransactionMass(shape, tx.network, loadKaspaWasm);
+  if (mass.mass > MAXIMUM_STANDARD_TRANSACTION_MASS) {
+    errors.push(`MASS_TOO_HIGH: ${formatMassBreakdown(mass)} exceeds standard limit ${MAXIMUM_STANDARD_TRANSACTION_MASS}`);
+  }
+
   let actualFee: bigint;
   try {
-    actualFee = await estimateFee(tx.inputs.length, tx.outputs.length + (tx.changeOutput ? 1 : 0), tx.network);
+    actualFee = await estimateFee(shape.inputs.length, shape.outputs.length, tx.network, mass.mass, tx.feeTier ?? DEFAULT_FEE_TIER);
     // Allow up to 2× overestimate (user pays slightly more is fine; under-pay fails node)
     if (tx.fee < actualFee) {
-      errors.push(`FEE_TOO_LOW: estimated ${tx.fee.toString()} sompi, network requires ${actualFee.toString()} sompi`);
+      errors.push(
+        `FEE_TOO_LOW: estimated ${tx.fee.toString()} sompi, network requires ${actualFee.toString()} sompi for ${formatMassBreakdown(mass)}`,
+      );
     }
   } catch {
     // Non-fatal: node might be temporarily unreachable; use the built fee
@@ -104,10 +126,21 @@ export async function dryRunValidate(tx: PendingTx): Promise<DryRunResult> {
     }
   }
 
+  // ── CHECK 6: Multisig threshold ───────────────────────────────────────────
+  errors.push(...multisigThresholdErrors(tx));
+
+  // ── CHECK 7: Covenant conditions ──────────────────────────────────────────
+  if (tx.inputs.some((input) => input.scriptClass === "covenant")) {
+    const dag = await fetchDagInfo(tx.network);
+    const daaScore = /^\d+$/.test(String(dag?.virtualDaaScore ?? "")) ? BigInt(dag!.virtualDaaScore) : null;
+    errors.push(...await covenantTemplateErrors(tx, { daaScore, nowMs: Date.now() }));
+  }
+
   return {
     valid: errors.length === 0,
     estimatedFee: actualFee ?? tx.fee,
     changeAmount: tx.changeOutput?.amount ?? 0n,
     errors,
+    mass,
   };
 }
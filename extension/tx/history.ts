@@ -0,0 +1,397 @@
+// Transaction history.
+// The tx store only knows transactions this extension built. History pulls the
+// account's full transaction list from the REST backends, merges it with local
+// PendingTx records (agent job ids, OP_RETURN receipts, txs not yet indexed)
+// and kaspa-native swap settlements, and classifies every entry.
+//
+// Remote pages are fetched for every address of the account (HD receive and
+// change included) and cached in chrome.storage.local per network + address as
+// normalised records with amounts as decimal strings. Classification is done
+// on read, so it always reflects the current local store.
+
+import {
+  fetchAddressFullTransactions,
+  type KaspaFullTransaction,
+} from "../network/kaspaClient";
+import { loadPendingTxs } from "./store";
+import { listSwapSettlements } from "../swap/settlementStore";
+import type { SwapSettlementRecord } from "../swap/settlement";
+import type { PendingTx } from "./types";
+
+export const TX_HISTORY_STORAGE_KEY = "forgeos.tx.history.v1";
+export const TX_HISTORY_PAGE_SIZE = 25;
+
+/** Remote records kept per address; older pages are refetched on demand. */
+const MAX_CACHED_REMOTE_TXS = 500;
+/** Cached first page is reused for this long before a background refresh. */
+const REFRESH_TTL_MS = 60_000;
+
+export type TxHistoryKind = "send" | "receive" | "self" | "agent" | "swap";
+export type TxHistoryStatus = "pending" | "confirmed" | "failed";
+
+export interface TxHistoryEntry {
+  /** Network transaction id. */
+  txId: string;
+  kind: TxHistoryKind;
+  status: TxHistoryStatus;
+  /** Block time when known, otherwise when the local tx was broadcast/built. */
+  timestamp: number;
+  /** Net change to the account in sompi: positive received, negative sent (fee included). */
+  netSompi: bigint;
+  /** Network fee, when this account funded the transaction. */
+  feeSompi?: bigint;
+  /** Destinations of a send, or funding addresses of a receive. */
+  counterparties: string[];
+  blueScore?: number;
+  /** OP_RETURN payload hex (agent receipts). */
+  receiptHex?: string;
+  agentJobId?: string;
+  /** PendingTx.id of the matching local record. */
+  localId?: string;
+  /** SwapSettlementRecord.id of the matching swap. */
+  swapId?: string;
+  /** Where the entry came from: indexer only, local store only, or both. */
+  source: "remote" | "local" | "merged";
+}
+
+export interface TxHistoryPage {
+  entries: TxHistoryEntry[];
+  /** More entries exist locally past `limit`, or older remote pages are unfetched. */
+  hasMore: boolean;
+  updatedAt: number | null;
+}
+
+// ── Normalised remote records ─────────────────────────────────────────────────
+
+interface HistoryIo {
+  address: string;
+  amountSompi: string;
+}
+
+export interface RemoteHistoryTx {
+  txId: string;
+  blockTime: number | null;
+  accepted: boolean;
+  blueScore?: number;
+  inputs: HistoryIo[];
+  outputs: HistoryIo[];
+  opReturnHex?: string;
+}
+
+interface HistoryCacheEntry {
+  txs: RemoteHistoryTx[];
+  /** Oldest page reached — no more remote transactions to fetch. */
+  exhausted: boolean;
+  updatedAt: number;
+}
+
+type HistoryCache = Record<string, HistoryCacheEntry>;
+
+function amountString(value: unknown): string {
+  const s = String(value ?? "0").trim();
+  return /^[0-9]+$/.test(s) ? s : "0";
+}
+
+/** Normalise an indexer transaction. Returns null when it has no id. */
+export function normalizeRemoteTransaction(raw: KaspaFullTransaction): RemoteHistoryTx | null {
+  const txId = typeof raw?.transaction_id === "string" ? raw.transaction_id : "";
+  if (!txId) return null;
+  const outputs: HistoryIo[] = [];
+  let opReturnHex: string | undefined;
+  for (const o of raw.outputs ?? []) {
+    const script = String(o.script_public_key ?? "").toLowerCase();
+    if (script.startsWith("6a")) {
+      opReturnHex = script.slice(2) || undefined;
+      continue;
+    }
+    if (!o.script_public_key_address) continue;
+    outputs.push({ address: o.script_public_key_address, amountSompi: amountString(o.amount) });
+  }
+  return {
+    txId,
+    blockTime: typeof raw.block_time === "number" && Number.isFinite(raw.block_time) ? raw.block_time : null,
+    accepted: raw.is_accepted === true,
+    blueScore: typeof raw.accepting_block_blue_score === "number" ? raw.accepting_block_blue_score : undefined,
+    inputs: (raw.inputs ?? [])
+      .filter((i) => Boolean(i.previous_outpoint_address))
+      .map((i) => ({ address: i.previous_outpoint_address!, amountSompi: amountString(i.previous_outpoint_amount) })),
+    outputs,
+    opReturnHex,
+  };
+}
+
+// ── Classification & merge ────────────────────────────────────────────────────
+
+function ownSet(addresses: string[]): Set<string> {
+  return new Set(addresses.map((a) => a.trim().toLowerCase()).filter(Boolean));
+}
+
+function uniq(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function localStatus(tx: PendingTx): TxHistoryStatus {
+  if (tx.state === "CONFIRMED") return "confirmed";
+  if (tx.state === "FAILED") return "failed";
+  return "pending";
+}
+
+/** Local txs that may exist on the network (built-only and cancelled drafts never do). */
+function isHistoryCandidate(tx: PendingTx): boolean {
+  return Boolean(tx.txId) && ["BROADCASTING", "CONFIRMING", "CONFIRMED", "FAILED"].includes(tx.state);
+}
+
+function kindFor(
+  base: "send" | "receive" | "self",
+  local: PendingTx | undefined,
+  swap: SwapSettlementRecord | undefined,
+): TxHistoryKind {
+  if (swap) return "swap";
+  if (local?.agentJobId) return "agent";
+  return base;
+}
+
+function entryFromRemote(
+  tx: RemoteHistoryTx,
+  own: Set<string>,
+  local: PendingTx | undefined,
+  swap: SwapSettlementRecord | undefined,
+): TxHistoryEntry {
+  const isOwn = (a: string) => own.has(a.toLowerCase());
+  const ownIn = tx.inputs.filter((i) => isOwn(i.address)).reduce((acc, i) => acc + BigInt(i.amountSompi), 0n);
+  const ownOut = tx.outputs.filter((o) => isOwn(o.address)).reduce((acc, o) => acc + BigInt(o.amountSompi), 0n);
+  const funded = ownIn > 0n;
+  const external = tx.outputs.filter((o) => !isOwn(o.address));
+
+  let base: "send" | "receive" | "self";
+  if (!funded) base = "receive";
+  else base = external.length === 0 ? "self" : "send";
+
+  let feeSompi: bigint | undefined;
+  if (funded && tx.inputs.every((i) => isOwn(i.address))) {
+    const totalIn = tx.inputs.reduce((acc, i) => acc + BigInt(i.amountSompi), 0n);
+    const totalOut = tx.outputs.reduce((acc, o) => acc + BigInt(o.amountSompi), 0n);
+    feeSompi = totalIn > totalOut ? totalIn - totalOut : 0n;
+  }
+
+  const counterparties = funded
+    ? external.map((o) => o.address)
+    : tx.inputs.filter((i) => !isOwn(i.address)).map((i) => i.address);
+
+  return {
+    txId: tx.txId,
+    kind: kindFor(base, local, swap),
+    status: tx.accepted ? "confirmed" : local?.state === "FAILED" ? "failed" : "pending",
+    timestamp: tx.blockTime ?? local?.broadcastAt ?? local?.builtAt ?? 0,
+    netSompi: ownOut - ownIn,
+    feeSompi: feeSompi ?? local?.fee,
+    counterparties: uniq(counterparties),
+    blueScore: tx.blueScore,
+    receiptHex: tx.opReturnHex ?? local?.opReturnHex,
+    agentJobId: local?.agentJobId,
+    localId: local?.id,
+    swapId: swap?.id,
+    source: local ? "merged" : "remote",
+  };
+}
+
+function entryFromLocal(tx: PendingTx, own: Set<string>, swap: SwapSettlementRecord | undefined): TxHistoryEntry {
+  const external = tx.outputs.filter((o) => !own.has(o.address.toLowerCase()));
+  const sent = external.reduce((acc, o) => acc + o.amount, 0n);
+  return {
+    txId: tx.txId!,
+    kind: kindFor(external.length === 0 ? "self" : "send", tx, swap),
+    status: localStatus(tx),
+    timestamp: tx.confirmedAt ?? tx.broadcastAt ?? tx.builtAt,
+    netSompi: -(sent + tx.fee),
+    feeSompi: tx.fee,
+    counterparties: uniq(external.map((o) => o.address)),
+    receiptHex: tx.opReturnHex,
+    agentJobId: tx.agentJobId,
+    localId: tx.id,
+    swapId: swap?.id,
+    source: "local",
+  };
+}
+
+/**
+ * Merge indexer records with local txs and swap settlements into one history,
+ * newest first. Local txs the indexer has not seen yet (in flight, or failed
+ * broadcasts) are included from the local record alone.
+ */
+export function mergeTxHistory(
+  remote: RemoteHistoryTx[],
+  local: PendingTx[],
+  swaps: SwapSettlementRecord[],
+  ownAddresses: string[],
+): TxHistoryEntry[] {
+  const own = ownSet(ownAddresses);
+  const localByTxId = new Map<string, PendingTx>();
+  for (const tx of local) {
+    if (!isHistoryCandidate(tx)) continue;
+    if (!own.has(tx.fromAddress.toLowerCase())) continue;
+    const current = localByTxId.get(tx.txId!);
+    if (!current || tx.builtAt > current.builtAt) localByTxId.set(tx.txId!, tx);
+  }
+  const swapByTxId = new Map<string, SwapSettlementRecord>();
+  for (const swap of swaps) {
+    if (swap.routeSource === "kaspa_native" && swap.txHash) swapByTxId.set(swap.txHash, swap);
+  }
+
+  const entries = new Map<string, TxHistoryEntry>();
+  for (const tx of remote) {
+    if (entries.has(tx.txId)) continue;
+    entries.set(tx.txId, entryFromRemote(tx, own, localByTxId.get(tx.txId), swapByTxId.get(tx.txId)));
+  }
+  for (const [txId, tx] of localByTxId) {
+    if (entries.has(txId)) continue;
+    entries.set(txId, entryFromLocal(tx, own, swapByTxId.get(txId)));
+  }
+  return [...entries.values()].sort((a, b) => b.timestamp - a.timestamp || a.txId.localeCompare(b.txId));
+}
+
+// ── Cache ─────────────────────────────────────────────────────────────────────
+
+function cacheKey(address: string, network: string): string {
+  return `${network}:${address.toLowerCase()}`;
+}
+
+async function readCache(): Promise<HistoryCache> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(TX_HISTORY_STORAGE_KEY, (result) => {
+      const raw = result?.[TX_HISTORY_STORAGE_KEY];
+      resolve(raw && typeof raw === "object" && !Array.isArray(raw) ? raw as HistoryCache : {});
+    });
+  });
+}
+
+async function writeCacheEntry(key: string, entry: HistoryCacheEntry): Promise<void> {
+  const cache = await readCache();
+  cache[key] = entry;
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [TX_HISTORY_STORAGE_KEY]: cache }, resolve);
+  });
+}
+
+/** Drop cached history for an address (all networks when `network` is omitted). */
+export async function clearTxHistoryCache(address: string, network?: string): Promise<void> {
+  const cache = await readCache();
+  const suffix = `:${address.toLowerCase()}`;
+  for (const key of Object.keys(cache)) {
+    if (network ? key === cacheKey(address, network) : key.endsWith(suffix)) delete cache[key];
+  }
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [TX_HISTORY_STORAGE_KEY]: cache }, resolve);
+  });
+}
+
+async function fetchRemotePage(address: string, network: string, offset: number): Promise<RemoteHistoryTx[]> {
+  const raw = await fetchAddressFullTransactions(address, network, { limit: TX_HISTORY_PAGE_SIZE, offset });
+  return raw.map(normalizeRemoteTransaction).filter((tx): tx is RemoteHistoryTx => tx !== null);
+}
+
+/**
+ * Fold the newest page into the cache. When every tx on it is new, the gap
+ * to the cached ones is unknown, so the cache restarts from this page.
+ */
+function mergeNewestPage(cached: HistoryCacheEntry | undefined, page: RemoteHistoryTx[], now: number): HistoryCacheEntry {
+  const exhausted = page.length < TX_HISTORY_PAGE_SIZE;
+  if (!cached) return { txs: page, exhausted, updatedAt: now };
+  const fresh = new Map(page.map((tx) => [tx.txId, tx]));
+  const overlaps = cached.txs.some((tx) => fresh.has(tx.txId));
+  if (!overlaps && page.length >= TX_HISTORY_PAGE_SIZE) return { txs: page, exhausted: false, updatedAt: now };
+  const rest = cached.txs.filter((tx) => !fresh.has(tx.txId));
+  return { txs: [...page, ...rest], exhausted: cached.exhausted || exhausted, updatedAt: now };
+}
+
+export interface GetTxHistoryOptions {
+  /** All addresses of the account (HD receive + change); defaults to `[address]`. */
+  ownAddresses?: string[];
+  /** Number of entries wanted; grows by TX_HISTORY_PAGE_SIZE for "load more". */
+  limit?: number;
+  /** Refetch the newest page even when the cache is fresh. */
+  refresh?: boolean;
+}
+
+/**
+ * One address's cached remote history, refreshing the newest page when stale
+ * and fetching older pages until `limit` is covered. Keeps whatever is cached
+ * when the backend fails.
+ */
+async function loadAddressHistory(
+  address: string,
+  network: string,
+  limit: number,
+  refresh: boolean,
+  now: number,
+): Promise<HistoryCacheEntry | undefined> {
+  const key = cacheKey(address, network);
+  let entry = (await readCache())[key];
+  let dirty = false;
+
+  try {
+    if (!entry || refresh || now - entry.updatedAt > REFRESH_TTL_MS) {
+      entry = mergeNewestPage(entry, await fetchRemotePage(address, network, 0), now);
+      dirty = true;
+    }
+    while (entry.txs.length < limit && !entry.exhausted && entry.txs.length < MAX_CACHED_REMOTE_TXS) {
+      const page = await fetchRemotePage(address, network, entry.txs.length);
+      const known = new Set(entry.txs.map((tx) => tx.txId));
+      const older = page.filter((tx) => !known.has(tx.txId));
+      entry = {
+        txs: [...entry.txs, ...older],
+        exhausted: page.length < TX_HISTORY_PAGE_SIZE || older.length === 0,
+        updatedAt: entry.updatedAt,
+      };
+      dirty = true;
+    }
+  } catch {
+    // Serve the cache; the next call retries.
+  }
+
+  if (entry && dirty) {
+    entry = { ...entry, txs: entry.txs.slice(0, MAX_CACHED_REMOTE_TXS) };
+    await writeCacheEntry(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * History for an account, newest first: remote pages of every own address
+ * (cached per address, each covering `limit`) merged with local txs, one
+ * entry per txId. Falls back to whatever is cached when the backends fail.
+ */
+export async function getTxHistory(
+  address: string,
+  network: string,
+  opts: GetTxHistoryOptions = {},
+): Promise<TxHistoryPage> {
+  const limit = Math.max(1, opts.limit ?? TX_HISTORY_PAGE_SIZE);
+  const ownAddresses = opts.ownAddresses?.length ? opts.ownAddresses : [address];
+  const addresses = [...new Map([address, ...ownAddresses].map((a) => [a.toLowerCase(), a])).values()];
+  const now = Date.now();
+
+  // Sequential: each address read-modify-writes the shared cache record.
+  const entries: HistoryCacheEntry[] = [];
+  for (const own of addresses) {
+    const entry = await loadAddressHistory(own, network, limit, Boolean(opts.refresh), now);
+    if (entry) entries.push(entry);
+  }
+
+  const [local, swaps] = await Promise.all([
+    loadPendingTxs(),
+    listSwapSettlements().catch(() => [] as SwapSettlementRecord[]),
+  ]);
+  const merged = mergeTxHistory(
+    entries.flatMap((entry) => entry.txs),
+    local.filter((tx) => tx.network === network),
+    swaps.filter((s) => s.network === network),
+    ownAddresses,
+  );
+  const remoteMore = entries.some((entry) => !entry.exhausted && entry.txs.length < MAX_CACHED_REMOTE_TXS);
+  return {
+    entries: merged.slice(0, limit),
+    hasMore: merged.length > limit || remoteMore,
+    updatedAt: entries.length ? Math.min(...entries.map((entry) => entry.updatedAt)) : null,
+  };
+}
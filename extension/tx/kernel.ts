@@ -1,9 +1,23 @@
-import { buildBatchTransaction, buildTransaction } from "./builder";
+import {
+  buildBatchTransaction,
+  buildCancelTransaction,
+  buildConsolidationTransaction,
+  buildCovenantSpendTransaction,
+  buildKrc20CommitTransaction,
+  buildKrc20RevealTransaction,
+  buildSpeedUpTransaction,
+  buildTransaction,
+  type CovenantSpendRequest,
+  type Krc20CommitRequest,
+} from "./builder";
 import { broadcastTransaction } from "./broadcast";
 import { dryRunValidate } from "./dryRun";
-import { signTransaction } from "./signer";
-import { addPendingTx, updatePendingTx } from "./store";
-import type { PendingTx } from "./types";
+import { assembleMultisigTransaction, signTransaction } from "./signer";
+import { addPendingTx, getReplacementGroup, settleReplacementGroup, updatePendingTx } from "./store";
+import type { MultisigLink, PendingTx, ReplacementKind } from "./types";
+import type { Utxo } from "../utxo/types";
+import type { CoinSelectionStrategyId } from "../utxo/coinSelection";
+import type { FeeTier } from "../network/feeTiers";
 import { waitForKaspaConfirmation } from "./receiptReconciler";
 import {
   appendExecutionTelemetryEvent,
@@ -21,6 +35,8 @@ export type DeterministicKernelStage =
 export interface KaspaExecutionRecipient {
   address: string;
   amountKas: number;
+  /** Exact amount; takes precedence over amountKas (used for dApp requests). */
+  amountSompi?: bigint;
 }
 
 export interface KaspaExecutionIntent {
@@ -29,6 +45,52 @@ export interface KaspaExecutionIntent {
   recipients: KaspaExecutionRecipient[];
   agentJobId?: string;
   opReturnHex?: string;
+  /** Coin selection strategy passed through to the builder (default: largest-first). */
+  coinSelection?: CoinSelectionStrategyId;
+  /** Fee priority tier passed through to the builder (default: priority). */
+  feeTier?: FeeTier;
+}
+
+export interface KaspaConsolidationRequest {
+  fromAddress: string;
+  network: string;
+  /** Exact inputs to merge; no coin selection is performed. */
+  inputs: Utxo[];
+  destination?: string;
+  consolidation?: PendingTx["consolidation"];
+}
+
+export interface KaspaReplacementRequest {
+  /** Broadcast-but-unconfirmed tx (or any member of its replacement group). */
+  original: PendingTx;
+  kind: ReplacementKind;
+  /** Fee tier the replacement is priced at (default: priority). */
+  feeTier?: FeeTier;
+}
+
+export interface KaspaKrc20CommitRequest extends Krc20CommitRequest {
+  feeTier?: FeeTier;
+}
+
+export interface KaspaKrc20RevealRequest {
+  /** Broadcast commit of the same operation; its P2SH output must be accepted. */
+  commit: PendingTx;
+  feeTier?: FeeTier;
+}
+
+export interface KaspaCovenantSpendRequest extends CovenantSpendRequest {
+  feeTier?: FeeTier;
+}
+
+export interface KaspaMultisigSpendRequest {
+  /** The multisig account's P2SH address. */
+  fromAddress: string;
+  network: string;
+  to: string;
+  amountKas: number;
+  multisig: MultisigLink;
+  coinSelection?: CoinSelectionStrategyId;
+  feeTier?: FeeTier;
 }
 
 export interface DeterministicKernelUpdate {
@@ -76,11 +138,20 @@ export class DeterministicExecutionError extends Error {
 export interface DeterministicExecutionKernelDeps {
   buildTransaction: typeof buildTransaction;
   buildBatchTransaction: typeof buildBatchTransaction;
+  buildConsolidationTransaction: typeof buildConsolidationTransaction;
+  buildSpeedUpTransaction: typeof buildSpeedUpTransaction;
+  buildCancelTransaction: typeof buildCancelTransaction;
+  buildKrc20CommitTransaction: typeof buildKrc20CommitTransaction;
+  buildKrc20RevealTransaction: typeof buildKrc20RevealTransaction;
+  buildCovenantSpendTransaction: typeof buildCovenantSpendTransaction;
   dryRunValidate: typeof dryRunValidate;
   signTransaction: typeof signTransaction;
+  assembleMultisigTransaction: typeof assembleMultisigTransaction;
   broadcastTransaction: typeof broadcastTransaction;
   addPendingTx: typeof addPendingTx;
   updatePendingTx: typeof updatePendingTx;
+  getReplacementGroup: typeof getReplacementGroup;
+  settleReplacementGroup: typeof settleReplacementGroup;
   waitForKaspaConfirmation: typeof waitForKaspaConfirmation;
   appendExecutionTelemetryEvent: typeof appendExecutionTelemetryEvent;
 }
@@ -88,11 +159,20 @@ export interface DeterministicExecutionKernelDeps {
 const DEFAULT_DEPS: DeterministicExecutionKernelDeps = {
   buildTransaction,
   buildBatchTransaction,
+  buildConsolidationTransaction,
+  buildSpeedUpTransaction,
+  buildCancelTransaction,
+  buildKrc20CommitTransaction,
+  buildKrc20RevealTransaction,
+  buildCovenantSpendTransaction,
   dryRunValidate,
   signTransaction,
+  assembleMultisigTransaction,
   broadcastTransaction,
   addPendingTx,
   updatePendingTx,
+  getReplacementGroup,
+  settleReplacementGroup,
   waitForKaspaConfirmation,
   appendExecutionTelemetryEvent,
 };
@@ -144,6 +224,76 @@ export function createDeterministicExecutionKernel(
     return input;
   };
 
+  // Shared build → store → dry-run path for every build entry point.
+  const buildAndValidate = async (
+    network: string,
+    options: BuildAndValidateKaspaIntentOptions,
+    telemetry: SignBroadcastReconcileOptions["telemetry"] | undefined,
+    build: () => Promise<PendingTx>,
+  ): Promise<PendingTx> => {
+    let built: PendingTx;
+    try {
+      built = await build();
+      await d.addPendingTx(built);
+      await emit(options.onUpdate, "build", built);
+      await emitTelemetry(telemetry, "build", "ok", network, built, null);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      await emitTelemetry(telemetry, "build", "failed", network, null, msg);
+      throw new DeterministicExecutionError("build", msg, null);
+    }
+    return validate(built, network, options, telemetry);
+  };
+
+  // Dry-run stage: DRY_RUN_OK or a persisted DRY_RUN_FAIL.
+  const validate = async (
+    built: PendingTx,
+    network: string,
+    options: BuildAndValidateKaspaIntentOptions,
+    telemetry: SignBroadcastReconcileOptions["telemetry"] | undefined,
+  ): Promise<PendingTx> => {
+    let dryRun;
+    try {
+      dryRun = await d.dryRunValidate(built);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      await emitTelemetry(telemetry, "validate", "failed", network, built, msg);
+      throw new DeterministicExecutionError("validate", msg, built);
+    }
+
+    if (!dryRun.valid) {
+      const failed = { ...built, state: "DRY_RUN_FAIL" as const, error: dryRun.errors.join("; ") };
+      await d.updatePendingTx(failed);
+      await emitTelemetry(
+        telemetry,
+        "validate",
+        "failed",
+        network,
+        failed,
+        `KERNEL_DRY_RUN_FAILED: ${dryRun.errors.join("; ")}`,
+      );
+      throw new DeterministicExecutionError(
+        "validate",
+        `KERNEL_DRY_RUN_FAILED: ${dryRun.errors.join("; ")}`,
+        failed,
+        dryRun.errors,
+      );
+    }
+
+    const validated: PendingTx = {
+      ...built,
+      state: "DRY_RUN_OK",
+      // A replacement's fee is its bid against the txs it evicts, and
+      // co-signers have already signed a multisig spend's fee; keep both.
+      fee: built.replaces || built.multisig ? built.fee : dryRun.estimatedFee,
+      mass: dryRun.mass ?? built.mass,
+    };
+    await d.updatePendingTx(validated);
+    await emit(options.onUpdate, "validate", validated);
+    await emitTelemetry(telemetry, "validate", "ok", network, validated, null);
+    return validated;
+  };
+
   const buildAndValidateKaspaIntent = async (
     intent: KaspaExecutionIntent,
     optionsInput?: BuildAndValidateKaspaIntentOptions | ((update: DeterministicKernelUpdate) => void | Promise<void>),
@@ -167,15 +317,15 @@ export function createDeterministicExecutionKernel(
       throw new DeterministicExecutionError("build", "INTENT_EMPTY: at least one recipient is required.");
     }
 
-    let built: PendingTx;
-    try {
-      if (intent.recipients.length === 1) {
+    return buildAndValidate(intent.network, options, telemetry, async () => {
+      if (intent.recipients.length === 1 && intent.recipients[0].amountSompi === undefined) {
         const [recipient] = intent.recipients;
-        built = await d.buildTransaction(
+        let built = await d.buildTransaction(
           intent.fromAddress,
           recipient.address,
           recipient.amountKas,
           intent.network,
+          { coinSelection: intent.coinSelection, feeTier: intent.feeTier },
         );
         if (intent.agentJobId || intent.opReturnHex) {
           built = {
@@ -184,67 +334,158 @@ export function createDeterministicExecutionKernel(
             opReturnHex: intent.opReturnHex,
           };
         }
-      } else {
-        built = await d.buildBatchTransaction(
-          intent.fromAddress,
-          intent.recipients,
-          intent.network,
-          { agentJobId: intent.agentJobId, opReturnHex: intent.opReturnHex },
-        );
+        return built;
+      }
+      return d.buildBatchTransaction(
+        intent.fromAddress,
+        intent.recipients,
+        intent.network,
+        {
+          agentJobId: intent.agentJobId,
+          opReturnHex: intent.opReturnHex,
+          coinSelection: intent.coinSelection,
+          feeTier: intent.feeTier,
+        },
+      );
+    });
+  };
+
+  const buildAndValidateConsolidationTx = async (
+    request: KaspaConsolidationRequest,
+    optionsInput?: BuildAndValidateKaspaIntentOptions | ((update: DeterministicKernelUpdate) => void | Promise<void>),
+  ): Promise<PendingTx> => {
+    const options = normalizeBuildOptions(optionsInput);
+    const telemetry = options.telemetry
+      ? {
+        ...options.telemetry,
+        runId: options.telemetry.runId || createExecutionRunId(options.telemetry.channel),
+      }
+      : undefined;
+    return buildAndValidate(request.network, options, telemetry, () =>
+      d.buildConsolidationTransaction(request.fromAddress, request.inputs, request.network, {
+        destination: request.destination,
+        consolidation: request.consolidation,
+      }));
+  };
+
+  const buildAndValidateReplacementTx = async (
+    request: KaspaReplacementRequest,
+    optionsInput?: BuildAndValidateKaspaIntentOptions | ((update: DeterministicKernelUpdate) => void | Promise<void>),
+  ): Promise<PendingTx> => {
+    const options = normalizeBuildOptions(optionsInput);
+    const telemetry = options.telemetry
+      ? {
+        ...options.telemetry,
+        runId: options.telemetry.runId || createExecutionRunId(options.telemetry.channel),
+      }
+      : undefined;
+    return buildAndValidate(request.original.network, options, telemetry, () =>
+      request.kind === "cancel"
+        ? d.buildCancelTransaction(request.original, { feeTier: request.feeTier })
+        : d.buildSpeedUpTransaction(request.original, { feeTier: request.feeTier }));
+  };
+
+  const buildAndValidateKrc20CommitTx = async (
+    request: KaspaKrc20CommitRequest,
+    optionsInput?: BuildAndValidateKaspaIntentOptions | ((update: DeterministicKernelUpdate) => void | Promise<void>),
+  ): Promise<PendingTx> => {
+    const options = normalizeBuildOptions(optionsInput);
+    const telemetry = options.telemetry
+      ? {
+        ...options.telemetry,
+        runId: options.telemetry.runId || createExecutionRunId(options.telemetry.channel),
       }
+      : undefined;
+    return buildAndValidate(request.network, options, telemetry, () =>
+      d.buildKrc20CommitTransaction(request, { feeTier: request.feeTier }));
+  };
+
+  const buildAndValidateKrc20RevealTx = async (
+    request: KaspaKrc20RevealRequest,
+    optionsInput?: BuildAndValidateKaspaIntentOptions | ((update: DeterministicKernelUpdate) => void | Promise<void>),
+  ): Promise<PendingTx> => {
+    const options = normalizeBuildOptions(optionsInput);
+    const telemetry = options.telemetry
+      ? {
+        ...options.telemetry,
+        runId: options.telemetry.runId || createExecutionRunId(options.telemetry.channel),
+      }
+      : undefined;
+    return buildAndValidate(request.commit.network, options, telemetry, () =>
+      d.buildKrc20RevealTransaction(request.commit, { feeTier: request.feeTier }));
+  };
+
+  const buildAndValidateCovenantSpendTx = async (
+    request: KaspaCovenantSpendRequest,
+    optionsInput?: BuildAndValidateKaspaIntentOptions | ((update: DeterministicKernelUpdate) => void | Promise<void>),
+  ): Promise<PendingTx> => {
+    const options = normalizeBuildOptions(optionsInput);
+    const telemetry = options.telemetry
+      ? {
+        ...options.telemetry,
+        runId: options.telemetry.runId || createExecutionRunId(options.telemetry.channel),
+      }
+      : undefined;
+    const { feeTier, ...spend } = request;
+    return buildAndValidate(request.network, options, telemetry, () =>
+      d.buildCovenantSpendTransaction(spend, { feeTier }));
+  };
+
+  // Multisig spends stop after build: co-signers sign the BUILDING tx
+  // (tx/multisig.ts) before finalizeMultisigTx dry-runs it.
+  const buildMultisigSpendTx = async (
+    request: KaspaMultisigSpendRequest,
+    optionsInput?: BuildAndValidateKaspaIntentOptions | ((update: DeterministicKernelUpdate) => void | Promise<void>),
+  ): Promise<PendingTx> => {
+    const options = normalizeBuildOptions(optionsInput);
+    const telemetry = options.telemetry
+      ? {
+        ...options.telemetry,
+        runId: options.telemetry.runId || createExecutionRunId(options.telemetry.channel),
+      }
+      : undefined;
+    try {
+      const built = await d.buildTransaction(request.fromAddress, request.to, request.amountKas, request.network, {
+        multisig: request.multisig,
+        coinSelection: request.coinSelection,
+        feeTier: request.feeTier,
+      });
       await d.addPendingTx(built);
       await emit(options.onUpdate, "build", built);
-      await emitTelemetry(telemetry, "build", "ok", intent.network, built, null);
+      await emitTelemetry(telemetry, "build", "ok", request.network, built, null);
+      return built;
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      await emitTelemetry(telemetry, "build", "failed", intent.network, null, msg);
+      await emitTelemetry(telemetry, "build", "failed", request.network, null, msg);
       throw new DeterministicExecutionError("build", msg, null);
     }
+  };
 
-    let dryRun;
-    try {
-      dryRun = await d.dryRunValidate(built);
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : String(error);
-      await emitTelemetry(telemetry, "validate", "failed", intent.network, built, msg);
-      throw new DeterministicExecutionError("validate", msg, built);
-    }
-
-    if (!dryRun.valid) {
-      const failed = { ...built, state: "DRY_RUN_FAIL" as const, error: dryRun.errors.join("; ") };
-      await d.updatePendingTx(failed);
-      await emitTelemetry(
-        telemetry,
-        "validate",
-        "failed",
-        intent.network,
-        failed,
-        `KERNEL_DRY_RUN_FAILED: ${dryRun.errors.join("; ")}`,
-      );
-      throw new DeterministicExecutionError(
-        "validate",
-        `KERNEL_DRY_RUN_FAILED: ${dryRun.errors.join("; ")}`,
-        failed,
-        dryRun.errors,
-      );
+  // Dry-run (which enforces the signature threshold), then combine the
+  // co-signer signatures in place of vault signing, broadcast and reconcile.
+  const finalizeMultisigTx = async (
+    tx: PendingTx,
+    options: SignBroadcastReconcileOptions = {},
+  ): Promise<PendingTx> => {
+    const telemetry = options.telemetry
+      ? {
+        ...options.telemetry,
+        runId: options.telemetry.runId || createExecutionRunId(options.telemetry.channel),
+      }
+      : undefined;
+    if (!tx.multisig || tx.state !== "BUILDING") {
+      const msg = `KERNEL_NOT_MULTISIG: finalize requires a BUILDING multisig tx (got ${tx.state}).`;
+      await emitTelemetry(telemetry, "validate", "failed", tx.network, tx, msg);
+      throw new DeterministicExecutionError("validate", msg, tx);
     }
-
-    const validated: PendingTx = {
-      ...built,
-      state: "DRY_RUN_OK",
-      fee: dryRun.estimatedFee,
-    };
-    await d.updatePendingTx(validated);
-    await emit(options.onUpdate, "validate", validated);
-    await emitTelemetry(telemetry, "validate", "ok", intent.network, validated, null);
-    return validated;
+    const validated = await validate(tx, tx.network, options, telemetry);
+    return signBroadcastAndReconcileKaspaTx(validated, { ...options, telemetry });
   };
 
   const signBroadcastAndReconcileKaspaTx = async (
     tx: PendingTx,
     options: SignBroadcastReconcileOptions = {},
   ): Promise<PendingTx> => {
-    const awaitConfirmation = options.awaitConfirmation !== false;
     const telemetry = options.telemetry
       ? {
         ...options.telemetry,
@@ -254,7 +495,7 @@ export function createDeterministicExecutionKernel(
 
     let signed: PendingTx;
     try {
-      signed = await d.signTransaction(tx);
+      signed = tx.multisig ? await d.assembleMultisigTransaction(tx) : await d.signTransaction(tx);
       await d.updatePendingTx(signed);
       await emit(options.onUpdate, "sign", signed);
       await emitTelemetry(telemetry, "sign", "ok", tx.network, signed, null);
@@ -264,20 +505,43 @@ export function createDeterministicExecutionKernel(
       throw new DeterministicExecutionError("sign", msg, tx);
     }
 
+    return broadcastAndReconcileKaspaTx(signed, { ...options, telemetry });
+  };
+
+  // Broadcast → reconcile for a tx that is already SIGNED, either by the
+  // vault above or offline (tx/pskt.ts imports the signed payload).
+  const broadcastAndReconcileKaspaTx = async (
+    signed: PendingTx,
+    options: SignBroadcastReconcileOptions = {},
+  ): Promise<PendingTx> => {
+    const awaitConfirmation = options.awaitConfirmation !== false;
+    const telemetry = options.telemetry
+      ? {
+        ...options.telemetry,
+        runId: options.telemetry.runId || createExecutionRunId(options.telemetry.channel),
+      }
+      : undefined;
+
+    if (signed.state !== "SIGNED") {
+      const msg = `KERNEL_NOT_SIGNED: broadcast requires a SIGNED tx (got ${signed.state}).`;
+      await emitTelemetry(telemetry, "broadcast", "failed", signed.network, signed, msg);
+      throw new DeterministicExecutionError("broadcast", msg, signed);
+    }
+
     let confirming: PendingTx;
     try {
       confirming = await d.broadcastTransaction(signed);
       await d.updatePendingTx(confirming);
       await emit(options.onUpdate, "broadcast", confirming);
-      await emitTelemetry(telemetry, "broadcast", "ok", tx.network, confirming, null);
+      await emitTelemetry(telemetry, "broadcast", "ok", signed.network, confirming, null);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      await emitTelemetry(telemetry, "broadcast", "failed", tx.network, signed, msg);
+      await emitTelemetry(telemetry, "broadcast", "failed", signed.network, signed, msg);
       throw new DeterministicExecutionError("broadcast", msg, signed);
     }
 
     if (!awaitConfirmation) {
-      await emitTelemetry(telemetry, "reconcile", "ok", tx.network, confirming, null);
+      await emitTelemetry(telemetry, "reconcile", "ok", signed.network, confirming, null);
       return confirming;
     }
 
@@ -286,6 +550,7 @@ export function createDeterministicExecutionKernel(
       const reconciled = await d.waitForKaspaConfirmation(confirming, {
         timeoutMs: options.confirmTimeoutMs,
         pollIntervalMs: options.confirmPollIntervalMs,
+        linked: () => d.getReplacementGroup(confirming.id),
         onProbe: async (probe) => {
           probeAttempts += 1;
           const pendingProbeUpdate: PendingTx = {
@@ -303,12 +568,22 @@ export function createDeterministicExecutionKernel(
       });
       await d.updatePendingTx(reconciled);
       await emit(options.onUpdate, "reconcile", reconciled);
+      if (reconciled.state === "CONFIRMED") {
+        // Retire the rest of the replacement group. Best-effort: their own
+        // confirmation polls also notice the winner via `linked`.
+        await d.settleReplacementGroup(reconciled).catch(() => []);
+      }
+      if (reconciled.state === "REPLACED") {
+        const msg = `TX_REPLACED: a linked transaction (${reconciled.replacedBy ?? "unknown"}) was accepted instead`;
+        await emitTelemetry(telemetry, "reconcile", "failed", signed.network, reconciled, msg);
+        throw new DeterministicExecutionError("reconcile", msg, reconciled);
+      }
       if (reconciled.state === "FAILED") {
         await emitTelemetry(
           telemetry,
           "reconcile",
           "failed",
-          tx.network,
+          signed.network,
           reconciled,
           reconciled.error || "Receipt reconciliation failed.",
         );
@@ -318,12 +593,12 @@ export function createDeterministicExecutionKernel(
           reconciled,
         );
       }
-      await emitTelemetry(telemetry, "reconcile", "ok", tx.network, reconciled, null);
+      await emitTelemetry(telemetry, "reconcile", "ok", signed.network, reconciled, null);
       return reconciled;
     } catch (error) {
       if (error instanceof DeterministicExecutionError) throw error;
       const msg = error instanceof Error ? error.message : String(error);
-      await emitTelemetry(telemetry, "reconcile", "failed", tx.network, confirming, msg);
+      await emitTelemetry(telemetry, "reconcile", "failed", signed.network, confirming, msg);
       throw new DeterministicExecutionError("reconcile", msg, confirming);
     }
   };
@@ -341,7 +616,15 @@ export function createDeterministicExecutionKernel(
 
   return {
     buildAndValidateKaspaIntent,
+    buildAndValidateConsolidationTx,
+    buildAndValidateReplacementTx,
+    buildAndValidateKrc20CommitTx,
+    buildAndValidateKrc20RevealTx,
+    buildAndValidateCovenantSpendTx,
+    buildMultisigSpendTx,
+    finalizeMultisigTx,
     signBroadcastAndReconcileKaspaTx,
+    broadcastAndReconcileKaspaTx,
     executeKaspaIntent,
   };
 }
@@ -349,5 +632,13 @@ export function createDeterministicExecutionKernel(
 const kernel = createDeterministicExecutionKernel();
 
 export const buildAndValidateKaspaIntent = kernel.buildAndValidateKaspaIntent;
+export const buildAndValidateConsolidationTx = kernel.buildAndValidateConsolidationTx;
+export const buildAndValidateReplacementTx = kernel.buildAndValidateReplacementTx;
+export const buildAndValidateKrc20CommitTx = kernel.buildAndValidateKrc20CommitTx;
+export const buildAndValidateKrc20RevealTx = kernel.buildAndValidateKrc20RevealTx;
+export const buildAndValidateCovenantSpendTx = kernel.buildAndValidateCovenantSpendTx;
+export const buildMultisigSpendTx = kernel.buildMultisigSpendTx;
+export const finalizeMultisigTx = kernel.finalizeMultisigTx;
 export const signBroadcastAndReconcileKaspaTx = kernel.signBroadcastAndReconcileKaspaTx;
+export const broadcastAndReconcileKaspaTx = kernel.broadcastAndReconcileKaspaTx;
 export const executeKaspaIntent = kernel.executeKaspaIntent;
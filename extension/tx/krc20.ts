@@ -0,0 +1,396 @@
+// KRC-20 token transfers (Kasplex commit/reveal).
+//
+// A transfer is an inscription — {"p":"krc-20","op":"transfer",...} — carried
+// in a P2SH redeem script:
+//
+//   <x-only pubkey> OP_CHECKSIG OP_FALSE OP_IF "kasplex" OP_0 <json> OP_ENDIF
+//
+// The commit pays KAS to the script's P2SH address; once accepted, the reveal
+// spends it back to the sender with the script in its signature script, which
+// is what the Kasplex indexer reads. Both txs go through the deterministic
+// kernel (build → dry-run → sign → broadcast → reconcile) and share an
+// operationId in the tx store (PendingTx.krc20). KRC-721 transfers
+// (tx/krc721.ts) reuse the same pair via runKrcInscriptionTransfer.
+
+import {
+  buildAndValidateKrc20CommitTx,
+  buildAndValidateKrc20RevealTx,
+  DeterministicExecutionError,
+  signBroadcastAndReconcileKaspaTx,
+  type DeterministicKernelStage,
+} from "./kernel";
+import { createExecutionRunId } from "./executionTelemetry";
+import { getKrc20Operation } from "./store";
+import type { Krc20Link, Krc20Step, PendingTx } from "./types";
+import type { FeeTier } from "../network/feeTiers";
+import { invalidateUtxoCache } from "../utxo/utxoSync";
+import { invalidateKrcHoldings, prefetchKrcPortfolioForAddress } from "../portfolio/krcPortfolio";
+import { loadKaspaWasm } from "../../src/wallet/kaspaWasmLoader";
+import { isKaspaAddress, kaspaPrefixForNetwork } from "../../src/helpers";
+
+export const KASPLEX_PROTOCOL = "kasplex";
+/** KAS locked by the commit and returned by the reveal (Kasplex reference value). */
+export const KRC20_COMMIT_AMOUNT_SOMPI = 30_000_000n;
+
+/** Any Kasplex inscription payload (KRC-20, KRC-721). */
+export interface KrcInscription {
+  p: string;
+  op: string;
+}
+
+export interface Krc20TransferInscription extends KrcInscription {
+  p: "krc-20";
+  op: "transfer";
+  tick?: string;
+  ca?: string;
+  amt: string;
+  to: string;
+}
+
+// ── Inscription ───────────────────────────────────────────────────────────────
+
+/**
+ * Transfer inscription for a token. Deploy-mint tokens are named by ticker
+ * (4–6 letters, lowercased); issued tokens by contract address (`ca`).
+ */
+export function krc20TransferInscription(token: string, amount: string, to: string): Krc20TransferInscription {
+  const id = token.trim();
+  const byTicker = /^[a-z]{4,6}$/i.test(id);
+  return {
+    p: "krc-20",
+    op: "transfer",
+    ...(byTicker ? { tick: id.toLowerCase() } : { ca: id }),
+    amt: amount,
+    to,
+  };
+}
+
+/**
+ * Convert a decimal token amount to base units.
+ * @throws "KRC20_AMOUNT_INVALID" for non-positive, malformed or over-precise amounts.
+ */
+export function parseKrc20Amount(value: string, decimals: number): string {
+  const trimmed = String(value ?? "").trim();
+  const match = /^([0-9]+)(?:\.([0-9]+))?$/.exec(trimmed);
+  if (!match || !Number.isInteger(decimals) || decimals < 0) throw new Error("KRC20_AMOUNT_INVALID");
+  const fraction = match[2] ?? "";
+  if (fraction.length > decimals) throw new Error(`KRC20_AMOUNT_INVALID: at most ${decimals} decimal places`);
+  const raw = BigInt(match[1] + fraction.padEnd(decimals, "0"));
+  if (raw <= 0n) throw new Error("KRC20_AMOUNT_INVALID");
+  return raw.toString();
+}
+
+function utf8Hex(value: string): string {
+  return Array.from(new TextEncoder().encode(value)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Minimal script data push (OP_DATA_n / OP_PUSHDATA1 / OP_PUSHDATA2). */
+export function scriptPushHex(dataHex: string): string {
+  const length = dataHex.length / 2;
+  if (length <= 75) return length.toString(16).padStart(2, "0") + dataHex;
+  if (length <= 0xff) return "4c" + length.toString(16).padStart(2, "0") + dataHex;
+  if (length <= 0xffff) {
+    const le = length.toString(16).padStart(4, "0");
+    return "4d" + le.slice(2) + le.slice(0, 2) + dataHex;
+  }
+  throw new Error("KRC20_INSCRIPTION_TOO_LARGE");
+}
+
+/** Redeem script carrying the inscription, spendable by `xOnlyPubKeyHex`. */
+export function buildInscriptionRedeemScript(xOnlyPubKeyHex: string, inscription: KrcInscription): string {
+  const pubkey = xOnlyPubKeyHex.toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(pubkey)) throw new Error("KRC20_PUBKEY_INVALID");
+  return [
+    scriptPushHex(pubkey),
+    "ac",                                   // OP_CHECKSIG
+    "00",                                   // OP_FALSE
+    "63",                                   // OP_IF
+    scriptPushHex(utf8Hex(KASPLEX_PROTOCOL)),
+    "00",                                   // OP_0 — metadata/content separator
+    scriptPushHex(utf8Hex(JSON.stringify(inscription))),
+    "68",                                   // OP_ENDIF
+  ].join("");
+}
+
+/** X-only public key of a standard P2PK script (OP_DATA_32 <key> OP_CHECKSIG). */
+export function xOnlyPubKeyFromP2pkScript(scriptHex: string): string {
+  const match = /^20([0-9a-f]{64})ac$/.exec(String(scriptHex ?? "").toLowerCase());
+  if (!match) throw new Error("KRC20_SENDER_NOT_P2PK: sender address is not a standard P2PK address");
+  return match[1];
+}
+
+export interface PreparedKrc20Inscription {
+  inscription: KrcInscription;
+  redeemScriptHex: string;
+  commitAddress: string;
+  commitScriptPublicKeyHex: string;
+}
+
+type KaspaScriptApi = {
+  payToAddressScript: (address: string) => { script?: string; scriptPublicKey?: string };
+  ScriptBuilder: {
+    fromScript: (hex: string) => { createPayToScriptHashScript: () => { script?: string; scriptPublicKey?: string } };
+  };
+  addressFromScriptPublicKey: (spk: unknown, network: string) => { toString: () => string } | undefined;
+};
+
+function scriptHexOf(spk: { script?: string; scriptPublicKey?: string }): string {
+  return String(spk.script ?? spk.scriptPublicKey ?? "").toLowerCase();
+}
+
+/** Build the redeem script and derive its P2SH commit address via kaspa-wasm. */
+export async function prepareKrc20Inscription(
+  fromAddress: string,
+  network: string,
+  inscription: KrcInscription,
+): Promise<PreparedKrc20Inscription> {
+  const kaspa = await loadKaspaWasm() as unknown as Partial<KaspaScriptApi>;
+  if (!kaspa.payToAddressScript || !kaspa.ScriptBuilder || !kaspa.addressFromScriptPublicKey) {
+    throw new Error("WASM_P2SH_UNAVAILABLE: kaspa-wasm script API not found");
+  }
+  const pubkey = xOnlyPubKeyFromP2pkScript(scriptHexOf(kaspa.payToAddressScript(fromAddress)));
+  const redeemScriptHex = buildInscriptionRedeemScript(pubkey, inscription);
+  const p2sh = kaspa.ScriptBuilder.fromScript(redeemScriptHex).createPayToScriptHashScript();
+  const commitAddress = kaspa.addressFromScriptPublicKey(p2sh, network)?.toString() ?? "";
+  if (!commitAddress) throw new Error("KRC20_COMMIT_ADDRESS_FAILED");
+  return { inscription, redeemScriptHex, commitAddress, commitScriptPublicKeyHex: scriptHexOf(p2sh) };
+}
+
+// ── Execution ─────────────────────────────────────────────────────────────────
+
+export interface Krc20TransferRequest {
+  fromAddress: string;
+  network: string;
+  /** Ticker or contract address. */
+  token: string;
+  /** Amount in base units (see parseKrc20Amount). */
+  amount: string;
+  to: string;
+  feeTier?: FeeTier;
+}
+
+export interface Krc20TransferProgressUpdate {
+  operationId: string;
+  step: Krc20Step;
+  stage: DeterministicKernelStage;
+  tx: PendingTx;
+}
+
+export interface Krc20Kernel {
+  buildAndValidateKrc20CommitTx: typeof buildAndValidateKrc20CommitTx;
+  buildAndValidateKrc20RevealTx: typeof buildAndValidateKrc20RevealTx;
+  signBroadcastAndReconcileKaspaTx: typeof signBroadcastAndReconcileKaspaTx;
+}
+
+export interface RunKrc20TransferOptions {
+  onProgress?: (update: Krc20TransferProgressUpdate) => void | Promise<void>;
+  confirmTimeoutMs?: number;
+  confirmPollIntervalMs?: number;
+  /** Kernel override (tests). Defaults to the shared deterministic kernel. */
+  kernel?: Krc20Kernel;
+  /** Inscription preparation override (tests). Defaults to kaspa-wasm. */
+  prepare?: typeof prepareKrc20Inscription;
+  /** Called once the reveal confirms. Defaults to refetching KRC holdings. */
+  refreshHoldings?: (address: string, network: string) => Promise<void>;
+}
+
+export interface Krc20TransferResult {
+  operationId: string;
+  commit: PendingTx | null;
+  reveal: PendingTx | null;
+  /** First failure; a failed reveal leaves the commit output for resumeKrc20Transfer. */
+  error: string | null;
+  failedStep: Krc20Step | null;
+}
+
+async function refreshKrcHoldings(address: string, network: string): Promise<void> {
+  invalidateKrcHoldings(address, network);
+  await prefetchKrcPortfolioForAddress(address, network);
+}
+
+/** Transfer of any KRC inscription (KRC-20 amount, KRC-721 token id). */
+export interface KrcInscriptionTransferRequest {
+  fromAddress: string;
+  network: string;
+  to: string;
+  feeTier?: FeeTier;
+  /** Token fields recorded on both txs of the pair. */
+  link: Pick<Krc20Link, "standard" | "token" | "amount" | "tokenId">;
+  /** Validate the token fields and build the inscription; throws an error code. */
+  inscribe: () => KrcInscription;
+}
+
+function surfaceOf(link: Pick<Krc20Link, "standard">): string {
+  return `${link.standard ?? "krc20"}_transfer`;
+}
+
+/** Reveal an accepted commit, then refresh holdings. Shared by run and resume. */
+async function revealCommit(
+  commit: PendingTx,
+  feeTier: FeeTier | undefined,
+  options: RunKrc20TransferOptions,
+  kernel: Krc20Kernel,
+  runId: string,
+): Promise<PendingTx> {
+  const operationId = commit.krc20!.operationId;
+  const telemetry = {
+    channel: "manual" as const,
+    runId,
+    context: { surface: surfaceOf(commit.krc20!), operationId, step: "reveal", token: commit.krc20!.token },
+  };
+  const notify = ({ stage, tx }: { stage: DeterministicKernelStage; tx: PendingTx }) =>
+    options.onProgress?.({ operationId, step: "reveal", stage, tx });
+
+  const validated = await kernel.buildAndValidateKrc20RevealTx({ commit, feeTier }, { onUpdate: notify, telemetry });
+  const reveal = await kernel.signBroadcastAndReconcileKaspaTx(validated, {
+    awaitConfirmation: true,
+    confirmTimeoutMs: options.confirmTimeoutMs,
+    confirmPollIntervalMs: options.confirmPollIntervalMs,
+    onUpdate: notify,
+    telemetry,
+  });
+  invalidateUtxoCache(commit.fromAddress);
+  await (options.refreshHoldings ?? refreshKrcHoldings)(commit.fromAddress, commit.network).catch(() => {});
+  return reveal;
+}
+
+function failure(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Commit an inscription, wait for it to confirm, then reveal it. A failure
+ * stops the run; if the commit confirmed, its KAS stays in the P2SH output
+ * until the reveal is retried with resumeKrc20Transfer.
+ */
+export async function runKrcInscriptionTransfer(
+  request: KrcInscriptionTransferRequest,
+  options: RunKrc20TransferOptions = {},
+): Promise<Krc20TransferResult> {
+  const kernel: Krc20Kernel = options.kernel ?? {
+    buildAndValidateKrc20CommitTx,
+    buildAndValidateKrc20RevealTx,
+    signBroadcastAndReconcileKaspaTx,
+  };
+  const operationId = crypto.randomUUID();
+  const runId = createExecutionRunId("krc20");
+  let commit: PendingTx | null = null;
+
+  try {
+    if (!isKaspaAddress(request.to, [kaspaPrefixForNetwork(request.network)])) {
+      throw new Error(`KRC20_INVALID_RECIPIENT: "${request.to}" is not a ${request.network} address`);
+    }
+    const prepared = await (options.prepare ?? prepareKrc20Inscription)(
+      request.fromAddress,
+      request.network,
+      request.inscribe(),
+    );
+    const telemetry = {
+      channel: "manual" as const,
+      runId,
+      context: { surface: surfaceOf(request.link), operationId, step: "commit", token: request.link.token },
+    };
+    const notify = ({ stage, tx }: { stage: DeterministicKernelStage; tx: PendingTx }) =>
+      options.onProgress?.({ operationId, step: "commit", stage, tx });
+
+    const validated = await kernel.buildAndValidateKrc20CommitTx({
+      fromAddress: request.fromAddress,
+      network: request.network,
+      amountSompi: KRC20_COMMIT_AMOUNT_SOMPI,
+      commitScriptPublicKeyHex: prepared.commitScriptPublicKeyHex,
+      feeTier: request.feeTier,
+      krc20: {
+        operationId,
+        op: "transfer",
+        ...request.link,
+        to: request.to,
+        redeemScriptHex: prepared.redeemScriptHex,
+        commitAddress: prepared.commitAddress,
+      },
+    }, { onUpdate: notify, telemetry });
+    commit = await kernel.signBroadcastAndReconcileKaspaTx(validated, {
+      awaitConfirmation: true,
+      confirmTimeoutMs: options.confirmTimeoutMs,
+      confirmPollIntervalMs: options.confirmPollIntervalMs,
+      onUpdate: notify,
+      telemetry,
+    });
+  } catch (error) {
+    invalidateUtxoCache(request.fromAddress);
+    return {
+      operationId,
+      commit: error instanceof DeterministicExecutionError ? error.tx : commit,
+      reveal: null,
+      error: failure(error),
+      failedStep: "commit",
+    };
+  }
+
+  if (commit.state !== "CONFIRMED") {
+    // Confirmation timed out; the reveal can be resumed once the commit lands.
+    return { operationId, commit, reveal: null, error: "KRC20_COMMIT_NOT_CONFIRMED", failedStep: "commit" };
+  }
+
+  try {
+    const reveal = await revealCommit(commit, request.feeTier, options, kernel, runId);
+    return { operationId, commit, reveal, error: null, failedStep: null };
+  } catch (error) {
+    return {
+      operationId,
+      commit,
+      reveal: error instanceof DeterministicExecutionError ? error.tx : null,
+      error: failure(error),
+      failedStep: "reveal",
+    };
+  }
+}
+
+/** Transfer KRC-20 tokens (see runKrcInscriptionTransfer). */
+export function runKrc20Transfer(
+  request: Krc20TransferRequest,
+  options: RunKrc20TransferOptions = {},
+): Promise<Krc20TransferResult> {
+  return runKrcInscriptionTransfer({
+    fromAddress: request.fromAddress,
+    network: request.network,
+    to: request.to,
+    feeTier: request.feeTier,
+    link: { standard: "krc20", token: request.token, amount: request.amount },
+    inscribe: () => {
+      if (!request.token.trim()) throw new Error("KRC20_TOKEN_REQUIRED");
+      if (!/^[1-9][0-9]*$/.test(request.amount)) throw new Error("KRC20_AMOUNT_INVALID");
+      return krc20TransferInscription(request.token, request.amount, request.to);
+    },
+  }, options);
+}
+
+/** Retry the reveal of an operation whose commit confirmed but reveal did not. */
+export async function resumeKrc20Transfer(
+  operationId: string,
+  options: RunKrc20TransferOptions & { feeTier?: FeeTier } = {},
+): Promise<Krc20TransferResult> {
+  const kernel: Krc20Kernel = options.kernel ?? {
+    buildAndValidateKrc20CommitTx,
+    buildAndValidateKrc20RevealTx,
+    signBroadcastAndReconcileKaspaTx,
+  };
+  const { commit, reveal } = await getKrc20Operation(operationId);
+  if (!commit || commit.state !== "CONFIRMED") {
+    return { operationId, commit, reveal, error: "KRC20_COMMIT_NOT_CONFIRMED", failedStep: "commit" };
+  }
+  if (reveal?.state === "CONFIRMED") {
+    return { operationId, commit, reveal, error: null, failedStep: null };
+  }
+  try {
+    const revealed = await revealCommit(commit, options.feeTier, options, kernel, createExecutionRunId("krc20"));
+    return { operationId, commit, reveal: revealed, error: null, failedStep: null };
+  } catch (error) {
+    return {
+      operationId,
+      commit,
+      reveal: error instanceof DeterministicExecutionError ? error.tx : reveal,
+      error: failure(error),
+      failedStep: "reveal",
+    };
+  }
+}
@@ -0,0 +1,56 @@
+// KRC-721 NFT transfers. Same Kasplex commit/reveal pair as KRC-20
+// (tx/krc20.ts) with a {"p":"krc-721","op":"transfer",...} inscription that
+// moves one token id of a collection to the recipient.
+
+import {
+  runKrcInscriptionTransfer,
+  type KrcInscription,
+  type Krc20TransferResult,
+  type RunKrc20TransferOptions,
+} from "./krc20";
+import type { FeeTier } from "../network/feeTiers";
+
+/** Reveal retries are standard-agnostic: the stored commit carries the inscription. */
+export { resumeKrc20Transfer } from "./krc20";
+
+export interface Krc721TransferInscription extends KrcInscription {
+  p: "krc-721";
+  op: "transfer";
+  tick: string;
+  tokenId: string;
+  to: string;
+}
+
+export interface Krc721TransferRequest {
+  fromAddress: string;
+  network: string;
+  /** Collection ticker (KrcPortfolioToken.token.address). */
+  collection: string;
+  tokenId: string;
+  to: string;
+  feeTier?: FeeTier;
+}
+
+export function krc721TransferInscription(collection: string, tokenId: string, to: string): Krc721TransferInscription {
+  return { p: "krc-721", op: "transfer", tick: collection.trim(), tokenId, to };
+}
+
+/** Transfer one NFT (see runKrcInscriptionTransfer for the commit/reveal flow). */
+export function runKrc721Transfer(
+  request: Krc721TransferRequest,
+  options: RunKrc20TransferOptions = {},
+): Promise<Krc20TransferResult> {
+  const tokenId = String(request.tokenId ?? "").trim();
+  return runKrcInscriptionTransfer({
+    fromAddress: request.fromAddress,
+    network: request.network,
+    to: request.to,
+    feeTier: request.feeTier,
+    link: { standard: "krc721", token: request.collection.trim(), amount: "1", tokenId },
+    inscribe: () => {
+      if (!request.collection.trim()) throw new Error("KRC721_COLLECTION_REQUIRED");
+      if (!/^[0-9]+$/.test(tokenId)) throw new Error(`KRC721_TOKEN_ID_INVALID: "${request.tokenId}"`);
+      return krc721TransferInscription(request.collection, tokenId, request.to);
+    },
+  }, options);
+}
@@ -0,0 +1,308 @@
+// Transaction mass — compute mass + KIP-9 storage mass.
+//
+// Port of rusty-kaspa's consensus mass calculator so fees can be priced from
+// the actual transaction shape (script sizes, OP_RETURN length, output values)
+// rather than input/output counts alone:
+//
+//   compute mass = serialized bytes × 1
+//                + Σ outputs (2 + script bytes) × 10
+//                + Σ inputs sigOpCount × 1000
+//   storage mass = max(0, C·(|O|/H(O) − |I|/A(I)))          (KIP-9, C = 10¹²)
+//                  relaxed to C·(|O|/H(O) − |I|/H(I)) when |O| = 1, |I| = 1 or |O| = |I| = 2
+//   mass         = max(compute, storage)
+//
+// Unsigned inputs are priced with a Schnorr signature script (66 bytes) so
+// the estimate matches the signed transaction. kaspa-wasm 0.13 exposes compute
+// mass only (MassCalculator); measureTransactionMass() takes the compute mass
+// from a wasm-built transaction whenever kaspa-wasm loads, and falls back to
+// the local port only when it does not. Storage mass is always computed here.
+
+import { loadKaspaWasm } from "../../src/wallet/kaspaWasmLoader";
+import type { CovenantInputSpend, MultisigLink, PendingTx, TxOutput } from "./types";
+import { addressScriptHex } from "./addressScript";
+
+export const MASS_PER_TX_BYTE = 1;
+export const MASS_PER_SCRIPT_PUB_KEY_BYTE = 10;
+export const MASS_PER_SIG_OP = 1_000;
+/** KIP-9 storage mass parameter C (SOMPI_PER_KASPA × 10 000). */
+export const STORAGE_MASS_PARAMETER = 1_000_000_000_000n;
+/** Largest mass relayed by standard nodes. */
+export const MAXIMUM_STANDARD_TRANSACTION_MASS = 100_000;
+
+/** version + input count + output count + lock time + subnetwork id + gas + payload hash + payload length. */
+const BLANK_TX_BYTES = 2 + 8 + 8 + 8 + 20 + 8 + 32 + 8;
+/** Outpoint (txid + index) + script length + sequence. */
+const INPUT_BASE_BYTES = 32 + 4 + 8 + 8;
+/** Value + script version + script length. */
+const OUTPUT_BASE_BYTES = 8 + 2 + 8;
+/** OP_DATA_65 <64-byte Schnorr signature + sighash type>. */
+export const SCHNORR_SIGNATURE_SCRIPT_BYTES = 66;
+/** OP_DATA_32 <x-only pubkey> OP_CHECKSIG. */
+export const P2PK_SCRIPT_BYTES = 34;
+
+/** Bytes a script push of `length` data bytes takes (opcode + length prefix + data). */
+export function scriptPushBytes(length: number): number {
+  if (length <= 75) return 1 + length;
+  if (length <= 0xff) return 2 + length;
+  if (length <= 0xffff) return 3 + length;
+  return 5 + length;
+}
+
+/** P2SH signature script of an inscription reveal: <signature> <redeem script>. */
+export function inscriptionSignatureScriptBytes(redeemScriptHex: string): number {
+  return SCHNORR_SIGNATURE_SCRIPT_BYTES + scriptPushBytes(Math.ceil(redeemScriptHex.length / 2));
+}
+
+/** P2SH signature script of an m-of-n multisig spend: <sig>×m <redeem script>. */
+export function multisigSignatureScriptBytes(threshold: number, redeemScriptHex: string): number {
+  return threshold * SCHNORR_SIGNATURE_SCRIPT_BYTES + scriptPushBytes(Math.ceil(redeemScriptHex.length / 2));
+}
+
+/** Signature script of a covenant spend: <signature> [<preimage>] [<template script>]. */
+export function covenantSignatureScriptBytes(spend: Pick<CovenantInputSpend, "scriptHex" | "p2sh" | "preimageHex">): number {
+  return SCHNORR_SIGNATURE_SCRIPT_BYTES
+    + (spend.preimageHex ? scriptPushBytes(Math.ceil(spend.preimageHex.length / 2)) : 0)
+    + (spend.p2sh ? scriptPushBytes(Math.ceil(spend.scriptHex.length / 2)) : 0);
+}
+
+export interface TxMassInput {
+  amount: bigint;
+  /** Signature script length once signed (default: Schnorr P2PK, 66). */
+  signatureScriptBytes?: number;
+  sigOpCount?: number;
+}
+
+export interface TxMassOutput {
+  amount: bigint;
+  /** Hex-encoded script public key; defaults to a P2PK script. */
+  scriptPublicKeyHex?: string;
+}
+
+export interface TxMassShape {
+  inputs: TxMassInput[];
+  outputs: TxMassOutput[];
+  payloadBytes?: number;
+}
+
+export type TxMassComponent = "compute" | "storage";
+
+export interface TxMassBreakdown {
+  computeMass: number;
+  storageMass: number;
+  /** max(computeMass, storageMass) — what the fee is priced on. */
+  mass: number;
+  dominant: TxMassComponent;
+  /** Where the compute mass came from. */
+  source: "estimate" | "kaspa-wasm";
+}
+
+function scriptBytes(output: TxMassOutput): number {
+  if (!output.scriptPublicKeyHex) return P2PK_SCRIPT_BYTES;
+  return Math.ceil(output.scriptPublicKeyHex.replace(/^0x/i, "").length / 2);
+}
+
+export function calcInputComputeMass(input: TxMassInput): number {
+  const sigBytes = input.signatureScriptBytes ?? SCHNORR_SIGNATURE_SCRIPT_BYTES;
+  const sigOps = input.sigOpCount ?? 1;
+  return (INPUT_BASE_BYTES + sigBytes) * MASS_PER_TX_BYTE + sigOps * MASS_PER_SIG_OP;
+}
+
+export function calcOutputComputeMass(output: TxMassOutput): number {
+  const bytes = scriptBytes(output);
+  return (OUTPUT_BASE_BYTES + bytes) * MASS_PER_TX_BYTE
+    + (2 + bytes) * MASS_PER_SCRIPT_PUB_KEY_BYTE;
+}
+
+export function calcComputeMass(shape: TxMassShape): number {
+  return (BLANK_TX_BYTES + (shape.payloadBytes ?? 0)) * MASS_PER_TX_BYTE
+    + shape.inputs.reduce((acc, input) => acc + calcInputComputeMass(input), 0)
+    + shape.outputs.reduce((acc, output) => acc + calcOutputComputeMass(output), 0);
+}
+
+/** Compute mass of a signed P2PK transaction from counts only. */
+export function calcP2pkComputeMass(inputCount: number, outputCount: number): number {
+  return BLANK_TX_BYTES * MASS_PER_TX_BYTE
+    + inputCount * calcInputComputeMass({ amount: 0n })
+    + outputCount * calcOutputComputeMass({ amount: 0n });
+}
+
+/**
+ * KIP-9 storage mass. Zero-value outputs (OP_RETURN data carriers) hold no
+ * spendable value and are left out of the harmonic sum.
+ */
+export function calcStorageMass(inputValues: bigint[], outputValues: bigint[]): number {
+  const outs = outputValues.filter((v) => v > 0n);
+  const ins = inputValues.filter((v) => v > 0n);
+  if (outs.length === 0 || ins.length === 0) return 0;
+
+  const C = STORAGE_MASS_PARAMETER;
+  const harmonicOuts = outs.reduce((acc, v) => acc + C / v, 0n);
+
+  let inputTerm: bigint;
+  if (outs.length === 1 || ins.length === 1 || (outs.length === 2 && ins.length === 2)) {
+    inputTerm = ins.reduce((acc, v) => acc + C / v, 0n);
+  } else {
+    const count = BigInt(ins.length);
+    const mean = ins.reduce((acc, v) => acc + v, 0n) / count;
+    inputTerm = mean > 0n ? count * (C / mean) : 0n;
+  }
+  const storage = harmonicOuts - inputTerm;
+  if (storage <= 0n) return 0;
+  return storage > BigInt(Number.MAX_SAFE_INTEGER) ? Number.MAX_SAFE_INTEGER : Number(storage);
+}
+
+function breakdown(computeMass: number, storageMass: number, source: TxMassBreakdown["source"]): TxMassBreakdown {
+  return {
+    computeMass,
+    storageMass,
+    mass: Math.max(computeMass, storageMass),
+    dominant: storageMass > computeMass ? "storage" : "compute",
+    source,
+  };
+}
+
+export function calcTransactionMass(shape: TxMassShape): TxMassBreakdown {
+  return breakdown(
+    calcComputeMass(shape),
+    calcStorageMass(shape.inputs.map((i) => i.amount), shape.outputs.map((o) => o.amount)),
+    "estimate",
+  );
+}
+
+/** Replace the compute component (e.g. with a kaspa-wasm measurement). */
+export function withComputeMass(mass: TxMassBreakdown, computeMass: number, source: TxMassBreakdown["source"]): TxMassBreakdown {
+  return breakdown(computeMass, mass.storageMass, source);
+}
+
+/**
+ * Mass shape of an output paying `address`: its locking script is decoded from
+ * the address, so P2SH and ECDSA outputs (35 bytes) are not priced as P2PK.
+ */
+export function addressMassOutput(output: TxOutput): TxMassOutput {
+  const scriptPublicKeyHex = addressScriptHex(output.address);
+  return scriptPublicKeyHex ? { amount: output.amount, scriptPublicKeyHex } : { amount: output.amount };
+}
+
+/**
+ * Mass shape of a built PendingTx: payment outputs, change and OP_RETURN.
+ * Inscription inputs are priced with their redeem script pushed after the
+ * signature; covenant inputs with their unlock data (PendingTx.covenant).
+ */
+export function pendingTxMassShape(tx: PendingTx): TxMassShape {
+  const outputs: TxMassOutput[] = tx.outputs.map(addressMassOutput);
+  if (tx.changeOutput) outputs.push(addressMassOutput(tx.changeOutput));
+  if (tx.opReturnHex) outputs.push({ amount: 0n, scriptPublicKeyHex: `6a${tx.opReturnHex}` });
+  const redeemScriptHex = tx.krc20?.redeemScriptHex;
+  return {
+    inputs: tx.inputs.map((u) => {
+      if (u.scriptClass === "multisig" && tx.multisig) return multisigMassInput(u.amount, tx.multisig);
+      const covenant = u.scriptClass === "covenant"
+        ? tx.covenant?.inputs.find((spend) => spend.outpoint === `${u.txId}:${u.outputIndex}`)
+        : undefined;
+      if (covenant) return { amount: u.amount, signatureScriptBytes: covenantSignatureScriptBytes(covenant) };
+      return u.scriptClass === "inscription" && redeemScriptHex
+        ? { amount: u.amount, signatureScriptBytes: inscriptionSignatureScriptBytes(redeemScriptHex) }
+        : { amount: u.amount };
+    }),
+    outputs,
+  };
+}
+
+/** Mass shape of one multisig input: m signatures, one sig-op per co-signer key. */
+export function multisigMassInput(
+  amount: bigint,
+  link: Pick<MultisigLink, "threshold" | "redeemScriptHex" | "cosigners">,
+): TxMassInput {
+  return {
+    amount,
+    signatureScriptBytes: multisigSignatureScriptBytes(link.threshold, link.redeemScriptHex),
+    sigOpCount: link.cosigners.length,
+  };
+}
+
+export function formatMassBreakdown(mass: TxMassBreakdown): string {
+  return `mass ${mass.mass} (compute ${mass.computeMass}, storage ${mass.storageMass}; ${mass.dominant}-dominated)`;
+}
+
+type KaspaMassApi = {
+  MassCalculator: new (params: unknown) => {
+    calcMassForTransaction: (tx: unknown) => number;
+    calcSignatureMassForInputs: (inputCount: number, minimumSignatures: number) => number;
+  };
+  getConsensusParametersByNetwork: (networkType: number) => unknown;
+  Transaction: new (value: unknown) => unknown;
+  TransactionInput: new (value: unknown) => unknown;
+  TransactionOutput: new (value: bigint, spk: unknown) => unknown;
+  ScriptPublicKey: new (version: number, script: string) => unknown;
+};
+
+const P2PK_PLACEHOLDER_SCRIPT = `20${"00".repeat(32)}ac`;
+
+/**
+ * Compute mass of the transaction as measured by kaspa-wasm's MassCalculator
+ * (unsigned tx + signature mass). Returns null when the loaded module lacks
+ * the mass API or rejects the shape — callers fall back to the local port.
+ */
+export function kaspaWasmComputeMass(kaspa: unknown, shape: TxMassShape, network: string): number | null {
+  const api = (kaspa ?? {}) as Partial<KaspaMassApi>;
+  if (
+    !api.MassCalculator || !api.getConsensusParametersByNetwork || !api.Transaction
+    || !api.TransactionInput || !api.TransactionOutput || !api.ScriptPublicKey
+  ) {
+    return null;
+  }
+  try {
+    const networkType = network === "mainnet" ? 0 : 1;
+    const calculator = new api.MassCalculator(api.getConsensusParametersByNetwork(networkType));
+    // Input outpoints do not affect mass beyond their fixed size; output
+    // scripts are the shape's own (P2PK placeholder only when unknown).
+    const inputs = shape.inputs.map((input, i) => new api.TransactionInput!({
+      previousOutpoint: { transactionId: i.toString(16).padStart(64, "0"), index: 0 },
+      signatureScript: "",
+      sequence: 0n,
+      sigOpCount: input.sigOpCount ?? 1,
+    }));
+    const outputs = shape.outputs.map((output) => new api.TransactionOutput!(
+      output.amount,
+      new api.ScriptPublicKey!(0, output.scriptPublicKeyHex ?? P2PK_PLACEHOLDER_SCRIPT),
+    ));
+    const tx = new api.Transaction({
+      version: 0,
+      inputs,
+      outputs,
+      lockTime: 0n,
+      subnetworkId: "00".repeat(20),
+      gas: 0n,
+      payload: "00".repeat(shape.payloadBytes ?? 0),
+    });
+    const unsigned = Number(calculator.calcMassForTransaction(tx));
+    const signatures = Number(calculator.calcSignatureMassForInputs(shape.inputs.length, 1));
+    // Signature mass assumes a bare Schnorr signature; add any longer script (P2SH redeem pushes).
+    const extraScriptBytes = shape.inputs.reduce(
+      (acc, input) => acc + Math.max(0, (input.signatureScriptBytes ?? SCHNORR_SIGNATURE_SCRIPT_BYTES) - SCHNORR_SIGNATURE_SCRIPT_BYTES),
+      0,
+    );
+    const total = unsigned + signatures + extraScriptBytes * MASS_PER_TX_BYTE;
+    return Number.isFinite(total) && total > 0 ? total : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mass of `shape` with kaspa-wasm as the authority for compute mass; the local
+ * port is used only when the module cannot be loaded or lacks the mass API.
+ */
+export async function measureTransactionMass(
+  shape: TxMassShape,
+  network: string,
+  loadKaspa: () => Promise<unknown> = loadKaspaWasm,
+): Promise<TxMassBreakdown> {
+  const estimate = calcTransactionMass(shape);
+  try {
+    const wasmCompute = kaspaWasmComputeMass(await loadKaspa(), shape, network);
+    return wasmCompute === null ? estimate : withComputeMass(estimate, wasmCompute, "kaspa-wasm");
+  } catch {
+    return estimate;
+  }
+}
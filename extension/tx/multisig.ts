@@ -0,0 +1,353 @@
+// m-of-n multisig accounts and co-signer coordination.
+//
+//   1. Every co-signer exports this vault's co-signer key (exportMultisigXpub)
+//      and registers the same key set: createMultisigAccount derives the
+//      redeem script and its P2SH address.
+//   2. The initiator builds a spend through the kernel (buildTransaction with
+//      the account's MultisigLink); it stays BUILDING while signatures arrive.
+//   3. The spend request travels to co-signers as a file, QR frame sequence or
+//      via the local relay; each returns a partial signature envelope.
+//   4. finalizeMultisigSpend dry-runs the tx — which fails until `threshold`
+//      co-signers have signed — then combines the signatures and broadcasts.
+
+import type { MultisigLink, PendingTx } from "./types";
+import { buildMultisigSpendTx, finalizeMultisigTx, type SignBroadcastReconcileOptions } from "./kernel";
+import { multisigPubkeyFromXpub, signMultisigInputs, verifyMultisigInputSignatures } from "./signer";
+import { buildMultisigRedeemScript, collectedMultisigSignatures, isMultisigSignaturePush } from "./multisigScript";
+import { psktDigest } from "./pskt";
+import { deserialiseTx, getPendingTxById, serialiseTx, updatePendingTx, type Serialisable } from "./store";
+import type { FeeTier } from "../network/feeTiers";
+import { getMultisigRelayEntries, postMultisigRelayEntry } from "../network/localNodeClient";
+import { getMultisigAccounts, saveMultisigAccount, type MultisigAccount } from "../shared/storage";
+import { loadKaspaWasm } from "../../src/wallet/kaspaWasmLoader";
+
+export const MULTISIG_FORMAT = "forgeos-multisig";
+export const MULTISIG_VERSION = 1;
+
+export type MultisigEnvelopeKind = "request" | "partial";
+
+export interface MultisigEnvelope {
+  format: typeof MULTISIG_FORMAT;
+  version: number;
+  kind: MultisigEnvelopeKind;
+  network: string;
+  /** PendingTx.id of the spend. */
+  txId: string;
+  /** psktDigest of the spend — partials only apply to the exact tx signed. */
+  digest: string;
+  createdAt: number;
+  /** Request: the spend to sign. */
+  tx?: Serialisable;
+  /** Partial: signer's x-only pubkey and one signature push per input. */
+  pubkey?: string;
+  signatures?: string[];
+}
+
+// ── Accounts ──────────────────────────────────────────────────────────────────
+
+export interface MultisigAccountInput {
+  label?: string;
+  threshold: number;
+  network: string;
+  cosigners: Array<{ label?: string; xpub: string }>;
+}
+
+export interface MultisigAccountDeps {
+  pubkeyFromXpub: (xpub: string) => Promise<string>;
+  p2shAddress: (redeemScriptHex: string, network: string) => Promise<{ address: string; scriptPublicKeyHex: string }>;
+}
+
+type KaspaP2shApi = {
+  ScriptBuilder: {
+    fromScript: (hex: string) => { createPayToScriptHashScript: () => { script?: string; scriptPublicKey?: string } };
+  };
+  addressFromScriptPublicKey: (spk: unknown, network: string) => { toString: () => string } | undefined;
+};
+
+/** P2SH address and script of a redeem script via kaspa-wasm. */
+export async function multisigP2shAddress(
+  redeemScriptHex: string,
+  network: string,
+): Promise<{ address: string; scriptPublicKeyHex: string }> {
+  const kaspa = await loadKaspaWasm() as unknown as Partial<KaspaP2shApi>;
+  if (!kaspa.ScriptBuilder || !kaspa.addressFromScriptPublicKey) {
+    throw new Error("WASM_P2SH_UNAVAILABLE: kaspa-wasm script API not found");
+  }
+  const p2sh = kaspa.ScriptBuilder.fromScript(redeemScriptHex).createPayToScriptHashScript();
+  const address = kaspa.addressFromScriptPublicKey(p2sh, network)?.toString() ?? "";
+  if (!address) throw new Error("MULTISIG_ADDRESS_FAILED");
+  return { address, scriptPublicKeyHex: String(p2sh.script ?? p2sh.scriptPublicKey ?? "").toLowerCase() };
+}
+
+const DEFAULT_ACCOUNT_DEPS: MultisigAccountDeps = {
+  pubkeyFromXpub: multisigPubkeyFromXpub,
+  p2shAddress: multisigP2shAddress,
+};
+
+/**
+ * Derive and register a multisig account from co-signer extended public keys.
+ * Throws MULTISIG_XPUB_INVALID, MULTISIG_PUBKEY_INVALID, MULTISIG_DUPLICATE_COSIGNER,
+ * MULTISIG_THRESHOLD_INVALID, MULTISIG_DUPLICATE.
+ */
+export async function createMultisigAccount(
+  input: MultisigAccountInput,
+  deps: Partial<MultisigAccountDeps> = {},
+): Promise<MultisigAccount> {
+  const d = { ...DEFAULT_ACCOUNT_DEPS, ...deps };
+  const cosigners = await Promise.all(input.cosigners.map(async (c, i) => ({
+    label: String(c.label || "").trim() || `Co-signer ${i + 1}`,
+    xpub: c.xpub.trim(),
+    pubkey: await d.pubkeyFromXpub(c.xpub),
+  })));
+  const redeemScriptHex = buildMultisigRedeemScript(input.threshold, cosigners.map((c) => c.pubkey));
+  const { address, scriptPublicKeyHex } = await d.p2shAddress(redeemScriptHex, input.network);
+  return saveMultisigAccount({
+    label: String(input.label || "").trim(),
+    threshold: input.threshold,
+    cosigners: [...cosigners].sort((a, b) => a.pubkey.localeCompare(b.pubkey)),
+    redeemScriptHex,
+    scriptPublicKeyHex,
+    address,
+    network: input.network,
+  });
+}
+
+export function multisigLinkForAccount(account: MultisigAccount): MultisigLink {
+  return {
+    accountId: account.id,
+    threshold: account.threshold,
+    redeemScriptHex: account.redeemScriptHex,
+    scriptPublicKeyHex: account.scriptPublicKeyHex,
+    cosigners: account.cosigners.map(({ label, pubkey }) => ({ label, pubkey })),
+  };
+}
+
+// ── Spend ─────────────────────────────────────────────────────────────────────
+
+export interface MultisigSpendRequest {
+  account: MultisigAccount;
+  to: string;
+  amountKas: number;
+  feeTier?: FeeTier;
+}
+
+type MultisigKernel = {
+  buildMultisigSpendTx: typeof buildMultisigSpendTx;
+  finalizeMultisigTx: typeof finalizeMultisigTx;
+};
+
+const DEFAULT_KERNEL: MultisigKernel = { buildMultisigSpendTx, finalizeMultisigTx };
+
+/** Build a spend from a multisig account; it waits in BUILDING for co-signers. */
+export async function startMultisigSpend(
+  request: MultisigSpendRequest,
+  kernel: MultisigKernel = DEFAULT_KERNEL,
+): Promise<PendingTx> {
+  return kernel.buildMultisigSpendTx({
+    fromAddress: request.account.address,
+    network: request.account.network,
+    to: request.to,
+    amountKas: request.amountKas,
+    multisig: multisigLinkForAccount(request.account),
+    feeTier: request.feeTier,
+  });
+}
+
+/** Co-signers whose partial signature is in, out of the threshold. */
+export function multisigProgress(tx: PendingTx): { signed: number; threshold: number; ready: boolean } {
+  const signed = collectedMultisigSignatures(tx).length;
+  const threshold = tx.multisig?.threshold ?? 0;
+  return { signed, threshold, ready: Boolean(tx.multisig) && signed >= threshold };
+}
+
+/**
+ * Dry-run (threshold check included), combine signatures, broadcast and
+ * reconcile. Failures surface as DeterministicExecutionError from the kernel.
+ */
+export async function finalizeMultisigSpend(
+  tx: PendingTx,
+  options: SignBroadcastReconcileOptions & { kernel?: MultisigKernel } = {},
+): Promise<PendingTx> {
+  const { kernel = DEFAULT_KERNEL, ...rest } = options;
+  return kernel.finalizeMultisigTx(tx, rest);
+}
+
+/** Abandon a spend that will not collect enough signatures; releases its inputs. */
+export async function cancelMultisigSpend(id: string): Promise<void> {
+  const tx = await getPendingTxById(id);
+  if (!tx?.multisig || tx.state !== "BUILDING") return;
+  await updatePendingTx({ ...tx, state: "CANCELLED" });
+}
+
+// ── Envelopes ─────────────────────────────────────────────────────────────────
+
+function encodeEnvelope(envelope: Omit<MultisigEnvelope, "format" | "version" | "createdAt">): string {
+  return JSON.stringify({ format: MULTISIG_FORMAT, version: MULTISIG_VERSION, createdAt: Date.now(), ...envelope });
+}
+
+/** Parse a request or partial envelope. Throws MULTISIG_ENVELOPE_MALFORMED. */
+export function parseMultisigEnvelope(text: string): MultisigEnvelope {
+  let raw: Partial<MultisigEnvelope>;
+  try {
+    raw = JSON.parse(String(text || "").trim());
+  } catch {
+    throw new Error("MULTISIG_ENVELOPE_MALFORMED: not a Forge-OS multisig file");
+  }
+  if (raw?.format !== MULTISIG_FORMAT || raw.version !== MULTISIG_VERSION) {
+    throw new Error("MULTISIG_ENVELOPE_MALFORMED: not a Forge-OS multisig file");
+  }
+  if ((raw.kind !== "request" && raw.kind !== "partial") || typeof raw.txId !== "string" || typeof raw.digest !== "string") {
+    throw new Error("MULTISIG_ENVELOPE_MALFORMED: missing spend id or digest");
+  }
+  return raw as MultisigEnvelope;
+}
+
+/** Spend request for co-signers. Throws MULTISIG_NOT_PENDING once the spend left BUILDING. */
+export async function exportMultisigRequest(tx: PendingTx): Promise<string> {
+  if (!tx.multisig || tx.state !== "BUILDING") {
+    throw new Error(`MULTISIG_NOT_PENDING: ${tx.id} is not awaiting co-signers (${tx.state})`);
+  }
+  const { txId: _txId, error: _error, ...rest } = tx;
+  return encodeEnvelope({
+    kind: "request",
+    network: tx.network,
+    txId: tx.id,
+    digest: await psktDigest(tx),
+    tx: serialiseTx(rest as PendingTx),
+  });
+}
+
+export interface SignMultisigRequestOptions {
+  /** Defaults to the vault co-signer key (tx/signer.ts). */
+  signInputs?: typeof signMultisigInputs;
+}
+
+/**
+ * Co-signer side: check a request against the locally registered account and
+ * sign it. Returns the partial signature envelope.
+ * Throws MULTISIG_ENVELOPE_MALFORMED, MULTISIG_DIGEST_MISMATCH,
+ * MULTISIG_UNKNOWN_ACCOUNT, MULTISIG_UNBALANCED, or the signer's errors.
+ */
+export async function signMultisigRequest(text: string, options: SignMultisigRequestOptions = {}): Promise<string> {
+  const envelope = parseMultisigEnvelope(text);
+  if (envelope.kind !== "request" || !envelope.tx) throw new Error("MULTISIG_ENVELOPE_MALFORMED: not a spend request");
+  let tx: PendingTx;
+  try {
+    tx = deserialiseTx(envelope.tx);
+  } catch {
+    throw new Error("MULTISIG_ENVELOPE_MALFORMED: transaction fields are invalid");
+  }
+  if (tx.id !== envelope.txId || (await psktDigest(tx)) !== envelope.digest) {
+    throw new Error("MULTISIG_DIGEST_MISMATCH: request contents do not match its digest");
+  }
+  await assertRegisteredAccount(tx);
+  const spent = tx.inputs.reduce((sum, i) => sum + i.amount, 0n);
+  const paid = tx.outputs.reduce((sum, o) => sum + o.amount, 0n) + (tx.changeOutput?.amount ?? 0n) + tx.fee;
+  if (spent !== paid) throw new Error("MULTISIG_UNBALANCED: inputs do not equal outputs + change + fee");
+
+  const sign = options.signInputs ?? signMultisigInputs;
+  const { pubkey, signatures } = await sign(tx);
+  return encodeEnvelope({ kind: "partial", network: tx.network, txId: tx.id, digest: envelope.digest, pubkey, signatures });
+}
+
+/** Only sign for key sets this vault registered, spending from their own address. */
+async function assertRegisteredAccount(tx: PendingTx): Promise<void> {
+  const link = tx.multisig;
+  const accounts = await getMultisigAccounts();
+  const account = link && accounts.find((a) =>
+    a.redeemScriptHex === link.redeemScriptHex
+    && a.address.toLowerCase() === tx.fromAddress.toLowerCase());
+  if (!account || account.threshold !== link!.threshold) {
+    throw new Error("MULTISIG_UNKNOWN_ACCOUNT: register this multisig account before co-signing");
+  }
+}
+
+/**
+ * Initiator side: record a co-signer's partial signature on the stored spend
+ * once every push verifies against the co-signer key and the input's sighash.
+ * Re-applying the same co-signer replaces their earlier (verified) signature.
+ * Throws MULTISIG_ENVELOPE_MALFORMED, MULTISIG_UNKNOWN_TX, MULTISIG_NOT_PENDING,
+ * MULTISIG_DIGEST_MISMATCH, MULTISIG_NOT_COSIGNER, MULTISIG_SIGNATURE_INVALID.
+ */
+export async function applyMultisigPartial(text: string): Promise<PendingTx> {
+  const envelope = parseMultisigEnvelope(text);
+  if (envelope.kind !== "partial") throw new Error("MULTISIG_ENVELOPE_MALFORMED: not a partial signature");
+  const tx = await getPendingTxById(envelope.txId);
+  if (!tx?.multisig) throw new Error(`MULTISIG_UNKNOWN_TX: ${envelope.txId} was not started from this wallet`);
+  if (tx.state !== "BUILDING") throw new Error(`MULTISIG_NOT_PENDING: ${tx.id} is already ${tx.state}`);
+  if ((await psktDigest(tx)) !== envelope.digest) {
+    throw new Error("MULTISIG_DIGEST_MISMATCH: signature was made for a different transaction");
+  }
+  const pubkey = String(envelope.pubkey || "").toLowerCase();
+  if (!tx.multisig.cosigners.some((c) => c.pubkey === pubkey)) {
+    throw new Error("MULTISIG_NOT_COSIGNER: signature is from a key outside this account");
+  }
+  const signatures = envelope.signatures ?? [];
+  if (signatures.length !== tx.inputs.length || !signatures.every(isMultisigSignaturePush)) {
+    throw new Error(`MULTISIG_SIGNATURE_INVALID: expected ${tx.inputs.length} signature(s)`);
+  }
+  const normalized = signatures.map((s) => s.toLowerCase());
+  if (!(await verifyMultisigInputSignatures(tx, pubkey, normalized))) {
+    throw new Error("MULTISIG_SIGNATURE_INVALID: signature does not verify for this co-signer and transaction");
+  }
+  return recordSignatures(tx, pubkey, normalized);
+}
+
+async function recordSignatures(tx: PendingTx, pubkey: string, signatures: string[]): Promise<PendingTx> {
+  const updated: PendingTx = {
+    ...tx,
+    multisig: {
+      ...tx.multisig!,
+      cosigners: tx.multisig!.cosigners.map((c) => (
+        c.pubkey === pubkey ? { ...c, signatures, signedAt: Date.now() } : c
+      )),
+    },
+  };
+  await updatePendingTx(updated);
+  return updated;
+}
+
+/** Initiator who is also a co-signer: sign the stored spend with this vault directly. */
+export async function signMultisigSpendLocally(
+  tx: PendingTx,
+  options: SignMultisigRequestOptions = {},
+): Promise<PendingTx> {
+  return applyMultisigPartial(await signMultisigRequest(await exportMultisigRequest(tx), options));
+}
+
+// ── Local relay ───────────────────────────────────────────────────────────────
+
+/** Post the spend request to the local relay for co-signers to pick up. */
+export async function publishMultisigRequest(tx: PendingTx): Promise<void> {
+  await postMultisigRelayEntry(tx.id, "request", await exportMultisigRequest(tx));
+}
+
+export async function publishMultisigPartial(partialText: string): Promise<void> {
+  await postMultisigRelayEntry(parseMultisigEnvelope(partialText).txId, "partial", partialText);
+}
+
+/** Latest spend request posted to the relay for `txId`, or null. */
+export async function fetchMultisigRequest(txId: string): Promise<string | null> {
+  const entries = await getMultisigRelayEntries(txId);
+  return entries.filter((e) => e.kind === "request").sort((a, b) => b.postedAt - a.postedAt)[0]?.text ?? null;
+}
+
+/**
+ * Apply every partial signature on the relay for the spend. Entries that do
+ * not verify (stale digest, unknown key, bad signature) are skipped and
+ * counted, leaving any signature already recorded for that co-signer.
+ */
+export async function pullMultisigPartials(txId: string): Promise<{ tx: PendingTx | null; applied: number; rejected: number }> {
+  const entries = (await getMultisigRelayEntries(txId)).filter((e) => e.kind === "partial");
+  let applied = 0;
+  let rejected = 0;
+  for (const entry of entries) {
+    try {
+      await applyMultisigPartial(entry.text);
+      applied += 1;
+    } catch {
+      rejected += 1;
+    }
+  }
+  return { tx: await getPendingTxById(txId), applied, rejected };
+}
@@ -0,0 +1,85 @@
+// m-of-n multisig scripts and signature-threshold checks.
+//
+//   redeem script:    OP_m <x-only pubkey>×n OP_n OP_CHECKMULTISIG
+//   signature script: <sig>×m <redeem script>
+//
+// Pubkeys are sorted so every co-signer derives the same script (and P2SH
+// address) from the same key set; OP_CHECKMULTISIG consumes signatures in
+// that order. Pure helpers — shared by tx/multisig.ts and the dry-run.
+
+import type { MultisigCosigner, PendingTx } from "./types";
+
+/** Largest key set expressible with small-integer opcodes (OP_1..OP_16). */
+export const MULTISIG_MAX_COSIGNERS = 16;
+
+const OP_CHECKMULTISIG = "ae";
+
+function smallIntOpcode(n: number): string {
+  return (0x50 + n).toString(16);
+}
+
+/** One co-signer's push for one input: OP_DATA_65 <64-byte Schnorr signature + sighash type>. */
+export function isMultisigSignaturePush(value: unknown): boolean {
+  return typeof value === "string" && /^41[0-9a-f]{130}$/i.test(value);
+}
+
+/**
+ * Redeem script for `threshold` of `pubkeys`.
+ * Throws MULTISIG_PUBKEY_INVALID, MULTISIG_DUPLICATE_COSIGNER, MULTISIG_THRESHOLD_INVALID.
+ */
+export function buildMultisigRedeemScript(threshold: number, pubkeys: string[]): string {
+  const keys = pubkeys.map((k) => String(k || "").trim().toLowerCase());
+  for (const key of keys) {
+    if (!/^[0-9a-f]{64}$/.test(key)) throw new Error(`MULTISIG_PUBKEY_INVALID: "${key}"`);
+  }
+  if (new Set(keys).size !== keys.length) throw new Error("MULTISIG_DUPLICATE_COSIGNER");
+  if (keys.length < 2 || keys.length > MULTISIG_MAX_COSIGNERS) {
+    throw new Error(`MULTISIG_THRESHOLD_INVALID: 2–${MULTISIG_MAX_COSIGNERS} co-signers required`);
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > keys.length) {
+    throw new Error(`MULTISIG_THRESHOLD_INVALID: ${threshold} of ${keys.length}`);
+  }
+  return [
+    smallIntOpcode(threshold),
+    ...[...keys].sort().map((key) => `20${key}`),
+    smallIntOpcode(keys.length),
+    OP_CHECKMULTISIG,
+  ].join("");
+}
+
+/** Co-signers whose signatures cover every input, in script order. */
+export function collectedMultisigSignatures(tx: PendingTx): MultisigCosigner[] {
+  return (tx.multisig?.cosigners ?? []).filter((c) =>
+    Array.isArray(c.signatures)
+    && c.signatures.length === tx.inputs.length
+    && c.signatures.every(isMultisigSignaturePush));
+}
+
+/**
+ * Dry-run check for multisig spends: the link matches its redeem script and
+ * at least `threshold` distinct co-signers have signed every input.
+ */
+export function multisigThresholdErrors(tx: PendingTx): string[] {
+  const multisigInputs = tx.inputs.filter((input) => input.scriptClass === "multisig").length;
+  const link = tx.multisig;
+  if (!link) {
+    return multisigInputs > 0 ? ["MULTISIG_LINK_MISSING: multisig inputs without co-signer data"] : [];
+  }
+  if (multisigInputs !== tx.inputs.length) {
+    return ["MULTISIG_INPUT_MISMATCH: every input must be locked by the multisig script"];
+  }
+  let expected: string;
+  try {
+    expected = buildMultisigRedeemScript(link.threshold, link.cosigners.map((c) => c.pubkey));
+  } catch (err) {
+    return [err instanceof Error ? err.message : String(err)];
+  }
+  if (expected !== link.redeemScriptHex.toLowerCase()) {
+    return ["MULTISIG_SCRIPT_MISMATCH: redeem script does not match the co-signer keys"];
+  }
+  const signed = collectedMultisigSignatures(tx).length;
+  if (signed < link.threshold) {
+    return [`MULTISIG_THRESHOLD_NOT_MET: ${signed}/${link.threshold} signatures collected`];
+  }
+  return [];
+}
@@ -0,0 +1,313 @@
+// Offline (air-gapped) signing via partially signed transaction envelopes.
+//
+// Online instance (usually a watch-only account): build + dry-run a PendingTx
+// through the kernel, then exportPskt() → file or QR frame sequence.
+// Offline instance (vault unlocked, no network): signPskt() checks the
+// envelope digest, signs with the vault key and exports the signed envelope.
+// Online again: importSignedPskt() matches the signed payload to the stored
+// DRY_RUN_OK tx and hands it to the kernel for broadcast + reconciliation.
+//
+// The envelope is Forge-OS JSON, not the kaspa-wasm PSKT binary: inputs carry
+// their full UTXO (amount, script) so the offline signer needs no node.
+
+import type { PendingTx } from "./types";
+import { deserialiseTx, getPendingTxById, serialiseTx, updatePendingTx, type Serialisable } from "./store";
+import { broadcastAndReconcileKaspaTx, type SignBroadcastReconcileOptions } from "./kernel";
+import { signTransaction } from "./signer";
+import { addressScriptHex } from "./addressScript";
+
+export { addressScriptHex };
+
+export const PSKT_FORMAT = "forgeos-pskt";
+export const PSKT_VERSION = 1;
+/** QR frame header: FPSKT:<index>/<total>:<chunk>. */
+export const PSKT_QR_PREFIX = "FPSKT";
+/** Characters per QR frame; keeps each code scannable at popup size. */
+export const PSKT_QR_CHUNK_CHARS = 600;
+
+export type PsktStage = "unsigned" | "signed";
+
+export interface PsktEnvelope {
+  format: typeof PSKT_FORMAT;
+  version: number;
+  stage: PsktStage;
+  network: string;
+  /** SHA-256 of the tx's spending intent (inputs, outputs, change, fee). */
+  digest: string;
+  createdAt: number;
+  tx: Serialisable;
+}
+
+export interface ParsedPskt {
+  envelope: PsktEnvelope;
+  tx: PendingTx;
+}
+
+type PsktKernel = {
+  broadcastAndReconcileKaspaTx: (tx: PendingTx, options?: SignBroadcastReconcileOptions) => Promise<PendingTx>;
+};
+
+export interface SignPsktOptions {
+  /** Defaults to the vault signer (tx/signer.ts). */
+  signTransaction?: (tx: PendingTx) => Promise<PendingTx>;
+}
+
+export interface ImportSignedPsktOptions extends SignBroadcastReconcileOptions {
+  /** Defaults to the shared deterministic kernel. */
+  kernel?: PsktKernel;
+}
+
+// ── Digest ────────────────────────────────────────────────────────────────────
+
+function spendingIntent(tx: PendingTx): string {
+  return JSON.stringify({
+    network: tx.network,
+    fromAddress: tx.fromAddress.toLowerCase(),
+    inputs: tx.inputs.map((i) => [i.txId, i.outputIndex, i.amount.toString(), i.scriptPublicKey]),
+    outputs: tx.outputs.map((o) => [o.address.toLowerCase(), o.amount.toString()]),
+    change: tx.changeOutput ? [tx.changeOutput.address.toLowerCase(), tx.changeOutput.amount.toString()] : null,
+    fee: tx.fee.toString(),
+    opReturnHex: tx.opReturnHex ?? null,
+  });
+}
+
+export async function psktDigest(tx: PendingTx): Promise<string> {
+  const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(spendingIntent(tx)));
+  return [...new Uint8Array(hash)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Inputs minus outputs and change — what the network actually receives as fee. */
+export function impliedFee(tx: PendingTx): bigint {
+  const spent = tx.inputs.reduce((sum, i) => sum + i.amount, 0n);
+  const paid = tx.outputs.reduce((sum, o) => sum + o.amount, 0n) + (tx.changeOutput?.amount ?? 0n);
+  return spent - paid;
+}
+
+// ── Envelope (de)serialisation ────────────────────────────────────────────────
+
+function envelopeTx(tx: PendingTx): Serialisable {
+  // Local bookkeeping stays home; receipt fields are meaningless offline.
+  const {
+    txId: _txId,
+    error: _error,
+    receiptCheckedAt: _checked,
+    receiptProbeAttempts: _attempts,
+    receiptSourceBackend: _backend,
+    receiptSourceReason: _reason,
+    receiptSourceEndpoint: _endpoint,
+    ...rest
+  } = tx;
+  return serialiseTx(rest as PendingTx);
+}
+
+async function encodeEnvelope(stage: PsktStage, tx: PendingTx, digest: string): Promise<string> {
+  const envelope: PsktEnvelope = {
+    format: PSKT_FORMAT,
+    version: PSKT_VERSION,
+    stage,
+    network: tx.network,
+    digest,
+    createdAt: Date.now(),
+    tx: envelopeTx(tx),
+  };
+  return JSON.stringify(envelope);
+}
+
+/** Parse an exported envelope. Throws PSKT_MALFORMED / PSKT_UNSUPPORTED_VERSION. */
+export function parsePskt(text: string): ParsedPskt {
+  let raw: Partial<PsktEnvelope>;
+  try {
+    raw = JSON.parse(String(text || "").trim());
+  } catch {
+    throw new Error("PSKT_MALFORMED: not a Forge-OS transaction file");
+  }
+  if (raw?.format !== PSKT_FORMAT || !raw.tx || typeof raw.digest !== "string") {
+    throw new Error("PSKT_MALFORMED: not a Forge-OS transaction file");
+  }
+  if (raw.version !== PSKT_VERSION) {
+    throw new Error(`PSKT_UNSUPPORTED_VERSION: ${String(raw.version)}`);
+  }
+  if (raw.stage !== "unsigned" && raw.stage !== "signed") {
+    throw new Error(`PSKT_MALFORMED: unknown stage "${String(raw.stage)}"`);
+  }
+  let tx: PendingTx;
+  try {
+    tx = deserialiseTx(raw.tx);
+  } catch {
+    throw new Error("PSKT_MALFORMED: transaction fields are invalid");
+  }
+  return { envelope: raw as PsktEnvelope, tx };
+}
+
+async function assertDigest(tx: PendingTx, digest: string): Promise<void> {
+  if ((await psktDigest(tx)) !== digest) {
+    throw new Error("PSKT_DIGEST_MISMATCH: transaction contents do not match the exported digest");
+  }
+}
+
+// ── Online: export ────────────────────────────────────────────────────────────
+
+/** Export a dry-run validated tx for offline signing. Throws PSKT_NOT_VALIDATED. */
+export async function exportPskt(tx: PendingTx): Promise<string> {
+  if (tx.state !== "DRY_RUN_OK") {
+    throw new Error(`PSKT_NOT_VALIDATED: only DRY_RUN_OK transactions can be exported (got ${tx.state})`);
+  }
+  return encodeEnvelope("unsigned", tx, await psktDigest(tx));
+}
+
+// ── Offline: sign ─────────────────────────────────────────────────────────────
+
+/**
+ * Sign an unsigned envelope with the unlocked vault and return the signed
+ * envelope. Throws PSKT_ALREADY_SIGNED, PSKT_DIGEST_MISMATCH, PSKT_UNBALANCED,
+ * or the signer's own errors (WALLET_LOCKED, WATCH_ONLY_ACCOUNT, SIGN_FAILED).
+ */
+export async function signPskt(text: string, options: SignPsktOptions = {}): Promise<string> {
+  const { envelope, tx } = parsePskt(text);
+  if (envelope.stage !== "unsigned") throw new Error("PSKT_ALREADY_SIGNED");
+  await assertDigest(tx, envelope.digest);
+  if (impliedFee(tx) < 0n) throw new Error("PSKT_UNBALANCED: outputs exceed inputs");
+
+  const sign = options.signTransaction ?? signTransaction;
+  const signed = await sign({ ...tx, state: "DRY_RUN_OK" });
+  if (!signed.signedTxPayload) throw new Error("SIGN_FAILED: signer returned no payload");
+  return encodeEnvelope("signed", signed, envelope.digest);
+}
+
+// ── Online: import + broadcast ────────────────────────────────────────────────
+
+type PayloadTx = {
+  outpoints: string[];
+  outputs: Array<{ amount: bigint; script: string }>;
+};
+
+const UNPARSEABLE_PAYLOAD = "PSKT_PAYLOAD_MISMATCH: signed payload is not a readable transaction";
+
+/** Inputs and outputs of a REST-format signed payload ({ transaction: { inputs, outputs } }). */
+function parsePayloadTx(payload: string): PayloadTx {
+  let parsed: { transaction?: { inputs?: unknown; outputs?: unknown } };
+  try {
+    parsed = JSON.parse(payload);
+  } catch {
+    throw new Error("PSKT_PAYLOAD_MISMATCH: signed payload is not valid JSON");
+  }
+  const { inputs, outputs } = parsed?.transaction ?? {};
+  if (!Array.isArray(inputs) || !Array.isArray(outputs) || inputs.length === 0) throw new Error(UNPARSEABLE_PAYLOAD);
+  return {
+    outpoints: inputs.map((input) => {
+      const outpoint = (input as { previousOutpoint?: { transactionId?: unknown; index?: unknown } })?.previousOutpoint;
+      if (typeof outpoint?.transactionId !== "string" || !Number.isInteger(outpoint.index)) throw new Error(UNPARSEABLE_PAYLOAD);
+      return `${outpoint.transactionId}:${outpoint.index}`;
+    }),
+    outputs: outputs.map((output) => {
+      const { amount, scriptPublicKey } = (output ?? {}) as { amount?: unknown; scriptPublicKey?: { scriptPublicKey?: unknown } };
+      const script = scriptPublicKey?.scriptPublicKey;
+      if (typeof script !== "string" || !/^[0-9]+$/.test(String(amount ?? ""))) throw new Error(UNPARSEABLE_PAYLOAD);
+      return { amount: BigInt(String(amount)), script: script.toLowerCase() };
+    }),
+  };
+}
+
+function outputKey(amount: bigint, script: string): string {
+  return `${amount}:${script}`;
+}
+
+/**
+ * The signed payload must spend exactly the exported inputs, pay exactly the
+ * exported outputs, OP_RETURN and change, and leave exactly the exported fee.
+ * A payload that cannot be read is rejected rather than trusted.
+ */
+function assertPayloadSpends(tx: PendingTx, payload: string): void {
+  const signed = parsePayloadTx(payload);
+  const expectedInputs = tx.inputs.map((i) => `${i.txId}:${i.outputIndex}`).sort();
+  if (signed.outpoints.length !== expectedInputs.length || [...signed.outpoints].sort().join() !== expectedInputs.join()) {
+    throw new Error("PSKT_PAYLOAD_MISMATCH: signed payload spends different inputs");
+  }
+
+  const expectedOutputs = [...tx.outputs, ...(tx.changeOutput ? [tx.changeOutput] : [])].map((o) => {
+    const script = addressScriptHex(o.address);
+    if (!script) throw new Error(`PSKT_PAYLOAD_MISMATCH: cannot decode output address ${o.address}`);
+    return outputKey(o.amount, script);
+  });
+  if (tx.opReturnHex) expectedOutputs.push(outputKey(0n, `6a${tx.opReturnHex}`.toLowerCase()));
+  const signedOutputs = signed.outputs.map((o) => outputKey(o.amount, o.script));
+  if (signedOutputs.length !== expectedOutputs.length || signedOutputs.sort().join() !== expectedOutputs.sort().join()) {
+    throw new Error("PSKT_PAYLOAD_MISMATCH: signed payload pays different outputs or change");
+  }
+
+  const spent = tx.inputs.reduce((sum, i) => sum + i.amount, 0n);
+  const fee = spent - signed.outputs.reduce((sum, o) => sum + o.amount, 0n);
+  if (fee !== tx.fee) {
+    throw new Error(`PSKT_PAYLOAD_MISMATCH: signed payload pays a ${fee} sompi fee, expected ${tx.fee}`);
+  }
+}
+
+/**
+ * Attach an offline signature to the locally stored tx and broadcast it.
+ * Throws PSKT_NOT_SIGNED, PSKT_UNKNOWN_TX, PSKT_STALE, PSKT_DIGEST_MISMATCH,
+ * PSKT_PAYLOAD_MISMATCH; broadcast/reconcile failures surface as
+ * DeterministicExecutionError from the kernel.
+ */
+export async function importSignedPskt(text: string, options: ImportSignedPsktOptions = {}): Promise<PendingTx> {
+  const { envelope, tx: incoming } = parsePskt(text);
+  if (envelope.stage !== "signed" || !incoming.signedTxPayload) throw new Error("PSKT_NOT_SIGNED");
+
+  const local = await getPendingTxById(incoming.id);
+  if (!local) throw new Error(`PSKT_UNKNOWN_TX: ${incoming.id} was not exported from this wallet`);
+  if (local.state !== "DRY_RUN_OK") {
+    throw new Error(`PSKT_STALE: ${incoming.id} is already ${local.state}`);
+  }
+  await assertDigest(local, envelope.digest);
+  await assertDigest(incoming, envelope.digest);
+  assertPayloadSpends(local, incoming.signedTxPayload);
+
+  const signed: PendingTx = {
+    ...local,
+    state: "SIGNED",
+    signedTxPayload: incoming.signedTxPayload,
+    signedAt: incoming.signedAt ?? Date.now(),
+  };
+  await updatePendingTx(signed);
+
+  const { kernel = { broadcastAndReconcileKaspaTx }, ...reconcileOptions } = options;
+  return kernel.broadcastAndReconcileKaspaTx(signed, reconcileOptions);
+}
+
+// ── QR frame sequence ─────────────────────────────────────────────────────────
+
+/** Split an envelope into ordered QR frames. */
+export function encodePsktQrFrames(text: string, chunkChars = PSKT_QR_CHUNK_CHARS): string[] {
+  const size = Math.max(1, Math.floor(chunkChars));
+  const total = Math.max(1, Math.ceil(text.length / size));
+  return Array.from({ length: total }, (_, i) =>
+    `${PSKT_QR_PREFIX}:${i + 1}/${total}:${text.slice(i * size, (i + 1) * size)}`);
+}
+
+/**
+ * Reassemble scanned frames (any order, duplicates allowed).
+ * Throws PSKT_QR_INVALID_FRAME / PSKT_QR_INCOMPLETE.
+ */
+export function decodePsktQrFrames(frames: string[]): string {
+  const chunks = new Map<number, string>();
+  let total = 0;
+  for (const frame of frames) {
+    const match = /^FPSKT:(\d+)\/(\d+):(.*)$/.exec(frame.replace(/^\s+|[\r\n]+$/g, ""));
+    if (!match) throw new Error("PSKT_QR_INVALID_FRAME");
+    const index = Number(match[1]);
+    const count = Number(match[2]);
+    if (index < 1 || index > count || (total && count !== total)) throw new Error("PSKT_QR_INVALID_FRAME");
+    total = count;
+    chunks.set(index, match[3]);
+  }
+  if (!total || chunks.size !== total) {
+    throw new Error(`PSKT_QR_INCOMPLETE: ${chunks.size}/${total || "?"} frames`);
+  }
+  return Array.from({ length: total }, (_, i) => chunks.get(i + 1)!).join("");
+}
+
+/** Accept either a pasted envelope or pasted QR frames (one per line). */
+export function readPsktText(input: string): string {
+  const lines = String(input || "").split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length && lines[0].trim().startsWith(`${PSKT_QR_PREFIX}:`)) return decodePsktQrFrames(lines);
+  return String(input || "").trim();
+}
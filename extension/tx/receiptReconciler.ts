@@ -22,6 +22,12 @@ export interface WaitForKaspaConfirmationOptions {
   pollIntervalMs?: number;
   timeoutMs?: number;
   onProbe?: (probe: KaspaReceiptProbe) => void | Promise<void>;
+  /**
+   * Other members of the tx's replacement group (re-read every poll, since a
+   * replacement may be broadcast while this one is waiting). When one of them
+   * is accepted instead, the wait resolves with this tx REPLACED.
+   */
+  linked?: () => Promise<PendingTx[]>;
 }
 
 export async function probeKaspaReceipt(
@@ -97,6 +103,16 @@ export async function waitForKaspaConfirmation(
         signedTxPayload: undefined,
       };
     }
+
+    const winner = options.linked ? await probeLinkedReceipts(tx, await options.linked()) : null;
+    if (winner) {
+      return {
+        ...current,
+        state: "REPLACED",
+        replacedBy: winner.txId,
+        signedTxPayload: undefined,
+      };
+    }
   }
 
   return {
@@ -106,6 +122,16 @@ export async function waitForKaspaConfirmation(
   };
 }
 
+/** First broadcast member of the group (other than `tx`) whose receipt is confirmed. */
+async function probeLinkedReceipts(tx: PendingTx, linked: PendingTx[]): Promise<KaspaReceiptProbe | null> {
+  for (const other of linked) {
+    if (other.id === tx.id || !other.txId || other.txId === tx.txId) continue;
+    const probe = await probeKaspaReceipt(other.txId, other.network);
+    if (probe.confirmed) return probe;
+  }
+  return null;
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
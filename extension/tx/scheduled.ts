@@ -0,0 +1,279 @@
+// Scheduled sends — KAS transfers held until a time or a DAA score.
+//
+//   1. scheduleSend stores the intent only (shared/storage.ts); nothing is
+//      built or signed up front, so no UTXOs are reserved while it waits.
+//   2. The service worker wakes on its alarm or the DAA-score stream and calls
+//      markDueScheduledSends; due sends are offered to an open, unlocked popup
+//      (auto-sign opt-in) or raised as an approval notification.
+//   3. runScheduledSend (popup only — it needs the vault session) rebuilds the
+//      transfer against freshly synced UTXOs through the kernel, then re-arms
+//      recurring schedules or marks one-off ones sent.
+
+import type { PendingTx } from "./types";
+import { executeKaspaIntent, type ExecuteKaspaIntentOptions } from "./kernel";
+import { createExecutionRunId } from "./executionTelemetry";
+import type { FeeTier } from "../network/feeTiers";
+import { fetchDagInfo } from "../network/kaspaClient";
+import { invalidateUtxoCache } from "../utxo/utxoSync";
+import {
+  addScheduledSend,
+  getScheduledSends,
+  updateScheduledSend,
+  type ScheduledSend,
+  type ScheduledSendTrigger,
+} from "../shared/storage";
+import { isKaspaAddress, kaspaPrefixForNetwork, shortAddr } from "../../src/helpers";
+
+/** Shortest repeat interval: 10 minutes, or ~10 minutes of DAA score at 10 BPS. */
+export const SCHEDULE_MIN_INTERVAL_MS = 10 * 60_000;
+export const SCHEDULE_MIN_INTERVAL_DAA = 6_000n;
+
+export interface ScheduleChainState {
+  /** Current virtual DAA score of the schedule's network; null when unknown. */
+  daaScore: bigint | null;
+  nowMs: number;
+}
+
+export async function fetchScheduleChainState(network: string): Promise<ScheduleChainState> {
+  const dag = await fetchDagInfo(network);
+  const raw = String(dag?.virtualDaaScore ?? "");
+  return { daaScore: /^\d+$/.test(raw) ? BigInt(raw) : null, nowMs: Date.now() };
+}
+
+const REPEAT_LABELS: Array<[number, string]> = [
+  [30 * 86_400_000, "30 days"],
+  [7 * 86_400_000, "week"],
+  [86_400_000, "day"],
+  [3_600_000, "hour"],
+];
+
+/** Human-readable trigger, e.g. "2026-11-01 09:00 · every week". */
+export function describeScheduleTrigger(trigger: ScheduledSendTrigger): string {
+  if (trigger.kind === "daa") {
+    return `DAA score ${trigger.daaScore}${trigger.everyDaa ? ` · every ${trigger.everyDaa} DAA` : ""}`;
+  }
+  const at = new Date(trigger.atMs).toISOString().slice(0, 16).replace("T", " ");
+  if (!trigger.everyMs) return at;
+  const named = REPEAT_LABELS.find(([ms]) => ms === trigger.everyMs);
+  return `${at} · every ${named ? named[1] : `${Math.round(trigger.everyMs / 60_000)} min`}`;
+}
+
+/** Waiting for its trigger or for approval — i.e. not running and not finished. */
+export function isScheduleActive(schedule: ScheduledSend): boolean {
+  return schedule.status === "scheduled" || schedule.status === "awaiting_approval";
+}
+
+export function isScheduledSendDue(schedule: ScheduledSend, chain: ScheduleChainState): boolean {
+  if (!isScheduleActive(schedule)) return false;
+  if (schedule.trigger.kind === "time") return chain.nowMs >= schedule.trigger.atMs;
+  return chain.daaScore !== null && chain.daaScore >= BigInt(schedule.trigger.daaScore);
+}
+
+/** Earliest time trigger among active schedules (alarm target); null when none. */
+export function nextScheduledWakeAt(schedules: ScheduledSend[]): number | null {
+  let next: number | null = null;
+  for (const s of schedules) {
+    if (s.status !== "scheduled" || s.trigger.kind !== "time") continue;
+    if (next === null || s.trigger.atMs < next) next = s.trigger.atMs;
+  }
+  return next;
+}
+
+/** Lowest DAA trigger per network among active schedules (score-stream targets). */
+export function pendingDaaTargets(schedules: ScheduledSend[]): Map<string, bigint> {
+  const targets = new Map<string, bigint>();
+  for (const s of schedules) {
+    if (s.status !== "scheduled" || s.trigger.kind !== "daa") continue;
+    const score = BigInt(s.trigger.daaScore);
+    const current = targets.get(s.network);
+    if (current === undefined || score < current) targets.set(s.network, score);
+  }
+  return targets;
+}
+
+/**
+ * The trigger after a run: advanced by its interval past the current chain
+ * state, so a wallet that was closed for a while sends once, not once per
+ * missed interval. Null for one-off schedules.
+ */
+export function nextScheduleTrigger(trigger: ScheduledSendTrigger, chain: ScheduleChainState): ScheduledSendTrigger | null {
+  if (trigger.kind === "time") {
+    if (!trigger.everyMs) return null;
+    let atMs = trigger.atMs + trigger.everyMs;
+    if (atMs <= chain.nowMs) atMs += Math.ceil((chain.nowMs - atMs + 1) / trigger.everyMs) * trigger.everyMs;
+    return { ...trigger, atMs };
+  }
+  if (!trigger.everyDaa) return null;
+  const every = BigInt(trigger.everyDaa);
+  let score = BigInt(trigger.daaScore) + every;
+  if (chain.daaScore !== null && score <= chain.daaScore) score += ((chain.daaScore - score) / every + 1n) * every;
+  return { ...trigger, daaScore: score.toString() };
+}
+
+export interface ScheduleSendInput {
+  fromAddress: string;
+  network: string;
+  to: string;
+  amountKas: number;
+  trigger: ScheduledSendTrigger;
+  autoSign?: boolean;
+  label?: string;
+  feeTier?: FeeTier;
+  agentId?: string;
+}
+
+/** Validation errors for a new schedule ("CODE: message"); empty when valid. */
+export function scheduleInputErrors(input: ScheduleSendInput, chain: ScheduleChainState): string[] {
+  const errors: string[] = [];
+  if (!isKaspaAddress(input.to.trim(), [kaspaPrefixForNetwork(input.network)])) {
+    errors.push(`SCHEDULE_INVALID_ADDRESS: recipient is not a ${input.network} address`);
+  }
+  if (!Number.isFinite(input.amountKas) || input.amountKas <= 0) {
+    errors.push("SCHEDULE_INVALID_AMOUNT: amount must be greater than 0 KAS");
+  }
+  const { trigger } = input;
+  if (trigger.kind === "time") {
+    if (!Number.isFinite(trigger.atMs) || trigger.atMs <= chain.nowMs) {
+      errors.push("SCHEDULE_TRIGGER_PAST: send time must be in the future");
+    }
+    if (trigger.everyMs !== undefined && !(trigger.everyMs >= SCHEDULE_MIN_INTERVAL_MS)) {
+      errors.push("SCHEDULE_INTERVAL_INVALID: repeat interval must be at least 10 minutes");
+    }
+  } else {
+    if (!/^\d+$/.test(trigger.daaScore)) {
+      errors.push("SCHEDULE_TRIGGER_INVALID: DAA score must be a whole number");
+    } else if (chain.daaScore !== null && BigInt(trigger.daaScore) <= chain.daaScore) {
+      errors.push(`SCHEDULE_TRIGGER_PAST: DAA score ${trigger.daaScore} has passed (current ${chain.daaScore})`);
+    }
+    if (trigger.everyDaa !== undefined && !(/^\d+$/.test(trigger.everyDaa) && BigInt(trigger.everyDaa) >= SCHEDULE_MIN_INTERVAL_DAA)) {
+      errors.push(`SCHEDULE_INTERVAL_INVALID: repeat interval must be at least ${SCHEDULE_MIN_INTERVAL_DAA} DAA`);
+    }
+  }
+  return errors;
+}
+
+/** Store a scheduled send. Throws the first validation error. */
+export async function scheduleSend(input: ScheduleSendInput, chain: ScheduleChainState): Promise<ScheduledSend> {
+  const errors = scheduleInputErrors(input, chain);
+  if (errors.length > 0) throw new Error(errors[0]);
+  return addScheduledSend({
+    label: input.label ?? "",
+    fromAddress: input.fromAddress,
+    network: input.network,
+    to: input.to.trim(),
+    amountKas: input.amountKas,
+    trigger: input.trigger,
+    autoSign: input.autoSign === true,
+    ...(input.feeTier ? { feeTier: input.feeTier } : {}),
+    ...(input.agentId ? { agentId: input.agentId } : {}),
+  });
+}
+
+/**
+ * Move due schedules on `network` to awaiting_approval (service worker).
+ * Returns the ones not yet announced, stamped as notified.
+ */
+export async function markDueScheduledSends(network: string, chain: ScheduleChainState): Promise<ScheduledSend[]> {
+  const schedules = await getScheduledSends();
+  const announced: ScheduledSend[] = [];
+  for (const s of schedules) {
+    if (s.network !== network || !isScheduledSendDue(s, chain) || s.notifiedAt) continue;
+    const updated = await updateScheduledSend(s.id, (current) =>
+      isScheduleActive(current) ? { ...current, status: "awaiting_approval", notifiedAt: chain.nowMs } : current);
+    if (updated?.status === "awaiting_approval") announced.push(updated);
+  }
+  return announced;
+}
+
+/**
+ * Approval notification for a due schedule (service worker). The icon is the
+ * manifest's 128px icon, since the build decides where icons land.
+ */
+export function scheduledSendNotification(
+  s: ScheduledSend,
+  manifest: { icons?: Record<string, string> },
+  resolveUrl: (path: string) => string = (path) => path,
+) {
+  const iconPath = String(manifest.icons?.["128"] ?? "extension/icons/icon128.png").replace(/^\/+/, "");
+  return {
+    type: "basic" as const,
+    iconUrl: resolveUrl(iconPath),
+    title: "Scheduled send due",
+    message: `${s.label}: ${s.amountKas} KAS → ${shortAddr(s.to)}`,
+    contextMessage: "Open Forge-OS to approve",
+    priority: 2,
+  };
+}
+
+/**
+ * Build, sign and broadcast one scheduled send from fresh UTXOs, then re-arm
+ * or finish it. Popup context only. Throws SCHEDULE_NOT_FOUND,
+ * SCHEDULE_NOT_READY (already running or sent) or the kernel's error, which
+ * is also recorded on the schedule.
+ */
+export async function runScheduledSend(
+  id: string,
+  chain: ScheduleChainState,
+  options: Omit<ExecuteKaspaIntentOptions, "telemetry"> = {},
+  execute: typeof executeKaspaIntent = executeKaspaIntent,
+): Promise<PendingTx> {
+  const claimed = await updateScheduledSend(id, (s) =>
+    isScheduleActive(s) || s.status === "failed" ? { ...s, status: "sending" } : s);
+  if (!claimed) throw new Error("SCHEDULE_NOT_FOUND: scheduled send no longer exists");
+  if (claimed.status !== "sending") throw new Error(`SCHEDULE_NOT_READY: scheduled send is ${claimed.status}`);
+
+  // Rebuild against the chain as it is now, not the UTXO cache.
+  invalidateUtxoCache(claimed.fromAddress);
+  try {
+    const tx = await execute({
+      fromAddress: claimed.fromAddress,
+      network: claimed.network,
+      recipients: [{ address: claimed.to, amountKas: claimed.amountKas }],
+      feeTier: claimed.feeTier,
+    }, {
+      ...options,
+      telemetry: {
+        channel: claimed.agentId ? "agent" : "manual",
+        runId: createExecutionRunId(`scheduled_${claimed.id}`),
+        context: { scheduleId: claimed.id, agentId: claimed.agentId ?? null, run: claimed.runs + 1 },
+      },
+    });
+    const next = nextScheduleTrigger(claimed.trigger, chain);
+    await updateScheduledSend(id, (s) => ({
+      ...s,
+      status: next ? "scheduled" : "sent",
+      trigger: next ?? s.trigger,
+      runs: s.runs + 1,
+      lastRunAt: chain.nowMs,
+      lastTxId: tx.txId ?? s.lastTxId,
+      notifiedAt: undefined,
+      error: undefined,
+    }));
+    return tx;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await updateScheduledSend(id, (s) => ({ ...s, status: "failed", lastRunAt: chain.nowMs, error: message }));
+    throw err;
+  }
+}
+
+/**
+ * Run every due auto-sign schedule of the unlocked account (popup open,
+ * service-worker wake-up). Failures are recorded per schedule; returns the
+ * ids that were sent.
+ */
+export async function runDueAutoSignSends(
+  fromAddress: string,
+  network: string,
+  chain: ScheduleChainState,
+  execute: typeof executeKaspaIntent = executeKaspaIntent,
+): Promise<string[]> {
+  const due = (await getScheduledSends()).filter((s) =>
+    s.autoSign && s.fromAddress === fromAddress && s.network === network && isScheduledSendDue(s, chain));
+  const ran: string[] = [];
+  for (const s of due) {
+    const sent = await runScheduledSend(s.id, chain, {}, execute).then(() => true, () => false);
+    if (sent) ran.push(s.id);
+  }
+  return ran;
+}
@@ -0,0 +1,241 @@
+// Kaspa Schnorr signature hashes and BIP340 verification.
+//
+//   sighash:   blake2b-256 keyed "TransactionSigningHash" over the tx version,
+//              the previous-outputs / sequences / sig-op-counts hashes, the
+//              input's outpoint, UTXO script and amount, sequence, sig-op
+//              count, the outputs hash, lock time, subnetwork, gas, payload
+//              hash and the sighash type (consensus sighash.rs).
+//   signature: BIP340 Schnorr over the 32-byte sighash with the x-only key.
+//
+// Only SIG_HASH_ALL is supported — the only type the wallet signs with.
+// Pure apart from hash-wasm; the signer feeds it the kaspa-wasm transaction.
+
+export const SIG_HASH_ALL = 0x01;
+
+export interface SighashInput {
+  txId: string;
+  index: number;
+  sequence: bigint;
+  sigOpCount: number;
+  /** UTXO being spent. */
+  amount: bigint;
+  scriptVersion: number;
+  scriptPublicKey: string;
+}
+
+export interface SighashOutput {
+  value: bigint;
+  scriptVersion: number;
+  scriptPublicKey: string;
+}
+
+export interface SighashTx {
+  version: number;
+  inputs: SighashInput[];
+  outputs: SighashOutput[];
+  lockTime: bigint;
+  /** 20-byte subnetwork id, hex. */
+  subnetworkId: string;
+  gas: bigint;
+  payload: string;
+}
+
+const SIGNING_HASH_KEY = new TextEncoder().encode("TransactionSigningHash");
+const ZERO_HASH = new Uint8Array(32);
+
+function hexBytes(hex: string): Uint8Array {
+  const clean = String(hex || "").toLowerCase();
+  if (clean.length % 2 !== 0 || /[^0-9a-f]/.test(clean)) throw new Error(`SIGHASH_INVALID_HEX: "${clean.slice(0, 16)}"`);
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i += 1) bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+}
+
+function bytesHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Little-endian byte writer matching the consensus hasher's write_* helpers. */
+class Writer {
+  private chunks: number[] = [];
+
+  bytes(data: Uint8Array): this {
+    for (const b of data) this.chunks.push(b);
+    return this;
+  }
+
+  uint(value: bigint | number, size: number): this {
+    let v = BigInt(value);
+    for (let i = 0; i < size; i += 1) {
+      this.chunks.push(Number(v & 0xffn));
+      v >>= 8n;
+    }
+    return this;
+  }
+
+  varBytes(data: Uint8Array): this {
+    return this.uint(data.length, 8).bytes(data);
+  }
+
+  script(version: number, scriptHex: string): this {
+    return this.uint(version, 2).varBytes(hexBytes(scriptHex));
+  }
+
+  outpoint(txId: string, index: number): this {
+    return this.bytes(hexBytes(txId)).uint(index, 4);
+  }
+
+  result(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+async function signingHash(data: Uint8Array): Promise<Uint8Array> {
+  const { blake2b } = await import("hash-wasm");
+  return hexBytes(await blake2b(data, 256, SIGNING_HASH_KEY));
+}
+
+/**
+ * SIG_HASH_ALL Schnorr sighash of input `inputIndex`.
+ * Throws SIGHASH_INPUT_MISSING, SIGHASH_INVALID_HEX.
+ */
+export async function schnorrSighash(tx: SighashTx, inputIndex: number): Promise<Uint8Array> {
+  const input = tx.inputs[inputIndex];
+  if (!input) throw new Error(`SIGHASH_INPUT_MISSING: input ${inputIndex} of ${tx.inputs.length}`);
+
+  const previousOutputs = new Writer();
+  const sequences = new Writer();
+  const sigOpCounts = new Writer();
+  for (const i of tx.inputs) {
+    previousOutputs.outpoint(i.txId, i.index);
+    sequences.uint(i.sequence, 8);
+    sigOpCounts.uint(i.sigOpCount, 1);
+  }
+  const outputs = new Writer();
+  for (const o of tx.outputs) outputs.uint(o.value, 8).script(o.scriptVersion, o.scriptPublicKey);
+
+  const subnetwork = hexBytes(tx.subnetworkId);
+  const payload = hexBytes(tx.payload);
+  const payloadHash = subnetwork.every((b) => b === 0) && payload.length === 0
+    ? ZERO_HASH
+    : await signingHash(new Writer().varBytes(payload).result());
+
+  return signingHash(new Writer()
+    .uint(tx.version, 2)
+    .bytes(await signingHash(previousOutputs.result()))
+    .bytes(await signingHash(sequences.result()))
+    .bytes(await signingHash(sigOpCounts.result()))
+    .outpoint(input.txId, input.index)
+    .script(input.scriptVersion, input.scriptPublicKey)
+    .uint(input.amount, 8)
+    .uint(input.sequence, 8)
+    .uint(input.sigOpCount, 1)
+    .bytes(await signingHash(outputs.result()))
+    .uint(tx.lockTime, 8)
+    .bytes(subnetwork)
+    .uint(tx.gas, 8)
+    .bytes(payloadHash)
+    .uint(SIG_HASH_ALL, 1)
+    .result());
+}
+
+// ── BIP340 ────────────────────────────────────────────────────────────────────
+
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G: Point = [
+  0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+];
+
+type Point = [bigint, bigint] | null;
+
+const mod = (a: bigint, m = P) => ((a % m) + m) % m;
+
+function modPow(base: bigint, exp: bigint, m = P): bigint {
+  let result = 1n;
+  let b = mod(base, m);
+  let e = exp;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+}
+
+const inverse = (a: bigint) => modPow(a, P - 2n);
+
+function pointAdd(a: Point, b: Point): Point {
+  if (!a) return b;
+  if (!b) return a;
+  const [x1, y1] = a;
+  const [x2, y2] = b;
+  if (x1 === x2 && mod(y1 + y2) === 0n) return null;
+  const lambda = x1 === x2
+    ? mod(3n * x1 * x1 * inverse(2n * y1))
+    : mod((y2 - y1) * inverse(x2 - x1));
+  const x3 = mod(lambda * lambda - x1 - x2);
+  return [x3, mod(lambda * (x1 - x3) - y1)];
+}
+
+function pointMul(point: Point, scalar: bigint): Point {
+  let result: Point = null;
+  let addend = point;
+  let k = scalar;
+  while (k > 0n) {
+    if (k & 1n) result = pointAdd(result, addend);
+    addend = pointAdd(addend, addend);
+    k >>= 1n;
+  }
+  return result;
+}
+
+function liftX(x: bigint): Point {
+  if (x >= P) return null;
+  const c = mod(x ** 3n + 7n);
+  const y = modPow(c, (P + 1n) / 4n);
+  if ((y * y) % P !== c) return null;
+  return [x, y & 1n ? P - y : y];
+}
+
+const toBigInt = (bytes: Uint8Array) => (bytes.length ? BigInt(`0x${bytesHex(bytes)}`) : 0n);
+
+async function taggedHash(tag: string, data: Uint8Array): Promise<bigint> {
+  const { sha256 } = await import("hash-wasm");
+  const tagHash = hexBytes(await sha256(new TextEncoder().encode(tag)));
+  return BigInt(`0x${await sha256(new Writer().bytes(tagHash).bytes(tagHash).bytes(data).result())}`);
+}
+
+/** BIP340 verification of a 64-byte signature (hex) over a 32-byte message with an x-only pubkey (hex). */
+export async function verifySchnorr(
+  pubkeyHex: string,
+  message: Uint8Array,
+  signatureHex: string,
+): Promise<boolean> {
+  if (!/^[0-9a-f]{64}$/i.test(pubkeyHex) || !/^[0-9a-f]{128}$/i.test(signatureHex) || message.length !== 32) return false;
+  const pubkey = hexBytes(pubkeyHex);
+  const signature = hexBytes(signatureHex);
+  const point = liftX(toBigInt(pubkey));
+  const r = toBigInt(signature.subarray(0, 32));
+  const s = toBigInt(signature.subarray(32));
+  if (!point || r >= P || s >= N) return false;
+  const e = mod(await taggedHash("BIP0340/challenge", new Writer().bytes(signature.subarray(0, 32)).bytes(pubkey).bytes(message).result()), N);
+  const R = pointAdd(pointMul(G, s), pointMul(point, N - e));
+  return R !== null && (R[1] & 1n) === 0n && R[0] === r;
+}
+
+/**
+ * Check one co-signer push (OP_DATA_65 <signature><sighash type>) for input
+ * `inputIndex` against the x-only pubkey.
+ */
+export async function verifyInputSignaturePush(
+  tx: SighashTx,
+  inputIndex: number,
+  pubkeyHex: string,
+  push: string,
+): Promise<boolean> {
+  const match = /^41([0-9a-f]{128})([0-9a-f]{2})$/i.exec(String(push || ""));
+  if (!match || parseInt(match[2], 16) !== SIG_HASH_ALL) return false;
+  return verifySchnorr(pubkeyHex, await schnorrSighash(tx, inputIndex), match[1]);
+}
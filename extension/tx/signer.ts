@@ -1,170 +1,517 @@
 // In-extension transaction signer — managed wallet path only.
-// Derives private key from the in-memory session mnemonic and signs via kaspa-wasm.
+// Derives private keys from the in-memory session mnemonic and signs via kaspa-wasm.
 // Private key bytes are held only for the duration of this function call;
 // references are cleared before returning.
 
 import type { PendingTx } from "./types";
+import type { Utxo } from "../utxo/types";
+import type { UnlockedSession } from "../vault/types";
 import { getSession, getCachedPrivKey, setCachedPrivKey } from "../vault/vault";
 import { buildKaspaWasmTx } from "./builder";
+import { findHdAddress, loadHdAddressBook } from "../utxo/hdAddresses";
+import { DEFAULT_ACCOUNT_ID, isWatchOnlyAddress } from "../shared/storage";
 import { loadKaspaWasm } from "../../src/wallet/kaspaWasmLoader";
-import { DEFAULT_KASPA_DERIVATION, normalizeKaspaDerivation } from "../../src/wallet/derivation";
+import {
+  DEFAULT_KASPA_DERIVATION,
+  MULTISIG_KASPA_DERIVATION,
+  normalizeKaspaDerivation,
+  type KaspaDerivationMeta,
+} from "../../src/wallet/derivation";
+import { collectedMultisigSignatures } from "./multisigScript";
+import { verifyInputSignaturePush, type SighashTx } from "./sighash";
+import { covenantSignatureScript, parseCovenantScript } from "./covenantScript";
+import { withKaspaAddressNetwork } from "../../src/helpers";
 
 // Lazy-load kaspa-wasm
 const loadKaspa = loadKaspaWasm;
 
+type KaspaKeyClasses = {
+  Mnemonic: new (phrase: string) => { toSeed: (password?: string) => string };
+  XPrv: new (seed: string) => {
+    derivePath: (path: string) => unknown;
+    intoString: (prefix: string) => string;
+  };
+  XPrivateKey: new (xprvStr: string, isMultisig: boolean, accountIndex: bigint) => {
+    receiveKey: (index: number) => {
+      toKeypair: () => {
+        privateKey?: unknown;
+        toPrivateKey?: () => unknown;
+      };
+      toString?: (encoding?: string) => string;
+    };
+    changeKey: (index: number) => {
+      toKeypair: () => {
+        privateKey?: unknown;
+        toPrivateKey?: () => unknown;
+      };
+      toString?: (encoding?: string) => string;
+    };
+  };
+};
+
+/**
+ * Full BIP44 derivation of one private key. Returns the kaspa-wasm PrivateKey
+ * reference plus its hex form (when extractable) for the session key cache.
+ */
+function derivePrivateKey(
+  kaspa: Record<string, unknown>,
+  session: UnlockedSession,
+  derivationInput: Partial<KaspaDerivationMeta> | null | undefined,
+): { privKeyRef: unknown; rawKeyHex: string | null } {
+  const { Mnemonic, XPrv, XPrivateKey } = kaspa as unknown as KaspaKeyClasses;
+  const PrivateKey = kaspa.PrivateKey as (new (keyHex: string) => unknown) | undefined;
+
+  const derivation = normalizeKaspaDerivation(derivationInput ?? DEFAULT_KASPA_DERIVATION);
+  const mnemonic = new Mnemonic(session.mnemonic);
+  const seed = mnemonic.toSeed(session.mnemonicPassphrase || undefined);
+  const masterXPrv = new XPrv(seed);
+  let accountRootXPrv = masterXPrv;
+  try {
+    accountRootXPrv = masterXPrv.derivePath(derivation.path) as typeof masterXPrv;
+  } catch (err) {
+    if (derivation.path.startsWith("m/")) {
+      accountRootXPrv = masterXPrv.derivePath(derivation.path.slice(2)) as typeof masterXPrv;
+    } else {
+      throw err;
+    }
+  }
+  const xprvStr = accountRootXPrv.intoString("kprv");
+  const xprvKey = new XPrivateKey(xprvStr, false, BigInt(derivation.account));
+  const pathKey = derivation.chain === 1
+    ? xprvKey.changeKey(derivation.index)
+    : xprvKey.receiveKey(derivation.index);
+  const keypair = pathKey.toKeypair();
+
+  // Get PrivateKey instance for Generator.sign()
+  // kaspa-wasm ≥ 0.13.0 exposes it via keypair.privateKey or keypair.toPrivateKey()
+  let privKeyRef: unknown = keypair.privateKey ?? (
+    typeof (keypair as Record<string, unknown>).toPrivateKey === "function"
+      ? ((keypair as Record<string, unknown>).toPrivateKey as () => unknown)()
+      : null
+  );
+  let rawKeyHex: string | null = null;
+
+  if (!privKeyRef) {
+    // Last resort: construct PrivateKey from the serialised key string if available
+    const rawKeyStr = typeof (pathKey as Record<string, unknown>).toString === "function"
+      ? (pathKey as Record<string, unknown>).toString("hex")
+      : null;
+    if (PrivateKey && rawKeyStr) {
+      privKeyRef = new PrivateKey(rawKeyStr as string);
+      rawKeyHex = rawKeyStr as string;
+    }
+  } else if (PrivateKey) {
+    // Keep the raw key hex extracted via toString for the fast path
+    const rawKeyStr = typeof (privKeyRef as Record<string, unknown>).toString === "function"
+      ? ((privKeyRef as Record<string, unknown>).toString as (enc?: string) => string)("hex")
+      : null;
+    if (rawKeyStr) rawKeyHex = rawKeyStr;
+  }
+
+  if (!privKeyRef) {
+    throw new Error(
+      "PRIVKEY_UNAVAILABLE: Could not extract PrivateKey from keypair. " +
+      "Verify kaspa-wasm version compatibility.",
+    );
+  }
+  return { privKeyRef, rawKeyHex };
+}
+
+function isSessionAddress(session: UnlockedSession, address: string, network: string): boolean {
+  const target = address.toLowerCase();
+  if (session.address.toLowerCase() === target) return true;
+  try {
+    return withKaspaAddressNetwork(session.address, network).toLowerCase() === target;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Sign a built transaction using the managed wallet's in-memory private key.
  *
  * Steps:
  *  1. Assert session is active (wallet unlocked).
- *  2. Derive private key from mnemonic using vault-persisted derivation metadata.
+ *  2. Derive one private key per distinct input address — the primary address
+ *     uses the vault-persisted derivation, other HD addresses are looked up in
+ *     the account's address book.
  *  3. Build kaspa-wasm generator pending transaction.
- *  4. Sign all inputs.
+ *  4. Sign all inputs. Inscription (KRC-20 reveal) inputs get a P2SH
+ *     signature script carrying their redeem script; covenant inputs get
+ *     the unlock script of their template.
  *  5. Serialise the signed transaction for REST broadcast.
- *  6. Clear private key reference.
+ *  6. Clear private key references.
  *
  * @param tx  PendingTx that has passed dry-run validation.
  * @returns   The tx with signedTxPayload populated and state set to SIGNED.
  * @throws    "WALLET_LOCKED" if session is not active.
+ * @throws    "WATCH_ONLY_ACCOUNT" if tx.fromAddress is a watch-only account.
  * @throws    "SIGN_FAILED" wrapping the underlying error.
  */
 export async function signTransaction(tx: PendingTx): Promise<PendingTx> {
   const session = getSession();
   if (!session || !session.mnemonic) throw new Error("WALLET_LOCKED");
+  // Watch-only addresses have no key in the vault; refuse before deriving anything.
+  if (!isSessionAddress(session, tx.fromAddress, tx.network) && await isWatchOnlyAddress(tx.fromAddress)) {
+    throw new Error(`WATCH_ONLY_ACCOUNT: ${tx.fromAddress} is watch-only and cannot sign`);
+  }
 
-  const kaspa = await loadKaspa();
+  const kaspa = await loadKaspa() as Record<string, unknown>;
 
-  // ── Key derivation (vault-persisted path/account/chain/index) ─────────────
-  const { Mnemonic, XPrv, XPrivateKey } = kaspa as Record<string, unknown> as {
-    Mnemonic: new (phrase: string) => { toSeed: (password?: string) => string };
-    XPrv: new (seed: string) => {
-      derivePath: (path: string) => unknown;
-      intoString: (prefix: string) => string;
-    };
-    XPrivateKey: new (xprvStr: string, isMultisig: boolean, accountIndex: bigint) => {
-      receiveKey: (index: number) => {
-        toKeypair: () => {
-          privateKey?: unknown;
-          toPrivateKey?: () => unknown;
-        };
-        toString?: (encoding?: string) => string;
-      };
-      changeKey: (index: number) => {
-        toKeypair: () => {
-          privateKey?: unknown;
-          toPrivateKey?: () => unknown;
-        };
-        toString?: (encoding?: string) => string;
-      };
-    };
-  };
-
-  let privKeyRef: unknown = null;
-  const PrivateKey = (kaspa as Record<string, unknown>).PrivateKey as
+  let keyByAddress = new Map<string, unknown>();
+  const PrivateKey = kaspa.PrivateKey as
     | (new (keyHex: string) => unknown)
     | undefined;
 
   try {
-    // B3: Fast path — reuse cached private key if address matches current session
-    const cachedHex = getCachedPrivKey(session.address);
-    if (cachedHex && PrivateKey) {
-      privKeyRef = new PrivateKey(cachedHex);
-    } else {
-      // Full BIP44 derivation
-      const derivation = normalizeKaspaDerivation(session.derivation ?? DEFAULT_KASPA_DERIVATION);
-      const mnemonic = new Mnemonic(session.mnemonic);
-      const seed = mnemonic.toSeed(session.mnemonicPassphrase || undefined);
-      const masterXPrv = new XPrv(seed);
-      let accountRootXPrv = masterXPrv;
-      try {
-        accountRootXPrv = masterXPrv.derivePath(derivation.path) as typeof masterXPrv;
-      } catch (err) {
-        if (derivation.path.startsWith("m/")) {
-          accountRootXPrv = masterXPrv.derivePath(derivation.path.slice(2)) as typeof masterXPrv;
-        } else {
-          throw err;
-        }
-      }
-      const xprvStr = accountRootXPrv.intoString("kprv");
-      const xprvKey = new XPrivateKey(xprvStr, false, BigInt(derivation.account));
-      const pathKey = derivation.chain === 1
-        ? xprvKey.changeKey(derivation.index)
-        : xprvKey.receiveKey(derivation.index);
-      const keypair = pathKey.toKeypair();
-
-      // Get PrivateKey instance for Generator.sign()
-      // kaspa-wasm ≥ 0.13.0 exposes it via keypair.privateKey or keypair.toPrivateKey()
-      privKeyRef = keypair.privateKey ?? (
-        typeof (keypair as Record<string, unknown>).toPrivateKey === "function"
-          ? ((keypair as Record<string, unknown>).toPrivateKey as () => unknown)()
-          : null
-      );
-
-      if (!privKeyRef) {
-        // Last resort: construct PrivateKey from the serialised key string if available
-        const rawKeyStr = typeof (pathKey as Record<string, unknown>).toString === "function"
-          ? (pathKey as Record<string, unknown>).toString("hex")
-          : null;
-        if (PrivateKey && rawKeyStr) {
-          privKeyRef = new PrivateKey(rawKeyStr as string);
-          // Cache for subsequent signs this session
-          setCachedPrivKey(session.address, rawKeyStr as string);
+    // Inscription (P2SH) and covenant inputs are locked to the sender's own
+    // key by their script, so they are signed with the key of tx.fromAddress.
+    const inputAddresses = [...new Set(
+      (tx.inputs.length
+        ? tx.inputs.map((inp) => (isScriptInput(inp) ? tx.fromAddress : inp.address))
+        : [session.address])
+        .map((address) => address.toLowerCase()),
+    )];
+    let book: Awaited<ReturnType<typeof loadHdAddressBook>> | undefined;
+
+    for (const address of inputAddresses) {
+      if (isSessionAddress(session, address, tx.network)) {
+        // B3: Fast path — reuse cached private key if address matches current session
+        const cachedHex = getCachedPrivKey(session.address);
+        if (cachedHex && PrivateKey) {
+          keyByAddress.set(address, new PrivateKey(cachedHex));
+          continue;
         }
-      } else if (PrivateKey) {
-        // Cache the raw key hex extracted via toString for future fast path
-        const rawKeyStr = typeof (privKeyRef as Record<string, unknown>).toString === "function"
-          ? ((privKeyRef as Record<string, unknown>).toString as (enc?: string) => string)("hex")
-          : null;
-        if (rawKeyStr) setCachedPrivKey(session.address, rawKeyStr);
+        const { privKeyRef, rawKeyHex } = derivePrivateKey(kaspa, session, session.derivation);
+        // Cache for subsequent signs this session
+        if (rawKeyHex) setCachedPrivKey(session.address, rawKeyHex);
+        keyByAddress.set(address, privKeyRef);
+        continue;
       }
 
-      if (!privKeyRef) {
-        throw new Error(
-          "PRIVKEY_UNAVAILABLE: Could not extract PrivateKey from keypair. " +
-          "Verify kaspa-wasm version compatibility.",
-        );
+      // Rotated receive/change address of the same HD account
+      if (book === undefined) {
+        book = await loadHdAddressBook(session.activeAccountId ?? DEFAULT_ACCOUNT_ID, tx.network);
       }
+      const entry = findHdAddress(book, address);
+      if (!entry) throw new Error(`UNKNOWN_INPUT_ADDRESS: ${address} is not tracked by this account`);
+      keyByAddress.set(address, derivePrivateKey(kaspa, session, entry.derivation).privKeyRef);
     }
 
     // ── Build generator transaction ─────────────────────────────────────────
-    const pending = await buildKaspaWasmTx(tx) as {
-      sign: (keys: unknown[]) => Promise<void>;
-      id?: string;
-      transaction?: unknown;
-      serializeToObject?: () => unknown;
-      toJSON?: () => string;
+    const pending = await buildKaspaWasmTx(tx) as WasmPendingTx & {
+      sign: (keys: unknown[], checkFullySigned?: boolean) => Promise<void>;
     };
 
     // ── Sign all inputs ─────────────────────────────────────────────────────
-    await pending.sign([privKeyRef]);
-
-    // ── Serialise for REST broadcast ─────────────────────────────────────────
-    let signedPayload: string;
-    if (typeof pending.serializeToObject === "function") {
-      // Preferred: kaspa-wasm serialisation to object
-      signedPayload = JSON.stringify({ transaction: pending.serializeToObject() });
-    } else if (typeof pending.toJSON === "function") {
-      signedPayload = pending.toJSON();
+    const scriptInputs = tx.inputs.filter(isScriptInput).length;
+    if (scriptInputs === 0) {
+      await pending.sign([...keyByAddress.values()]);
     } else {
-      // Fallback: stringify the pending object directly
-      signedPayload = JSON.stringify({ transaction: pending });
+      if (scriptInputs < tx.inputs.length) {
+        await pending.sign([...keyByAddress.values()], false);
+      }
+      const ownerKey = keyByAddress.get(tx.fromAddress.toLowerCase());
+      const inscriptionInputs = inputIndices(tx, "inscription");
+      if (inscriptionInputs.length > 0) signInscriptionInputs(kaspa, pending, inscriptionInputs, tx, ownerKey);
+      const covenantInputs = inputIndices(tx, "covenant");
+      if (covenantInputs.length > 0) signCovenantInputs(pending, covenantInputs, tx, ownerKey);
+    }
+
+    return withSignedPayload(tx, pending);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`SIGN_FAILED: ${msg}`);
+  } finally {
+    // Clear private key references — allow GC
+    keyByAddress = new Map();
+  }
+}
+
+function isScriptInput(input: Utxo): boolean {
+  return input.scriptClass === "inscription" || input.scriptClass === "covenant";
+}
+
+function inputIndices(tx: PendingTx, scriptClass: Utxo["scriptClass"]): number[] {
+  return tx.inputs
+    .map((inp, index) => (inp.scriptClass === scriptClass ? index : -1))
+    .filter((index) => index >= 0);
+}
+
+type WasmPendingTx = {
+  createInputSignature?: (index: number, key: unknown) => string;
+  fillInput?: (index: number, signatureScript: unknown) => void;
+  id?: string;
+  serializeToObject?: () => unknown;
+  toJSON?: () => string;
+};
+
+/** Serialise a signed kaspa-wasm pending tx for REST broadcast and mark the tx SIGNED. */
+function withSignedPayload(tx: PendingTx, pending: WasmPendingTx): PendingTx {
+  let signedPayload: string;
+  if (typeof pending.serializeToObject === "function") {
+    // Preferred: kaspa-wasm serialisation to object
+    signedPayload = JSON.stringify({ transaction: pending.serializeToObject() });
+  } else if (typeof pending.toJSON === "function") {
+    signedPayload = pending.toJSON();
+  } else {
+    // Fallback: stringify the pending object directly
+    signedPayload = JSON.stringify({ transaction: pending });
+  }
+
+  return {
+    ...tx,
+    state: "SIGNED",
+    signedTxPayload: signedPayload,
+    txId: pending.id,  // Pre-computed by kaspa-wasm before broadcast
+    signedAt: Date.now(),
+  };
+}
+
+/**
+ * Fill the P2SH signature script of each inscription input:
+ * <schnorr signature> <redeem script>.
+ */
+function signInscriptionInputs(
+  kaspa: Record<string, unknown>,
+  pending: {
+    createInputSignature?: (index: number, key: unknown) => string;
+    fillInput?: (index: number, signatureScript: unknown) => void;
+  },
+  indices: number[],
+  tx: PendingTx,
+  key: unknown,
+): void {
+  const redeemScriptHex = tx.krc20?.redeemScriptHex;
+  if (!redeemScriptHex) throw new Error("INSCRIPTION_SCRIPT_MISSING: reveal tx has no redeem script");
+  if (!key) throw new Error(`UNKNOWN_INPUT_ADDRESS: ${tx.fromAddress} is not tracked by this account`);
+  const ScriptBuilder = kaspa.ScriptBuilder as
+    | { fromScript: (hex: string) => { encodePayToScriptHashSignatureScript: (signature: string) => unknown } }
+    | undefined;
+  if (!ScriptBuilder || typeof pending.createInputSignature !== "function" || typeof pending.fillInput !== "function") {
+    throw new Error("WASM_P2SH_UNAVAILABLE: kaspa-wasm cannot sign P2SH inputs in this build");
+  }
+  for (const index of indices) {
+    const signature = pending.createInputSignature(index, key);
+    pending.fillInput(index, ScriptBuilder.fromScript(redeemScriptHex).encodePayToScriptHashSignatureScript(signature));
+  }
+}
+
+/**
+ * Fill the signature script of each covenant input from its template:
+ * <signature> [<preimage>] [<template script> for P2SH outputs].
+ */
+function signCovenantInputs(pending: WasmPendingTx, indices: number[], tx: PendingTx, key: unknown): void {
+  if (!key) throw new Error(`UNKNOWN_INPUT_ADDRESS: ${tx.fromAddress} is not tracked by this account`);
+  if (typeof pending.createInputSignature !== "function" || typeof pending.fillInput !== "function") {
+    throw new Error("WASM_P2SH_UNAVAILABLE: kaspa-wasm cannot sign script inputs in this build");
+  }
+  const pubkey = xOnlyPubkeyOf(key);
+  for (const index of indices) {
+    const input = tx.inputs[index];
+    const outpoint = `${input.txId}:${input.outputIndex}`;
+    const spend = tx.covenant?.inputs.find((entry) => entry.outpoint === outpoint);
+    const template = spend ? parseCovenantScript(spend.scriptHex) : null;
+    if (!spend || !template) throw new Error(`COVENANT_SPEND_MISSING: ${outpoint} has no unlock data`);
+    if (pubkey && pubkey !== template.pubkey) {
+      throw new Error(`COVENANT_KEY_MISMATCH: ${outpoint} is locked to a key this wallet does not hold`);
     }
+    pending.fillInput(index, covenantSignatureScript(spend, pending.createInputSignature(index, key)));
+  }
+}
+
+/** X-only pubkey (hex) of a kaspa-wasm PrivateKey, or null when the build cannot expose it. */
+function xOnlyPubkeyOf(key: unknown): string | null {
+  try {
+    const publicKey = (key as { toPublicKey?: () => { toXOnlyPublicKey?: () => { toString: () => string } } })
+      .toPublicKey?.();
+    return publicKey?.toXOnlyPublicKey?.()?.toString().toLowerCase() ?? null;
+  } catch {
+    return null;
+  }
+}
 
-    // Extract txId from the generator pending tx
-    const txId = (pending as Record<string, unknown>).id as string | undefined;
+// ── Multisig co-signing ───────────────────────────────────────────────────────
 
-    return {
-      ...tx,
-      state: "SIGNED",
-      signedTxPayload: signedPayload,
-      txId,          // Pre-computed by kaspa-wasm before broadcast
-      signedAt: Date.now(),
+type KaspaXPubClasses = {
+  XPrv: new (seed: string) => {
+    derivePath: (path: string) => {
+      derivePath: (path: string) => { toPrivateKey: () => unknown };
+      toXPub: () => { intoString: (prefix: string) => string };
     };
+  };
+  XPub: new (xpub: string) => {
+    derivePath: (path: string) => { toPublicKey: () => { toXOnlyPublicKey: () => { toString: () => string } } };
+  };
+};
+
+function multisigAccountPath(): string {
+  const { path, account } = MULTISIG_KASPA_DERIVATION;
+  return `${path}/${account}'`;
+}
+
+function multisigChildPath(): string {
+  const { chain, index } = MULTISIG_KASPA_DERIVATION;
+  return `m/${chain}/${index}`;
+}
+
+function multisigAccountXPrv(kaspa: Record<string, unknown>, session: UnlockedSession) {
+  const { Mnemonic } = kaspa as unknown as KaspaKeyClasses;
+  const { XPrv } = kaspa as unknown as KaspaXPubClasses;
+  if (typeof XPrv !== "function") throw new Error("WASM_MULTISIG_UNAVAILABLE: kaspa-wasm XPrv not found");
+  const seed = new Mnemonic(session.mnemonic).toSeed(session.mnemonicPassphrase || undefined);
+  return new XPrv(seed).derivePath(multisigAccountPath());
+}
+
+/** This vault's co-signer extended public key — shared with the other co-signers. */
+export async function exportMultisigXpub(): Promise<string> {
+  const session = getSession();
+  if (!session || !session.mnemonic) throw new Error("WALLET_LOCKED");
+  const kaspa = await loadKaspa() as Record<string, unknown>;
+  return multisigAccountXPrv(kaspa, session).toXPub().intoString("kpub");
+}
+
+/** X-only signing pubkey behind a co-signer's extended public key. Throws MULTISIG_XPUB_INVALID. */
+export async function multisigPubkeyFromXpub(xpub: string): Promise<string> {
+  const kaspa = await loadKaspa() as Record<string, unknown>;
+  const { XPub } = kaspa as unknown as KaspaXPubClasses;
+  if (typeof XPub !== "function") throw new Error("WASM_MULTISIG_UNAVAILABLE: kaspa-wasm XPub not found");
+  try {
+    const key = new XPub(String(xpub || "").trim()).derivePath(multisigChildPath()).toPublicKey();
+    return key.toXOnlyPublicKey().toString().toLowerCase();
+  } catch {
+    throw new Error("MULTISIG_XPUB_INVALID: not a valid extended public key");
+  }
+}
+
+/**
+ * This vault's partial signature for a multisig spend: one signature push per
+ * input, made with the co-signer key. The tx must be unchanged since it was
+ * built — every co-signer signs the same generator transaction.
+ *
+ * @throws "WALLET_LOCKED", "MULTISIG_LINK_MISSING"
+ * @throws "SIGN_FAILED" wrapping MULTISIG_NOT_COSIGNER or the wasm error.
+ */
+export async function signMultisigInputs(tx: PendingTx): Promise<{ pubkey: string; signatures: string[] }> {
+  const session = getSession();
+  if (!session || !session.mnemonic) throw new Error("WALLET_LOCKED");
+  if (!tx.multisig) throw new Error("MULTISIG_LINK_MISSING");
+
+  const kaspa = await loadKaspa() as Record<string, unknown>;
+  let key: unknown = null;
+  try {
+    const accountXPrv = multisigAccountXPrv(kaspa, session);
+    const pubkey = await multisigPubkeyFromXpub(accountXPrv.toXPub().intoString("kpub"));
+    if (!tx.multisig.cosigners.some((c) => c.pubkey === pubkey)) {
+      throw new Error("MULTISIG_NOT_COSIGNER: this vault's key is not part of the multisig account");
+    }
+    key = accountXPrv.derivePath(multisigChildPath()).toPrivateKey();
+
+    const pending = await buildKaspaWasmTx(tx) as WasmPendingTx;
+    if (typeof pending.createInputSignature !== "function") {
+      throw new Error("WASM_P2SH_UNAVAILABLE: kaspa-wasm cannot sign P2SH inputs in this build");
+    }
+    const signatures = tx.inputs.map((_, index) => pending.createInputSignature!(index, key));
+    return { pubkey, signatures };
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     throw new Error(`SIGN_FAILED: ${msg}`);
   } finally {
-    // Clear private key reference — allow GC
-    privKeyRef = null;
+    key = null;
+  }
+}
+
+type WasmTxView = {
+  version?: number;
+  inputs?: Array<{ previousOutpoint?: { transactionId?: string; index?: number }; sequence?: bigint; sigOpCount?: number }>;
+  outputs?: Array<{ value?: bigint; scriptPublicKey?: { version?: number; script?: string } }>;
+  lockTime?: bigint;
+  subnetworkId?: string;
+  gas?: bigint;
+  payload?: string;
+};
+
+/** The generator transaction co-signers sign, with each input's UTXO from the spend. */
+async function multisigSighashTx(tx: PendingTx): Promise<SighashTx> {
+  const inner = (await buildKaspaWasmTx(tx) as { transaction?: WasmTxView }).transaction;
+  if (!inner?.inputs || !inner.outputs) {
+    throw new Error("WASM_SIGHASH_UNAVAILABLE: kaspa-wasm does not expose the generator transaction");
+  }
+  const utxos = new Map(tx.inputs.map((u) => [`${u.txId.toLowerCase()}:${u.outputIndex}`, u]));
+  return {
+    version: Number(inner.version ?? 0),
+    inputs: inner.inputs.map((input) => {
+      const utxo = utxos.get(`${String(input.previousOutpoint?.transactionId).toLowerCase()}:${input.previousOutpoint?.index}`);
+      if (!utxo) throw new Error("MULTISIG_INPUT_MISMATCH: generator input is not one of the spend's UTXOs");
+      return {
+        txId: utxo.txId,
+        index: utxo.outputIndex,
+        sequence: BigInt(input.sequence ?? 0n),
+        sigOpCount: Number(input.sigOpCount ?? 0),
+        amount: utxo.amount,
+        scriptVersion: utxo.scriptVersion,
+        scriptPublicKey: utxo.scriptPublicKey,
+      };
+    }),
+    outputs: inner.outputs.map((output) => ({
+      value: BigInt(output.value ?? 0n),
+      scriptVersion: Number(output.scriptPublicKey?.version ?? 0),
+      scriptPublicKey: String(output.scriptPublicKey?.script ?? ""),
+    })),
+    lockTime: BigInt(inner.lockTime ?? 0n),
+    subnetworkId: String(inner.subnetworkId || "00".repeat(20)),
+    gas: BigInt(inner.gas ?? 0n),
+    payload: String(inner.payload ?? ""),
+  };
+}
+
+/**
+ * Whether `signatures` (one push per input) are valid Schnorr signatures by
+ * `pubkey` over each input's sighash of the spend's generator transaction.
+ *
+ * @throws "WASM_SIGHASH_UNAVAILABLE", "MULTISIG_INPUT_MISMATCH" or the builder's errors.
+ */
+export async function verifyMultisigInputSignatures(tx: PendingTx, pubkey: string, signatures: string[]): Promise<boolean> {
+  if (signatures.length !== tx.inputs.length) return false;
+  const sighashTx = await multisigSighashTx(tx);
+  for (let index = 0; index < signatures.length; index += 1) {
+    if (!(await verifyInputSignaturePush(sighashTx, index, pubkey, signatures[index]))) return false;
+  }
+  return true;
+}
+
+/**
+ * Combine collected co-signer signatures into the final transaction: each
+ * input gets <sig>×threshold <redeem script>, signatures in script order.
+ * Needs no key material, so any instance holding the signatures can finalize.
+ *
+ * @throws "MULTISIG_THRESHOLD_NOT_MET" when fewer than threshold co-signers signed.
+ * @throws "SIGN_FAILED" wrapping the wasm error.
+ */
+export async function assembleMultisigTransaction(tx: PendingTx): Promise<PendingTx> {
+  const link = tx.multisig;
+  if (!link) throw new Error("MULTISIG_LINK_MISSING");
+  const signers = collectedMultisigSignatures(tx).slice(0, link.threshold);
+  if (signers.length < link.threshold) {
+    throw new Error(`MULTISIG_THRESHOLD_NOT_MET: ${signers.length}/${link.threshold} signatures collected`);
+  }
+
+  const kaspa = await loadKaspa() as Record<string, unknown>;
+  try {
+    const ScriptBuilder = kaspa.ScriptBuilder as
+      | { fromScript: (hex: string) => { encodePayToScriptHashSignatureScript: (signatures: string) => unknown } }
+      | undefined;
+    const pending = await buildKaspaWasmTx(tx) as WasmPendingTx;
+    if (!ScriptBuilder || typeof pending.fillInput !== "function") {
+      throw new Error("WASM_P2SH_UNAVAILABLE: kaspa-wasm cannot sign P2SH inputs in this build");
+    }
+    tx.inputs.forEach((_, index) => {
+      const pushes = signers.map((c) => c.signatures![index]).join("");
+      pending.fillInput!(index, ScriptBuilder.fromScript(link.redeemScriptHex).encodePayToScriptHashSignatureScript(pushes));
+    });
+    return withSignedPayload(tx, pending);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`SIGN_FAILED: ${msg}`);
   }
 }
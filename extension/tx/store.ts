@@ -1,9 +1,10 @@
 // Pending transaction store.
 // Persists to chrome.storage.local so in-flight txs survive popup close.
-// Pruned on load: CONFIRMED / FAILED / CANCELLED txs older than 7 days are dropped.
+// Pruned on load: CONFIRMED / FAILED / CANCELLED / REPLACED txs older than 7 days are dropped.
 
 import type { PendingTx } from "./types";
 import { PENDING_TX_STORAGE_KEY } from "./types";
+import type { UtxoScriptClass } from "../utxo/types";
 
 const PRUNE_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
@@ -14,7 +15,7 @@ let _loaded = false;
 // ── Persistence ───────────────────────────────────────────────────────────────
 
 function isTerminal(tx: PendingTx): boolean {
-  return ["CONFIRMED", "FAILED", "CANCELLED"].includes(tx.state);
+  return ["CONFIRMED", "FAILED", "CANCELLED", "REPLACED"].includes(tx.state);
 }
 
 async function persist(): Promise<void> {
@@ -94,10 +95,130 @@ export async function getLockedUtxoKeys(address: string): Promise<Set<string>> {
   return keys;
 }
 
+/**
+ * Change addresses already paid to (or about to be) by txs from `address`.
+ * Only txs that provably never reached the network are ignored, so HD change
+ * rotation does not hand the same change address to two transactions.
+ */
+export async function getReservedChangeAddresses(address: string): Promise<Set<string>> {
+  await loadPendingTxs();
+  const reserved = new Set<string>();
+  for (const tx of _txs) {
+    if (tx.fromAddress.toLowerCase() !== address.toLowerCase()) continue;
+    if (tx.state === "CANCELLED" || tx.state === "DRY_RUN_FAIL") continue;
+    if (tx.changeOutput) reserved.add(tx.changeOutput.address.toLowerCase());
+  }
+  return reserved;
+}
+
+/** Txs belonging to a consolidation run, ordered by their position in the run. */
+export async function getConsolidationTxs(runId: string): Promise<PendingTx[]> {
+  await loadPendingTxs();
+  return _txs
+    .filter((t) => t.consolidation?.runId === runId)
+    .sort((a, b) => (a.consolidation?.index ?? 0) - (b.consolidation?.index ?? 0));
+}
+
+/** Commit and reveal txs of a KRC-20 operation, newest build of each step. */
+export async function getKrc20Operation(operationId: string): Promise<{ commit: PendingTx | null; reveal: PendingTx | null }> {
+  await loadPendingTxs();
+  const latest = (step: "commit" | "reveal") => _txs
+    .filter((t) => t.krc20?.operationId === operationId && t.krc20.step === step)
+    .sort((a, b) => b.builtAt - a.builtAt)[0] ?? null;
+  return { commit: latest("commit"), reveal: latest("reveal") };
+}
+
+// ── Multisig co-signing ───────────────────────────────────────────────────────
+
+export type MultisigCosignerState = "signed" | "pending";
+
+export interface MultisigCosignerStatus {
+  label: string;
+  pubkey: string;
+  state: MultisigCosignerState;
+  signedAt?: number;
+}
+
+/** Per-co-signer signing status of a multisig spend (empty for single-key txs). */
+export function multisigCosignerStatuses(tx: PendingTx): MultisigCosignerStatus[] {
+  return (tx.multisig?.cosigners ?? []).map((c) => ({
+    label: c.label,
+    pubkey: c.pubkey,
+    state: c.signatures?.length === tx.inputs.length ? "signed" : "pending",
+    signedAt: c.signedAt,
+  }));
+}
+
+/** Spends of a multisig account, newest first. */
+export async function getMultisigTxs(accountId: string): Promise<PendingTx[]> {
+  await loadPendingTxs();
+  return _txs
+    .filter((t) => t.multisig?.accountId === accountId)
+    .sort((a, b) => b.builtAt - a.builtAt);
+}
+
+// ── Replacement groups (replace-by-fee) ───────────────────────────────────────
+
+/**
+ * Whether `tx` reached the network without being accepted yet — the only
+ * state a replacement can evict. A confirmation timeout does not mean the tx
+ * left the mempool, so timed-out txs stay replaceable.
+ */
+export function isReplaceable(tx: PendingTx): boolean {
+  if (!tx.txId || tx.inputs.length === 0) return false;
+  if (tx.state === "BROADCASTING" || tx.state === "CONFIRMING") return true;
+  return tx.state === "FAILED" && (tx.error ?? "").startsWith("CONFIRM_TIMEOUT");
+}
+
+/**
+ * The original tx and every replacement of it, oldest first. `id` may name
+ * any member of the group. Empty when the id is unknown.
+ */
+export async function getReplacementGroup(id: string): Promise<PendingTx[]> {
+  await loadPendingTxs();
+  const member = _txs.find((t) => t.id === id);
+  if (!member) return [];
+  const rootId = member.replaces ?? member.id;
+  return _txs
+    .filter((t) => t.id === rootId || t.replaces === rootId)
+    .sort((a, b) => a.builtAt - b.builtAt);
+}
+
+/**
+ * Resolve a replacement group once `winner` has been accepted: every other
+ * member that has not itself confirmed becomes REPLACED. Idempotent.
+ * Returns the members that changed.
+ */
+export async function settleReplacementGroup(winner: PendingTx): Promise<PendingTx[]> {
+  const group = await getReplacementGroup(winner.id);
+  const losers = group
+    .filter((t) => t.id !== winner.id && t.state !== "CONFIRMED" && t.state !== "REPLACED")
+    .map((t): PendingTx => ({
+      ...t,
+      state: "REPLACED",
+      replacedBy: winner.txId,
+      signedTxPayload: undefined,
+    }));
+  if (losers.length === 0) return [];
+  for (const loser of losers) {
+    const idx = _txs.findIndex((t) => t.id === loser.id);
+    if (idx >= 0) _txs[idx] = loser;
+  }
+  await persist();
+  return losers;
+}
+
 /** Sum of pending outbound amounts for an address. */
 export async function getPendingOutbound(address: string): Promise<bigint> {
   const active = await getActiveTxsForAddress(address);
-  return active.reduce((acc, tx) => {
+  // Members of one replacement group spend the same inputs; count only the newest.
+  const newestByGroup = new Map<string, PendingTx>();
+  for (const tx of active) {
+    const groupId = tx.replaces ?? tx.id;
+    const current = newestByGroup.get(groupId);
+    if (!current || tx.builtAt >= current.builtAt) newestByGroup.set(groupId, tx);
+  }
+  return [...newestByGroup.values()].reduce((acc, tx) => {
     const outToOthers = tx.outputs
       .filter((o) => o.address.toLowerCase() !== address.toLowerCase())
       .reduce((s, o) => s + o.amount, 0n);
@@ -106,14 +227,16 @@ export async function getPendingOutbound(address: string): Promise<bigint> {
 }
 
 // ── BigInt serialisation helpers ──────────────────────────────────────────────
-// JSON.stringify can't handle BigInt natively.
+// JSON.stringify can't handle BigInt natively. Also used by tx/pskt.ts and
+// tx/multisig.ts for offline-signing envelopes.
 
-type Serialisable = Record<string, unknown>;
+export type Serialisable = Record<string, unknown>;
 
-function serialiseTx(tx: PendingTx): Serialisable {
+export function serialiseTx(tx: PendingTx): Serialisable {
   return {
     ...tx,
     fee: tx.fee.toString(),
+    platformFee: tx.platformFee?.toString(),
     changeOutput: tx.changeOutput
       ? { ...tx.changeOutput, amount: tx.changeOutput.amount.toString() }
       : null,
@@ -126,10 +249,13 @@ function serialiseTx(tx: PendingTx): Serialisable {
   };
 }
 
-function deserialiseTx(raw: Serialisable): PendingTx {
+const SCRIPT_CLASSES: UtxoScriptClass[] = ["standard", "covenant", "inscription", "multisig"];
+
+export function deserialiseTx(raw: Serialisable): PendingTx {
   return {
     ...(raw as PendingTx),
     fee: BigInt(raw.fee as string),
+    platformFee: raw.platformFee != null ? BigInt(raw.platformFee as string) : undefined,
     changeOutput: raw.changeOutput
       ? { ...(raw.changeOutput as Record<string, unknown>), amount: BigInt((raw.changeOutput as Record<string, unknown>).amount as string) }
       : null,
@@ -141,7 +267,7 @@ function deserialiseTx(raw: Serialisable): PendingTx {
       ...(i as Record<string, unknown>),
       amount: BigInt(i.amount as string),
       blockDaaScore: BigInt(i.blockDaaScore as string),
-      scriptClass: i.scriptClass === "covenant" ? "covenant" : "standard",
+      scriptClass: SCRIPT_CLASSES.includes(i.scriptClass as UtxoScriptClass) ? i.scriptClass : "standard",
     })),
   } as PendingTx;
 }
@@ -2,17 +2,87 @@
 // All amounts in sompi (bigint). Never use floating-point for amounts.
 
 import type { Utxo } from "../utxo/types";
+import type { CoinSelectionStrategyId } from "../utxo/coinSelection";
+import type { TxMassBreakdown } from "./mass";
+import type { FeeTier } from "../network/feeTiers";
 
 export type TxState =
   | "BUILDING"           // Inputs selected, fee estimated
-  | "DRY_RUN_OK"         // All 5 checks passed
+  | "DRY_RUN_OK"         // All dry-run checks passed
   | "DRY_RUN_FAIL"       // At least one check failed
   | "SIGNED"             // kaspa-wasm signed, ready to broadcast
   | "BROADCASTING"       // Submitted to REST API
   | "CONFIRMING"         // txId confirmed, polling for acceptance
   | "CONFIRMED"          // Accepted into BlockDAG
   | "FAILED"             // Terminal failure
-  | "CANCELLED";         // User cancelled at confirmation screen
+  | "CANCELLED"          // User cancelled at confirmation screen
+  | "REPLACED";          // A linked replacement (or its original) was accepted instead
+
+/** How a replacement (tx/rbf.ts) treats the original's intent. */
+export type ReplacementKind = "speed-up" | "cancel";
+
+/** Half of a KRC commit/reveal inscription pair (tx/krc20.ts, tx/krc721.ts). */
+export type Krc20Step = "commit" | "reveal";
+
+export interface Krc20Link {
+  /** Shared by the commit and reveal of one transfer. */
+  operationId: string;
+  step: Krc20Step;
+  op: "transfer";
+  /** Token standard of the inscription; absent means KRC-20. */
+  standard?: "krc20" | "krc721";
+  /** Ticker (deploy-mint tokens) or contract address (issued tokens / collections). */
+  token: string;
+  /** Amount in the token's base units, decimal string ("1" for KRC-721). */
+  amount: string;
+  /** KRC-721 token id within the collection. */
+  tokenId?: string;
+  to: string;
+  /** Inscription redeem script; the reveal's P2SH signature script pushes it. */
+  redeemScriptHex: string;
+  /** P2SH address the commit pays and the reveal spends. */
+  commitAddress: string;
+}
+
+/** One co-signer of a multisig spend (tx/multisig.ts). */
+export interface MultisigCosigner {
+  label: string;
+  /** X-only public key (hex) derived from the co-signer's extended public key. */
+  pubkey: string;
+  /** Signature script push per input, in input order; absent until this co-signer signs. */
+  signatures?: string[];
+  signedAt?: number;
+}
+
+export interface MultisigLink {
+  /** MultisigAccount.id in extension storage. */
+  accountId: string;
+  /** Signatures required (m of n). */
+  threshold: number;
+  /** OP_m <pubkeys> OP_n OP_CHECKMULTISIG. */
+  redeemScriptHex: string;
+  /** P2SH script of the multisig address; identifies its UTXOs. */
+  scriptPublicKeyHex: string;
+  /** Sorted by pubkey — the order OP_CHECKMULTISIG consumes signatures in. */
+  cosigners: MultisigCosigner[];
+}
+
+/** Unlock data for one covenant input (tx/covenant.ts). */
+export interface CovenantInputSpend {
+  /** "txId:outputIndex" of the input it unlocks. */
+  outpoint: string;
+  /** Template script: the output's own script, or its P2SH redeem script. */
+  scriptHex: string;
+  /** P2SH output — the signature script also pushes `scriptHex`. */
+  p2sh: boolean;
+  /** Hash-lock secret (hex); revealed on-chain by the spend. */
+  preimageHex?: string;
+}
+
+export interface CovenantLink {
+  /** One entry per covenant input, matched by outpoint. */
+  inputs: CovenantInputSpend[];
+}
 
 export interface TxOutput {
   address: string;
@@ -24,6 +94,8 @@ export interface DryRunResult {
   estimatedFee: bigint;      // sompi
   changeAmount: bigint;      // sompi, may be 0
   errors: string[];
+  /** Exact mass the fee check was priced on (absent when it could not be computed). */
+  mass?: TxMassBreakdown;
 }
 
 /**
@@ -48,10 +120,17 @@ export interface PendingTx {
   // Change back to self
   changeOutput: TxOutput | null;
 
+  // Coin selection strategy that produced the inputs (absent on legacy records)
+  coinSelection?: CoinSelectionStrategyId;
+
   // Fee
   fee: bigint;
   /** Optional platform fee routed to treasury address (sompi). Undefined when treasury is unconfigured. */
   platformFee?: bigint;
+  /** Mass (compute + storage) the fee was priced on. */
+  mass?: TxMassBreakdown;
+  /** Fee-estimate bucket the fee was priced from (absent on legacy records). */
+  feeTier?: FeeTier;
 
   // Timing
   builtAt: number;        // Unix ms
@@ -78,6 +157,37 @@ export interface PendingTx {
   // Cleared after confirmation to reduce storage size
   signedTxPayload?: string;
 
+  // Consolidation run membership (self-sends planned by tx/consolidation.ts)
+  consolidation?: {
+    runId: string;
+    /** 0-based position of this tx in the run. */
+    index: number;
+    total: number;
+  };
+
+  // Replace-by-fee linkage. A replacement double-spends the inputs of the
+  // original it names; whichever member of the group is accepted wins and the
+  // others become REPLACED.
+  /** PendingTx.id of the original (always the root, never another replacement). */
+  replaces?: string;
+  replacementKind?: ReplacementKind;
+  /** On a REPLACED tx: network txId of the group member that was accepted. */
+  replacedBy?: string;
+
+  // KRC-20 / KRC-721 inscription pairing. The commit locks KAS in a P2SH
+  // output whose redeem script carries the inscription; the reveal spends it
+  // back to the sender, publishing the inscription. Both carry the same
+  // operationId.
+  krc20?: Krc20Link;
+
+  // m-of-n multisig spend. Co-signers' partial signatures are collected here;
+  // dry-run refuses the tx until the threshold is met.
+  multisig?: MultisigLink;
+
+  // Covenant (script-constrained) inputs. Each carries the template it is
+  // locked by; dry-run checks the template's conditions before signing.
+  covenant?: CovenantLink;
+
   // Optional agent job identifier (for OP_RETURN receipt anchoring)
   agentJobId?: string;
   // Optional OP_RETURN data hex (0-byte-value output, max 80 bytes payload)
@@ -0,0 +1,147 @@
+// Coin selection strategies — pluggable input pickers behind selectUtxos().
+//
+// A strategy receives the spendable pool (unlocked, standard-script UTXOs) and
+// the amount that must be covered (target + fee) and returns the inputs to
+// spend, or null when it cannot satisfy its own constraints. selectUtxos()
+// keeps ownership of lock filtering, script filtering and the
+// INSUFFICIENT_FUNDS / COVENANT_ONLY_FUNDS errors.
+//
+// All amounts in sompi (bigint).
+
+import type { Utxo } from "./types";
+
+export type CoinSelectionStrategyId =
+  | "largest-first"      // Fewest inputs; default
+  | "smallest-first"     // Consolidates dust; most inputs, highest fee
+  | "oldest-first"       // Spends by blockDaaScore ascending
+  | "branch-and-bound";  // Exact match — no change output
+
+export interface CoinSelectionContext {
+  /**
+   * Largest acceptable overshoot for changeless selection (sompi).
+   * The excess is paid to miners instead of creating a change output.
+   */
+  maxExcessSompi: bigint;
+}
+
+export interface CoinSelectionStrategy {
+  id: CoinSelectionStrategyId;
+  label: string;
+  description: string;
+  /** True when a successful selection never needs a change output. */
+  changeless: boolean;
+  select(pool: Utxo[], needSompi: bigint, ctx: CoinSelectionContext): Utxo[] | null;
+}
+
+export const DEFAULT_COIN_SELECTION: CoinSelectionStrategyId = "largest-first";
+
+/** Hard cap on branch-and-bound search steps (keeps the popup responsive). */
+export const BNB_MAX_TRIES = 100_000;
+
+function byAmountDesc(a: Utxo, b: Utxo): number {
+  return b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0;
+}
+
+function byAmountAsc(a: Utxo, b: Utxo): number {
+  return byAmountDesc(b, a);
+}
+
+function byAgeAsc(a: Utxo, b: Utxo): number {
+  if (a.blockDaaScore !== b.blockDaaScore) return a.blockDaaScore < b.blockDaaScore ? -1 : 1;
+  return byAmountDesc(a, b);
+}
+
+/** Take UTXOs in order until the running total covers the need. */
+function accumulate(ordered: Utxo[], needSompi: bigint): Utxo[] | null {
+  let total = 0n;
+  const selected: Utxo[] = [];
+  for (const utxo of ordered) {
+    selected.push(utxo);
+    total += utxo.amount;
+    if (total >= needSompi) return selected;
+  }
+  return null;
+}
+
+/**
+ * Depth-first search over the pool (largest amounts first) for the subset
+ * whose total lands in [need, need + maxExcess], preferring the smallest
+ * excess and then the fewest inputs. Stops early on an exact hit or when the
+ * BNB_MAX_TRIES budget is spent, returning the best match found so far.
+ */
+function branchAndBound(pool: Utxo[], needSompi: bigint, ctx: CoinSelectionContext): Utxo[] | null {
+  const sorted = pool.filter((u) => u.amount > 0n).sort(byAmountDesc);
+  const upper = needSompi + (ctx.maxExcessSompi > 0n ? ctx.maxExcessSompi : 0n);
+
+  // remaining[i] = sum of sorted[i..] — prunes branches that can no longer reach the need.
+  const remaining: bigint[] = new Array(sorted.length + 1).fill(0n);
+  for (let i = sorted.length - 1; i >= 0; i -= 1) remaining[i] = remaining[i + 1] + sorted[i].amount;
+  if (remaining[0] < needSompi) return null;
+
+  let best: number[] | null = null;
+  let bestExcess = 0n;
+  let tries = 0;
+  const picked: number[] = [];
+
+  // Returns true when the search should stop (exact match or budget spent).
+  const walk = (index: number, sum: bigint): boolean => {
+    tries += 1;
+    if (tries > BNB_MAX_TRIES) return true;
+    if (sum > upper) return false;
+    if (sum >= needSompi) {
+      const excess = sum - needSompi;
+      if (!best || excess < bestExcess || (excess === bestExcess && picked.length < best.length)) {
+        best = [...picked];
+        bestExcess = excess;
+      }
+      return excess === 0n;
+    }
+    if (index >= sorted.length || sum + remaining[index] < needSompi) return false;
+
+    picked.push(index);
+    if (walk(index + 1, sum + sorted[index].amount)) return true;
+    picked.pop();
+    return walk(index + 1, sum);
+  };
+
+  walk(0, 0n);
+  const found = best as number[] | null;
+  return found ? found.map((i) => sorted[i]) : null;
+}
+
+export const COIN_SELECTION_STRATEGIES: Record<CoinSelectionStrategyId, CoinSelectionStrategy> = {
+  "largest-first": {
+    id: "largest-first",
+    label: "Largest first",
+    description: "Fewest inputs and lowest fee. Leaves small UTXOs untouched.",
+    changeless: false,
+    select: (pool, need) => accumulate([...pool].sort(byAmountDesc), need),
+  },
+  "smallest-first": {
+    id: "smallest-first",
+    label: "Consolidate",
+    description: "Spends the smallest UTXOs first to sweep dust. Higher fee.",
+    changeless: false,
+    select: (pool, need) => accumulate([...pool].sort(byAmountAsc), need),
+  },
+  "oldest-first": {
+    id: "oldest-first",
+    label: "Oldest first",
+    description: "Spends UTXOs in DAA-score order, oldest first.",
+    changeless: false,
+    select: (pool, need) => accumulate([...pool].sort(byAgeAsc), need),
+  },
+  "branch-and-bound": {
+    id: "branch-and-bound",
+    label: "Exact match",
+    description: "Searches for inputs that cover the send exactly — no change output.",
+    changeless: true,
+    select: branchAndBound,
+  },
+};
+
+export const COIN_SELECTION_STRATEGY_IDS = Object.keys(COIN_SELECTION_STRATEGIES) as CoinSelectionStrategyId[];
+
+export function isCoinSelectionStrategyId(value: unknown): value is CoinSelectionStrategyId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(COIN_SELECTION_STRATEGIES, value);
+}
@@ -0,0 +1,357 @@
+// HD address rotation — receive/change address books per vault account.
+//
+// Design:
+//  - Each (account, network) pair keeps a book of derived addresses on the
+//    receive (chain 0) and change (chain 1) chains. Only public data is stored
+//    (addresses + derivation metadata) in chrome.storage.local.
+//  - Gap-limit discovery (BIP44, default 20) runs on unlock/import and marks
+//    every address with on-chain history as used.
+//  - Fresh receive addresses are issued on demand; change is sent to the first
+//    unused, unreserved change address instead of back to the sender.
+//  - Every tracked address is merged into one UtxoSet (see utxoSync.ts) for
+//    balance display and coin selection.
+
+import type { UnlockedSession } from "../vault/types";
+import type { UtxoSet } from "./types";
+import { getSession } from "../vault/vault";
+import { getReservedChangeAddresses } from "../tx/store";
+import {
+  getOrSyncUtxos,
+  getOrSyncUtxosForAddresses,
+  syncUtxos,
+  syncUtxosForAddresses,
+} from "./utxoSync";
+import { fetchAddressTransactionCount, fetchUtxos } from "../network/kaspaClient";
+import { deriveWalletAddresses } from "../../src/wallet/KaspaWalletManager";
+import {
+  DEFAULT_KASPA_DERIVATION,
+  normalizeKaspaDerivation,
+  type KaspaDerivationMeta,
+} from "../../src/wallet/derivation";
+import { withKaspaAddressNetwork } from "../../src/helpers";
+import { DEFAULT_ACCOUNT_ID } from "../shared/storage";
+
+export const HD_ADDRESS_BOOK_STORAGE_KEY = "forgeos.hd-addresses.v1";
+export const DEFAULT_GAP_LIMIT = 20;
+/** Hard stop for discovery so a misbehaving indexer cannot loop forever. */
+const MAX_SCAN_BATCHES = 50;
+
+export interface HdAddressEntry {
+  address: string;
+  derivation: KaspaDerivationMeta;
+  /** True once the address has on-chain history. */
+  used: boolean;
+  /** Set when the address was handed out by nextReceiveAddress(). */
+  issuedAt?: number;
+}
+
+export interface HdAddressBook {
+  accountId: string;
+  network: string;
+  /** Receive chain entries, ascending by index. */
+  receive: HdAddressEntry[];
+  /** Change chain entries, ascending by index. */
+  change: HdAddressEntry[];
+  scannedAt: number | null;
+}
+
+/** The account-level inputs needed to derive addresses. */
+export interface HdAccountRef {
+  accountId: string;
+  mnemonic: string;
+  mnemonicPassphrase?: string;
+  /** Derivation of the account's primary receive address. */
+  derivation: KaspaDerivationMeta;
+  /** Primary receive address as stored in the vault. */
+  address: string;
+}
+
+export interface ScanHdAddressesOptions {
+  gapLimit?: number;
+}
+
+/** Account reference for the active vault account, or null when locked. */
+export function hdAccountFromSession(session: UnlockedSession | null): HdAccountRef | null {
+  if (!session?.mnemonic) return null;
+  return {
+    accountId: session.activeAccountId ?? DEFAULT_ACCOUNT_ID,
+    mnemonic: session.mnemonic,
+    mnemonicPassphrase: session.mnemonicPassphrase,
+    derivation: normalizeKaspaDerivation(session.derivation ?? DEFAULT_KASPA_DERIVATION),
+    address: session.address,
+  };
+}
+
+// ── Persistence ───────────────────────────────────────────────────────────────
+
+function localStore(): chrome.storage.LocalStorageArea {
+  return chrome.storage.local;
+}
+
+function bookKey(accountId: string, network: string): string {
+  return `${accountId}|${network}`;
+}
+
+async function readAllBooks(): Promise<Record<string, HdAddressBook>> {
+  return new Promise((resolve) => {
+    localStore().get(HD_ADDRESS_BOOK_STORAGE_KEY, (result) => {
+      const raw = result?.[HD_ADDRESS_BOOK_STORAGE_KEY];
+      resolve(raw && typeof raw === "object" && !Array.isArray(raw)
+        ? raw as Record<string, HdAddressBook>
+        : {});
+    });
+  });
+}
+
+export async function loadHdAddressBook(
+  accountId: string,
+  network: string,
+): Promise<HdAddressBook | null> {
+  const all = await readAllBooks();
+  return all[bookKey(accountId, network)] ?? null;
+}
+
+export async function saveHdAddressBook(book: HdAddressBook): Promise<void> {
+  const all = await readAllBooks();
+  all[bookKey(book.accountId, book.network)] = book;
+  return new Promise((resolve) => {
+    localStore().set({ [HD_ADDRESS_BOOK_STORAGE_KEY]: all }, resolve);
+  });
+}
+
+function emptyBook(accountId: string, network: string): HdAddressBook {
+  return { accountId, network, receive: [], change: [], scannedAt: null };
+}
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+function sameAddress(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function upsertEntry(entries: HdAddressEntry[], entry: HdAddressEntry): HdAddressEntry[] {
+  const idx = entries.findIndex((e) => e.derivation.index === entry.derivation.index);
+  const next = [...entries];
+  if (idx >= 0) {
+    next[idx] = {
+      ...next[idx],
+      ...entry,
+      used: next[idx].used || entry.used,
+      issuedAt: next[idx].issuedAt ?? entry.issuedAt,
+    };
+  } else {
+    next.push(entry);
+  }
+  return next.sort((a, b) => a.derivation.index - b.derivation.index);
+}
+
+function nextIndex(entries: HdAddressEntry[]): number {
+  return entries.reduce((max, e) => Math.max(max, e.derivation.index + 1), 0);
+}
+
+/** Unused entries after the last used one — the run a BIP44 scan must bridge. */
+function trailingUnusedCount(entries: HdAddressEntry[]): number {
+  let count = 0;
+  for (let i = entries.length - 1; i >= 0 && !entries[i].used; i--) count++;
+  return count;
+}
+
+async function deriveOne(
+  account: HdAccountRef,
+  network: string,
+  chain: 0 | 1,
+  index: number,
+): Promise<HdAddressEntry> {
+  const [derived] = await deriveWalletAddresses(account.mnemonic, network, {
+    mnemonicPassphrase: account.mnemonicPassphrase,
+    derivation: account.derivation,
+    chain,
+    start: index,
+    count: 1,
+  });
+  return { address: derived.address, derivation: derived.derivation, used: false };
+}
+
+async function isAddressUsed(address: string, network: string): Promise<boolean> {
+  try {
+    return (await fetchAddressTransactionCount(address, network)) > 0;
+  } catch {
+    // Some backends lack the tx-count route; current UTXOs are the next best signal.
+    return (await fetchUtxos(address, network)).length > 0;
+  }
+}
+
+/** Every address tracked by a book (receive + change). */
+export function trackedHdAddresses(book: HdAddressBook | null): string[] {
+  if (!book) return [];
+  return [...book.receive, ...book.change].map((e) => e.address);
+}
+
+/** Locate an address in a book; used by the signer to pick the input key. */
+export function findHdAddress(book: HdAddressBook | null, address: string): HdAddressEntry | null {
+  if (!book) return null;
+  return [...book.receive, ...book.change].find((e) => sameAddress(e.address, address)) ?? null;
+}
+
+/** True when `address` is the account's primary receive address on `network`. */
+function isPrimaryAddress(account: HdAccountRef, address: string, network: string): boolean {
+  if (sameAddress(account.address, address)) return true;
+  try {
+    return sameAddress(withKaspaAddressNetwork(account.address, network), address);
+  } catch {
+    return false;
+  }
+}
+
+// ── Discovery ─────────────────────────────────────────────────────────────────
+
+async function scanChain(
+  account: HdAccountRef,
+  network: string,
+  chain: 0 | 1,
+  gapLimit: number,
+): Promise<HdAddressEntry[]> {
+  const found: HdAddressEntry[] = [];
+  let lastUsed = -1;
+  let start = 0;
+
+  for (let batch = 0; batch < MAX_SCAN_BATCHES; batch++) {
+    const derived = await deriveWalletAddresses(account.mnemonic, network, {
+      mnemonicPassphrase: account.mnemonicPassphrase,
+      derivation: account.derivation,
+      chain,
+      start,
+      count: gapLimit,
+    });
+    const usage = await Promise.all(derived.map((d) => isAddressUsed(d.address, network)));
+    derived.forEach((d, i) => {
+      if (!usage[i]) return;
+      lastUsed = d.derivation.index;
+      found.push({ address: d.address, derivation: d.derivation, used: true });
+    });
+    start += gapLimit;
+    if (start - (lastUsed + 1) >= gapLimit) break;
+  }
+
+  return found;
+}
+
+/**
+ * BIP44 gap-limit scan of both chains. Merges discoveries into the stored book
+ * (previously issued addresses are kept) and always tracks the primary address.
+ */
+export async function scanHdAddresses(
+  account: HdAccountRef,
+  network: string,
+  options: ScanHdAddressesOptions = {},
+): Promise<HdAddressBook> {
+  const gapLimit = Math.max(1, Math.floor(options.gapLimit ?? DEFAULT_GAP_LIMIT));
+  const [receiveFound, changeFound] = await Promise.all([
+    scanChain(account, network, 0, gapLimit),
+    scanChain(account, network, 1, gapLimit),
+  ]);
+
+  let book = (await loadHdAddressBook(account.accountId, network)) ?? emptyBook(account.accountId, network);
+  for (const entry of receiveFound) book = { ...book, receive: upsertEntry(book.receive, entry) };
+  for (const entry of changeFound) book = { ...book, change: upsertEntry(book.change, entry) };
+
+  if (account.derivation.chain === 0 && !book.receive.some((e) => e.derivation.index === account.derivation.index)) {
+    const primary = await deriveOne(account, network, 0, account.derivation.index);
+    book = { ...book, receive: upsertEntry(book.receive, primary) };
+  }
+
+  book = { ...book, scannedAt: Date.now() };
+  await saveHdAddressBook(book);
+  return book;
+}
+
+// ── Rotation ──────────────────────────────────────────────────────────────────
+
+/**
+ * Issue a never-before-shown receive address.
+ * Throws "GAP_LIMIT_REACHED" once `gapLimit` issued addresses in a row are
+ * still unused, because a restore scan would stop before reaching the next one.
+ */
+export async function nextReceiveAddress(
+  account: HdAccountRef,
+  network: string,
+  gapLimit = DEFAULT_GAP_LIMIT,
+): Promise<HdAddressEntry> {
+  const book = (await loadHdAddressBook(account.accountId, network)) ?? emptyBook(account.accountId, network);
+  if (trailingUnusedCount(book.receive) >= gapLimit) throw new Error("GAP_LIMIT_REACHED");
+
+  const index = Math.max(nextIndex(book.receive), account.derivation.chain === 0 ? account.derivation.index + 1 : 0);
+  const entry = { ...(await deriveOne(account, network, 0, index)), issuedAt: Date.now() };
+  await saveHdAddressBook({ ...book, receive: upsertEntry(book.receive, entry) });
+  return entry;
+}
+
+/**
+ * Change address for the next transaction: the lowest unused change address
+ * that no in-flight tx already pays to, deriving a new one when none is free.
+ * Reusing abandoned ones keeps the change chain inside the gap limit.
+ */
+export async function nextChangeAddress(
+  account: HdAccountRef,
+  network: string,
+  reserved: Set<string> = new Set(),
+): Promise<HdAddressEntry> {
+  const book = (await loadHdAddressBook(account.accountId, network)) ?? emptyBook(account.accountId, network);
+  const reservedLower = new Set([...reserved].map((a) => a.toLowerCase()));
+  const free = book.change.find((e) => !e.used && !reservedLower.has(e.address.toLowerCase()));
+  if (free) return free;
+
+  const entry = await deriveOne(account, network, 1, nextIndex(book.change));
+  await saveHdAddressBook({ ...book, change: upsertEntry(book.change, entry) });
+  return entry;
+}
+
+/**
+ * Resolve where change for a send from `fromAddress` should go. Falls back to
+ * `fromAddress` when it is not the unlocked account's primary address or the
+ * change key cannot be derived.
+ */
+export async function resolveChangeAddress(fromAddress: string, network: string): Promise<string> {
+  const account = hdAccountFromSession(getSession());
+  if (!account || !isPrimaryAddress(account, fromAddress, network)) return fromAddress;
+  try {
+    const reserved = await getReservedChangeAddresses(fromAddress);
+    return (await nextChangeAddress(account, network, reserved)).address;
+  } catch {
+    return fromAddress;
+  }
+}
+
+// ── Aggregated UTXO view ──────────────────────────────────────────────────────
+
+/**
+ * UTXO set for `fromAddress`, merged with every address in the active
+ * account's book when `fromAddress` is that account's primary address.
+ */
+export async function getOrSyncAccountUtxos(
+  fromAddress: string,
+  network: string,
+  options: { force?: boolean } = {},
+): Promise<UtxoSet> {
+  const account = hdAccountFromSession(getSession());
+  const book = account && isPrimaryAddress(account, fromAddress, network)
+    ? await loadHdAddressBook(account.accountId, network)
+    : null;
+  const extra = trackedHdAddresses(book).filter((a) => !sameAddress(a, fromAddress));
+
+  if (extra.length === 0) {
+    return options.force ? syncUtxos(fromAddress, network) : getOrSyncUtxos(fromAddress, network);
+  }
+  return options.force
+    ? syncUtxosForAddresses(fromAddress, extra, network)
+    : getOrSyncUtxosForAddresses(fromAddress, extra, network);
+}
+
+/** Addresses whose balances make up the active account's total. */
+export async function listAccountAddresses(fromAddress: string, network: string): Promise<string[]> {
+  const account = hdAccountFromSession(getSession());
+  if (!account || !isPrimaryAddress(account, fromAddress, network)) return [fromAddress];
+  const book = await loadHdAddressBook(account.accountId, network);
+  const extra = trackedHdAddresses(book).filter((a) => !sameAddress(a, fromAddress));
+  return [fromAddress, ...extra];
+}
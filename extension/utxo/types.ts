@@ -6,9 +6,14 @@ export const SOMPI_PER_KAS = 100_000_000n;
 /**
  * Script classification used by send-path policy.
  * - standard: normal pay-to-pubkey outputs this wallet can spend directly.
- * - covenant: script-constrained outputs that require covenant-specific spend logic.
+ * - covenant: script-constrained outputs; spent only through tx/covenant.ts once
+ *   their script matches a known template (PendingTx.covenant).
+ * - inscription: P2SH commit output of a KRC-20 commit/reveal pair; spent only by
+ *   its reveal, with the redeem script recorded on the tx (PendingTx.krc20).
+ * - multisig: P2SH output of a registered m-of-n multisig account; spent with
+ *   co-signer signatures collected on the tx (PendingTx.multisig).
  */
-export type UtxoScriptClass = "standard" | "covenant";
+export type UtxoScriptClass = "standard" | "covenant" | "inscription" | "multisig";
 
 export interface Utxo {
   txId: string;
@@ -29,6 +34,8 @@ export interface UtxoSet {
   confirmedBalance: bigint;  // sum of all confirmed UTXOs
   pendingOutbound: bigint;   // locked by in-flight outbound txs
   lastSyncAt: number;        // Unix ms
+  /** Every address merged into this set (multi-address HD account views only). */
+  addresses?: string[];
 }
 
 /** UTXO selected for spending in a transaction. */
@@ -5,15 +5,23 @@
 //  - Reconciliation: marks pending txs as confirmed when their inputs disappear.
 //  - pendingOutbound: sum of outputs locked by in-flight txs (BROADCASTING/CONFIRMING).
 //  - Stale threshold: 30 s. Callers decide whether to force-refresh.
+//  - HD accounts: per-address sets are merged into one aggregate view keyed by
+//    the account's primary address (see utxo/hdAddresses.ts).
 
 import type { Utxo, UtxoSet } from "./types";
 import type { KaspaUtxoResponse } from "../network/kaspaClient";
 import { fetchUtxos } from "../network/kaspaClient";
+import {
+  COIN_SELECTION_STRATEGIES,
+  DEFAULT_COIN_SELECTION,
+  type CoinSelectionStrategyId,
+} from "./coinSelection";
 
 const STALE_THRESHOLD_MS = 30_000;
 
 // ── In-memory UTXO cache ──────────────────────────────────────────────────────
 const _cache = new Map<string, UtxoSet>();
+const _aggregateCache = new Map<string, UtxoSet>();
 
 function normalizeScriptHex(scriptPublicKey: string): string {
   return String(scriptPublicKey || "").trim().toLowerCase();
@@ -43,7 +51,11 @@ export function getCachedUtxoSet(address: string): UtxoSet | null {
 
 /** Manually invalidate the cache for an address (e.g. after broadcast). */
 export function invalidateUtxoCache(address: string): void {
-  _cache.delete(address.toLowerCase());
+  const key = address.toLowerCase();
+  _cache.delete(key);
+  for (const [primary, set] of _aggregateCache) {
+    if (primary === key || set.addresses?.includes(key)) _aggregateCache.delete(primary);
+  }
 }
 
 // ── Fetch + parse ─────────────────────────────────────────────────────────────
@@ -113,45 +125,131 @@ export async function getOrSyncUtxos(
   return syncUtxos(address, network, pendingInputs, pendingOutbound);
 }
 
+function uniqueAddresses(primaryAddress: string, addresses: string[]): string[] {
+  const out: string[] = [];
+  const seen = new Set<string>();
+  for (const address of [primaryAddress, ...addresses]) {
+    const key = address.toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(address);
+  }
+  return out;
+}
+
 /**
- * Select UTXOs for spending using a largest-first strategy.
+ * Sync several addresses of one HD account and merge them into a single
+ * UtxoSet keyed by the primary address. Each UTXO keeps its own `address`
+ * so the signer can pick the matching key per input.
+ */
+export async function syncUtxosForAddresses(
+  primaryAddress: string,
+  addresses: string[],
+  network: string,
+): Promise<UtxoSet> {
+  const all = uniqueAddresses(primaryAddress, addresses);
+  const sets = await Promise.all(all.map((address) => syncUtxos(address, network)));
+
+  const seen = new Set<string>();
+  const utxos: Utxo[] = [];
+  for (const set of sets) {
+    for (const utxo of set.utxos) {
+      const key = `${utxo.txId}:${utxo.outputIndex}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      utxos.push(utxo);
+    }
+  }
+
+  const utxoSet: UtxoSet = {
+    address: primaryAddress.toLowerCase(),
+    utxos,
+    confirmedBalance: utxos.reduce((acc, u) => acc + u.amount, 0n),
+    pendingOutbound: 0n,
+    lastSyncAt: Date.now(),
+    addresses: all.map((a) => a.toLowerCase()),
+  };
+  _aggregateCache.set(utxoSet.address, utxoSet);
+  return utxoSet;
+}
+
+/**
+ * Aggregate counterpart of getOrSyncUtxos(). The cached view is reused only
+ * when it is fresh and covers exactly the requested address set.
+ */
+export async function getOrSyncUtxosForAddresses(
+  primaryAddress: string,
+  addresses: string[],
+  network: string,
+): Promise<UtxoSet> {
+  const wanted = uniqueAddresses(primaryAddress, addresses).map((a) => a.toLowerCase());
+  const cached = _aggregateCache.get(primaryAddress.toLowerCase());
+  if (
+    cached
+    && Date.now() - cached.lastSyncAt <= STALE_THRESHOLD_MS
+    && cached.addresses?.length === wanted.length
+    && wanted.every((a) => cached.addresses?.includes(a))
+  ) {
+    return cached;
+  }
+  return syncUtxosForAddresses(primaryAddress, addresses, network);
+}
+
+export interface SelectUtxosOptions {
+  /** Coin selection strategy (default: largest-first). */
+  strategy?: CoinSelectionStrategyId;
+  /** Largest overshoot accepted by changeless strategies (default: 0 — exact). */
+  maxExcessSompi?: bigint;
+}
+
+/**
+ * Select UTXOs for spending using a pluggable strategy (largest-first by default).
  * Excludes UTXOs already locked by pending transactions.
  *
  * @param utxos          Available UTXOs.
  * @param targetSompi    Amount to cover (before fee).
  * @param feeSompi       Fee to cover.
  * @param lockedKeys     Set of "txId:outputIndex" to exclude (locked by pending txs).
+ * @param options        Strategy selection (see utxo/coinSelection.ts).
  * @returns              Selected UTXOs + total accumulated amount.
  * @throws               "INSUFFICIENT_FUNDS" if coverage is impossible.
+ *                       "NO_EXACT_MATCH" if a changeless strategy finds no subset
+ *                       within the allowed excess although funds suffice.
  */
 export function selectUtxos(
   utxos: Utxo[],
   targetSompi: bigint,
   feeSompi: bigint,
   lockedKeys: Set<string> = new Set(),
+  options: SelectUtxosOptions = {},
 ): { selected: Utxo[]; total: bigint } {
+  const strategy = COIN_SELECTION_STRATEGIES[options.strategy ?? DEFAULT_COIN_SELECTION];
+  if (!strategy) throw new Error(`UNKNOWN_COIN_SELECTION: ${String(options.strategy)}`);
+
   const unlocked = utxos.filter((u) => !lockedKeys.has(`${u.txId}:${u.outputIndex}`));
-  const available = unlocked
-    .filter((u) => (u.scriptClass ?? "standard") === "standard")
-    .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0)); // largest first
+  // Multisig outputs only appear once the builder has matched them to the
+  // spending account's P2SH script, so they are as spendable as P2PK ones.
+  const available = unlocked.filter((u) => {
+    const scriptClass = u.scriptClass ?? "standard";
+    return scriptClass === "standard" || scriptClass === "multisig";
+  });
 
   const need = targetSompi + feeSompi;
-  let total = 0n;
-  const selected: Utxo[] = [];
+  const availableTotal = available.reduce((acc, u) => acc + u.amount, 0n);
 
-  for (const utxo of available) {
-    selected.push(utxo);
-    total += utxo.amount;
-    if (total >= need) break;
-  }
-
-  if (total < need) {
+  if (availableTotal < need) {
     const unlockedTotal = unlocked.reduce((acc, u) => acc + u.amount, 0n);
     if (unlockedTotal >= need) {
       throw new Error("COVENANT_ONLY_FUNDS");
     }
     throw new Error("INSUFFICIENT_FUNDS");
   }
+
+  const selected = strategy.select(available, need, { maxExcessSompi: options.maxExcessSompi ?? 0n });
+  if (!selected) {
+    throw new Error(strategy.changeless ? "NO_EXACT_MATCH" : "INSUFFICIENT_FUNDS");
+  }
+  const total = selected.reduce((acc, u) => acc + u.amount, 0n);
   return { selected, total };
 }
 
@@ -0,0 +1,200 @@
+// Vault backup — a password-encrypted file that restores the whole wallet.
+//
+//   1. exportVaultBackup decrypts the vault with the user's password and seals
+//      the payload plus the non-secret wallet state (import address book,
+//      connected-site permissions, agent configs) in the same Argon2id +
+//      AES-GCM envelope as the stored vault (EncryptedVaultV2).
+//   2. restoreVaultBackup (first-run screen) decrypts the file, checks that
+//      the mnemonic still derives every recorded address, writes a fresh vault
+//      under the same password and puts the wallet state back.
+//
+// The file is as sensitive as the vault blob: without the password it is
+// opaque, with it the mnemonic is recoverable.
+
+import type { EncryptedVaultV2, UnlockedSession, VaultPayload } from "./types";
+import {
+  createVault,
+  decryptVaultPayload,
+  openVaultEnvelope,
+  sealVaultEnvelope,
+  unlockVault,
+  vaultExists,
+} from "./vault";
+import {
+  getAgents,
+  getAllConnectedSites,
+  replaceAllConnectedSites,
+  setActiveAccountId,
+  setAgents,
+  setWalletMeta,
+  type ConnectedSitesByAccount,
+} from "../shared/storage";
+import {
+  exportImportCandidates,
+  restoreImportCandidates,
+  type StoredImportCandidate,
+} from "../shared/importAddressBook";
+import { sanitizeAgentsSnapshot } from "../shared/agentSync";
+import { importWallet } from "../../src/wallet/KaspaWalletManager";
+
+export const VAULT_BACKUP_FORMAT = "forgeos.vault-backup";
+export const VAULT_BACKUP_VERSION = 1;
+
+/** The file on disk: plaintext header + encrypted payload. */
+export interface VaultBackupFile {
+  format: typeof VAULT_BACKUP_FORMAT;
+  version: typeof VAULT_BACKUP_VERSION;
+  exportedAt: number;
+  envelope: EncryptedVaultV2;
+}
+
+/** What the envelope decrypts to. */
+export interface VaultBackupPayload {
+  version: typeof VAULT_BACKUP_VERSION;
+  vault: VaultPayload;
+  importAddressBook: StoredImportCandidate[];
+  connectedSites: ConnectedSitesByAccount;
+  agents: unknown[];
+}
+
+/** Suggested download name, e.g. "forgeos-backup-20261019.json". */
+export function vaultBackupFilename(now: number = Date.now()): string {
+  return `forgeos-backup-${new Date(now).toISOString().slice(0, 10).replace(/-/g, "")}.json`;
+}
+
+/**
+ * Build a backup file (JSON text) from the stored vault.
+ * Throws "NO_VAULT" / "INVALID_PASSWORD" like unlockVault().
+ */
+export async function exportVaultBackup(password: string, now: number = Date.now()): Promise<string> {
+  const { payload: vault } = await decryptVaultPayload(password);
+  const payload: VaultBackupPayload = {
+    version: VAULT_BACKUP_VERSION,
+    vault,
+    importAddressBook: await exportImportCandidates(vault.mnemonic, vault.mnemonicPassphrase),
+    connectedSites: await getAllConnectedSites(),
+    agents: await getAgents(),
+  };
+  const file: VaultBackupFile = {
+    format: VAULT_BACKUP_FORMAT,
+    version: VAULT_BACKUP_VERSION,
+    exportedAt: now,
+    envelope: await sealVaultEnvelope(payload, password, now),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const HEX_RE = /^[0-9a-f]+$/i;
+
+/**
+ * Parse and shape-check a backup file without decrypting it.
+ * Throws BACKUP_INVALID_FILE or BACKUP_UNSUPPORTED_VERSION.
+ */
+export function parseVaultBackupFile(text: string): VaultBackupFile {
+  let raw: any;
+  try {
+    raw = JSON.parse(String(text || "").trim());
+  } catch {
+    throw new Error("BACKUP_INVALID_FILE: not a Forge-OS backup file");
+  }
+  if (!raw || typeof raw !== "object" || raw.format !== VAULT_BACKUP_FORMAT) {
+    throw new Error("BACKUP_INVALID_FILE: not a Forge-OS backup file");
+  }
+  if (raw.version !== VAULT_BACKUP_VERSION) {
+    throw new Error(`BACKUP_UNSUPPORTED_VERSION: backup version ${raw.version} is not supported`);
+  }
+  const env = raw.envelope;
+  if (
+    !env || env.version !== 2 || env.kdf !== "argon2id" || !env.argon || typeof env.argon !== "object"
+    || ![env.salt, env.iv, env.ciphertext].every((v) => typeof v === "string" && HEX_RE.test(v))
+  ) {
+    throw new Error("BACKUP_INVALID_FILE: encrypted envelope is malformed");
+  }
+  return raw as VaultBackupFile;
+}
+
+/**
+ * Decrypt a parsed backup. Throws "INVALID_PASSWORD" or BACKUP_INVALID_PAYLOAD
+ * when the decrypted content is not a wallet backup.
+ */
+export async function decryptVaultBackup(file: VaultBackupFile, password: string): Promise<VaultBackupPayload> {
+  const payload = await openVaultEnvelope<VaultBackupPayload>(file.envelope, password);
+  const vault = payload?.vault;
+  if (
+    !payload || payload.version !== VAULT_BACKUP_VERSION || !vault
+    || typeof vault.mnemonic !== "string" || !vault.mnemonic.trim()
+    || typeof vault.address !== "string" || !vault.address
+    || typeof vault.network !== "string"
+  ) {
+    throw new Error("BACKUP_INVALID_PAYLOAD: backup does not contain a wallet");
+  }
+  return {
+    version: payload.version,
+    vault,
+    importAddressBook: Array.isArray(payload.importAddressBook) ? payload.importAddressBook : [],
+    connectedSites: payload.connectedSites && typeof payload.connectedSites === "object" ? payload.connectedSites : {},
+    agents: Array.isArray(payload.agents) ? payload.agents : [],
+  };
+}
+
+export interface RestoreVaultBackupDeps {
+  /** Re-derives each recorded address from the backed-up mnemonic (kaspa-wasm). */
+  importWallet: typeof importWallet;
+}
+
+const DEFAULT_RESTORE_DEPS: RestoreVaultBackupDeps = { importWallet };
+
+/**
+ * Restore a wallet from backup text and unlock it. The new vault uses the
+ * backup's password. Throws BACKUP_VAULT_EXISTS (reset the wallet first),
+ * BACKUP_ADDRESS_MISMATCH, "INVALID_PASSWORD" or the parse/decrypt errors above.
+ */
+export async function restoreVaultBackup(
+  text: string,
+  password: string,
+  deps: RestoreVaultBackupDeps = DEFAULT_RESTORE_DEPS,
+): Promise<UnlockedSession> {
+  const file = parseVaultBackupFile(text);
+  if (await vaultExists()) {
+    throw new Error("BACKUP_VAULT_EXISTS: a wallet is already set up on this device");
+  }
+  const backup = await decryptVaultBackup(file, password);
+  const { vault } = backup;
+
+  // A backup written against a different derivation (or tampered with) must
+  // not produce a vault that shows or signs for an address it does not
+  // control — neither the primary address nor any account's.
+  const recorded = [
+    { label: "the backed-up address", address: vault.address, derivation: vault.derivation },
+    ...(Array.isArray(vault.accounts) ? vault.accounts : []).map((account) => ({
+      label: `account "${account?.label || account?.id}"`,
+      address: account?.address,
+      derivation: account?.derivation,
+    })),
+  ];
+  for (const { label, address, derivation } of recorded) {
+    const derived = await deps.importWallet(vault.mnemonic, vault.network, {
+      mnemonicPassphrase: vault.mnemonicPassphrase,
+      derivation,
+    });
+    if (derived.address !== address) {
+      throw new Error(`BACKUP_ADDRESS_MISMATCH: mnemonic does not derive ${label}`);
+    }
+  }
+
+  await createVault(vault.mnemonic, password, vault.address, vault.network, {
+    mnemonicPassphrase: vault.mnemonicPassphrase,
+    derivation: vault.derivation,
+    accounts: vault.accounts,
+    activeAccountId: vault.activeAccountId,
+  });
+  if (vault.activeAccountId) await setActiveAccountId(vault.activeAccountId);
+  await setWalletMeta({ address: vault.address, network: vault.network });
+
+  await restoreImportCandidates(vault.mnemonic, vault.mnemonicPassphrase, backup.importAddressBook);
+  await replaceAllConnectedSites(backup.connectedSites);
+  const agents = sanitizeAgentsSnapshot(backup.agents);
+  if (agents && agents.count > 0) await setAgents(JSON.parse(agents.json));
+
+  return unlockVault(password);
+}
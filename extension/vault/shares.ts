@@ -0,0 +1,235 @@
+// Mnemonic shares — split the vault mnemonic K-of-N (crypto/shamir.ts) into
+// checksummed text shares, and recover it from any K of them.
+//
+// Share format v1, Crockford base32 in dash-separated groups, "fsh1-" prefix:
+//
+//   version(1) · set id(2) · threshold(1) · total(1) · index(1) · value(n) · crc32(4)
+//
+// The shared secret is SHA-256(phrase)[0..4] followed by the phrase packed at
+// 5 bits per character (a–z, space). The CRC catches a mistyped share before
+// anything is combined; the digest catches shares that combine wrongly (e.g.
+// from two different splits that happen to share a set id).
+//
+// The BIP39 passphrase is not part of the shares.
+
+import { combineShares, splitSecret } from "../crypto/shamir";
+
+export const MNEMONIC_SHARE_PREFIX = "fsh1";
+export const MNEMONIC_SHARE_VERSION = 1;
+export const MNEMONIC_SHARES_MAX = 16;
+
+const HEADER_BYTES = 6;
+const CHECKSUM_BYTES = 4;
+const DIGEST_BYTES = 4;
+const GROUP = 5;
+const BIP39_WORD_COUNTS = new Set([12, 15, 18, 21, 24]);
+
+export interface MnemonicShare {
+  setId: number;
+  threshold: number;
+  total: number;
+  index: number;
+  /** Checksummed text form, e.g. "fsh1-0g4r2-…". */
+  text: string;
+}
+
+// ── Encoding ─────────────────────────────────────────────────────────────────
+
+const BASE32 = "0123456789abcdefghjkmnpqrstvwxyz";
+
+function base32Encode(bytes: Uint8Array): string {
+  let out = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(buffer >> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(buffer << (5 - bits)) & 31];
+  return out;
+}
+
+/** Crockford decoding: case-insensitive, o → 0, i/l → 1. Null on any other character. */
+function base32Decode(text: string): Uint8Array | null {
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const raw of text.toLowerCase()) {
+    const ch = raw === "o" ? "0" : raw === "i" || raw === "l" ? "1" : raw;
+    const value = BASE32.indexOf(ch);
+    if (value < 0) return null;
+    buffer = ((buffer << 5) | value) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((buffer >> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 (IEEE 802.3). */
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function normalizePhrase(phrase: string): string {
+  return String(phrase || "").trim().toLowerCase().split(/\s+/).join(" ");
+}
+
+/** a–z → 1..26, space → 27, 5 bits each; a zero group ends the phrase. */
+function packPhrase(phrase: string): Uint8Array {
+  const out: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const ch of phrase) {
+    const value = ch === " " ? 27 : ch.charCodeAt(0) - 96;
+    if (value < 1 || value > 27) {
+      throw new Error("SHARE_UNSUPPORTED_PHRASE: only English BIP39 phrases can be split");
+    }
+    buffer = ((buffer << 5) | value) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((buffer >> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  if (bits > 0) out.push((buffer << (8 - bits)) & 0xff);
+  return new Uint8Array(out);
+}
+
+function unpackPhrase(bytes: Uint8Array): string {
+  let out = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xfff;
+    bits += 8;
+    while (bits >= 5) {
+      const value = (buffer >> (bits - 5)) & 31;
+      bits -= 5;
+      if (value === 0) return out;
+      if (value > 27) return "";
+      out += value === 27 ? " " : String.fromCharCode(96 + value);
+    }
+  }
+  return out;
+}
+
+async function phraseDigest(phrase: string): Promise<Uint8Array> {
+  const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(phrase));
+  return new Uint8Array(hash).slice(0, DIGEST_BYTES);
+}
+
+function encodeShare(header: Omit<MnemonicShare, "text">, value: Uint8Array): string {
+  const body = new Uint8Array(HEADER_BYTES + value.length + CHECKSUM_BYTES);
+  body.set([MNEMONIC_SHARE_VERSION, header.setId >> 8, header.setId & 0xff, header.threshold, header.total, header.index]);
+  body.set(value, HEADER_BYTES);
+  new DataView(body.buffer).setUint32(HEADER_BYTES + value.length, crc32(body.subarray(0, HEADER_BYTES + value.length)));
+  const groups = base32Encode(body).match(new RegExp(`.{1,${GROUP}}`, "g")) ?? [];
+  return [MNEMONIC_SHARE_PREFIX, ...groups].join("-");
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Split a mnemonic into `total` shares, any `threshold` of which recover it.
+ * Throws SHARE_INVALID_PARAMS (2 ≤ threshold ≤ total ≤ 16) or SHARE_UNSUPPORTED_PHRASE.
+ */
+export async function splitMnemonic(
+  phrase: string,
+  total: number,
+  threshold: number,
+  random: (length: number) => Uint8Array = (n) => crypto.getRandomValues(new Uint8Array(n)),
+): Promise<MnemonicShare[]> {
+  if (!Number.isInteger(total) || !Number.isInteger(threshold) || threshold < 2 || threshold > total || total > MNEMONIC_SHARES_MAX) {
+    throw new Error(`SHARE_INVALID_PARAMS: need 2 ≤ threshold ≤ shares ≤ ${MNEMONIC_SHARES_MAX}`);
+  }
+  const normalized = normalizePhrase(phrase);
+  const packed = packPhrase(normalized);
+  const secret = new Uint8Array(DIGEST_BYTES + packed.length);
+  secret.set(await phraseDigest(normalized));
+  secret.set(packed, DIGEST_BYTES);
+
+  const idBytes = random(2);
+  const setId = (idBytes[0] << 8) | idBytes[1];
+  return splitSecret(secret, total, threshold, random).map(({ x, y }) => {
+    const header = { setId, threshold, total, index: x };
+    return { ...header, text: encodeShare(header, y) };
+  });
+}
+
+/**
+ * Decode and checksum one share. Throws SHARE_INVALID_FORMAT,
+ * SHARE_UNSUPPORTED_VERSION or SHARE_CHECKSUM_MISMATCH (mistyped share).
+ */
+export function parseMnemonicShare(text: string): MnemonicShare & { value: Uint8Array } {
+  const compact = String(text || "").trim().toLowerCase().replace(/[\s-]+/g, "");
+  if (!compact.startsWith(MNEMONIC_SHARE_PREFIX)) {
+    throw new Error(`SHARE_INVALID_FORMAT: shares start with "${MNEMONIC_SHARE_PREFIX}-"`);
+  }
+  const body = base32Decode(compact.slice(MNEMONIC_SHARE_PREFIX.length));
+  if (!body || body.length < HEADER_BYTES + DIGEST_BYTES + 1 + CHECKSUM_BYTES) {
+    throw new Error("SHARE_INVALID_FORMAT: share is truncated or contains invalid characters");
+  }
+  if (body[0] !== MNEMONIC_SHARE_VERSION) {
+    throw new Error(`SHARE_UNSUPPORTED_VERSION: share version ${body[0]} is not supported`);
+  }
+  const end = body.length - CHECKSUM_BYTES;
+  if (new DataView(body.buffer).getUint32(end) !== crc32(body.subarray(0, end))) {
+    throw new Error("SHARE_CHECKSUM_MISMATCH: share has a typo — check it against the original");
+  }
+  const [, idHi, idLo, threshold, total, index] = body;
+  const header = { setId: (idHi << 8) | idLo, threshold, total, index };
+  if (threshold < 2 || threshold > total || index < 1 || index > total) {
+    throw new Error("SHARE_INVALID_FORMAT: share header is inconsistent");
+  }
+  return { ...header, text: encodeShare(header, body.slice(HEADER_BYTES, end)), value: body.slice(HEADER_BYTES, end) };
+}
+
+/**
+ * Recover the mnemonic from shares of one split. Throws the parse errors above,
+ * SHARE_SET_MISMATCH, SHARE_DUPLICATE, SHARE_THRESHOLD_NOT_MET or
+ * SHARE_DIGEST_MISMATCH.
+ */
+export async function recoverMnemonic(texts: string[]): Promise<string> {
+  const shares = texts.filter((t) => t.trim()).map(parseMnemonicShare);
+  const first = shares[0];
+  if (!first) throw new Error("SHARE_THRESHOLD_NOT_MET: no shares entered");
+  for (const s of shares) {
+    if (s.setId !== first.setId || s.threshold !== first.threshold || s.total !== first.total || s.value.length !== first.value.length) {
+      throw new Error("SHARE_SET_MISMATCH: shares come from different splits");
+    }
+  }
+  if (new Set(shares.map((s) => s.index)).size !== shares.length) {
+    throw new Error("SHARE_DUPLICATE: the same share was entered twice");
+  }
+  if (shares.length < first.threshold) {
+    throw new Error(`SHARE_THRESHOLD_NOT_MET: ${first.threshold} shares needed, ${shares.length} entered`);
+  }
+
+  const secret = combineShares(shares.slice(0, first.threshold).map((s) => ({ x: s.index, y: s.value })));
+  const phrase = unpackPhrase(secret.subarray(DIGEST_BYTES));
+  const digest = await phraseDigest(phrase);
+  const wordCount = phrase.split(" ").length;
+  if (!phrase || !BIP39_WORD_COUNTS.has(wordCount) || digest.some((b, i) => b !== secret[i])) {
+    throw new Error("SHARE_DIGEST_MISMATCH: shares do not recombine to a valid phrase");
+  }
+  return phrase;
+}
@@ -36,6 +36,20 @@ export interface EncryptedVaultV2 {
 /** Union of all supported vault versions. */
 export type EncryptedVault = EncryptedVaultV1 | EncryptedVaultV2;
 
+/**
+ * One HD account derived from the vault mnemonic.
+ * Every account shares the same seed (and BIP39 passphrase) but has its own
+ * derivation metadata, receive address and user-facing label.
+ */
+export interface VaultAccount {
+  /** Stable identifier — used to scope per-account storage (sites, prefs). */
+  id: string;
+  label: string;
+  derivation: KaspaDerivationMeta;
+  address: string;
+  createdAt: number;   // Unix ms
+}
+
 /**
  * The plaintext payload encrypted inside the vault.
  * Only ever exists in memory while unlocked.
@@ -51,6 +65,14 @@ export interface VaultPayload {
   network: "mainnet" | "testnet-10" | "testnet-11" | "testnet-12";
   derivationPath: string; // legacy: "m/44'/111'/0'"
   addressIndex: number;   // legacy: 0
+  /**
+   * All HD accounts held under this mnemonic. Absent on vaults written before
+   * multi-account support — those are read as a single primary account built
+   * from the legacy address/derivation fields above.
+   */
+  accounts?: VaultAccount[];
+  /** Account whose address/derivation are mirrored into the legacy fields. */
+  activeAccountId?: string;
 }
 
 /**
@@ -62,7 +84,11 @@ export interface UnlockedSession {
   mnemonic: string;
   mnemonicPassphrase?: string;
   derivation?: KaspaDerivationMeta;
+  /** Address of the active account (kept flat so existing callers keep working). */
   address: string;
   network: string;
   autoLockAt: number; // Unix ms — session expires at this timestamp
+  /** Accounts available under the unlocked mnemonic. */
+  accounts?: VaultAccount[];
+  activeAccountId?: string;
 }
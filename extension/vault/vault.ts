@@ -8,15 +8,25 @@
 //  4. lockWallet() clears the reference and requests GC immediately.
 //  5. changePassword() re-encrypts atomically — old ciphertext is overwritten.
 //  6. resetWallet() wipes all extension storage (full hard reset).
-
-import type { EncryptedVault, EncryptedVaultV2, VaultPayload, UnlockedSession } from "./types";
+//  7. Account list changes (add/rename/remove) re-encrypt the payload and
+//     therefore require the password; switching the active account does not.
+
+import type {
+  EncryptedVault,
+  EncryptedVaultV2,
+  VaultAccount,
+  VaultPayload,
+  UnlockedSession,
+} from "./types";
 import {
   DEFAULT_KASPA_DERIVATION,
+  formatKaspaDerivationPath,
   normalizeKaspaDerivation,
   type KaspaDerivationMeta,
 } from "../../src/wallet/derivation";
 import { deriveKey, deriveKeyArgon2id, randomBytes, DEFAULT_ARGON_PARAMS } from "./kdf";
 import { aesGcmEncrypt, aesGcmDecrypt, hexToBytes, bytesToHex } from "../crypto/aes";
+import { DEFAULT_ACCOUNT_ID, getActiveAccountId, setActiveAccountId } from "../shared/storage";
 
 // Storage keys
 const VAULT_KEY = "forgeos.vault.v1";
@@ -34,8 +44,25 @@ export interface CreateVaultOptions {
   mnemonicPassphrase?: string;
   /** Selected derivation metadata used for address derivation/signing. */
   derivation?: Partial<KaspaDerivationMeta> | null;
+  /**
+   * Full account list to persist (password change, migration, account edits).
+   * When omitted a single primary account is built from address + derivation.
+   */
+  accounts?: VaultAccount[];
+  /** Account mirrored into the legacy address/derivation payload fields. */
+  activeAccountId?: string;
 }
 
+export interface AddVaultAccountInput {
+  /** User-facing label. Defaults to "Account N". */
+  label?: string;
+  /** Receive address derived from the vault mnemonic for `derivation`. */
+  address: string;
+  derivation: Partial<KaspaDerivationMeta>;
+}
+
+const ACCOUNT_LABEL_MAX_LENGTH = 32;
+
 export interface UnlockOptions {
   /**
    * Persist decrypted session in chrome.storage.session so popup reopen does
@@ -77,6 +104,95 @@ function deserializeAutoLockAt(raw: unknown): number | null {
   return raw;
 }
 
+// ── Account helpers ──────────────────────────────────────────────────────────
+
+function normalizeAccountLabel(raw: unknown, fallback: string): string {
+  const label = typeof raw === "string" ? raw.trim().slice(0, ACCOUNT_LABEL_MAX_LENGTH) : "";
+  return label || fallback;
+}
+
+function normalizeVaultAccounts(raw: unknown): VaultAccount[] {
+  if (!Array.isArray(raw)) return [];
+  const out: VaultAccount[] = [];
+  const seenIds = new Set<string>();
+  for (const item of raw) {
+    const v = item as Record<string, unknown> | null;
+    if (!v || typeof v.id !== "string" || !v.id || typeof v.address !== "string" || !v.address) continue;
+    if (seenIds.has(v.id)) continue;
+    seenIds.add(v.id);
+    out.push({
+      id: v.id,
+      label: normalizeAccountLabel(v.label, `Account ${out.length + 1}`),
+      derivation: normalizeKaspaDerivation(v.derivation as Partial<KaspaDerivationMeta>),
+      address: v.address,
+      createdAt: typeof v.createdAt === "number" && Number.isFinite(v.createdAt) ? v.createdAt : 0,
+    });
+  }
+  return out;
+}
+
+function primaryAccount(address: string, derivation: KaspaDerivationMeta, createdAt: number): VaultAccount {
+  return {
+    id: DEFAULT_ACCOUNT_ID,
+    label: "Account 1",
+    derivation,
+    address,
+    createdAt,
+  };
+}
+
+/** Account list stored in a payload; legacy single-address payloads yield one primary account. */
+function accountsFromPayload(payload: VaultPayload): VaultAccount[] {
+  const accounts = normalizeVaultAccounts(payload.accounts);
+  if (accounts.length > 0) return accounts;
+  const derivation = normalizeKaspaDerivation(
+    payload.derivation ?? {
+      path: "m/44'/111'",
+      account: 0,
+      chain: 0,
+      index: typeof payload.addressIndex === "number" ? payload.addressIndex : 0,
+    },
+  );
+  return [primaryAccount(payload.address, derivation, 0)];
+}
+
+function resolveActiveAccount(accounts: VaultAccount[], preferredId?: string | null): VaultAccount {
+  return accounts.find((a) => a.id === preferredId) ?? accounts[0];
+}
+
+function createAccountId(): string {
+  try {
+    return crypto.randomUUID();
+  } catch {
+    return `acct-${bytesToHex(randomBytes(8))}`;
+  }
+}
+
+/**
+ * Suggest the derivation for a new account: the next unused BIP44 account
+ * index on the base path of the first account, receive chain, index 0.
+ */
+export function nextAccountDerivation(accounts: VaultAccount[]): KaspaDerivationMeta {
+  const base = accounts[0]?.derivation ?? DEFAULT_KASPA_DERIVATION;
+  const used = accounts
+    .filter((a) => a.derivation.path === base.path)
+    .map((a) => a.derivation.account);
+  const nextAccount = used.length ? Math.max(...used) + 1 : 0;
+  return normalizeKaspaDerivation({ path: base.path, account: nextAccount, chain: 0, index: 0 });
+}
+
+function sessionFromAccount(
+  base: Omit<UnlockedSession, "address" | "derivation" | "activeAccountId">,
+  account: VaultAccount,
+): UnlockedSession {
+  return {
+    ...base,
+    derivation: account.derivation,
+    address: account.address,
+    activeAccountId: account.id,
+  };
+}
+
 function scheduleOrCancelAutoLock(minutes: number): void {
   try {
     if (!Number.isFinite(minutes) || minutes <= 0) {
@@ -87,6 +203,13 @@ function scheduleOrCancelAutoLock(minutes: number): void {
   } catch { /* popup may be standalone — non-fatal */ }
 }
 
+/** Tell the background so connected sites receive locked / unlocked events. */
+function notifyLockState(locked: boolean): void {
+  try {
+    chrome.runtime.sendMessage({ type: locked ? "FORGEOS_VAULT_LOCKED" : "FORGEOS_VAULT_UNLOCKED" });
+  } catch { /* popup may be standalone — non-fatal */ }
+}
+
 /**
  * Return the active session, or null if locked / expired.
  * Expiry is enforced on every access — there is no background timer inside
@@ -161,6 +284,8 @@ async function writeSessionCache(session: UnlockedSession): Promise<void> {
         address: session.address,
         network: session.network,
         autoLockAt: serializeAutoLockAt(session.autoLockAt),
+        accounts: session.accounts,
+        activeAccountId: session.activeAccountId,
       },
     }, resolve);
   });
@@ -200,16 +325,25 @@ async function readSessionCache(): Promise<UnlockedSession | null> {
         return;
       }
 
+      const derivation = normalizeKaspaDerivation((raw as any).derivation ?? DEFAULT_KASPA_DERIVATION);
+      const cachedAccounts = normalizeVaultAccounts((raw as any).accounts);
+      const accounts = cachedAccounts.length > 0 ? cachedAccounts : [primaryAccount(address, derivation, 0)];
+      const activeAccountId = typeof (raw as any).activeAccountId === "string"
+        ? (raw as any).activeAccountId
+        : accounts[0].id;
+
       resolve({
         mnemonic,
         mnemonicPassphrase:
           typeof (raw as any).mnemonicPassphrase === "string"
             ? (raw as any).mnemonicPassphrase
             : undefined,
-        derivation: normalizeKaspaDerivation((raw as any).derivation ?? DEFAULT_KASPA_DERIVATION),
+        derivation,
         address,
         network,
         autoLockAt,
+        accounts,
+        activeAccountId,
       });
     });
   });
@@ -239,41 +373,34 @@ export async function createVault(
   network: string,
   options: CreateVaultOptions = {},
 ): Promise<void> {
-  // Fresh random salt + IV for every vault write
-  const salt = randomBytes(32);
-  const iv = randomBytes(12);
-
-  const argonParams = DEFAULT_ARGON_PARAMS;
-  const key = await deriveKeyArgon2id(password, salt, argonParams);
-  const derivation = normalizeKaspaDerivation(options.derivation ?? DEFAULT_KASPA_DERIVATION);
+  const providedAccounts = normalizeVaultAccounts(options.accounts);
+  const accounts = providedAccounts.length > 0
+    ? providedAccounts
+    : [
+      primaryAccount(
+        address,
+        normalizeKaspaDerivation(options.derivation ?? DEFAULT_KASPA_DERIVATION),
+        Date.now(),
+      ),
+    ];
+  const active = resolveActiveAccount(accounts, options.activeAccountId);
+  const derivation = active.derivation;
 
   const payload: VaultPayload = {
     version: 1,
     mnemonic,
     mnemonicPassphrase: options.mnemonicPassphrase || undefined,
     derivation,
-    address,
+    address: active.address,
     network: network as VaultPayload["network"],
     // Legacy fields kept for backward compatibility/readability.
     derivationPath: `${derivation.path}/${derivation.account}'`,
     addressIndex: derivation.index,
+    accounts,
+    activeAccountId: active.id,
   };
 
-  const plaintext = new TextEncoder().encode(JSON.stringify(payload));
-  const ciphertext = await aesGcmEncrypt(key, iv, plaintext);
-
-  const vault: EncryptedVaultV2 = {
-    version: 2,
-    kdf: "argon2id",
-    argon: argonParams,
-    salt: bytesToHex(salt),
-    iv: bytesToHex(iv),
-    ciphertext: bytesToHex(ciphertext),
-    createdAt: (await readVault())?.createdAt ?? Date.now(),
-    updatedAt: Date.now(),
-  };
-
-  await writeVault(vault);
+  await writeVault(await sealVaultEnvelope(payload, password, (await readVault())?.createdAt));
 }
 
 /**
@@ -292,9 +419,95 @@ export async function unlockVault(
   autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES,
   options: UnlockOptions = {},
 ): Promise<UnlockedSession> {
+  const { vault, payload } = await decryptVaultPayload(password);
+
+  const accounts = accountsFromPayload(payload);
+  const preferredId = await getActiveAccountId().catch(() => payload.activeAccountId ?? null);
+  const active = resolveActiveAccount(accounts, preferredId);
+
+  _session = sessionFromAccount(
+    {
+      mnemonic: payload.mnemonic,
+      mnemonicPassphrase:
+        typeof payload.mnemonicPassphrase === "string" ? payload.mnemonicPassphrase : undefined,
+      network: payload.network,
+      autoLockAt: resolveAutoLockAt(autoLockMinutes),
+      accounts,
+    },
+    active,
+  );
+
+  scheduleOrCancelAutoLock(autoLockMinutes);
+  notifyLockState(false);
+  if (options.persistSession) await writeSessionCache(_session);
+  else await clearSessionCache();
+
+  // D4: Transparent v1 → v2 migration — re-encrypt with Argon2id on first successful v1 unlock
+  if (vault.version !== 2) {
+    createVault(
+      payload.mnemonic,
+      password,
+      payload.address,
+      payload.network,
+      {
+        mnemonicPassphrase: payload.mnemonicPassphrase,
+        derivation: payload.derivation,
+        accounts,
+        activeAccountId: payload.activeAccountId,
+      },
+    ).catch(() => {/* non-fatal — will retry on next unlock */});
+  }
+
+  return _session;
+}
+
+/**
+ * Read and decrypt the stored vault payload without touching the session.
+ * Throws "NO_VAULT" / "INVALID_PASSWORD" exactly like unlockVault().
+ */
+export async function decryptVaultPayload(
+  password: string,
+): Promise<{ vault: EncryptedVault; payload: VaultPayload }> {
   const vault = await readVault();
   if (!vault) throw new Error("NO_VAULT");
+  return { vault, payload: await openVaultEnvelope<VaultPayload>(vault, password) };
+}
 
+/**
+ * Encrypt a JSON value into a V2 envelope: Argon2id-derived key, AES-256-GCM,
+ * fresh random salt + IV on every call. Used for the stored vault and for
+ * backup files (vault/backup.ts).
+ */
+export async function sealVaultEnvelope(
+  value: unknown,
+  password: string,
+  createdAt: number = Date.now(),
+): Promise<EncryptedVaultV2> {
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+
+  const argonParams = DEFAULT_ARGON_PARAMS;
+  const key = await deriveKeyArgon2id(password, salt, argonParams);
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await aesGcmEncrypt(key, iv, plaintext);
+
+  return {
+    version: 2,
+    kdf: "argon2id",
+    argon: argonParams,
+    salt: bytesToHex(salt),
+    iv: bytesToHex(iv),
+    ciphertext: bytesToHex(ciphertext),
+    createdAt,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Decrypt a V1 or V2 envelope back into its JSON value.
+ * Throws "INVALID_PASSWORD" when the auth tag does not verify.
+ */
+export async function openVaultEnvelope<T>(vault: EncryptedVault, password: string): Promise<T> {
   const salt = hexToBytes(vault.salt);
   const iv = hexToBytes(vault.iv);
   const ciphertext = hexToBytes(vault.ciphertext);
@@ -316,44 +529,35 @@ export async function unlockVault(
     throw new Error("INVALID_PASSWORD");
   }
 
-  const payload: VaultPayload = JSON.parse(new TextDecoder().decode(plaintext));
-
-  _session = {
-    mnemonic: payload.mnemonic,
-    mnemonicPassphrase:
-      typeof payload.mnemonicPassphrase === "string" ? payload.mnemonicPassphrase : undefined,
-    derivation: normalizeKaspaDerivation(
-      payload.derivation ?? {
-        path: "m/44'/111'",
-        account: 0,
-        chain: 0,
-        index: typeof payload.addressIndex === "number" ? payload.addressIndex : 0,
-      },
-    ),
-    address: payload.address,
-    network: payload.network,
-    autoLockAt: resolveAutoLockAt(autoLockMinutes),
-  };
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
 
-  scheduleOrCancelAutoLock(autoLockMinutes);
-  if (options.persistSession) await writeSessionCache(_session);
-  else await clearSessionCache();
+/**
+ * Re-encrypt the vault with an edited account list and mirror the result into
+ * the live session (if unlocked). Returns the persisted account list.
+ */
+async function rewriteVaultAccounts(
+  password: string,
+  edit: (accounts: VaultAccount[], payload: VaultPayload) => VaultAccount[],
+): Promise<VaultAccount[]> {
+  const { payload } = await decryptVaultPayload(password);
+  const accounts = edit(accountsFromPayload(payload), payload);
+  if (accounts.length === 0) throw new Error("ACCOUNT_REQUIRED");
+
+  const activeId = _session?.activeAccountId ?? payload.activeAccountId;
+  const active = resolveActiveAccount(accounts, activeId);
+  await createVault(payload.mnemonic, password, active.address, payload.network, {
+    mnemonicPassphrase: payload.mnemonicPassphrase,
+    accounts,
+    activeAccountId: active.id,
+  });
 
-  // D4: Transparent v1 → v2 migration — re-encrypt with Argon2id on first successful v1 unlock
-  if (vault.version !== 2) {
-    createVault(
-      payload.mnemonic,
-      password,
-      payload.address,
-      payload.network,
-      {
-        mnemonicPassphrase: payload.mnemonicPassphrase,
-        derivation: payload.derivation,
-      },
-    ).catch(() => {/* non-fatal — will retry on next unlock */});
+  if (_session) {
+    _session = sessionFromAccount({ ..._session, accounts }, active);
+    if (active.id !== activeId) _cachedPrivKey = null;
+    if (await readSessionCache()) await writeSessionCache(_session);
   }
-
-  return _session;
+  return accounts;
 }
 
 /**
@@ -375,6 +579,7 @@ export async function restoreSessionFromCache(): Promise<UnlockedSession | null>
   } else {
     scheduleOrCancelAutoLock(NEVER_AUTO_LOCK_SENTINEL);
   }
+  notifyLockState(false);
 
   return _session;
 }
@@ -402,6 +607,7 @@ export function lockWallet(): void {
   try {
     chrome.runtime.sendMessage({ type: "CANCEL_AUTOLOCK" });
   } catch { /* non-fatal */ }
+  notifyLockState(true);
 }
 
 /**
@@ -425,6 +631,8 @@ export async function changePassword(
   await createVault(session.mnemonic, newPassword, session.address, session.network, {
     mnemonicPassphrase: session.mnemonicPassphrase,
     derivation: session.derivation,
+    accounts: session.accounts,
+    activeAccountId: session.activeAccountId,
   });
 
   // Re-establish session (unlock with new password so the session is fresh)
@@ -457,3 +665,93 @@ export function extendSession(
     if (options.persistSession) void writeSessionCache(_session);
   }
 }
+
+// ── Accounts ─────────────────────────────────────────────────────────────────
+
+/** Accounts held by the unlocked vault (empty when locked). */
+export function getVaultAccounts(): VaultAccount[] {
+  return getSession()?.accounts ?? [];
+}
+
+/**
+ * Make another vault account active. The mnemonic is already in memory, so no
+ * password is needed; the selection is persisted outside the vault blob.
+ *
+ * Throws "WALLET_LOCKED" when locked, "ACCOUNT_NOT_FOUND" for an unknown id.
+ */
+export async function switchVaultAccount(
+  accountId: string,
+  options: UnlockOptions = {},
+): Promise<UnlockedSession> {
+  const current = getSession();
+  if (!current) throw new Error("WALLET_LOCKED");
+  const account = (current.accounts ?? []).find((a) => a.id === accountId);
+  if (!account) throw new Error("ACCOUNT_NOT_FOUND");
+
+  _session = sessionFromAccount(current, account);
+  _cachedPrivKey = null;
+  await setActiveAccountId(account.id);
+  if (options.persistSession) await writeSessionCache(_session);
+  return _session;
+}
+
+/**
+ * Add an account derived from the vault mnemonic and re-encrypt the vault.
+ * The new account is not activated automatically.
+ *
+ * Throws "INVALID_PASSWORD" if the password is wrong and "ACCOUNT_EXISTS" when
+ * the derivation path or address is already present.
+ */
+export async function addVaultAccount(
+  password: string,
+  input: AddVaultAccountInput,
+): Promise<VaultAccount> {
+  const derivation = normalizeKaspaDerivation(input.derivation);
+  let added: VaultAccount | null = null;
+  await rewriteVaultAccounts(password, (accounts) => {
+    const path = formatKaspaDerivationPath(derivation);
+    const duplicate = accounts.some((a) =>
+      formatKaspaDerivationPath(a.derivation) === path
+      || a.address.toLowerCase() === input.address.toLowerCase(),
+    );
+    if (duplicate) throw new Error("ACCOUNT_EXISTS");
+    added = {
+      id: createAccountId(),
+      label: normalizeAccountLabel(input.label, `Account ${accounts.length + 1}`),
+      derivation,
+      address: input.address,
+      createdAt: Date.now(),
+    };
+    return [...accounts, added];
+  });
+  return added!;
+}
+
+/** Rename a vault account. Throws "ACCOUNT_NOT_FOUND" for an unknown id. */
+export async function renameVaultAccount(
+  password: string,
+  accountId: string,
+  label: string,
+): Promise<void> {
+  await rewriteVaultAccounts(password, (accounts) => {
+    const idx = accounts.findIndex((a) => a.id === accountId);
+    if (idx < 0) throw new Error("ACCOUNT_NOT_FOUND");
+    const next = [...accounts];
+    next[idx] = { ...next[idx], label: normalizeAccountLabel(label, next[idx].label) };
+    return next;
+  });
+}
+
+/**
+ * Remove an account from the vault. The last remaining account cannot be
+ * removed ("ACCOUNT_REQUIRED"). Removing the active account activates the first
+ * remaining one.
+ */
+export async function removeVaultAccount(password: string, accountId: string): Promise<void> {
+  const accounts = await rewriteVaultAccounts(password, (list) => {
+    if (!list.some((a) => a.id === accountId)) throw new Error("ACCOUNT_NOT_FOUND");
+    return list.filter((a) => a.id !== accountId);
+  });
+  if (_session?.activeAccountId) await setActiveAccountId(_session.activeAccountId);
+  else await setActiveAccountId(accounts[0].id);
+}
@@ -1,13 +1,29 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import process from "node:process";
-import { runQuantBacktest, type QuantBacktestConfig } from "../src/backtest/harness";
+import { runOverlayComparison, runQuantBacktest, type QuantBacktestConfig } from "../src/backtest/harness";
+import { runMonteCarloRobustness } from "../src/backtest/monteCarlo";
+import { optimizedStrategyTemplate, runWalkForwardOptimization, type OptimizerConfig } from "../src/backtest/optimizer";
+import { parseTimestamp } from "../src/quant/marketData";
+import { createMarketDataStore } from "../src/quant/marketDataStore";
+import type { TimeframeKey } from "../src/quant/multiTimeframe";
+import { createFileMarketBackend, DEFAULT_MARKET_DATA_DIR } from "./lib/marketDataFileBackend";
 
 type CliArgs = {
   inputPath?: string;
   outputPath?: string;
   pretty: boolean;
   includeGeneratedAt: boolean;
+  optimize: boolean;
+  monteCarlo: boolean;
+  compareOverlay: boolean;
+  overlayRecordsPath?: string;
+  exportTemplatePath?: string;
+  series?: string;
+  dataDir: string;
+  timeframe?: TimeframeKey;
+  from?: number;
+  to?: number;
   help: boolean;
 };
 
@@ -16,15 +32,35 @@ function usage() {
     "Usage:",
     "  npm run backtest:quant -- --input ./data/backtest.json [--output ./out/result.json] [--pretty] [--include-generated-at]",
     "  cat ./data/backtest.json | npm run backtest:quant -- --pretty [--include-generated-at]",
+    "  npm run backtest:quant -- --monte-carlo --input ./data/backtest.json [--pretty]",
+    "  npm run backtest:quant -- --optimize --input ./data/backtest.json [--export-template ./out/template.json]",
+    "  npm run backtest:quant -- --input ./data/agent.json --series kas-usd [--timeframe 1h] [--from 2024-01-01] [--to 2024-06-30]",
+    "  npm run backtest:quant -- --compare-overlay --input ./data/backtest.json [--overlay-records ./data/decisions.json]",
     "",
     "Input JSON shape:",
-    '  { "agent": {...}, "snapshots": [...], "config": { "initialCashUsd": 10000, "feeBps": 8, "slippageBps": 6, "warmupSamples": 24, "maxLookback": 240 } }',
+    '  { "agent": {...}, "snapshots": [...], "config": { "initialCashUsd": 10000, "feeBps": 8, "slippageBps": 6, "warmupSamples": 24, "maxLookback": 240, "execution": { "accumulateOnly": true, "confidenceFloor": 0.75 }, "agentRules": false } }',
     "",
     "Notes:",
     "  - --input is optional; when omitted, stdin is used.",
     "  - --output is optional; when omitted, result JSON is printed to stdout.",
     "  - Output is deterministic by default for a fixed payload.",
     "  - Pass --include-generated-at to include wall-clock metadata.",
+    "  - Trades are gated like the live dashboard: config.execution's accumulate-only switch and confidence",
+    "    threshold plus the agent's risk ceiling. config.agentRules also enforces the agent's stopLossPct,",
+    "    takeProfitPct, minConfidence, maxDailyActions, cooldownCycles and actionMode, which the dashboard does",
+    "    not apply yet; with it, an agent without actionMode is accumulate-only and never sells.",
+    "  - --optimize runs a walk-forward parameter search instead of a single backtest. Optional payload fields:",
+    '    "template": "trend" (STRATEGY_TEMPLATES id) and "optimizer": { "method": "random" | "grid", "samples": 24, "seed": 1,',
+    '    "space": { "stopLossPct": [3, 5], ... }, "objective": "sharpe" | "calmar", "trainMonths": 6, "testMonths": 2,',
+    '    "overfitPenalty": 0.5, "minTrades": 3 }. --export-template writes the winner as a strategy template.',
+    '  - --monte-carlo adds a robustness report (trade bootstrap + block-resampled returns). Optional payload field:',
+    '    "monteCarlo": { "paths": 500, "blockSize": 20, "seed": 1, "ruinLossUsd": 250, "fanPoints": 40 }.',
+    `  - --series replaces the payload's snapshots with a series imported via market:data (--data-dir, default`,
+    `    ${DEFAULT_MARKET_DATA_DIR}); --timeframe resamples it (1h, 4h, 24h) and --from/--to bound it.`,
+    '  - config.overlay replays the AI overlay through the guarded fusion: { "source": "stub", "stub": { "action": "echo" | "invert",',
+    '    "confidence": 0.7 } } or { "source": "recorded", "records": [...] }, plus optional "mode": "always" | "adaptive".',
+    "    --overlay-records loads recorded dashboard decisions (an array or { decisions: [...] }) as the recorded source.",
+    "    --compare-overlay runs quant-core-only and fused backtests on the same data and reports the delta.",
   ].join("\n");
 }
 
@@ -32,8 +68,17 @@ function parseArgs(argv: string[]): CliArgs {
   const out: CliArgs = {
     pretty: false,
     includeGeneratedAt: false,
+    optimize: false,
+    monteCarlo: false,
+    compareOverlay: false,
+    dataDir: DEFAULT_MARKET_DATA_DIR,
     help: false,
   };
+  const timestamp = (raw: string, flag: string) => {
+    const ts = parseTimestamp(raw);
+    if (ts === undefined) throw new Error(`${flag} is not a timestamp: ${raw}`);
+    return ts;
+  };
   for (let i = 0; i < argv.length; i += 1) {
     const arg = String(argv[i] || "").trim();
     if (!arg) continue;
@@ -49,6 +94,56 @@ function parseArgs(argv: string[]): CliArgs {
       out.includeGeneratedAt = true;
       continue;
     }
+    if (arg === "--monte-carlo") {
+      out.monteCarlo = true;
+      continue;
+    }
+    if (arg === "--compare-overlay") {
+      out.compareOverlay = true;
+      continue;
+    }
+    if (arg === "--overlay-records") {
+      out.overlayRecordsPath = String(argv[i + 1] || "").trim();
+      i += 1;
+      continue;
+    }
+    if (arg === "--optimize") {
+      out.optimize = true;
+      continue;
+    }
+    if (arg === "--export-template") {
+      out.exportTemplatePath = String(argv[i + 1] || "").trim();
+      i += 1;
+      continue;
+    }
+    if (arg.startsWith("--export-template=")) {
+      out.exportTemplatePath = arg.slice("--export-template=".length).trim();
+      continue;
+    }
+    if (arg === "--series") {
+      out.series = String(argv[i + 1] || "").trim();
+      i += 1;
+      continue;
+    }
+    if (arg === "--data-dir") {
+      out.dataDir = String(argv[i + 1] || "").trim();
+      i += 1;
+      continue;
+    }
+    if (arg === "--timeframe") {
+      const timeframe = String(argv[i + 1] || "").trim();
+      if (!["1h", "4h", "24h"].includes(timeframe)) throw new Error("--timeframe must be one of 1h, 4h, 24h.");
+      out.timeframe = timeframe as TimeframeKey;
+      i += 1;
+      continue;
+    }
+    if (arg === "--from" || arg === "--to") {
+      const ts = timestamp(String(argv[i + 1] || "").trim(), arg);
+      if (arg === "--from") out.from = ts;
+      else out.to = ts;
+      i += 1;
+      continue;
+    }
     if (arg === "--input" || arg === "-i") {
       out.inputPath = String(argv[i + 1] || "").trim();
       i += 1;
@@ -103,9 +198,40 @@ function asBacktestConfig(payload: any): QuantBacktestConfig {
     slippageBps: cfg.slippageBps,
     warmupSamples: cfg.warmupSamples,
     maxLookback: cfg.maxLookback,
+    execution: cfg.execution && typeof cfg.execution === "object" ? cfg.execution : undefined,
+    agentRules: cfg.agentRules === true,
+    overlay: cfg.overlay && typeof cfg.overlay === "object" ? cfg.overlay : undefined,
   };
 }
 
+function asOptimizerConfig(payload: any): OptimizerConfig {
+  const { agent, snapshots, ...backtest } = asBacktestConfig(payload);
+  const opt = payload?.optimizer && typeof payload.optimizer === "object" ? payload.optimizer : {};
+  return {
+    agent,
+    template: payload?.template,
+    snapshots,
+    space: opt.space && typeof opt.space === "object" ? opt.space : undefined,
+    method: opt.method,
+    samples: opt.samples,
+    seed: opt.seed,
+    maxCandidates: opt.maxCandidates,
+    objective: opt.objective,
+    trainMonths: opt.trainMonths,
+    testMonths: opt.testMonths,
+    overfitPenalty: opt.overfitPenalty,
+    minTrades: opt.minTrades,
+    backtest,
+  };
+}
+
+async function writeJsonFile(filePath: string, json: string) {
+  const absOut = path.resolve(filePath);
+  await fs.mkdir(path.dirname(absOut), { recursive: true });
+  await fs.writeFile(absOut, `${json}\n`, "utf8");
+  return absOut;
+}
+
 async function main() {
   const args = parseArgs(process.argv.slice(2));
   if (args.help) {
@@ -113,25 +239,66 @@ async function main() {
     return;
   }
 
+  if (args.exportTemplatePath && !args.optimize) {
+    throw new Error("--export-template requires --optimize.");
+  }
+  if (args.monteCarlo && args.optimize) {
+    throw new Error("--monte-carlo and --optimize cannot be combined.");
+  }
+  if (args.compareOverlay && (args.optimize || args.monteCarlo)) {
+    throw new Error("--compare-overlay cannot be combined with --optimize or --monte-carlo.");
+  }
+
+  if (!args.series && (args.timeframe || args.from !== undefined || args.to !== undefined)) {
+    throw new Error("--timeframe, --from and --to require --series.");
+  }
+
   const payload = await readInputJson(args);
+  if (args.series) {
+    const store = createMarketDataStore(createFileMarketBackend(args.dataDir));
+    payload.snapshots = await store.query({ series: args.series, timeframe: args.timeframe, fromTs: args.from, toTs: args.to });
+    if (payload.snapshots.length === 0) throw new Error(`No snapshots in series ${args.series} (${path.resolve(args.dataDir)}).`);
+  }
   const config = asBacktestConfig(payload);
-  const result = runQuantBacktest(config);
-  const outputBase = {
-    inputMeta: {
-      snapshots: Array.isArray(config.snapshots) ? config.snapshots.length : 0,
-      hasAgent: Boolean(config.agent),
-    },
-    result,
+  if (args.overlayRecordsPath) {
+    const recorded = JSON.parse(await fs.readFile(args.overlayRecordsPath, "utf8"));
+    const records = Array.isArray(recorded) ? recorded : Array.isArray(recorded?.decisions) ? recorded.decisions : [];
+    config.overlay = { ...(config.overlay || {}), source: "recorded", records };
+  }
+  if (args.compareOverlay && !config.overlay) {
+    throw new Error("--compare-overlay needs config.overlay in the payload or --overlay-records.");
+  }
+  const inputMeta = {
+    snapshots: Array.isArray(config.snapshots) ? config.snapshots.length : 0,
+    hasAgent: Boolean(config.agent),
   };
+  let outputBase: Record<string, any>;
+  if (args.optimize) {
+    const optimization = runWalkForwardOptimization(asOptimizerConfig(payload));
+    const template = optimizedStrategyTemplate(optimization);
+    if (args.exportTemplatePath) {
+      const absTemplate = await writeJsonFile(args.exportTemplatePath, JSON.stringify(template, null, 2));
+      process.stderr.write(`Wrote optimized template -> ${absTemplate}\n`);
+    }
+    outputBase = { inputMeta, optimization, template };
+  } else if (args.compareOverlay) {
+    outputBase = { inputMeta, comparison: runOverlayComparison({ ...config, overlay: config.overlay! }) };
+  } else {
+    const result = runQuantBacktest(config);
+    outputBase = { inputMeta, result };
+    if (args.monteCarlo) {
+      const mc = payload?.monteCarlo && typeof payload.monteCarlo === "object" ? payload.monteCarlo : {};
+      const [first] = [...config.snapshots].sort((a, b) => Number(a?.ts) - Number(b?.ts));
+      outputBase.robustness = runMonteCarloRobustness(result, config.agent, { ...mc, firstPriceUsd: first?.priceUsd });
+    }
+  }
   const output = args.includeGeneratedAt
     ? { generatedAt: new Date().toISOString(), ...outputBase }
     : outputBase;
 
   const json = JSON.stringify(output, null, args.pretty ? 2 : 0);
   if (args.outputPath) {
-    const absOut = path.resolve(args.outputPath);
-    await fs.mkdir(path.dirname(absOut), { recursive: true });
-    await fs.writeFile(absOut, `${json}\n`, "utf8");
+    const absOut = await writeJsonFile(args.outputPath, json);
     process.stdout.write(`Wrote backtest result -> ${absOut}\n`);
     return;
   }
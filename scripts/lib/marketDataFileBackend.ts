@@ -0,0 +1,73 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { MarketBar } from "../../src/quant/marketData";
+import type { MarketDataBackend, MarketSeriesInfo } from "../../src/quant/marketDataStore";
+
+/** Where the CLIs keep imported series unless --data-dir says otherwise. */
+export const DEFAULT_MARKET_DATA_DIR = "data/market";
+
+/**
+ * MarketDataBackend for the CLIs: one `<series>.json` file per series holding
+ * the bars sorted by timestamp. Series names are already normalised by the
+ * store, so they are safe as file names.
+ */
+export function createFileMarketBackend(dir = DEFAULT_MARKET_DATA_DIR): MarketDataBackend {
+  const root = path.resolve(dir);
+  const fileFor = (series: string) => path.join(root, `${series}.json`);
+
+  const readSeries = async (series: string): Promise<MarketBar[]> => {
+    try {
+      const rows = JSON.parse(await fs.readFile(fileFor(series), "utf8"));
+      return Array.isArray(rows) ? rows : [];
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return [];
+      throw new Error(`MARKET_DATA_PARSE_ERROR: ${fileFor(series)}: ${err?.message || err}`);
+    }
+  };
+
+  const writeSeries = async (series: string, rows: MarketBar[]) => {
+    await fs.mkdir(root, { recursive: true });
+    // Write-then-rename so an interrupted import never truncates a series.
+    const tmp = `${fileFor(series)}.tmp`;
+    await fs.writeFile(tmp, `${JSON.stringify(rows)}\n`, "utf8");
+    await fs.rename(tmp, fileFor(series));
+  };
+
+  return {
+    async range(series, fromTs, toTs, limit) {
+      const rows = (await readSeries(series)).filter((bar) => bar.ts >= fromTs && bar.ts <= toTs);
+      return limit ? rows.slice(-limit) : rows;
+    },
+    async put(series, bars) {
+      const byTs = new Map<number, MarketBar>();
+      for (const bar of await readSeries(series)) byTs.set(bar.ts, bar);
+      for (const bar of bars) byTs.set(bar.ts, bar);
+      await writeSeries(series, [...byTs.values()].sort((a, b) => a.ts - b.ts));
+    },
+    async remove(series, fromTs, toTs) {
+      const rows = await readSeries(series);
+      const kept = rows.filter((bar) => bar.ts < fromTs || bar.ts > toTs);
+      if (kept.length !== rows.length) await writeSeries(series, kept);
+    },
+    async listSeries() {
+      let names: string[];
+      try {
+        names = (await fs.readdir(root)).filter((name) => name.endsWith(".json"));
+      } catch (err: any) {
+        if (err?.code === "ENOENT") return [];
+        throw err;
+      }
+      const out: MarketSeriesInfo[] = [];
+      for (const name of names.sort()) {
+        const series = name.slice(0, -".json".length);
+        const rows = await readSeries(series);
+        if (rows.length === 0) continue;
+        out.push({ series, count: rows.length, firstTs: rows[0].ts, lastTs: rows[rows.length - 1].ts });
+      }
+      return out;
+    },
+    async clear(series) {
+      await fs.rm(fileFor(series), { force: true });
+    },
+  };
+}
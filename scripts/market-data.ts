@@ -0,0 +1,161 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import { parseTimestamp, type MarketDataFormat } from "../src/quant/marketData";
+import { createMarketDataStore, DEFAULT_MARKET_SERIES } from "../src/quant/marketDataStore";
+import type { TimeframeKey } from "../src/quant/multiTimeframe";
+import { createFileMarketBackend, DEFAULT_MARKET_DATA_DIR } from "./lib/marketDataFileBackend";
+
+type Command = "import" | "list" | "query" | "clear";
+
+type CliArgs = {
+  command?: Command;
+  files: string[];
+  series: string;
+  dataDir: string;
+  format?: MarketDataFormat;
+  timeframe?: TimeframeKey;
+  from?: number;
+  to?: number;
+  limit?: number;
+  outputPath?: string;
+  pretty: boolean;
+  help: boolean;
+};
+
+const COMMANDS: Command[] = ["import", "list", "query", "clear"];
+const TIMEFRAMES: TimeframeKey[] = ["1h", "4h", "24h"];
+
+function usage() {
+  return [
+    "Usage:",
+    "  npm run market:data -- import ./exports/kas-usd-1h.csv [more files...] [--series kas-usd] [--format csv|json]",
+    "  npm run market:data -- list",
+    "  npm run market:data -- query [--series kas-usd] [--timeframe 1h|4h|24h] [--from 2024-01-01] [--to 2024-06-30] [--limit 500] [--output ./out/snapshots.json] [--pretty]",
+    "  npm run market:data -- clear --series kas-usd",
+    "",
+    "Notes:",
+    `  - Series are stored as JSON files under --data-dir (default ${DEFAULT_MARKET_DATA_DIR}).`,
+    "  - Imports accept CSV (timestamp + price/close columns, optional open/high/low/volume/daaScore/walletKas),",
+    "    JSON arrays of snapshots, { snapshots: [...] } payloads and exchange kline arrays.",
+    "  - Rows are merged by timestamp; a later import overwrites the fields it carries.",
+    "  - --from/--to accept epoch seconds, epoch ms or ISO dates.",
+    "  - query prints { snapshots: [...] }, which backtest:quant accepts via --series as well.",
+  ].join("\n");
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const out: CliArgs = { files: [], series: DEFAULT_MARKET_SERIES, dataDir: DEFAULT_MARKET_DATA_DIR, pretty: false, help: false };
+  const value = (i: number, flag: string) => {
+    const next = String(argv[i + 1] || "").trim();
+    if (!next) throw new Error(`${flag} requires a value.`);
+    return next;
+  };
+  const timestamp = (raw: string, flag: string) => {
+    const ts = parseTimestamp(raw);
+    if (ts === undefined) throw new Error(`${flag} is not a timestamp: ${raw}`);
+    return ts;
+  };
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = String(argv[i] || "").trim();
+    if (!arg) continue;
+    if (arg === "--help" || arg === "-h") {
+      out.help = true;
+    } else if (arg === "--pretty") {
+      out.pretty = true;
+    } else if (arg === "--series") {
+      out.series = value(i, arg);
+      i += 1;
+    } else if (arg === "--data-dir") {
+      out.dataDir = value(i, arg);
+      i += 1;
+    } else if (arg === "--format") {
+      const format = value(i, arg);
+      if (format !== "csv" && format !== "json") throw new Error(`--format must be csv or json, got ${format}.`);
+      out.format = format;
+      i += 1;
+    } else if (arg === "--timeframe") {
+      const timeframe = value(i, arg) as TimeframeKey;
+      if (!TIMEFRAMES.includes(timeframe)) throw new Error(`--timeframe must be one of ${TIMEFRAMES.join(", ")}.`);
+      out.timeframe = timeframe;
+      i += 1;
+    } else if (arg === "--from") {
+      out.from = timestamp(value(i, arg), arg);
+      i += 1;
+    } else if (arg === "--to") {
+      out.to = timestamp(value(i, arg), arg);
+      i += 1;
+    } else if (arg === "--limit") {
+      out.limit = Number(value(i, arg));
+      i += 1;
+    } else if (arg === "--output" || arg === "-o") {
+      out.outputPath = value(i, arg);
+      i += 1;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown argument: ${arg}`);
+    } else if (!out.command) {
+      if (!COMMANDS.includes(arg as Command)) throw new Error(`Unknown command: ${arg}`);
+      out.command = arg as Command;
+    } else {
+      out.files.push(arg);
+    }
+  }
+  return out;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help || !args.command) {
+    process.stdout.write(`${usage()}\n`);
+    return;
+  }
+  const store = createMarketDataStore(createFileMarketBackend(args.dataDir));
+
+  if (args.command === "import") {
+    if (args.files.length === 0) throw new Error("import needs at least one file.");
+    for (const file of args.files) {
+      const text = await fs.readFile(file, "utf8");
+      const format = args.format ?? (/\.json$/i.test(file) ? "json" : /\.(csv|tsv|txt)$/i.test(file) ? "csv" : undefined);
+      const { imported, total } = await store.importText(text, { series: args.series, format });
+      process.stdout.write(`Imported ${imported} rows from ${file} into ${args.series} (${total} total)\n`);
+    }
+    return;
+  }
+  if (args.command === "list") {
+    const series = await store.listSeries();
+    if (series.length === 0) process.stdout.write(`No series in ${path.resolve(args.dataDir)}\n`);
+    for (const s of series) {
+      process.stdout.write(`${s.series}\t${s.count} rows\t${new Date(s.firstTs).toISOString()} → ${new Date(s.lastTs).toISOString()}\n`);
+    }
+    return;
+  }
+  if (args.command === "clear") {
+    await store.clear(args.series);
+    process.stdout.write(`Cleared ${args.series}\n`);
+    return;
+  }
+
+  const snapshots = await store.query({
+    series: args.series,
+    fromTs: args.from,
+    toTs: args.to,
+    timeframe: args.timeframe,
+    limit: args.limit,
+  });
+  const json = JSON.stringify({ series: args.series, timeframe: args.timeframe ?? null, snapshots }, null, args.pretty ? 2 : 0);
+  if (args.outputPath) {
+    const absOut = path.resolve(args.outputPath);
+    await fs.mkdir(path.dirname(absOut), { recursive: true });
+    await fs.writeFile(absOut, `${json}\n`, "utf8");
+    process.stdout.write(`Wrote ${snapshots.length} snapshots -> ${absOut}\n`);
+    return;
+  }
+  process.stdout.write(`${json}\n`);
+}
+
+main().catch((err: any) => {
+  const message = String(err?.message || err || "market_data_cli_failed");
+  process.stderr.write(`market:data failed: ${message}\n`);
+  process.stderr.write(`${usage()}\n`);
+  process.exitCode = 1;
+});
@@ -46,6 +46,11 @@ const metricsState = {
   lastErrorAt: 0,
 };
 let statusSnapshotCache = { value: null, expiresAt: 0 };
+// Multisig co-signer relay: txId -> [{ kind, text, postedAt }], in memory only.
+const MULTISIG_RELAY_MAX_TXS = 200;
+const MULTISIG_RELAY_MAX_ENTRIES = 32;
+const MULTISIG_RELAY_MAX_TEXT = 64 * 1024;
+const multisigRelay = new Map();
 let statusSnapshotInFlight = null;
 
 function json(res, status, body) {
@@ -259,6 +264,23 @@ function resolveDataDirForRequest(body) {
   return localNodeDataDirOverride || DEFAULT_DATA_DIR;
 }
 
+function handleMultisigRelayPost(body, res) {
+  const txId = String(body?.txId || "").trim();
+  const kind = body?.kind === "request" || body?.kind === "partial" ? body.kind : "";
+  const text = typeof body?.text === "string" ? body.text : "";
+  if (!txId || txId.length > 128 || !kind || !text || text.length > MULTISIG_RELAY_MAX_TEXT) {
+    json(res, 400, { ok: false, error: "MULTISIG_RELAY_INVALID" });
+    return;
+  }
+  if (!multisigRelay.has(txId) && multisigRelay.size >= MULTISIG_RELAY_MAX_TXS) {
+    multisigRelay.delete(multisigRelay.keys().next().value);
+  }
+  const entries = (multisigRelay.get(txId) || []).filter((entry) => entry.text !== text);
+  entries.push({ kind, text, postedAt: Date.now() });
+  multisigRelay.set(txId, entries.slice(-MULTISIG_RELAY_MAX_ENTRIES));
+  json(res, 200, { ok: true });
+}
+
 async function handleNodeStart(body, res) {
   const profile = normalizeNetworkProfile(body?.networkProfile || localNodeProfile);
   const dataDir = resolveDataDirForRequest(body);
@@ -385,6 +407,18 @@ const server = http.createServer(async (req, res) => {
       return;
     }
 
+    if (req.method === "GET" && url.pathname === "/multisig/relay") {
+      const txId = String(url.searchParams.get("txId") || "").trim();
+      json(res, 200, { ok: true, entries: multisigRelay.get(txId) || [] });
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/multisig/relay") {
+      const body = await parseBody(req);
+      handleMultisigRelayPost(body, res);
+      return;
+    }
+
     if (req.method === "POST" && url.pathname === "/node/start") {
       const body = await parseBody(req);
       await handleNodeStart(body, res);
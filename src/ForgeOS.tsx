@@ -13,6 +13,7 @@ import { SignInModal } from "./components/SignInModal";
 import { ForgeOSConnectModal } from "./components/ForgeOSConnectModal";
 import { loadSession, clearSession, type ForgeSession } from "./auth/siwa";
 import { WalletAdapter } from "./wallet/WalletAdapter";
+import { canWalletSign } from "./wallet/watchOnly";
 
 const FORGE_AGENTS_KEY = "forgeos.session.agents.v2";
 const FORGE_ACTIVE_KEY = "forgeos.session.activeAgent.v2";
@@ -288,7 +289,7 @@ export default function ForgeOS() {
               );
             })}
             <div style={{ display: "flex", alignItems: "center", gap: 6, padding: "5px 12px", border: `1px solid ${C.border}`, borderRadius: 4 }}>
-              <div style={{ width: 6, height: 6, borderRadius: "50%", background: wallet?.provider === "demo" ? C.warn : C.ok }} />
+              <div style={{ width: 6, height: 6, borderRadius: "50%", background: canWalletSign(wallet) ? C.ok : C.warn }} />
               <span style={{ fontSize: 10, color: C.dim, letterSpacing: "0.08em", ...mono }}>{shortAddr(wallet?.address)}</span>
             </div>
             <Btn onClick={handleDisconnect} variant="ghost" size="sm">DISCONNECT</Btn>
@@ -5,15 +5,35 @@
  */
 
 import type { QuantSnapshot } from '../../quant/quantCore';
+import type { TimeframeKey } from '../../quant/multiTimeframe';
+import { DEFAULT_MARKET_SERIES, getMarketDataStore, type MarketDataStore } from '../../quant/marketDataStore';
 
 /**
- * Load historical data from localStorage or generate demo data
+ * Load historical data from the market data store, the legacy localStorage
+ * cache, or generate demo data
  */
 export async function loadHistoricalData(
   startDate?: Date,
-  endDate?: Date
+  endDate?: Date,
+  options: { series?: string; timeframe?: TimeframeKey; store?: MarketDataStore } = {}
 ): Promise<QuantSnapshot[]> {
-  // Try to load from localStorage first
+  // Imported datasets take precedence
+  try {
+    const stored = await (options.store ?? getMarketDataStore()).query({
+      series: options.series ?? DEFAULT_MARKET_SERIES,
+      fromTs: startDate?.getTime(),
+      toTs: endDate?.getTime(),
+      timeframe: options.timeframe,
+    });
+    if (stored.length > 0) {
+      console.log(`📦 Loaded ${stored.length} data points from the market data store`);
+      return stored;
+    }
+  } catch (e) {
+    console.error('Failed to query the market data store:', e);
+  }
+
+  // Then the legacy localStorage cache
   const cached = loadFromCache();
   if (cached && cached.length > 0) {
     console.log(`📦 Loaded ${cached.length} data points from cache`);
@@ -168,16 +188,21 @@ export function trainTestSplit(
 
 /**
  * Walk-forward split (for realistic backtesting)
+ *
+ * `pointsPerMonth` defaults to hourly data; pass `quiet` to skip the log line
+ * (e.g. when stdout carries JSON).
  */
 export function walkForwardSplit(
   data: QuantSnapshot[],
   trainMonths: number = 6,
-  testMonths: number = 2
+  testMonths: number = 2,
+  options: { pointsPerMonth?: number; quiet?: boolean } = {}
 ): Array<{ train: QuantSnapshot[], test: QuantSnapshot[] }> {
   const splits: Array<{ train: QuantSnapshot[], test: QuantSnapshot[] }> = [];
 
-  const trainPoints = trainMonths * 30 * 24; // Hourly data
-  const testPoints = testMonths * 30 * 24;
+  const pointsPerMonth = options.pointsPerMonth ?? 30 * 24; // Hourly data
+  const trainPoints = Math.round(trainMonths * pointsPerMonth);
+  const testPoints = Math.max(1, Math.round(testMonths * pointsPerMonth));
   const stepSize = testPoints; // Roll forward by test period
 
   for (let i = 0; i + trainPoints + testPoints < data.length; i += stepSize) {
@@ -187,6 +212,6 @@ export function walkForwardSplit(
     });
   }
 
-  console.log(`📊 Created ${splits.length} walk-forward splits`);
+  if (!options.quiet) console.log(`📊 Created ${splits.length} walk-forward splits`);
   return splits;
 }
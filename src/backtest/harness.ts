@@ -1,5 +1,17 @@
 import { buildQuantCoreDecision, type QuantSnapshot } from "../quant/quantCore";
 import { clamp, maxDrawdownPct, mean, stddev } from "../quant/math";
+import {
+  createExecutionGateState,
+  gateAgentDecision,
+  positionExitTrigger,
+  recordExecutionCycle,
+  resolveAgentExecutionRules,
+  resolveDashboardExecutionRules,
+  type AgentExecutionRules,
+  type ExecutionGate,
+  type ExecutionRuleOverrides,
+} from "../quant/executionRules";
+import { createOverlayReplay, type OverlayReplayConfig, type OverlayReplayStats } from "./overlayReplay";
 
 export type BacktestTrade = {
   ts: number;
@@ -21,14 +33,33 @@ export type BacktestEquityPoint = {
   positionKas: number;
 };
 
+/** A snapshot may carry the bar's range; otherwise it spans the previous and current price. */
+export type BacktestSnapshot = QuantSnapshot & {
+  lowUsd?: number;
+  highUsd?: number;
+};
+
 export type QuantBacktestConfig = {
   agent: any;
-  snapshots: QuantSnapshot[];
+  snapshots: BacktestSnapshot[];
   initialCashUsd?: number;
   feeBps?: number;
   slippageBps?: number;
   warmupSamples?: number;
   maxLookback?: number;
+  /** Deployment-wide gates the dashboard applies (accumulate-only switch, confidence threshold). */
+  execution?: ExecutionRuleOverrides;
+  /**
+   * Also enforce the wizard's rules — stop / take-profit exits, confidence
+   * floor, daily cap, cooldown, action mode and cycle frequency — which the
+   * live dashboard does not apply yet. Off by default, so a backtest gates
+   * like the dashboard and decides on every snapshot.
+   * When on, an agent without an actionMode is accumulate-only: REDUCE and
+   * REBALANCE hold and nothing is ever sold.
+   */
+  agentRules?: boolean;
+  /** Run each decision through the guarded AI overlay fusion with a replayed overlay. */
+  overlay?: OverlayReplayConfig;
 };
 
 export type QuantBacktestResult = {
@@ -43,16 +74,47 @@ export type QuantBacktestResult = {
   closedTrades: number;
   avgWinUsd: number;
   avgLossUsd: number;
+  /** Snapshots the agent decided on (all of them unless agentRules sets a frequency). */
+  agentCycles: number;
+  /** Rules the run was gated with (dashboard gates, plus the agent's when agentRules is set). */
+  rules: AgentExecutionRules;
+  /** Non-HOLD decisions that did not execute, by the gate that stopped them. */
+  blockedByGate: Record<ExecutionGate, number>;
+  stopLossExits: number;
+  takeProfitExits: number;
+  /** Overlay replay counters; null for quant-core-only runs. */
+  overlay: OverlayReplayStats | null;
   trades: BacktestTrade[];
   equityCurve: BacktestEquityPoint[];
 };
 
+export type OverlayComparison = {
+  quantOnly: QuantBacktestResult;
+  fused: QuantBacktestResult;
+  /** fused minus quantOnly. */
+  delta: {
+    totalReturnPct: number;
+    sharpeRatio: number;
+    maxDrawdownPct: number;
+    winRatePct: number;
+    totalTrades: number;
+  };
+};
+
 const n = (value: any, fallback = 0) => {
   const out = Number(value);
   return Number.isFinite(out) ? out : fallback;
 };
 
-function normalizeSnapshots(raw: QuantSnapshot[]) {
+const FREQUENCY_UNIT_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+/** Agent cycle interval from the wizard frequency ("15m", "1h", "4h"…); 0 = every snapshot. */
+export function frequencyToMs(frequency: any) {
+  const match = /^(\d+(?:\.\d+)?)\s*([mhd])$/i.exec(String(frequency || "").trim());
+  return match ? Number(match[1]) * FREQUENCY_UNIT_MS[match[2].toLowerCase()] : 0;
+}
+
+function normalizeSnapshots(raw: BacktestSnapshot[]) {
   const rows = Array.isArray(raw) ? [...raw] : [];
   rows.sort((a, b) => n(a?.ts, 0) - n(b?.ts, 0));
   return rows.filter((row) => n(row?.ts, 0) > 0 && n(row?.priceUsd, 0) > 0);
@@ -95,6 +157,17 @@ export function runQuantBacktest(config: QuantBacktestConfig): QuantBacktestResu
   const warmupSamples = Math.max(6, Math.round(n(config.warmupSamples, 24)));
   const maxLookback = Math.max(warmupSamples, Math.round(n(config.maxLookback, 240)));
 
+  const rules = config.agentRules
+    ? resolveAgentExecutionRules(config.agent, config.execution)
+    : resolveDashboardExecutionRules(config.agent, config.execution);
+  // The dashboard cycles on its own timer; the wizard frequency is an agent rule.
+  const cycleIntervalMs = config.agentRules ? frequencyToMs(config.agent?.frequency) : 0;
+  const overlay = config.overlay ? createOverlayReplay(config.agent, config.overlay) : null;
+  let gateState = createExecutionGateState();
+  const blockedByGate: Record<ExecutionGate, number> = { action_mode: 0, risk: 0, confidence: 0, daily_cap: 0, cooldown: 0 };
+  let stopLossExits = 0;
+  let takeProfitExits = 0;
+
   let cashUsd = initialCashUsd;
   let positionKas = 0;
   let positionCostUsd = 0;
@@ -102,76 +175,118 @@ export function runQuantBacktest(config: QuantBacktestConfig): QuantBacktestResu
   const closedPnls: number[] = [];
   const equityCurve: BacktestEquityPoint[] = [];
 
+  const buy = (ts: number, priceUsd: number, requestedKas: number, meta: Pick<BacktestTrade, "action" | "regime" | "confidence">) => {
+    const buyPrice = priceUsd * (1 + slippageRate);
+    const affordableKas = buyPrice > 0 ? cashUsd / (buyPrice * (1 + feeRate)) : 0;
+    const qtyKas = Math.max(0, Math.min(requestedKas, affordableKas));
+    if (!(qtyKas > 0)) return false;
+    const notionalUsd = qtyKas * buyPrice;
+    const feeUsd = notionalUsd * feeRate;
+    const totalCostUsd = notionalUsd + feeUsd;
+    cashUsd = Math.max(0, cashUsd - totalCostUsd);
+    positionKas += qtyKas;
+    positionCostUsd += totalCostUsd;
+    trades.push({
+      ts,
+      side: "buy",
+      qtyKas: Number(qtyKas.toFixed(8)),
+      priceUsd: Number(buyPrice.toFixed(8)),
+      notionalUsd: Number(notionalUsd.toFixed(8)),
+      feeUsd: Number(feeUsd.toFixed(8)),
+      ...meta,
+    });
+    return true;
+  };
+
+  const sell = (ts: number, priceUsd: number, requestedKas: number, meta: Pick<BacktestTrade, "action" | "regime" | "confidence">) => {
+    const sellPrice = priceUsd * (1 - slippageRate);
+    const qtyKas = Math.max(0, Math.min(positionKas, requestedKas));
+    if (!(qtyKas > 0)) return false;
+    const notionalUsd = qtyKas * sellPrice;
+    const feeUsd = notionalUsd * feeRate;
+    const proceedsUsd = Math.max(0, notionalUsd - feeUsd);
+    const positionKasBefore = Math.max(positionKas, 0.00000001);
+    const realizedCostBasisUsd = positionCostUsd * (qtyKas / positionKasBefore);
+    const realizedPnlUsd = proceedsUsd - realizedCostBasisUsd;
+    cashUsd += proceedsUsd;
+    positionKas = Math.max(0, positionKas - qtyKas);
+    positionCostUsd = positionKas > 0 ? Math.max(0, positionCostUsd - realizedCostBasisUsd) : 0;
+    closedPnls.push(realizedPnlUsd);
+    trades.push({
+      ts,
+      side: "sell",
+      qtyKas: Number(qtyKas.toFixed(8)),
+      priceUsd: Number(sellPrice.toFixed(8)),
+      notionalUsd: Number(notionalUsd.toFixed(8)),
+      feeUsd: Number(feeUsd.toFixed(8)),
+      ...meta,
+      realizedPnlUsd: Number(realizedPnlUsd.toFixed(8)),
+    });
+    return true;
+  };
+
+  let lastCycleTs: number | null = null;
+  let agentCycles = 0;
+  let bar: { lowUsd: number; highUsd: number } | null = null;
   for (let i = warmupSamples; i < snapshots.length; i += 1) {
     const current = snapshots[i];
     const priceUsd = n(current?.priceUsd, 0);
     if (!(priceUsd > 0)) continue;
+    const ts = n(current?.ts, Date.now());
+    let executed = false;
 
-    const historyStart = Math.max(0, i - maxLookback);
-    const history = snapshots.slice(historyStart, i);
-    const decision = buildQuantCoreDecision(config.agent, current, {
-      history,
-      now: n(current?.ts, Date.now()),
-    });
-    const action = String(decision?.action || "HOLD").toUpperCase();
-    const regime = String(decision?.quant_metrics?.regime || "NEUTRAL");
-    const confidence = clamp(n(decision?.confidence_score, 0), 0, 1);
-    const requestedKas = Math.max(0, n(decision?.capital_allocation_kas, 0));
-
-    if (action === "ACCUMULATE" && requestedKas > 0) {
-      const buyPrice = priceUsd * (1 + slippageRate);
-      const affordableKas = buyPrice > 0 ? cashUsd / (buyPrice * (1 + feeRate)) : 0;
-      const qtyKas = Math.max(0, Math.min(requestedKas, affordableKas));
-      if (qtyKas > 0) {
-        const notionalUsd = qtyKas * buyPrice;
-        const feeUsd = notionalUsd * feeRate;
-        const totalCostUsd = notionalUsd + feeUsd;
-        cashUsd = Math.max(0, cashUsd - totalCostUsd);
-        positionKas += qtyKas;
-        positionCostUsd += totalCostUsd;
-        trades.push({
-          ts: n(current?.ts, Date.now()),
-          side: "buy",
-          qtyKas: Number(qtyKas.toFixed(8)),
-          priceUsd: Number(buyPrice.toFixed(8)),
-          notionalUsd: Number(notionalUsd.toFixed(8)),
-          feeUsd: Number(feeUsd.toFixed(8)),
-          action,
-          regime,
-          confidence: Number(confidence.toFixed(4)),
-        });
-      }
-    } else if (action === "REDUCE" && positionKas > 0) {
-      const sellPrice = priceUsd * (1 - slippageRate);
-      const qtyKas = Math.max(0, Math.min(positionKas, requestedKas > 0 ? requestedKas : positionKas * 0.25));
-      if (qtyKas > 0) {
-        const notionalUsd = qtyKas * sellPrice;
-        const feeUsd = notionalUsd * feeRate;
-        const proceedsUsd = Math.max(0, notionalUsd - feeUsd);
-        const positionKasBefore = Math.max(positionKas, 0.00000001);
-        const realizedCostBasisUsd = positionCostUsd * (qtyKas / positionKasBefore);
-        const realizedPnlUsd = proceedsUsd - realizedCostBasisUsd;
-        cashUsd += proceedsUsd;
-        positionKas = Math.max(0, positionKas - qtyKas);
-        positionCostUsd = Math.max(0, positionCostUsd - realizedCostBasisUsd);
-        closedPnls.push(realizedPnlUsd);
-        trades.push({
-          ts: n(current?.ts, Date.now()),
-          side: "sell",
-          qtyKas: Number(qtyKas.toFixed(8)),
-          priceUsd: Number(sellPrice.toFixed(8)),
-          notionalUsd: Number(notionalUsd.toFixed(8)),
-          feeUsd: Number(feeUsd.toFixed(8)),
-          action,
-          regime,
-          confidence: Number(confidence.toFixed(4)),
-          realizedPnlUsd: Number(realizedPnlUsd.toFixed(8)),
-        });
+    // Price range since the last agent cycle (one bar when the agent runs every snapshot).
+    const prevPrice = n(snapshots[i - 1]?.priceUsd, priceUsd);
+    bar = {
+      lowUsd: Math.min(bar?.lowUsd ?? Infinity, n(current?.lowUsd, Math.min(prevPrice, priceUsd))),
+      highUsd: Math.max(bar?.highUsd ?? -Infinity, n(current?.highUsd, Math.max(prevPrice, priceUsd))),
+    };
+    const cycleDue = lastCycleTs === null || ts - lastCycleTs >= cycleIntervalMs;
+
+    // Intrabar stop / take-profit on the open position (full mode only —
+    // accumulate-only agents never sell).
+    const exit = cycleDue && rules.actionMode === "full" && positionKas > 0
+      ? positionExitTrigger(positionCostUsd / positionKas, bar, rules)
+      : null;
+
+    if (!cycleDue) {
+      // Between agent cycles: mark to market only.
+    } else if (exit) {
+      executed = sell(ts, exit.priceUsd, positionKas, {
+        action: exit.kind === "stop_loss" ? "STOP_LOSS" : "TAKE_PROFIT",
+        regime: "EXIT",
+        confidence: 1,
+      });
+      if (exit.kind === "stop_loss") stopLossExits += 1;
+      else takeProfitExits += 1;
+    } else {
+      const historyStart = Math.max(0, i - maxLookback);
+      const history = snapshots.slice(historyStart, i);
+      const coreDecision = buildQuantCoreDecision(config.agent, current, { history, now: ts });
+      const decision = overlay ? overlay.decide(coreDecision, ts) : coreDecision;
+      const gate = gateAgentDecision(decision, rules, gateState, ts);
+      const regime = String(decision?.quant_metrics?.regime || "NEUTRAL");
+      const confidence = clamp(n(decision?.confidence_score, 0), 0, 1);
+      const requestedKas = Math.max(0, n(decision?.capital_allocation_kas, 0));
+      const meta = { action: gate.action, regime, confidence: Number(confidence.toFixed(4)) };
+
+      if (gate.gate) blockedByGate[gate.gate] += 1;
+      if (gate.allowed && (gate.action === "ACCUMULATE" || gate.action === "REBALANCE") && requestedKas > 0) {
+        // REBALANCE routes KAS into the accumulation vault like ACCUMULATE on the dashboard.
+        executed = buy(ts, priceUsd, requestedKas, meta);
+      } else if (gate.allowed && gate.action === "REDUCE" && positionKas > 0) {
+        executed = sell(ts, priceUsd, requestedKas > 0 ? requestedKas : positionKas * 0.25, meta);
       }
     }
+    if (cycleDue) {
+      agentCycles += 1;
+      gateState = recordExecutionCycle(gateState, executed, ts);
+      lastCycleTs = ts;
+      bar = null;
+    }
 
     equityCurve.push({
-      ts: n(current?.ts, Date.now()),
+      ts,
       equityUsd: Number((cashUsd + positionKas * priceUsd).toFixed(8)),
       cashUsd: Number(cashUsd.toFixed(8)),
       positionKas: Number(positionKas.toFixed(8)),
@@ -201,8 +316,32 @@ export function runQuantBacktest(config: QuantBacktestConfig): QuantBacktestResu
     closedTrades: closedPnls.length,
     avgWinUsd: Number((wins.length ? mean(wins) : 0).toFixed(6)),
     avgLossUsd: Number((losses.length ? mean(losses) : 0).toFixed(6)),
+    agentCycles,
+    rules,
+    blockedByGate,
+    stopLossExits,
+    takeProfitExits,
+    overlay: overlay ? overlay.stats() : null,
     trades,
     equityCurve,
   };
 }
 
+/** Backtest the same data quant-core-only and through the replayed overlay fusion. */
+export function runOverlayComparison(config: QuantBacktestConfig & { overlay: OverlayReplayConfig }): OverlayComparison {
+  const quantOnly = runQuantBacktest({ ...config, overlay: undefined });
+  const fused = runQuantBacktest(config);
+  const diff = (key: keyof OverlayComparison["delta"], digits = 4) => Number((fused[key] - quantOnly[key]).toFixed(digits));
+  return {
+    quantOnly,
+    fused,
+    delta: {
+      totalReturnPct: diff("totalReturnPct"),
+      sharpeRatio: diff("sharpeRatio"),
+      maxDrawdownPct: diff("maxDrawdownPct"),
+      winRatePct: diff("winRatePct", 2),
+      totalTrades: diff("totalTrades", 0),
+    },
+  };
+}
+
@@ -0,0 +1,230 @@
+import { expectedShortfall, maxDrawdownPct, mean, percentileSorted, seededRandom, valueAtRisk } from "../quant/math";
+import type { QuantBacktestResult } from "./harness";
+
+// Monte Carlo robustness for a finished backtest. Two resamplings of the one
+// realised path:
+//   - trade bootstrap: closed-trade P&Ls drawn with replacement, so both the
+//     order and the mix of wins and losses vary;
+//   - block bootstrap: per-snapshot equity returns resampled in contiguous
+//     blocks, keeping short-range autocorrelation (regimes, streaks).
+// Each yields distributions of final equity, max drawdown and time to recover
+// from drawdowns, plus the probability of losing the agent's capital limit.
+
+export type MonteCarloConfig = {
+  /** Simulated paths per method (default 500). */
+  paths?: number;
+  /** Snapshots per block for the block bootstrap (default 20). */
+  blockSize?: number;
+  seed?: number;
+  /** Loss that counts as ruin, in USD; defaults to the agent's capitalLimit (KAS) at the first price. */
+  ruinLossUsd?: number;
+  /** Points per fan chart (default 40). */
+  fanPoints?: number;
+};
+
+export type DistributionSummary = {
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+};
+
+export type FanPoint = {
+  step: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+};
+
+export type MonteCarloPathSet = {
+  method: "trade_bootstrap" | "block_bootstrap";
+  paths: number;
+  /** Steps per path: trades for the trade bootstrap, snapshots for the block bootstrap. */
+  steps: number;
+  finalEquityUsd: DistributionSummary;
+  maxDrawdownPct: DistributionSummary;
+  /** Longest peak-to-recovery stretch, in trades or hours (see recoveryUnit). */
+  timeToRecovery: DistributionSummary;
+  recoveryUnit: "trades" | "hours";
+  /** Paths still below their peak at the end. */
+  unrecoveredPct: number;
+  probabilityOfRuinPct: number;
+  /** Loss of the final return at 95%, from the VaR/ES helpers. */
+  var95Pct: number;
+  es95Pct: number;
+  fan: FanPoint[];
+};
+
+export type MonteCarloReport = {
+  initialEquityUsd: number;
+  ruinLossUsd: number;
+  /** Null when the backtest closed fewer than two trades (e.g. accumulate-only). */
+  tradeBootstrap: MonteCarloPathSet | null;
+  blockBootstrap: MonteCarloPathSet | null;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const n = (value: any, fallback = 0) => {
+  const out = Number(value);
+  return Number.isFinite(out) ? out : fallback;
+};
+
+function summarize(values: number[], digits = 4): DistributionSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (p: number) => Number(percentileSorted(sorted, p).toFixed(digits));
+  return {
+    mean: Number((sorted.length ? mean(sorted) : 0).toFixed(digits)),
+    p5: at(0.05),
+    p25: at(0.25),
+    p50: at(0.5),
+    p75: at(0.75),
+    p95: at(0.95),
+  };
+}
+
+/** Longest run of steps spent below a prior peak, and whether the path ends below it. */
+function longestUnderwater(equity: number[]) {
+  let peak = -Infinity;
+  let start = -1;
+  let longest = 0;
+  for (let i = 0; i < equity.length; i += 1) {
+    if (equity[i] >= peak) {
+      if (start >= 0) longest = Math.max(longest, i - start);
+      peak = equity[i];
+      start = -1;
+    } else if (start < 0) {
+      start = i - 1;
+    }
+  }
+  const unrecovered = start >= 0;
+  if (unrecovered) longest = Math.max(longest, equity.length - 1 - start);
+  return { longest, unrecovered };
+}
+
+function simulate(
+  method: MonteCarloPathSet["method"],
+  pathCount: number,
+  initialEquityUsd: number,
+  ruinLossUsd: number,
+  fanPoints: number,
+  stepScale: number,
+  buildPath: () => number[],
+): MonteCarloPathSet {
+  const paths: number[][] = [];
+  const finals: number[] = [];
+  const drawdowns: number[] = [];
+  const recoveries: number[] = [];
+  const finalReturns: number[] = [];
+  let unrecovered = 0;
+  let ruined = 0;
+
+  for (let p = 0; p < pathCount; p += 1) {
+    const path = buildPath();
+    const final = path[path.length - 1];
+    const underwater = longestUnderwater(path);
+    paths.push(path);
+    finals.push(final);
+    drawdowns.push(maxDrawdownPct(path) * 100);
+    recoveries.push(underwater.longest * stepScale);
+    finalReturns.push(final / initialEquityUsd - 1);
+    if (underwater.unrecovered) unrecovered += 1;
+    if (path.some((equity) => equity <= initialEquityUsd - ruinLossUsd)) ruined += 1;
+  }
+
+  // VaR/ES report losses; a 5% tail that is still a gain carries none.
+  const tailLoss = percentileSorted([...finalReturns].sort((a, b) => a - b), 0.05) < 0;
+  const steps = paths[0].length - 1;
+  const fan: FanPoint[] = [];
+  const stride = Math.max(1, Math.ceil(steps / Math.max(1, fanPoints - 1)));
+  const fanSteps: number[] = [];
+  for (let step = 0; step < steps; step += stride) fanSteps.push(step);
+  fanSteps.push(steps);
+  for (const step of fanSteps) {
+    const band = summarize(paths.map((path) => path[step]), 2);
+    fan.push({ step, p5: band.p5, p25: band.p25, p50: band.p50, p75: band.p75, p95: band.p95 });
+  }
+
+  return {
+    method,
+    paths: pathCount,
+    steps,
+    finalEquityUsd: summarize(finals, 2),
+    maxDrawdownPct: summarize(drawdowns),
+    timeToRecovery: summarize(recoveries, 2),
+    recoveryUnit: method === "trade_bootstrap" ? "trades" : "hours",
+    unrecoveredPct: Number(((unrecovered / pathCount) * 100).toFixed(2)),
+    probabilityOfRuinPct: Number(((ruined / pathCount) * 100).toFixed(2)),
+    var95Pct: tailLoss ? Number((valueAtRisk(finalReturns, 0.95) * 100).toFixed(4)) : 0,
+    es95Pct: tailLoss ? Number((expectedShortfall(finalReturns, 0.95) * 100).toFixed(4)) : 0,
+    fan,
+  };
+}
+
+/**
+ * Resample a backtest's trades and equity returns. `agent` supplies the
+ * capital limit for probability of ruin; `firstPriceUsd` converts it to USD
+ * (defaults to the first trade's price).
+ */
+export function runMonteCarloRobustness(
+  result: QuantBacktestResult,
+  agent: any,
+  config: MonteCarloConfig & { firstPriceUsd?: number } = {},
+): MonteCarloReport {
+  const pathCount = Math.max(1, Math.round(n(config.paths, 500)));
+  const blockSize = Math.max(1, Math.round(n(config.blockSize, 20)));
+  const fanPoints = Math.max(2, Math.round(n(config.fanPoints, 40)));
+  const random = seededRandom(Math.round(n(config.seed, 1)));
+  const initialEquityUsd = n(result.initialCashUsd, 0);
+  const firstPriceUsd = n(config.firstPriceUsd, n(result.trades[0]?.priceUsd, 0));
+  const capitalLimitUsd = Math.max(0, n(agent?.capitalLimit, 0)) * firstPriceUsd;
+  const ruinLossUsd = n(config.ruinLossUsd, capitalLimitUsd > 0 ? capitalLimitUsd : initialEquityUsd);
+
+  const pnls = result.trades
+    .map((trade) => trade.realizedPnlUsd)
+    .filter((pnl): pnl is number => Number.isFinite(pnl));
+  const tradeBootstrap = pnls.length < 2
+    ? null
+    : simulate("trade_bootstrap", pathCount, initialEquityUsd, ruinLossUsd, fanPoints, 1, () => {
+      const path = [initialEquityUsd];
+      for (let i = 0; i < pnls.length; i += 1) {
+        path.push(path[i] + pnls[Math.floor(random() * pnls.length)]);
+      }
+      return path;
+    });
+
+  const curve = result.equityCurve;
+  const returns: number[] = [];
+  const stepsMs: number[] = [];
+  for (let i = 1; i < curve.length; i += 1) {
+    const prev = n(curve[i - 1]?.equityUsd);
+    if (prev > 0) returns.push(n(curve[i]?.equityUsd) / prev - 1);
+    const dt = n(curve[i]?.ts) - n(curve[i - 1]?.ts);
+    if (dt > 0) stepsMs.push(dt);
+  }
+  const stepHours = stepsMs.length ? mean(stepsMs) / HOUR_MS : 1;
+  const block = Math.min(blockSize, returns.length);
+  const blockBootstrap = returns.length < 2
+    ? null
+    : simulate("block_bootstrap", pathCount, initialEquityUsd, ruinLossUsd, fanPoints, stepHours, () => {
+      const path = [initialEquityUsd];
+      while (path.length <= returns.length) {
+        const start = Math.floor(random() * (returns.length - block + 1));
+        for (let k = 0; k < block && path.length <= returns.length; k += 1) {
+          path.push(path[path.length - 1] * (1 + returns[start + k]));
+        }
+      }
+      return path;
+    });
+
+  return {
+    initialEquityUsd,
+    ruinLossUsd: Number(ruinLossUsd.toFixed(2)),
+    tradeBootstrap,
+    blockBootstrap,
+  };
+}
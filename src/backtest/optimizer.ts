@@ -0,0 +1,276 @@
+import { walkForwardSplit } from "../ai/rl/dataLoader";
+import { DEFS, STRATEGY_TEMPLATES } from "../components/wizard/constants";
+import { mean, seededRandom, stddev } from "../quant/math";
+import { runQuantBacktest, type BacktestSnapshot, type QuantBacktestConfig, type QuantBacktestResult } from "./harness";
+
+// Walk-forward parameter search over agent settings. Every candidate runs on
+// each train window (in-sample) and the test window that follows it
+// (out-of-sample); candidates rank by mean out-of-sample objective minus
+// penalties for in/out-of-sample decay, fold-to-fold dispersion and too few
+// trades. The winner can be exported in the STRATEGY_TEMPLATES shape.
+// Candidates differ in wizard rules, so their backtests enforce them
+// (agentRules) unless config.backtest turns that off.
+
+export type OptimizerParam =
+  | "risk"
+  | "stopLossPct"
+  | "takeProfitPct"
+  | "minConfidence"
+  | "maxDailyActions"
+  | "cooldownCycles"
+  | "frequency"
+  | "actionMode";
+
+export type OptimizerParameterSpace = Partial<Record<OptimizerParam, Array<string | number>>>;
+
+export type OptimizerObjective = "sharpe" | "calmar";
+
+export type OptimizerConfig = {
+  /** Agent fields not under search; merged over the base template's defaults. */
+  agent?: any;
+  /** STRATEGY_TEMPLATES id the search starts from (default: agent.strategyTemplate or "dca_accumulator"). */
+  template?: string;
+  snapshots: BacktestSnapshot[];
+  space?: OptimizerParameterSpace;
+  method?: "grid" | "random";
+  /** Random search draws (default 24). */
+  samples?: number;
+  seed?: number;
+  /** Grid searches larger than this throw OPTIMIZER_GRID_TOO_LARGE (default 256). */
+  maxCandidates?: number;
+  objective?: OptimizerObjective;
+  trainMonths?: number;
+  testMonths?: number;
+  /** Score lost per unit of in-sample minus out-of-sample objective (default 0.5). */
+  overfitPenalty?: number;
+  /** Mean out-of-sample trades per fold below which the score is discounted (default 3). */
+  minTrades?: number;
+  backtest?: Omit<QuantBacktestConfig, "agent" | "snapshots">;
+};
+
+export type OptimizerFold = {
+  testStartTs: number;
+  testEndTs: number;
+  inSample: number;
+  outOfSample: number;
+  outOfSampleTrades: number;
+  outOfSampleReturnPct: number;
+  outOfSampleMaxDrawdownPct: number;
+};
+
+export type OptimizerCandidate = {
+  rank: number;
+  params: Record<string, string | number>;
+  score: number;
+  inSample: number;
+  outOfSample: number;
+  outOfSampleStd: number;
+  overfitGap: number;
+  outOfSampleTrades: number;
+  folds: OptimizerFold[];
+};
+
+export type OptimizerResult = {
+  method: "grid" | "random";
+  objective: OptimizerObjective;
+  template: string;
+  folds: number;
+  candidatesEvaluated: number;
+  best: OptimizerCandidate;
+  ranked: OptimizerCandidate[];
+};
+
+export const DEFAULT_OPTIMIZER_SPACE: OptimizerParameterSpace = {
+  risk: ["low", "medium", "high"],
+  stopLossPct: [3, 4, 5, 6],
+  takeProfitPct: [8, 12, 16],
+  minConfidence: [50, 55, 60, 65],
+  frequency: ["15m", "1h", "4h"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const n = (value: any, fallback = 0) => {
+  const out = Number(value);
+  return Number.isFinite(out) ? out : fallback;
+};
+
+function spaceEntries(space: OptimizerParameterSpace) {
+  return Object.entries(space).filter(([, values]) => Array.isArray(values) && values.length > 0) as Array<
+    [OptimizerParam, Array<string | number>]
+  >;
+}
+
+function gridCandidates(space: OptimizerParameterSpace, maxCandidates: number) {
+  const entries = spaceEntries(space);
+  const size = entries.reduce((product, [, values]) => product * values.length, 1);
+  if (size > maxCandidates) {
+    throw new Error(`OPTIMIZER_GRID_TOO_LARGE: ${size} combinations exceed ${maxCandidates}; narrow the space or use method "random".`);
+  }
+  let out: Array<Record<string, string | number>> = [{}];
+  for (const [key, values] of entries) {
+    out = out.flatMap((params) => values.map((value) => ({ ...params, [key]: value })));
+  }
+  return out;
+}
+
+function randomCandidates(space: OptimizerParameterSpace, samples: number, seed: number) {
+  const entries = spaceEntries(space);
+  const random = seededRandom(seed);
+  const seen = new Set<string>();
+  const out: Array<Record<string, string | number>> = [];
+  // Small spaces can hold fewer distinct candidates than requested draws.
+  for (let attempt = 0; out.length < samples && attempt < samples * 20; attempt += 1) {
+    const params = Object.fromEntries(entries.map(([key, values]) => [key, values[Math.floor(random() * values.length)]]));
+    const key = JSON.stringify(params);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(params);
+  }
+  return out;
+}
+
+function objectiveValue(result: QuantBacktestResult, objective: OptimizerObjective) {
+  if (objective === "calmar") {
+    // Return over max drawdown for the window (not annualised — windows are short).
+    return result.totalReturnPct / Math.max(result.maxDrawdownPct, 0.5);
+  }
+  return result.sharpeRatio;
+}
+
+function inferPointsPerMonth(snapshots: BacktestSnapshot[]) {
+  const gaps: number[] = [];
+  for (let i = 1; i < snapshots.length; i += 1) {
+    const dt = n(snapshots[i]?.ts) - n(snapshots[i - 1]?.ts);
+    if (dt > 0) gaps.push(dt);
+  }
+  gaps.sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)] || 60 * 60 * 1000;
+  return (30 * DAY_MS) / median;
+}
+
+export function resolveOptimizerBaseAgent(config: Pick<OptimizerConfig, "agent" | "template">) {
+  const templateId = String(config.template || config.agent?.strategyTemplate || "dca_accumulator");
+  const template = STRATEGY_TEMPLATES.find((tpl) => tpl.id === templateId);
+  if (!template) throw new Error(`OPTIMIZER_UNKNOWN_TEMPLATE: ${templateId}`);
+  return {
+    template,
+    agent: { ...DEFS, ...template.defaults, strategyTemplate: template.id, strategyLabel: template.name, ...(config.agent || {}) },
+  };
+}
+
+export function runWalkForwardOptimization(config: OptimizerConfig): OptimizerResult {
+  const snapshots = [...(config.snapshots || [])].sort((a, b) => n(a?.ts) - n(b?.ts));
+  const { template, agent: baseAgent } = resolveOptimizerBaseAgent(config);
+  const method = config.method === "grid" ? "grid" : "random";
+  const objective: OptimizerObjective = config.objective === "calmar" ? "calmar" : "sharpe";
+  const overfitPenalty = Math.max(0, n(config.overfitPenalty, 0.5));
+  const minTrades = Math.max(0, n(config.minTrades, 3));
+  const backtest = { agentRules: true, ...config.backtest };
+  const maxLookback = Math.max(6, Math.round(n(backtest.maxLookback, 240)));
+
+  const splits = walkForwardSplit(snapshots, n(config.trainMonths, 6), n(config.testMonths, 2), {
+    pointsPerMonth: inferPointsPerMonth(snapshots),
+    quiet: true,
+  }).filter((split) => split.train.length >= 12 && split.test.length >= 1);
+  if (splits.length === 0) {
+    throw new Error("OPTIMIZER_DATA_INSUFFICIENT: no walk-forward window fits the snapshots; shorten trainMonths/testMonths.");
+  }
+
+  const space = config.space || DEFAULT_OPTIMIZER_SPACE;
+  const candidates = method === "grid"
+    ? gridCandidates(space, Math.max(1, n(config.maxCandidates, 256)))
+    : randomCandidates(space, Math.max(1, Math.round(n(config.samples, 24))), Math.round(n(config.seed, 1)));
+
+  const evaluated = candidates.map((params) => {
+    const agent = { ...baseAgent, ...params };
+    const folds: OptimizerFold[] = splits.map(({ train, test }) => {
+      const inSample = runQuantBacktest({ ...backtest, agent, snapshots: train });
+      // The test run decides only on test bars, with the train tail as lookback.
+      const lookback = train.slice(-maxLookback);
+      const outOfSample = runQuantBacktest({
+        ...backtest,
+        agent,
+        snapshots: [...lookback, ...test],
+        warmupSamples: lookback.length,
+        maxLookback,
+      });
+      return {
+        testStartTs: n(test[0]?.ts),
+        testEndTs: n(test[test.length - 1]?.ts),
+        inSample: Number(objectiveValue(inSample, objective).toFixed(4)),
+        outOfSample: Number(objectiveValue(outOfSample, objective).toFixed(4)),
+        outOfSampleTrades: outOfSample.totalTrades,
+        outOfSampleReturnPct: outOfSample.totalReturnPct,
+        outOfSampleMaxDrawdownPct: outOfSample.maxDrawdownPct,
+      };
+    });
+    const isMean = mean(folds.map((f) => f.inSample));
+    const oosValues = folds.map((f) => f.outOfSample);
+    const oosMean = mean(oosValues);
+    const oosStd = oosValues.length > 1 ? stddev(oosValues) : 0;
+    const overfitGap = Math.max(0, isMean - oosMean);
+    const trades = mean(folds.map((f) => f.outOfSampleTrades));
+    const tradeShortfall = minTrades > 0 ? Math.max(0, minTrades - trades) / minTrades : 0;
+    const score = oosMean - overfitPenalty * overfitGap - 0.5 * oosStd - tradeShortfall * Math.max(1, Math.abs(oosMean));
+    return {
+      rank: 0,
+      params,
+      score: Number(score.toFixed(4)),
+      inSample: Number(isMean.toFixed(4)),
+      outOfSample: Number(oosMean.toFixed(4)),
+      outOfSampleStd: Number(oosStd.toFixed(4)),
+      overfitGap: Number(overfitGap.toFixed(4)),
+      outOfSampleTrades: Number(trades.toFixed(2)),
+      folds,
+    };
+  });
+
+  const ranked = evaluated
+    .sort((a, b) => b.score - a.score || b.outOfSample - a.outOfSample)
+    .map((candidate, i) => ({ ...candidate, rank: i + 1 }));
+
+  return {
+    method,
+    objective,
+    template: template.id,
+    folds: splits.length,
+    candidatesEvaluated: ranked.length,
+    best: ranked[0],
+    ranked,
+  };
+}
+
+const TEMPLATE_DEFAULT_FORMAT: Partial<Record<OptimizerParam, (value: any) => string>> = {
+  stopLossPct: (v) => n(v).toFixed(1),
+  takeProfitPct: (v) => n(v).toFixed(1),
+  minConfidence: (v) => String(Math.round(n(v))),
+  maxDailyActions: (v) => String(Math.round(n(v))),
+  cooldownCycles: (v) => String(Math.round(n(v))),
+};
+
+/** Winner of a search as a STRATEGY_TEMPLATES entry, based on the template it started from. */
+export function optimizedStrategyTemplate(
+  result: OptimizerResult,
+  options: { id?: string; name?: string } = {},
+) {
+  const base = STRATEGY_TEMPLATES.find((tpl) => tpl.id === result.template);
+  if (!base) throw new Error(`OPTIMIZER_UNKNOWN_TEMPLATE: ${result.template}`);
+  const tuned = Object.fromEntries(
+    Object.entries(result.best.params).map(([key, value]) => {
+      const format = TEMPLATE_DEFAULT_FORMAT[key as OptimizerParam];
+      return [key, format ? format(value) : String(value)];
+    }),
+  );
+  const label = result.objective === "calmar" ? "Calmar" : "Sharpe";
+  return {
+    ...base,
+    id: options.id || `${base.id}_optimized`,
+    name: options.name || `${base.name} (Optimized)`,
+    tag: "OPTIMIZED",
+    desc:
+      `${base.desc} Walk-forward tuned over ${result.folds} folds: out-of-sample ${label} ` +
+      `${result.best.outOfSample} (in-sample ${result.best.inSample}).`,
+    defaults: { ...base.defaults, ...tuned },
+  };
+}
@@ -0,0 +1,188 @@
+import { clamp, toFinite } from "../quant/math";
+import { fuseWithQuantCore, resolveAiOverlayPlan } from "../quant/runQuantEngineFusion";
+import type { CachedOverlayDecision } from "../quant/runQuantEngineOverlayCache";
+import { sanitizeEngineDecision } from "../quant/runQuantEngineSanitize";
+
+// Offline AI overlay for the backtester. Each cycle's quant-core decision goes
+// through the live engine's resolveAiOverlayPlan, fuseWithQuantCore and
+// sanitizeEngineDecision; only the AI call is replaced, by either
+//   - recorded responses from dashboard decision records ({ ts, dec } entries
+//     with dec.audit_record). Records keep the fused decision plus the raw AI
+//     action and confidence (quant_metrics.ai_action_raw / ai_confidence_raw),
+//     so the replayed response is that decision with the raw action and
+//     confidence restored;
+//   - a deterministic stub that echoes, inverts or overrides the core action.
+
+export type OverlayStubConfig = {
+  /** "echo" the core action (default), "invert" ACCUMULATE/REDUCE, or a fixed action. */
+  action?: "echo" | "invert" | "ACCUMULATE" | "REDUCE" | "HOLD" | "REBALANCE";
+  /** Stub confidence_score (default 0.7). */
+  confidence?: number;
+  /** Stub risk_score; defaults to the core decision's. */
+  riskScore?: number;
+};
+
+export type OverlayReplayConfig = {
+  source: "recorded" | "stub";
+  /** Dashboard decision records for source "recorded". */
+  records?: any[];
+  /** A recorded response answers cycles up to this long after it (default 1 hour). */
+  maxRecordAgeMs?: number;
+  stub?: OverlayStubConfig;
+  /** Overlay plan mode, as VITE_AI_OVERLAY_MODE (default "adaptive"). */
+  mode?: "always" | "adaptive";
+  /** Overlay cache windows, as VITE_AI_OVERLAY_MIN_INTERVAL_MS / _CACHE_TTL_MS (defaults 15s / 45s). */
+  minIntervalMs?: number;
+  cacheTtlMs?: number;
+};
+
+export type OverlayReplayStats = {
+  source: OverlayReplayConfig["source"];
+  mode: "always" | "adaptive";
+  cycles: number;
+  /** Cycles the plan sent to the (replayed) AI and fused. */
+  fused: number;
+  /** Cycles that reused the cached fused decision. */
+  reused: number;
+  /** Cycles the plan kept on the quant core. */
+  skipped: number;
+  /** Planned calls with no recorded response in range (kept on the quant core). */
+  missingResponses: number;
+  /** Fused cycles where the core's risk guard overrode the AI action. */
+  guardOverrides: number;
+  /** Fused or reused cycles whose action differs from the quant core's. */
+  actionChanges: number;
+  /** Plan reasons by count, cache ages stripped. */
+  planReasons: Record<string, number>;
+};
+
+const ACTIONS = ["ACCUMULATE", "REDUCE", "HOLD", "REBALANCE"];
+const DEFAULT_MAX_RECORD_AGE_MS = 60 * 60 * 1000;
+
+type RecordedResponse = { ts: number; response: any };
+
+/** AI responses recoverable from decision records, ascending by time. */
+export function recordedOverlayResponses(records: any[]): RecordedResponse[] {
+  const out: RecordedResponse[] = [];
+  for (const record of Array.isArray(records) ? records : []) {
+    const dec = record?.dec ?? record;
+    const qm = dec?.quant_metrics || {};
+    const aiAction = String(qm.ai_action_raw || "").toUpperCase();
+    const ts = toFinite(record?.ts, toFinite(dec?.audit_record?.created_ts, 0));
+    if (!ACTIONS.includes(aiAction) || !(ts > 0)) continue;
+    const { audit_record: _audit, ...rest } = dec;
+    out.push({
+      ts,
+      response: {
+        ...rest,
+        action: aiAction,
+        confidence_score: toFinite(qm.ai_confidence_raw, toFinite(dec?.confidence_score, 0.5)),
+      },
+    });
+  }
+  return out.sort((a, b) => a.ts - b.ts);
+}
+
+function stubResponse(core: any, stub: OverlayStubConfig = {}) {
+  const coreAction = String(core?.action || "HOLD");
+  const mode = stub.action || "echo";
+  const action =
+    mode === "echo"
+      ? coreAction
+      : mode === "invert"
+        ? coreAction === "ACCUMULATE" ? "REDUCE" : coreAction === "REDUCE" ? "ACCUMULATE" : coreAction
+        : mode;
+  return {
+    ...core,
+    action,
+    confidence_score: clamp(toFinite(stub.confidence, 0.7), 0, 1),
+    risk_score: toFinite(stub.riskScore, toFinite(core?.risk_score, 0.5)),
+    rationale: `Stub overlay (${mode}).`,
+    risk_factors: [],
+    quant_metrics: undefined,
+  };
+}
+
+/**
+ * Per-run overlay state: call decide() once per agent cycle, in time order,
+ * with the cycle's quant-core decision.
+ */
+export function createOverlayReplay(agent: any, config: OverlayReplayConfig) {
+  const mode = config.mode === "always" ? "always" : "adaptive";
+  const minIntervalMs = Math.max(0, toFinite(config.minIntervalMs, 15_000));
+  const cacheTtlMs = Math.max(minIntervalMs, toFinite(config.cacheTtlMs, 45_000));
+  const maxRecordAgeMs = Math.max(0, toFinite(config.maxRecordAgeMs, DEFAULT_MAX_RECORD_AGE_MS));
+  const recorded = config.source === "recorded" ? recordedOverlayResponses(config.records || []) : [];
+  if (config.source === "recorded" && recorded.length === 0) {
+    throw new Error("OVERLAY_REPLAY_NO_RECORDS: no decision records carry an AI overlay response (quant_metrics.ai_action_raw).");
+  }
+  const stats: OverlayReplayStats = {
+    source: config.source,
+    mode,
+    cycles: 0,
+    fused: 0,
+    reused: 0,
+    skipped: 0,
+    missingResponses: 0,
+    guardOverrides: 0,
+    actionChanges: 0,
+    planReasons: {},
+  };
+  let cached: CachedOverlayDecision | null = null;
+
+  // Latest recorded response at or before ts, if recent enough.
+  const recordedAt = (ts: number) => {
+    let lo = 0;
+    let hi = recorded.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (recorded[mid].ts <= ts) lo = mid + 1;
+      else hi = mid;
+    }
+    const hit = recorded[lo - 1];
+    return hit && ts - hit.ts <= maxRecordAgeMs ? hit.response : null;
+  };
+
+  const decide = (core: any, ts: number) => {
+    stats.cycles += 1;
+    const plan = resolveAiOverlayPlan({
+      coreDecision: core,
+      cached,
+      config: { aiTransportReady: true, aiOverlayMode: mode, minIntervalMs, cacheTtlMs },
+      now: ts,
+    });
+    const reason = plan.reason.replace(/_\d+ms$/, "");
+    stats.planReasons[reason] = (stats.planReasons[reason] || 0) + 1;
+
+    let decision = core;
+    if (plan.kind === "reuse" && cached) {
+      stats.reused += 1;
+      decision = cached.decision;
+    } else if (plan.kind === "call") {
+      const aiDecision = config.source === "recorded" ? recordedAt(ts) : stubResponse(core, config.stub);
+      if (!aiDecision) {
+        stats.missingResponses += 1;
+        return core;
+      }
+      decision = fuseWithQuantCore({
+        agent,
+        coreDecision: core,
+        aiDecision,
+        aiLatencyMs: 0,
+        startedAt: ts,
+        now: ts,
+        sanitizeDecision: sanitizeEngineDecision,
+      });
+      stats.fused += 1;
+      if (decision.action !== aiDecision.action) stats.guardOverrides += 1;
+      cached = { ts, signature: plan.signature, decision };
+    } else {
+      stats.skipped += 1;
+      return core;
+    }
+    if (decision.action !== core.action) stats.actionChanges += 1;
+    return decision;
+  };
+
+  return { decide, stats: (): OverlayReplayStats => ({ ...stats, planReasons: { ...stats.planReasons } }) };
+}
@@ -1,5 +1,6 @@
 import { shortAddr } from "../helpers";
 import { C, mono } from "../tokens";
+import { canWalletSign } from "../wallet/watchOnly";
 import { Btn } from "./ui";
 
 type NetworkOption = {
@@ -182,7 +183,7 @@ export function AuthenticatedMobileTopbar({
               width: 6,
               height: 6,
               borderRadius: "50%",
-              background: wallet?.provider === "demo" ? C.warn : C.ok,
+              background: canWalletSign(wallet) ? C.ok : C.warn,
             }}
           />
           <span style={{ fontSize: isCompactMobile ? 9 : 10, color: C.dim, letterSpacing: "0.08em", ...mono }}>
@@ -5,6 +5,7 @@
 import { useState, useRef, useEffect } from "react";
 import { C, mono } from "../tokens";
 import { shortAddr } from "../helpers";
+import { canWalletSign } from "../wallet/watchOnly";
 
 interface Props {
   /** Wallet session when authenticated, null when not. */
@@ -87,7 +88,7 @@ export function Header({ wallet, onDisconnect }: Props) {
                 width: 6,
                 height: 6,
                 borderRadius: "50%",
-                background: wallet.provider === "demo" ? C.warn : C.ok,
+                background: canWalletSign(wallet) ? C.ok : C.warn,
                 flexShrink: 0,
               }}
             />
@@ -3,6 +3,7 @@ import { NET_FEE, TREASURY } from "../constants";
 import { shortAddr } from "../helpers";
 import { C, mono } from "../tokens";
 import { WalletAdapter } from "../wallet/WalletAdapter";
+import { assertWalletCanSign } from "../wallet/watchOnly";
 import { formatForgeError } from "../runtime/errorTaxonomy";
 import { Btn, Card } from "./ui";
 
@@ -22,6 +23,7 @@ export function SigningModal({tx, wallet, onSign, onReject}: any) {
   const sign = async () => {
     setBusy(true); setErr(null);
     try {
+      assertWalletCanSign(wallet);
       let txid;
       if(wallet?.provider === "kasware") {
         txid = await WalletAdapter.sendKasware(tx.to, tx.amount_kas);
@@ -5,6 +5,7 @@ import { Badge } from "./ui";
 import { ForgeAtmosphere } from "./chrome/ForgeAtmosphere";
 import { WalletCreator } from "./WalletCreator";
 import { WebWalletSetup } from "./WebWalletSetup";
+import { createWatchOnlySession } from "../wallet/watchOnly";
 
 // Protocol capability blocks
 const PROTOCOL_STACK = [
@@ -69,6 +70,10 @@ export function WalletGate({ onConnect, onSignInClick }: { onConnect: (session:
     });
   };
 
+  const enterWatchOnly = (address: string) => {
+    onConnect(createWatchOnlySession(address, DEFAULT_NETWORK));
+  };
+
   return (
     <div className="forge-shell forge-wallet-gate-root" style={{ display: "flex", flexDirection: "column", alignItems: "center", minHeight: "100vh", padding: "clamp(8px, 2vw, 12px)", backgroundColor: C.bg }}>
       <ForgeAtmosphere />
@@ -247,6 +252,7 @@ export function WalletGate({ onConnect, onSignInClick }: { onConnect: (session:
           <WebWalletSetup
             networkLabel={NETWORK_LABEL}
             onEnterDemoMode={enterDemoMode}
+            onWatchAddress={enterWatchOnly}
           />
         </div>
       </div>
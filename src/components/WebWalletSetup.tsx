@@ -1,15 +1,32 @@
-import { Badge, Card, Divider } from "./ui";
+import { useState } from "react";
+import { Badge, Card, Divider, Inp } from "./ui";
 import { C, mono } from "../tokens";
 
 type WebWalletSetupProps = {
   networkLabel: string;
   onEnterDemoMode: () => void;
+  /** Open the dashboard read-only for an address; throws on an invalid one. */
+  onWatchAddress?: (address: string) => void;
 };
 
 export function WebWalletSetup({
   networkLabel,
   onEnterDemoMode,
+  onWatchAddress,
 }: WebWalletSetupProps) {
+  const [watchAddress, setWatchAddress] = useState("");
+  const [watchError, setWatchError] = useState<string | null>(null);
+
+  const watch = () => {
+    if (!onWatchAddress) return;
+    setWatchError(null);
+    try {
+      onWatchAddress(watchAddress.trim());
+    } catch {
+      setWatchError(`Enter a valid ${networkLabel} address.`);
+    }
+  };
+
   return (
     <div data-testid="web-wallet-setup" style={{ display: "flex", flexDirection: "column", gap: 10 }}>
       <Card p={20} style={{ border: `1px solid rgba(57,221,182,0.14)` }}>
@@ -43,6 +60,39 @@ export function WebWalletSetup({
           </button>
         </div>
 
+        {onWatchAddress && (
+          <div data-testid="wallet-gate-watch-only" style={{ marginBottom: 10 }}>
+            <Inp
+              label="Watch-only address"
+              value={watchAddress}
+              onChange={(value: string) => { setWatchAddress(value); setWatchError(null); }}
+              placeholder="kaspa:..."
+              hint="Analytics and balances without a signing wallet. Execution stays disabled."
+            />
+            {watchError && <div style={{ fontSize: 10, color: C.danger, ...mono, marginTop: -10, marginBottom: 8 }}>{watchError}</div>}
+            <button
+              data-testid="wallet-gate-watch-address"
+              onClick={watch}
+              disabled={!watchAddress.trim()}
+              style={{
+                width: "100%",
+                background: "rgba(11,17,24,0.85)",
+                border: `1px solid ${C.border}`,
+                borderRadius: 8,
+                cursor: watchAddress.trim() ? "pointer" : "not-allowed",
+                color: C.warn,
+                fontSize: 10,
+                ...mono,
+                fontWeight: 700,
+                letterSpacing: "0.08em",
+                padding: "10px 0",
+              }}
+            >
+              WATCH ADDRESS
+            </button>
+          </div>
+        )}
+
         <Divider m={14} />
         <div style={{ fontSize: 10, color: C.dim, ...mono, lineHeight: 1.5 }}>
           Forge-OS never requests your private key · All signing happens inside your wallet · {networkLabel}
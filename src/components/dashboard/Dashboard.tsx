@@ -36,6 +36,7 @@ import { derivePnlAttribution } from "../../analytics/pnlAttribution";
 import { formatForgeError, normalizeError } from "../../runtime/errorTaxonomy";
 import { buildQueueTxItem } from "../../tx/queueTx";
 import { WalletAdapter } from "../../wallet/WalletAdapter";
+import { canWalletSign } from "../../wallet/watchOnly";
 import { getAgentDepositAddress } from "../../runtime/agentDeposit";
 import { useAgentLifecycle } from "./hooks/useAgentLifecycle";
 import { useAutoCycleLoop } from "./hooks/useAutoCycleLoop";
@@ -475,15 +476,15 @@ const [viewportWidth, setViewportWidth] = useState(
       const liveKas = Number(kasData?.walletKas || 0);
       const walletSupportsCombinedTreasury =
         TREASURY_FEE_ONCHAIN_ENABLED &&
-        wallet?.provider !== "demo" &&
+        canWalletSign(wallet) &&
         TREASURY_FEE_KAS > 0 &&
         WalletAdapter.supportsNativeMultiOutput(String(wallet?.provider || ""));
       const treasuryPayoutReserveKas =
-        TREASURY_FEE_ONCHAIN_ENABLED && wallet?.provider !== "demo" && TREASURY_FEE_KAS > 0
+        TREASURY_FEE_ONCHAIN_ENABLED && canWalletSign(wallet) && TREASURY_FEE_KAS > 0
           ? (walletSupportsCombinedTreasury ? TREASURY_FEE_KAS : (TREASURY_FEE_KAS + NET_FEE))
           : 0;
       const availableToSpend = Math.max(0, liveKas - RESERVE - NET_FEE - treasuryPayoutReserveKas);
-      const executionReady = liveConnected && !kasDataError && wallet?.provider !== "demo";
+      const executionReady = liveConnected && !kasDataError && canWalletSign(wallet);
 
       if(!riskOk){
         addLog({type:"VALID", msg:`Risk gate FAILED — score ${dec.risk_score} > ${riskThresh} ceiling`, fee:null});
@@ -800,11 +801,11 @@ const [viewportWidth, setViewportWidth] = useState(
   const liveKasNum = Number(kasData?.walletKas || 0);
   const walletSupportsCombinedTreasuryUi =
     TREASURY_FEE_ONCHAIN_ENABLED &&
-    wallet?.provider !== "demo" &&
+    canWalletSign(wallet) &&
     TREASURY_FEE_KAS > 0 &&
     WalletAdapter.supportsNativeMultiOutput(String(wallet?.provider || ""));
   const treasuryPayoutReserveKasUi =
-    TREASURY_FEE_ONCHAIN_ENABLED && wallet?.provider !== "demo" && TREASURY_FEE_KAS > 0
+    TREASURY_FEE_ONCHAIN_ENABLED && canWalletSign(wallet) && TREASURY_FEE_KAS > 0
       ? (walletSupportsCombinedTreasuryUi ? TREASURY_FEE_KAS : (TREASURY_FEE_KAS + NET_FEE))
       : 0;
   const uiSummary = useDashboardUiSummary({
@@ -1680,7 +1681,7 @@ const [viewportWidth, setViewportWidth] = useState(
       
       {tab==="analytics" && (
         <Suspense fallback={<Card p={18}><Label>Analytics</Label><div style={{fontSize:12,color:C.dim}}>Loading analytics panel...</div></Card>}>
-          <QuantAnalyticsPanel decisions={decisions} queue={queue} />
+          <QuantAnalyticsPanel decisions={decisions} queue={queue} agent={agent} marketHistory={marketHistory} />
         </Suspense>
       )}
       
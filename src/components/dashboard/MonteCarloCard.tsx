@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { C, mono } from "../../tokens";
+import { Badge, Btn, Card, Label } from "../ui";
+import type { MonteCarloPathSet, MonteCarloReport } from "../../backtest/monteCarlo";
+import { DEFAULT_MARKET_SERIES, LIVE_MARKET_SERIES, queryMarketSnapshots } from "../../quant/marketDataStore";
+
+const MIN_HISTORY = 36;
+const PATHS = 300;
+/** Most recent snapshots replayed, so a long stored series stays a bounded main-thread run. */
+const MAX_SNAPSHOTS = 5_000;
+
+const FanTip = ({ active, payload, unit }: any) => {
+  if (!active || !payload?.length) return null;
+  const pt = payload[0]?.payload;
+  return (
+    <div style={{ background: C.s2, border: `1px solid ${C.border}`, borderRadius: 4, padding: "8px 12px", ...mono }}>
+      <div style={{ fontSize: 10, color: C.dim, marginBottom: 3 }}>{unit} {pt?.step}</div>
+      <div style={{ fontSize: 11, color: C.text }}>median ${pt?.p50}</div>
+      <div style={{ fontSize: 10, color: C.dim }}>50% ${pt?.band50?.[0]} – ${pt?.band50?.[1]}</div>
+      <div style={{ fontSize: 10, color: C.dim }}>90% ${pt?.band90?.[0]} – ${pt?.band90?.[1]}</div>
+    </div>
+  );
+};
+
+function FanChart({ set, initialEquityUsd, title }: { set: MonteCarloPathSet; initialEquityUsd: number; title: string }) {
+  const unit = set.method === "trade_bootstrap" ? "trade" : "snapshot";
+  const data = set.fan.map((p) => ({ step: p.step, p50: p.p50, band50: [p.p25, p.p75], band90: [p.p5, p.p95] }));
+  const ruinColor = set.probabilityOfRuinPct >= 10 ? C.danger : set.probabilityOfRuinPct >= 2 ? C.warn : C.ok;
+  return (
+    <div>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+        <span style={{ fontSize: 11, color: C.text, fontWeight: 700, ...mono }}>{title}</span>
+        <Badge text={`RUIN ${set.probabilityOfRuinPct.toFixed(1)}%`} color={ruinColor} />
+      </div>
+      <ResponsiveContainer width="100%" height={170}>
+        <ComposedChart data={data} margin={{ top: 2, right: 4, left: -8, bottom: 0 }}>
+          <CartesianGrid stroke={C.border} strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="step" tick={{ fill: C.dim, fontSize: 10, fontFamily: "Courier New" }} tickLine={false} axisLine={false} />
+          <YAxis tick={{ fill: C.dim, fontSize: 10, fontFamily: "Courier New" }} tickLine={false} axisLine={false} domain={["auto", "auto"]} tickFormatter={(v) => `$${Math.round(v)}`} />
+          <Tooltip content={<FanTip unit={unit} />} />
+          <ReferenceLine y={initialEquityUsd} stroke={C.muted} strokeWidth={1} />
+          <Area type="monotone" dataKey="band90" stroke="none" fill={C.accent} fillOpacity={0.1} isAnimationActive={false} />
+          <Area type="monotone" dataKey="band50" stroke="none" fill={C.accent} fillOpacity={0.22} isAnimationActive={false} />
+          <Line type="monotone" dataKey="p50" stroke={C.accent} strokeWidth={2} dot={false} isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(2, 1fr)", gap: 6, marginTop: 8 }}>
+        {[
+          ["Final equity p5 / p50", `$${set.finalEquityUsd.p5.toFixed(0)} / $${set.finalEquityUsd.p50.toFixed(0)}`, C.text],
+          ["Max drawdown p50 / p95", `-${set.maxDrawdownPct.p50.toFixed(1)}% / -${set.maxDrawdownPct.p95.toFixed(1)}%`, C.warn],
+          [`Recovery p50 / p95 (${set.recoveryUnit})`, `${set.timeToRecovery.p50} / ${set.timeToRecovery.p95}`, C.text],
+          ["VaR / ES (95%)", `-${set.var95Pct.toFixed(2)}% / -${set.es95Pct.toFixed(2)}%`, C.danger],
+        ].map(([label, value, color]) => (
+          <div key={label} style={{ background: C.s2, border: `1px solid ${C.border}`, borderRadius: 6, padding: "8px 10px" }}>
+            <div style={{ fontSize: 9, color: C.dim, ...mono, marginBottom: 3 }}>{label}</div>
+            <div style={{ fontSize: 12, color, fontWeight: 700, ...mono }}>{value}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Monte Carlo robustness of the agent replayed over the longest market history
+ * available (imported dataset, recorded live feed or this session): bootstrapped trade sequences and block-resampled equity returns,
+ * shown as fan charts (median, 50% and 90% bands).
+ */
+export function MonteCarloCard({ agent, marketHistory = [], isMobile }: { agent: any; marketHistory?: any[]; isMobile: boolean }) {
+  const [report, setReport] = useState<MonteCarloReport | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [snapshotCount, setSnapshotCount] = useState(0);
+  const enough = marketHistory.length >= MIN_HISTORY;
+
+  const run = async () => {
+    if (running || !enough) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const [{ runQuantBacktest }, { runMonteCarloRobustness }, imported, recorded] = await Promise.all([
+        import("../../backtest/harness"),
+        import("../../backtest/monteCarlo"),
+        queryMarketSnapshots({ series: DEFAULT_MARKET_SERIES, limit: MAX_SNAPSHOTS }).catch(() => []),
+        queryMarketSnapshots({ series: LIVE_MARKET_SERIES, limit: MAX_SNAPSHOTS }).catch(() => []),
+      ]);
+      // Prefer the longest history: an imported dataset, the recorded live feed, or this session's window.
+      const snapshots = [imported, recorded, [...marketHistory]].reduce((best, rows) => (rows.length > best.length ? rows : best));
+      setSnapshotCount(snapshots.length);
+      const result = runQuantBacktest({ agent, snapshots, warmupSamples: 24 });
+      setReport(runMonteCarloRobustness(result, agent, { paths: PATHS, firstPriceUsd: Number(snapshots[0]?.priceUsd || 0) }));
+    } catch (err: any) {
+      setError(String(err?.message || err));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card p={18} style={{ marginBottom: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12, gap: 8 }}>
+        <div>
+          <Label>Monte Carlo Robustness</Label>
+          <div style={{ fontSize: 10, color: C.dim, ...mono }}>
+            {PATHS} paths · {report ? snapshotCount : marketHistory.length} snapshots{report ? ` · ruin = -$${report.ruinLossUsd} (capital limit)` : ""}
+          </div>
+        </div>
+        <Btn size="sm" variant="ghost" onClick={run} disabled={running || !enough}>
+          {running ? "SIMULATING…" : report ? "RE-RUN" : "RUN ROBUSTNESS"}
+        </Btn>
+      </div>
+      {!enough && (
+        <div style={{ fontSize: 11, color: C.dim, ...mono }}>Need at least {MIN_HISTORY} market snapshots to backtest this agent</div>
+      )}
+      {error && <div style={{ fontSize: 11, color: C.danger, ...mono }}>{error}</div>}
+      {report && (
+        <div style={{ display: "grid", gridTemplateColumns: isMobile ? "1fr" : "repeat(2, 1fr)", gap: 16 }}>
+          {report.blockBootstrap && (
+            <FanChart set={report.blockBootstrap} initialEquityUsd={report.initialEquityUsd} title="Block-resampled returns" />
+          )}
+          {report.tradeBootstrap ? (
+            <FanChart set={report.tradeBootstrap} initialEquityUsd={report.initialEquityUsd} title="Bootstrapped trades" />
+          ) : (
+            <div style={{ fontSize: 11, color: C.dim, ...mono, alignSelf: "center" }}>
+              No closed trades to bootstrap — accumulate-only agents never sell.
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
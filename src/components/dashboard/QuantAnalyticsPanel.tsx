@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { C, mono } from "../../tokens";
 import { Badge, Card, Label } from "../ui";
 import { useAnalyticsWorker } from "./hooks/useAnalyticsWorker";
+import { MonteCarloCard } from "./MonteCarloCard";
 
 function calculatePerformanceMetrics(decisions: any[], queue: any[]) {
   if (!decisions || decisions.length === 0) {
@@ -224,7 +225,17 @@ function calculateIndicators(decisions: any[]) {
   };
 }
 
-export function QuantAnalyticsPanel({ decisions = [], queue = [] }: { decisions?: any[]; queue?: any[] }) {
+export function QuantAnalyticsPanel({
+  decisions = [],
+  queue = [],
+  agent,
+  marketHistory = [],
+}: {
+  decisions?: any[];
+  queue?: any[];
+  agent?: any;
+  marketHistory?: any[];
+}) {
   const [viewportWidth, setViewportWidth] = useState(typeof window !== "undefined" ? window.innerWidth : 1200);
 
   useEffect(() => {
@@ -343,6 +354,8 @@ export function QuantAnalyticsPanel({ decisions = [], queue = [] }: { decisions?
         </div>
       </Card>
 
+      {agent && <MonteCarloCard agent={agent} marketHistory={marketHistory} isMobile={isMobile} />}
+
       {indicators && (
         <Card p={18} style={{ marginBottom: 12 }}>
           <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
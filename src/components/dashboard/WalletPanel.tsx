@@ -2,8 +2,10 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { ALLOWED_ADDRESS_PREFIXES, EXPLORER, NET_FEE, NETWORK_LABEL, RESERVE } from "../../constants";
 import { fmt, isKaspaAddress } from "../../helpers";
 import { kasBalance, kasUtxos } from "../../api/kaspaApi";
+import { LIVE_MARKET_SAMPLE_MS, LIVE_MARKET_SERIES, queryMarketSnapshots } from "../../quant/marketDataStore";
 import { C, mono } from "../../tokens";
 import { WalletAdapter } from "../../wallet/WalletAdapter";
+import { isWatchOnlyWallet, WATCH_ONLY_PROVIDER } from "../../wallet/watchOnly";
 import { SigningModal } from "../SigningModal";
 import { Badge, Btn, Card, ExtLink, Inp } from "../ui";
 import {
@@ -21,6 +23,16 @@ const fmtUsd = (v: number | null) =>
   : v >= 1 ? `$${v.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
   : `$${v.toFixed(4)}`;
 
+const PRICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+const PRICE_CHART_POINTS = 120;
+
+// every n-th row (and the last) so a day of samples stays a light sparkline
+const thinRows = (rows: any[], max: number) => {
+  if (rows.length <= max) return rows;
+  const step = Math.ceil(rows.length / max);
+  return rows.filter((_, i) => i % step === 0 || i === rows.length - 1);
+};
+
 // regime → color + label
 const REGIME_META: Record<string, { color: string; label: string; desc: string }> = {
   TREND_UP:          { color: "#39DDB6", label: "TREND UP",       desc: "Strong upward price momentum" },
@@ -56,6 +68,7 @@ export function WalletPanel({ agent, wallet, kasData, marketHistory = [], lastDe
   const networkName = kasData?.dag?.networkName || NETWORK_LABEL;
   const providerLabel = wallet?.provider === "kasware" ? "KasWare"
     : wallet?.provider === "demo" ? "Demo Mode"
+    : wallet?.provider === WATCH_ONLY_PROVIDER ? "Watch-only"
     : wallet?.provider === "kasware-wasm" ? "KasWare (WASM)"
     : wallet?.provider || "External";
 
@@ -70,11 +83,26 @@ export function WalletPanel({ agent, wallet, kasData, marketHistory = [], lastDe
   const momentumZ = Number(qm?.momentum_z || 0);
   const edgeScore = Number(qm?.edge_score || 0);
 
-  // price history for sparkline + 24h change
+  // price history for sparkline + 24h change: the recorded live series, or
+  // this session's window until the store has more than one sample
+  const [storedPrices, setStoredPrices] = useState([] as any[]);
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      queryMarketSnapshots({ series: LIVE_MARKET_SERIES, fromTs: Date.now() - PRICE_WINDOW_MS })
+        .then((rows) => { if (!cancelled) setStoredPrices(thinRows(rows.filter((s) => s.priceUsd > 0), PRICE_CHART_POINTS)); })
+        .catch(() => {});
+    };
+    load();
+    const interval = setInterval(load, LIVE_MARKET_SAMPLE_MS);
+    return () => { cancelled = true; clearInterval(interval); };
+  }, []);
+  const priceWindow = storedPrices.length > 1 ? "24h" : "session";
   const priceSnapshots = useMemo(() => {
+    if (storedPrices.length > 1) return storedPrices;
     const arr = Array.isArray(marketHistory) ? marketHistory : [];
     return arr.filter((s: any) => s.priceUsd > 0).slice(-80);
-  }, [marketHistory]);
+  }, [marketHistory, storedPrices]);
 
   const priceChartData = priceSnapshots.map((s: any, i: number) => ({
     i,
@@ -171,7 +199,7 @@ export function WalletPanel({ agent, wallet, kasData, marketHistory = [], lastDe
             </div>
             {change24hPct !== null && (
               <div style={{ fontSize: 9, color: C.dim, ...mono, marginTop: 2 }}>
-                {change24hPositive ? "▲ +" : "▼ "}{change24hPct.toFixed(2)}% session · {priceSnapshots.length} samples
+                {change24hPositive ? "▲ +" : "▼ "}{change24hPct.toFixed(2)}% {priceWindow} · {priceSnapshots.length} samples
               </div>
             )}
           </div>
@@ -308,9 +336,15 @@ export function WalletPanel({ agent, wallet, kasData, marketHistory = [], lastDe
           </div>
         )}
 
+        {isWatchOnlyWallet(wallet) && (
+          <div style={{ fontSize: 9, color: C.warn, ...mono, marginBottom: 6 }}>
+            Watch-only address — connect a signing wallet to send.
+          </div>
+        )}
+
         <Btn
           onClick={initiateWithdraw}
-          disabled={!isKaspaAddress(withdrawTo, ALLOWED_ADDRESS_PREFIXES) || !Number(withdrawAmt) || Number(withdrawAmt) > maxSendKas}
+          disabled={isWatchOnlyWallet(wallet) || !isKaspaAddress(withdrawTo, ALLOWED_ADDRESS_PREFIXES) || !Number(withdrawAmt) || Number(withdrawAmt) > maxSendKas}
           style={{ width: "100%", padding: "9px", fontSize: 11 }}>
           ↗ SEND {withdrawAmt || "0"} KAS
           {withdrawAmt && Number(withdrawAmt) > 0 && priceUsd > 0 ? ` (${fmtUsd(Number(withdrawAmt) * priceUsd)})` : ""}
@@ -417,7 +451,7 @@ export function WalletPanel({ agent, wallet, kasData, marketHistory = [], lastDe
               KAS / USDC PRICE HISTORY
             </div>
             <div style={{ fontSize: 9, color: C.dim, ...mono }}>
-              {priceChartData.length} ticks · session
+              {priceChartData.length} ticks · {priceWindow}
             </div>
           </div>
           <ResponsiveContainer width="100%" height={100}>
@@ -440,7 +474,7 @@ export function WalletPanel({ agent, wallet, kasData, marketHistory = [], lastDe
             <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginTop: 8 }}>
               <span style={{ fontSize: 9, color: C.dim, ...mono }}>Open: ${firstPrice.toFixed(4)}</span>
               <span style={{ fontSize: 9, color: change24hPositive ? C.ok : C.danger, fontWeight: 600, ...mono }}>
-                {change24hPositive ? "▲ +" : "▼ "}{change24hPct.toFixed(2)}% session
+                {change24hPositive ? "▲ +" : "▼ "}{change24hPct.toFixed(2)}% {priceWindow}
               </span>
               <span style={{ fontSize: 9, color: C.dim, ...mono }}>Last: ${priceUsd.toFixed(4)}</span>
             </div>
@@ -1,5 +1,6 @@
 import { useMemo } from "react";
 import { C } from "../../../tokens";
+import { canWalletSign } from "../../../wallet/watchOnly";
 
 type Params = {
   viewportWidth: number;
@@ -55,7 +56,7 @@ export function useDashboardUiSummary(params: Params) {
   const pendingCount = Array.isArray(queue) ? queue.filter((q: any) => q?.status === "pending").length : 0;
   const liveKasNum = Number(kasData?.walletKas || 0);
   const spendableKas = Math.max(0, liveKasNum - reserveKas - netFeeKas - treasuryReserveKas);
-  const liveExecutionReady = liveConnected && !kasDataError && wallet?.provider !== "demo";
+  const liveExecutionReady = liveConnected && !kasDataError && canWalletSign(wallet);
   const autoCycleCountdown = Math.max(0, Math.ceil((nextAutoCycleAt - Date.now()) / 1000));
   const autoCycleCountdownLabel = `${Math.floor(autoCycleCountdown / 60)
     .toString()
@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { kasBalance, kasNetworkInfo, kasPrice } from "../../../api/kaspaApi";
+import { createLiveMarketRecorder, getMarketDataStore } from "../../../quant/marketDataStore";
 
 type UseKaspaFeedParams = {
   walletAddress?: string;
@@ -141,6 +142,7 @@ export function useKaspaFeed(params: UseKaspaFeedParams) {
 
   const kasRefreshLockRef = useRef(false);
   const kasDataRef = useRef<any>(null);
+  const recordMarketSnapshotRef = useRef<ReturnType<typeof createLiveMarketRecorder> | null>(null);
   const [kasData, setKasData] = useState(null as any);
   const [marketHistory, setMarketHistory] = useState([] as any[]);
   const [kasDataLoading, setKasDataLoading] = useState(true);
@@ -156,15 +158,17 @@ export function useKaspaFeed(params: UseKaspaFeedParams) {
   }, [kasData]);
 
   const appendMarketSnapshot = useCallback((snapshot: any) => {
+    const nextSnapshot = {
+      ts: Number(snapshot?.ts || Date.now()),
+      priceUsd: Number(snapshot?.priceUsd || 0),
+      daaScore: Number(snapshot?.daaScore || 0),
+      walletKas: Number(snapshot?.walletKas || 0),
+    };
+    // Persist the live feed (sampled and pruned) so backtests and charts can use more than the in-memory window.
+    if (!recordMarketSnapshotRef.current) recordMarketSnapshotRef.current = createLiveMarketRecorder(getMarketDataStore());
+    recordMarketSnapshotRef.current(nextSnapshot).catch(() => {});
     setMarketHistory((prev: any[]) => {
       const lastSnapshot = prev[prev.length - 1];
-      const nextSnapshot = {
-        ts: Number(snapshot?.ts || Date.now()),
-        priceUsd: Number(snapshot?.priceUsd || 0),
-        daaScore: Number(snapshot?.daaScore || 0),
-        walletKas: Number(snapshot?.walletKas || 0),
-      };
-
       const sameState =
         lastSnapshot &&
         lastSnapshot.priceUsd === nextSnapshot.priceUsd &&
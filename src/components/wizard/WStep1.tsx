@@ -2,7 +2,7 @@ import { useState } from "react";
 import { C, mono } from "../../tokens";
 import { shortAddr } from "../../helpers";
 import { Badge, Inp, Card } from "../ui";
-import { RISK_OPTS, EXEC_OPTS, SIZING_OPTS, PAIR_MODE_OPTS, PNL_TRACKING_OPTS, STRATEGY_TEMPLATES, PROFESSIONAL_PRESETS } from "./constants";
+import { RISK_OPTS, EXEC_OPTS, SIZING_OPTS, FEE_TIER_OPTS, PAIR_MODE_OPTS, PNL_TRACKING_OPTS, STRATEGY_TEMPLATES, PROFESSIONAL_PRESETS } from "./constants";
 
 // ── section header ─────────────────────────────────────────────────────────────
 const SectionHead = ({ label, sub }: { label: string; sub?: string }) => (
@@ -203,6 +203,12 @@ export const WStep1 = ({ d, set, wallet }: any) => {
               <PickRow opts={SIZING_OPTS} value={d.positionSizing || "kelly"} onChange={(v) => set("positionSizing", v)} cols={3} />
             </div>
 
+            {/* Network fee tier for the agent's sends */}
+            <div>
+              <SectionHead label="NETWORK FEE TIER" sub="Default fee-estimate bucket for this agent's transactions" />
+              <PickRow opts={FEE_TIER_OPTS} value={d.feeTier || "normal"} onChange={(v) => set("feeTier", v)} cols={3} />
+            </div>
+
             {/* Row 2: Signal filters + Execution limits (all numeric in one grid) */}
             <div>
               <SectionHead label="FILTERS & LIMITS" />
@@ -243,6 +249,7 @@ export const WStep1 = ({ d, set, wallet }: any) => {
                   { k: "Daily", v: `${d.maxDailyActions || "8"}` },
                   { k: "P&L", v: String(d.pnlTracking || "kas-native").replace("kas-", "KAS-").replace("usdc-", "USDC-") },
                   { k: "Mode", v: String(d.execMode || "manual").toUpperCase() },
+                  { k: "Fee", v: String(d.feeTier || "normal").toUpperCase() },
                 ].map(item => (
                   <div key={item.k}>
                     <div style={{ fontSize: 7, color: C.dim, ...mono, marginBottom: 1 }}>{item.k}</div>
@@ -17,6 +17,8 @@ export const DEFS = {
   maxDailyActions: "8",
   cooldownCycles: "1",
   pnlTracking: "kas-native",
+  // Default network fee tier for the agent's sends: "low" | "normal" | "priority"
+  feeTier: "normal",
   // "accumulate_only" = only ACCUMULATE + HOLD execute (REDUCE / REBALANCE blocked)
   // "full"           = all action signals can execute
   actionMode: "accumulate_only",
@@ -44,7 +46,7 @@ export const STRATEGY_TEMPLATES = [
       revenueSource: "accumulation", execMode: "manual", autoApproveThreshold: "25",
       stopLossPct: "3.0", takeProfitPct: "8.0", minConfidence: "60",
       positionSizing: "half-kelly", daaVelocityFilter: "0", maxDailyActions: "6",
-      cooldownCycles: "2", pairMode: "accumulation", actionMode: "accumulate_only",
+      cooldownCycles: "2", pairMode: "accumulation", actionMode: "accumulate_only", feeTier: "low",
     },
   },
   {
@@ -95,7 +97,7 @@ export const STRATEGY_TEMPLATES = [
       revenueSource: "breakout", execMode: "notify", autoApproveThreshold: "15",
       stopLossPct: "6.0", takeProfitPct: "18.0", minConfidence: "52",
       positionSizing: "kelly", daaVelocityFilter: "5", maxDailyActions: "12",
-      cooldownCycles: "1", pairMode: "accumulation", actionMode: "full",
+      cooldownCycles: "1", pairMode: "accumulation", actionMode: "full", feeTier: "priority",
     },
   },
   {
@@ -112,7 +114,7 @@ export const STRATEGY_TEMPLATES = [
       revenueSource: "accumulation", execMode: "autonomous", autoApproveThreshold: "500",
       stopLossPct: "5.0", takeProfitPct: "15.0", minConfidence: "50",
       positionSizing: "half-kelly", daaVelocityFilter: "0", maxDailyActions: "6",
-      cooldownCycles: "2", pairMode: "accumulation", actionMode: "accumulate_only",
+      cooldownCycles: "2", pairMode: "accumulation", actionMode: "accumulate_only", feeTier: "low",
     },
   },
   {
@@ -169,7 +171,7 @@ export const PROFESSIONAL_PRESETS = [
       revenueSource: "market-making", execMode: "autonomous", autoApproveThreshold: "500",
       stopLossPct: "1.5", takeProfitPct: "3.0", minConfidence: "50",
       positionSizing: "fixed", daaVelocityFilter: "0", maxDailyActions: "100",
-      cooldownCycles: "0", pairMode: "kas-usdc",
+      cooldownCycles: "0", pairMode: "kas-usdc", feeTier: "priority",
     },
   },
   {
@@ -234,6 +236,12 @@ export const PAIR_MODE_OPTS = [
   { v: "dual",         l: "Dual Mode",          desc: "Accumulate by default · flip to pair when available" },
 ];
 
+export const FEE_TIER_OPTS = [
+  { v: "low",      l: "Low",      desc: "Cheapest bucket · slower confirmation" },
+  { v: "normal",   l: "Normal",   desc: "Node's normal bucket · typical confirmation" },
+  { v: "priority", l: "Priority", desc: "Priority bucket · fastest confirmation" },
+];
+
 export const PNL_TRACKING_OPTS = [
   { v: "kas-native",  l: "KAS-Native",    desc: "P&L in KAS · accumulation-first baseline" },
   { v: "usdc-stable", l: "USDC-Stable",   desc: "P&L in USDC equivalent · stable-denominated reporting" },
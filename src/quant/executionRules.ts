@@ -0,0 +1,194 @@
+import { clamp } from "./math";
+
+// Execution rules and the gate that applies them to a decision, for the
+// backtest harness. Two rule sets:
+//   - resolveDashboardExecutionRules: what the live dashboard cycle enforces
+//     today — the deployment-wide accumulate-only switch, the risk ceiling of
+//     the agent's profile and the deployment confidence threshold;
+//   - resolveAgentExecutionRules: additionally the wizard's stop / take-profit,
+//     confidence floor, daily cap, cooldown and action mode, which the
+//     dashboard does not enforce yet. An agent without an actionMode is
+//     accumulate-only here, so REDUCE never executes unless it opts into "full".
+
+export type AgentActionMode = "accumulate_only" | "full";
+
+export type AgentExecutionRules = {
+  /** Exit the whole position this far below its average entry; 0 disables. */
+  stopLossPct: number;
+  /** Exit the whole position this far above its average entry; 0 disables. */
+  takeProfitPct: number;
+  /** Minimum decision confidence, 0..1. */
+  minConfidence: number;
+  /** Maximum decision risk score, from the agent's risk profile. */
+  riskCeiling: number;
+  /** Executions allowed per rolling 24h; 0 = unlimited. */
+  maxDailyActions: number;
+  /** Idle cycles after each execution. */
+  cooldownCycles: number;
+  actionMode: AgentActionMode;
+};
+
+export type ExecutionRuleOverrides = {
+  /** Deployment-wide accumulate-only switch (VITE_ACCUMULATE_ONLY). */
+  accumulateOnly?: boolean;
+  /** Deployment-wide confidence floor (CONF_THRESHOLD); the agent can only raise it. */
+  confidenceFloor?: number;
+};
+
+/** Mirrors the wizard defaults (src/components/wizard/constants.ts DEFS). */
+export const DEFAULT_AGENT_EXECUTION_RULES: AgentExecutionRules = {
+  stopLossPct: 4,
+  takeProfitPct: 10,
+  minConfidence: 0.55,
+  riskCeiling: 0.65,
+  maxDailyActions: 8,
+  cooldownCycles: 1,
+  actionMode: "accumulate_only",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const n = (value: any, fallback: number) => {
+  if (value === "" || value === null || value === undefined) return fallback;
+  const out = Number(value);
+  return Number.isFinite(out) ? out : fallback;
+};
+
+export function riskCeilingForProfile(risk: any): number {
+  return risk === "low" ? 0.4 : risk === "medium" ? 0.65 : 0.85;
+}
+
+/** The dashboard's live gating only: no stops, caps or cooldown; the agent's own floor and mode are ignored. */
+export function resolveDashboardExecutionRules(agent: any, overrides: ExecutionRuleOverrides = {}): AgentExecutionRules {
+  return {
+    stopLossPct: 0,
+    takeProfitPct: 0,
+    minConfidence: clamp(n(overrides.confidenceFloor, 0), 0, 1),
+    riskCeiling: riskCeilingForProfile(agent?.risk ?? "medium"),
+    maxDailyActions: 0,
+    cooldownCycles: 0,
+    actionMode: overrides.accumulateOnly === true ? "accumulate_only" : "full",
+  };
+}
+
+export function resolveAgentExecutionRules(agent: any, overrides: ExecutionRuleOverrides = {}): AgentExecutionRules {
+  const d = DEFAULT_AGENT_EXECUTION_RULES;
+  const agentMinConfidence = clamp(n(agent?.minConfidence, d.minConfidence * 100) / 100, 0, 1);
+  const accumulateOnly = overrides.accumulateOnly === true || String(agent?.actionMode || d.actionMode) !== "full";
+  return {
+    stopLossPct: Math.max(0, n(agent?.stopLossPct, d.stopLossPct)),
+    takeProfitPct: Math.max(0, n(agent?.takeProfitPct, d.takeProfitPct)),
+    minConfidence: Math.max(agentMinConfidence, clamp(n(overrides.confidenceFloor, 0), 0, 1)),
+    riskCeiling: riskCeilingForProfile(agent?.risk ?? "medium"),
+    maxDailyActions: Math.max(0, Math.floor(n(agent?.maxDailyActions, d.maxDailyActions))),
+    cooldownCycles: Math.max(0, Math.floor(n(agent?.cooldownCycles, d.cooldownCycles))),
+    actionMode: accumulateOnly ? "accumulate_only" : "full",
+  };
+}
+
+export type ExecutionGateState = {
+  /** Timestamps of executions in the last 24h. */
+  executedAt: number[];
+  /** Cycles completed since the last execution; null before the first one. */
+  cyclesSinceExecution: number | null;
+};
+
+export function createExecutionGateState(): ExecutionGateState {
+  return { executedAt: [], cyclesSinceExecution: null };
+}
+
+export type ExecutionGate = "action_mode" | "risk" | "confidence" | "daily_cap" | "cooldown";
+
+export type ExecutionGateResult = {
+  /** Action after action-mode coercion (REDUCE/REBALANCE → HOLD when accumulate-only). */
+  action: string;
+  /** True when the action may execute this cycle. */
+  allowed: boolean;
+  /** Gate that stopped it; null when allowed or when the action is HOLD. */
+  gate: ExecutionGate | null;
+  reason: string;
+};
+
+function isActionable(action: string, mode: AgentActionMode) {
+  if (mode === "accumulate_only") return action === "ACCUMULATE";
+  return action === "ACCUMULATE" || action === "REDUCE" || action === "REBALANCE";
+}
+
+/**
+ * Apply the gates in the dashboard's order: action mode, risk ceiling,
+ * confidence, then the daily cap and cooldown. Does not mutate `state`.
+ */
+export function gateAgentDecision(
+  decision: any,
+  rules: AgentExecutionRules,
+  state: ExecutionGateState,
+  now: number,
+): ExecutionGateResult {
+  const raw = String(decision?.action || "HOLD").toUpperCase();
+  const coerced = raw !== "HOLD" && !isActionable(raw, rules.actionMode);
+  const action = coerced ? "HOLD" : raw;
+  const risk = n(decision?.risk_score, 1);
+  const confidence = n(decision?.confidence_score, 0);
+
+  if (risk > rules.riskCeiling) {
+    return { action, allowed: false, gate: "risk", reason: `Risk score ${risk} > ${rules.riskCeiling} ceiling` };
+  }
+  if (confidence < rules.minConfidence) {
+    return { action, allowed: false, gate: "confidence", reason: `Confidence ${confidence} < ${rules.minConfidence} threshold` };
+  }
+  if (action === "HOLD") {
+    return coerced
+      ? { action, allowed: false, gate: "action_mode", reason: `${raw} blocked by accumulate-only mode` }
+      : { action, allowed: false, gate: null, reason: "HOLD" };
+  }
+  const today = state.executedAt.filter((ts) => ts > now - DAY_MS).length;
+  if (rules.maxDailyActions > 0 && today >= rules.maxDailyActions) {
+    return { action, allowed: false, gate: "daily_cap", reason: `Daily action cap reached (${today}/${rules.maxDailyActions} in 24h)` };
+  }
+  if (state.cyclesSinceExecution !== null && state.cyclesSinceExecution < rules.cooldownCycles) {
+    return {
+      action,
+      allowed: false,
+      gate: "cooldown",
+      reason: `Cooldown active (${state.cyclesSinceExecution}/${rules.cooldownCycles} idle cycles)`,
+    };
+  }
+  return { action, allowed: true, gate: null, reason: "OK" };
+}
+
+/** Close a cycle: count it toward the cooldown, or start a new one after an execution. */
+export function recordExecutionCycle(state: ExecutionGateState, executed: boolean, now: number): ExecutionGateState {
+  const executedAt = state.executedAt.filter((ts) => ts > now - DAY_MS);
+  if (executed) return { executedAt: [...executedAt, now], cyclesSinceExecution: 0 };
+  return {
+    executedAt,
+    cyclesSinceExecution: state.cyclesSinceExecution === null ? null : state.cyclesSinceExecution + 1,
+  };
+}
+
+export type PositionExitTrigger = {
+  kind: "stop_loss" | "take_profit";
+  /** Trigger level the exit fills at (before slippage). */
+  priceUsd: number;
+};
+
+/**
+ * Stop-loss / take-profit check for one bar. When both levels fall inside the
+ * bar the stop wins (the path within the bar is unknown; assume the worse one).
+ */
+export function positionExitTrigger(
+  avgEntryPriceUsd: number,
+  bar: { lowUsd: number; highUsd: number },
+  rules: Pick<AgentExecutionRules, "stopLossPct" | "takeProfitPct">,
+): PositionExitTrigger | null {
+  if (!(avgEntryPriceUsd > 0)) return null;
+  if (rules.stopLossPct > 0) {
+    const stop = avgEntryPriceUsd * (1 - rules.stopLossPct / 100);
+    if (bar.lowUsd <= stop) return { kind: "stop_loss", priceUsd: Math.min(stop, bar.highUsd) };
+  }
+  if (rules.takeProfitPct > 0) {
+    const target = avgEntryPriceUsd * (1 + rules.takeProfitPct / 100);
+    if (bar.highUsd >= target) return { kind: "take_profit", priceUsd: Math.max(target, bar.lowUsd) };
+  }
+  return null;
+}
@@ -0,0 +1,223 @@
+import { TIMEFRAME_MS, type TimeframeKey } from "./multiTimeframe";
+import type { QuantSnapshot } from "./quantCore";
+
+// Historical market rows: parsing from CSV / JSON / OHLCV exports, merging by
+// timestamp and resampling into the multi-timeframe buckets. Pure functions —
+// persistence lives in marketDataStore.ts.
+
+/** A QuantSnapshot plus the optional bar fields OHLCV sources carry (priceUsd is the close). */
+export type MarketBar = QuantSnapshot & {
+  openUsd?: number;
+  highUsd?: number;
+  lowUsd?: number;
+  volume?: number;
+};
+
+export type MarketDataFormat = "csv" | "json";
+
+const COLUMN_ALIASES: Record<keyof MarketBar, string[]> = {
+  ts: ["ts", "timestamp", "time", "date", "datetime", "open_time", "opentime", "t"],
+  priceUsd: ["priceusd", "price", "close", "close_usd", "c"],
+  openUsd: ["openusd", "open", "o"],
+  highUsd: ["highusd", "high", "h"],
+  lowUsd: ["lowusd", "low", "l"],
+  volume: ["volume", "vol", "v"],
+  daaScore: ["daascore", "daa", "daa_score"],
+  walletKas: ["walletkas", "wallet_kas", "balance"],
+};
+
+const num = (value: any) => {
+  if (value === "" || value === null || value === undefined) return undefined;
+  const out = Number(value);
+  return Number.isFinite(out) ? out : undefined;
+};
+
+/** Epoch seconds, epoch milliseconds or an ISO date → epoch ms; undefined when unparseable. */
+export function parseTimestamp(value: any): number | undefined {
+  const numeric = num(value);
+  if (numeric !== undefined) return numeric < 1e11 ? Math.round(numeric * 1000) : Math.round(numeric);
+  const parsed = Date.parse(String(value ?? "").trim());
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function fieldFor(column: string): keyof MarketBar | null {
+  const key = column.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  const compact = key.replace(/_/g, "");
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    if (aliases.includes(key) || aliases.includes(compact)) return field as keyof MarketBar;
+  }
+  return null;
+}
+
+/** Build a bar from loosely named fields; null when it has no timestamp or price. */
+function toBar(fields: Partial<Record<keyof MarketBar, any>>): MarketBar | null {
+  const ts = parseTimestamp(fields.ts);
+  const priceUsd = num(fields.priceUsd);
+  if (ts === undefined || !(ts > 0) || priceUsd === undefined || !(priceUsd > 0)) return null;
+  const bar: MarketBar = {
+    ts,
+    priceUsd,
+    daaScore: num(fields.daaScore) ?? 0,
+    walletKas: num(fields.walletKas) ?? 0,
+  };
+  for (const key of ["openUsd", "highUsd", "lowUsd", "volume"] as const) {
+    const value = num(fields[key]);
+    if (value !== undefined) bar[key] = value;
+  }
+  return bar;
+}
+
+function splitCsvLine(line: string, delimiter: string) {
+  const out: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (ch === delimiter && !quoted) {
+      out.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  out.push(cell);
+  return out;
+}
+
+function parseCsv(text: string): MarketBar[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() && !line.trim().startsWith("#"));
+  if (lines.length < 2) throw new Error("MARKET_DATA_EMPTY: CSV needs a header row and at least one data row.");
+  const delimiter = [",", ";", "\t"].reduce((best, d) => (lines[0].split(d).length > lines[0].split(best).length ? d : best), ",");
+  const fields = splitCsvLine(lines[0], delimiter).map(fieldFor);
+  if (!fields.includes("ts") || !fields.includes("priceUsd")) {
+    throw new Error("MARKET_DATA_PARSE_ERROR: CSV header needs a timestamp column and a price/close column.");
+  }
+  const rows: MarketBar[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line, delimiter);
+    const record: Partial<Record<keyof MarketBar, any>> = {};
+    fields.forEach((field, i) => {
+      if (field && record[field] === undefined) record[field] = cells[i]?.trim();
+    });
+    const bar = toBar(record);
+    if (bar) rows.push(bar);
+  }
+  return rows;
+}
+
+function parseJsonRows(value: any): MarketBar[] {
+  const list = Array.isArray(value) ? value : Array.isArray(value?.snapshots) ? value.snapshots : Array.isArray(value?.data) ? value.data : null;
+  if (!list) throw new Error("MARKET_DATA_PARSE_ERROR: JSON must be an array, or an object with snapshots/data.");
+  const rows: MarketBar[] = [];
+  for (const item of list) {
+    let bar: MarketBar | null = null;
+    if (Array.isArray(item)) {
+      // Exchange kline: [openTime, open, high, low, close, volume, ...]
+      const [ts, openUsd, highUsd, lowUsd, priceUsd, volume] = item;
+      bar = toBar({ ts, openUsd, highUsd, lowUsd, priceUsd, volume });
+    } else if (item && typeof item === "object") {
+      const record: Partial<Record<keyof MarketBar, any>> = {};
+      for (const [column, value] of Object.entries(item)) {
+        const field = fieldFor(column);
+        if (field && record[field] === undefined) record[field] = value;
+      }
+      bar = toBar(record);
+    }
+    if (bar) rows.push(bar);
+  }
+  return rows;
+}
+
+/**
+ * Parse an export into bars, sorted and de-duplicated. The format is inferred
+ * from the content when not given. Throws MARKET_DATA_PARSE_ERROR or
+ * MARKET_DATA_EMPTY (no usable rows).
+ */
+export function parseMarketData(text: string, format?: MarketDataFormat): MarketBar[] {
+  const trimmed = String(text || "").trim();
+  const kind = format || (trimmed.startsWith("[") || trimmed.startsWith("{") ? "json" : "csv");
+  let rows: MarketBar[];
+  if (kind === "json") {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error("MARKET_DATA_PARSE_ERROR: invalid JSON.");
+    }
+    rows = parseJsonRows(parsed);
+  } else {
+    rows = parseCsv(trimmed);
+  }
+  if (rows.length === 0) throw new Error("MARKET_DATA_EMPTY: no rows with a timestamp and a positive price.");
+  return mergeMarketBars([], rows);
+}
+
+/**
+ * Merge bars by timestamp, sorted ascending. On a clash the incoming bar wins
+ * field by field, so a price-only import keeps DAA scores already stored.
+ */
+export function mergeMarketBars(existing: MarketBar[], incoming: MarketBar[]): MarketBar[] {
+  const byTs = new Map<number, MarketBar>();
+  for (const bar of existing) byTs.set(bar.ts, bar);
+  for (const bar of incoming) {
+    const prev = byTs.get(bar.ts);
+    if (!prev) {
+      byTs.set(bar.ts, bar);
+      continue;
+    }
+    const merged: MarketBar = { ...prev };
+    for (const [key, value] of Object.entries(bar)) {
+      // Zero DAA / wallet values are placeholders from sources without them.
+      if ((key === "daaScore" || key === "walletKas") && !value) continue;
+      if (value !== undefined) (merged as any)[key] = value;
+    }
+    byTs.set(bar.ts, merged);
+  }
+  return [...byTs.values()].sort((a, b) => a.ts - b.ts);
+}
+
+/**
+ * Bucket bars into timeframe candles aligned to the epoch. Each output bar is
+ * stamped with its bucket start; priceUsd is the close, and DAA / wallet
+ * values are the last in the bucket.
+ */
+export function resampleMarketBars(bars: MarketBar[], timeframe: TimeframeKey): MarketBar[] {
+  const spanMs = TIMEFRAME_MS[timeframe];
+  if (!spanMs) throw new Error(`MARKET_DATA_UNKNOWN_TIMEFRAME: ${timeframe}`);
+  const out: MarketBar[] = [];
+  let current: MarketBar | null = null;
+  for (const bar of [...bars].sort((a, b) => a.ts - b.ts)) {
+    const bucket = Math.floor(bar.ts / spanMs) * spanMs;
+    const open = bar.openUsd ?? bar.priceUsd;
+    const high = bar.highUsd ?? Math.max(open, bar.priceUsd);
+    const low = bar.lowUsd ?? Math.min(open, bar.priceUsd);
+    if (!current || current.ts !== bucket) {
+      current = {
+        ts: bucket,
+        priceUsd: bar.priceUsd,
+        daaScore: bar.daaScore,
+        walletKas: bar.walletKas,
+        openUsd: open,
+        highUsd: high,
+        lowUsd: low,
+        volume: bar.volume ?? 0,
+      };
+      out.push(current);
+      continue;
+    }
+    current.priceUsd = bar.priceUsd;
+    current.highUsd = Math.max(current.highUsd!, high);
+    current.lowUsd = Math.min(current.lowUsd!, low);
+    current.volume = (current.volume ?? 0) + (bar.volume ?? 0);
+    if (bar.daaScore) current.daaScore = bar.daaScore;
+    if (bar.walletKas) current.walletKas = bar.walletKas;
+  }
+  return out;
+}
@@ -0,0 +1,280 @@
+import { mergeMarketBars, parseMarketData, resampleMarketBars, type MarketBar, type MarketDataFormat } from "./marketData";
+import type { TimeframeKey } from "./multiTimeframe";
+
+// Local historical dataset for the quant engine, shared by the backtester, the
+// RL trainer and the dashboard. Storage is pluggable: IndexedDB in the
+// browser, in-memory for tests, JSON files for the CLI
+// (scripts/lib/marketDataFileBackend.ts).
+
+/** Series imported datasets land in by default. */
+export const DEFAULT_MARKET_SERIES = "kas-usd";
+/** Series the dashboard records its live feed into. */
+export const LIVE_MARKET_SERIES = "kas-usd-live";
+/** The live series keeps at most one snapshot per minute… */
+export const LIVE_MARKET_SAMPLE_MS = 60_000;
+/** …for the last 30 days. */
+export const LIVE_MARKET_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const LIVE_MARKET_PRUNE_EVERY_MS = 60 * 60 * 1000;
+
+export type MarketSeriesInfo = {
+  series: string;
+  count: number;
+  firstTs: number;
+  lastTs: number;
+};
+
+export interface MarketDataBackend {
+  /** Bars of a series with fromTs <= ts <= toTs, ascending; only the latest `limit` when given. */
+  range(series: string, fromTs: number, toTs: number, limit?: number): Promise<MarketBar[]>;
+  /** Insert or replace bars by timestamp. */
+  put(series: string, bars: MarketBar[]): Promise<void>;
+  listSeries(): Promise<MarketSeriesInfo[]>;
+  /** Delete bars with fromTs <= ts <= toTs. */
+  remove(series: string, fromTs: number, toTs: number): Promise<void>;
+  clear(series: string): Promise<void>;
+}
+
+export type MarketSnapshotQuery = {
+  series?: string;
+  fromTs?: number;
+  toTs?: number;
+  /** Resample into multi-timeframe buckets; raw rows when omitted. */
+  timeframe?: TimeframeKey;
+  /** Keep only the most recent N rows (after resampling). */
+  limit?: number;
+};
+
+export type MarketDataStore = {
+  /** Parse and merge an export into a series; returns the rows imported and the series size after. */
+  importText(text: string, options?: { series?: string; format?: MarketDataFormat }): Promise<{ imported: number; total: number }>;
+  /** Merge bars into a series, keeping fields the incoming bars lack. */
+  upsert(series: string, bars: MarketBar[]): Promise<void>;
+  query(query?: MarketSnapshotQuery): Promise<MarketBar[]>;
+  listSeries(): Promise<MarketSeriesInfo[]>;
+  /** Drop bars older than beforeTs. */
+  prune(series: string, beforeTs: number): Promise<void>;
+  clear(series: string): Promise<void>;
+};
+
+function normalizeSeries(series?: string) {
+  const out = String(series || DEFAULT_MARKET_SERIES).trim().toLowerCase().replace(/[^a-z0-9._-]/g, "_").slice(0, 80);
+  return out || DEFAULT_MARKET_SERIES;
+}
+
+export function createMarketDataStore(backend: MarketDataBackend): MarketDataStore {
+  const upsert = async (series: string, bars: MarketBar[]) => {
+    if (bars.length === 0) return;
+    const name = normalizeSeries(series);
+    const sorted = mergeMarketBars([], bars);
+    const existing = await backend.range(name, sorted[0].ts, sorted[sorted.length - 1].ts);
+    const incomingTs = new Set(sorted.map((bar) => bar.ts));
+    // Write back only the incoming timestamps, merged field-wise with what was stored.
+    await backend.put(name, mergeMarketBars(existing, sorted).filter((bar) => incomingTs.has(bar.ts)));
+  };
+
+  return {
+    async importText(text, options = {}) {
+      const series = normalizeSeries(options.series);
+      const bars = parseMarketData(text, options.format);
+      await upsert(series, bars);
+      const info = (await backend.listSeries()).find((s) => s.series === series);
+      return { imported: bars.length, total: info?.count ?? bars.length };
+    },
+    upsert,
+    async query(query = {}) {
+      const limit = Math.floor(Number(query.limit));
+      const rows = await backend.range(
+        normalizeSeries(query.series),
+        Number.isFinite(query.fromTs) ? Number(query.fromTs) : 0,
+        Number.isFinite(query.toTs) ? Number(query.toTs) : Number.MAX_SAFE_INTEGER,
+        // Raw queries read only the rows they return; resampling needs the whole range.
+        limit > 0 && !query.timeframe ? limit : undefined,
+      );
+      const out = query.timeframe ? resampleMarketBars(rows, query.timeframe) : rows;
+      return limit > 0 ? out.slice(-limit) : out;
+    },
+    listSeries: () => backend.listSeries(),
+    async prune(series, beforeTs) {
+      if (beforeTs > 0) await backend.remove(normalizeSeries(series), 0, beforeTs - 1);
+    },
+    clear: (series) => backend.clear(normalizeSeries(series)),
+  };
+}
+
+/**
+ * Records the dashboard feed into LIVE_MARKET_SERIES. Ticks that repeat the
+ * last recorded state or arrive within LIVE_MARKET_SAMPLE_MS of it are
+ * dropped, and rows past LIVE_MARKET_RETENTION_MS are pruned (at most hourly).
+ */
+export function createLiveMarketRecorder(
+  store: MarketDataStore,
+  options: { sampleMs?: number; retentionMs?: number } = {},
+) {
+  const sampleMs = Math.max(0, Number(options.sampleMs ?? LIVE_MARKET_SAMPLE_MS));
+  const retentionMs = Math.max(0, Number(options.retentionMs ?? LIVE_MARKET_RETENTION_MS));
+  let last: MarketBar | null = null;
+  let lastPruneTs = 0;
+
+  return async (snapshot: MarketBar) => {
+    if (!(snapshot.priceUsd > 0)) return false;
+    const sameState =
+      last &&
+      last.priceUsd === snapshot.priceUsd &&
+      last.daaScore === snapshot.daaScore &&
+      last.walletKas === snapshot.walletKas;
+    if (sameState || (last && snapshot.ts - last.ts < sampleMs)) return false;
+    last = snapshot;
+    await store.upsert(LIVE_MARKET_SERIES, [snapshot]);
+    if (retentionMs > 0 && snapshot.ts - lastPruneTs >= LIVE_MARKET_PRUNE_EVERY_MS) {
+      lastPruneTs = snapshot.ts;
+      await store.prune(LIVE_MARKET_SERIES, snapshot.ts - retentionMs);
+    }
+    return true;
+  };
+}
+
+// ── Backends ─────────────────────────────────────────────────────────────────
+
+export function createMemoryMarketBackend(): MarketDataBackend {
+  const data = new Map<string, Map<number, MarketBar>>();
+  return {
+    async range(series, fromTs, toTs, limit) {
+      const rows = [...(data.get(series)?.values() ?? [])].filter((bar) => bar.ts >= fromTs && bar.ts <= toTs);
+      rows.sort((a, b) => a.ts - b.ts);
+      return limit ? rows.slice(-limit) : rows;
+    },
+    async put(series, bars) {
+      const rows = data.get(series) ?? new Map<number, MarketBar>();
+      for (const bar of bars) rows.set(bar.ts, { ...bar });
+      data.set(series, rows);
+    },
+    async listSeries() {
+      return [...data.entries()]
+        .filter(([, rows]) => rows.size > 0)
+        .map(([series, rows]) => {
+          const ts = [...rows.keys()];
+          return { series, count: rows.size, firstTs: Math.min(...ts), lastTs: Math.max(...ts) };
+        });
+    },
+    async remove(series, fromTs, toTs) {
+      const rows = data.get(series);
+      if (!rows) return;
+      for (const ts of [...rows.keys()]) if (ts >= fromTs && ts <= toTs) rows.delete(ts);
+    },
+    async clear(series) {
+      data.delete(series);
+    },
+  };
+}
+
+const IDB_NAME = "forgeos-market-data";
+const IDB_STORE = "bars";
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function idbDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** One record per bar, keyed [series, ts], so range queries and upserts touch only the rows involved. */
+export function createIndexedDbMarketBackend(dbName = IDB_NAME): MarketDataBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => {
+    if (!dbPromise) {
+      const open = indexedDB.open(dbName, 1);
+      open.onupgradeneeded = () => {
+        if (!open.result.objectStoreNames.contains(IDB_STORE)) {
+          open.result.createObjectStore(IDB_STORE, { keyPath: ["series", "ts"] });
+        }
+      };
+      dbPromise = idbRequest(open).catch((err) => {
+        dbPromise = null;
+        throw err;
+      });
+    }
+    return dbPromise;
+  };
+  const seriesRange = (series: string, fromTs: number, toTs: number) => IDBKeyRange.bound([series, fromTs], [series, toTs]);
+
+  return {
+    async range(series, fromTs, toTs, limit) {
+      const tx = (await db()).transaction(IDB_STORE, "readonly");
+      const store = tx.objectStore(IDB_STORE);
+      let rows: any[];
+      if (!limit) {
+        rows = await idbRequest(store.getAll(seriesRange(series, fromTs, toTs)));
+      } else {
+        // Walk back from the newest row so only `limit` records are read.
+        rows = await new Promise<any[]>((resolve, reject) => {
+          const out: any[] = [];
+          const request = store.openCursor(seriesRange(series, fromTs, toTs), "prev");
+          request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor || out.length >= limit) return resolve(out.reverse());
+            out.push(cursor.value);
+            cursor.continue();
+          };
+          request.onerror = () => reject(request.error);
+        });
+      }
+      return rows.map(({ series: _series, ...bar }: any) => bar as MarketBar);
+    },
+    async put(series, bars) {
+      const tx = (await db()).transaction(IDB_STORE, "readwrite");
+      const store = tx.objectStore(IDB_STORE);
+      for (const bar of bars) store.put({ ...bar, series });
+      await idbDone(tx);
+    },
+    async listSeries() {
+      const tx = (await db()).transaction(IDB_STORE, "readonly");
+      const keys = (await idbRequest(tx.objectStore(IDB_STORE).getAllKeys())) as Array<[string, number]>;
+      const bySeries = new Map<string, MarketSeriesInfo>();
+      for (const [series, ts] of keys) {
+        const info = bySeries.get(series);
+        if (!info) bySeries.set(series, { series, count: 1, firstTs: ts, lastTs: ts });
+        else {
+          info.count += 1;
+          info.firstTs = Math.min(info.firstTs, ts);
+          info.lastTs = Math.max(info.lastTs, ts);
+        }
+      }
+      return [...bySeries.values()];
+    },
+    async remove(series, fromTs, toTs) {
+      const tx = (await db()).transaction(IDB_STORE, "readwrite");
+      tx.objectStore(IDB_STORE).delete(seriesRange(series, fromTs, toTs));
+      await idbDone(tx);
+    },
+    async clear(series) {
+      const tx = (await db()).transaction(IDB_STORE, "readwrite");
+      tx.objectStore(IDB_STORE).delete(seriesRange(series, 0, Number.MAX_SAFE_INTEGER));
+      await idbDone(tx);
+    },
+  };
+}
+
+let browserStore: MarketDataStore | null = null;
+
+/** The app-wide store: IndexedDB when available, otherwise in-memory for the session. */
+export function getMarketDataStore(): MarketDataStore {
+  if (!browserStore) {
+    browserStore = createMarketDataStore(
+      typeof indexedDB !== "undefined" ? createIndexedDbMarketBackend() : createMemoryMarketBackend(),
+    );
+  }
+  return browserStore;
+}
+
+/** Query the app-wide store (see MarketSnapshotQuery). */
+export function queryMarketSnapshots(query: MarketSnapshotQuery = {}): Promise<MarketBar[]> {
+  return getMarketDataStore().query(query);
+}
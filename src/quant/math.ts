@@ -118,6 +118,27 @@ export function tail(values: number[], maxItems: number) {
   return values.slice(Math.max(0, values.length - maxItems));
 }
 
+/** Seeded uniform [0, 1) generator (mulberry32) for reproducible simulations. */
+export function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Linear-interpolated percentile of an ascending-sorted array, p in 0..1. */
+export function percentileSorted(sorted: number[], p: number) {
+  if (sorted.length === 0) return 0;
+  const pos = clamp(p, 0, 1) * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
 // ===========================================
 // ADVANCED TECHNICAL INDICATORS
 // ===========================================
@@ -31,7 +31,7 @@ export type MultiTimeframeSignals = {
   dominantTimeframe: TimeframeKey;
 };
 
-const TIMEFRAME_MS: Record<TimeframeKey, number> = {
+export const TIMEFRAME_MS: Record<TimeframeKey, number> = {
   "1h": 60 * 60 * 1000,
   "4h": 4 * 60 * 60 * 1000,
   "24h": 24 * 60 * 60 * 1000,
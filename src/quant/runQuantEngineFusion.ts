@@ -12,6 +12,8 @@ type ResolveOverlayPlanParams = {
   coreDecision: any;
   cached: CachedOverlayDecision | null;
   config: OverlayPlanConfig;
+  /** Clock for cache ages; defaults to Date.now() (backtests pass the snapshot time). */
+  now?: number;
 };
 
 type FuseParams = {
@@ -21,11 +23,13 @@ type FuseParams = {
   aiLatencyMs: number;
   startedAt: number;
   sanitizeDecision: (raw: any, agent: any) => any;
+  /** Clock for the engine latency; defaults to Date.now() (backtests pass the snapshot time). */
+  now?: number;
 };
 
 export function resolveAiOverlayPlan(params: ResolveOverlayPlanParams) {
   const { coreDecision, cached, config } = params;
-  const now = Date.now();
+  const now = params.now ?? Date.now();
   const signature = decisionSignature(coreDecision);
   const qm = coreDecision?.quant_metrics || {};
 
@@ -171,7 +175,7 @@ export function fuseWithQuantCore(params: FuseParams) {
         ai_action_raw: aiAction,
         ai_confidence_raw: toFinite(aiDecision?.confidence_score, 0),
       },
-      engine_latency_ms: Date.now() - startedAt,
+      engine_latency_ms: (params.now ?? Date.now()) - startedAt,
     },
     agent
   );
@@ -0,0 +1,147 @@
+import { clamp, round, toFinite } from "./math";
+import { AUDIT_HASH_ALGO } from "./runQuantEngineAudit";
+
+// Decision sanitiser shared by the live engine and the offline overlay replay
+// (src/backtest/overlayReplay.ts). It takes the engine's audit versions as
+// parameters so it stays free of the env-backed runQuantEngineConfig.
+
+export type DecisionAuditDefaults = {
+  auditRecordVersion?: string;
+  promptVersion?: string;
+  responseSchemaVersion?: string;
+};
+
+function sanitizeQuantMetrics(raw: any) {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+  const out: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!key) continue;
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) continue;
+      out[key] = Math.abs(value) >= 1000 ? Math.round(value) : round(value, 6);
+      continue;
+    }
+    if (typeof value === "string") {
+      out[key] = value.slice(0, 80);
+      continue;
+    }
+    if (typeof value === "boolean") {
+      out[key] = value;
+    }
+  }
+  return Object.keys(out).length > 0 ? out : undefined;
+}
+
+/**
+ * Normalise an engine decision (quant core, AI overlay or fused) to the shape
+ * the dashboard stores. Audit records missing versions take them from `audit`.
+ */
+export function sanitizeEngineDecision(raw: any, agent: any, audit: DecisionAuditDefaults = {}) {
+  const actionRaw = String(raw?.action || "HOLD").toUpperCase();
+  const action = ["ACCUMULATE", "REDUCE", "HOLD", "REBALANCE"].includes(actionRaw) ? actionRaw : "HOLD";
+
+  const capitalLimit = Math.max(0, toFinite(agent?.capitalLimit, 0));
+  const allocation = clamp(toFinite(raw?.capital_allocation_kas, 0), 0, capitalLimit);
+  const allocationPct =
+    capitalLimit > 0
+      ? clamp((allocation / capitalLimit) * 100, 0, 100)
+      : clamp(toFinite(raw?.capital_allocation_pct, 0), 0, 100);
+
+  const confidence = clamp(toFinite(raw?.confidence_score, 0), 0, 1);
+  const risk = clamp(toFinite(raw?.risk_score, 1), 0, 1);
+
+  const volatilityRaw = String(raw?.volatility_estimate || "MEDIUM").toUpperCase();
+  const volatility = ["LOW", "MEDIUM", "HIGH"].includes(volatilityRaw) ? volatilityRaw : "MEDIUM";
+
+  const liquidityRaw = String(raw?.liquidity_impact || "MODERATE").toUpperCase();
+  const liquidity = ["MINIMAL", "MODERATE", "SIGNIFICANT"].includes(liquidityRaw) ? liquidityRaw : "MODERATE";
+
+  const phaseRaw = String(raw?.strategy_phase || "HOLDING").toUpperCase();
+  const phase = ["ENTRY", "SCALING", "HOLDING", "EXIT"].includes(phaseRaw) ? phaseRaw : "HOLDING";
+
+  const riskFactors = Array.isArray(raw?.risk_factors)
+    ? raw.risk_factors.map((v: any) => String(v)).filter(Boolean).slice(0, 6)
+    : [];
+
+  const decisionSourceRaw = String(raw?.decision_source || "ai").toLowerCase();
+  const decisionSource = ["ai", "fallback", "quant-core", "hybrid-ai"].includes(decisionSourceRaw)
+    ? decisionSourceRaw
+    : "ai";
+  const decisionSourceDetail = String(raw?.decision_source_detail || "").slice(0, 220);
+  const quantMetrics = sanitizeQuantMetrics(raw?.quant_metrics);
+  const engineLatencyMs = Math.max(0, Math.round(toFinite(raw?.engine_latency_ms, 0)));
+  const rawAudit = raw?.audit_record && typeof raw.audit_record === "object" ? raw.audit_record : null;
+  const rawCryptoSig = rawAudit?.crypto_signature && typeof rawAudit.crypto_signature === "object"
+    ? rawAudit.crypto_signature
+    : null;
+  const auditRecord = rawAudit
+    ? {
+        audit_record_version: String(rawAudit.audit_record_version || audit.auditRecordVersion || "").slice(0, 80),
+        hash_algo: String(rawAudit.hash_algo || AUDIT_HASH_ALGO).slice(0, 64),
+        prompt_version: String(rawAudit.prompt_version || audit.promptVersion || "").slice(0, 80),
+        ai_response_schema_version: String(rawAudit.ai_response_schema_version || audit.responseSchemaVersion || "").slice(0, 80),
+        quant_feature_snapshot_hash: String(rawAudit.quant_feature_snapshot_hash || "").slice(0, 120),
+        decision_hash: String(rawAudit.decision_hash || "").slice(0, 120),
+        audit_sig: String(rawAudit.audit_sig || "").slice(0, 140),
+        overlay_plan_reason: String(rawAudit.overlay_plan_reason || "").slice(0, 160),
+        engine_path: String(rawAudit.engine_path || "").slice(0, 80),
+        prompt_used: Boolean(rawAudit.prompt_used),
+        ai_transport_ready: Boolean(rawAudit.ai_transport_ready),
+        created_ts: Math.max(0, Math.round(toFinite(rawAudit.created_ts, 0))),
+        crypto_signature: rawCryptoSig
+          ? {
+              status: String(rawCryptoSig.status || "").slice(0, 32) || undefined,
+              alg: String(rawCryptoSig.alg || "").slice(0, 80) || undefined,
+              key_id: String(rawCryptoSig.key_id || rawCryptoSig.keyId || "").slice(0, 160) || undefined,
+              sig_b64u: String(rawCryptoSig.sig_b64u || rawCryptoSig.signatureB64u || "").slice(0, 600) || undefined,
+              payload_hash_sha256_b64u:
+                String(rawCryptoSig.payload_hash_sha256_b64u || rawCryptoSig.payloadHashSha256B64u || "").slice(0, 160) || undefined,
+              signer: String(rawCryptoSig.signer || "").slice(0, 80) || undefined,
+              signed_ts: Math.max(0, Math.round(toFinite(rawCryptoSig.signed_ts ?? rawCryptoSig.signedAt, 0))),
+              signing_latency_ms: Math.max(0, Math.round(toFinite(rawCryptoSig.signing_latency_ms ?? rawCryptoSig.signingLatencyMs, 0))),
+              public_key_pem:
+                typeof rawCryptoSig.public_key_pem === "string"
+                  ? rawCryptoSig.public_key_pem.slice(0, 4000)
+                  : (typeof rawCryptoSig.publicKeyPem === "string" ? rawCryptoSig.publicKeyPem.slice(0, 4000) : undefined),
+              error: String(rawCryptoSig.error || "").slice(0, 240) || undefined,
+            }
+          : undefined,
+        quant_feature_snapshot_excerpt:
+          rawAudit.quant_feature_snapshot_excerpt && typeof rawAudit.quant_feature_snapshot_excerpt === "object"
+            ? {
+                regime: String(rawAudit.quant_feature_snapshot_excerpt.regime || "").slice(0, 40),
+                sample_count: Math.max(0, Math.round(toFinite(rawAudit.quant_feature_snapshot_excerpt.sample_count, 0))),
+                edge_score: round(toFinite(rawAudit.quant_feature_snapshot_excerpt.edge_score, 0), 6),
+                data_quality_score: round(toFinite(rawAudit.quant_feature_snapshot_excerpt.data_quality_score, 0), 6),
+                price_usd: round(toFinite(rawAudit.quant_feature_snapshot_excerpt.price_usd, 0), 8),
+                wallet_kas: round(toFinite(rawAudit.quant_feature_snapshot_excerpt.wallet_kas, 0), 6),
+                daa_score: Math.max(0, Math.round(toFinite(rawAudit.quant_feature_snapshot_excerpt.daa_score, 0))),
+              }
+            : undefined,
+      }
+    : undefined;
+
+  return {
+    action,
+    confidence_score: round(confidence, 4),
+    risk_score: round(risk, 4),
+    kelly_fraction: clamp(toFinite(raw?.kelly_fraction, 0), 0, 1),
+    capital_allocation_kas: Number(allocation.toFixed(6)),
+    capital_allocation_pct: Number(allocationPct.toFixed(2)),
+    expected_value_pct: Number(toFinite(raw?.expected_value_pct, 0).toFixed(2)),
+    stop_loss_pct: Number(Math.max(0, toFinite(raw?.stop_loss_pct, 0)).toFixed(2)),
+    take_profit_pct: Number(Math.max(0, toFinite(raw?.take_profit_pct, 0)).toFixed(2)),
+    monte_carlo_win_pct: Number(clamp(toFinite(raw?.monte_carlo_win_pct, 0), 0, 100).toFixed(2)),
+    volatility_estimate: volatility,
+    liquidity_impact: liquidity,
+    strategy_phase: phase,
+    rationale: String(raw?.rationale || "No rationale returned by engine."),
+    risk_factors: riskFactors,
+    next_review_trigger: String(raw?.next_review_trigger || "On next cycle or major DAA/price movement."),
+    decision_source: decisionSource,
+    decision_source_detail: decisionSourceDetail,
+    quant_metrics: quantMetrics,
+    engine_latency_ms: engineLatencyMs,
+    ...(auditRecord ? { audit_record: auditRecord } : {}),
+  };
+}
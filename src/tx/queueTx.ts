@@ -1,6 +1,7 @@
 import { normalizeKaspaAddress } from "../helpers";
 import { ALLOWED_ADDRESS_PREFIXES, TREASURY } from "../constants";
 import { WalletAdapter } from "../wallet/WalletAdapter";
+import { assertWalletCanSign } from "../wallet/watchOnly";
 
 export type QueueTxStatus = "pending" | "signing" | "signed" | "rejected" | "failed";
 
@@ -273,6 +274,7 @@ export function buildQueueTxItem(input: any): QueueTxItem {
 }
 
 export async function broadcastQueueTx(wallet: any, txItem: QueueTxItem) {
+  assertWalletCanSign(wallet);
   const tx = validateQueueTxItem(txItem);
   const outputs = Array.isArray(tx.outputs) ? tx.outputs : [];
   const hasMultiOutputs = outputs.length > 1;
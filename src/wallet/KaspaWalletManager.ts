@@ -230,6 +230,46 @@ export async function discoverWalletImportCandidates(
   return out;
 }
 
+export interface DeriveWalletAddressesOptions extends ManagedWalletImportOptions {
+  /** Chain to derive on (0 = receive, 1 = change). Defaults to the derivation's chain. */
+  chain?: 0 | 1;
+  /** First address index. Defaults to 0. */
+  start?: number;
+  /** Number of consecutive indexes to derive. */
+  count: number;
+}
+
+/**
+ * Derive a contiguous run of addresses on one chain of an account.
+ * The mnemonic seed is expanded once for the whole batch (gap-limit scans).
+ */
+export async function deriveWalletAddresses(
+  phrase: string,
+  networkId: string,
+  options: DeriveWalletAddressesOptions,
+): Promise<ManagedWalletImportCandidate[]> {
+  assertValidWordCount(phrase);
+  const normalized = normalizePhrase(phrase);
+  const base = normalizeKaspaDerivation(options.derivation);
+  const chain = options.chain ?? base.chain;
+  const start = Math.max(0, Math.floor(options.start ?? 0));
+  const count = Math.max(0, Math.floor(options.count));
+
+  const ctx = await createMnemonicContext(normalized, options);
+  const out: ManagedWalletImportCandidate[] = [];
+  for (let index = start; index < start + count; index++) {
+    const derivation = normalizeKaspaDerivation({ ...base, chain, index });
+    const { privKey } = derivePrivateKeyFromContext(ctx, derivation);
+    out.push({
+      address: addressFromPrivateKey(privKey, networkId),
+      derivation,
+      derivationPath: formatKaspaDerivationPath(derivation),
+      chainLabel: derivationChainLabel(derivation.chain),
+    });
+  }
+  return out;
+}
+
 /** Persist wallet to localStorage. */
 export function saveManagedWallet(data: ManagedWalletData): void {
   try {
@@ -18,6 +18,18 @@ export const DEFAULT_KASPA_DERIVATION: KaspaDerivationMeta = Object.freeze({
   index: 0,
 });
 
+/**
+ * Co-signer key for multisig accounts (BIP45-style purpose, Kaspa wallet coin
+ * type). The account-level extended public key is what co-signers exchange;
+ * the signing key is its receive/0 child.
+ */
+export const MULTISIG_KASPA_DERIVATION: KaspaDerivationMeta = Object.freeze({
+  path: "m/45'/111111'",
+  account: 0,
+  chain: 0,
+  index: 0,
+});
+
 export const COMMON_KASPA_IMPORT_BASE_PATHS = Object.freeze([
   "m/44'/111'",
   // Some wallets/tools may experiment with alternate coin types.
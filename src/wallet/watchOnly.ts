@@ -0,0 +1,41 @@
+// Watch-only dashboard sessions: a public address with no signer, so balance,
+// analytics and agent panels load while every execution path stays closed.
+
+import { ALLOWED_ADDRESS_PREFIXES, DEFAULT_NETWORK } from "../constants";
+import { normalizeKaspaAddress } from "../helpers";
+
+export const WATCH_ONLY_PROVIDER = "watch";
+
+export type WatchOnlySession = {
+  address: string;
+  network: string;
+  provider: typeof WATCH_ONLY_PROVIDER;
+  watchOnly: true;
+};
+
+/** Build a WalletGate session for an address. Throws WATCH_ONLY_INVALID_ADDRESS. */
+export function createWatchOnlySession(address: string, network: string = DEFAULT_NETWORK): WatchOnlySession {
+  let normalized: string;
+  try {
+    normalized = normalizeKaspaAddress(address, ALLOWED_ADDRESS_PREFIXES);
+  } catch {
+    throw new Error(`WATCH_ONLY_INVALID_ADDRESS: expected prefixes ${ALLOWED_ADDRESS_PREFIXES.join(", ")}`);
+  }
+  return { address: normalized, network, provider: WATCH_ONLY_PROVIDER, watchOnly: true };
+}
+
+export function isWatchOnlyWallet(wallet: any): boolean {
+  return wallet?.provider === WATCH_ONLY_PROVIDER || wallet?.watchOnly === true;
+}
+
+/** Live execution needs a real signer: neither demo nor watch-only sessions have one. */
+export function canWalletSign(wallet: any): boolean {
+  return Boolean(wallet) && wallet.provider !== "demo" && !isWatchOnlyWallet(wallet);
+}
+
+/** Guard for send paths that would otherwise fall through to the demo simulator. */
+export function assertWalletCanSign(wallet: any): void {
+  if (isWatchOnlyWallet(wallet)) {
+    throw new Error("WATCH_ONLY_WALLET: connect a signing wallet to send transactions");
+  }
+}
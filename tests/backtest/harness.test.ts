@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
-import { runQuantBacktest } from "../../src/backtest/harness";
+import { frequencyToMs, runQuantBacktest } from "../../src/backtest/harness";
+import { STRATEGY_TEMPLATES } from "../../src/components/wizard/constants";
 
 function sampleSnapshots(count: number) {
   const out: any[] = [];
@@ -46,6 +47,110 @@ describe("quant backtest harness", () => {
     expect(Number.isFinite(result.sharpeRatio)).toBe(true);
   });
 
+  it("enforces the agent's daily cap and cooldown", () => {
+    const snapshots = sampleSnapshots(420);
+    const base = { risk: "medium", strategyTemplate: "trend", capitalLimit: 180 };
+    const run = (agent: any) => runQuantBacktest({ agent, snapshots, warmupSamples: 36, maxLookback: 240, agentRules: true });
+
+    const uncapped = run({ ...base, maxDailyActions: 0, cooldownCycles: 0 });
+    const capped = run({ ...base, maxDailyActions: 3, cooldownCycles: 0 });
+    expect(capped.totalTrades).toBe(3);
+    expect(capped.blockedByGate.daily_cap).toBeGreaterThan(0);
+    expect(uncapped.totalTrades).toBeGreaterThan(capped.totalTrades);
+
+    const cooled = run({ ...base, maxDailyActions: 0, cooldownCycles: 2 });
+    const gaps = cooled.trades.slice(1).map((t, i) => t.ts - cooled.trades[i].ts);
+    expect(Math.min(...gaps)).toBeGreaterThanOrEqual(3 * 60_000);
+    expect(cooled.blockedByGate.cooldown).toBeGreaterThan(0);
+  });
+
+  it("never sells in accumulate-only mode and exits on stops in full mode", () => {
+    const snapshots = sampleSnapshots(420);
+    const agent = {
+      risk: "high",
+      strategyTemplate: "trend",
+      capitalLimit: 180,
+      stopLossPct: 3,
+      takeProfitPct: 6,
+      maxDailyActions: 0,
+      cooldownCycles: 0,
+    };
+    const accumulateOnly = runQuantBacktest({ agent, snapshots, warmupSamples: 36, agentRules: true });
+    expect(accumulateOnly.rules.actionMode).toBe("accumulate_only");
+    expect(accumulateOnly.trades.every((t) => t.side === "buy")).toBe(true);
+
+    const full = runQuantBacktest({ agent: { ...agent, actionMode: "full" }, snapshots, warmupSamples: 36, agentRules: true });
+    expect(full.stopLossExits).toBeGreaterThan(0);
+    expect(full.takeProfitExits).toBeGreaterThan(0);
+    for (const t of full.trades.filter((t) => t.action === "STOP_LOSS" || t.action === "TAKE_PROFIT")) {
+      expect(t.side).toBe("sell");
+      expect(t.regime).toBe("EXIT");
+    }
+
+    // The deployment-wide switch wins over the agent's action mode.
+    const forced = runQuantBacktest({
+      agent: { ...agent, actionMode: "full" },
+      snapshots,
+      warmupSamples: 36,
+      execution: { accumulateOnly: true },
+      agentRules: true,
+    });
+    expect(forced.stopLossExits + forced.takeProfitExits).toBe(0);
+  });
+
+  it("gates like the dashboard by default and treats an unset actionMode as accumulate-only under agent rules", () => {
+    const snapshots = sampleSnapshots(420);
+    // No actionMode, and stops, caps and a cooldown the dashboard does not enforce.
+    const agent = { risk: "medium", strategyTemplate: "dca_accumulator", capitalLimit: 180, stopLossPct: 1, maxDailyActions: 1, cooldownCycles: 5 };
+
+    const dashboard = runQuantBacktest({ agent, snapshots, warmupSamples: 36 });
+    expect(dashboard.rules).toMatchObject({ actionMode: "full", stopLossPct: 0, maxDailyActions: 0, cooldownCycles: 0 });
+    expect(dashboard.trades.some((t) => t.action === "REDUCE" && t.side === "sell")).toBe(true);
+    expect(dashboard.totalTrades).toBeGreaterThan(1);
+    expect(dashboard.stopLossExits).toBe(0);
+
+    // The deployment-wide accumulate-only switch is the dashboard's own gate.
+    const switched = runQuantBacktest({ agent, snapshots, warmupSamples: 36, execution: { accumulateOnly: true } });
+    expect(switched.trades.every((t) => t.side === "buy")).toBe(true);
+    expect(switched.blockedByGate.action_mode).toBeGreaterThan(0);
+
+    // Opting into the wizard rules: REDUCE no longer executes without actionMode "full".
+    const withRules = runQuantBacktest({ agent, snapshots, warmupSamples: 36, agentRules: true });
+    expect(withRules.rules.actionMode).toBe("accumulate_only");
+    expect(withRules.trades.some((t) => t.side === "sell")).toBe(false);
+    expect(withRules.blockedByGate.action_mode).toBeGreaterThan(0);
+  });
+
+  it("runs agent cycles at the wizard frequency only under agent rules", () => {
+    const snapshots = sampleSnapshots(420);
+    const agent = { risk: "medium", strategyTemplate: "trend", capitalLimit: 180, maxDailyActions: 0, cooldownCycles: 0, frequency: "5m" };
+
+    const every5m = runQuantBacktest({ agent, snapshots, warmupSamples: 36, agentRules: true });
+    const gaps = every5m.trades.slice(1).map((t, i) => t.ts - every5m.trades[i].ts);
+    expect(every5m.totalTrades).toBeGreaterThan(0);
+    expect(Math.min(...gaps)).toBeGreaterThanOrEqual(5 * 60_000);
+
+    const dashboard = runQuantBacktest({ agent, snapshots, warmupSamples: 36 });
+    expect(dashboard.agentCycles).toBe(420 - 36);
+  });
+
+  it("paces every default strategy template at its wizard frequency", () => {
+    const snapshots = sampleSnapshots(1_500);
+    const spanMs = snapshots[snapshots.length - 1].ts - snapshots[36].ts;
+    for (const template of STRATEGY_TEMPLATES) {
+      const agent = { ...template.defaults, strategyTemplate: template.id, capitalLimit: 500 };
+      const intervalMs = frequencyToMs(agent.frequency);
+      expect(intervalMs, template.id).toBeGreaterThanOrEqual(60_000);
+
+      const paced = runQuantBacktest({ agent, snapshots, warmupSamples: 36, agentRules: true });
+      expect(paced.agentCycles, template.id).toBe(Math.floor(spanMs / intervalMs) + 1);
+      const gaps = paced.trades.slice(1).map((t, i) => t.ts - paced.trades[i].ts);
+      if (gaps.length) expect(Math.min(...gaps), template.id).toBeGreaterThanOrEqual(intervalMs);
+
+      expect(runQuantBacktest({ agent, snapshots, warmupSamples: 36 }).agentCycles, template.id).toBe(1_500 - 36);
+    }
+  });
+
   it("throws on insufficient data", () => {
     expect(() =>
       runQuantBacktest({
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { runQuantBacktest, type QuantBacktestResult } from "../../src/backtest/harness";
+import { runMonteCarloRobustness } from "../../src/backtest/monteCarlo";
+
+function sampleSnapshots(count: number) {
+  const out: any[] = [];
+  const startTs = 1_710_000_000_000;
+  let price = 0.11;
+  let daa = 3_000_000;
+  for (let i = 0; i < count; i += 1) {
+    const drift = i < count / 2 ? 1.0012 : 0.9991;
+    const noise = 1 + Math.sin(i / 14) * 0.0022;
+    price = Math.max(0.02, price * drift * noise);
+    daa += 9 + (i % 3);
+    out.push({ ts: startTs + i * 60_000, priceUsd: Number(price.toFixed(8)), daaScore: daa, walletKas: 5000 });
+  }
+  return out;
+}
+
+function resultWith(pnls: number[], equity: number[]): QuantBacktestResult {
+  return {
+    initialCashUsd: 1000,
+    trades: pnls.map((realizedPnlUsd, i) => ({
+      ts: i,
+      side: "sell",
+      qtyKas: 1,
+      priceUsd: 0.1,
+      notionalUsd: 0.1,
+      feeUsd: 0,
+      action: "REDUCE",
+      regime: "NEUTRAL",
+      confidence: 1,
+      realizedPnlUsd,
+    })),
+    equityCurve: equity.map((equityUsd, i) => ({ ts: i * 3_600_000, equityUsd, cashUsd: equityUsd, positionKas: 0 })),
+  } as QuantBacktestResult;
+}
+
+describe("monte carlo robustness", () => {
+  it("produces ordered distributions and fan bands from a backtest", () => {
+    const snapshots = sampleSnapshots(420);
+    const agent = {
+      risk: "high",
+      strategyTemplate: "trend",
+      capitalLimit: 180,
+      actionMode: "full",
+      stopLossPct: 3,
+      takeProfitPct: 6,
+      maxDailyActions: 0,
+      cooldownCycles: 0,
+    };
+    const result = runQuantBacktest({ agent, snapshots, warmupSamples: 36, agentRules: true });
+    const config = { paths: 200, seed: 3, firstPriceUsd: snapshots[0].priceUsd };
+    const report = runMonteCarloRobustness(result, agent, config);
+
+    expect(report.ruinLossUsd).toBeCloseTo(180 * snapshots[0].priceUsd, 2);
+    for (const set of [report.tradeBootstrap!, report.blockBootstrap!]) {
+      expect(set.paths).toBe(200);
+      expect(set.finalEquityUsd.p5).toBeLessThanOrEqual(set.finalEquityUsd.p50);
+      expect(set.finalEquityUsd.p50).toBeLessThanOrEqual(set.finalEquityUsd.p95);
+      expect(set.maxDrawdownPct.p5).toBeGreaterThanOrEqual(0);
+      expect(set.fan[0]).toMatchObject({ step: 0, p5: result.initialCashUsd, p95: result.initialCashUsd });
+      expect(set.fan[set.fan.length - 1].step).toBe(set.steps);
+      for (const point of set.fan) {
+        expect(point.p5).toBeLessThanOrEqual(point.p25);
+        expect(point.p75).toBeLessThanOrEqual(point.p95);
+      }
+    }
+    expect(report.tradeBootstrap!.steps).toBe(result.closedTrades);
+    expect(report.blockBootstrap!.steps).toBe(result.equityCurve.length - 1);
+    // Seeded: identical reports for identical inputs.
+    expect(runMonteCarloRobustness(result, agent, config)).toEqual(report);
+  });
+
+  it("measures ruin, drawdown and recovery on known trade sequences", () => {
+    const losing = runMonteCarloRobustness(resultWith([-10, -10, -10], [1000, 990, 980, 970]), { capitalLimit: 250 }, {
+      paths: 20,
+      firstPriceUsd: 0.1,
+    });
+    expect(losing.ruinLossUsd).toBe(25);
+    expect(losing.tradeBootstrap).toMatchObject({ probabilityOfRuinPct: 100, unrecoveredPct: 100, recoveryUnit: "trades" });
+    expect(losing.tradeBootstrap!.finalEquityUsd.p50).toBe(970);
+    expect(losing.tradeBootstrap!.timeToRecovery.p50).toBe(3);
+    expect(losing.tradeBootstrap!.var95Pct).toBeCloseTo(3, 4);
+    expect(losing.blockBootstrap!.recoveryUnit).toBe("hours");
+
+    const winning = runMonteCarloRobustness(resultWith([5, 5], [1000, 1005, 1010]), { capitalLimit: 250 }, { paths: 10, firstPriceUsd: 0.1 });
+    expect(winning.tradeBootstrap).toMatchObject({ probabilityOfRuinPct: 0, unrecoveredPct: 0, var95Pct: 0 });
+    expect(winning.tradeBootstrap!.maxDrawdownPct.p95).toBe(0);
+  });
+
+  it("skips the trade bootstrap without closed trades", () => {
+    const report = runMonteCarloRobustness(resultWith([], [1000, 1001, 1002, 999]), {}, { paths: 10 });
+    expect(report.tradeBootstrap).toBeNull();
+    expect(report.ruinLossUsd).toBe(1000);
+    expect(report.blockBootstrap?.probabilityOfRuinPct).toBe(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { optimizedStrategyTemplate, runWalkForwardOptimization } from "../../src/backtest/optimizer";
+
+const MINUTES_PER_MONTH = 30 * 24 * 60;
+
+function sampleSnapshots(count: number) {
+  const out: any[] = [];
+  const startTs = 1_710_000_000_000;
+  let price = 0.11;
+  let daa = 3_000_000;
+  for (let i = 0; i < count; i += 1) {
+    const drift = Math.sin(i / 90) > 0 ? 1.0011 : 0.9992;
+    const noise = 1 + Math.sin(i / 14) * 0.0022;
+    price = Math.max(0.02, price * drift * noise);
+    daa += 9 + (i % 3);
+    out.push({ ts: startTs + i * 60_000, priceUsd: Number(price.toFixed(8)), daaScore: daa, walletKas: 5000 });
+  }
+  return out;
+}
+
+const base = {
+  template: "trend",
+  agent: { capitalLimit: 180, frequency: "1m", maxDailyActions: "0", cooldownCycles: "0" },
+  trainMonths: 200 / MINUTES_PER_MONTH,
+  testMonths: 100 / MINUTES_PER_MONTH,
+  backtest: { initialCashUsd: 5000, warmupSamples: 36, maxLookback: 120 },
+};
+
+describe("walk-forward optimizer", () => {
+  it("grid-searches every combination and ranks by penalised out-of-sample score", () => {
+    const result = runWalkForwardOptimization({
+      ...base,
+      snapshots: sampleSnapshots(520),
+      method: "grid",
+      space: { stopLossPct: [2, 6], risk: ["medium", "high"] },
+    });
+    expect(result.folds).toBe(3);
+    expect(result.candidatesEvaluated).toBe(4);
+    expect(result.ranked.map((c) => c.rank)).toEqual([1, 2, 3, 4]);
+    for (let i = 1; i < result.ranked.length; i += 1) {
+      expect(result.ranked[i - 1].score).toBeGreaterThanOrEqual(result.ranked[i].score);
+    }
+    for (const candidate of result.ranked) {
+      expect(candidate.folds).toHaveLength(3);
+      expect(candidate.overfitGap).toBeGreaterThanOrEqual(0);
+      expect(candidate.score).toBeLessThanOrEqual(candidate.outOfSample);
+    }
+    expect(result.best).toEqual(result.ranked[0]);
+  });
+
+  it("random search is deterministic for a seed and exports a strategy template", () => {
+    const snapshots = sampleSnapshots(420);
+    const config = {
+      ...base,
+      snapshots,
+      samples: 3,
+      seed: 7,
+      objective: "calmar" as const,
+      space: { minConfidence: [50, 60, 70], takeProfitPct: [8, 16], cooldownCycles: [0, 2] },
+    };
+    const a = runWalkForwardOptimization(config);
+    const b = runWalkForwardOptimization(config);
+    expect(a.ranked.map((c) => c.params)).toEqual(b.ranked.map((c) => c.params));
+    expect(a.candidatesEvaluated).toBe(3);
+
+    const template = optimizedStrategyTemplate(a, { id: "trend_tuned" });
+    expect(template).toMatchObject({ id: "trend_tuned", tag: "OPTIMIZED", class: "momentum" });
+    expect(template.defaults.takeProfitPct).toMatch(/^\d+\.\d$/);
+    expect(template.defaults.minConfidence).toBe(String(a.best.params.minConfidence));
+    expect(template.defaults.frequency).toBe("1h");
+    expect(a.ranked.some((c) => c.outOfSampleTrades > 0)).toBe(true);
+  });
+
+  it("rejects oversized grids and data too short for one window", () => {
+    expect(() =>
+      runWalkForwardOptimization({ ...base, snapshots: sampleSnapshots(420), method: "grid", maxCandidates: 10 }),
+    ).toThrow(/^OPTIMIZER_GRID_TOO_LARGE/);
+    expect(() => runWalkForwardOptimization({ ...base, snapshots: sampleSnapshots(200) })).toThrow(
+      /^OPTIMIZER_DATA_INSUFFICIENT/,
+    );
+    expect(() => runWalkForwardOptimization({ ...base, template: "nope", snapshots: [] })).toThrow(
+      /^OPTIMIZER_UNKNOWN_TEMPLATE/,
+    );
+  });
+});
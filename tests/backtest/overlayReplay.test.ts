@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { runOverlayComparison, runQuantBacktest } from "../../src/backtest/harness";
+import { createOverlayReplay, recordedOverlayResponses } from "../../src/backtest/overlayReplay";
+
+function sampleSnapshots(count: number) {
+  const out: any[] = [];
+  const startTs = 1_710_000_000_000;
+  let price = 0.11;
+  let daa = 3_000_000;
+  for (let i = 0; i < count; i += 1) {
+    const drift = i < count / 2 ? 1.0012 : 0.9991;
+    const noise = 1 + Math.sin(i / 14) * 0.0022;
+    price = Math.max(0.02, price * drift * noise);
+    daa += 9 + (i % 3);
+    out.push({ ts: startTs + i * 60_000, priceUsd: Number(price.toFixed(8)), daaScore: daa, walletKas: 5000 });
+  }
+  return out;
+}
+
+const agent = { risk: "medium", strategyTemplate: "trend", capitalLimit: 180, actionMode: "full", maxDailyActions: 0, cooldownCycles: 0 };
+
+describe("overlay replay backtest", () => {
+  it("compares quant-only and stub-fused runs on the same data", () => {
+    const snapshots = sampleSnapshots(420);
+    const config = { agent, snapshots, warmupSamples: 36 };
+    const comparison = runOverlayComparison({ ...config, overlay: { source: "stub", mode: "always" } });
+
+    expect(comparison.quantOnly).toEqual(runQuantBacktest(config));
+    expect(comparison.quantOnly.overlay).toBeNull();
+    const stats = comparison.fused.overlay!;
+    expect(stats).toMatchObject({ source: "stub", mode: "always", skipped: 0, reused: 0, missingResponses: 0 });
+    expect(stats.fused).toBe(stats.cycles);
+    expect(stats.planReasons).toEqual({ ai_overlay_mode_always: stats.cycles });
+    expect(comparison.delta.totalReturnPct).toBeCloseTo(comparison.fused.totalReturnPct - comparison.quantOnly.totalReturnPct, 4);
+    expect(comparison.delta.totalTrades).toBe(comparison.fused.totalTrades - comparison.quantOnly.totalTrades);
+    // Deterministic for a fixed payload.
+    expect(runOverlayComparison({ ...config, overlay: { source: "stub", mode: "always" } }).fused).toEqual(comparison.fused);
+  });
+
+  it("keeps the quant core's risk guard over an inverted overlay", () => {
+    const replay = createOverlayReplay(agent, { source: "stub", mode: "always", stub: { action: "invert", confidence: 0.9 } });
+    const core = {
+      action: "REDUCE",
+      confidence_score: 0.7,
+      risk_score: 0.8,
+      capital_allocation_kas: 20,
+      quant_metrics: { regime: "RISK_OFF", risk_ceiling: 0.6, data_quality_score: 0.9, sample_count: 40 },
+    };
+    const fused = replay.decide(core, 1_000);
+    expect(fused.action).toBe("REDUCE");
+    expect(fused.decision_source).toBe("hybrid-ai");
+    expect(fused.quant_metrics.ai_action_raw).toBe("ACCUMULATE");
+    // Sanitised like the live engine, on the snapshot clock.
+    expect(fused).toMatchObject({ engine_latency_ms: 0, volatility_estimate: "MEDIUM", liquidity_impact: "MODERATE", strategy_phase: "HOLDING" });
+
+    const bullish = replay.decide({ ...core, action: "ACCUMULATE", risk_score: 0.3, quant_metrics: { ...core.quant_metrics, regime: "TREND_UP" } }, 2_000);
+    expect(bullish.action).toBe("REDUCE");
+    expect(replay.stats()).toMatchObject({ cycles: 2, fused: 2, guardOverrides: 1, actionChanges: 1 });
+
+    // No capital limit means no allocation, as live.
+    const unfunded = createOverlayReplay({ ...agent, capitalLimit: 0 }, { source: "stub", mode: "always" });
+    expect(unfunded.decide({ ...core, action: "ACCUMULATE", risk_score: 0.3, quant_metrics: { ...core.quant_metrics, regime: "TREND_UP" } }, 1_000).capital_allocation_kas).toBe(0);
+  });
+
+  it("replays recorded AI responses from dashboard decision records", () => {
+    const snapshots = sampleSnapshots(240);
+    const records = snapshots.slice(36, 120).map((s) => ({
+      ts: s.ts,
+      source: "hybrid-ai",
+      dec: {
+        action: "HOLD",
+        confidence_score: 0.6,
+        risk_score: 0.4,
+        capital_allocation_kas: 12,
+        quant_metrics: { regime: "NEUTRAL", ai_overlay_applied: true, ai_action_raw: "ACCUMULATE", ai_confidence_raw: 0.8 },
+        audit_record: { decision_hash: "h", created_ts: s.ts },
+      },
+    }));
+    expect(recordedOverlayResponses([{ ts: 5, dec: { action: "HOLD" } }, records[1], records[0]]).map((r) => r.ts)).toEqual([records[0].ts, records[1].ts]);
+    expect(recordedOverlayResponses(records)[0].response).toMatchObject({ action: "ACCUMULATE", confidence_score: 0.8 });
+    expect(recordedOverlayResponses(records)[0].response.audit_record).toBeUndefined();
+
+    const result = runQuantBacktest({
+      agent,
+      snapshots,
+      warmupSamples: 36,
+      overlay: { source: "recorded", records, mode: "always", maxRecordAgeMs: 10 * 60_000 },
+    });
+    // Records cover snapshots 36–119; with a 10-minute window cycles up to 129 find one.
+    // Cycles that close a position on a stop / take-profit never reach the overlay.
+    expect(result.overlay!.fused).toBe(94);
+    expect(result.overlay!.missingResponses).toBe(result.overlay!.cycles - 94);
+    expect(result.overlay!.cycles).toBe(204 - result.stopLossExits - result.takeProfitExits);
+    expect(() => createOverlayReplay(agent, { source: "recorded", records: [{ ts: 1, dec: { action: "HOLD" } }] })).toThrow(
+      /OVERLAY_REPLAY_NO_RECORDS/,
+    );
+  });
+});
@@ -286,6 +286,8 @@ describe("window.forgeos provider shape", () => {
     expect(typeof f.signMessage).toBe("function");
     expect(typeof f.openExtension).toBe("function");
     expect(typeof f.disconnect).toBe("function");
+    expect(typeof f.sendKaspa).toBe("function");
+    expect(typeof f.sendBatch).toBe("function");
   });
 
   it("does not overwrite an existing isForgeOS=true provider", async () => {
@@ -295,3 +297,95 @@ describe("window.forgeos provider shape", () => {
     expect((window as any).forgeos.version).toBe("existing");
   });
 });
+
+// ── Transaction requests ──────────────────────────────────────────────────────
+
+describe("sendKaspa / sendBatch", () => {
+  beforeEach(() => {
+    delete (window as any).forgeos;
+  });
+
+  function capturePosts() {
+    const posted: any[] = [];
+    const original = window.postMessage.bind(window);
+    const spy = vi.spyOn(window, "postMessage").mockImplementation((data, ...args) => {
+      posted.push(data);
+      return original(data, ...(args as [any]));
+    });
+    return { posted, spy };
+  }
+
+  it("posts outputs with amounts as decimal sompi strings and resolves with the txId", async () => {
+    const { posted, spy } = capturePosts();
+    await import("../../extension/content/page-provider");
+    const forgeos = (window as any).forgeos;
+
+    const p = forgeos.sendBatch(
+      [{ address: "kaspa:qa", amountSompi: 123_456_789_012_345_678n }, { address: "kaspa:qb", amountSompi: 42 }],
+      { payloadHex: "cafe", feeTier: "low" },
+    );
+    await new Promise((r) => setTimeout(r, 5));
+    spy.mockRestore();
+
+    const msg = posted.find((m) => m?.[S] && m?.type === "FORGEOS_SEND");
+    expect(msg.outputs).toEqual([
+      { address: "kaspa:qa", amountSompi: "123456789012345678" },
+      { address: "kaspa:qb", amountSompi: "42" },
+    ]);
+    expect(msg.payloadHex).toBe("cafe");
+    expect(msg.feeTier).toBe("low");
+
+    dispatchWindowMessage({ [S]: true, requestId: msg.requestId, result: { txId: "ab".repeat(32) } });
+    await expect(p).resolves.toEqual({ txId: "ab".repeat(32) });
+  });
+
+  it("rejects non-integer or non-positive amounts before posting", async () => {
+    const { posted, spy } = capturePosts();
+    await import("../../extension/content/page-provider");
+    const forgeos = (window as any).forgeos;
+
+    await expect(forgeos.sendKaspa("kaspa:qa", 1.5)).rejects.toThrow(/whole number of sompi/);
+    await expect(forgeos.sendKaspa("kaspa:qa", "0")).rejects.toThrow(/whole number of sompi/);
+    await expect(forgeos.sendBatch([])).rejects.toThrow(/at least one output/);
+    spy.mockRestore();
+
+    expect(posted.some((m) => m?.type === "FORGEOS_SEND")).toBe(false);
+  });
+});
+
+// ── Provider events ───────────────────────────────────────────────────────────
+
+describe("provider events", () => {
+  beforeEach(() => {
+    delete (window as any).forgeos;
+  });
+
+  it("delivers pushed events to listeners until they are removed", async () => {
+    await import("../../extension/content/page-provider");
+    const forgeos = (window as any).forgeos;
+    const seen: unknown[] = [];
+    const onNetwork = (data: unknown) => seen.push(data);
+
+    expect(forgeos.on("networkChanged", onNetwork)).toBe(forgeos);
+    dispatchWindowMessage({ [S]: true, type: "FORGEOS_PROVIDER_EVENT", event: "networkChanged", data: { network: "testnet-10" } });
+    forgeos.removeListener("networkChanged", onNetwork);
+    dispatchWindowMessage({ [S]: true, type: "FORGEOS_PROVIDER_EVENT", event: "networkChanged", data: { network: "mainnet" } });
+
+    expect(seen).toEqual([{ network: "testnet-10" }]);
+  });
+
+  it("ignores unknown events and keeps calling listeners after one throws", async () => {
+    await import("../../extension/content/page-provider");
+    const forgeos = (window as any).forgeos;
+    const calls: string[] = [];
+    forgeos.on("locked", () => { throw new Error("page bug"); });
+    forgeos.on("locked", () => calls.push("locked"));
+
+    expect(() => forgeos.on("chainChanged", () => {})).toThrow(/unknown event/);
+    dispatchWindowMessage({ [S]: true, type: "FORGEOS_PROVIDER_EVENT", event: "chainChanged" });
+    dispatchWindowMessage({ [S]: true, type: "FORGEOS_PROVIDER_EVENT", event: "locked" });
+    dispatchCrossFrameMessage({ [S]: true, type: "FORGEOS_PROVIDER_EVENT", event: "locked" });
+
+    expect(calls).toEqual(["locked"]);
+  });
+});
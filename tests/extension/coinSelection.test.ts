@@ -0,0 +1,225 @@
+// Coin selection strategy tests: ordering of the accumulating strategies,
+// branch-and-bound exact matches, changeless builds with fallback, and the
+// per-strategy fee/mass comparison.
+//
+// The builder is imported from source; network calls and the store are mocked.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Utxo } from "../../extension/utxo/types";
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockGetOrSyncUtxos = vi.fn();
+const mockEstimateFee = vi.fn();
+const mockGetLockedUtxoKeys = vi.fn();
+
+vi.mock("../../extension/utxo/utxoSync", async (importActual) => {
+  const real = await importActual<typeof import("../../extension/utxo/utxoSync")>();
+  return {
+    ...real,
+    getOrSyncUtxos: (...a: unknown[]) => mockGetOrSyncUtxos(...a),
+  };
+});
+
+vi.mock("../../extension/network/kaspaClient", () => ({
+  estimateFee: (...a: unknown[]) => mockEstimateFee(...a),
+}));
+
+vi.mock("../../extension/tx/store", () => ({
+  getLockedUtxoKeys: (...a: unknown[]) => mockGetLockedUtxoKeys(...a),
+}));
+
+vi.mock("../../src/wallet/kaspaWasmLoader", () => ({
+  loadKaspaWasm: vi.fn(),
+}));
+
+// ── Test data ─────────────────────────────────────────────────────────────────
+
+const FROM = "kaspa:qpfrom000000000000000000000000000000000000000000000000001";
+const TO = "kaspa:qpto000000000000000000000000000000000000000000000000000002";
+const SOMPI = 100_000_000n;
+const BASE_FEE = 10_000n;
+const POLICY_FEE = 11_500n; // BASE_FEE with the default 1.15× safety buffer
+const PLATFORM_FEE = 30_000_000n; // 0.3% of 100 KAS
+
+function makeUtxo(txId: string, amount: bigint, daaScore = 1n): Utxo {
+  return {
+    txId,
+    outputIndex: 0,
+    address: FROM,
+    amount,
+    scriptPublicKey: "20" + "aa".repeat(32) + "ac",
+    scriptVersion: 0,
+    scriptClass: "standard",
+    blockDaaScore: daaScore,
+    isCoinbase: false,
+  };
+}
+
+function makeUtxoSet(utxos: Utxo[]) {
+  return {
+    address: FROM,
+    utxos,
+    confirmedBalance: utxos.reduce((acc, u) => acc + u.amount, 0n),
+    pendingOutbound: 0n,
+    lastSyncAt: Date.now(),
+  };
+}
+
+beforeEach(() => {
+  vi.resetModules();
+  mockGetOrSyncUtxos.mockReset();
+  mockEstimateFee.mockResolvedValue(BASE_FEE);
+  mockGetLockedUtxoKeys.mockResolvedValue(new Set<string>());
+});
+
+// ── Strategies ────────────────────────────────────────────────────────────────
+
+describe("selectUtxos strategies", () => {
+  const pool = [
+    makeUtxo("mid", 5n * SOMPI, 30n),
+    makeUtxo("small", 1n * SOMPI, 20n),
+    makeUtxo("large", 10n * SOMPI, 40n),
+    makeUtxo("tiny", SOMPI / 2n, 10n),
+  ];
+
+  it("defaults to largest-first", async () => {
+    const { selectUtxos } = await import("../../extension/utxo/utxoSync");
+    const { selected } = selectUtxos(pool, 2n * SOMPI, 0n);
+    expect(selected.map((u) => u.txId)).toEqual(["large"]);
+  });
+
+  it("consolidates small UTXOs first with smallest-first", async () => {
+    const { selectUtxos } = await import("../../extension/utxo/utxoSync");
+    const { selected, total } = selectUtxos(pool, 2n * SOMPI, 0n, new Set(), { strategy: "smallest-first" });
+    expect(selected.map((u) => u.txId)).toEqual(["tiny", "small", "mid"]);
+    expect(total).toBe(65n * SOMPI / 10n);
+  });
+
+  it("spends by blockDaaScore with oldest-first", async () => {
+    const { selectUtxos } = await import("../../extension/utxo/utxoSync");
+    const { selected } = selectUtxos(pool, 1n * SOMPI, 0n, new Set(), { strategy: "oldest-first" });
+    expect(selected.map((u) => u.txId)).toEqual(["tiny", "small"]);
+  });
+
+  it("finds an exact subset with branch-and-bound", async () => {
+    const { selectUtxos } = await import("../../extension/utxo/utxoSync");
+    const { selected, total } = selectUtxos(pool, 6n * SOMPI, 0n, new Set(), { strategy: "branch-and-bound" });
+    expect(total).toBe(6n * SOMPI);
+    expect(selected.map((u) => u.txId).sort()).toEqual(["mid", "small"]);
+  });
+
+  it("accepts overshoot within maxExcessSompi and prefers the smallest excess", async () => {
+    const { selectUtxos } = await import("../../extension/utxo/utxoSync");
+    const { total } = selectUtxos(pool, 6n * SOMPI - 100n, 0n, new Set(), {
+      strategy: "branch-and-bound",
+      maxExcessSompi: 1_000n,
+    });
+    expect(total).toBe(6n * SOMPI);
+  });
+
+  it("throws NO_EXACT_MATCH when funds suffice but no subset fits", async () => {
+    const { selectUtxos } = await import("../../extension/utxo/utxoSync");
+    expect(() => selectUtxos(pool, 7n * SOMPI, 0n, new Set(), { strategy: "branch-and-bound" }))
+      .toThrow("NO_EXACT_MATCH");
+    expect(() => selectUtxos(pool, 100n * SOMPI, 0n, new Set(), { strategy: "branch-and-bound" }))
+      .toThrow("INSUFFICIENT_FUNDS");
+  });
+
+  it("never selects locked UTXOs regardless of strategy", async () => {
+    const { selectUtxos } = await import("../../extension/utxo/utxoSync");
+    const { COIN_SELECTION_STRATEGY_IDS } = await import("../../extension/utxo/coinSelection");
+    const locked = new Set(["large:0"]);
+    for (const strategy of COIN_SELECTION_STRATEGY_IDS) {
+      const { selected } = selectUtxos(pool, 1n * SOMPI, 0n, locked, { strategy });
+      expect(selected.some((u) => u.txId === "large")).toBe(false);
+    }
+  });
+});
+
+// ── Builder ───────────────────────────────────────────────────────────────────
+
+describe("buildTransaction coinSelection", () => {
+  it("builds a changeless tx when branch-and-bound finds an exact match", async () => {
+    const spend = 100n * SOMPI + PLATFORM_FEE;
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet([
+      makeUtxo("big", 200n * SOMPI),
+      makeUtxo("a", 60n * SOMPI),
+      makeUtxo("b", spend - 60n * SOMPI + POLICY_FEE),
+    ]));
+    const { buildTransaction } = await import("../../extension/tx/builder");
+
+    const tx = await buildTransaction(FROM, TO, 100, "mainnet", { coinSelection: "branch-and-bound" });
+
+    expect(tx.coinSelection).toBe("branch-and-bound");
+    expect(tx.changeOutput).toBeNull();
+    expect(tx.inputs.map((u) => u.txId).sort()).toEqual(["a", "b"]);
+    expect(tx.fee).toBe(POLICY_FEE);
+    // Fee estimated without a change output.
+    expect(mockEstimateFee).toHaveBeenCalledWith(2, 2, "mainnet", expect.any(Number), "priority");
+  });
+
+  it("falls back to largest-first with change when no exact match exists", async () => {
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet([
+      makeUtxo("big", 200n * SOMPI),
+      makeUtxo("a", 60n * SOMPI),
+    ]));
+    const { buildTransaction } = await import("../../extension/tx/builder");
+
+    const tx = await buildTransaction(FROM, TO, 100, "mainnet", { coinSelection: "branch-and-bound" });
+
+    expect(tx.coinSelection).toBe("largest-first");
+    expect(tx.inputs.map((u) => u.txId)).toEqual(["big"]);
+    expect(tx.changeOutput?.amount).toBe(200n * SOMPI - 100n * SOMPI - PLATFORM_FEE - POLICY_FEE);
+  });
+
+  it("passes the strategy through batch builds", async () => {
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet([
+      makeUtxo("old-small", 30n * SOMPI, 1n),
+      makeUtxo("new-large", 500n * SOMPI, 99n),
+      makeUtxo("old-mid", 80n * SOMPI, 2n),
+    ]));
+    const { buildBatchTransaction } = await import("../../extension/tx/builder");
+
+    const tx = await buildBatchTransaction(
+      FROM,
+      [{ address: TO, amountKas: 50 }, { address: TO, amountKas: 40 }],
+      "mainnet",
+      { coinSelection: "oldest-first" },
+    );
+
+    expect(tx.coinSelection).toBe("oldest-first");
+    expect(tx.inputs.map((u) => u.txId)).toEqual(["old-small", "old-mid"]);
+  });
+});
+
+describe("compareCoinSelection", () => {
+  it("quotes inputs, mass and fee for every strategy", async () => {
+    mockEstimateFee.mockImplementation(async (inputs: number, outputs: number) =>
+      BigInt(239 + 142 * inputs + 51 * outputs) * 10n);
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet([
+      makeUtxo("big", 200n * SOMPI, 5n),
+      makeUtxo("d1", 40n * SOMPI, 1n),
+      makeUtxo("d2", 40n * SOMPI, 2n),
+      makeUtxo("d3", 40n * SOMPI, 3n),
+    ]));
+    const { compareCoinSelection } = await import("../../extension/tx/builder");
+
+    const quotes = await compareCoinSelection(FROM, [{ address: TO, amountKas: 100 }], "mainnet");
+    const byId = Object.fromEntries(quotes.map((q) => [q.strategy, q]));
+
+    expect(quotes.map((q) => q.strategy)).toEqual([
+      "largest-first",
+      "smallest-first",
+      "oldest-first",
+      "branch-and-bound",
+    ]);
+    expect(byId["largest-first"]).toMatchObject({ ok: true, inputCount: 1, outputCount: 3 });
+    expect(byId["smallest-first"]).toMatchObject({ ok: true, inputCount: 3, outputCount: 3 });
+    // Both are storage-mass bound (0.3 KAS treasury output); spending more
+    // inputs offsets more of the KIP-9 storage mass.
+    expect(byId["smallest-first"].mass).toBeLessThan(byId["largest-first"].mass);
+    expect(byId["smallest-first"].fee).toBeGreaterThan(byId["largest-first"].fee);
+    expect(byId["branch-and-bound"]).toMatchObject({ ok: false, error: "NO_EXACT_MATCH" });
+  });
+});
@@ -0,0 +1,240 @@
+// UTXO consolidation tests: batch planning under the input cap, fee totals,
+// dust/locked/covenant exclusion, the consolidation builder, and sequential
+// execution through the kernel with progress recorded in the tx store.
+//
+// Network calls are mocked; the tx store persists to an in-memory
+// chrome.storage.local. Sign/broadcast/reconcile are kernel deps.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Utxo } from "../../extension/utxo/types";
+import type { PendingTx } from "../../extension/tx/types";
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockGetOrSyncUtxos = vi.fn();
+const mockEstimateFee = vi.fn();
+
+vi.mock("../../extension/utxo/utxoSync", async (importActual) => {
+  const real = await importActual<typeof import("../../extension/utxo/utxoSync")>();
+  return {
+    ...real,
+    getOrSyncUtxos: (...a: unknown[]) => mockGetOrSyncUtxos(...a),
+  };
+});
+
+vi.mock("../../extension/network/kaspaClient", () => ({
+  estimateFee: (...a: unknown[]) => mockEstimateFee(...a),
+}));
+
+vi.mock("../../src/wallet/kaspaWasmLoader", () => ({
+  loadKaspaWasm: vi.fn(),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+    },
+  },
+};
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const FROM = "kaspa:qpfrom000000000000000000000000000000000000000000000000001";
+const SOMPI = 100_000_000n;
+
+function makeUtxo(txId: string, amount: bigint, standard = true): Utxo {
+  return {
+    txId,
+    outputIndex: 0,
+    address: FROM,
+    amount,
+    scriptPublicKey: standard ? "20" + "aa".repeat(32) + "ac" : "00",
+    scriptVersion: 0,
+    scriptClass: standard ? "standard" : "covenant",
+    blockDaaScore: 1n,
+    isCoinbase: false,
+  };
+}
+
+function dust(count: number, amount = SOMPI / 100n): Utxo[] {
+  return Array.from({ length: count }, (_, i) => makeUtxo(`dust-${i}`, amount));
+}
+
+function makeUtxoSet(utxos: Utxo[]) {
+  return {
+    address: FROM,
+    utxos,
+    confirmedBalance: utxos.reduce((acc, u) => acc + u.amount, 0n),
+    pendingOutbound: 0n,
+    lastSyncAt: Date.now(),
+  };
+}
+
+beforeEach(() => {
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  vi.resetModules();
+  mockGetOrSyncUtxos.mockReset();
+  // 10 sompi per input so fees differ by batch size.
+  mockEstimateFee.mockImplementation(async (inputs: number) => BigInt(1_000 + 10 * inputs));
+});
+
+// ── Planning ──────────────────────────────────────────────────────────────────
+
+describe("planConsolidation", () => {
+  it("splits candidates into evenly sized batches under the input cap", async () => {
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet([...dust(170), makeUtxo("whale", 50n * SOMPI)]));
+    const { planConsolidation, MAX_CONSOLIDATION_INPUTS } = await import("../../extension/tx/consolidation");
+
+    const plan = await planConsolidation(FROM, "mainnet");
+
+    expect(plan.txCount).toBe(3);
+    expect(plan.batches.map((b) => b.inputs.length)).toEqual([57, 57, 56]);
+    expect(plan.batches.every((b) => b.inputs.length <= MAX_CONSOLIDATION_INPUTS)).toBe(true);
+    expect(plan.inputCount).toBe(170);
+    expect(plan.utxoCountBefore).toBe(171);
+    expect(plan.utxoCountAfter).toBe(4);
+    expect(plan.totalFee).toBe(plan.batches.reduce((acc, b) => acc + b.fee, 0n));
+    expect(plan.batches.every((b) => b.outputAmount === b.inputTotal - b.fee)).toBe(true);
+  });
+
+  it("never includes locked, covenant or above-threshold UTXOs", async () => {
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet([
+      ...dust(3),
+      makeUtxo("covenant", SOMPI / 100n, false),
+      makeUtxo("big", 2n * SOMPI),
+      makeUtxo("in-flight", SOMPI / 100n),
+    ]));
+    const { addPendingTx } = await import("../../extension/tx/store");
+    await addPendingTx({
+      id: "busy",
+      state: "CONFIRMING",
+      fromAddress: FROM,
+      network: "mainnet",
+      inputs: [makeUtxo("in-flight", SOMPI / 100n)],
+      outputs: [],
+      changeOutput: null,
+      fee: 1n,
+      builtAt: Date.now(),
+    });
+    const { planConsolidation } = await import("../../extension/tx/consolidation");
+
+    const plan = await planConsolidation(FROM, "mainnet", { thresholdSompi: SOMPI });
+
+    expect(plan.txCount).toBe(1);
+    expect(plan.batches[0].inputs.map((u) => u.txId).sort()).toEqual(["dust-0", "dust-1", "dust-2"]);
+  });
+
+  it("skips batches that cannot cover their own fee", async () => {
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet(dust(4, 100n)));
+    const { planConsolidation } = await import("../../extension/tx/consolidation");
+
+    const plan = await planConsolidation(FROM, "mainnet");
+    expect(plan.txCount).toBe(0);
+    expect(plan.skippedCount).toBe(4);
+  });
+
+  it("returns an empty plan with fewer than two candidates", async () => {
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet([...dust(1), makeUtxo("big", 5n * SOMPI)]));
+    const { planConsolidation } = await import("../../extension/tx/consolidation");
+
+    const plan = await planConsolidation(FROM, "mainnet");
+    expect(plan.txCount).toBe(0);
+    expect(plan.utxoCountAfter).toBe(plan.utxoCountBefore);
+  });
+});
+
+// ── Builder ───────────────────────────────────────────────────────────────────
+
+describe("buildConsolidationTransaction", () => {
+  it("spends exactly the given inputs into one self-output with no change or platform fee", async () => {
+    const { buildConsolidationTransaction } = await import("../../extension/tx/builder");
+    const inputs = dust(5);
+
+    const tx = await buildConsolidationTransaction(FROM, inputs, "mainnet");
+
+    expect(tx.inputs).toEqual(inputs);
+    expect(tx.changeOutput).toBeNull();
+    expect(tx.platformFee).toBeUndefined();
+    expect(tx.outputs).toHaveLength(1);
+    expect(tx.outputs[0].address).toBe(FROM);
+    expect(tx.outputs[0].amount + tx.fee).toBe(5n * (SOMPI / 100n));
+    expect(mockEstimateFee).toHaveBeenCalledWith(5, 1, "mainnet");
+  });
+
+  it("rejects single inputs and dust that cannot pay the fee", async () => {
+    const { buildConsolidationTransaction } = await import("../../extension/tx/builder");
+    await expect(buildConsolidationTransaction(FROM, dust(1), "mainnet")).rejects.toThrow("CONSOLIDATION_TOO_FEW_INPUTS");
+    await expect(buildConsolidationTransaction(FROM, dust(2, 10n), "mainnet")).rejects.toThrow("CONSOLIDATION_DUST");
+  });
+});
+
+// ── Execution ─────────────────────────────────────────────────────────────────
+
+async function makeKernel(failAtIndex: number | null = null) {
+  const store = await import("../../extension/tx/store");
+  const { createDeterministicExecutionKernel } = await import("../../extension/tx/kernel");
+  let broadcasts = 0;
+  return createDeterministicExecutionKernel({
+    addPendingTx: store.addPendingTx,
+    updatePendingTx: store.updatePendingTx,
+    dryRunValidate: vi.fn(async (tx: PendingTx) => ({ valid: true, estimatedFee: tx.fee, changeAmount: 0n, errors: [] })),
+    signTransaction: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "SIGNED" as const })),
+    broadcastTransaction: vi.fn(async (tx: PendingTx) => {
+      const index = broadcasts;
+      broadcasts += 1;
+      if (index === failAtIndex) throw new Error("BROADCAST_REJECTED");
+      return { ...tx, state: "CONFIRMING" as const, txId: `tx-${index}` };
+    }),
+    waitForKaspaConfirmation: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "CONFIRMED" as const })),
+    appendExecutionTelemetryEvent: vi.fn(async () => {}) as any,
+  });
+}
+
+describe("runConsolidation", () => {
+  it("runs every batch in order and records progress in the tx store", async () => {
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet(dust(100)));
+    const { planConsolidation, runConsolidation, getConsolidationProgress } =
+      await import("../../extension/tx/consolidation");
+    const plan = await planConsolidation(FROM, "mainnet", { maxInputsPerTx: 40 });
+    const seen: string[] = [];
+
+    const result = await runConsolidation(plan, {
+      kernel: await makeKernel(),
+      onProgress: ({ index, stage }) => { seen.push(`${index}:${stage}`); },
+    });
+
+    expect(result.error).toBeNull();
+    expect(result.confirmed.map((t) => t.txId)).toEqual(["tx-0", "tx-1", "tx-2"]);
+    expect(result.feePaid).toBe(plan.totalFee);
+    // Batch 1 only starts once batch 0 has reconciled.
+    expect(seen.indexOf("1:build")).toBeGreaterThan(seen.lastIndexOf("0:reconcile"));
+
+    const progress = await getConsolidationProgress(result.runId);
+    expect(progress).toMatchObject({ total: 3, confirmed: 3, failed: 0, inFlight: 0 });
+    expect(progress.txs.map((t) => t.consolidation?.index)).toEqual([0, 1, 2]);
+  });
+
+  it("stops at the first failure and leaves later batches unbuilt", async () => {
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet(dust(100)));
+    const { planConsolidation, runConsolidation, getConsolidationProgress } =
+      await import("../../extension/tx/consolidation");
+    const plan = await planConsolidation(FROM, "mainnet", { maxInputsPerTx: 40 });
+
+    const result = await runConsolidation(plan, { kernel: await makeKernel(1) });
+
+    expect(result.confirmed).toHaveLength(1);
+    expect(result.error).toBe("BROADCAST_REJECTED");
+    expect(result.failedTx?.consolidation?.index).toBe(1);
+
+    const progress = await getConsolidationProgress(result.runId);
+    expect(progress.txs).toHaveLength(2);
+    expect(progress.confirmed).toBe(1);
+  });
+});
@@ -0,0 +1,152 @@
+// Covenant spend tests: template recognition, the dry-run condition check
+// (timelocks, hash-locks, P2SH scripts) and sweeping through the kernel.
+
+import { describe, expect, it, vi } from "vitest";
+import type { PendingTx } from "../../extension/tx/types";
+import type { Utxo } from "../../extension/utxo/types";
+import {
+  buildHashlockScript,
+  buildTimelockScript,
+  covenantLockTime,
+  covenantSignatureScript,
+  covenantTemplateErrors,
+  hashPreimage,
+  p2shScriptPublicKey,
+  parseCovenantScript,
+} from "../../extension/tx/covenantScript";
+
+const PUBKEY = "ab".repeat(32);
+const OWNER = "kaspa:q" + "p".repeat(60);
+const SECRET = "73656372657421"; // "secret!"
+
+function covenantUtxo(scriptPublicKey: string, overrides: Partial<Utxo> = {}): Utxo {
+  return {
+    txId: "cc".repeat(32),
+    outputIndex: 0,
+    address: OWNER,
+    amount: 300_000_000n,
+    scriptPublicKey,
+    scriptVersion: 0,
+    scriptClass: "covenant",
+    blockDaaScore: 10n,
+    isCoinbase: false,
+    ...overrides,
+  };
+}
+
+function spendTx(input: Utxo, spend: Partial<NonNullable<PendingTx["covenant"]>["inputs"][number]> = {}): PendingTx {
+  return {
+    id: "covenant-tx",
+    state: "BUILDING",
+    fromAddress: OWNER,
+    network: "mainnet",
+    inputs: [input],
+    outputs: [{ address: OWNER, amount: input.amount - 5_000n }],
+    changeOutput: null,
+    fee: 5_000n,
+    builtAt: Date.now(),
+    covenant: {
+      inputs: [{ outpoint: `${input.txId}:${input.outputIndex}`, scriptHex: input.scriptPublicKey, p2sh: false, ...spend }],
+    },
+  };
+}
+
+const CHAIN = { daaScore: 1_000_000n, nowMs: Date.now() };
+
+describe("covenant templates", () => {
+  it("recognises timelock and hash-lock scripts and nothing else", () => {
+    expect(parseCovenantScript(buildTimelockScript(900_000n, PUBKEY))).toEqual({ kind: "timelock", lockTime: 900_000n, pubkey: PUBKEY });
+    expect(parseCovenantScript(buildTimelockScript(7n, PUBKEY))).toMatchObject({ kind: "timelock", lockTime: 7n });
+    expect(parseCovenantScript(buildHashlockScript("blake2b", "11".repeat(32), PUBKEY)))
+      .toEqual({ kind: "hashlock", hash: "blake2b", digest: "11".repeat(32), pubkey: PUBKEY });
+
+    expect(parseCovenantScript(`20${PUBKEY}ac`)).toBeNull();
+    expect(parseCovenantScript(`${buildTimelockScript(900_000n, PUBKEY).slice(0, -2)}ad`)).toBeNull();
+    expect(parseCovenantScript("zz")).toBeNull();
+  });
+
+  it("builds the unlock script and the tx lock time from the templates", () => {
+    const timelock = buildTimelockScript(900_000n, PUBKEY);
+    const tx = spendTx(covenantUtxo(timelock));
+    expect(covenantLockTime(tx)).toBe(900_000n);
+
+    const sig = "41" + "00".repeat(65);
+    expect(covenantSignatureScript({ outpoint: "x:0", scriptHex: timelock, p2sh: false }, sig)).toBe(sig);
+    expect(covenantSignatureScript({ outpoint: "x:0", scriptHex: timelock, p2sh: true, preimageHex: "ab" }, sig))
+      .toBe(`${sig}01ab${(timelock.length / 2).toString(16)}${timelock}`);
+  });
+});
+
+describe("covenantTemplateErrors", () => {
+  it("passes matured timelocks and reports pending ones", async () => {
+    const matured = spendTx(covenantUtxo(buildTimelockScript(999_999n, PUBKEY)));
+    expect(await covenantTemplateErrors(matured, CHAIN)).toEqual([]);
+
+    const pending = spendTx(covenantUtxo(buildTimelockScript(2_000_000n, PUBKEY)));
+    expect((await covenantTemplateErrors(pending, CHAIN))[0]).toMatch(/^COVENANT_TIMELOCK_PENDING/);
+    expect((await covenantTemplateErrors(pending, { ...CHAIN, daaScore: null }))[0]).toMatch(/^COVENANT_DAA_UNAVAILABLE/);
+
+    const future = spendTx(covenantUtxo(buildTimelockScript(BigInt(CHAIN.nowMs + 60_000), PUBKEY)));
+    expect((await covenantTemplateErrors(future, CHAIN))[0]).toMatch(/^COVENANT_TIMELOCK_PENDING/);
+  });
+
+  it("checks the hash-lock preimage against the locked digest", async () => {
+    const script = buildHashlockScript("sha256", await hashPreimage("sha256", SECRET), PUBKEY);
+    const input = covenantUtxo(script);
+
+    expect(await covenantTemplateErrors(spendTx(input, { preimageHex: SECRET }), CHAIN)).toEqual([]);
+    expect((await covenantTemplateErrors(spendTx(input), CHAIN))[0]).toMatch(/^COVENANT_PREIMAGE_MISSING/);
+    expect((await covenantTemplateErrors(spendTx(input, { preimageHex: "00" }), CHAIN))[0]).toMatch(/^COVENANT_PREIMAGE_MISMATCH/);
+  });
+
+  it("matches P2SH outputs to the supplied script", async () => {
+    const script = buildTimelockScript(10n, PUBKEY);
+    const input = covenantUtxo(await p2shScriptPublicKey(script));
+
+    expect(await covenantTemplateErrors(spendTx(input, { scriptHex: script, p2sh: true }), CHAIN)).toEqual([]);
+    const other = buildTimelockScript(11n, PUBKEY);
+    expect((await covenantTemplateErrors(spendTx(input, { scriptHex: other, p2sh: true }), CHAIN))[0])
+      .toMatch(/^COVENANT_SCRIPT_MISMATCH/);
+  });
+
+  it("rejects unknown templates and inputs without unlock data", async () => {
+    const unknown = covenantUtxo("51");
+    expect((await covenantTemplateErrors(spendTx(unknown), CHAIN))[0]).toMatch(/^COVENANT_TEMPLATE_UNKNOWN/);
+    expect((await covenantTemplateErrors({ ...spendTx(unknown), covenant: undefined }, CHAIN))[0])
+      .toMatch(/^COVENANT_SPEND_MISSING/);
+  });
+});
+
+describe("spendCovenantOutputs", () => {
+  it("attaches unlock data per input and runs the kernel pipeline", async () => {
+    const { spendCovenantOutputs } = await import("../../extension/tx/covenant");
+    const script = buildHashlockScript("sha256", await hashPreimage("sha256", SECRET), PUBKEY);
+    const bare = covenantUtxo(buildTimelockScript(10n, PUBKEY));
+    const p2sh = covenantUtxo(await p2shScriptPublicKey(script), { outputIndex: 1 });
+    const validated = { ...spendTx(bare), state: "DRY_RUN_OK" as const };
+    const kernel = {
+      buildAndValidateCovenantSpendTx: vi.fn(async () => validated),
+      signBroadcastAndReconcileKaspaTx: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "CONFIRMED" as const })),
+    };
+
+    const result = await spendCovenantOutputs(
+      { fromAddress: OWNER, network: "mainnet", utxos: [bare, p2sh], scriptHex: `0x${script.toUpperCase()}`, preimageHex: SECRET },
+      { awaitConfirmation: false },
+      kernel,
+    );
+
+    expect(result.state).toBe("CONFIRMED");
+    const [request] = kernel.buildAndValidateCovenantSpendTx.mock.calls[0] as unknown as [{ covenant: PendingTx["covenant"] }];
+    expect(request.covenant!.inputs).toEqual([
+      { outpoint: `${bare.txId}:0`, scriptHex: bare.scriptPublicKey, p2sh: false },
+      { outpoint: `${p2sh.txId}:1`, scriptHex: script, p2sh: true, preimageHex: SECRET },
+    ]);
+    expect(kernel.signBroadcastAndReconcileKaspaTx).toHaveBeenCalledWith(validated, { awaitConfirmation: false });
+  });
+
+  it("requires the script of P2SH covenant outputs", async () => {
+    const { covenantSpendsFor } = await import("../../extension/tx/covenant");
+    const p2sh = covenantUtxo(await p2shScriptPublicKey(buildTimelockScript(10n, PUBKEY)));
+    expect(() => covenantSpendsFor({ utxos: [p2sh] })).toThrow("COVENANT_SCRIPT_REQUIRED");
+  });
+});
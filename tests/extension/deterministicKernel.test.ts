@@ -101,6 +101,26 @@ describe("deterministic execution kernel", () => {
     });
   });
 
+  it("routes exact sompi amounts through the batch builder even for one recipient", async () => {
+    const built = makePendingTx("sompi-built", "BUILDING");
+    const deps = {
+      buildTransaction: vi.fn(async () => {
+        throw new Error("single builder takes KAS floats");
+      }),
+      buildBatchTransaction: vi.fn(async () => built),
+      dryRunValidate: vi.fn(async () => ({ valid: true, estimatedFee: 1_500n, changeAmount: 0n, errors: [] as string[] })),
+      addPendingTx: vi.fn(async () => {}),
+      updatePendingTx: vi.fn(async () => {}),
+    };
+
+    const kernel = createDeterministicExecutionKernel(deps);
+    const recipients = [{ address: "kaspa:qprecipient", amountKas: 1.23456789, amountSompi: 123_456_789n }];
+    await kernel.buildAndValidateKaspaIntent({ fromAddress: built.fromAddress, network: "mainnet", recipients });
+
+    expect(deps.buildBatchTransaction).toHaveBeenCalledTimes(1);
+    expect(deps.buildBatchTransaction.mock.calls[0]?.[1]).toEqual(recipients);
+  });
+
   it("throws deterministic validation error on dry-run failure and persists fail state", async () => {
     const built = makePendingTx("dry-run-fail", "BUILDING");
     const deps = {
@@ -160,6 +180,57 @@ describe("deterministic execution kernel", () => {
     expect(deps.waitForKaspaConfirmation).not.toHaveBeenCalled();
   });
 
+  it("broadcasts an externally signed tx and refuses one that is not SIGNED", async () => {
+    const tx = makePendingTx("offline", "DRY_RUN_OK");
+    const signed = { ...tx, state: "SIGNED" as const, signedTxPayload: "{\"transaction\":{}}" };
+    const confirming = { ...signed, state: "CONFIRMING" as const, txId: "tx-id-offline" };
+    const deps = {
+      buildTransaction: vi.fn(async () => tx),
+      buildBatchTransaction: vi.fn(async () => tx),
+      dryRunValidate: vi.fn(async () => ({ valid: true, estimatedFee: tx.fee, changeAmount: 0n, errors: [] as string[] })),
+      signTransaction: vi.fn(async () => signed),
+      broadcastTransaction: vi.fn(async () => confirming),
+      waitForKaspaConfirmation: vi.fn(async () => confirming),
+      addPendingTx: vi.fn(async () => {}),
+      updatePendingTx: vi.fn(async () => {}),
+    };
+    const kernel = createDeterministicExecutionKernel(deps);
+
+    await expect(kernel.broadcastAndReconcileKaspaTx(tx)).rejects.toBeInstanceOf(DeterministicExecutionError);
+    expect(deps.broadcastTransaction).not.toHaveBeenCalled();
+
+    const result = await kernel.broadcastAndReconcileKaspaTx(signed, { awaitConfirmation: false });
+    expect(result.txId).toBe("tx-id-offline");
+    expect(deps.signTransaction).not.toHaveBeenCalled();
+  });
+
+  it("finalizes a multisig spend by combining co-signer signatures instead of vault signing", async () => {
+    const multisig = { accountId: "ms-1", threshold: 2, redeemScriptHex: "52ae", scriptPublicKeyHex: "aa87", cosigners: [] };
+    const tx = { ...makePendingTx("multisig"), fee: 2_500n, multisig };
+    const assembled = { ...tx, state: "SIGNED" as const, signedTxPayload: "{\"transaction\":{}}" };
+    const confirming = { ...assembled, state: "CONFIRMING" as const, txId: "tx-id-multisig" };
+    const deps = {
+      buildTransaction: vi.fn(async () => tx),
+      buildBatchTransaction: vi.fn(async () => tx),
+      dryRunValidate: vi.fn(async () => ({ valid: true, estimatedFee: 9_999n, changeAmount: 0n, errors: [] as string[] })),
+      signTransaction: vi.fn(async () => assembled),
+      assembleMultisigTransaction: vi.fn(async () => assembled),
+      broadcastTransaction: vi.fn(async () => confirming),
+      waitForKaspaConfirmation: vi.fn(async () => confirming),
+      addPendingTx: vi.fn(async () => {}),
+      updatePendingTx: vi.fn(async () => {}),
+    };
+    const kernel = createDeterministicExecutionKernel(deps);
+
+    await expect(kernel.finalizeMultisigTx(makePendingTx("plain"))).rejects.toBeInstanceOf(DeterministicExecutionError);
+
+    const result = await kernel.finalizeMultisigTx(tx, { awaitConfirmation: false });
+    expect(result.txId).toBe("tx-id-multisig");
+    expect(deps.signTransaction).not.toHaveBeenCalled();
+    const [signedInput] = deps.assembleMultisigTransaction.mock.calls[0] as unknown as [PendingTx];
+    expect(signedInput).toMatchObject({ state: "DRY_RUN_OK", fee: 2_500n });
+  });
+
   it("emits unified telemetry events with stable runId across stages", async () => {
     const built = makePendingTx("telemetry-built", "BUILDING");
     const validated = { ...built, state: "DRY_RUN_OK", fee: 3_000n };
@@ -3,6 +3,7 @@ import type { PendingTx } from "../../extension/tx/types";
 
 const mockSyncUtxos = vi.fn();
 const mockEstimateFee = vi.fn();
+const mockFetchDagInfo = vi.fn();
 
 vi.mock("../../extension/utxo/utxoSync", () => ({
   syncUtxos: (...args: unknown[]) => mockSyncUtxos(...args),
@@ -10,6 +11,7 @@ vi.mock("../../extension/utxo/utxoSync", () => ({
 
 vi.mock("../../extension/network/kaspaClient", () => ({
   estimateFee: (...args: unknown[]) => mockEstimateFee(...args),
+  fetchDagInfo: (...args: unknown[]) => mockFetchDagInfo(...args),
 }));
 
 const TEST_FROM = "kaspatest:qpqz2vxj23kvh0m73ta2jjn2u4cv4tlufqns2eap8mxyyt0rvrxy6ejkful67";
@@ -44,6 +46,8 @@ beforeEach(() => {
   mockSyncUtxos.mockReset();
   mockEstimateFee.mockReset();
   mockEstimateFee.mockResolvedValue(1_000n);
+  mockFetchDagInfo.mockReset();
+  mockFetchDagInfo.mockResolvedValue({ virtualDaaScore: "5000" });
   mockSyncUtxos.mockResolvedValue({
     address: TEST_FROM,
     utxos: [{
@@ -88,3 +92,54 @@ describe("dryRunValidate network checks", () => {
     expect(result.errors.some((e) => e.includes("change address"))).toBe(true);
   });
 });
+
+describe("dryRunValidate multi-address inputs", () => {
+  it("checks inputs against the UTXO set of every input address", async () => {
+    const OTHER = "kaspatest:qrotated0000000000000000000000000000000000000000000000001";
+    mockSyncUtxos.mockImplementation(async (address: string) => ({
+      address,
+      utxos: [{
+        txId: address === OTHER ? "rotatedtx" : "inputtx",
+        outputIndex: 0,
+        address,
+        amount: 100_000_000n,
+        scriptPublicKey: "00",
+        scriptVersion: 0,
+        blockDaaScore: 1n,
+        isCoinbase: false,
+      }],
+      confirmedBalance: 100_000_000n,
+      pendingOutbound: 0n,
+      lastSyncAt: Date.now(),
+    }));
+
+    const { dryRunValidate } = await import("../../extension/tx/dryRun");
+    const base = baseTx();
+    const result = await dryRunValidate(baseTx({
+      inputs: [...base.inputs, { ...base.inputs[0], txId: "rotatedtx", address: OTHER }],
+      changeOutput: { address: TEST_FROM, amount: 149_999_000n },
+    }));
+    expect(result.errors).toEqual([]);
+    expect(mockSyncUtxos).toHaveBeenCalledWith(OTHER, "testnet-11");
+  });
+
+  it("checks covenant inputs against their template instead of rejecting them", async () => {
+    const { buildTimelockScript } = await import("../../extension/tx/covenantScript");
+    const { dryRunValidate } = await import("../../extension/tx/dryRun");
+    const base = baseTx();
+    const covenantTx = (lockTime: bigint) => {
+      const script = buildTimelockScript(lockTime, "ab".repeat(32));
+      return baseTx({
+        inputs: [{ ...base.inputs[0], scriptPublicKey: script, scriptClass: "covenant" }],
+        covenant: { inputs: [{ outpoint: "inputtx:0", scriptHex: script, p2sh: false }] },
+      });
+    };
+
+    expect((await dryRunValidate(covenantTx(4_000n))).errors).toEqual([]);
+
+    const pending = await dryRunValidate(covenantTx(6_000n));
+    expect(pending.valid).toBe(false);
+    expect(pending.errors).toEqual(["COVENANT_TIMELOCK_PENDING: inputtx:0 unlocks at DAA score 6000 (current 5000)"]);
+    expect(mockFetchDagInfo).toHaveBeenCalledWith("testnet-11");
+  });
+});
@@ -0,0 +1,199 @@
+// Fee tier tests: mapping the node's fee-estimate buckets onto low / normal /
+// priority with fallbacks, per-tier quotes, the builder and dry-run pricing
+// from the chosen tier, and agent default tiers.
+//
+// kaspaClient is mocked; the builder is imported from source.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Utxo } from "../../extension/utxo/types";
+import type { KaspaFeeEstimate } from "../../extension/network/kaspaClient";
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockGetOrSyncUtxos = vi.fn();
+const mockEstimateFee = vi.fn();
+const mockFetchFeeTiers = vi.fn();
+
+vi.mock("../../extension/utxo/utxoSync", async (importActual) => {
+  const real = await importActual<typeof import("../../extension/utxo/utxoSync")>();
+  return {
+    ...real,
+    getOrSyncUtxos: (...a: unknown[]) => mockGetOrSyncUtxos(...a),
+  };
+});
+
+vi.mock("../../extension/network/kaspaClient", () => ({
+  estimateFee: (...a: unknown[]) => mockEstimateFee(...a),
+  fetchFeeTiers: (...a: unknown[]) => mockFetchFeeTiers(...a),
+}));
+
+vi.mock("../../extension/tx/store", () => ({
+  getLockedUtxoKeys: async () => new Set<string>(),
+  addPendingTx: vi.fn(),
+  updatePendingTx: vi.fn(),
+  getReplacementGroup: vi.fn(),
+  settleReplacementGroup: vi.fn(),
+}));
+
+vi.mock("../../src/wallet/kaspaWasmLoader", () => ({
+  loadKaspaWasm: vi.fn(),
+}));
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const FROM = "kaspa:qpv7fcvdlz6th4hqjtm9qkkms2dw0raem963x3hm8glu3kjgj7922vy69hv85";
+const SOMPI = 100_000_000n;
+
+const ESTIMATE: KaspaFeeEstimate = {
+  priorityBucket: { feerate: 4, estimatedSeconds: 1 },
+  normalBuckets: [{ feerate: 2, estimatedSeconds: 12 }, { feerate: 1.5, estimatedSeconds: 30 }],
+  lowBuckets: [{ feerate: 1, estimatedSeconds: 600 }],
+};
+
+function makeUtxo(txId: string, amount: bigint): Utxo {
+  return {
+    txId,
+    outputIndex: 0,
+    address: FROM,
+    amount,
+    scriptPublicKey: "20" + "aa".repeat(32) + "ac",
+    scriptVersion: 0,
+    scriptClass: "standard",
+    blockDaaScore: 1n,
+    isCoinbase: false,
+  };
+}
+
+const FEERATE: Record<string, number> = { low: 1, normal: 2, priority: 4 };
+
+beforeEach(() => {
+  vi.resetModules();
+  mockGetOrSyncUtxos.mockResolvedValue({
+    address: FROM,
+    utxos: [makeUtxo("big", 500n * SOMPI)],
+    confirmedBalance: 500n * SOMPI,
+    pendingOutbound: 0n,
+    lastSyncAt: Date.now(),
+  });
+  mockEstimateFee.mockReset();
+  mockEstimateFee.mockImplementation(async (_i: number, _o: number, _n: string, mass = 3_000, tier = "priority") =>
+    BigInt(Math.ceil(mass * FEERATE[tier])));
+});
+
+// ── Bucket mapping ────────────────────────────────────────────────────────────
+
+describe("resolveFeeTiers", () => {
+  it("maps the first bucket of each class onto its tier", async () => {
+    const { resolveFeeTiers } = await import("../../extension/network/feeTiers");
+    expect(resolveFeeTiers(ESTIMATE)).toEqual([
+      { tier: "low", feerate: 1, estimatedSeconds: 600 },
+      { tier: "normal", feerate: 2, estimatedSeconds: 12 },
+      { tier: "priority", feerate: 4, estimatedSeconds: 1 },
+    ]);
+  });
+
+  it("falls back to the next faster bucket and to the minimum feerate offline", async () => {
+    const { resolveFeeTiers, MIN_FEERATE } = await import("../../extension/network/feeTiers");
+    const sparse = resolveFeeTiers({ ...ESTIMATE, normalBuckets: [], lowBuckets: [] });
+    expect(sparse.map((t) => t.feerate)).toEqual([4, 4, 4]);
+
+    const offline = resolveFeeTiers(null);
+    expect(offline.every((t) => t.feerate === MIN_FEERATE && t.estimatedSeconds === null)).toBe(true);
+  });
+
+  it("formats expected confirmation times", async () => {
+    const { formatConfirmationTime } = await import("../../extension/network/feeTiers");
+    expect(formatConfirmationTime(0.4)).toBe("~1s");
+    expect(formatConfirmationTime(45)).toBe("~45s");
+    expect(formatConfirmationTime(600)).toBe("~10 min");
+    expect(formatConfirmationTime(null)).toBe("—");
+  });
+});
+
+// ── Builder ───────────────────────────────────────────────────────────────────
+
+describe("builder fee tiers", () => {
+  it("prices the fee from the chosen tier and records it on the tx", async () => {
+    const { buildTransaction } = await import("../../extension/tx/builder");
+
+    const low = await buildTransaction(FROM, FROM, 100, "mainnet", { feeTier: "low" });
+    const priority = await buildTransaction(FROM, FROM, 100, "mainnet", { feeTier: "priority" });
+
+    expect(low.feeTier).toBe("low");
+    expect(priority.feeTier).toBe("priority");
+    expect(priority.fee).toBeGreaterThan(low.fee);
+    expect(mockEstimateFee.mock.calls.some((c) => c[4] === "low")).toBe(true);
+  });
+
+  it("defaults to the priority tier", async () => {
+    const { buildTransaction } = await import("../../extension/tx/builder");
+    const tx = await buildTransaction(FROM, FROM, 100, "mainnet");
+    expect(tx.feeTier).toBe("priority");
+  });
+
+  it("quotes every tier for a given mass with the builder's fee policy", async () => {
+    const { resolveFeeTiers } = await import("../../extension/network/feeTiers");
+    mockFetchFeeTiers.mockResolvedValue(resolveFeeTiers(ESTIMATE));
+    const { quoteFeeTiers } = await import("../../extension/tx/builder");
+
+    const quotes = await quoteFeeTiers(2_000, "mainnet");
+
+    // mass × feerate with the default 1.15× safety buffer.
+    expect(quotes.map((q) => [q.tier, q.fee, q.estimatedSeconds])).toEqual([
+      ["low", 2_300n, 600],
+      ["normal", 4_600n, 12],
+      ["priority", 9_200n, 1],
+    ]);
+  });
+});
+
+// ── Dry-run and agents ────────────────────────────────────────────────────────
+
+describe("tier consumers", () => {
+  it("dry-run checks the fee against the tier the tx was built for", async () => {
+    vi.doMock("../../extension/utxo/utxoSync", () => ({
+      syncUtxos: async () => ({ address: FROM, utxos: [makeUtxo("in-0", 10n * SOMPI)] }),
+    }));
+    const { dryRunValidate } = await import("../../extension/tx/dryRun");
+    const tx = {
+      id: "tier-tx",
+      state: "BUILDING" as const,
+      fromAddress: FROM,
+      network: "mainnet",
+      inputs: [makeUtxo("in-0", 10n * SOMPI)],
+      outputs: [{ address: FROM, amount: 5n * SOMPI }],
+      changeOutput: { address: FROM, amount: 5n * SOMPI - 5_000n },
+      fee: 5_000n,
+      builtAt: 1,
+    };
+
+    const low = await dryRunValidate({ ...tx, feeTier: "low" });
+    const priority = await dryRunValidate({ ...tx, feeTier: "priority" });
+    vi.doUnmock("../../extension/utxo/utxoSync");
+
+    expect(low.valid).toBe(true);
+    expect(priority.errors.some((e) => e.startsWith("FEE_TOO_LOW"))).toBe(true);
+  });
+
+  it("reads an agent's default tier from its strategy config", async () => {
+    const { mapAgentView } = await import("../../extension/tabs/agentsView");
+    expect(mapAgentView({ agentId: "a1", feeTier: "low" }, "mainnet")?.feeTier).toBe("low");
+    expect(mapAgentView({ agentId: "a2", feeTier: "ludicrous" }, "mainnet")?.feeTier).toBe("priority");
+  });
+
+  it("passes the agent's tier through the dispatcher", async () => {
+    const executeIntent = vi.fn(async () => ({ id: "tx1" }));
+    const { createAgentExecutionDispatcher } = await import("../../extension/tx/agentDispatcher");
+    const dispatch = createAgentExecutionDispatcher(executeIntent as any);
+
+    await dispatch({
+      agentId: "agent_1",
+      fromAddress: FROM,
+      network: "mainnet",
+      recipients: [{ address: FROM, amountKas: 1 }],
+      feeTier: "low",
+    });
+
+    expect((executeIntent.mock.calls[0] as unknown[])[0]).toMatchObject({ feeTier: "low" });
+  });
+});
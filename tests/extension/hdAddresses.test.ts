@@ -0,0 +1,236 @@
+// HD address rotation tests: gap-limit discovery, fresh receive addresses,
+// change-chain selection and the aggregated multi-address UTXO view.
+//
+// Key derivation, the REST API and the vault session are mocked; the address
+// book persists to an in-memory chrome.storage.local.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockFetchTxCount = vi.fn();
+const mockFetchUtxos = vi.fn();
+const mockGetSession = vi.fn();
+
+function fakeAddress(chain: number, index: number): string {
+  return `kaspatest:q${chain === 1 ? "change" : "recv"}${String(index).padStart(4, "0")}`;
+}
+
+vi.mock("../../src/wallet/KaspaWalletManager", () => ({
+  deriveWalletAddresses: async (
+    _phrase: string,
+    _network: string,
+    opts: { derivation: { path: string; account: number }; chain: 0 | 1; start: number; count: number },
+  ) => Array.from({ length: opts.count }, (_, i) => {
+    const index = opts.start + i;
+    const derivation = { path: opts.derivation.path, account: opts.derivation.account, chain: opts.chain, index };
+    return {
+      address: fakeAddress(opts.chain, index),
+      derivation,
+      derivationPath: `${derivation.path}/${derivation.account}'/${opts.chain}/${index}`,
+      chainLabel: opts.chain === 1 ? "change" : "receive",
+    };
+  }),
+}));
+
+vi.mock("../../extension/network/kaspaClient", () => ({
+  fetchAddressTransactionCount: (...a: unknown[]) => mockFetchTxCount(...a),
+  fetchUtxos: (...a: unknown[]) => mockFetchUtxos(...a),
+}));
+
+vi.mock("../../extension/vault/vault", () => ({
+  getSession: () => mockGetSession(),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+    },
+  },
+};
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const NETWORK = "testnet-10";
+const PRIMARY = fakeAddress(0, 0);
+
+const SESSION = {
+  mnemonic: "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about",
+  address: PRIMARY,
+  network: NETWORK,
+  autoLockAt: Infinity,
+  derivation: { path: "m/44'/111'", account: 0, chain: 0 as const, index: 0 },
+  activeAccountId: "primary",
+};
+
+function usedAddresses(list: string[]) {
+  const used = new Set(list);
+  mockFetchTxCount.mockImplementation(async (address: string) => (used.has(address) ? 3 : 0));
+}
+
+function rawUtxo(address: string, txId: string, amount: number) {
+  return {
+    address,
+    outpoint: { transactionId: txId, index: 0 },
+    utxoEntry: {
+      amount: String(amount),
+      scriptPublicKey: { version: 0, scriptPublicKey: "20" + "ab".repeat(32) + "ac" },
+      blockDaaScore: "10",
+      isCoinbase: false,
+    },
+  };
+}
+
+beforeEach(() => {
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  mockFetchTxCount.mockReset();
+  mockFetchUtxos.mockReset();
+  mockFetchUtxos.mockResolvedValue([]);
+  mockGetSession.mockReset();
+  mockGetSession.mockReturnValue(SESSION);
+  vi.resetModules();
+});
+
+// ── Discovery ─────────────────────────────────────────────────────────────────
+
+describe("scanHdAddresses", () => {
+  it("finds used addresses on both chains across gaps smaller than the gap limit", async () => {
+    usedAddresses([fakeAddress(0, 0), fakeAddress(0, 3), fakeAddress(0, 12), fakeAddress(1, 0), fakeAddress(1, 1)]);
+    const { scanHdAddresses, hdAccountFromSession } = await import("../../extension/utxo/hdAddresses");
+
+    const book = await scanHdAddresses(hdAccountFromSession(SESSION as any)!, NETWORK, { gapLimit: 10 });
+
+    expect(book.receive.map((e) => e.derivation.index)).toEqual([0, 3, 12]);
+    expect(book.change.map((e) => e.derivation.index)).toEqual([0, 1]);
+    expect(book.receive.every((e) => e.used)).toBe(true);
+    expect(book.scannedAt).not.toBeNull();
+  });
+
+  it("stops at the first run of gapLimit unused addresses", async () => {
+    usedAddresses([fakeAddress(0, 0), fakeAddress(0, 25)]);
+    const { scanHdAddresses, hdAccountFromSession } = await import("../../extension/utxo/hdAddresses");
+
+    const book = await scanHdAddresses(hdAccountFromSession(SESSION as any)!, NETWORK, { gapLimit: 10 });
+
+    expect(book.receive.map((e) => e.derivation.index)).toEqual([0]);
+    // Receive: batches [0..9], [10..19]; change: [0..9].
+    expect(mockFetchTxCount).toHaveBeenCalledTimes(30);
+  });
+
+  it("always tracks the primary address even when it has no history", async () => {
+    usedAddresses([]);
+    const { scanHdAddresses, hdAccountFromSession } = await import("../../extension/utxo/hdAddresses");
+
+    const book = await scanHdAddresses(hdAccountFromSession(SESSION as any)!, NETWORK, { gapLimit: 5 });
+    expect(book.receive).toEqual([
+      expect.objectContaining({ address: PRIMARY, used: false }),
+    ]);
+  });
+
+  it("falls back to the UTXO endpoint when the tx-count route fails", async () => {
+    mockFetchTxCount.mockRejectedValue(new Error("404"));
+    mockFetchUtxos.mockImplementation(async (address: string) =>
+      address === fakeAddress(0, 2) ? [rawUtxo(address, "t1", 1)] : []);
+    const { scanHdAddresses, hdAccountFromSession } = await import("../../extension/utxo/hdAddresses");
+
+    const book = await scanHdAddresses(hdAccountFromSession(SESSION as any)!, NETWORK, { gapLimit: 5 });
+    expect(book.receive.filter((e) => e.used).map((e) => e.derivation.index)).toEqual([2]);
+  });
+});
+
+// ── Rotation ──────────────────────────────────────────────────────────────────
+
+describe("receive rotation", () => {
+  it("issues a new receive address on every request, never the primary", async () => {
+    const { nextReceiveAddress, hdAccountFromSession } = await import("../../extension/utxo/hdAddresses");
+    const account = hdAccountFromSession(SESSION as any)!;
+
+    const first = await nextReceiveAddress(account, NETWORK);
+    const second = await nextReceiveAddress(account, NETWORK);
+    expect(first.derivation.index).toBe(1);
+    expect(second.derivation.index).toBe(2);
+    expect(first.address).not.toBe(PRIMARY);
+    expect(first.issuedAt).toBeTypeOf("number");
+  });
+
+  it("refuses to exceed the gap limit with unused issued addresses", async () => {
+    const { nextReceiveAddress, hdAccountFromSession } = await import("../../extension/utxo/hdAddresses");
+    const account = hdAccountFromSession(SESSION as any)!;
+
+    await nextReceiveAddress(account, NETWORK, 2);
+    await nextReceiveAddress(account, NETWORK, 2);
+    await expect(nextReceiveAddress(account, NETWORK, 2)).rejects.toThrow("GAP_LIMIT_REACHED");
+  });
+});
+
+describe("change rotation", () => {
+  it("sends change to the change chain, skipping addresses reserved by in-flight txs", async () => {
+    const { resolveChangeAddress } = await import("../../extension/utxo/hdAddresses");
+    const { addPendingTx } = await import("../../extension/tx/store");
+
+    const first = await resolveChangeAddress(PRIMARY, NETWORK);
+    expect(first).toBe(fakeAddress(1, 0));
+    // Not reserved yet → the same unused change address is offered again.
+    expect(await resolveChangeAddress(PRIMARY, NETWORK)).toBe(first);
+
+    await addPendingTx({
+      id: "tx-1",
+      state: "CONFIRMING",
+      fromAddress: PRIMARY,
+      network: NETWORK,
+      inputs: [],
+      outputs: [],
+      changeOutput: { address: first, amount: 1n },
+      fee: 1n,
+      builtAt: Date.now(),
+    });
+    expect(await resolveChangeAddress(PRIMARY, NETWORK)).toBe(fakeAddress(1, 1));
+  });
+
+  it("keeps change on the sender address for non-account senders or when locked", async () => {
+    const { resolveChangeAddress } = await import("../../extension/utxo/hdAddresses");
+    expect(await resolveChangeAddress("kaspatest:qsomeoneelse", NETWORK)).toBe("kaspatest:qsomeoneelse");
+    mockGetSession.mockReturnValue(null);
+    expect(await resolveChangeAddress(PRIMARY, NETWORK)).toBe(PRIMARY);
+  });
+});
+
+// ── Aggregated UTXO view ──────────────────────────────────────────────────────
+
+describe("getOrSyncAccountUtxos", () => {
+  it("merges UTXOs from every tracked address into one set", async () => {
+    usedAddresses([fakeAddress(0, 0), fakeAddress(0, 1), fakeAddress(1, 0)]);
+    mockFetchUtxos.mockImplementation(async (address: string) => {
+      if (address === fakeAddress(0, 0)) return [rawUtxo(address, "a", 100)];
+      if (address === fakeAddress(0, 1)) return [rawUtxo(address, "b", 200)];
+      if (address === fakeAddress(1, 0)) return [rawUtxo(address, "c", 300)];
+      return [];
+    });
+    const { scanHdAddresses, hdAccountFromSession, getOrSyncAccountUtxos } =
+      await import("../../extension/utxo/hdAddresses");
+    await scanHdAddresses(hdAccountFromSession(SESSION as any)!, NETWORK, { gapLimit: 3 });
+
+    const set = await getOrSyncAccountUtxos(PRIMARY, NETWORK, { force: true });
+    expect(set.confirmedBalance).toBe(600n);
+    expect(set.utxos.map((u) => u.address).sort()).toEqual(
+      [fakeAddress(0, 0), fakeAddress(0, 1), fakeAddress(1, 0)].sort(),
+    );
+    expect(set.addresses).toHaveLength(3);
+  });
+
+  it("returns the single-address set when no book exists", async () => {
+    mockFetchUtxos.mockResolvedValue([rawUtxo(PRIMARY, "a", 100)]);
+    const { getOrSyncAccountUtxos } = await import("../../extension/utxo/hdAddresses");
+
+    const set = await getOrSyncAccountUtxos(PRIMARY, NETWORK);
+    expect(set.confirmedBalance).toBe(100n);
+    expect(set.addresses).toBeUndefined();
+  });
+});
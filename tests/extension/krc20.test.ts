@@ -0,0 +1,277 @@
+// KRC-20 transfer tests: inscription payload and redeem script encoding,
+// amount parsing, reveal mass/fee pricing, and the commit → reveal sequence
+// through the kernel with holdings refreshed after the reveal confirms.
+//
+// Network calls are mocked; the tx store persists to an in-memory
+// chrome.storage.local. Build/sign/broadcast/reconcile are kernel deps.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Utxo } from "../../extension/utxo/types";
+import type { PendingTx } from "../../extension/tx/types";
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockSyncUtxos = vi.fn();
+const mockEstimateFee = vi.fn();
+
+vi.mock("../../extension/utxo/utxoSync", async (importActual) => {
+  const real = await importActual<typeof import("../../extension/utxo/utxoSync")>();
+  return {
+    ...real,
+    syncUtxos: (...a: unknown[]) => mockSyncUtxos(...a),
+  };
+});
+
+vi.mock("../../extension/network/kaspaClient", () => ({
+  estimateFee: (...a: unknown[]) => mockEstimateFee(...a),
+}));
+
+vi.mock("../../src/wallet/kaspaWasmLoader", () => ({
+  loadKaspaWasm: vi.fn(),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+    },
+  },
+};
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const FROM = "kaspa:q" + "p".repeat(60);
+const TO = "kaspa:q" + "z".repeat(60);
+const COMMIT_ADDRESS = "kaspa:p" + "r".repeat(60);
+const PUBKEY = "11".repeat(32);
+const REDEEM = "20" + PUBKEY + "ac0063076b6173706c65780000" + "68";
+
+function hex(text: string): string {
+  return Array.from(new TextEncoder().encode(text)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function commitTx(overrides: Partial<PendingTx> = {}): PendingTx {
+  return {
+    id: "commit-1",
+    state: "CONFIRMED",
+    txId: "commit-txid",
+    fromAddress: FROM,
+    network: "mainnet",
+    inputs: [],
+    outputs: [{ address: COMMIT_ADDRESS, amount: 30_000_000n }],
+    changeOutput: null,
+    fee: 2_000n,
+    builtAt: Date.now(),
+    krc20: {
+      operationId: "op-1",
+      step: "commit",
+      op: "transfer",
+      token: "NACHO",
+      amount: "100000000",
+      to: TO,
+      redeemScriptHex: REDEEM,
+      commitAddress: COMMIT_ADDRESS,
+    },
+    ...overrides,
+  };
+}
+
+function commitOutput(amount = 30_000_000n): Utxo {
+  return {
+    txId: "commit-txid",
+    outputIndex: 0,
+    address: COMMIT_ADDRESS,
+    amount,
+    scriptPublicKey: "aa20" + "00".repeat(32) + "87",
+    scriptVersion: 0,
+    scriptClass: "standard",
+    blockDaaScore: 1n,
+    isCoinbase: false,
+  };
+}
+
+beforeEach(() => {
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  vi.resetModules();
+  mockSyncUtxos.mockReset();
+  mockEstimateFee.mockReset();
+  // Fee follows mass so a heavier signature script costs more.
+  mockEstimateFee.mockImplementation(async (_i: number, _o: number, _n: string, mass: number) => BigInt(mass));
+});
+
+// ── Inscription ───────────────────────────────────────────────────────────────
+
+describe("krc20 inscription", () => {
+  it("names deploy-mint tokens by ticker and issued tokens by contract address", async () => {
+    const { krc20TransferInscription } = await import("../../extension/tx/krc20");
+
+    expect(krc20TransferInscription("NACHO", "5", TO)).toEqual({ p: "krc-20", op: "transfer", tick: "nacho", amt: "5", to: TO });
+    expect(krc20TransferInscription("kaspa:qca", "5", TO)).toEqual({ p: "krc-20", op: "transfer", ca: "kaspa:qca", amt: "5", to: TO });
+  });
+
+  it("encodes the redeem script as pubkey CHECKSIG + kasplex envelope", async () => {
+    const { buildInscriptionRedeemScript, krc20TransferInscription } = await import("../../extension/tx/krc20");
+    const inscription = krc20TransferInscription("nacho", "100", TO);
+    const json = hex(JSON.stringify(inscription));
+
+    const script = buildInscriptionRedeemScript(PUBKEY, inscription);
+
+    // The JSON exceeds 75 bytes, so it is pushed with OP_PUSHDATA1.
+    expect(script).toBe(
+      "20" + PUBKEY + "ac" + "00" + "63" + "07" + hex("kasplex") + "00" + "4c" + (json.length / 2).toString(16) + json + "68",
+    );
+    expect(() => buildInscriptionRedeemScript("abc", inscription)).toThrow("KRC20_PUBKEY_INVALID");
+  });
+
+  it("extracts the x-only key from a P2PK script and rejects other scripts", async () => {
+    const { xOnlyPubKeyFromP2pkScript } = await import("../../extension/tx/krc20");
+
+    expect(xOnlyPubKeyFromP2pkScript("20" + PUBKEY + "ac")).toBe(PUBKEY);
+    expect(() => xOnlyPubKeyFromP2pkScript("aa20" + PUBKEY + "87")).toThrow("KRC20_SENDER_NOT_P2PK");
+  });
+
+  it("parses decimal amounts into base units", async () => {
+    const { parseKrc20Amount } = await import("../../extension/tx/krc20");
+
+    expect(parseKrc20Amount("1.5", 8)).toBe("150000000");
+    expect(parseKrc20Amount("42", 0)).toBe("42");
+    expect(() => parseKrc20Amount("0", 8)).toThrow("KRC20_AMOUNT_INVALID");
+    expect(() => parseKrc20Amount("1.123", 2)).toThrow("KRC20_AMOUNT_INVALID");
+    expect(() => parseKrc20Amount("-1", 8)).toThrow("KRC20_AMOUNT_INVALID");
+  });
+});
+
+// ── Reveal builder ────────────────────────────────────────────────────────────
+
+describe("buildKrc20RevealTransaction", () => {
+  it("spends the commit output back to the sender, priced with the redeem script", async () => {
+    mockSyncUtxos.mockResolvedValue({ address: COMMIT_ADDRESS, utxos: [commitOutput()] });
+    const { buildKrc20RevealTransaction } = await import("../../extension/tx/builder");
+    const { pendingTxMassShape, inscriptionSignatureScriptBytes } = await import("../../extension/tx/mass");
+
+    const reveal = await buildKrc20RevealTransaction(commitTx());
+
+    expect(mockSyncUtxos).toHaveBeenCalledWith(COMMIT_ADDRESS, "mainnet");
+    expect(reveal.inputs).toHaveLength(1);
+    expect(reveal.inputs[0].scriptClass).toBe("inscription");
+    expect(reveal.outputs).toEqual([]);
+    expect(reveal.changeOutput?.address).toBe(FROM);
+    expect(reveal.changeOutput!.amount + reveal.fee).toBe(30_000_000n);
+    expect(reveal.krc20).toMatchObject({ operationId: "op-1", step: "reveal" });
+    expect(pendingTxMassShape(reveal).inputs[0].signatureScriptBytes).toBe(inscriptionSignatureScriptBytes(REDEEM));
+    expect(inscriptionSignatureScriptBytes(REDEEM)).toBeGreaterThan(66);
+  });
+
+  it("rejects txs that are not a broadcast commit, or whose output is gone", async () => {
+    mockSyncUtxos.mockResolvedValue({ address: COMMIT_ADDRESS, utxos: [] });
+    const { buildKrc20RevealTransaction } = await import("../../extension/tx/builder");
+
+    await expect(buildKrc20RevealTransaction(commitTx({ txId: undefined }))).rejects.toThrow("KRC20_NOT_A_COMMIT");
+    await expect(buildKrc20RevealTransaction(commitTx())).rejects.toThrow("KRC20_COMMIT_OUTPUT_MISSING");
+  });
+});
+
+// ── Execution ─────────────────────────────────────────────────────────────────
+
+async function makeKernel(failStep: "commit" | "reveal" | null = null) {
+  const store = await import("../../extension/tx/store");
+  const { createDeterministicExecutionKernel } = await import("../../extension/tx/kernel");
+  return createDeterministicExecutionKernel({
+    addPendingTx: store.addPendingTx,
+    updatePendingTx: store.updatePendingTx,
+    buildKrc20CommitTransaction: vi.fn(async (request) => ({
+      ...commitTx({ id: "commit-built", state: "BUILDING", txId: undefined }),
+      krc20: { ...request.krc20, step: "commit" as const },
+    })),
+    buildKrc20RevealTransaction: vi.fn(async (commit: PendingTx) => ({
+      ...commit,
+      id: "reveal-built",
+      state: "BUILDING" as const,
+      txId: undefined,
+      krc20: { ...commit.krc20!, step: "reveal" as const },
+    })),
+    dryRunValidate: vi.fn(async (tx: PendingTx) => ({ valid: true, estimatedFee: tx.fee, changeAmount: 0n, errors: [] })),
+    signTransaction: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "SIGNED" as const })),
+    broadcastTransaction: vi.fn(async (tx: PendingTx) => {
+      if (tx.krc20?.step === failStep) throw new Error("BROADCAST_REJECTED");
+      return { ...tx, state: "CONFIRMING" as const, txId: `${tx.krc20?.step}-txid` };
+    }),
+    waitForKaspaConfirmation: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "CONFIRMED" as const })),
+    appendExecutionTelemetryEvent: vi.fn(async () => {}) as any,
+  });
+}
+
+const prepare = vi.fn(async (_from: string, _network: string, inscription: any) => ({
+  inscription,
+  redeemScriptHex: REDEEM,
+  commitAddress: COMMIT_ADDRESS,
+  commitScriptPublicKeyHex: "aa20" + "00".repeat(32) + "87",
+}));
+
+const REQUEST = { fromAddress: FROM, network: "mainnet", token: "NACHO", amount: "100000000", to: TO };
+
+describe("runKrc20Transfer", () => {
+  it("reveals only after the commit confirms, links both in the store and refreshes holdings", async () => {
+    const { runKrc20Transfer } = await import("../../extension/tx/krc20");
+    const { getKrc20Operation } = await import("../../extension/tx/store");
+    const refreshHoldings = vi.fn(async () => {});
+    const seen: string[] = [];
+
+    const result = await runKrc20Transfer(REQUEST, {
+      kernel: await makeKernel(),
+      prepare,
+      refreshHoldings,
+      onProgress: ({ step, stage }) => { seen.push(`${step}:${stage}`); },
+    });
+
+    expect(result.error).toBeNull();
+    expect(result.commit?.txId).toBe("commit-txid");
+    expect(result.reveal?.txId).toBe("reveal-txid");
+    expect(seen.indexOf("reveal:build")).toBeGreaterThan(seen.lastIndexOf("commit:reconcile"));
+    expect(refreshHoldings).toHaveBeenCalledWith(FROM, "mainnet");
+
+    const operation = await getKrc20Operation(result.operationId);
+    expect(operation.commit?.state).toBe("CONFIRMED");
+    expect(operation.reveal?.state).toBe("CONFIRMED");
+    expect(operation.reveal?.krc20?.to).toBe(TO);
+  });
+
+  it("stops before the reveal when the commit fails", async () => {
+    const { runKrc20Transfer } = await import("../../extension/tx/krc20");
+    const refreshHoldings = vi.fn(async () => {});
+
+    const result = await runKrc20Transfer(REQUEST, { kernel: await makeKernel("commit"), prepare, refreshHoldings });
+
+    expect(result).toMatchObject({ failedStep: "commit", error: "BROADCAST_REJECTED", reveal: null });
+    expect(refreshHoldings).not.toHaveBeenCalled();
+  });
+
+  it("resumes a reveal that failed after its commit confirmed", async () => {
+    const { runKrc20Transfer, resumeKrc20Transfer } = await import("../../extension/tx/krc20");
+    const refreshHoldings = vi.fn(async () => {});
+
+    const failed = await runKrc20Transfer(REQUEST, { kernel: await makeKernel("reveal"), prepare, refreshHoldings });
+    expect(failed.failedStep).toBe("reveal");
+
+    const resumed = await resumeKrc20Transfer(failed.operationId, { kernel: await makeKernel(), refreshHoldings });
+    expect(resumed.error).toBeNull();
+    expect(resumed.reveal?.state).toBe("CONFIRMED");
+    expect(refreshHoldings).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects recipients on another network before building anything", async () => {
+    const { runKrc20Transfer } = await import("../../extension/tx/krc20");
+    const prepareSpy = vi.fn(prepare);
+
+    const result = await runKrc20Transfer({ ...REQUEST, to: "kaspatest:q" + "z".repeat(60) }, { prepare: prepareSpy });
+
+    expect(result.error).toContain("KRC20_INVALID_RECIPIENT");
+    expect(prepareSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,170 @@
+// KRC-721 tests: gallery item parsing (ipfs rewrite, metadata fallback,
+// caching) from the indexer, and single-NFT transfers through the shared
+// commit/reveal runner.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PendingTx } from "../../extension/tx/types";
+
+vi.mock("../../src/wallet/kaspaWasmLoader", () => ({
+  loadKaspaWasm: vi.fn(),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+    },
+  },
+};
+
+const originalFetch = (globalThis as any).fetch;
+
+const OWNER = "kaspa:q" + "p".repeat(60);
+const TO = "kaspa:q" + "z".repeat(60);
+const COMMIT_ADDRESS = "kaspa:p" + "r".repeat(60);
+
+function okJson(payload: unknown): Response {
+  return { ok: true, json: async () => payload } as Response;
+}
+
+beforeEach(() => {
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  if (originalFetch) (globalThis as any).fetch = originalFetch;
+  else delete (globalThis as any).fetch;
+});
+
+// ── Gallery ───────────────────────────────────────────────────────────────────
+
+describe("fetchKrc721Items", () => {
+  it("lists owned token ids with gateway images, falling back to the metadata document", async () => {
+    vi.stubEnv("VITE_KRC_INDEXER_ENDPOINTS", "https://indexer.example");
+    const fetchMock = vi.fn(async (url: string) => {
+      if (url.startsWith("https://indexer.example")) {
+        return okJson({
+          result: [
+            { tokenId: "12", image: "ipfs://bafy/12.png", attributes: [{ trait_type: "Eyes", value: "Laser" }] },
+            { tokenId: 3, metadataUri: "ipfs://ipfs/bafy/3.json" },
+            { tokenId: "not-a-number" },
+          ],
+        });
+      }
+      if (url === "https://ipfs.io/ipfs/bafy/3.json") {
+        return okJson({ name: "Nacho #3", image: "ar://tx3", attributes: [{ trait_type: "Hat", value: "Cap" }] });
+      }
+      return { ok: false } as Response;
+    });
+    (globalThis as any).fetch = fetchMock;
+    const { fetchKrc721Items, __clearKrcPortfolioCachesForTests } = await import("../../extension/portfolio/krcPortfolio");
+    __clearKrcPortfolioCachesForTests();
+
+    const items = await fetchKrc721Items(OWNER, "NACHOKAT", "mainnet");
+
+    expect(items.map((i) => i.tokenId)).toEqual(["3", "12"]);
+    expect(items[0]).toMatchObject({
+      name: "Nacho #3",
+      imageUri: "https://arweave.net/tx3",
+      attributes: [{ trait: "Hat", value: "Cap" }],
+    });
+    expect(items[1]).toMatchObject({
+      imageUri: "https://ipfs.io/ipfs/bafy/12.png",
+      attributes: [{ trait: "Eyes", value: "Laser" }],
+      collection: "NACHOKAT",
+    });
+
+    const calls = fetchMock.mock.calls.length;
+    await fetchKrc721Items(OWNER, "NACHOKAT", "mainnet");
+    expect(fetchMock.mock.calls.length).toBe(calls);
+  });
+
+  it("drops the cached items when holdings are invalidated after a transfer", async () => {
+    vi.stubEnv("VITE_KRC_INDEXER_ENDPOINTS", "https://indexer.example");
+    const fetchMock = vi.fn(async () => okJson([{ tokenId: "1", image: "https://img.example/1.png" }]));
+    (globalThis as any).fetch = fetchMock;
+    const { fetchKrc721Items, invalidateKrcHoldings, __clearKrcPortfolioCachesForTests } =
+      await import("../../extension/portfolio/krcPortfolio");
+    __clearKrcPortfolioCachesForTests();
+
+    await fetchKrc721Items(OWNER, "NACHOKAT", "mainnet");
+    invalidateKrcHoldings(OWNER, "mainnet");
+    await fetchKrc721Items(OWNER, "NACHOKAT", "mainnet");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ── Transfer ──────────────────────────────────────────────────────────────────
+
+async function makeKernel() {
+  const store = await import("../../extension/tx/store");
+  const { createDeterministicExecutionKernel } = await import("../../extension/tx/kernel");
+  const base = (overrides: Partial<PendingTx>): PendingTx => ({
+    id: "tx",
+    state: "BUILDING",
+    fromAddress: OWNER,
+    network: "mainnet",
+    inputs: [],
+    outputs: [],
+    changeOutput: null,
+    fee: 1_000n,
+    builtAt: Date.now(),
+    ...overrides,
+  });
+  return createDeterministicExecutionKernel({
+    addPendingTx: store.addPendingTx,
+    updatePendingTx: store.updatePendingTx,
+    buildKrc20CommitTransaction: vi.fn(async (request) => base({ id: "commit", krc20: { ...request.krc20, step: "commit" } })),
+    buildKrc20RevealTransaction: vi.fn(async (commit: PendingTx) => base({ id: "reveal", krc20: { ...commit.krc20!, step: "reveal" } })),
+    dryRunValidate: vi.fn(async (tx: PendingTx) => ({ valid: true, estimatedFee: tx.fee, changeAmount: 0n, errors: [] })),
+    signTransaction: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "SIGNED" as const })),
+    broadcastTransaction: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "CONFIRMING" as const, txId: `${tx.id}-txid` })),
+    waitForKaspaConfirmation: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "CONFIRMED" as const })),
+    appendExecutionTelemetryEvent: vi.fn(async () => {}) as any,
+  });
+}
+
+describe("runKrc721Transfer", () => {
+  it("inscribes a krc-721 transfer of one token id and links both txs to it", async () => {
+    const { runKrc721Transfer } = await import("../../extension/tx/krc721");
+    const { getKrc20Operation } = await import("../../extension/tx/store");
+    const prepare = vi.fn(async (_from: string, _network: string, inscription: any) => ({
+      inscription,
+      redeemScriptHex: "20" + "11".repeat(32) + "ac",
+      commitAddress: COMMIT_ADDRESS,
+      commitScriptPublicKeyHex: "aa20" + "00".repeat(32) + "87",
+    }));
+
+    const result = await runKrc721Transfer(
+      { fromAddress: OWNER, network: "mainnet", collection: "NACHOKAT", tokenId: "42", to: TO },
+      { kernel: await makeKernel(), prepare, refreshHoldings: vi.fn(async () => {}) },
+    );
+
+    expect(result.error).toBeNull();
+    expect(prepare.mock.calls[0][2]).toEqual({ p: "krc-721", op: "transfer", tick: "NACHOKAT", tokenId: "42", to: TO });
+    const operation = await getKrc20Operation(result.operationId);
+    expect(operation.reveal?.krc20).toMatchObject({ standard: "krc721", token: "NACHOKAT", tokenId: "42", amount: "1", step: "reveal" });
+  });
+
+  it("rejects non-numeric token ids before preparing an inscription", async () => {
+    const { runKrc721Transfer } = await import("../../extension/tx/krc721");
+    const prepare = vi.fn();
+
+    const result = await runKrc721Transfer(
+      { fromAddress: OWNER, network: "mainnet", collection: "NACHOKAT", tokenId: "abc", to: TO },
+      { prepare },
+    );
+
+    expect(result.error).toContain("KRC721_TOKEN_ID_INVALID");
+    expect(prepare).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+// Mnemonic share tests: GF(256) Shamir split/combine, K-of-N recovery of a
+// mnemonic from any K checksummed shares, and detection of typos, mixed sets,
+// duplicates and missing shares.
+
+import { describe, expect, it } from "vitest";
+import { combineShares, splitSecret } from "../../extension/crypto/shamir";
+import { parseMnemonicShare, recoverMnemonic, splitMnemonic } from "../../extension/vault/shares";
+
+const PHRASE_12 = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+const PHRASE_24 = "zoo ".repeat(23) + "vote";
+
+function combinations<T>(items: T[], k: number): T[][] {
+  if (k === 0) return [[]];
+  return items.flatMap((item, i) => combinations(items.slice(i + 1), k - 1).map((rest) => [item, ...rest]));
+}
+
+describe("shamir", () => {
+  it("recovers the secret from any threshold subset", () => {
+    const secret = new Uint8Array([0, 1, 2, 250, 255, 128, 7]);
+    const shares = splitSecret(secret, 5, 3);
+    for (const subset of combinations(shares, 3)) {
+      expect(Array.from(combineShares(subset))).toEqual(Array.from(secret));
+    }
+    expect(() => splitSecret(secret, 2, 3)).toThrow(/^SHAMIR_INVALID_PARAMS/);
+    expect(() => combineShares([shares[0], shares[0]])).toThrow(/^SHAMIR_INVALID_SHARES/);
+  });
+});
+
+describe("mnemonic shares", () => {
+  it("splits 3-of-5 and restores from any 3 shares, in any order", async () => {
+    const shares = await splitMnemonic(PHRASE_24, 5, 3);
+    expect(shares.map((s) => s.index)).toEqual([1, 2, 3, 4, 5]);
+    expect(shares[0].text).toMatch(/^fsh1-[0-9a-z]{5}(-[0-9a-z]{1,5})+$/);
+    expect(new Set(shares.map((s) => s.setId)).size).toBe(1);
+
+    for (const subset of combinations(shares, 3)) {
+      expect(await recoverMnemonic(subset.reverse().map((s) => s.text))).toBe(PHRASE_24);
+    }
+    // Extra shares beyond the threshold are fine; case and spacing are ignored.
+    expect(await recoverMnemonic(shares.map((s) => `  ${s.text.toUpperCase().replace(/-/g, " ")} `))).toBe(PHRASE_24);
+  });
+
+  it("detects a mistyped share before combining", async () => {
+    const [share] = await splitMnemonic(PHRASE_12, 3, 2);
+    const chars = share.text.split("");
+    const pos = 12;
+    chars[pos] = chars[pos] === "a" ? "b" : "a";
+    expect(() => parseMnemonicShare(chars.join(""))).toThrow(/^SHARE_CHECKSUM_MISMATCH/);
+    expect(() => parseMnemonicShare(share.text.slice(0, -6))).toThrow(/^SHARE_(CHECKSUM_MISMATCH|INVALID_FORMAT)/);
+    expect(() => parseMnemonicShare("abandon about")).toThrow(/^SHARE_INVALID_FORMAT/);
+    expect(parseMnemonicShare(share.text)).toMatchObject({ threshold: 2, total: 3, index: 1 });
+  });
+
+  it("rejects too few, duplicate and mixed-set shares", async () => {
+    const a = await splitMnemonic(PHRASE_12, 3, 2, (n) => new Uint8Array(n).fill(1));
+    const b = await splitMnemonic(PHRASE_12, 3, 2, (n) => new Uint8Array(n).fill(2));
+
+    await expect(recoverMnemonic([a[0].text])).rejects.toThrow(/^SHARE_THRESHOLD_NOT_MET: 2 shares needed, 1 entered/);
+    await expect(recoverMnemonic([a[0].text, a[0].text])).rejects.toThrow(/^SHARE_DUPLICATE/);
+    await expect(recoverMnemonic([a[0].text, b[1].text])).rejects.toThrow(/^SHARE_SET_MISMATCH/);
+    await expect(splitMnemonic(PHRASE_12, 17, 2)).rejects.toThrow(/^SHARE_INVALID_PARAMS/);
+    await expect(splitMnemonic("ábaco ".repeat(12), 3, 2)).rejects.toThrow(/^SHARE_UNSUPPORTED_PHRASE/);
+  });
+});
@@ -0,0 +1,241 @@
+// Multisig tests: redeem script derivation, the dry-run threshold check,
+// account registration, and partial-signature collection between co-signers.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { MultisigLink, PendingTx } from "../../extension/tx/types";
+
+const mockSignMultisigInputs = vi.fn();
+const mockVerifyMultisigInputSignatures = vi.fn();
+const mockRelayEntries = vi.fn();
+
+vi.mock("../../extension/tx/kernel", () => ({
+  broadcastAndReconcileKaspaTx: vi.fn(),
+  buildMultisigSpendTx: vi.fn(),
+  finalizeMultisigTx: vi.fn(),
+}));
+
+vi.mock("../../extension/tx/signer", () => ({
+  signTransaction: vi.fn(),
+  multisigPubkeyFromXpub: vi.fn(),
+  signMultisigInputs: (...a: unknown[]) => mockSignMultisigInputs(...a),
+  verifyMultisigInputSignatures: (...a: unknown[]) => mockVerifyMultisigInputSignatures(...a),
+}));
+
+vi.mock("../../extension/network/localNodeClient", () => ({
+  getMultisigRelayEntries: (...a: unknown[]) => mockRelayEntries(...a),
+  postMultisigRelayEntry: vi.fn(),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+    },
+  },
+};
+
+const KEY_A = "aa".repeat(32);
+const KEY_B = "bb".repeat(32);
+const KEY_C = "cc".repeat(32);
+const MULTISIG_ADDRESS = "kaspa:p" + "q".repeat(60);
+const TO = "kaspa:q" + "z".repeat(60);
+const SPK = "aa20" + "11".repeat(32) + "87";
+
+const sig = (byte: string) => "41" + byte.repeat(65);
+
+// 2-of-3 over A, B, C (already in sorted order).
+const REDEEM = "52" + `20${KEY_A}` + `20${KEY_B}` + `20${KEY_C}` + "53" + "ae";
+
+function makeLink(overrides: Partial<MultisigLink> = {}): MultisigLink {
+  return {
+    accountId: "multisig-1",
+    threshold: 2,
+    redeemScriptHex: REDEEM,
+    scriptPublicKeyHex: SPK,
+    cosigners: [
+      { label: "A", pubkey: KEY_A },
+      { label: "B", pubkey: KEY_B },
+      { label: "C", pubkey: KEY_C },
+    ],
+    ...overrides,
+  };
+}
+
+function makeTx(overrides: Partial<PendingTx> = {}): PendingTx {
+  return {
+    id: "multisig-tx-1",
+    state: "BUILDING",
+    fromAddress: MULTISIG_ADDRESS,
+    network: "mainnet",
+    inputs: [{
+      txId: "dd".repeat(32),
+      outputIndex: 0,
+      address: MULTISIG_ADDRESS,
+      amount: 500_000_000n,
+      scriptPublicKey: SPK,
+      scriptVersion: 0,
+      blockDaaScore: 1_000n,
+      isCoinbase: false,
+      scriptClass: "multisig",
+    }],
+    outputs: [{ address: TO, amount: 200_000_000n }],
+    changeOutput: { address: MULTISIG_ADDRESS, amount: 299_990_000n },
+    fee: 10_000n,
+    builtAt: Date.now(),
+    multisig: makeLink(),
+    ...overrides,
+  };
+}
+
+const ACCOUNT_DEPS = {
+  pubkeyFromXpub: async (xpub: string) => ({ xpubA: KEY_A, xpubB: KEY_B, xpubC: KEY_C } as Record<string, string>)[xpub],
+  p2shAddress: async () => ({ address: MULTISIG_ADDRESS, scriptPublicKeyHex: SPK }),
+};
+
+beforeEach(() => {
+  vi.resetModules();
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  mockSignMultisigInputs.mockReset();
+  mockVerifyMultisigInputSignatures.mockReset().mockResolvedValue(true);
+  mockRelayEntries.mockReset().mockResolvedValue([]);
+});
+
+describe("multisig scripts", () => {
+  it("derives the same redeem script regardless of co-signer order", async () => {
+    const { buildMultisigRedeemScript } = await import("../../extension/tx/multisigScript");
+    expect(buildMultisigRedeemScript(2, [KEY_C, KEY_A, KEY_B])).toBe(REDEEM);
+    expect(buildMultisigRedeemScript(2, [KEY_B, KEY_C, KEY_A.toUpperCase()])).toBe(REDEEM);
+  });
+
+  it("rejects duplicate keys, malformed keys and impossible thresholds", async () => {
+    const { buildMultisigRedeemScript } = await import("../../extension/tx/multisigScript");
+    expect(() => buildMultisigRedeemScript(2, [KEY_A, KEY_A])).toThrow("MULTISIG_DUPLICATE_COSIGNER");
+    expect(() => buildMultisigRedeemScript(1, [KEY_A, "abc"])).toThrow("MULTISIG_PUBKEY_INVALID");
+    expect(() => buildMultisigRedeemScript(3, [KEY_A, KEY_B])).toThrow("MULTISIG_THRESHOLD_INVALID");
+    expect(() => buildMultisigRedeemScript(1, [KEY_A])).toThrow("MULTISIG_THRESHOLD_INVALID");
+  });
+
+  it("fails the threshold check until enough co-signers have signed every input", async () => {
+    const { multisigThresholdErrors } = await import("../../extension/tx/multisigScript");
+    const link = makeLink();
+    expect(multisigThresholdErrors(makeTx())).toEqual(["MULTISIG_THRESHOLD_NOT_MET: 0/2 signatures collected"]);
+
+    const oneSigned = makeLink({ cosigners: link.cosigners.map((c, i) => (i === 0 ? { ...c, signatures: [sig("01")] } : c)) });
+    expect(multisigThresholdErrors(makeTx({ multisig: oneSigned }))[0]).toMatch(/1\/2/);
+
+    const twoSigned = makeLink({ cosigners: link.cosigners.map((c, i) => (i < 2 ? { ...c, signatures: [sig("0" + i)] } : c)) });
+    expect(multisigThresholdErrors(makeTx({ multisig: twoSigned }))).toEqual([]);
+
+    const tampered = { ...twoSigned, threshold: 1 };
+    expect(multisigThresholdErrors(makeTx({ multisig: tampered }))[0]).toMatch(/MULTISIG_SCRIPT_MISMATCH/);
+  });
+});
+
+describe("multisig accounts", () => {
+  it("registers an account from co-signer xpubs and refuses the same key set twice", async () => {
+    const { createMultisigAccount } = await import("../../extension/tx/multisig");
+    const { getMultisigAccounts } = await import("../../extension/shared/storage");
+    const input = {
+      label: "Treasury",
+      threshold: 2,
+      network: "mainnet",
+      cosigners: [{ xpub: "xpubC" }, { label: "Alice", xpub: "xpubA" }, { xpub: "xpubB" }],
+    };
+
+    const account = await createMultisigAccount(input, ACCOUNT_DEPS);
+
+    expect(account).toMatchObject({ label: "Treasury", threshold: 2, redeemScriptHex: REDEEM, address: MULTISIG_ADDRESS });
+    expect(account.cosigners.map((c) => c.pubkey)).toEqual([KEY_A, KEY_B, KEY_C]);
+    expect(account.cosigners[0].label).toBe("Alice");
+    expect(await getMultisigAccounts()).toHaveLength(1);
+    await expect(createMultisigAccount(input, ACCOUNT_DEPS)).rejects.toThrow("MULTISIG_DUPLICATE");
+  });
+});
+
+describe("multisig co-signing", () => {
+  async function registerAccount() {
+    const { createMultisigAccount } = await import("../../extension/tx/multisig");
+    return createMultisigAccount({
+      threshold: 2,
+      network: "mainnet",
+      cosigners: [{ xpub: "xpubA" }, { xpub: "xpubB" }, { xpub: "xpubC" }],
+    }, ACCOUNT_DEPS);
+  }
+
+  it("collects partial signatures from co-signers until the spend is ready", async () => {
+    await registerAccount();
+    const { addPendingTx, getPendingTxById, multisigCosignerStatuses } = await import("../../extension/tx/store");
+    const { applyMultisigPartial, exportMultisigRequest, multisigProgress, signMultisigRequest } = await import("../../extension/tx/multisig");
+    const tx = makeTx();
+    await addPendingTx(tx);
+    const request = await exportMultisigRequest(tx);
+
+    mockSignMultisigInputs.mockResolvedValueOnce({ pubkey: KEY_B, signatures: [sig("0b")] });
+    await applyMultisigPartial(await signMultisigRequest(request));
+    mockSignMultisigInputs.mockResolvedValueOnce({ pubkey: KEY_C, signatures: [sig("0c")] });
+    const updated = await applyMultisigPartial(await signMultisigRequest(request));
+
+    expect(multisigProgress(updated)).toEqual({ signed: 2, threshold: 2, ready: true });
+    const stored = await getPendingTxById(tx.id);
+    expect(multisigCosignerStatuses(stored!).map((s) => s.state)).toEqual(["pending", "signed", "signed"]);
+    const [signedTx] = mockSignMultisigInputs.mock.calls[0] as [PendingTx];
+    expect(signedTx.inputs[0].amount).toBe(500_000_000n);
+  });
+
+  it("rejects partials from outside keys or for a different transaction", async () => {
+    const { addPendingTx } = await import("../../extension/tx/store");
+    const { applyMultisigPartial, exportMultisigRequest, MULTISIG_FORMAT, MULTISIG_VERSION } = await import("../../extension/tx/multisig");
+    const tx = makeTx();
+    await addPendingTx(tx);
+    const { digest } = JSON.parse(await exportMultisigRequest(tx));
+    const partial = (over: Record<string, unknown>) => JSON.stringify({
+      format: MULTISIG_FORMAT, version: MULTISIG_VERSION, kind: "partial", network: "mainnet",
+      txId: tx.id, digest, createdAt: 0, pubkey: KEY_A, signatures: [sig("0a")], ...over,
+    });
+
+    await expect(applyMultisigPartial(partial({ pubkey: "ee".repeat(32) }))).rejects.toThrow("MULTISIG_NOT_COSIGNER");
+    await expect(applyMultisigPartial(partial({ digest: "0".repeat(64) }))).rejects.toThrow("MULTISIG_DIGEST_MISMATCH");
+    await expect(applyMultisigPartial(partial({ signatures: [] }))).rejects.toThrow("MULTISIG_SIGNATURE_INVALID");
+    await expect(applyMultisigPartial(partial({ txId: "other" }))).rejects.toThrow("MULTISIG_UNKNOWN_TX");
+  });
+
+  it("rejects a well-formed signature that does not verify without replacing the recorded one", async () => {
+    const { addPendingTx, getPendingTxById } = await import("../../extension/tx/store");
+    const { applyMultisigPartial, exportMultisigRequest, pullMultisigPartials, MULTISIG_FORMAT, MULTISIG_VERSION } = await import("../../extension/tx/multisig");
+    const tx = makeTx();
+    await addPendingTx(tx);
+    const { digest } = JSON.parse(await exportMultisigRequest(tx));
+    const partial = (signature: string) => JSON.stringify({
+      format: MULTISIG_FORMAT, version: MULTISIG_VERSION, kind: "partial", network: "mainnet",
+      txId: tx.id, digest, createdAt: 0, pubkey: KEY_B, signatures: [signature],
+    });
+    const forged = sig("ff");
+    mockVerifyMultisigInputSignatures.mockImplementation(async (_tx: PendingTx, pubkey: string, signatures: string[]) =>
+      pubkey === KEY_B && signatures[0] === sig("0b"));
+
+    await applyMultisigPartial(partial(sig("0b")));
+    await expect(applyMultisigPartial(partial(forged))).rejects.toThrow("MULTISIG_SIGNATURE_INVALID");
+
+    mockRelayEntries.mockResolvedValue([{ kind: "partial", postedAt: 1, text: partial(forged) }]);
+    const pulled = await pullMultisigPartials(tx.id);
+    expect(pulled).toMatchObject({ applied: 0, rejected: 1 });
+    const stored = await getPendingTxById(tx.id);
+    expect(stored!.multisig!.cosigners.find((c) => c.pubkey === KEY_B)!.signatures).toEqual([sig("0b")]);
+    const [verifiedTx, verifiedKey] = mockVerifyMultisigInputSignatures.mock.calls[0] as [PendingTx, string];
+    expect([verifiedTx.id, verifiedKey]).toEqual([tx.id, KEY_B]);
+  });
+
+  it("refuses to co-sign for an account this vault has not registered", async () => {
+    const { exportMultisigRequest, signMultisigRequest } = await import("../../extension/tx/multisig");
+    const request = await exportMultisigRequest(makeTx());
+
+    await expect(signMultisigRequest(request)).rejects.toThrow("MULTISIG_UNKNOWN_ACCOUNT");
+    expect(mockSignMultisigInputs).not.toHaveBeenCalled();
+  });
+});
@@ -4,12 +4,15 @@ import {
   dropRequestsForTab,
   emptyPendingRequestState,
   enqueueConnectRequest,
+  enqueueSendRequest,
   enqueueSignRequest,
   normalizePendingRequestState,
+  parsePendingSendRequest,
   pendingRequestCount,
   pruneExpiredRequests,
   requestOriginKey,
   resolveActiveConnectRequest,
+  resolveActiveSendRequest,
   resolveActiveSignRequest,
 } from "../../extension/background/pendingRequests";
 
@@ -130,4 +133,56 @@ describe("pendingRequests queue model", () => {
     expect(dropped.state.connectQueue).toEqual([]);
     expect(dropped.state.signQueue.map((r) => r.requestId)).toEqual(["s3"]);
   });
+
+  it("validates send requests: outputs, sompi strings, payload and fee tier", () => {
+    const base = {
+      requestId: "t1",
+      tabId: 1,
+      outputs: [{ address: " kaspa:qdest ", amountSompi: "150000000" }],
+      createdAt: now,
+    };
+
+    const ok = parsePendingSendRequest({ ...base, payloadHex: "CAFE", feeTier: "low" }, now);
+    expect(ok?.outputs).toEqual([{ address: "kaspa:qdest", amountSompi: "150000000" }]);
+    expect(ok?.payloadHex).toBe("cafe");
+    expect(ok?.feeTier).toBe("low");
+
+    expect(parsePendingSendRequest({ ...base, outputs: [] }, now)).toBeNull();
+    expect(parsePendingSendRequest({ ...base, outputs: [{ address: "kaspa:q", amountSompi: "0" }] }, now)).toBeNull();
+    expect(parsePendingSendRequest({ ...base, outputs: [{ address: "kaspa:q", amountSompi: "1.5" }] }, now)).toBeNull();
+    expect(parsePendingSendRequest({ ...base, outputs: [{ address: "kaspa:q", amountSompi: 100 }] }, now)).toBeNull();
+    expect(parsePendingSendRequest({ ...base, payloadHex: "abc" }, now)).toBeNull();
+    expect(parsePendingSendRequest({ ...base, payloadHex: "00".repeat(81) }, now)).toBeNull();
+    expect(parsePendingSendRequest({ ...base, feeTier: "ludicrous" }, now)).toBeNull();
+  });
+
+  it("queues send requests alongside connect/sign and drops them with the tab", () => {
+    const send = (requestId: string, tabId: number, createdAt: number) => ({
+      requestId,
+      tabId,
+      origin: "https://dapp.example",
+      outputs: [{ address: "kaspa:qdest", amountSompi: "1000" }],
+      createdAt,
+    });
+    let state = emptyPendingRequestState();
+    state = enqueueSignRequest(state, { requestId: "s1", tabId: 1, origin: "https://dapp.example", message: "m", createdAt: now });
+    state = enqueueSendRequest(state, send("t1", 1, now + 1));
+    state = enqueueSendRequest(state, send("t2", 2, now + 2));
+
+    expect(state.activeSend?.requestId).toBe("t1");
+    expect(state.sendQueue.map((r) => r.requestId)).toEqual(["t2"]);
+    expect(pendingRequestCount(state)).toBe(3);
+    expect(countOriginRequests(state, requestOriginKey("https://dapp.example"))).toBe(3);
+
+    expect(resolveActiveSendRequest(state, "t2").stale).toBe(true);
+
+    const dropped = dropRequestsForTab(state, 1);
+    expect(dropped.removedSend.map((r) => r.requestId)).toEqual(["t1"]);
+    expect(dropped.state.activeSend?.requestId).toBe("t2");
+    expect(dropped.state.activeSign).toBeNull();
+
+    const pruned = pruneExpiredRequests(dropped.state, now + 10_000, 1_000);
+    expect(pruned.expiredSend.map((r) => r.requestId)).toEqual(["t2"]);
+    expect(pendingRequestCount(pruned.state)).toBe(0);
+  });
 });
@@ -0,0 +1,64 @@
+// Provider event routing: which connected origins hear about an account
+// switch or a removed site, and how dispatches fan out to open tabs.
+
+import { describe, expect, it } from "vitest";
+import {
+  accountSwitchDispatches,
+  asConnectedSitesByAccount,
+  connectedSiteDispatches,
+  routeProviderEvents,
+  siteRemovalDispatches,
+} from "../../extension/background/providerEvents";
+
+const site = (address: string) => ({ address, network: "mainnet", connectedAt: 1 });
+
+describe("provider event dispatches", () => {
+  it("sends the new address to origins approved for the new account and [] to the rest", () => {
+    const previous = { "https://a.example": site("kaspa:qa"), "https://both.example": site("kaspa:qa") };
+    const next = { "https://b.example": site("kaspa:qb"), "https://both.example": site("kaspa:qb") };
+
+    const dispatches = accountSwitchDispatches(previous, next);
+
+    expect(dispatches).toEqual(expect.arrayContaining([
+      { origin: "https://a.example", event: "accountsChanged", data: [] },
+      { origin: "https://b.example", event: "accountsChanged", data: ["kaspa:qb"] },
+      { origin: "https://both.example", event: "accountsChanged", data: ["kaspa:qb"] },
+    ]));
+    expect(dispatches).toHaveLength(3);
+  });
+
+  it("skips origins whose visible address did not change", () => {
+    const sites = { "https://a.example": site("kaspa:qa") };
+    expect(accountSwitchDispatches(sites, { ...sites })).toEqual([]);
+  });
+
+  it("disconnects origins removed from the active account only", () => {
+    const previous = asConnectedSitesByAccount({
+      primary: { "https://a.example": site("kaspa:qa"), "https://keep.example": site("kaspa:qa") },
+      other: { "https://x.example": site("kaspa:qx") },
+    });
+    const next = asConnectedSitesByAccount({ primary: { "https://keep.example": site("kaspa:qa") } });
+
+    expect(siteRemovalDispatches(previous, next, "primary")).toEqual([
+      { origin: "https://a.example", event: "accountsChanged", data: [] },
+      { origin: "https://a.example", event: "disconnect", data: { origin: "https://a.example" } },
+    ]);
+    // Clearing storage entirely (newValue undefined) removes every site.
+    expect(siteRemovalDispatches(previous, asConnectedSitesByAccount(undefined), "other")
+      .filter((d) => d.event === "disconnect")).toHaveLength(1);
+  });
+
+  it("routes dispatches to every open tab on a matching origin", () => {
+    const dispatches = connectedSiteDispatches({ "https://forge-os.xyz": site("kaspa:qa") }, "locked");
+    const routes = routeProviderEvents([
+      { id: 1, url: "https://forge-os.xyz/app" },
+      { id: 2, url: "https://forge-os.xyz/other?x=1" },
+      { id: 3, url: "https://evil.example/" },
+      { id: 4, url: "chrome://extensions" },
+      { url: "https://forge-os.xyz/" },
+    ], dispatches);
+
+    expect(routes.map((r) => r.tabId)).toEqual([1, 2]);
+    expect(routes[0].message).toEqual({ type: "FORGEOS_PROVIDER_EVENT", event: "locked" });
+  });
+});
@@ -0,0 +1,222 @@
+// Offline signing tests: envelope export → offline sign → signed import and
+// broadcast, digest tampering, stale/unknown imports, signed payloads that
+// differ from the export, and QR frame round trips.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PendingTx } from "../../extension/tx/types";
+
+const mockBroadcastAndReconcile = vi.fn();
+const mockSignTransaction = vi.fn();
+
+vi.mock("../../extension/tx/kernel", () => ({
+  broadcastAndReconcileKaspaTx: (...a: unknown[]) => mockBroadcastAndReconcile(...a),
+}));
+
+vi.mock("../../extension/tx/signer", () => ({
+  signTransaction: (...a: unknown[]) => mockSignTransaction(...a),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+    },
+  },
+};
+
+// Real mainnet addresses, so their locking scripts can be checked in signed payloads.
+const FROM = "kaspa:qr0lr4ml9fn3chekrqmjdkergxl93l4wrk3dankcgvjq776s9wn9jkdskewva";
+const FROM_SCRIPT = "20dff1d77f2a671c5f36183726db2341be58feae1da2deced843240f7b502ba659ac";
+const TO = "kaspa:qrunpzspjfvvxyzfx38ct7ya2g5m2vwggkpklxdsscqlzyauuqm0ju6q2fjpa";
+const TO_SCRIPT = "20f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9ac";
+const SCRIPTS: Record<string, string> = { [FROM]: FROM_SCRIPT, [TO]: TO_SCRIPT };
+
+function makeTx(overrides: Partial<PendingTx> = {}): PendingTx {
+  return {
+    id: "pskt-tx-1",
+    state: "DRY_RUN_OK",
+    fromAddress: FROM,
+    network: "mainnet",
+    inputs: [{
+      txId: "aa".repeat(32),
+      outputIndex: 1,
+      address: FROM,
+      amount: 500_000_000n,
+      scriptPublicKey: "20" + "ab".repeat(32) + "ac",
+      scriptVersion: 0,
+      blockDaaScore: 1_000n,
+      isCoinbase: false,
+    }],
+    outputs: [{ address: TO, amount: 200_000_000n }],
+    changeOutput: { address: FROM, amount: 299_990_000n },
+    fee: 10_000n,
+    builtAt: Date.now(),
+    validatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+/** REST-format signed payload paying the tx's outputs and change. */
+function signedPayload(tx: PendingTx): string {
+  const outputs = [...tx.outputs, ...(tx.changeOutput ? [tx.changeOutput] : [])];
+  return JSON.stringify({
+    transaction: {
+      version: 0,
+      inputs: tx.inputs.map((i) => ({ previousOutpoint: { transactionId: i.txId, index: i.outputIndex } })),
+      outputs: outputs.map((o) => ({
+        amount: Number(o.amount),
+        scriptPublicKey: { version: 0, scriptPublicKey: SCRIPTS[o.address] },
+      })),
+    },
+  });
+}
+
+beforeEach(() => {
+  vi.resetModules();
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  mockBroadcastAndReconcile.mockReset();
+  mockSignTransaction.mockReset();
+  mockSignTransaction.mockImplementation(async (tx: PendingTx) => ({
+    ...tx,
+    state: "SIGNED",
+    signedTxPayload: signedPayload(tx),
+    signedAt: 42,
+  }));
+  mockBroadcastAndReconcile.mockImplementation(async (tx: PendingTx) => ({ ...tx, state: "CONFIRMED", txId: "f".repeat(64) }));
+});
+
+describe("pskt export / sign / import", () => {
+  it("round-trips a dry-run tx through the offline signer and broadcasts the signed payload", async () => {
+    const { addPendingTx, getPendingTxById } = await import("../../extension/tx/store");
+    const { exportPskt, importSignedPskt, parsePskt, signPskt } = await import("../../extension/tx/pskt");
+    const tx = makeTx();
+    await addPendingTx(tx);
+
+    const unsigned = await exportPskt(tx);
+    expect(parsePskt(unsigned).envelope.stage).toBe("unsigned");
+    expect(parsePskt(unsigned).tx.inputs[0].amount).toBe(500_000_000n);
+
+    const signed = await signPskt(unsigned);
+    expect(mockSignTransaction).toHaveBeenCalledOnce();
+    expect(parsePskt(signed).envelope.stage).toBe("signed");
+
+    const result = await importSignedPskt(signed);
+
+    expect(result.state).toBe("CONFIRMED");
+    const [broadcastTx] = mockBroadcastAndReconcile.mock.calls[0] as [PendingTx];
+    expect(broadcastTx).toMatchObject({ id: tx.id, state: "SIGNED", signedTxPayload: signedPayload(tx), signedAt: 42 });
+    expect((await getPendingTxById(tx.id))?.state).toBe("SIGNED");
+  });
+
+  it("refuses to export a tx that has not passed dry-run", async () => {
+    const { exportPskt } = await import("../../extension/tx/pskt");
+    await expect(exportPskt(makeTx({ state: "BUILDING" }))).rejects.toThrow("PSKT_NOT_VALIDATED");
+  });
+
+  it("rejects an envelope whose outputs were altered after export", async () => {
+    const { exportPskt, signPskt } = await import("../../extension/tx/pskt");
+    const envelope = JSON.parse(await exportPskt(makeTx()));
+    envelope.tx.outputs[0].address = FROM;
+
+    await expect(signPskt(JSON.stringify(envelope))).rejects.toThrow("PSKT_DIGEST_MISMATCH");
+    expect(mockSignTransaction).not.toHaveBeenCalled();
+  });
+
+  it("rejects signed imports that are unknown, stale, or spend different inputs", async () => {
+    const { addPendingTx, updatePendingTx } = await import("../../extension/tx/store");
+    const { exportPskt, importSignedPskt, signPskt } = await import("../../extension/tx/pskt");
+    const tx = makeTx();
+    const signed = await signPskt(await exportPskt(tx));
+
+    await expect(importSignedPskt(signed)).rejects.toThrow("PSKT_UNKNOWN_TX");
+
+    await addPendingTx(tx);
+    const envelope = JSON.parse(signed);
+    envelope.tx.signedTxPayload = signedPayload(makeTx({ inputs: [{ ...tx.inputs[0], txId: "bb".repeat(32) }] }));
+    await expect(importSignedPskt(JSON.stringify(envelope))).rejects.toThrow("PSKT_PAYLOAD_MISMATCH");
+
+    await updatePendingTx({ ...tx, state: "BROADCASTING" });
+    await expect(importSignedPskt(signed)).rejects.toThrow("PSKT_STALE");
+    expect(mockBroadcastAndReconcile).not.toHaveBeenCalled();
+  });
+});
+
+describe("pskt signed payload checks", () => {
+  async function importWithPayload(payload: string) {
+    const { addPendingTx } = await import("../../extension/tx/store");
+    const { exportPskt, importSignedPskt, signPskt } = await import("../../extension/tx/pskt");
+    const tx = makeTx();
+    await addPendingTx(tx);
+    const envelope = JSON.parse(await signPskt(await exportPskt(tx)));
+    envelope.tx.signedTxPayload = payload;
+    return importSignedPskt(JSON.stringify(envelope));
+  }
+
+  function tamper(edit: (transaction: any) => void): string {
+    const payload = JSON.parse(signedPayload(makeTx()));
+    edit(payload.transaction);
+    return JSON.stringify(payload);
+  }
+
+  it("decodes address locking scripts", async () => {
+    const { addressScriptHex } = await import("../../extension/tx/pskt");
+    expect(addressScriptHex(FROM)).toBe(FROM_SCRIPT);
+    expect(addressScriptHex(TO.toUpperCase())).toBe(TO_SCRIPT);
+    expect(addressScriptHex("kaspa:qqq")).toBeNull();
+  });
+
+  it("rejects payloads that redirect an output or the change", async () => {
+    await expect(importWithPayload(tamper((t) => {
+      t.outputs[0].scriptPublicKey.scriptPublicKey = FROM_SCRIPT;
+    }))).rejects.toThrow("PSKT_PAYLOAD_MISMATCH: signed payload pays different outputs or change");
+    await expect(importWithPayload(tamper((t) => {
+      t.outputs[1].scriptPublicKey.scriptPublicKey = TO_SCRIPT;
+    }))).rejects.toThrow("PSKT_PAYLOAD_MISMATCH: signed payload pays different outputs or change");
+    await expect(importWithPayload(tamper((t) => {
+      t.outputs.push({ amount: 1, scriptPublicKey: { version: 0, scriptPublicKey: TO_SCRIPT } });
+    }))).rejects.toThrow("PSKT_PAYLOAD_MISMATCH");
+    expect(mockBroadcastAndReconcile).not.toHaveBeenCalled();
+  });
+
+  it("rejects payloads that change an amount or the fee", async () => {
+    await expect(importWithPayload(tamper((t) => {
+      t.outputs[0].amount += 5_000;
+      t.outputs[1].amount -= 5_000;
+    }))).rejects.toThrow("PSKT_PAYLOAD_MISMATCH: signed payload pays different outputs or change");
+    await expect(importWithPayload(tamper((t) => {
+      t.outputs[1].amount -= 5_000;
+    }))).rejects.toThrow("PSKT_PAYLOAD_MISMATCH");
+    expect(mockBroadcastAndReconcile).not.toHaveBeenCalled();
+  });
+
+  it("rejects payloads it cannot read instead of trusting them", async () => {
+    await expect(importWithPayload(JSON.stringify({ tx: "opaque" }))).rejects.toThrow(
+      "PSKT_PAYLOAD_MISMATCH: signed payload is not a readable transaction",
+    );
+    await expect(importWithPayload(tamper((t) => {
+      delete t.outputs;
+    }))).rejects.toThrow("PSKT_PAYLOAD_MISMATCH: signed payload is not a readable transaction");
+    await expect(importWithPayload("not json")).rejects.toThrow("PSKT_PAYLOAD_MISMATCH: signed payload is not valid JSON");
+    expect(mockBroadcastAndReconcile).not.toHaveBeenCalled();
+  });
+});
+
+describe("pskt QR frames", () => {
+  it("reassembles frames scanned out of order and reports missing frames", async () => {
+    const { encodePsktQrFrames, exportPskt, readPsktText } = await import("../../extension/tx/pskt");
+    const text = await exportPskt(makeTx());
+    const frames = encodePsktQrFrames(text, 120);
+    expect(frames.length).toBeGreaterThan(2);
+
+    const shuffled = [...frames].reverse();
+    expect(readPsktText(shuffled.join("\n"))).toBe(text);
+    expect(() => readPsktText(frames.slice(1).join("\n"))).toThrow("PSKT_QR_INCOMPLETE");
+    expect(readPsktText(`  ${text}\n`)).toBe(text);
+  });
+});
@@ -0,0 +1,273 @@
+// Replace-by-fee tests: speed-up and cancel replacements of a broadcast tx,
+// replacement groups in the tx store, replaceByFee broadcast, and receipt
+// reconciliation resolving whichever member of a group is accepted.
+//
+// Network calls are mocked; the tx store persists to an in-memory
+// chrome.storage.local.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Utxo } from "../../extension/utxo/types";
+import type { PendingTx } from "../../extension/tx/types";
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockEstimateFee = vi.fn();
+const mockBroadcastTx = vi.fn();
+const mockFetchTransaction = vi.fn();
+
+vi.mock("../../extension/network/kaspaClient", () => ({
+  estimateFee: (...a: unknown[]) => mockEstimateFee(...a),
+  broadcastTx: (...a: unknown[]) => mockBroadcastTx(...a),
+  fetchTransaction: (...a: unknown[]) => mockFetchTransaction(...a),
+  getKaspaBackendSelection: async () => ({ source: "remote", reason: "test", activeEndpoint: null }),
+}));
+
+vi.mock("../../src/wallet/kaspaWasmLoader", () => ({
+  loadKaspaWasm: vi.fn(),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+    },
+  },
+};
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const FROM = "kaspa:qpfrom000000000000000000000000000000000000000000000000001";
+const TO = "kaspa:qpto000000000000000000000000000000000000000000000000000002";
+const SOMPI = 100_000_000n;
+
+// sompi/gram per tier
+const FEERATE: Record<string, number> = { low: 1, normal: 2, priority: 4 };
+
+function makeUtxo(txId: string, amount: bigint): Utxo {
+  return {
+    txId,
+    outputIndex: 0,
+    address: FROM,
+    amount,
+    scriptPublicKey: "20" + "aa".repeat(32) + "ac",
+    scriptVersion: 0,
+    scriptClass: "standard",
+    blockDaaScore: 1n,
+    isCoinbase: false,
+  };
+}
+
+// 10 KAS → 5 KAS payment + change, priced at 1 sompi/gram on its 3 000 gram mass.
+function makeOriginal(overrides: Partial<PendingTx> = {}): PendingTx {
+  return {
+    id: "orig",
+    state: "CONFIRMING",
+    fromAddress: FROM,
+    network: "mainnet",
+    inputs: [makeUtxo("in-0", 10n * SOMPI)],
+    outputs: [{ address: TO, amount: 5n * SOMPI }],
+    changeOutput: { address: FROM, amount: 5n * SOMPI - 3_000n },
+    fee: 3_000n,
+    feeTier: "low",
+    builtAt: 1,
+    txId: "aa".repeat(32),
+    ...overrides,
+  };
+}
+
+function feerate(tx: PendingTx, mass: number): number {
+  return Number(tx.fee) / mass;
+}
+
+beforeEach(() => {
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  vi.resetModules();
+  mockBroadcastTx.mockReset();
+  mockFetchTransaction.mockReset();
+  mockEstimateFee.mockImplementation(async (_i: number, _o: number, _n: string, mass = 3_000, tier = "priority") =>
+    BigInt(Math.ceil(mass * FEERATE[tier])));
+});
+
+// ── Builders ──────────────────────────────────────────────────────────────────
+
+describe("buildSpeedUpTransaction", () => {
+  it("re-sends the same intent from the same inputs at a higher feerate", async () => {
+    const { addPendingTx } = await import("../../extension/tx/store");
+    const { calcTransactionMass, pendingTxMassShape } = await import("../../extension/tx/mass");
+    const { buildSpeedUpTransaction } = await import("../../extension/tx/builder");
+    const original = makeOriginal();
+    await addPendingTx(original);
+
+    const speedUp = await buildSpeedUpTransaction(original, { feeTier: "priority" });
+
+    expect(speedUp.replaces).toBe("orig");
+    expect(speedUp.replacementKind).toBe("speed-up");
+    expect(speedUp.inputs).toEqual(original.inputs);
+    expect(speedUp.outputs).toEqual(original.outputs);
+    expect(speedUp.fee).toBeGreaterThan(original.fee);
+    expect(speedUp.changeOutput?.address).toBe(FROM);
+    expect(speedUp.changeOutput!.amount + speedUp.fee).toBe(original.changeOutput!.amount + original.fee);
+    const originalMass = calcTransactionMass(pendingTxMassShape(original)).mass;
+    expect(feerate(speedUp, speedUp.mass!.mass)).toBeGreaterThan(feerate(original, originalMass));
+  });
+
+  it("outbids every earlier member of the group, even at a slower tier", async () => {
+    const { addPendingTx } = await import("../../extension/tx/store");
+    const { buildSpeedUpTransaction } = await import("../../extension/tx/builder");
+    const original = makeOriginal();
+    await addPendingTx(original);
+    const first = { ...(await buildSpeedUpTransaction(original, { feeTier: "priority" })), txId: "bb".repeat(32) };
+    await addPendingTx(first);
+
+    const second = await buildSpeedUpTransaction(first, { feeTier: "low" });
+
+    expect(second.replaces).toBe("orig");
+    expect(second.fee).toBeGreaterThan(first.fee);
+  });
+
+  it("refuses when the bump cannot come out of change", async () => {
+    const { addPendingTx } = await import("../../extension/tx/store");
+    const { buildSpeedUpTransaction } = await import("../../extension/tx/builder");
+    const original = makeOriginal({
+      inputs: [makeUtxo("in-0", 5n * SOMPI + 3_000n)],
+      changeOutput: null,
+    });
+    await addPendingTx(original);
+
+    await expect(buildSpeedUpTransaction(original)).rejects.toThrow("RBF_FEE_EXCEEDS_CHANGE");
+  });
+
+  it("only replaces txs that reached the network and are not yet accepted", async () => {
+    const { addPendingTx, updatePendingTx } = await import("../../extension/tx/store");
+    const { buildSpeedUpTransaction, buildCancelTransaction } = await import("../../extension/tx/builder");
+    const unsent = makeOriginal({ state: "DRY_RUN_OK", txId: undefined });
+    await addPendingTx(unsent);
+    await expect(buildSpeedUpTransaction(unsent)).rejects.toThrow("RBF_NOT_REPLACEABLE");
+
+    const confirmed = makeOriginal({ id: "done", state: "CONFIRMED" });
+    await updatePendingTx(confirmed);
+    await expect(buildCancelTransaction(confirmed)).rejects.toThrow("RBF_ALREADY_CONFIRMED");
+
+    const timedOut = makeOriginal({ id: "slow", state: "FAILED", error: "CONFIRM_TIMEOUT: gave up" });
+    await updatePendingTx(timedOut);
+    await expect(buildSpeedUpTransaction(timedOut)).resolves.toMatchObject({ replaces: "slow" });
+  });
+});
+
+describe("buildCancelTransaction", () => {
+  it("double-spends the inputs back to the sender at a higher feerate", async () => {
+    const { addPendingTx } = await import("../../extension/tx/store");
+    const { calcTransactionMass, pendingTxMassShape } = await import("../../extension/tx/mass");
+    const { buildCancelTransaction } = await import("../../extension/tx/builder");
+    const original = makeOriginal({ opReturnHex: "46474f53", agentJobId: "job-1", platformFee: 100_000n });
+    await addPendingTx(original);
+
+    const cancel = await buildCancelTransaction(original, { feeTier: "low" });
+
+    expect(cancel.replacementKind).toBe("cancel");
+    expect(cancel.inputs).toEqual(original.inputs);
+    expect(cancel.outputs).toEqual([{ address: FROM, amount: 10n * SOMPI - cancel.fee }]);
+    expect(cancel.changeOutput).toBeNull();
+    expect(cancel.opReturnHex).toBeUndefined();
+    expect(cancel.platformFee).toBeUndefined();
+    const originalMass = calcTransactionMass(pendingTxMassShape(original)).mass;
+    expect(feerate(cancel, cancel.mass!.mass)).toBeGreaterThan(feerate(original, originalMass));
+  });
+});
+
+// ── Store ─────────────────────────────────────────────────────────────────────
+
+describe("replacement groups", () => {
+  it("groups a tx with its replacements and settles the losers", async () => {
+    const store = await import("../../extension/tx/store");
+    const original = makeOriginal();
+    const speedUp = makeOriginal({ id: "fast", replaces: "orig", replacementKind: "speed-up", txId: "bb".repeat(32), builtAt: 2 });
+    const cancel = makeOriginal({ id: "stop", replaces: "orig", replacementKind: "cancel", txId: "cc".repeat(32), builtAt: 3 });
+    for (const tx of [original, speedUp, cancel, makeOriginal({ id: "other" })]) await store.addPendingTx(tx);
+
+    expect((await store.getReplacementGroup("stop")).map((t) => t.id)).toEqual(["orig", "fast", "stop"]);
+    // The group spends its inputs once.
+    expect(await store.getPendingOutbound(FROM)).toBe(2n * (5n * SOMPI + 3_000n));
+
+    const winner = { ...speedUp, state: "CONFIRMED" as const };
+    await store.updatePendingTx(winner);
+    const settled = await store.settleReplacementGroup(winner);
+
+    expect(settled.map((t) => [t.id, t.state, t.replacedBy])).toEqual([
+      ["orig", "REPLACED", speedUp.txId],
+      ["stop", "REPLACED", speedUp.txId],
+    ]);
+    expect(await store.settleReplacementGroup(winner)).toEqual([]);
+    expect((await store.getActiveTxsForAddress(FROM)).map((t) => t.id)).toEqual(["other"]);
+  });
+
+  it("round-trips the platform fee through storage", async () => {
+    const store = await import("../../extension/tx/store");
+    await store.addPendingTx(makeOriginal({ platformFee: 100_000n }));
+
+    vi.resetModules();
+    const reloaded = await import("../../extension/tx/store");
+
+    expect((await reloaded.getPendingTxById("orig"))?.platformFee).toBe(100_000n);
+  });
+});
+
+// ── Broadcast and reconciliation ──────────────────────────────────────────────
+
+describe("replacement broadcast and reconciliation", () => {
+  it("broadcasts replacements with replaceByFee", async () => {
+    mockBroadcastTx.mockResolvedValue("dd".repeat(32));
+    const { broadcastTransaction } = await import("../../extension/tx/broadcast");
+    const signed = { state: "SIGNED" as const, signedTxPayload: "{\"transaction\":{}}", txId: undefined };
+
+    await broadcastTransaction(makeOriginal({ ...signed, id: "plain" }));
+    await broadcastTransaction(makeOriginal({ ...signed, id: "fast", replaces: "orig", replacementKind: "speed-up" }));
+
+    expect(mockBroadcastTx.mock.calls[0]).toEqual([{ transaction: {} }, "mainnet"]);
+    expect(mockBroadcastTx.mock.calls[1]).toEqual([{ transaction: {} }, "mainnet", { replaceByFee: true }]);
+  });
+
+  it("resolves a waiting tx as REPLACED when a linked tx is accepted", async () => {
+    const original = makeOriginal();
+    const cancel = makeOriginal({ id: "stop", replaces: "orig", replacementKind: "cancel", txId: "cc".repeat(32) });
+    mockFetchTransaction.mockImplementation(async (txId: string) =>
+      txId === cancel.txId ? { acceptingBlockHash: "ff".repeat(32) } : null);
+    const { waitForKaspaConfirmation } = await import("../../extension/tx/receiptReconciler");
+
+    const result = await waitForKaspaConfirmation(original, {
+      pollIntervalMs: 250,
+      timeoutMs: 5_000,
+      linked: async () => [original, cancel],
+    });
+
+    expect(result.state).toBe("REPLACED");
+    expect(result.replacedBy).toBe(cancel.txId);
+  });
+
+  it("keeps a replacement's bid through validation and settles the group once it lands", async () => {
+    const store = await import("../../extension/tx/store");
+    await store.addPendingTx(makeOriginal());
+    const { createDeterministicExecutionKernel } = await import("../../extension/tx/kernel");
+    const kernel = createDeterministicExecutionKernel({
+      // Estimate below the bid: a replacement must not be repriced down to it.
+      dryRunValidate: vi.fn(async () => ({ valid: true, estimatedFee: 1_000n, changeAmount: 0n, errors: [] })),
+      signTransaction: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "SIGNED" as const })),
+      broadcastTransaction: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "CONFIRMING" as const, txId: "ee".repeat(32) })),
+      waitForKaspaConfirmation: vi.fn(async (tx: PendingTx) => ({ ...tx, state: "CONFIRMED" as const })),
+    });
+
+    const validated = await kernel.buildAndValidateReplacementTx({ original: makeOriginal(), kind: "speed-up" });
+    expect(validated.fee).toBeGreaterThan(3_000n);
+
+    const confirmed = await kernel.signBroadcastAndReconcileKaspaTx(validated);
+
+    expect(confirmed.state).toBe("CONFIRMED");
+    expect(await store.getPendingTxById("orig")).toMatchObject({ state: "REPLACED", replacedBy: "ee".repeat(32) });
+  });
+});
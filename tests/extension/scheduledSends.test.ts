@@ -0,0 +1,226 @@
+// Scheduled send tests: validation, due detection by time and DAA score,
+// recurrence, running a due send through the kernel from fresh UTXOs, and the
+// approval notification.
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PendingTx } from "../../extension/tx/types";
+
+const mockExecute = vi.fn();
+const mockInvalidateUtxoCache = vi.fn();
+
+vi.mock("../../extension/tx/kernel", () => ({
+  executeKaspaIntent: (...a: unknown[]) => mockExecute(...a),
+}));
+
+vi.mock("../../extension/utxo/utxoSync", () => ({
+  invalidateUtxoCache: (...a: unknown[]) => mockInvalidateUtxoCache(...a),
+}));
+
+vi.mock("../../extension/network/kaspaClient", () => ({
+  fetchDagInfo: vi.fn(async () => ({ virtualDaaScore: "1000" })),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+      remove: (key: string, cb: () => void) => {
+        delete _store[key];
+        cb();
+      },
+    },
+  },
+};
+
+const FROM = "kaspa:q" + "p".repeat(60);
+const VENDOR = "kaspa:q" + "z".repeat(60);
+const NOW = 1_800_000_000_000;
+const DAY = 86_400_000;
+
+function chain(nowMs = NOW, daaScore: bigint | null = 1_000n) {
+  return { nowMs, daaScore };
+}
+
+function sentTx(txId: string): PendingTx {
+  return { id: "tx-1", state: "CONFIRMED", txId } as PendingTx;
+}
+
+beforeEach(() => {
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  mockExecute.mockReset();
+  mockInvalidateUtxoCache.mockReset();
+});
+
+describe("scheduling", () => {
+  it("rejects invalid recipients, amounts, past triggers and short intervals", async () => {
+    const { scheduleInputErrors, scheduleSend } = await import("../../extension/tx/scheduled");
+    const base = { fromAddress: FROM, network: "mainnet", to: VENDOR, amountKas: 5 };
+
+    expect(scheduleInputErrors({ ...base, to: "kaspatest:qxyz", trigger: { kind: "time", atMs: NOW + DAY } }, chain())[0])
+      .toMatch(/^SCHEDULE_INVALID_ADDRESS/);
+    expect(scheduleInputErrors({ ...base, amountKas: 0, trigger: { kind: "time", atMs: NOW + DAY } }, chain())[0])
+      .toMatch(/^SCHEDULE_INVALID_AMOUNT/);
+    expect(scheduleInputErrors({ ...base, trigger: { kind: "time", atMs: NOW - 1 } }, chain())[0])
+      .toMatch(/^SCHEDULE_TRIGGER_PAST/);
+    expect(scheduleInputErrors({ ...base, trigger: { kind: "daa", daaScore: "900" } }, chain())[0])
+      .toMatch(/^SCHEDULE_TRIGGER_PAST: DAA score 900 has passed \(current 1000\)/);
+    expect(scheduleInputErrors({ ...base, trigger: { kind: "time", atMs: NOW + DAY, everyMs: 60_000 } }, chain())[0])
+      .toMatch(/^SCHEDULE_INTERVAL_INVALID/);
+    await expect(scheduleSend({ ...base, amountKas: -1, trigger: { kind: "time", atMs: NOW + DAY } }, chain()))
+      .rejects.toThrow(/^SCHEDULE_INVALID_AMOUNT/);
+
+    const saved = await scheduleSend({ ...base, trigger: { kind: "time", atMs: NOW + DAY }, label: "Vendor" }, chain());
+    expect(saved).toMatchObject({ label: "Vendor", status: "scheduled", runs: 0, autoSign: false });
+  });
+
+  it("marks time and DAA triggers due once and reports the earliest wake-up", async () => {
+    const { scheduleSend, markDueScheduledSends, nextScheduledWakeAt, pendingDaaTargets } = await import("../../extension/tx/scheduled");
+    const { getScheduledSends } = await import("../../extension/shared/storage");
+    const base = { fromAddress: FROM, network: "mainnet", to: VENDOR, amountKas: 1 };
+    await scheduleSend({ ...base, trigger: { kind: "time", atMs: NOW + 60_000 } }, chain());
+    await scheduleSend({ ...base, trigger: { kind: "daa", daaScore: "1500" } }, chain());
+
+    const all = await getScheduledSends();
+    expect(nextScheduledWakeAt(all)).toBe(NOW + 60_000);
+    expect(pendingDaaTargets(all).get("mainnet")).toBe(1_500n);
+
+    expect(await markDueScheduledSends("mainnet", chain(NOW + 30_000, 1_200n))).toHaveLength(0);
+    const due = await markDueScheduledSends("mainnet", chain(NOW + 60_000, 1_500n));
+    expect(due.map((s) => s.status)).toEqual(["awaiting_approval", "awaiting_approval"]);
+    expect(await markDueScheduledSends("mainnet", chain(NOW + 120_000, 1_600n))).toHaveLength(0);
+    expect(nextScheduledWakeAt(await getScheduledSends())).toBeNull();
+  });
+
+  it("advances recurring triggers past missed intervals", async () => {
+    const { nextScheduleTrigger } = await import("../../extension/tx/scheduled");
+
+    expect(nextScheduleTrigger({ kind: "time", atMs: NOW }, chain())).toBeNull();
+    expect(nextScheduleTrigger({ kind: "time", atMs: NOW, everyMs: DAY }, chain(NOW + 1_000)))
+      .toEqual({ kind: "time", atMs: NOW + DAY, everyMs: DAY });
+    expect(nextScheduleTrigger({ kind: "time", atMs: NOW, everyMs: DAY }, chain(NOW + 3 * DAY + 5)))
+      .toEqual({ kind: "time", atMs: NOW + 4 * DAY, everyMs: DAY });
+    expect(nextScheduleTrigger({ kind: "daa", daaScore: "1000", everyDaa: "6000" }, chain(NOW, 20_000n)))
+      .toEqual({ kind: "daa", daaScore: "25000", everyDaa: "6000" });
+  });
+});
+
+describe("running scheduled sends", () => {
+  it("rebuilds from fresh UTXOs, re-arms recurring sends and finishes one-off sends", async () => {
+    const { scheduleSend, runScheduledSend } = await import("../../extension/tx/scheduled");
+    const { getScheduledSends } = await import("../../extension/shared/storage");
+    const recurring = await scheduleSend({
+      fromAddress: FROM, network: "mainnet", to: VENDOR, amountKas: 2.5, feeTier: "normal",
+      trigger: { kind: "time", atMs: NOW + 1_000, everyMs: 7 * DAY },
+    }, chain());
+    const once = await scheduleSend({
+      fromAddress: FROM, network: "mainnet", to: VENDOR, amountKas: 1,
+      trigger: { kind: "daa", daaScore: "2000" }, agentId: "agent-7",
+    }, chain());
+    mockExecute.mockResolvedValueOnce(sentTx("aa".repeat(32))).mockResolvedValueOnce(sentTx("bb".repeat(32)));
+
+    await runScheduledSend(recurring.id, chain(NOW + 2_000));
+    await runScheduledSend(once.id, chain(NOW + 2_000, 2_000n));
+
+    expect(mockInvalidateUtxoCache).toHaveBeenCalledWith(FROM);
+    expect(mockExecute.mock.calls[0][0]).toEqual({
+      fromAddress: FROM,
+      network: "mainnet",
+      recipients: [{ address: VENDOR, amountKas: 2.5 }],
+      feeTier: "normal",
+    });
+    expect(mockExecute.mock.calls[0][1].telemetry.channel).toBe("manual");
+    expect(mockExecute.mock.calls[1][1].telemetry).toMatchObject({ channel: "agent", context: { agentId: "agent-7" } });
+
+    const [afterRecurring, afterOnce] = await getScheduledSends();
+    expect(afterRecurring).toMatchObject({
+      status: "scheduled",
+      runs: 1,
+      lastTxId: "aa".repeat(32),
+      trigger: { kind: "time", atMs: NOW + 1_000 + 7 * DAY },
+    });
+    expect(afterOnce).toMatchObject({ status: "sent", runs: 1, lastTxId: "bb".repeat(32) });
+    await expect(runScheduledSend(once.id, chain())).rejects.toThrow(/^SCHEDULE_NOT_READY: scheduled send is sent/);
+    await expect(runScheduledSend("sched-missing", chain())).rejects.toThrow(/^SCHEDULE_NOT_FOUND/);
+  });
+
+  it("records kernel failures on the schedule and allows a retry", async () => {
+    const { scheduleSend, runScheduledSend } = await import("../../extension/tx/scheduled");
+    const { getScheduledSends } = await import("../../extension/shared/storage");
+    const schedule = await scheduleSend({
+      fromAddress: FROM, network: "mainnet", to: VENDOR, amountKas: 3,
+      trigger: { kind: "time", atMs: NOW + 1_000 },
+    }, chain());
+    mockExecute.mockRejectedValueOnce(new Error("INSUFFICIENT_FUNDS: need 3 KAS"));
+
+    await expect(runScheduledSend(schedule.id, chain(NOW + 2_000))).rejects.toThrow(/^INSUFFICIENT_FUNDS/);
+    expect((await getScheduledSends())[0]).toMatchObject({ status: "failed", error: "INSUFFICIENT_FUNDS: need 3 KAS" });
+
+    mockExecute.mockResolvedValueOnce(sentTx("cc".repeat(32)));
+    await runScheduledSend(schedule.id, chain(NOW + 3_000));
+    const [retried] = await getScheduledSends();
+    expect(retried.status).toBe("sent");
+    expect(retried.error).toBeUndefined();
+  });
+
+  it("auto-signs only opted-in due sends of the unlocked account", async () => {
+    const { scheduleSend, runDueAutoSignSends } = await import("../../extension/tx/scheduled");
+    const base = { network: "mainnet", to: VENDOR, amountKas: 1, trigger: { kind: "time" as const, atMs: NOW + 1_000 } };
+    const auto = await scheduleSend({ ...base, fromAddress: FROM, autoSign: true }, chain());
+    await scheduleSend({ ...base, fromAddress: FROM, autoSign: false }, chain());
+    await scheduleSend({ ...base, fromAddress: VENDOR, to: FROM, autoSign: true }, chain());
+    await scheduleSend({ ...base, fromAddress: FROM, autoSign: true, trigger: { kind: "time", atMs: NOW + DAY } }, chain());
+    mockExecute.mockResolvedValue(sentTx("dd".repeat(32)));
+
+    const ran = await runDueAutoSignSends(FROM, "mainnet", chain(NOW + 2_000), mockExecute);
+
+    expect(ran).toEqual([auto.id]);
+    expect(mockExecute).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports only the auto-sign sends that went out", async () => {
+    const { getScheduledSends } = await import("../../extension/shared/storage");
+    const { scheduleSend, runDueAutoSignSends } = await import("../../extension/tx/scheduled");
+    const base = { fromAddress: FROM, network: "mainnet", to: VENDOR, amountKas: 1, autoSign: true };
+    const failing = await scheduleSend({ ...base, trigger: { kind: "time" as const, atMs: NOW + 1_000 } }, chain());
+    const sending = await scheduleSend({ ...base, trigger: { kind: "time" as const, atMs: NOW + 1_500 } }, chain());
+    mockExecute.mockRejectedValueOnce(new Error("INSUFFICIENT_FUNDS: need 1 KAS"));
+    mockExecute.mockResolvedValueOnce(sentTx("ee".repeat(32)));
+
+    const ran = await runDueAutoSignSends(FROM, "mainnet", chain(NOW + 2_000), mockExecute);
+
+    expect(ran).toEqual([sending.id]);
+    expect((await getScheduledSends()).find((s) => s.id === failing.id)?.status).toBe("failed");
+  });
+});
+
+describe("approval notification", () => {
+  const ROOT = join(dirname(fileURLToPath(import.meta.url)), "../..");
+
+  it("uses the manifest's 128px icon, which exists where the manifest says", async () => {
+    const { scheduleSend, scheduledSendNotification } = await import("../../extension/tx/scheduled");
+    const s = await scheduleSend(
+      { fromAddress: FROM, network: "mainnet", to: VENDOR, amountKas: 2, trigger: { kind: "time", atMs: NOW + DAY } },
+      chain(),
+    );
+    // Source manifest (paths relative to extension/) and the built layout (relative to the package root).
+    const manifests = [
+      { dir: join(ROOT, "extension"), manifest: JSON.parse(readFileSync(join(ROOT, "extension/manifest.json"), "utf8")) },
+      { dir: ROOT, manifest: { icons: { "128": "extension/icons/icon128.png" } } },
+    ];
+    for (const { dir, manifest } of manifests) {
+      const options = scheduledSendNotification(s, manifest, (path) => `chrome-extension://forgeos/${path}`);
+      expect(options.iconUrl).toBe(`chrome-extension://forgeos/${manifest.icons["128"]}`);
+      expect(existsSync(join(dir, manifest.icons["128"]))).toBe(true);
+    }
+    expect(scheduledSendNotification(s, {}).message).toMatch(/: 2 KAS → /);
+  });
+});
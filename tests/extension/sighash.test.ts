@@ -0,0 +1,77 @@
+// Sighash and BIP340 tests: reference verification vectors, the co-signer
+// push format, and what the SIG_HASH_ALL hash commits to.
+
+import { describe, expect, it } from "vitest";
+import { schnorrSighash, verifyInputSignaturePush, verifySchnorr, type SighashTx } from "../../extension/tx/sighash";
+
+const hex = (h: string) => Uint8Array.from(h.match(/../g)!.map((b) => parseInt(b, 16)));
+
+// BIP340 test vectors 0 and 1.
+const VECTORS = [
+  {
+    pubkey: "F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9",
+    message: "00".repeat(32),
+    signature: "E907831F80848D1069A5371B402410364BDF1C5F8307B0084C55F1CE2DCA821525F66A4A85EA8B71E482A74F382D2CE5EBEEE8FDB2172F477DF4900D310536C0",
+  },
+  {
+    pubkey: "DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659",
+    message: "243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89",
+    signature: "6896BD60EEAE296DB48A229FF71DFE071BDE413E6D43F917DC8DCF8C78DE33418906D11AC976ABCCB20B091292BFF4EA897EFCB639EA871CFA95F6DE339E4B0A",
+  },
+];
+
+function makeTx(overrides: Partial<SighashTx> = {}): SighashTx {
+  return {
+    version: 0,
+    inputs: [0, 1].map((index) => ({
+      txId: "dd".repeat(32),
+      index,
+      sequence: 0n,
+      sigOpCount: 2,
+      amount: 500_000_000n,
+      scriptVersion: 0,
+      scriptPublicKey: "aa20" + "11".repeat(32) + "87",
+    })),
+    outputs: [{ value: 200_000_000n, scriptVersion: 0, scriptPublicKey: "20" + "22".repeat(32) + "ac" }],
+    lockTime: 0n,
+    subnetworkId: "00".repeat(20),
+    gas: 0n,
+    payload: "",
+    ...overrides,
+  };
+}
+
+describe("BIP340 verification", () => {
+  it("accepts the reference vectors and rejects tampered signatures, messages and keys", async () => {
+    for (const v of VECTORS) {
+      expect(await verifySchnorr(v.pubkey, hex(v.message), v.signature)).toBe(true);
+      expect(await verifySchnorr(v.pubkey, hex(v.message), v.signature.slice(0, 127) + "1")).toBe(false);
+      expect(await verifySchnorr(v.pubkey, hex("01" + v.message.slice(2)), v.signature)).toBe(false);
+    }
+    expect(await verifySchnorr(VECTORS[1].pubkey, hex(VECTORS[0].message), VECTORS[0].signature)).toBe(false);
+    expect(await verifySchnorr("ab", hex(VECTORS[0].message), VECTORS[0].signature)).toBe(false);
+  });
+});
+
+describe("Schnorr sighash", () => {
+  it("commits to the input, the spent amount and every output", async () => {
+    const base = await schnorrSighash(makeTx(), 0);
+    expect(base).toHaveLength(32);
+    expect(await schnorrSighash(makeTx(), 0)).toEqual(base);
+    expect(await schnorrSighash(makeTx(), 1)).not.toEqual(base);
+
+    const tx = makeTx();
+    const moreInput = { ...tx, inputs: [{ ...tx.inputs[0], amount: 500_000_001n }, tx.inputs[1]] };
+    expect(await schnorrSighash(moreInput, 0)).not.toEqual(base);
+    expect(await schnorrSighash(makeTx({ outputs: [{ ...tx.outputs[0], value: 1n }] }), 0)).not.toEqual(base);
+    expect(await schnorrSighash(makeTx({ payload: "00" }), 0)).not.toEqual(base);
+    await expect(schnorrSighash(tx, 2)).rejects.toThrow("SIGHASH_INPUT_MISSING");
+  });
+
+  it("only accepts SIG_HASH_ALL signature pushes", async () => {
+    const push = "41" + "ab".repeat(64);
+    expect(await verifyInputSignaturePush(makeTx(), 0, VECTORS[0].pubkey, `${push}02`)).toBe(false);
+    expect(await verifyInputSignaturePush(makeTx(), 0, VECTORS[0].pubkey, push)).toBe(false);
+    expect(await verifyInputSignaturePush(makeTx(), 0, VECTORS[0].pubkey, `${push}01`)).toBe(false);
+  });
+});
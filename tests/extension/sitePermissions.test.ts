@@ -0,0 +1,176 @@
+// Per-site scopes and spending allowances: legacy defaults, allowance checks
+// with their error codes, the UTC daily reset, queued-send reservations and the
+// agent dispatcher gate.
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  checkSiteSpend,
+  DEFAULT_SITE_SCOPES,
+  hasSiteScope,
+  recordSiteSpend,
+  remainingDailyAllowance,
+  siteScopes,
+} from "../../extension/shared/sitePermissions";
+import {
+  emptyPendingRequestState,
+  enqueueSendRequest,
+  queuedSendSompi,
+  resolveActiveSendRequest,
+  type PendingSendRequest,
+} from "../../extension/background/pendingRequests";
+import { createAgentExecutionDispatcher } from "../../extension/tx/agentDispatcher";
+import type { ConnectedSite } from "../../extension/shared/storage";
+
+const DAY1 = Date.UTC(2026, 0, 10, 12);
+const DAY2 = Date.UTC(2026, 0, 11, 0, 5);
+const KAS = 100_000_000n;
+
+const site = (patch: Partial<ConnectedSite> = {}): ConnectedSite => ({
+  address: "kaspa:qsite",
+  network: "mainnet",
+  connectedAt: 1,
+  ...patch,
+});
+
+describe("site scopes", () => {
+  it("grants the defaults to sites saved before scopes existed", () => {
+    expect(siteScopes(site())).toEqual(DEFAULT_SITE_SCOPES);
+    expect(hasSiteScope(site(), "request_send")).toBe(true);
+    expect(hasSiteScope(site(), "agent_auto_execute")).toBe(false);
+    expect(hasSiteScope(null, "view_address")).toBe(false);
+  });
+
+  it("respects an explicit (possibly empty) scope list", () => {
+    expect(siteScopes(site({ scopes: [] }))).toEqual([]);
+    expect(hasSiteScope(site({ scopes: ["sign_message"] }), "sign_message")).toBe(true);
+    expect(hasSiteScope(site({ scopes: ["agent_auto_execute"] }), "agent_auto_execute")).toBe(true);
+    expect(hasSiteScope(site({ scopes: ["view_address"] }), "request_send")).toBe(false);
+  });
+});
+
+describe("site allowance", () => {
+  const out = (amount: bigint, address = "kaspa:qdest") => [{ address, amountSompi: amount }];
+
+  it("allows anything when the site has no allowance", () => {
+    expect(checkSiteSpend(site(), out(1_000_000n * KAS), DAY1)).toBeNull();
+    expect(remainingDailyAllowance(site(), DAY1)).toBeNull();
+  });
+
+  it("blocks destinations outside the allowlist", () => {
+    const s = site({ allowance: { allowedDestinations: ["kaspa:qdest"] } });
+    expect(checkSiteSpend(s, out(KAS, "KASPA:QDEST"), DAY1)).toBeNull();
+    expect(checkSiteSpend(s, out(KAS, "kaspa:qother"), DAY1)).toMatch(/^ALLOWANCE_DESTINATION_BLOCKED/);
+  });
+
+  it("enforces the per-tx cap on the summed outputs", () => {
+    const s = site({ allowance: { perTxLimitKas: 5 } });
+    expect(checkSiteSpend(s, [...out(3n * KAS), ...out(2n * KAS)], DAY1)).toBeNull();
+    expect(checkSiteSpend(s, [...out(3n * KAS), ...out(3n * KAS)], DAY1)).toMatch(/^ALLOWANCE_PER_TX_EXCEEDED/);
+  });
+
+  it("tracks daily spend and resets on the next UTC day", () => {
+    let s = site({ allowance: { dailyLimitKas: 10 } });
+    s = recordSiteSpend(s, 7n * KAS, DAY1);
+    expect(remainingDailyAllowance(s, DAY1)).toBe(3n * KAS);
+    expect(checkSiteSpend(s, out(4n * KAS), DAY1)).toMatch(/^ALLOWANCE_DAILY_EXCEEDED/);
+    expect(checkSiteSpend(s, out(3n * KAS), DAY1)).toBeNull();
+
+    expect(remainingDailyAllowance(s, DAY2)).toBe(10n * KAS);
+    s = recordSiteSpend(s, 1n * KAS, DAY2);
+    expect(s.allowance).toEqual(expect.objectContaining({ spentDay: "2026-01-11", spentSompi: String(KAS) }));
+  });
+});
+
+describe("queued send reservations", () => {
+  const ORIGIN = "https://dapp.example";
+  const send = (requestId: string, kas: bigint, origin = ORIGIN): PendingSendRequest => ({
+    requestId,
+    tabId: 1,
+    origin,
+    outputs: [{ address: "kaspa:qdest", amountSompi: String(kas * KAS) }],
+    createdAt: DAY1,
+  });
+  // What the background does on FORGEOS_OPEN_FOR_SEND: check, then queue.
+  const queueSend = (state: ReturnType<typeof emptyPendingRequestState>, s: ConnectedSite, request: PendingSendRequest) => {
+    const error = checkSiteSpend(
+      s,
+      request.outputs.map((o) => ({ address: o.address, amountSompi: BigInt(o.amountSompi) })),
+      DAY1,
+      queuedSendSompi(state, ORIGIN),
+    );
+    return { error, state: error ? state : enqueueSendRequest(state, request) };
+  };
+
+  it("refuses a send that fits alone but not with the site's queued sends", () => {
+    const s = site({ allowance: { dailyLimitKas: 10 } });
+    let state = emptyPendingRequestState();
+
+    const first = queueSend(state, s, send("a", 6n));
+    expect(first.error).toBeNull();
+    state = first.state;
+    expect(queuedSendSompi(state, ORIGIN)).toBe(6n * KAS);
+
+    const second = queueSend(state, s, send("b", 6n));
+    expect(second.error).toMatch(/^ALLOWANCE_DAILY_EXCEEDED: 600000000 sompi exceeds the 400000000 sompi left today/);
+    expect(queueSend(state, s, send("c", 4n)).error).toBeNull();
+  });
+
+  it("counts only the same origin and releases the reservation once resolved", () => {
+    let state = enqueueSendRequest(emptyPendingRequestState(), send("a", 6n));
+    state = enqueueSendRequest(state, send("other", 9n, "https://other.example"));
+    expect(queuedSendSompi(state, ORIGIN)).toBe(6n * KAS);
+
+    state = resolveActiveSendRequest(state, "a").state;
+    expect(queuedSendSompi(state, ORIGIN)).toBe(0n);
+    expect(queueSend(state, site({ allowance: { dailyLimitKas: 10 } }), send("b", 6n)).error).toBeNull();
+  });
+});
+
+describe("agent dispatcher site gate", () => {
+  const intent = {
+    agentId: "agent_1",
+    fromAddress: "kaspa:qsender",
+    network: "mainnet",
+    recipients: [{ address: "kaspa:qdest", amountKas: 2 }],
+    origin: "https://dapp.example",
+  };
+
+  it("refuses sites without the agent_auto_execute scope", async () => {
+    const executeIntent = vi.fn();
+    const recordSpend = vi.fn();
+    const dispatch = createAgentExecutionDispatcher(executeIntent as any, { loadSite: async () => site(), recordSpend });
+    await expect(dispatch(intent)).rejects.toThrow(/^SITE_SCOPE_DENIED/);
+
+    const forgotten = createAgentExecutionDispatcher(executeIntent as any, { loadSite: async () => null, recordSpend });
+    await expect(forgotten(intent)).rejects.toThrow(/^SITE_SCOPE_DENIED/);
+    expect(executeIntent).not.toHaveBeenCalled();
+    expect(recordSpend).not.toHaveBeenCalled();
+  });
+
+  it("checks the allowance and records spend once broadcast", async () => {
+    const executeIntent = vi.fn(async () => ({ id: "tx1", state: "CONFIRMING", txId: "abc" }));
+    const recordSpend = vi.fn(async () => null);
+    const scoped = site({ scopes: ["agent_auto_execute"], allowance: { perTxLimitKas: 1 } });
+    const dispatch = createAgentExecutionDispatcher(executeIntent as any, { loadSite: async () => scoped, recordSpend });
+
+    await expect(dispatch(intent)).rejects.toThrow(/^ALLOWANCE_PER_TX_EXCEEDED/);
+    expect(executeIntent).not.toHaveBeenCalled();
+
+    scoped.allowance = { perTxLimitKas: 5 };
+    await dispatch(intent);
+    expect(executeIntent).toHaveBeenCalledTimes(1);
+    expect(executeIntent.mock.calls[0][1]).toMatchObject({ telemetry: { context: { origin: "https://dapp.example" } } });
+    expect(recordSpend).toHaveBeenCalledWith("https://dapp.example", 2n * KAS, expect.any(Number));
+  });
+
+  it("leaves agents not configured on a site to the wallet's own rules", async () => {
+    const executeIntent = vi.fn(async () => ({ id: "tx1", state: "CONFIRMING", txId: "abc" }));
+    const loadSite = vi.fn();
+    const recordSpend = vi.fn();
+    const { origin: _origin, ...local } = intent;
+    await createAgentExecutionDispatcher(executeIntent as any, { loadSite, recordSpend })(local);
+    expect(executeIntent).toHaveBeenCalledTimes(1);
+    expect(loadSite).not.toHaveBeenCalled();
+    expect(recordSpend).not.toHaveBeenCalled();
+  });
+});
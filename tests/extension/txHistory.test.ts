@@ -0,0 +1,229 @@
+// Transaction history: indexer normalisation, send/receive/self/agent/swap
+// classification, merge with local PendingTx records, and paged caching.
+//
+// The REST backend is mocked; the tx store, swap settlements and the history
+// cache persist to an in-memory chrome.storage.local.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { KaspaFullTransaction } from "../../extension/network/kaspaClient";
+import type { PendingTx } from "../../extension/tx/types";
+
+const mockFetchFullTxs = vi.fn();
+
+vi.mock("../../extension/network/kaspaClient", () => ({
+  fetchAddressFullTransactions: (...a: unknown[]) => mockFetchFullTxs(...a),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+    },
+  },
+};
+
+const ME = "kaspa:qme";
+const CHANGE = "kaspa:qmechange";
+const ALICE = "kaspa:qalice";
+const BOB = "kaspa:qbob";
+const SOMPI = 100_000_000n;
+
+function remoteTx(
+  id: string,
+  blockTime: number,
+  inputs: Array<[string, bigint]>,
+  outputs: Array<[string, bigint]>,
+  extra: Partial<KaspaFullTransaction> = {},
+): KaspaFullTransaction {
+  return {
+    transaction_id: id,
+    block_time: blockTime,
+    is_accepted: true,
+    inputs: inputs.map(([address, amount], i) => ({
+      previous_outpoint_hash: `prev-${id}`,
+      previous_outpoint_index: i,
+      previous_outpoint_address: address,
+      previous_outpoint_amount: amount.toString(),
+    })),
+    outputs: outputs.map(([address, amount], index) => ({
+      index,
+      amount: amount.toString(),
+      script_public_key: "20" + "aa".repeat(32) + "ac",
+      script_public_key_address: address,
+    })),
+    ...extra,
+  };
+}
+
+function localTx(patch: Partial<PendingTx>): PendingTx {
+  return {
+    id: "local-1",
+    state: "CONFIRMED",
+    fromAddress: ME,
+    network: "mainnet",
+    inputs: [],
+    outputs: [{ address: BOB, amount: 2n * SOMPI }],
+    changeOutput: null,
+    fee: 3_000n,
+    builtAt: 1_000,
+    ...patch,
+  };
+}
+
+async function seedLocal(txs: PendingTx[]) {
+  const { PENDING_TX_STORAGE_KEY } = await import("../../extension/tx/types");
+  _store[PENDING_TX_STORAGE_KEY] = JSON.stringify(txs.map((tx) => ({
+    ...tx,
+    fee: tx.fee.toString(),
+    outputs: tx.outputs.map((o) => ({ ...o, amount: o.amount.toString() })),
+    inputs: [],
+  })));
+}
+
+beforeEach(() => {
+  vi.resetModules();
+  mockFetchFullTxs.mockReset();
+  for (const key of Object.keys(_store)) delete _store[key];
+});
+
+describe("history classification", () => {
+  it("classifies receives, sends and self-transfers across own addresses", async () => {
+    const { mergeTxHistory, normalizeRemoteTransaction } = await import("../../extension/tx/history");
+    const remote = [
+      remoteTx("rx", 3_000, [[ALICE, 6n * SOMPI]], [[ME, 5n * SOMPI], [ALICE, SOMPI - 2_000n]]),
+      remoteTx("tx", 2_000, [[ME, 5n * SOMPI]], [[BOB, 2n * SOMPI], [CHANGE, 3n * SOMPI - 4_000n]]),
+      remoteTx("self", 1_000, [[ME, 3n * SOMPI]], [[CHANGE, 3n * SOMPI - 1_000n]]),
+    ].map((r) => normalizeRemoteTransaction(r)!);
+
+    const [rx, tx, self] = mergeTxHistory(remote, [], [], [ME, CHANGE]);
+
+    expect(rx).toMatchObject({ txId: "rx", kind: "receive", netSompi: 5n * SOMPI, counterparties: [ALICE], source: "remote" });
+    expect(rx.feeSompi).toBeUndefined();
+    expect(tx).toMatchObject({ kind: "send", netSompi: -(2n * SOMPI + 4_000n), feeSompi: 4_000n, counterparties: [BOB] });
+    expect(self).toMatchObject({ kind: "self", netSompi: -1_000n, feeSompi: 1_000n, counterparties: [] });
+  });
+
+  it("links local agent jobs, OP_RETURN receipts and kaspa-native swaps", async () => {
+    const { mergeTxHistory, normalizeRemoteTransaction } = await import("../../extension/tx/history");
+    const withReceipt = remoteTx("agent-tx", 2_000, [[ME, 5n * SOMPI]], [[BOB, 2n * SOMPI]]);
+    withReceipt.outputs!.push({ index: 1, amount: "0", script_public_key: "6aCAFE", script_public_key_address: null });
+    const remote = [
+      normalizeRemoteTransaction(withReceipt)!,
+      normalizeRemoteTransaction(remoteTx("swap-tx", 1_000, [[ME, 5n * SOMPI]], [[ALICE, SOMPI]]))!,
+    ];
+    const local = [localTx({ id: "job-local", txId: "agent-tx", agentJobId: "job_7" })];
+    const swaps = [{
+      id: "swap-1", routeSource: "kaspa_native" as const, state: "CONFIRMED" as const, network: "mainnet",
+      createdAt: 1, updatedAt: 1, txHash: "swap-tx", bridgeTransferId: null, confirmations: 1, error: null,
+    }];
+
+    const [agent, swap] = mergeTxHistory(remote, local, swaps, [ME]);
+
+    expect(agent).toMatchObject({ kind: "agent", agentJobId: "job_7", receiptHex: "cafe", localId: "job-local", source: "merged" });
+    expect(swap).toMatchObject({ kind: "swap", swapId: "swap-1" });
+  });
+
+  it("includes broadcast local txs the indexer has not seen, but not drafts", async () => {
+    const { mergeTxHistory } = await import("../../extension/tx/history");
+    const local = [
+      localTx({ id: "inflight", state: "CONFIRMING", txId: "new-tx", broadcastAt: 5_000 }),
+      localTx({ id: "draft", state: "DRY_RUN_OK" }),
+      localTx({ id: "cancelled", state: "CANCELLED", txId: "never" }),
+    ];
+
+    const entries = mergeTxHistory([], local, [], [ME]);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      txId: "new-tx", kind: "send", status: "pending", timestamp: 5_000,
+      netSompi: -(2n * SOMPI + 3_000n), source: "local",
+    });
+  });
+});
+
+describe("getTxHistory paging and cache", () => {
+  function page(start: number, count: number) {
+    return Array.from({ length: count }, (_, i) =>
+      remoteTx(`t${start + i}`, 1_000_000 - (start + i), [[ALICE, SOMPI]], [[ME, SOMPI]]));
+  }
+
+  it("fetches older pages to cover the limit and serves repeats from cache", async () => {
+    const { getTxHistory, TX_HISTORY_PAGE_SIZE } = await import("../../extension/tx/history");
+    mockFetchFullTxs.mockImplementation(async (_a: string, _n: string, { offset }: { offset: number }) =>
+      offset === 0 ? page(0, TX_HISTORY_PAGE_SIZE) : page(offset, 5));
+
+    const first = await getTxHistory(ME, "mainnet");
+    expect(first.entries).toHaveLength(TX_HISTORY_PAGE_SIZE);
+    expect(first.hasMore).toBe(true);
+    expect(mockFetchFullTxs).toHaveBeenCalledTimes(1);
+
+    const more = await getTxHistory(ME, "mainnet", { limit: TX_HISTORY_PAGE_SIZE * 2 });
+    expect(more.entries).toHaveLength(TX_HISTORY_PAGE_SIZE + 5);
+    expect(more.hasMore).toBe(false);
+    expect(mockFetchFullTxs).toHaveBeenLastCalledWith(ME, "mainnet", { limit: TX_HISTORY_PAGE_SIZE, offset: TX_HISTORY_PAGE_SIZE });
+
+    mockFetchFullTxs.mockClear();
+    await getTxHistory(ME, "mainnet", { limit: TX_HISTORY_PAGE_SIZE * 2 });
+    expect(mockFetchFullTxs).not.toHaveBeenCalled();
+  });
+
+  it("prepends new transactions on refresh and falls back to cache when the backend fails", async () => {
+    const { getTxHistory } = await import("../../extension/tx/history");
+    mockFetchFullTxs.mockResolvedValueOnce([remoteTx("old", 1_000, [[ALICE, SOMPI]], [[ME, SOMPI]])]);
+    await getTxHistory(ME, "mainnet");
+
+    mockFetchFullTxs.mockResolvedValueOnce([
+      remoteTx("new", 2_000, [[ALICE, SOMPI]], [[ME, SOMPI]]),
+      remoteTx("old", 1_000, [[ALICE, SOMPI]], [[ME, SOMPI]]),
+    ]);
+    const refreshed = await getTxHistory(ME, "mainnet", { refresh: true });
+    expect(refreshed.entries.map((e) => e.txId)).toEqual(["new", "old"]);
+
+    mockFetchFullTxs.mockRejectedValueOnce(new Error("offline"));
+    const offline = await getTxHistory(ME, "mainnet", { refresh: true });
+    expect(offline.entries.map((e) => e.txId)).toEqual(["new", "old"]);
+  });
+
+  it("fetches every HD address of the account and de-duplicates txs seen by several", async () => {
+    const { getTxHistory } = await import("../../extension/tx/history");
+    const RECEIVE_1 = "kaspa:qmereceive1";
+    const byAddress: Record<string, KaspaFullTransaction[]> = {
+      [ME]: [remoteTx("spend", 2_000, [[ME, 5n * SOMPI]], [[BOB, 2n * SOMPI], [CHANGE, 3n * SOMPI - 4_000n]])],
+      [CHANGE]: [remoteTx("spend", 2_000, [[ME, 5n * SOMPI]], [[BOB, 2n * SOMPI], [CHANGE, 3n * SOMPI - 4_000n]])],
+      [RECEIVE_1]: [remoteTx("rx-hd", 3_000, [[ALICE, 2n * SOMPI]], [[RECEIVE_1, SOMPI], [ALICE, SOMPI - 1_000n]])],
+    };
+    mockFetchFullTxs.mockImplementation(async (address: string) => byAddress[address] ?? []);
+
+    const history = await getTxHistory(ME, "mainnet", { ownAddresses: [ME, RECEIVE_1, CHANGE] });
+
+    expect(history.entries.map((e) => [e.txId, e.kind, e.netSompi])).toEqual([
+      ["rx-hd", "receive", SOMPI],
+      ["spend", "send", -(2n * SOMPI + 4_000n)],
+    ]);
+    expect(mockFetchFullTxs.mock.calls.map(([address]) => address).sort()).toEqual([CHANGE, ME, RECEIVE_1].sort());
+
+    // Each address is cached on its own.
+    mockFetchFullTxs.mockClear();
+    await getTxHistory(ME, "mainnet", { ownAddresses: [ME, RECEIVE_1, CHANGE] });
+    expect(mockFetchFullTxs).not.toHaveBeenCalled();
+  });
+
+  it("merges local txs for the same network only", async () => {
+    await seedLocal([
+      // builtAt "now": the store prunes terminal txs older than 7 days on load.
+      localTx({ id: "main", txId: "local-main", builtAt: Date.now() }),
+      localTx({ id: "tn", txId: "local-tn", network: "testnet-10", builtAt: Date.now() }),
+    ]);
+    const { getTxHistory } = await import("../../extension/tx/history");
+    mockFetchFullTxs.mockResolvedValueOnce([]);
+
+    const history = await getTxHistory(ME, "mainnet");
+    expect(history.entries.map((e) => e.txId)).toEqual(["local-main"]);
+  });
+});
@@ -0,0 +1,311 @@
+// Transaction mass tests: the local compute-mass port against kaspa-wasm's
+// MassCalculator, KIP-9 storage mass, dry-run CHECK 2 pricing the exact mass
+// (each output with its own script, naming the dominant component), and the
+// builder folding change that costs more than it is worth into the fee.
+//
+// kaspa-wasm is imported directly (Node build); network calls are mocked.
+
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Utxo } from "../../extension/utxo/types";
+import type { PendingTx } from "../../extension/tx/types";
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockGetOrSyncUtxos = vi.fn();
+const mockSyncUtxos = vi.fn();
+const mockEstimateFee = vi.fn();
+
+vi.mock("../../extension/utxo/utxoSync", async (importActual) => {
+  const real = await importActual<typeof import("../../extension/utxo/utxoSync")>();
+  return {
+    ...real,
+    getOrSyncUtxos: (...a: unknown[]) => mockGetOrSyncUtxos(...a),
+    syncUtxos: (...a: unknown[]) => mockSyncUtxos(...a),
+  };
+});
+
+vi.mock("../../extension/network/kaspaClient", () => ({
+  estimateFee: (...a: unknown[]) => mockEstimateFee(...a),
+}));
+
+vi.mock("../../extension/tx/store", () => ({
+  getLockedUtxoKeys: async () => new Set<string>(),
+}));
+
+vi.mock("../../src/wallet/kaspaWasmLoader", () => ({
+  loadKaspaWasm: () => import("kaspa-wasm"),
+}));
+
+// ── Fixtures ──────────────────────────────────────────────────────────────────
+
+const FROM = "kaspa:qpv7fcvdlz6th4hqjtm9qkkms2dw0raem963x3hm8glu3kjgj7922vy69hv85";
+const TO = "kaspa:qpv7fcvdlz6th4hqjtm9qkkms2dw0raem963x3hm8glu3kjgj7922vy69hv85";
+const P2SH_TO = "kaspa:prunpzspjfvvxyzfx38ct7ya2g5m2vwggkpklxdsscqlzyauuqm0j48w73xev";
+const SOMPI = 100_000_000n;
+const RECEIPT_HEX = "46474f53" + "00".repeat(25);
+
+function makeUtxo(txId: string, amount: bigint): Utxo {
+  return {
+    txId,
+    outputIndex: 0,
+    address: FROM,
+    amount,
+    scriptPublicKey: "20" + "aa".repeat(32) + "ac",
+    scriptVersion: 0,
+    scriptClass: "standard",
+    blockDaaScore: 1n,
+    isCoinbase: false,
+  };
+}
+
+function makeUtxoSet(utxos: Utxo[]) {
+  return {
+    address: FROM,
+    utxos,
+    confirmedBalance: utxos.reduce((acc, u) => acc + u.amount, 0n),
+    pendingOutbound: 0n,
+    lastSyncAt: Date.now(),
+  };
+}
+
+function makeTx(overrides: Partial<PendingTx> = {}): PendingTx {
+  return {
+    id: "tx-mass",
+    state: "BUILDING",
+    fromAddress: FROM,
+    network: "mainnet",
+    inputs: [makeUtxo("in-0", 10n * SOMPI)],
+    outputs: [{ address: TO, amount: 5n * SOMPI }],
+    changeOutput: { address: FROM, amount: 5n * SOMPI - 10_000n },
+    fee: 10_000n,
+    builtAt: 1,
+    ...overrides,
+  };
+}
+
+let kaspa: Record<string, unknown> = {};
+
+beforeAll(async () => {
+  try {
+    kaspa = (await import("kaspa-wasm")) as Record<string, unknown>;
+  } catch {
+    kaspa = {};
+  }
+});
+
+beforeEach(() => {
+  vi.resetModules();
+  mockGetOrSyncUtxos.mockReset();
+  mockSyncUtxos.mockReset();
+  // 1 sompi per gram of mass; 3000 when priced from counts only.
+  mockEstimateFee.mockImplementation(async (_i: number, _o: number, _n: string, mass?: number) =>
+    BigInt(mass ?? 3_000));
+});
+
+// ── Mass calculation ──────────────────────────────────────────────────────────
+
+describe("compute mass", () => {
+  it("prices a signed P2PK transaction from counts", async () => {
+    const { calcP2pkComputeMass } = await import("../../extension/tx/mass");
+    // 94 blank + 1118 per signed input + 412 per P2PK output
+    expect(calcP2pkComputeMass(1, 2)).toBe(2_036);
+    expect(calcP2pkComputeMass(3, 1)).toBe(3_860);
+  });
+
+  it("matches kaspa-wasm's MassCalculator for P2PK and OP_RETURN outputs", async () => {
+    const { calcComputeMass, kaspaWasmComputeMass } = await import("../../extension/tx/mass");
+    const shape = {
+      inputs: [{ amount: 3n * SOMPI }, { amount: 4n * SOMPI }],
+      outputs: [
+        { amount: 5n * SOMPI },
+        { amount: 2n * SOMPI - 5_000n },
+        { amount: 0n, scriptPublicKeyHex: `6a${RECEIPT_HEX}` },
+      ],
+    };
+
+    const wasm = kaspaWasmComputeMass(kaspa, shape, "mainnet");
+    expect(wasm).not.toBeNull();
+    expect(calcComputeMass(shape)).toBe(wasm);
+  });
+
+  it("takes compute mass from kaspa-wasm, agreeing with the port on a reference transaction", async () => {
+    const { calcTransactionMass, measureTransactionMass, multisigMassInput } = await import("../../extension/tx/mass");
+    // 2-of-3 multisig input + P2PK input → payment, change and OP_RETURN receipt.
+    const reference = {
+      inputs: [
+        multisigMassInput(6n * SOMPI, { threshold: 2, redeemScriptHex: "52" + "20aa".repeat(3) + "53ae", cosigners: [{}, {}, {}] as any }),
+        { amount: 4n * SOMPI },
+      ],
+      outputs: [
+        { amount: 7n * SOMPI },
+        { amount: 3n * SOMPI - 20_000n },
+        { amount: 0n, scriptPublicKeyHex: `6a${RECEIPT_HEX}` },
+      ],
+    };
+
+    const measured = await measureTransactionMass(reference, "mainnet", async () => kaspa);
+    expect(measured.source).toBe("kaspa-wasm");
+    expect(measured).toEqual({ ...calcTransactionMass(reference), source: "kaspa-wasm" });
+
+    const fallback = await measureTransactionMass(reference, "mainnet", async () => {
+      throw new Error("WASM_FETCH_FAILED");
+    });
+    expect(fallback.source).toBe("estimate");
+  });
+
+  it("returns null when the module lacks the mass API", async () => {
+    const { kaspaWasmComputeMass } = await import("../../extension/tx/mass");
+    expect(kaspaWasmComputeMass({}, { inputs: [], outputs: [] }, "mainnet")).toBeNull();
+  });
+});
+
+describe("storage mass (KIP-9)", () => {
+  it("uses the relaxed harmonic formula for a single input", async () => {
+    const { calcStorageMass } = await import("../../extension/tx/mass");
+    // C/0.5 KAS × 2 − C/1 KAS
+    expect(calcStorageMass([SOMPI], [SOMPI / 2n, SOMPI / 2n])).toBe(30_000);
+  });
+
+  it("uses the arithmetic input mean for many-to-many transactions", async () => {
+    const { calcStorageMass } = await import("../../extension/tx/mass");
+    const ins = [SOMPI, 2n * SOMPI, 3n * SOMPI];
+    // 3 outputs of 2 KAS each vs 3 inputs with mean 2 KAS → no storage mass.
+    expect(calcStorageMass(ins, [2n * SOMPI, 2n * SOMPI, 2n * SOMPI])).toBe(0);
+    // One tiny output dominates.
+    expect(calcStorageMass(ins, [10_000n, 3n * SOMPI, 3n * SOMPI - 10_000n])).toBeGreaterThan(99_000_000);
+  });
+
+  it("ignores zero-value OP_RETURN outputs and reports the dominant component", async () => {
+    const { calcTransactionMass } = await import("../../extension/tx/mass");
+    const consolidation = calcTransactionMass({
+      inputs: [{ amount: SOMPI }, { amount: SOMPI }],
+      outputs: [{ amount: 2n * SOMPI - 5_000n }, { amount: 0n, scriptPublicKeyHex: `6a${RECEIPT_HEX}` }],
+    });
+    expect(consolidation.storageMass).toBe(0);
+    expect(consolidation.dominant).toBe("compute");
+
+    const dust = calcTransactionMass({
+      inputs: [{ amount: SOMPI }],
+      outputs: [{ amount: 100_000n }, { amount: SOMPI - 110_000n }],
+    });
+    expect(dust.dominant).toBe("storage");
+    expect(dust.mass).toBe(dust.storageMass);
+  });
+});
+
+// ── Dry-run CHECK 2 ───────────────────────────────────────────────────────────
+
+describe("dryRunValidate fee check", () => {
+  beforeEach(() => {
+    mockSyncUtxos.mockResolvedValue(makeUtxoSet([makeUtxo("in-0", 10n * SOMPI)]));
+  });
+
+  it("prices the exact mass measured by kaspa-wasm", async () => {
+    const { dryRunValidate } = await import("../../extension/tx/dryRun");
+    const tx = makeTx({
+      opReturnHex: RECEIPT_HEX,
+      fee: 50_000n,
+      changeOutput: { address: FROM, amount: 5n * SOMPI - 50_000n },
+    });
+
+    const result = await dryRunValidate(tx);
+
+    expect(result.valid).toBe(true);
+    expect(result.mass?.source).toBe("kaspa-wasm");
+    // Payment + change + OP_RETURN.
+    expect(mockEstimateFee).toHaveBeenCalledWith(1, 3, "mainnet", result.mass?.mass, "priority");
+    expect(result.estimatedFee).toBe(BigInt(result.mass!.mass));
+  });
+
+  it("prices a P2SH destination with its own 35-byte script, not the P2PK placeholder", async () => {
+    const { dryRunValidate } = await import("../../extension/tx/dryRun");
+    const { calcTransactionMass, pendingTxMassShape } = await import("../../extension/tx/mass");
+    // 100 KAS → 50 + 50 KAS keeps storage mass below compute mass.
+    mockSyncUtxos.mockResolvedValue(makeUtxoSet([makeUtxo("in-0", 100n * SOMPI)]));
+    const spend = (to: string, fee: bigint) => makeTx({
+      inputs: [makeUtxo("in-0", 100n * SOMPI)],
+      outputs: [{ address: to, amount: 50n * SOMPI }],
+      changeOutput: { address: FROM, amount: 50n * SOMPI - fee },
+      fee,
+    });
+    const p2pk = await dryRunValidate(spend(TO, 50_000n));
+    expect(p2pk.mass?.dominant).toBe("compute");
+
+    const tx = spend(P2SH_TO, 50_000n);
+    expect(pendingTxMassShape(tx).outputs[0].scriptPublicKeyHex).toBe(
+      "aa20f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f987",
+    );
+    const p2sh = await dryRunValidate(tx);
+    expect(p2sh.valid).toBe(true);
+    expect(p2sh.mass?.source).toBe("kaspa-wasm");
+    expect(p2sh.mass).toEqual({ ...calcTransactionMass(pendingTxMassShape(tx)), source: "kaspa-wasm" });
+    // One more script byte: 10 grams as script public key plus 1 as tx size.
+    expect(p2sh.mass!.computeMass).toBe(p2pk.mass!.computeMass + 11);
+
+    // A fee that only covers the P2PK-priced mass is refused.
+    const underPriced = await dryRunValidate(spend(P2SH_TO, BigInt(p2pk.mass!.mass)));
+    expect(underPriced.errors.some((e) => e.startsWith("FEE_TOO_LOW"))).toBe(true);
+  });
+
+  it("names the dominant mass component when the fee is too low", async () => {
+    const { dryRunValidate } = await import("../../extension/tx/dryRun");
+    // 1 KAS → 0.5 + 0.5 KAS: storage mass 30 000 outweighs compute mass.
+    const tx = makeTx({
+      inputs: [makeUtxo("in-0", SOMPI)],
+      outputs: [{ address: TO, amount: SOMPI / 2n }],
+      changeOutput: { address: FROM, amount: SOMPI / 2n - 5_000n },
+      fee: 5_000n,
+    });
+    mockSyncUtxos.mockResolvedValue(makeUtxoSet([makeUtxo("in-0", SOMPI)]));
+
+    const result = await dryRunValidate(tx);
+
+    expect(result.valid).toBe(false);
+    const feeError = result.errors.find((e) => e.startsWith("FEE_TOO_LOW"));
+    expect(feeError).toContain("storage-dominated");
+    expect(result.mass?.dominant).toBe("storage");
+  });
+
+  it("rejects transactions above the standard mass limit", async () => {
+    const { dryRunValidate } = await import("../../extension/tx/dryRun");
+    const tx = makeTx({
+      outputs: [{ address: TO, amount: 1_000n }],
+      changeOutput: { address: FROM, amount: 10n * SOMPI - 1_000n - 20_000_000n },
+      fee: 20_000_000n,
+    });
+
+    const result = await dryRunValidate(tx);
+
+    expect(result.errors.some((e) => e.startsWith("MASS_TOO_HIGH"))).toBe(true);
+  });
+});
+
+// ── Builder ───────────────────────────────────────────────────────────────────
+
+describe("buildTransaction fee pricing", () => {
+  it("prices the fee on the exact mass of the built transaction", async () => {
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet([makeUtxo("big", 200n * SOMPI)]));
+    const { buildTransaction } = await import("../../extension/tx/builder");
+
+    const tx = await buildTransaction(FROM, TO, 100, "mainnet");
+
+    expect(tx.mass?.dominant).toBe("storage");
+    // Default 1.15× fee safety buffer over 1 sompi/gram.
+    expect(tx.fee).toBeGreaterThanOrEqual((BigInt(tx.mass!.mass) * 11_500n) / 10_000n);
+    const outputTotal = tx.outputs.reduce((acc, o) => acc + o.amount, 0n);
+    expect(outputTotal + (tx.changeOutput?.amount ?? 0n) + tx.fee).toBe(200n * SOMPI);
+  });
+
+  it("folds change that would cost more than it is worth into the fee", async () => {
+    // 100 KAS + 0.3 KAS platform fee + 60 000 sompi left over.
+    const spend = 100n * SOMPI + 30_000_000n;
+    mockGetOrSyncUtxos.mockResolvedValue(makeUtxoSet([makeUtxo("exact-ish", spend + 60_000n)]));
+    const { buildTransaction } = await import("../../extension/tx/builder");
+
+    const tx = await buildTransaction(FROM, TO, 100, "mainnet");
+
+    expect(tx.changeOutput).toBeNull();
+    expect(tx.fee).toBe(60_000n);
+    expect(tx.mass?.mass).toBeLessThan(100_000);
+  });
+});
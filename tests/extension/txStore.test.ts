@@ -1,6 +1,6 @@
 // Phase 6 — Integration tests: Transaction store (Phase 3)
 // Tests BigInt round-tripping, CRUD operations, pruning, and locked-UTXO key derivation.
-// serialiseTx/deserialiseTx are private — BigInt behavior is tested indirectly via add+load.
+// BigInt behavior is tested indirectly via add+load.
 
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
@@ -0,0 +1,204 @@
+// Vault multi-account tests: legacy single-address vaults, add/rename/switch,
+// persistence across unlocks, password change, and per-account connected sites.
+//
+// chrome.storage.local → mocked with an in-memory store.
+// KDF → vi.mock replaces kdf.ts with a 1-iteration PBKDF2 for speed.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../../extension/vault/kdf", () => {
+  async function fastDeriveKey(password: string, salt: Uint8Array) {
+    const enc = new TextEncoder();
+    const passKey = await crypto.subtle.importKey(
+      "raw",
+      enc.encode(password),
+      { name: "PBKDF2" },
+      false,
+      ["deriveKey"],
+    );
+    return crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt, iterations: 1, hash: "SHA-256" },
+      passKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  }
+  return {
+    deriveKey: fastDeriveKey,
+    deriveKeyArgon2id: fastDeriveKey,
+    DEFAULT_ARGON_PARAMS: { memoryMB: 64, iterations: 3, parallelism: 4, hashLength: 32 },
+    randomBytes: (length: number) => crypto.getRandomValues(new Uint8Array(length)),
+  };
+});
+
+// ── chrome mock ───────────────────────────────────────────────────────────────
+const _store: Record<string, unknown> = {};
+
+function pick(keys: string | string[]): Record<string, unknown> {
+  const list = Array.isArray(keys) ? keys : [keys];
+  return Object.fromEntries(list.map((k) => [k, _store[k]]));
+}
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (keys: string | string[], cb: (r: Record<string, unknown>) => void) => cb(pick(keys)),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+      clear: (cb: () => void) => {
+        Object.keys(_store).forEach((k) => delete _store[k]);
+        cb();
+      },
+      remove: (keys: string | string[], cb: () => void) => {
+        (Array.isArray(keys) ? keys : [keys]).forEach((k) => delete _store[k]);
+        cb();
+      },
+    },
+  },
+  runtime: {
+    sendMessage: () => {},
+    lastError: undefined,
+  },
+};
+
+const MNEMONIC = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+const PASSWORD = "TestPassword123!";
+const ADDRESS = "kaspa:qtest000000000000000000000";
+const SECOND_ADDRESS = "kaspa:qtest111111111111111111111";
+const NETWORK = "testnet-10";
+
+beforeEach(() => {
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  vi.resetModules();
+});
+
+describe("vault accounts", () => {
+  it("exposes a legacy single-address vault as one primary account", async () => {
+    const { createVault, unlockVault } = await import("../../extension/vault/vault");
+    await createVault(MNEMONIC, PASSWORD, ADDRESS, NETWORK);
+    const session = await unlockVault(PASSWORD);
+
+    expect(session.accounts).toHaveLength(1);
+    expect(session.accounts?.[0]).toMatchObject({ id: "primary", label: "Account 1", address: ADDRESS });
+    expect(session.activeAccountId).toBe("primary");
+    expect(session.address).toBe(ADDRESS);
+  });
+
+  it("suggests the next BIP44 account index for new accounts", async () => {
+    const { createVault, unlockVault, nextAccountDerivation } = await import("../../extension/vault/vault");
+    await createVault(MNEMONIC, PASSWORD, ADDRESS, NETWORK);
+    const session = await unlockVault(PASSWORD);
+
+    const next = nextAccountDerivation(session.accounts ?? []);
+    expect(next).toMatchObject({ path: "m/44'/111'", account: 1, chain: 0, index: 0 });
+  });
+
+  it("adds an account, switches to it and restores the selection on the next unlock", async () => {
+    const vault = await import("../../extension/vault/vault");
+    await vault.createVault(MNEMONIC, PASSWORD, ADDRESS, NETWORK);
+    await vault.unlockVault(PASSWORD);
+
+    const added = await vault.addVaultAccount(PASSWORD, {
+      label: "Trading",
+      address: SECOND_ADDRESS,
+      derivation: { path: "m/44'/111'", account: 1, chain: 0, index: 0 },
+    });
+    expect(vault.getVaultAccounts().map((a) => a.label)).toEqual(["Account 1", "Trading"]);
+    // Adding does not change the active account.
+    expect(vault.getSession()?.address).toBe(ADDRESS);
+
+    const switched = await vault.switchVaultAccount(added.id);
+    expect(switched.address).toBe(SECOND_ADDRESS);
+    expect(switched.derivation?.account).toBe(1);
+
+    vault.lockWallet();
+    const reopened = await vault.unlockVault(PASSWORD);
+    expect(reopened.activeAccountId).toBe(added.id);
+    expect(reopened.address).toBe(SECOND_ADDRESS);
+    expect(reopened.accounts).toHaveLength(2);
+  });
+
+  it("rejects duplicate accounts and wrong passwords", async () => {
+    const vault = await import("../../extension/vault/vault");
+    await vault.createVault(MNEMONIC, PASSWORD, ADDRESS, NETWORK);
+    await vault.unlockVault(PASSWORD);
+
+    await expect(vault.addVaultAccount(PASSWORD, {
+      address: ADDRESS,
+      derivation: { path: "m/44'/111'", account: 5, chain: 0, index: 0 },
+    })).rejects.toThrow("ACCOUNT_EXISTS");
+    await expect(vault.addVaultAccount("wrong-password", {
+      address: SECOND_ADDRESS,
+      derivation: { path: "m/44'/111'", account: 1, chain: 0, index: 0 },
+    })).rejects.toThrow("INVALID_PASSWORD");
+  });
+
+  it("renames accounts and keeps them across a password change", async () => {
+    const vault = await import("../../extension/vault/vault");
+    await vault.createVault(MNEMONIC, PASSWORD, ADDRESS, NETWORK);
+    await vault.unlockVault(PASSWORD);
+    await vault.addVaultAccount(PASSWORD, {
+      address: SECOND_ADDRESS,
+      derivation: { path: "m/44'/111'", account: 1, chain: 0, index: 0 },
+    });
+    await vault.renameVaultAccount(PASSWORD, "primary", "  Savings  ");
+
+    await vault.changePassword(PASSWORD, "NewPassword456!");
+    vault.lockWallet();
+    const session = await vault.unlockVault("NewPassword456!");
+    expect(session.accounts?.map((a) => a.label)).toEqual(["Savings", "Account 2"]);
+  });
+
+  it("refuses to switch when locked or to an unknown account", async () => {
+    const vault = await import("../../extension/vault/vault");
+    await expect(vault.switchVaultAccount("primary")).rejects.toThrow("WALLET_LOCKED");
+    await vault.createVault(MNEMONIC, PASSWORD, ADDRESS, NETWORK);
+    await vault.unlockVault(PASSWORD);
+    await expect(vault.switchVaultAccount("missing")).rejects.toThrow("ACCOUNT_NOT_FOUND");
+  });
+
+  it("never removes the last account", async () => {
+    const vault = await import("../../extension/vault/vault");
+    await vault.createVault(MNEMONIC, PASSWORD, ADDRESS, NETWORK);
+    await vault.unlockVault(PASSWORD);
+    await expect(vault.removeVaultAccount(PASSWORD, "primary")).rejects.toThrow("ACCOUNT_REQUIRED");
+  });
+});
+
+describe("connected sites per account", () => {
+  it("scopes approvals to the active account", async () => {
+    const storage = await import("../../extension/shared/storage");
+    const site = { address: ADDRESS, network: NETWORK, connectedAt: 1 };
+
+    await storage.addConnectedSite("https://a.example", site);
+    await storage.setActiveAccountId("acct-2");
+    expect(await storage.getConnectedSites()).toEqual({});
+
+    await storage.addConnectedSite("https://b.example", { ...site, address: SECOND_ADDRESS });
+    expect(Object.keys(await storage.getConnectedSites())).toEqual(["https://b.example"]);
+    expect(Object.keys(await storage.getConnectedSites("primary"))).toEqual(["https://a.example"]);
+
+    await storage.removeConnectedSite("https://b.example");
+    expect(await storage.getAllConnectedSites()).toEqual({
+      primary: { "https://a.example": { ...site, accountId: "primary" } },
+    });
+  });
+
+  it("migrates the legacy flat allowlist into the primary account", async () => {
+    _store["forgeos.connected.sites.v1"] = {
+      "https://legacy.example": { address: ADDRESS, network: NETWORK, connectedAt: 1 },
+    };
+    const storage = await import("../../extension/shared/storage");
+
+    expect(Object.keys(await storage.getConnectedSites())).toEqual(["https://legacy.example"]);
+    await storage.addConnectedSite("https://new.example", { address: ADDRESS, network: NETWORK, connectedAt: 2 });
+    expect(_store["forgeos.connected.sites.v1"]).toBeUndefined();
+    expect(Object.keys(await storage.getConnectedSites("primary")).sort()).toEqual([
+      "https://legacy.example",
+      "https://new.example",
+    ]);
+  });
+});
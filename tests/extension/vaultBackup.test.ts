@@ -0,0 +1,174 @@
+// Vault backup tests: export → restore round trip (vault, address book,
+// connected sites, agents), file validation, wrong passwords and
+// per-account address-derivation checks.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Same 1-iteration KDF stand-in as vault.test.ts.
+vi.mock("../../extension/vault/kdf", () => {
+  async function fastDeriveKey(password: string, salt: Uint8Array) {
+    const passKey = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), { name: "PBKDF2" }, false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+      { name: "PBKDF2", salt, iterations: 1, hash: "SHA-256" },
+      passKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"],
+    );
+  }
+  return {
+    deriveKey: fastDeriveKey,
+    deriveKeyArgon2id: fastDeriveKey,
+    DEFAULT_ARGON_PARAMS: { memoryMB: 64, iterations: 3, parallelism: 4, hashLength: 32 },
+    randomBytes: (length: number) => crypto.getRandomValues(new Uint8Array(length)),
+  };
+});
+
+vi.mock("../../src/wallet/KaspaWalletManager", () => ({
+  importWallet: vi.fn(),
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (keys: string | string[], cb: (r: Record<string, unknown>) => void) => {
+        const list = Array.isArray(keys) ? keys : [keys];
+        cb(Object.fromEntries(list.map((k) => [k, _store[k]])));
+      },
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+      remove: (keys: string | string[], cb: () => void) => {
+        for (const k of Array.isArray(keys) ? keys : [keys]) delete _store[k];
+        cb();
+      },
+      clear: (cb: () => void) => {
+        Object.keys(_store).forEach((k) => delete _store[k]);
+        cb();
+      },
+    },
+  },
+  runtime: { sendMessage: () => {}, lastError: undefined },
+};
+
+const MNEMONIC = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+const PASSWORD = "TestPassword123!";
+const ADDRESS = "kaspa:q" + "a".repeat(60);
+const NETWORK = "mainnet";
+const DERIVATION = { path: "m/44'/111111'", account: 0, chain: 0 as const, index: 3 };
+
+function derivesTo(address: string) {
+  return { importWallet: vi.fn(async () => ({ phrase: MNEMONIC, address, network: NETWORK, derivation: DERIVATION })) };
+}
+
+async function seedWallet() {
+  const { createVault } = await import("../../extension/vault/vault");
+  const { addConnectedSite, setAgents } = await import("../../extension/shared/storage");
+  const { rememberImportCandidates } = await import("../../extension/shared/importAddressBook");
+  await createVault(MNEMONIC, PASSWORD, ADDRESS, NETWORK, { mnemonicPassphrase: "extra", derivation: DERIVATION });
+  await addConnectedSite("https://app.example", { address: ADDRESS, network: NETWORK, connectedAt: 1, accountId: "primary" });
+  await setAgents([{ agentId: "agent-1", name: "Accumulator" }]);
+  await rememberImportCandidates(MNEMONIC, "extra", NETWORK, [
+    { address: ADDRESS, derivation: DERIVATION, derivationPath: "m/44'/111111'/0'/0/3", chainLabel: "receive" },
+  ]);
+}
+
+async function wipeDevice() {
+  const { resetWallet } = await import("../../extension/vault/vault");
+  await resetWallet();
+}
+
+beforeEach(() => {
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  vi.resetModules();
+});
+
+describe("vault backup", () => {
+  it("round-trips the vault and wallet state through an encrypted file", async () => {
+    await seedWallet();
+    const { exportVaultBackup, restoreVaultBackup } = await import("../../extension/vault/backup");
+    const text = await exportVaultBackup(PASSWORD);
+    expect(text).not.toContain("abandon");
+    expect(JSON.parse(text)).toMatchObject({ format: "forgeos.vault-backup", version: 1, envelope: { version: 2, kdf: "argon2id" } });
+
+    await wipeDevice();
+    const deps = derivesTo(ADDRESS);
+    const session = await restoreVaultBackup(text, PASSWORD, deps);
+
+    expect(deps.importWallet).toHaveBeenCalledWith(MNEMONIC, NETWORK, { mnemonicPassphrase: "extra", derivation: DERIVATION });
+    expect(session).toMatchObject({ mnemonic: MNEMONIC, mnemonicPassphrase: "extra", address: ADDRESS, network: NETWORK });
+
+    const { getAgents, getAllConnectedSites, getWalletMeta } = await import("../../extension/shared/storage");
+    const { loadRememberedImportCandidates } = await import("../../extension/shared/importAddressBook");
+    expect(await getWalletMeta()).toEqual({ address: ADDRESS, network: NETWORK });
+    expect(Object.keys((await getAllConnectedSites()).primary ?? {})).toEqual(["https://app.example"]);
+    expect(await getAgents()).toEqual([{ agentId: "agent-1", name: "Accumulator" }]);
+    expect((await loadRememberedImportCandidates(MNEMONIC, "extra", NETWORK)).map((c) => c.address)).toEqual([ADDRESS]);
+  });
+
+  it("rejects malformed files, wrong passwords and an existing vault", async () => {
+    await seedWallet();
+    const { exportVaultBackup, parseVaultBackupFile, restoreVaultBackup } = await import("../../extension/vault/backup");
+    const text = await exportVaultBackup(PASSWORD);
+    await expect(exportVaultBackup("wrong-password")).rejects.toThrow("INVALID_PASSWORD");
+
+    expect(() => parseVaultBackupFile("not json")).toThrow(/^BACKUP_INVALID_FILE/);
+    expect(() => parseVaultBackupFile(JSON.stringify({ ...JSON.parse(text), version: 9 }))).toThrow(/^BACKUP_UNSUPPORTED_VERSION/);
+    const file = JSON.parse(text);
+    expect(() => parseVaultBackupFile(JSON.stringify({ ...file, envelope: { ...file.envelope, iv: "zz" } })))
+      .toThrow(/^BACKUP_INVALID_FILE: encrypted envelope/);
+
+    await expect(restoreVaultBackup(text, PASSWORD, derivesTo(ADDRESS))).rejects.toThrow(/^BACKUP_VAULT_EXISTS/);
+    await wipeDevice();
+    await expect(restoreVaultBackup(text, "wrong-password", derivesTo(ADDRESS))).rejects.toThrow("INVALID_PASSWORD");
+  });
+
+  it("refuses a backup whose mnemonic does not derive the recorded address", async () => {
+    await seedWallet();
+    const { exportVaultBackup, restoreVaultBackup } = await import("../../extension/vault/backup");
+    const text = await exportVaultBackup(PASSWORD);
+    await wipeDevice();
+
+    await expect(restoreVaultBackup(text, PASSWORD, derivesTo("kaspa:q" + "b".repeat(60))))
+      .rejects.toThrow(/^BACKUP_ADDRESS_MISMATCH/);
+    const { vaultExists } = await import("../../extension/vault/vault");
+    expect(await vaultExists()).toBe(false);
+  });
+
+  it("checks every account's address, not just the primary one", async () => {
+    const SAVINGS = "kaspa:q" + "d".repeat(60);
+    const SAVINGS_DERIVATION = { ...DERIVATION, account: 1, index: 0 };
+    const { createVault } = await import("../../extension/vault/vault");
+    await createVault(MNEMONIC, PASSWORD, ADDRESS, NETWORK, {
+      accounts: [
+        { id: "primary", label: "Main", address: ADDRESS, derivation: DERIVATION, createdAt: 1 },
+        { id: "acct-2", label: "Savings", address: SAVINGS, derivation: SAVINGS_DERIVATION, createdAt: 2 },
+      ],
+    });
+    const { exportVaultBackup, restoreVaultBackup } = await import("../../extension/vault/backup");
+    const text = await exportVaultBackup(PASSWORD);
+    await wipeDevice();
+
+    const derivesAccounts = (savingsAddress: string) => ({
+      importWallet: vi.fn(async (_m: string, _n: string, opts: any) => ({
+        phrase: MNEMONIC,
+        address: opts.derivation.account === 1 ? savingsAddress : ADDRESS,
+        network: NETWORK,
+        derivation: opts.derivation,
+      })),
+    });
+
+    await expect(restoreVaultBackup(text, PASSWORD, derivesAccounts("kaspa:q" + "e".repeat(60))))
+      .rejects.toThrow('BACKUP_ADDRESS_MISMATCH: mnemonic does not derive account "Savings"');
+    const { vaultExists } = await import("../../extension/vault/vault");
+    expect(await vaultExists()).toBe(false);
+
+    const deps = derivesAccounts(SAVINGS);
+    const session = await restoreVaultBackup(text, PASSWORD, deps);
+    expect(deps.importWallet).toHaveBeenCalledWith(MNEMONIC, NETWORK, expect.objectContaining({ derivation: SAVINGS_DERIVATION }));
+    expect(session.accounts?.map((a) => a.address)).toEqual([ADDRESS, SAVINGS]);
+  });
+});
@@ -0,0 +1,99 @@
+// Watch-only tests: address book storage (validation, duplicates, active
+// selection) and the signer refusing transactions funded from a watched address.
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PendingTx } from "../../extension/tx/types";
+
+const mockLoadKaspaWasm = vi.fn();
+const mockGetSession = vi.fn();
+
+vi.mock("../../src/wallet/kaspaWasmLoader", () => ({
+  loadKaspaWasm: (...a: unknown[]) => mockLoadKaspaWasm(...a),
+}));
+
+vi.mock("../../extension/vault/vault", () => ({
+  getSession: () => mockGetSession(),
+  getCachedPrivKey: () => null,
+  setCachedPrivKey: () => {},
+}));
+
+const _store: Record<string, unknown> = {};
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: (key: string, cb: (r: Record<string, unknown>) => void) => cb({ [key]: _store[key] }),
+      set: (items: Record<string, unknown>, cb: () => void) => {
+        Object.assign(_store, items);
+        cb();
+      },
+      remove: (key: string, cb: () => void) => {
+        delete _store[key];
+        cb();
+      },
+    },
+  },
+};
+
+const VAULT_ADDRESS = "kaspa:q" + "p".repeat(60);
+const COLD_ADDRESS = "kaspa:q" + "z".repeat(60);
+
+beforeEach(() => {
+  Object.keys(_store).forEach((k) => delete _store[k]);
+  mockLoadKaspaWasm.mockReset();
+  mockGetSession.mockReturnValue({
+    mnemonic: "test test test",
+    address: VAULT_ADDRESS,
+    network: "mainnet",
+    autoLockAt: Infinity,
+  });
+});
+
+describe("watch-only storage", () => {
+  it("adds normalized addresses and rejects duplicates across network prefixes", async () => {
+    const { addWatchOnlyAccount, getWatchOnlyAccounts, isWatchOnlyAddress } = await import("../../extension/shared/storage");
+
+    const account = await addWatchOnlyAccount(`  ${COLD_ADDRESS.toUpperCase()} `, "Cold storage");
+
+    expect(account).toMatchObject({ label: "Cold storage", address: COLD_ADDRESS });
+    expect(await getWatchOnlyAccounts()).toHaveLength(1);
+    expect(await isWatchOnlyAddress(COLD_ADDRESS.replace("kaspa:", "kaspatest:"))).toBe(true);
+    expect(await isWatchOnlyAddress(VAULT_ADDRESS)).toBe(false);
+    await expect(addWatchOnlyAccount(COLD_ADDRESS.replace("kaspa:", "kaspatest:"))).rejects.toThrow("WATCH_ONLY_DUPLICATE");
+    await expect(addWatchOnlyAccount("kaspa:nope")).rejects.toThrow("WATCH_ONLY_INVALID_ADDRESS");
+  });
+
+  it("clears the active selection when the viewed account is removed", async () => {
+    const storage = await import("../../extension/shared/storage");
+    const account = await storage.addWatchOnlyAccount(COLD_ADDRESS);
+    await storage.setActiveWatchOnlyId(account.id);
+    expect(await storage.getActiveWatchOnlyId()).toBe(account.id);
+
+    await storage.removeWatchOnlyAccount(account.id);
+
+    expect(await storage.getWatchOnlyAccounts()).toEqual([]);
+    expect(await storage.getActiveWatchOnlyId()).toBeNull();
+  });
+});
+
+describe("signTransaction", () => {
+  it("refuses a watch-only sender before loading any key material", async () => {
+    const { addWatchOnlyAccount } = await import("../../extension/shared/storage");
+    const { signTransaction } = await import("../../extension/tx/signer");
+    await addWatchOnlyAccount(COLD_ADDRESS);
+    const tx: PendingTx = {
+      id: "tx",
+      state: "DRY_RUN_OK",
+      fromAddress: COLD_ADDRESS,
+      network: "mainnet",
+      inputs: [],
+      outputs: [],
+      changeOutput: null,
+      fee: 1_000n,
+      builtAt: Date.now(),
+    };
+
+    await expect(signTransaction(tx)).rejects.toThrow("WATCH_ONLY_ACCOUNT");
+    expect(mockLoadKaspaWasm).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  createExecutionGateState,
+  gateAgentDecision,
+  positionExitTrigger,
+  recordExecutionCycle,
+  resolveAgentExecutionRules,
+  resolveDashboardExecutionRules,
+} from "../../src/quant/executionRules";
+
+const NOW = 1_710_000_000_000;
+const HOUR = 60 * 60 * 1000;
+
+const decision = (action: string, confidence = 0.9, risk = 0.3) => ({
+  action,
+  confidence_score: confidence,
+  risk_score: risk,
+});
+
+describe("agent execution rules", () => {
+  it("resolves wizard fields and never loosens deployment overrides", () => {
+    const rules = resolveAgentExecutionRules(
+      { risk: "low", minConfidence: "60", maxDailyActions: "3", cooldownCycles: "2", actionMode: "full" },
+      { confidenceFloor: 0.75 },
+    );
+    expect(rules).toMatchObject({ minConfidence: 0.75, riskCeiling: 0.4, maxDailyActions: 3, cooldownCycles: 2, actionMode: "full" });
+    expect(resolveAgentExecutionRules({ actionMode: "full" }, { accumulateOnly: true }).actionMode).toBe("accumulate_only");
+    expect(resolveAgentExecutionRules({}).actionMode).toBe("accumulate_only");
+  });
+
+  it("resolves the dashboard's live gating without the wizard rules", () => {
+    const agent = { risk: "low", minConfidence: "90", stopLossPct: 2, maxDailyActions: 3, cooldownCycles: 2 };
+    expect(resolveDashboardExecutionRules(agent)).toEqual({
+      stopLossPct: 0,
+      takeProfitPct: 0,
+      minConfidence: 0,
+      riskCeiling: 0.4,
+      maxDailyActions: 0,
+      cooldownCycles: 0,
+      actionMode: "full",
+    });
+    expect(resolveDashboardExecutionRules(agent, { accumulateOnly: true, confidenceFloor: 0.75 }))
+      .toMatchObject({ minConfidence: 0.75, actionMode: "accumulate_only" });
+  });
+
+  it("gates in dashboard order: action mode, risk, confidence, daily cap, cooldown", () => {
+    const accumulateOnly = resolveAgentExecutionRules({ risk: "medium" });
+    const state = createExecutionGateState();
+    expect(gateAgentDecision(decision("REDUCE"), accumulateOnly, state, NOW)).toMatchObject({ action: "HOLD", gate: "action_mode" });
+    expect(gateAgentDecision(decision("REBALANCE", 0.9, 0.9), accumulateOnly, state, NOW)).toMatchObject({ action: "HOLD", gate: "risk" });
+    expect(gateAgentDecision(decision("ACCUMULATE", 0.5), accumulateOnly, state, NOW)).toMatchObject({ gate: "confidence" });
+    expect(gateAgentDecision(decision("HOLD"), accumulateOnly, state, NOW)).toMatchObject({ allowed: false, gate: null });
+
+    const full = resolveAgentExecutionRules({ actionMode: "full", maxDailyActions: 2, cooldownCycles: 1 });
+    expect(gateAgentDecision(decision("REDUCE"), full, state, NOW)).toMatchObject({ action: "REDUCE", allowed: true });
+
+    let s = recordExecutionCycle(state, true, NOW);
+    expect(gateAgentDecision(decision("ACCUMULATE"), full, s, NOW + HOUR)).toMatchObject({ gate: "cooldown" });
+    s = recordExecutionCycle(s, false, NOW + HOUR);
+    expect(gateAgentDecision(decision("ACCUMULATE"), full, s, NOW + 2 * HOUR).allowed).toBe(true);
+    s = recordExecutionCycle(s, true, NOW + 2 * HOUR);
+    s = recordExecutionCycle(s, false, NOW + 3 * HOUR);
+    expect(gateAgentDecision(decision("ACCUMULATE"), full, s, NOW + 4 * HOUR)).toMatchObject({ gate: "daily_cap" });
+    // The cap is a rolling 24h window.
+    expect(gateAgentDecision(decision("ACCUMULATE"), full, s, NOW + 25 * HOUR).allowed).toBe(true);
+  });
+
+  it("triggers stop-loss and take-profit intrabar, stop first", () => {
+    const rules = { stopLossPct: 4, takeProfitPct: 10 };
+    expect(positionExitTrigger(1, { lowUsd: 0.97, highUsd: 1.05 }, rules)).toBeNull();
+    expect(positionExitTrigger(1, { lowUsd: 0.95, highUsd: 0.99 }, rules)).toEqual({ kind: "stop_loss", priceUsd: 0.96 });
+    // Gap through the stop fills at the bar, not the level.
+    expect(positionExitTrigger(1, { lowUsd: 0.9, highUsd: 0.92 }, rules)).toEqual({ kind: "stop_loss", priceUsd: 0.92 });
+    expect(positionExitTrigger(1, { lowUsd: 1.02, highUsd: 1.12 }, rules)?.kind).toBe("take_profit");
+    expect(positionExitTrigger(1, { lowUsd: 0.9, highUsd: 1.2 }, rules)?.kind).toBe("stop_loss");
+    expect(positionExitTrigger(1, { lowUsd: 0.5, highUsd: 2 }, { stopLossPct: 0, takeProfitPct: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { mergeMarketBars, parseMarketData, resampleMarketBars } from "../../src/quant/marketData";
+import {
+  createLiveMarketRecorder,
+  createMarketDataStore,
+  createMemoryMarketBackend,
+  LIVE_MARKET_RETENTION_MS,
+  LIVE_MARKET_SAMPLE_MS,
+  LIVE_MARKET_SERIES,
+} from "../../src/quant/marketDataStore";
+
+const HOUR = 3_600_000;
+const T0 = Date.UTC(2024, 0, 1);
+
+describe("market data parsing", () => {
+  it("reads CSV exports with aliased columns, seconds timestamps and quoted cells", () => {
+    const csv = [
+      "# exported from an exchange",
+      "Time;Open;High;Low;Close;Volume",
+      `${T0 / 1000 + 3600};0.101;0.104;0.1;0.103;"1200"`,
+      `${T0 / 1000};0.1;0.102;0.099;0.101;900`,
+      `${T0 / 1000 + 7200};0.103;0.103;0.1;;50`,
+    ].join("\n");
+    const bars = parseMarketData(csv);
+    expect(bars).toEqual([
+      { ts: T0, priceUsd: 0.101, daaScore: 0, walletKas: 0, openUsd: 0.1, highUsd: 0.102, lowUsd: 0.099, volume: 900 },
+      { ts: T0 + HOUR, priceUsd: 0.103, daaScore: 0, walletKas: 0, openUsd: 0.101, highUsd: 0.104, lowUsd: 0.1, volume: 1200 },
+    ]);
+  });
+
+  it("reads snapshot payloads and kline arrays, and rejects unusable input", () => {
+    const payload = JSON.stringify({ snapshots: [{ ts: new Date(T0).toISOString(), priceUsd: 0.12, daaScore: 7 }] });
+    expect(parseMarketData(payload)).toEqual([{ ts: T0, priceUsd: 0.12, daaScore: 7, walletKas: 0 }]);
+    const klines = JSON.stringify([[T0, "0.1", "0.11", "0.09", "0.105", "3000", T0 + HOUR - 1]]);
+    expect(parseMarketData(klines)[0]).toMatchObject({ ts: T0, priceUsd: 0.105, highUsd: 0.11, volume: 3000 });
+
+    expect(() => parseMarketData("{oops")).toThrow(/MARKET_DATA_PARSE_ERROR/);
+    expect(() => parseMarketData("date,volume\n2024-01-01,5")).toThrow(/MARKET_DATA_PARSE_ERROR/);
+    expect(() => parseMarketData("[]")).toThrow(/MARKET_DATA_EMPTY/);
+  });
+
+  it("merges by timestamp field-wise and resamples into timeframe buckets", () => {
+    const merged = mergeMarketBars(
+      [{ ts: T0, priceUsd: 0.1, daaScore: 500, walletKas: 10 }],
+      [{ ts: T0, priceUsd: 0.11, daaScore: 0, walletKas: 0, volume: 5 }, { ts: T0 - HOUR, priceUsd: 0.09, daaScore: 0, walletKas: 0 }],
+    );
+    expect(merged).toEqual([
+      { ts: T0 - HOUR, priceUsd: 0.09, daaScore: 0, walletKas: 0 },
+      { ts: T0, priceUsd: 0.11, daaScore: 500, walletKas: 10, volume: 5 },
+    ]);
+
+    const hourly = Array.from({ length: 9 }, (_, i) => ({ ts: T0 + i * HOUR, priceUsd: 1 + i, daaScore: 100 + i, walletKas: 0, volume: 1 }));
+    const fourHour = resampleMarketBars(hourly, "4h");
+    expect(fourHour).toHaveLength(3);
+    expect(fourHour[0]).toEqual({ ts: T0, priceUsd: 4, daaScore: 103, walletKas: 0, openUsd: 1, highUsd: 4, lowUsd: 1, volume: 4 });
+    expect(fourHour[2]).toMatchObject({ ts: T0 + 8 * HOUR, priceUsd: 9, volume: 1 });
+    expect(resampleMarketBars(hourly, "24h")).toHaveLength(1);
+    expect(() => resampleMarketBars(hourly, "2h" as any)).toThrow(/MARKET_DATA_UNKNOWN_TIMEFRAME/);
+  });
+});
+
+describe("market data store", () => {
+  it("imports, de-duplicates across imports and answers range queries", async () => {
+    const store = createMarketDataStore(createMemoryMarketBackend());
+    const rows = (from: number, to: number, price: number) =>
+      Array.from({ length: to - from }, (_, i) => `${T0 + (from + i) * HOUR},${price}`).join("\n");
+
+    expect(await store.importText(`timestamp,price\n${rows(0, 6, 0.1)}`, { series: "KAS USD" })).toEqual({ imported: 6, total: 6 });
+    await store.upsert("kas usd", [{ ts: T0, priceUsd: 0.1, daaScore: 42, walletKas: 0 }]);
+    expect(await store.importText(`timestamp,price\n${rows(4, 10, 0.2)}`, { series: "kas usd" })).toEqual({ imported: 6, total: 10 });
+
+    expect(await store.listSeries()).toEqual([{ series: "kas_usd", count: 10, firstTs: T0, lastTs: T0 + 9 * HOUR }]);
+    const all = await store.query({ series: "kas_usd" });
+    expect(all[0]).toEqual({ ts: T0, priceUsd: 0.1, daaScore: 42, walletKas: 0 });
+    expect(all.map((bar) => bar.priceUsd)).toEqual([0.1, 0.1, 0.1, 0.1, 0.2, 0.2, 0.2, 0.2, 0.2, 0.2]);
+
+    const window = await store.query({ series: "kas_usd", fromTs: T0 + 2 * HOUR, toTs: T0 + 5 * HOUR });
+    expect(window.map((bar) => bar.ts)).toEqual([2, 3, 4, 5].map((h) => T0 + h * HOUR));
+    const candles = await store.query({ series: "kas_usd", timeframe: "4h", limit: 2 });
+    expect(candles.map((bar) => [bar.ts, bar.openUsd, bar.priceUsd])).toEqual([[T0 + 4 * HOUR, 0.2, 0.2], [T0 + 8 * HOUR, 0.2, 0.2]]);
+    expect(await store.query({ series: "missing" })).toEqual([]);
+
+    await store.clear("kas_usd");
+    expect(await store.listSeries()).toEqual([]);
+  });
+
+  it("prunes by age and reads only the latest rows for a raw limit", async () => {
+    const backend = createMemoryMarketBackend();
+    const store = createMarketDataStore(backend);
+    await store.upsert("kas-usd", Array.from({ length: 10 }, (_, h) => ({ ts: T0 + h * HOUR, priceUsd: 0.1 + h / 100, daaScore: h, walletKas: 0 })));
+
+    const reads: Array<number | undefined> = [];
+    const range = backend.range;
+    backend.range = (series, fromTs, toTs, limit) => (reads.push(limit), range(series, fromTs, toTs, limit));
+    expect((await store.query({ limit: 3 })).map((bar) => bar.daaScore)).toEqual([7, 8, 9]);
+    expect(await store.query({ timeframe: "4h", limit: 1 })).toHaveLength(1);
+    expect(reads).toEqual([3, undefined]);
+
+    await store.prune("kas-usd", T0 + 6 * HOUR);
+    expect((await store.query()).map((bar) => bar.daaScore)).toEqual([6, 7, 8, 9]);
+  });
+
+  it("records the live feed deduplicated, sampled and pruned to the retention window", async () => {
+    const store = createMarketDataStore(createMemoryMarketBackend());
+    const record = createLiveMarketRecorder(store);
+    const tick = (ts: number, priceUsd: number, daaScore = 1) => record({ ts, priceUsd, daaScore, walletKas: 5 });
+
+    expect(await tick(T0, 0.1)).toBe(true);
+    expect(await tick(T0 + LIVE_MARKET_SAMPLE_MS, 0.1)).toBe(false); // same state
+    expect(await tick(T0 + LIVE_MARKET_SAMPLE_MS / 2, 0.2)).toBe(false); // inside the sample interval
+    expect(await tick(T0 + 2 * LIVE_MARKET_SAMPLE_MS, 0)).toBe(false); // no price
+    expect(await tick(T0 + 2 * LIVE_MARKET_SAMPLE_MS, 0.2)).toBe(true);
+    expect((await store.query({ series: LIVE_MARKET_SERIES })).map((bar) => bar.priceUsd)).toEqual([0.1, 0.2]);
+
+    const later = T0 + LIVE_MARKET_RETENTION_MS + HOUR;
+    expect(await tick(later, 0.3)).toBe(true);
+    expect((await store.query({ series: LIVE_MARKET_SERIES })).map((bar) => bar.ts)).toEqual([later]);
+  });
+});
@@ -68,5 +68,14 @@ describe("runQuantEngineFusion", () => {
     });
     expect(plan.kind).toBe("call");
   });
+
+  it("ages the overlay cache against the supplied clock", () => {
+    const coreDecision = { action: "HOLD", confidence_score: 0.7, risk_score: 0.3, quant_metrics: { data_quality_score: 0.8, sample_count: 20 } };
+    const config = { aiTransportReady: true, aiOverlayMode: "adaptive" as const, minIntervalMs: 15_000, cacheTtlMs: 45_000 };
+    const first = resolveAiOverlayPlan({ coreDecision, cached: null, config, now: 1_000 });
+    const cached = { ts: 1_000, signature: first.signature, decision: {} };
+    expect(resolveAiOverlayPlan({ coreDecision, cached, config, now: 11_000 })).toMatchObject({ kind: "reuse", reason: "cache_hit_min_interval_10000ms" });
+    expect(resolveAiOverlayPlan({ coreDecision, cached, config, now: 61_000 }).kind).toBe(first.kind);
+  });
 });
 
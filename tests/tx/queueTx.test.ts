@@ -78,4 +78,15 @@ describe('queueTx', () => {
     canRawSpy.mockRestore();
     supportSpy.mockRestore();
   });
+
+  it('refuses to broadcast from a watch-only session instead of simulating a txid', async () => {
+    const tx = buildQueueTxItem({
+      id: 'x5',
+      type: 'ACCUMULATE',
+      to: MOCK_USER_ADDR,
+      amount_kas: 1,
+      purpose: 'watch-only',
+    });
+    await expect(broadcastQueueTx({ provider: 'watch', address: MOCK_USER_ADDR }, tx)).rejects.toThrow('WATCH_ONLY_WALLET');
+  });
 });
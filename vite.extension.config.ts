@@ -67,7 +67,7 @@ export default defineConfig({
         content_security_policy: {
           extension_pages: "script-src 'self' 'wasm-unsafe-eval'; object-src 'self'",
         },
-        permissions: ["storage", "alarms", "clipboardWrite", "tabs", "windows"],
+        permissions: ["storage", "alarms", "notifications", "clipboardWrite", "tabs", "windows"],
         host_permissions: [
           "https://api.kaspa.org/*",
           "https://api-tn10.kaspa.org/*",